@@ -0,0 +1,141 @@
+// Thin client for the Figmant public REST API (supabase/functions/api-access). Only the calls the
+// quality gate needs: find the project, upload screenshots, poll jobs and read results.
+
+export const DEFAULT_API_URL = 'https://sdcmbfdtafkzpimwjpij.supabase.co/functions/v1/api-access';
+
+const RATE_LIMIT_WAIT_MS = 60_000;
+const MAX_RATE_LIMIT_RETRIES = 5;
+
+export type Project = {
+  id: string;
+  name: string;
+  role: string;
+};
+
+export type Job = {
+  id: string;
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+  stage: string | null;
+  progress: number;
+  error: string | null;
+};
+
+export type Annotation = {
+  title?: string;
+  description?: string;
+  severity?: string;
+};
+
+export type CriterionScore = {
+  criterionId?: string;
+  name?: string;
+  score?: number;
+};
+
+export type AnalysisResult = {
+  jobId: string;
+  analysisId: string;
+  imageId: string | null;
+  summary: {
+    overallScore?: number;
+    categoryScores?: Record<string, number>;
+    // Present when the project has a rubric
+    criterionScores?: CriterionScore[];
+  } | null;
+  visualAnnotations: Annotation[] | null;
+};
+
+export class ApiRequestError extends Error {
+  constructor(public status: number, public code: string, message: string) {
+    super(message);
+    this.name = 'ApiRequestError';
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export class FigmantApiClient {
+  constructor(private baseUrl: string, private apiKey: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  private async request<T>(method: string, path: string, body?: FormData | Record<string, unknown>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      const headers: Record<string, string> = { 'x-api-key': this.apiKey };
+      let payload: FormData | string | undefined;
+      if (body instanceof FormData) {
+        payload = body;
+      } else if (body) {
+        headers['Content-Type'] = 'application/json';
+        payload = JSON.stringify(body);
+      }
+
+      const res = await fetch(`${this.baseUrl}${path}`, { method, headers, body: payload });
+      if (res.status === 429 && attempt < MAX_RATE_LIMIT_RETRIES) {
+        await sleep(RATE_LIMIT_WAIT_MS);
+        continue;
+      }
+
+      const data = await res.json().catch(() => null) as (T & { error?: string; message?: string }) | null;
+      if (!res.ok) {
+        throw new ApiRequestError(res.status, data?.error ?? 'http_error', data?.message ?? `${method} ${path} failed with HTTP ${res.status}`);
+      }
+      return data as T;
+    }
+  }
+
+  async listProjects(): Promise<Project[]> {
+    const { projects } = await this.request<{ projects: Project[] }>('GET', '/v1/projects');
+    return projects;
+  }
+
+  /**
+   * The project with this id or (case-insensitive) name
+   */
+  async findProject(nameOrId: string): Promise<Project> {
+    const projects = await this.listProjects();
+    const wanted = nameOrId.trim().toLowerCase();
+    const project = projects.find(p => p.id === nameOrId) ?? projects.find(p => p.name.trim().toLowerCase() === wanted);
+    if (!project) {
+      const names = projects.map(p => `"${p.name}"`).join(', ') || 'none';
+      throw new Error(`Project "${nameOrId}" not found. Projects this API key can use: ${names}`);
+    }
+    return project;
+  }
+
+  async createAnalysis(params: { projectId: string; fileName: string; bytes: Uint8Array; contentType: string; userContext?: string }): Promise<string> {
+    const form = new FormData();
+    form.set('projectId', params.projectId);
+    form.set('image', new Blob([params.bytes], { type: params.contentType }), params.fileName);
+    if (params.userContext) form.set('userContext', params.userContext);
+
+    const { jobId } = await this.request<{ jobId: string }>('POST', '/v1/analyses', form);
+    return jobId;
+  }
+
+  getJob(jobId: string): Promise<Job> {
+    return this.request<Job>('GET', `/v1/jobs/${jobId}`);
+  }
+
+  getJobResult(jobId: string): Promise<AnalysisResult> {
+    return this.request<AnalysisResult>('GET', `/v1/jobs/${jobId}/result`);
+  }
+
+  /**
+   * Poll until the job leaves pending/processing. Starts at 5s between polls and backs off to 30s
+   * so long analyses do not eat into the key's hourly rate limit.
+   */
+  async waitForJob(jobId: string, timeoutMs: number): Promise<Job> {
+    const deadline = Date.now() + timeoutMs;
+    let interval = 5_000;
+    for (;;) {
+      const job = await this.getJob(jobId);
+      if (job.status !== 'pending' && job.status !== 'processing') return job;
+      if (Date.now() + interval > deadline) {
+        throw new Error(`Timed out after ${Math.round(timeoutMs / 1000)}s (job ${jobId} at stage ${job.stage ?? 'unknown'}, ${job.progress}%)`);
+      }
+      await sleep(interval);
+      interval = Math.min(30_000, Math.round(interval * 1.5));
+    }
+  }
+}
@@ -0,0 +1,230 @@
+#!/usr/bin/env node
+// figmant-ci: analyze a directory of screenshots (e.g. Playwright output) with the Figmant public
+// API and fail the build when scores cross the configured thresholds.
+//
+// Exit codes: 0 all screenshots pass, 1 at least one threshold failed, 2 usage error or a
+// screenshot could not be analyzed (upload, analysis or timeout failure).
+
+import { appendFile, mkdir, readdir, readFile, stat, writeFile } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { DEFAULT_API_URL, FigmantApiClient } from './api.js';
+import { toJUnitXml, toMarkdown, type RunSummary } from './reports.js';
+import { evaluate, type ScreenshotOutcome, type Thresholds } from './thresholds.js';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp'
+};
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+const DEFAULT_CONFIG_FILE = 'figmant-ci.json';
+
+const USAGE = `Usage: figmant-ci <screenshots-dir> --project <name-or-id> [options]
+
+Options:
+  --project <name|id>         Project to upload to (or "project" in the config file)
+  --config <file>             JSON config (default: ./${DEFAULT_CONFIG_FILE} when present)
+  --min-overall <score>       Fail when a screenshot's overall score is below this
+  --min-category <name=score> Fail when a category score is below this; repeatable
+  --max-high-severity <n>     Fail when a screenshot has more high-severity issues
+  --context <text>            What the analysis should focus on
+  --junit <file>              Write a JUnit XML report
+  --markdown <file>           Write a Markdown summary (also appended to $GITHUB_STEP_SUMMARY)
+  --timeout <seconds>         Per-screenshot wait for the analysis (default 900)
+  --concurrency <n>           Screenshots analyzed in parallel (default 2)
+  --api-url <url>             API base URL (default $FIGMANT_API_URL or the hosted API)
+  -h, --help                  Show this help
+
+The API key is read from $FIGMANT_API_KEY.`;
+
+type Config = {
+  project?: string;
+  context?: string;
+  timeoutSeconds?: number;
+  concurrency?: number;
+  thresholds?: Thresholds;
+};
+
+class UsageError extends Error {}
+
+function toNumber(value: string | undefined, option: string): number | undefined {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!Number.isFinite(n)) throw new UsageError(`${option} must be a number, got "${value}"`);
+  return n;
+}
+
+async function loadConfig(file: string | undefined): Promise<Config> {
+  const configPath = file ?? (existsSync(DEFAULT_CONFIG_FILE) ? DEFAULT_CONFIG_FILE : undefined);
+  if (!configPath) return {};
+  try {
+    return JSON.parse(await readFile(configPath, 'utf8')) as Config;
+  } catch (error) {
+    throw new UsageError(`Could not read config ${configPath}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+async function findScreenshots(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true, recursive: true });
+  return entries
+    .filter(entry => entry.isFile() && CONTENT_TYPES[path.extname(entry.name).toLowerCase()])
+    .map(entry => path.join(entry.parentPath ?? entry.path, entry.name))
+    .sort();
+}
+
+async function runPool<T>(items: T[], concurrency: number, worker: (item: T) => Promise<void>) {
+  let next = 0;
+  const runners = Array.from({ length: Math.min(concurrency, items.length) }, async () => {
+    while (next < items.length) await worker(items[next++]);
+  });
+  await Promise.all(runners);
+}
+
+async function analyzeScreenshot(
+  client: FigmantApiClient,
+  file: string,
+  label: string,
+  options: { projectId: string; context?: string; timeoutMs: number; thresholds: Thresholds }
+): Promise<ScreenshotOutcome> {
+  const startedAt = Date.now();
+  const failed = (error: string, jobId?: string): ScreenshotOutcome => ({
+    file: label,
+    jobId,
+    overallScore: null,
+    categoryScores: {},
+    highSeverityCount: 0,
+    highSeverityTitles: [],
+    violations: [],
+    error,
+    durationMs: Date.now() - startedAt
+  });
+
+  const { size } = await stat(file);
+  if (size > MAX_IMAGE_BYTES) return failed('Screenshot is larger than 10 MB');
+
+  let jobId: string | undefined;
+  try {
+    jobId = await client.createAnalysis({
+      projectId: options.projectId,
+      fileName: path.basename(file),
+      bytes: new Uint8Array(await readFile(file)),
+      contentType: CONTENT_TYPES[path.extname(file).toLowerCase()],
+      userContext: options.context
+    });
+    const job = await client.waitForJob(jobId, options.timeoutMs);
+    if (job.status !== 'completed') return failed(`Analysis ${job.status}${job.error ? `: ${job.error}` : ''}`, jobId);
+
+    const result = await client.getJobResult(jobId);
+    return { file: label, ...evaluate(result, options.thresholds), durationMs: Date.now() - startedAt };
+  } catch (error) {
+    return failed(error instanceof Error ? error.message : String(error), jobId);
+  }
+}
+
+async function main(): Promise<number> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      project: { type: 'string' },
+      config: { type: 'string' },
+      'min-overall': { type: 'string' },
+      'min-category': { type: 'string', multiple: true },
+      'max-high-severity': { type: 'string' },
+      context: { type: 'string' },
+      junit: { type: 'string' },
+      markdown: { type: 'string' },
+      timeout: { type: 'string' },
+      concurrency: { type: 'string' },
+      'api-url': { type: 'string' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const dir = positionals[0];
+  if (!dir) throw new UsageError('Missing the screenshots directory');
+  const config = await loadConfig(values.config);
+
+  const project = values.project ?? config.project;
+  if (!project) throw new UsageError('Missing --project');
+  const apiKey = process.env.FIGMANT_API_KEY;
+  if (!apiKey) throw new UsageError('Set FIGMANT_API_KEY to an API key from the API Access panel');
+
+  // Command-line thresholds override the config file
+  const minCategoryScores = { ...config.thresholds?.minCategoryScores };
+  for (const entry of values['min-category'] ?? []) {
+    const [name, score] = entry.split('=');
+    if (!name || score === undefined) throw new UsageError(`--min-category expects name=score, got "${entry}"`);
+    minCategoryScores[name.trim()] = toNumber(score, '--min-category')!;
+  }
+  const thresholds: Thresholds = {
+    minOverallScore: toNumber(values['min-overall'], '--min-overall') ?? config.thresholds?.minOverallScore,
+    minCategoryScores,
+    maxHighSeverity: toNumber(values['max-high-severity'], '--max-high-severity') ?? config.thresholds?.maxHighSeverity
+  };
+  const timeoutMs = (toNumber(values.timeout, '--timeout') ?? config.timeoutSeconds ?? 900) * 1000;
+  const concurrency = Math.max(1, Math.floor(toNumber(values.concurrency, '--concurrency') ?? config.concurrency ?? 2));
+  const context = values.context ?? config.context;
+
+  const screenshots = await findScreenshots(dir).catch(() => {
+    throw new UsageError(`Cannot read directory ${dir}`);
+  });
+  if (screenshots.length === 0) throw new UsageError(`No PNG, JPEG, GIF or WebP files in ${dir}`);
+
+  const client = new FigmantApiClient(values['api-url'] ?? process.env.FIGMANT_API_URL ?? DEFAULT_API_URL, apiKey);
+  const target = await client.findProject(project);
+  console.log(`Analyzing ${screenshots.length} screenshot(s) in project "${target.name}"`);
+
+  const startedAt = new Date();
+  const outcomes = new Map<string, ScreenshotOutcome>();
+  await runPool(screenshots, concurrency, async file => {
+    const label = path.relative(dir, file);
+    const outcome = await analyzeScreenshot(client, file, label, { projectId: target.id, context, timeoutMs, thresholds });
+    outcomes.set(file, outcome);
+    const status = outcome.error ? `ERROR ${outcome.error}` : outcome.violations.length > 0 ? 'FAIL' : 'PASS';
+    console.log(`  ${status.padEnd(4)} ${label} (overall ${outcome.overallScore ?? 'n/a'}, high severity ${outcome.highSeverityCount})`);
+    for (const violation of outcome.violations) console.log(`         ${violation.message}`);
+  });
+
+  const run: RunSummary = {
+    project: target.name,
+    thresholds,
+    outcomes: screenshots.map(file => outcomes.get(file)!),
+    startedAt,
+    durationMs: Date.now() - startedAt.getTime()
+  };
+
+  if (values.junit) {
+    await mkdir(path.dirname(path.resolve(values.junit)), { recursive: true });
+    await writeFile(values.junit, toJUnitXml(run));
+  }
+  const markdown = toMarkdown(run);
+  if (values.markdown) {
+    await mkdir(path.dirname(path.resolve(values.markdown)), { recursive: true });
+    await writeFile(values.markdown, markdown);
+  }
+  if (process.env.GITHUB_STEP_SUMMARY) await appendFile(process.env.GITHUB_STEP_SUMMARY, markdown);
+
+  const failed = run.outcomes.filter(o => !o.error && o.violations.length > 0).length;
+  const errored = run.outcomes.filter(o => o.error).length;
+  console.log(`${run.outcomes.length - failed - errored} passed, ${failed} failed, ${errored} errored`);
+  if (failed > 0) return 1;
+  return errored > 0 ? 2 : 0;
+}
+
+main().then(
+  code => process.exit(code),
+  error => {
+    console.error(`figmant-ci: ${error instanceof Error ? error.message : error}`);
+    if (error instanceof UsageError) console.error(`\n${USAGE}`);
+    process.exit(2);
+  }
+);
@@ -0,0 +1,116 @@
+// JUnit XML (one test case per screenshot) and Markdown summaries for CI systems.
+
+import { describeThresholds, type ScreenshotOutcome, type Thresholds } from './thresholds.js';
+
+export type RunSummary = {
+  project: string;
+  thresholds: Thresholds;
+  outcomes: ScreenshotOutcome[];
+  startedAt: Date;
+  durationMs: number;
+};
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const escapeMarkdown = (value: string) => value.replace(/\|/g, '\\|').replace(/</g, '&lt;').replace(/\r?\n/g, ' ');
+
+const seconds = (ms: number) => (ms / 1000).toFixed(3);
+
+function outcomeDetails(outcome: ScreenshotOutcome): string {
+  const lines = [
+    `Overall score: ${outcome.overallScore ?? 'n/a'}`,
+    ...Object.entries(outcome.categoryScores).map(([name, score]) => `${name}: ${score}`),
+    `High-severity issues: ${outcome.highSeverityCount}`,
+    ...outcome.highSeverityTitles.map(title => `  - ${title}`)
+  ];
+  if (outcome.analysisId) lines.push(`Analysis: ${outcome.analysisId}`);
+  return lines.join('\n');
+}
+
+export function toJUnitXml(run: RunSummary): string {
+  const failures = run.outcomes.filter(o => !o.error && o.violations.length > 0).length;
+  const errors = run.outcomes.filter(o => o.error).length;
+
+  const cases = run.outcomes.map(outcome => {
+    const attrs = `name="${escapeXml(outcome.file)}" classname="figmant.${escapeXml(run.project)}" time="${seconds(outcome.durationMs)}"`;
+    if (outcome.error) {
+      return `    <testcase ${attrs}>\n      <error message="${escapeXml(outcome.error)}"/>\n    </testcase>`;
+    }
+    const details = `      <system-out>${escapeXml(outcomeDetails(outcome))}</system-out>`;
+    if (outcome.violations.length === 0) {
+      return `    <testcase ${attrs}>\n${details}\n    </testcase>`;
+    }
+    const message = outcome.violations.map(v => v.message).join('; ');
+    const body = outcome.violations.map(v => `${v.check}: ${v.message}`).join('\n');
+    return [
+      `    <testcase ${attrs}>`,
+      `      <failure message="${escapeXml(message)}" type="threshold">${escapeXml(body)}</failure>`,
+      details,
+      '    </testcase>'
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="figmant-ci" tests="${run.outcomes.length}" failures="${failures}" errors="${errors}" time="${seconds(run.durationMs)}">`,
+    `  <testsuite name="UX quality gate (${escapeXml(run.project)})" tests="${run.outcomes.length}" failures="${failures}" errors="${errors}" time="${seconds(run.durationMs)}" timestamp="${run.startedAt.toISOString()}">`,
+    ...cases,
+    '  </testsuite>',
+    '</testsuites>',
+    ''
+  ].join('\n');
+}
+
+export function toMarkdown(run: RunSummary): string {
+  const failed = run.outcomes.filter(o => !o.error && o.violations.length > 0);
+  const errored = run.outcomes.filter(o => o.error);
+  const passed = run.outcomes.length - failed.length - errored.length;
+
+  const categories = [...new Set(run.outcomes.flatMap(o => Object.keys(o.categoryScores)))].sort();
+  const thresholds = describeThresholds(run.thresholds);
+
+  const icon = failed.length > 0 || errored.length > 0 ? '❌' : '✅';
+  const lines = [
+    `## ${icon} UX quality gate: ${run.project}`,
+    '',
+    `${passed} passed, ${failed.length} failed, ${errored.length} errored · ${Math.round(run.durationMs / 1000)}s`,
+    '',
+    thresholds.length > 0 ? `Thresholds: ${thresholds.join(', ')}` : 'No thresholds configured; scores are reported only.',
+    '',
+    `| Screenshot | Result | Overall | ${categories.map(c => escapeMarkdown(c)).join(' | ')}${categories.length ? ' | ' : ''}High severity |`,
+    `| --- | --- | --- | ${categories.map(() => '---').join(' | ')}${categories.length ? ' | ' : ''}--- |`
+  ];
+
+  for (const outcome of run.outcomes) {
+    const result = outcome.error ? '⚠️ error' : outcome.violations.length > 0 ? '❌ fail' : '✅ pass';
+    const cells = categories.map(c => (outcome.categoryScores[c] ?? '–').toString());
+    lines.push(
+      `| ${escapeMarkdown(outcome.file)} | ${result} | ${outcome.overallScore ?? '–'} | ${cells.join(' | ')}${cells.length ? ' | ' : ''}${outcome.error ? '–' : outcome.highSeverityCount} |`
+    );
+  }
+
+  if (failed.length > 0) {
+    lines.push('', '### Failures', '');
+    for (const outcome of failed) {
+      lines.push(`**${escapeMarkdown(outcome.file)}**`, '');
+      for (const violation of outcome.violations) lines.push(`- ${escapeMarkdown(violation.message)}`);
+      if (outcome.violations.some(v => v.check === 'highSeverity')) {
+        for (const title of outcome.highSeverityTitles) lines.push(`  - ${escapeMarkdown(title)}`);
+      }
+      lines.push('');
+    }
+  }
+
+  if (errored.length > 0) {
+    lines.push('', '### Errors', '');
+    for (const outcome of errored) lines.push(`- **${escapeMarkdown(outcome.file)}**: ${escapeMarkdown(outcome.error ?? '')}`);
+  }
+
+  return lines.join('\n').trimEnd() + '\n';
+}
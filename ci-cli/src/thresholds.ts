@@ -0,0 +1,99 @@
+// Quality-gate thresholds and their evaluation against one analysis result.
+
+import type { AnalysisResult } from './api.js';
+
+export type Thresholds = {
+  // Fail when summary.overallScore is below this (0-100)
+  minOverallScore?: number;
+  // Fail when a category score (usability, accessibility, visual, content, or a rubric criterion by name or id) is below its minimum
+  minCategoryScores?: Record<string, number>;
+  // Fail when there are more high-severity annotations than this
+  maxHighSeverity?: number;
+};
+
+export type Violation = {
+  check: string;
+  message: string;
+};
+
+export type ScreenshotOutcome = {
+  file: string;
+  jobId?: string;
+  analysisId?: string;
+  overallScore: number | null;
+  categoryScores: Record<string, number>;
+  highSeverityCount: number;
+  highSeverityTitles: string[];
+  violations: Violation[];
+  // Upload, analysis or timeout failure; the thresholds were not evaluated
+  error?: string;
+  durationMs: number;
+};
+
+const HIGH_SEVERITIES = new Set(['high', 'critical']);
+
+export function evaluate(result: AnalysisResult, thresholds: Thresholds): Omit<ScreenshotOutcome, 'file' | 'durationMs'> {
+  const summary = result.summary ?? {};
+  const overallScore = typeof summary.overallScore === 'number' ? summary.overallScore : null;
+  const categoryScores: Record<string, number> = {};
+  for (const [name, value] of Object.entries(summary.categoryScores ?? {})) {
+    if (typeof value === 'number' && Number.isFinite(value)) categoryScores[name] = value;
+  }
+  // Rubric criteria are scored in criterionScores; a threshold may name a criterion or give its id
+  const criterionIds: Record<string, string> = {};
+  for (const criterion of summary.criterionScores ?? []) {
+    if (typeof criterion?.score !== 'number' || !Number.isFinite(criterion.score)) continue;
+    const name = criterion.name || criterion.criterionId;
+    if (!name || name in categoryScores) continue;
+    categoryScores[name] = criterion.score;
+    if (criterion.criterionId) criterionIds[criterion.criterionId.toLowerCase()] = name;
+  }
+  const high = (result.visualAnnotations ?? []).filter(a => HIGH_SEVERITIES.has(String(a.severity ?? '').toLowerCase()));
+
+  const violations: Violation[] = [];
+  if (thresholds.minOverallScore !== undefined) {
+    if (overallScore === null) {
+      violations.push({ check: 'overallScore', message: 'The analysis has no overall score' });
+    } else if (overallScore < thresholds.minOverallScore) {
+      violations.push({ check: 'overallScore', message: `Overall score ${overallScore} is below ${thresholds.minOverallScore}` });
+    }
+  }
+
+  for (const [category, minimum] of Object.entries(thresholds.minCategoryScores ?? {})) {
+    // Score keys are matched case-insensitively ("Accessibility" vs "accessibility")
+    const key = Object.keys(categoryScores).find(k => k.toLowerCase() === category.toLowerCase())
+      ?? criterionIds[category.toLowerCase()];
+    if (key === undefined) {
+      violations.push({ check: `category:${category}`, message: `The analysis has no "${category}" score` });
+    } else if (categoryScores[key] < minimum) {
+      violations.push({ check: `category:${category}`, message: `${key} score ${categoryScores[key]} is below ${minimum}` });
+    }
+  }
+
+  if (thresholds.maxHighSeverity !== undefined && high.length > thresholds.maxHighSeverity) {
+    violations.push({
+      check: 'highSeverity',
+      message: `${high.length} high-severity issue${high.length === 1 ? '' : 's'} (maximum ${thresholds.maxHighSeverity})`
+    });
+  }
+
+  return {
+    jobId: result.jobId,
+    analysisId: result.analysisId,
+    overallScore,
+    categoryScores,
+    highSeverityCount: high.length,
+    highSeverityTitles: high.map(a => a.title || a.description || 'Untitled issue'),
+    violations
+  };
+}
+
+export function describeThresholds(thresholds: Thresholds): string[] {
+  const lines: string[] = [];
+  if (thresholds.minOverallScore !== undefined) lines.push(`overall score >= ${thresholds.minOverallScore}`);
+  for (const [category, minimum] of Object.entries(thresholds.minCategoryScores ?? {})) {
+    lines.push(`${category} >= ${minimum}`);
+  }
+  if (thresholds.maxHighSeverity !== undefined) lines.push(`high-severity issues <= ${thresholds.maxHighSeverity}`);
+  return lines;
+}
@@ -0,0 +1,31 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { evaluate } from '../dist/thresholds.js';
+
+const result = (summary) => ({ jobId: 'job-1', analysisId: 'analysis-1', imageId: null, summary, visualAnnotations: [] });
+
+test('rubric criteria count as categories by name and by criterionId', () => {
+  const outcome = evaluate(
+    result({
+      overallScore: 72,
+      categoryScores: { accessibility: 80 },
+      criterionScores: [
+        { criterionId: 'crit-cta', name: 'Clear call to action', weight: 2, score: 55 },
+        { criterionId: 'crit-trust', name: 'Trust signals', weight: 1, score: 90 }
+      ]
+    }),
+    { minCategoryScores: { accessibility: 75, 'clear call to action': 60, 'crit-trust': 85 } }
+  );
+
+  assert.deepEqual(outcome.categoryScores, { accessibility: 80, 'Clear call to action': 55, 'Trust signals': 90 });
+  assert.deepEqual(outcome.violations, [
+    { check: 'category:clear call to action', message: 'Clear call to action score 55 is below 60' }
+  ]);
+});
+
+test('a criterion the analysis did not score is reported as missing', () => {
+  const outcome = evaluate(result({ criterionScores: [] }), { minCategoryScores: { 'Trust signals': 50 } });
+  assert.deepEqual(outcome.violations, [
+    { check: 'category:Trust signals', message: 'The analysis has no "Trust signals" score' }
+  ]);
+});
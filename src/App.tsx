@@ -8,6 +8,7 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { FinalAppProvider } from "./context/FinalAppContext";
 import { AuthProvider } from "./context/AuthContext";
 import { AIProvider } from "./context/AIContext";
+import { WorkspaceProvider } from "./context/WorkspaceContext";
 // Performance monitoring disabled for production
 import { RouteErrorBoundary } from "./components/RouteErrorBoundary";
 import { useInngestJobEmitter } from "./hooks/useInngestJobEmitter";
@@ -36,6 +37,7 @@ const GroupAnalysisTestingPage = lazy(() => import("./pages/GroupAnalysisTesting
 const AnalysisV2 = lazy(() => import("./pages/AnalysisV2"));
 const GroupAnalysisV2 = lazy(() => import("./pages/GroupAnalysisV2"));
 const JobStatus = lazy(() => import("./pages/JobStatus"));
+const AcceptInvitation = lazy(() => import("./pages/AcceptInvitation"));
 
 const queryClient = new QueryClient();
 
@@ -54,6 +56,7 @@ const App = () => {
           
           <BrowserRouter>
           <AuthProvider>
+            <WorkspaceProvider>
             <AIProvider>
               <FinalAppProvider>
                 
@@ -103,6 +106,13 @@ const App = () => {
                         </ProtectedRoute>
                       </RouteErrorBoundary>
                     } />
+                    <Route path="/invite/:token" element={
+                      <RouteErrorBoundary routeName="Accept Invitation" fallbackRoute="/dashboard">
+                        <ProtectedRoute>
+                          <AcceptInvitation />
+                        </ProtectedRoute>
+                      </RouteErrorBoundary>
+                    } />
                     <Route path="/admin" element={
                       <RouteErrorBoundary routeName="Admin" fallbackRoute="/dashboard">
                         <AdminOnlyRoute>
@@ -135,14 +145,14 @@ const App = () => {
 {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
 <Route path="/analysis-v2" element={
   <RouteErrorBoundary routeName="AnalysisV2" fallbackRoute="/dashboard">
-    <ProtectedRoute>
+    <ProtectedRoute requiredRole="editor">
       <AnalysisV2 />
     </ProtectedRoute>
   </RouteErrorBoundary>
 } />
 <Route path="/group-analysis-v2" element={
   <RouteErrorBoundary routeName="GroupAnalysisV2" fallbackRoute="/dashboard">
-    <ProtectedRoute>
+    <ProtectedRoute requiredRole="editor">
       <GroupAnalysisV2 />
     </ProtectedRoute>
   </RouteErrorBoundary>
@@ -170,6 +180,7 @@ const App = () => {
                 </Suspense>
               </FinalAppProvider>
             </AIProvider>
+            </WorkspaceProvider>
           </AuthProvider>
           </BrowserRouter>
         </TooltipProvider>
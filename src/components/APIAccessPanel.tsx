@@ -204,17 +204,12 @@ export const APIAccessPanel = React.memo(() => {
     return key.substring(0, 8) + '••••••••••••••••••••••••••••••••••••••••••••••••••••••••••••••••••••••';
   };
 
+  // Logged endpoints are "<METHOD> <route>", e.g. "POST /v1/analyses"
   const getEndpointBadgeColor = (endpoint: string) => {
-    switch (endpoint) {
-      case '/analyze':
-        return 'bg-blue-500';
-      case '/status':
-        return 'bg-green-500';
-      case '/models':
-        return 'bg-purple-500';
-      default:
-        return 'bg-gray-500';
-    }
+    if (endpoint.startsWith('POST')) return 'bg-blue-500';
+    if (endpoint.includes('/status')) return 'bg-green-500';
+    if (endpoint.includes('/jobs') || endpoint.includes('/group-jobs')) return 'bg-purple-500';
+    return 'bg-gray-500';
   };
 
   return (
@@ -233,13 +228,29 @@ export const APIAccessPanel = React.memo(() => {
               <div className="text-sm text-muted-foreground space-y-2">
                 <p><strong>Base URL:</strong> <code>https://sdcmbfdtafkzpimwjpij.supabase.co/functions/v1/api-access</code></p>
                 <p><strong>Authentication:</strong> Include your API key in the <code>x-api-key</code> header</p>
+                <p><strong>Rate limit:</strong> Each key allows its rate limit in requests per hour; further requests get HTTP 429</p>
                 <div className="mt-3">
                   <p><strong>Available Endpoints:</strong></p>
                   <ul className="list-disc list-inside mt-1 space-y-1">
-                    <li><code>POST /analyze</code> - Analyze an image for UX insights</li>
-                    <li><code>GET /status</code> - Check API status and usage</li>
-                    <li><code>GET /models</code> - List available AI models</li>
+                    <li><code>POST /v1/analyses</code> - Analyze an uploaded image or an image URL</li>
+                    <li><code>GET /v1/jobs/:jobId</code> - Poll an analysis job</li>
+                    <li><code>GET /v1/jobs/:jobId/result</code> - Fetch the result of a completed analysis</li>
+                    <li><code>POST /v1/group-analyses</code> - Analyze several project images together</li>
+                    <li><code>GET /v1/group-jobs/:groupJobId</code> and <code>/result</code> - Poll and fetch group analyses</li>
+                    <li><code>GET /v1/projects</code> and <code>GET /v1/projects/:projectId/images</code> - List projects and images</li>
+                    <li><code>GET /v1/status</code> - Check API key status and usage</li>
                   </ul>
+                  <p className="mt-2">
+                    Full reference:{' '}
+                    <a
+                      className="underline"
+                      href="https://sdcmbfdtafkzpimwjpij.supabase.co/functions/v1/api-access/v1/openapi.json"
+                      target="_blank"
+                      rel="noreferrer"
+                    >
+                      OpenAPI document
+                    </a>
+                  </p>
                 </div>
               </div>
             </div>
@@ -453,26 +464,36 @@ export const APIAccessPanel = React.memo(() => {
                     </CardHeader>
                     <CardContent>
                       <pre className="bg-muted p-4 rounded-lg text-sm overflow-x-auto">
-{`curl -X POST "https://sdcmbfdtafkzpimwjpij.supabase.co/functions/v1/api-access/analyze" \\
+{`curl -X POST "https://sdcmbfdtafkzpimwjpij.supabase.co/functions/v1/api-access/v1/analyses" \\
   -H "x-api-key: YOUR_API_KEY" \\
   -H "Content-Type: application/json" \\
   -d '{
+    "projectId": "YOUR_PROJECT_ID",
     "imageUrl": "https://example.com/image.jpg",
     "imageName": "homepage-design.jpg",
-    "userContext": "Analyze this landing page design",
-    "aiModel": "auto"
-  }'`}
+    "userContext": "Analyze this landing page design"
+  }'
+
+# Or upload a file
+curl -X POST "https://sdcmbfdtafkzpimwjpij.supabase.co/functions/v1/api-access/v1/analyses" \\
+  -H "x-api-key: YOUR_API_KEY" \\
+  -F "projectId=YOUR_PROJECT_ID" \\
+  -F "image=@homepage-design.png"`}
                       </pre>
                     </CardContent>
                   </Card>
 
                   <Card>
                     <CardHeader>
-                      <CardTitle className="text-base">Check Status</CardTitle>
+                      <CardTitle className="text-base">Poll the Job and Fetch the Result</CardTitle>
                     </CardHeader>
                     <CardContent>
                       <pre className="bg-muted p-4 rounded-lg text-sm overflow-x-auto">
-{`curl -X GET "https://sdcmbfdtafkzpimwjpij.supabase.co/functions/v1/api-access/status" \\
+{`curl -X GET "https://sdcmbfdtafkzpimwjpij.supabase.co/functions/v1/api-access/v1/jobs/JOB_ID" \\
+  -H "x-api-key: YOUR_API_KEY"
+
+# Once "status" is "completed"
+curl -X GET "https://sdcmbfdtafkzpimwjpij.supabase.co/functions/v1/api-access/v1/jobs/JOB_ID/result" \\
   -H "x-api-key: YOUR_API_KEY"`}
                       </pre>
                     </CardContent>
@@ -480,11 +501,11 @@ export const APIAccessPanel = React.memo(() => {
 
                   <Card>
                     <CardHeader>
-                      <CardTitle className="text-base">List Models</CardTitle>
+                      <CardTitle className="text-base">List Projects</CardTitle>
                     </CardHeader>
                     <CardContent>
                       <pre className="bg-muted p-4 rounded-lg text-sm overflow-x-auto">
-{`curl -X GET "https://sdcmbfdtafkzpimwjpij.supabase.co/functions/v1/api-access/models" \\
+{`curl -X GET "https://sdcmbfdtafkzpimwjpij.supabase.co/functions/v1/api-access/v1/projects" \\
   -H "x-api-key: YOUR_API_KEY"`}
                       </pre>
                     </CardContent>
@@ -0,0 +1,234 @@
+/**
+ * Analysis Diff View
+ * Side-by-side comparison of two analysis versions with a copyable changelog
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Textarea } from '@/components/ui/textarea';
+import { ArrowDownRight, ArrowUpRight, CheckCircle2, Copy, Minus, PlusCircle, RefreshCw } from 'lucide-react';
+import { AnalysisDiffService, type AnalysisDiff, type ScoreDelta, type VersionedAnalysis } from '@/services/AnalysisDiffService';
+import type { AnnotationPoint } from '@/types/ux-analysis';
+import { toast } from '@/hooks/use-toast';
+
+interface AnalysisDiffViewProps {
+  previousAnalysisId: string;
+  currentAnalysisId: string;
+}
+
+type MarkerTone = 'removed' | 'added' | 'moved' | 'unchanged';
+
+const markerClasses: Record<MarkerTone, string> = {
+  removed: 'bg-red-500',
+  added: 'bg-green-500',
+  moved: 'bg-amber-500',
+  unchanged: 'bg-muted-foreground/60'
+};
+
+const toPercent = (value: number) => `${(value > 1 ? value : value * 100).toFixed(2)}%`;
+
+const AnnotatedScreenshot: React.FC<{
+  version: VersionedAnalysis;
+  markers: Array<{ annotation: AnnotationPoint; tone: MarkerTone }>;
+}> = ({ version, markers }) => (
+  <div className="space-y-2">
+    <div className="flex items-center gap-2">
+      <Badge variant="outline">{version.version != null ? `v${version.version}` : 'version'}</Badge>
+      <span className="text-xs text-muted-foreground">
+        {version.analysis.createdAt ? new Date(version.analysis.createdAt).toLocaleString() : ''}
+      </span>
+    </div>
+    <div className="relative rounded-md border overflow-hidden bg-muted">
+      {version.analysis.imageUrl ? (
+        <img src={version.analysis.imageUrl} alt={version.analysis.imageName} className="w-full h-auto block" />
+      ) : (
+        <div className="aspect-video" />
+      )}
+      {markers.map(({ annotation, tone }) => (
+        <div
+          key={annotation.id}
+          title={annotation.title}
+          className={`absolute h-3 w-3 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white shadow ${markerClasses[tone]}`}
+          style={{ left: toPercent(annotation.x), top: toPercent(annotation.y) }}
+        />
+      ))}
+    </div>
+  </div>
+);
+
+const ScoreRow: React.FC<{ delta: ScoreDelta }> = ({ delta }) => {
+  const Icon = delta.delta == null || delta.delta === 0 ? Minus : delta.delta > 0 ? ArrowUpRight : ArrowDownRight;
+  const tone = delta.delta == null || delta.delta === 0
+    ? 'text-muted-foreground'
+    : delta.delta > 0 ? 'text-green-600' : 'text-red-600';
+
+  return (
+    <div className="flex items-center justify-between text-sm py-1">
+      <span className="capitalize">{delta.key}</span>
+      <span className="flex items-center gap-2">
+        <span className="text-muted-foreground">{delta.previous ?? '–'} → {delta.current ?? '–'}</span>
+        <span className={`flex items-center gap-0.5 font-medium ${tone}`}>
+          <Icon className="h-3 w-3" />
+          {delta.delta == null ? 'n/a' : `${delta.delta > 0 ? '+' : ''}${delta.delta}`}
+        </span>
+      </span>
+    </div>
+  );
+};
+
+export const AnalysisDiffView: React.FC<AnalysisDiffViewProps> = ({
+  previousAnalysisId,
+  currentAnalysisId
+}) => {
+  const [diff, setDiff] = useState<AnalysisDiff | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      const [previous, current] = await Promise.all([
+        AnalysisDiffService.loadVersion(previousAnalysisId),
+        AnalysisDiffService.loadVersion(currentAnalysisId)
+      ]);
+      if (!mounted) return;
+      if (!previous || !current) {
+        setError('Failed to load one of the analysis versions');
+        setDiff(null);
+      } else {
+        setDiff(AnalysisDiffService.diff(previous, current));
+      }
+      setLoading(false);
+    };
+    load();
+    return () => {
+      mounted = false;
+    };
+  }, [previousAnalysisId, currentAnalysisId]);
+
+  const changelog = useMemo(() => (diff ? AnalysisDiffService.toChangelogMarkdown(diff) : ''), [diff]);
+
+  const handleCopyChangelog = async () => {
+    try {
+      await navigator.clipboard.writeText(changelog);
+      toast({ title: 'Copied', description: 'Changelog copied to clipboard' });
+    } catch (err) {
+      console.error('Failed to copy changelog:', err);
+      toast({ title: 'Error', description: 'Failed to copy changelog', variant: 'destructive' });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (error || !diff) {
+    return <p className="text-sm text-destructive py-8 text-center">{error || 'Nothing to compare'}</p>;
+  }
+
+  const movedIds = new Set(diff.annotations.matched.filter(m => m.moved).map(m => m.current.id));
+  const previousMarkers = [
+    ...diff.annotations.removed.map(annotation => ({ annotation, tone: 'removed' as MarkerTone })),
+    ...diff.annotations.matched.map(m => ({
+      annotation: m.previous,
+      tone: (m.moved ? 'moved' : 'unchanged') as MarkerTone
+    }))
+  ];
+  const currentMarkers = [
+    ...diff.annotations.added.map(annotation => ({ annotation, tone: 'added' as MarkerTone })),
+    ...diff.annotations.matched.map(m => ({
+      annotation: m.current,
+      tone: (movedIds.has(m.current.id) ? 'moved' : 'unchanged') as MarkerTone
+    }))
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <AnnotatedScreenshot version={diff.previous} markers={previousMarkers} />
+        <AnnotatedScreenshot version={diff.current} markers={currentMarkers} />
+      </div>
+
+      <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+        <span className="flex items-center gap-1"><span className="h-2 w-2 rounded-full bg-red-500" /> Removed</span>
+        <span className="flex items-center gap-1"><span className="h-2 w-2 rounded-full bg-green-500" /> New</span>
+        <span className="flex items-center gap-1"><span className="h-2 w-2 rounded-full bg-amber-500" /> Moved</span>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm">Score changes</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ScoreRow delta={diff.overallScore} />
+            {diff.categoryScores.map(delta => (
+              <ScoreRow key={delta.key} delta={delta} />
+            ))}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm">Suggestions</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ScrollArea className="h-48">
+              <div className="space-y-3 text-sm">
+                {diff.suggestions.resolved.map(s => (
+                  <div key={`resolved-${s.id}`} className="flex items-start gap-2">
+                    <CheckCircle2 className="h-4 w-4 text-green-600 mt-0.5 flex-shrink-0" />
+                    <span className="line-through text-muted-foreground">{s.title}</span>
+                  </div>
+                ))}
+                {diff.suggestions.added.map(s => (
+                  <div key={`added-${s.id}`} className="flex items-start gap-2">
+                    <PlusCircle className="h-4 w-4 text-red-600 mt-0.5 flex-shrink-0" />
+                    <span>{s.title}</span>
+                    <Badge variant="outline" className="text-xs">{s.impact}</Badge>
+                  </div>
+                ))}
+                {diff.suggestions.persisting.map(p => (
+                  <div key={`persisting-${p.current.id}`} className="flex items-start gap-2">
+                    <RefreshCw className="h-4 w-4 text-amber-600 mt-0.5 flex-shrink-0" />
+                    <span>{p.current.title}</span>
+                    {p.impactChanged && (
+                      <Badge variant="secondary" className="text-xs">{p.previous.impact} → {p.current.impact}</Badge>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+            <div className="flex gap-2 mt-3">
+              <Badge variant="outline">{diff.suggestions.resolved.length} resolved</Badge>
+              <Badge variant="outline">{diff.suggestions.added.length} new</Badge>
+              <Badge variant="outline">{diff.suggestions.persisting.length} persisting</Badge>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+          <CardTitle className="text-sm">Changelog</CardTitle>
+          <Button size="sm" variant="outline" className="flex items-center gap-2" onClick={handleCopyChangelog}>
+            <Copy className="h-3 w-3" />
+            Copy Markdown
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <Textarea readOnly value={changelog} className="font-mono text-xs min-h-[160px]" />
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
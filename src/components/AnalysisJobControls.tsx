@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Loader2, RotateCcw, Square } from 'lucide-react';
+import { toast } from 'sonner';
+import { AnalysisJobControlService, STAGE_NAMES, stageName, type JobKind } from '@/services/AnalysisJobControlService';
+
+interface Props {
+  kind: JobKind;
+  jobId: string;
+  status: string;
+  currentStage?: string | null;
+  // Called after a retry was accepted, with the stages whose saved output is reused
+  onRetried?: (reused: string[]) => void;
+}
+
+/**
+ * Cancel a running job, or retry a failed or cancelled one from the stage it stopped at
+ */
+export const AnalysisJobControls: React.FC<Props> = ({ kind, jobId, status, currentStage, onRetried }) => {
+  const [busy, setBusy] = useState<'cancel' | 'retry' | null>(null);
+
+  const isRunning = status === 'pending' || status === 'processing';
+  const canRetry = status === 'failed' || status === 'cancelled';
+  if (!isRunning && !canRetry) return null;
+
+  const handleCancel = async () => {
+    setBusy('cancel');
+    try {
+      await AnalysisJobControlService.cancel({ kind, id: jobId });
+      toast.info('Analysis cancelled');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to cancel analysis');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleRetry = async () => {
+    setBusy('retry');
+    try {
+      const { reused, budgetWarning } = await AnalysisJobControlService.retry({ kind, id: jobId });
+      if (budgetWarning) toast.warning(budgetWarning);
+      toast.success(
+        reused.length > 0
+          ? `Retrying; reusing ${reused.map(stageName).join(', ')}`
+          : 'Retrying analysis'
+      );
+      onRetried?.(reused);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to retry analysis');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {isRunning && (
+        <Button size="sm" variant="outline" onClick={handleCancel} disabled={busy !== null}>
+          {busy === 'cancel' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Square className="mr-2 h-4 w-4" />}
+          Cancel
+        </Button>
+      )}
+      {canRetry && (
+        <Button size="sm" onClick={handleRetry} disabled={busy !== null}>
+          {busy === 'retry' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RotateCcw className="mr-2 h-4 w-4" />}
+          {status === 'cancelled'
+            ? 'Resume analysis'
+            : currentStage && STAGE_NAMES[currentStage]
+              ? `Retry from ${STAGE_NAMES[currentStage].toLowerCase()}`
+              : 'Retry from failed stage'}
+        </Button>
+      )}
+    </div>
+  );
+};
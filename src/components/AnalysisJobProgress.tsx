@@ -2,22 +2,26 @@ import React from 'react';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { AnalysisJob } from '@/hooks/useAnalysisJob';
+import { AnalysisJobControls } from '@/components/AnalysisJobControls';
 
 interface Props {
   job: AnalysisJob | null;
+  // Show cancel / retry actions (hide where the caller drives the job lifecycle itself)
+  showControls?: boolean;
 }
 
-export const AnalysisJobProgress: React.FC<Props> = ({ job }) => {
+export const AnalysisJobProgress: React.FC<Props> = ({ job, showControls = true }) => {
   if (!job) return null;
 
   const pct = Math.max(0, Math.min(100, job.progress ?? 0));
   const isDone = job.status === 'completed';
   const isFail = job.status === 'failed';
+  const isCancelled = job.status === 'cancelled';
 
   return (
     <section className="space-y-3">
       <div className="flex items-center gap-2">
-        <Badge variant={isDone ? 'default' : isFail ? 'destructive' : 'secondary'}>
+        <Badge variant={isDone ? 'default' : isFail ? 'destructive' : isCancelled ? 'outline' : 'secondary'}>
           {job.status}
         </Badge>
         {job.current_stage && (
@@ -25,9 +29,12 @@ export const AnalysisJobProgress: React.FC<Props> = ({ job }) => {
         )}
       </div>
       <Progress value={isDone ? 100 : pct} />
-      {job.error && (
+      {job.error && !isCancelled && (
         <p className="text-sm text-destructive">{job.error}</p>
       )}
+      {showControls && (
+        <AnalysisJobControls kind="analysis" jobId={job.id} status={job.status} currentStage={job.current_stage} />
+      )}
     </section>
   );
 };
@@ -6,9 +6,16 @@ import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { Separator } from '@/components/ui/separator';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { AnalysisVersionManager } from './AnalysisVersionManager';
 import { StrategicInsightsPanel } from './StrategicInsightsPanel';
+import { IssueExportDialog } from './IssueExportDialog';
+import { AnnotationThread } from './AnnotationThread';
+import { FindingConsensusBadges } from './FindingConsensusBadges';
+import { useAnnotationThreads } from '@/hooks/useAnnotationThreads';
+import { AnnotationThreadService } from '@/services/AnnotationThreadService';
 import { analysisService } from '@/services/TypeSafeAnalysisService';
+import { CONSENSUS_FILTER_LABELS, hasConsensus, matchesConsensusFilter, type ConsensusFilter } from '@/utils/findingConsensus';
 import { toast } from '@/hooks/use-toast';
 import { 
   AlertCircle, 
@@ -21,7 +28,8 @@ import {
   Users,
   TrendingUp,
   RotateCcw,
-  History
+  History,
+  Ticket
 } from 'lucide-react';
 
 interface AnalysisPanelProps {
@@ -42,6 +50,9 @@ export const AnalysisPanel: React.FC<AnalysisPanelProps> = memo(({
 }) => {
   const [currentAnalysis, setCurrentAnalysis] = useState<UXAnalysis | null>(analysis);
   const [isReAnalyzing, setIsReAnalyzing] = useState(false);
+  const [isIssueExportOpen, setIsIssueExportOpen] = useState(false);
+  const [consensusFilter, setConsensusFilter] = useState<ConsensusFilter>('all');
+  const { threads, members, refresh: refreshThreads } = useAnnotationThreads(currentAnalysis?.id);
 
   // Update current analysis when prop changes
   useEffect(() => {
@@ -50,6 +61,8 @@ export const AnalysisPanel: React.FC<AnalysisPanelProps> = memo(({
 
   if (!currentAnalysis || !image) return null;
 
+  const visibleSuggestions = currentAnalysis.suggestions.filter(suggestion => matchesConsensusFilter(suggestion, consensusFilter));
+
   // Extract strategic insights from analysis metadata
   const strategicInsights = currentAnalysis.metadata?.strategic_summary || 
                            currentAnalysis.metadata?.strategicInsights || 
@@ -298,14 +311,48 @@ export const AnalysisPanel: React.FC<AnalysisPanelProps> = memo(({
                 <Lightbulb className="h-5 w-5 text-primary" />
                 <CardTitle>Implementation Roadmap</CardTitle>
                 <Badge variant="outline">{currentAnalysis.suggestions.length}</Badge>
+                {currentAnalysis.suggestions.length > 0 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="ml-auto h-7 gap-1"
+                    onClick={() => setIsIssueExportOpen(true)}
+                    title="Export suggestions to an issue tracker"
+                  >
+                    <Ticket className="h-4 w-4" />
+                    Export
+                  </Button>
+                )}
               </div>
               <p className="text-sm text-muted-foreground">
                 Prioritized action items to achieve strategic improvements
               </p>
+              {hasConsensus(currentAnalysis) && (
+                <div className="flex items-center gap-2 pt-2">
+                  <Select value={consensusFilter} onValueChange={(value) => setConsensusFilter(value as ConsensusFilter)}>
+                    <SelectTrigger className="h-8 w-52">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(CONSENSUS_FILTER_LABELS) as ConsensusFilter[]).map(filter => (
+                        <SelectItem key={filter} value={filter}>{CONSENSUS_FILTER_LABELS[filter]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {currentAnalysis.metadata?.modelAgreement && (
+                    <span className="text-xs text-muted-foreground">
+                      {currentAnalysis.metadata.modelAgreement.agreementRate}% of findings reported by every model
+                    </span>
+                  )}
+                </div>
+              )}
             </CardHeader>
             <CardContent>
               <div className="space-y-4">
-                {currentAnalysis.suggestions.map((suggestion) => (
+                {visibleSuggestions.length === 0 && consensusFilter !== 'all' && (
+                  <p className="text-sm text-muted-foreground">No suggestions match this filter.</p>
+                )}
+                {visibleSuggestions.map((suggestion) => (
                   <Card key={suggestion.id} className="p-4 bg-muted/30">
                     <div className="space-y-3">
                       <div className="flex items-start justify-between">
@@ -325,6 +372,11 @@ export const AnalysisPanel: React.FC<AnalysisPanelProps> = memo(({
                           </Badge>
                         </div>
                       </div>
+                      {suggestion.consensus && (
+                        <div className="flex flex-wrap gap-2">
+                          <FindingConsensusBadges consensus={suggestion.consensus} />
+                        </div>
+                      )}
                       
                       <p className="text-sm text-muted-foreground">{suggestion.description}</p>
                       
@@ -341,6 +393,18 @@ export const AnalysisPanel: React.FC<AnalysisPanelProps> = memo(({
                           </ul>
                         </div>
                       )}
+
+                      {AnnotationThreadService.canDiscuss(currentAnalysis.id) && (
+                        <AnnotationThread
+                          analysisId={currentAnalysis.id}
+                          targetType="suggestion"
+                          targetId={suggestion.id}
+                          threads={threads}
+                          members={members}
+                          onChanged={refreshThreads}
+                          compact
+                        />
+                      )}
                     </div>
                   </Card>
                 ))}
@@ -380,6 +444,12 @@ export const AnalysisPanel: React.FC<AnalysisPanelProps> = memo(({
           </Card>
         </div>
       </ScrollArea>
+
+      <IssueExportDialog
+        analysis={currentAnalysis}
+        open={isIssueExportOpen}
+        onOpenChange={setIsIssueExportOpen}
+      />
     </div>
   );
 }); // ✅ PHASE 4.2: MEMOIZED COMPONENT CLOSING
@@ -1,6 +1,6 @@
 /**
  * Analysis Version Manager Component
- * Displays analysis history and provides re-analysis options
+ * Displays analysis history and provides re-analysis and version comparison options
  */
 
 import React, { useState, useEffect } from 'react';
@@ -10,9 +10,10 @@ import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { AlertCircle, Clock, RotateCcw, Trash2, Eye } from 'lucide-react';
+import { AlertCircle, Clock, RotateCcw, Trash2, Eye, GitCompare } from 'lucide-react';
 import { enhancedAnalysisStorage } from '@/services/EnhancedAnalysisStorage';
 import { analysisService } from '@/services/TypeSafeAnalysisService';
+import { AnalysisDiffView } from './AnalysisDiffView';
 import { useAnalysisNotifications } from '@/hooks/useAnalysisNotifications';
 import { toast } from '@/hooks/use-toast';
 
@@ -42,10 +43,13 @@ export const AnalysisVersionManager: React.FC<AnalysisVersionManagerProps> = ({
   const [loading, setLoading] = useState(false);
   const [reAnalyzing, setReAnalyzing] = useState(false);
   const [existingAnalysis, setExistingAnalysis] = useState<any>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [isCompareOpen, setIsCompareOpen] = useState(false);
 
   useEffect(() => {
     loadAnalysisHistory();
     checkExistingAnalysis();
+    setCompareIds([]);
   }, [imageId]);
 
   const loadAnalysisHistory = async () => {
@@ -145,6 +149,22 @@ export const AnalysisVersionManager: React.FC<AnalysisVersionManagerProps> = ({
     }
   };
 
+  const toggleCompare = (analysisId: string) => {
+    setCompareIds(prev => {
+      if (prev.includes(analysisId)) return prev.filter(id => id !== analysisId);
+      // Keep the two most recent picks
+      return [...prev, analysisId].slice(-2);
+    });
+  };
+
+  // Order the selected pair oldest → newest so the diff reads as "what changed since"
+  const comparePair = (() => {
+    if (compareIds.length !== 2) return null;
+    const [a, b] = compareIds.map(id => history.find(item => item.id === id));
+    if (!a || !b) return null;
+    return a.version <= b.version ? { previous: a, current: b } : { previous: b, current: a };
+  })();
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleString();
   };
@@ -167,6 +187,34 @@ export const AnalysisVersionManager: React.FC<AnalysisVersionManagerProps> = ({
       <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-4">
         <CardTitle className="text-lg font-semibold">Analysis Management</CardTitle>
         <div className="flex gap-2">
+          <Dialog open={isCompareOpen} onOpenChange={setIsCompareOpen}>
+            <DialogTrigger asChild>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={!comparePair}
+                className="flex items-center gap-2"
+              >
+                <GitCompare className="h-4 w-4" />
+                Compare ({compareIds.length}/2)
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>
+                  {comparePair
+                    ? `Comparing v${comparePair.previous.version} → v${comparePair.current.version}`
+                    : 'Compare versions'}
+                </DialogTitle>
+              </DialogHeader>
+              {comparePair && (
+                <AnalysisDiffView
+                  previousAnalysisId={comparePair.previous.id}
+                  currentAnalysisId={comparePair.current.id}
+                />
+              )}
+            </DialogContent>
+          </Dialog>
           {existingAnalysis?.hasRecent && (
             <Badge variant="secondary" className="flex items-center gap-1">
               <Clock className="h-3 w-3" />
@@ -247,6 +295,17 @@ export const AnalysisVersionManager: React.FC<AnalysisVersionManagerProps> = ({
                       </div>
                       
                       <div className="flex items-center gap-1">
+                        {item.status === 'completed' && (
+                          <Button
+                            size="sm"
+                            variant={compareIds.includes(item.id) ? 'secondary' : 'ghost'}
+                            onClick={() => toggleCompare(item.id)}
+                            className="h-7 w-7 p-0"
+                            title="Select for comparison"
+                          >
+                            <GitCompare className="h-3 w-3" />
+                          </Button>
+                        )}
                         {item.status === 'completed' && (
                           <Button
                             size="sm"
@@ -6,6 +6,11 @@ import { Textarea } from './ui/textarea';
 import { Badge } from './ui/badge';
 import { Separator } from './ui/separator';
 import { AnnotationPoint, Suggestion } from '@/types/ux-analysis';
+import { AnnotationThread } from './AnnotationThread';
+import { AnnotationRegionZoom } from './AnnotationRegion';
+import { FindingConsensusBadges } from './FindingConsensusBadges';
+import { useAnnotationThreads } from '@/hooks/useAnnotationThreads';
+import { AnnotationThreadService } from '@/services/AnnotationThreadService';
 
 interface AnnotationCommentProps {
   annotation: AnnotationPoint;
@@ -15,6 +20,11 @@ interface AnnotationCommentProps {
   onGenerateVariation: (prompt: string) => void;
   relatedSuggestions?: Suggestion[];
   imageContainerRef?: React.RefObject<HTMLElement>;
+  /** Persisted analysis the annotation belongs to; enables review status and comments */
+  analysisId?: string;
+  /** Screenshot of the annotation; annotations with a region show a zoom of it */
+  imageUrl?: string;
+  imageDimensions?: { width: number; height: number };
 }
 
 export const AnnotationComment: React.FC<AnnotationCommentProps> = ({
@@ -25,7 +35,11 @@ export const AnnotationComment: React.FC<AnnotationCommentProps> = ({
   onGenerateVariation,
   relatedSuggestions = [],
   imageContainerRef,
+  analysisId,
+  imageUrl,
+  imageDimensions,
 }) => {
+  const { threads, members, refresh } = useAnnotationThreads(analysisId);
   const [userPrompt, setUserPrompt] = useState('');
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
@@ -158,9 +172,23 @@ export const AnnotationComment: React.FC<AnnotationCommentProps> = ({
           <h4 className="font-semibold text-foreground mb-2">
             {annotation.title}
           </h4>
+          {annotation.region && imageUrl && (
+            <AnnotationRegionZoom
+              imageUrl={imageUrl}
+              region={annotation.region}
+              type={annotation.type}
+              imageDimensions={imageDimensions}
+              className="mb-3"
+            />
+          )}
           <p className="text-sm text-muted-foreground mb-3">
             {annotation.description}
           </p>
+          {annotation.consensus && (
+            <div className="flex flex-wrap gap-2 mb-3">
+              <FindingConsensusBadges consensus={annotation.consensus} />
+            </div>
+          )}
 
           {/* Related Suggestions */}
           {relatedSuggestions.length > 0 && (
@@ -185,6 +213,24 @@ export const AnnotationComment: React.FC<AnnotationCommentProps> = ({
           )}
         </div>
 
+        {/* Team review */}
+        {AnnotationThreadService.canDiscuss(analysisId) && (
+          <>
+            <Separator />
+            <div className="px-4 py-3 max-h-64 overflow-y-auto">
+              <AnnotationThread
+                analysisId={analysisId}
+                targetType="annotation"
+                targetId={annotation.id}
+                threads={threads}
+                members={members}
+                onChanged={refresh}
+                compact
+              />
+            </div>
+          </>
+        )}
+
         <Separator />
 
         {/* Input Section */}
@@ -10,6 +10,10 @@ interface AnnotationState {
   onRequestAnalysis: (prompt: string) => void;
   onGenerateVariation: (prompt: string) => void;
   imageContainerRef?: React.RefObject<HTMLElement>;
+  analysisId?: string;
+  // Screenshot the annotation belongs to; used to zoom into annotation regions
+  imageUrl?: string;
+  imageDimensions?: { width: number; height: number };
 }
 
 interface AnnotationOverlayContextType {
@@ -56,6 +60,9 @@ export const AnnotationOverlayProvider: React.FC<AnnotationOverlayProviderProps>
           onGenerateVariation={activeAnnotation.onGenerateVariation}
           relatedSuggestions={activeAnnotation.relatedSuggestions}
           imageContainerRef={activeAnnotation.imageContainerRef}
+          analysisId={activeAnnotation.analysisId}
+          imageUrl={activeAnnotation.imageUrl}
+          imageDimensions={activeAnnotation.imageDimensions}
         />,
         document.body
       )}
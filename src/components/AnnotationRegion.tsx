@@ -0,0 +1,139 @@
+/**
+ * Annotation Region
+ * Highlighted outline of the element an annotation refers to, and a cropped zoom of it
+ */
+
+import React, { useEffect, useState } from 'react';
+import type { AnnotationPoint, AnnotationRegion } from '@/types/ux-analysis';
+import { paddedBounds, regionBounds } from '@/utils/annotationRegions';
+
+const REGION_STYLES: Record<AnnotationPoint['type'], { box: string; stroke: string; fill: string }> = {
+  issue: { box: 'border-destructive bg-destructive/10', stroke: 'stroke-destructive', fill: 'fill-destructive/10' },
+  suggestion: { box: 'border-yellow-500 bg-yellow-500/10', stroke: 'stroke-yellow-500', fill: 'fill-yellow-500/10' },
+  success: { box: 'border-green-500 bg-green-500/10', stroke: 'stroke-green-500', fill: 'fill-green-500/10' }
+};
+
+const toPercent = (n: number) => `${n * 100}%`;
+
+interface AnnotationRegionOutlineProps {
+  annotation: AnnotationPoint & { region: AnnotationRegion };
+  isActive?: boolean;
+  onClick?: (event: React.MouseEvent) => void;
+}
+
+/**
+ * Outline positioned over the image; place it inside the relatively positioned image container
+ */
+export const AnnotationRegionOutline: React.FC<AnnotationRegionOutlineProps> = ({ annotation, isActive = false, onClick }) => {
+  const { region } = annotation;
+  const styles = REGION_STYLES[annotation.type] ?? REGION_STYLES.issue;
+  const emphasis = isActive ? 'opacity-100' : 'opacity-60 hover:opacity-100';
+
+  if (region.shape === 'rect') {
+    return (
+      <div
+        className={`absolute z-[5] rounded-sm border-2 cursor-pointer transition-opacity ${styles.box} ${emphasis}`}
+        style={{
+          left: toPercent(region.x),
+          top: toPercent(region.y),
+          width: toPercent(region.width),
+          height: toPercent(region.height)
+        }}
+        data-annotation-id={annotation.id}
+        title={annotation.title}
+        onClick={onClick}
+      />
+    );
+  }
+
+  return (
+    <svg
+      className="absolute inset-0 z-[5] h-full w-full pointer-events-none"
+      viewBox="0 0 100 100"
+      preserveAspectRatio="none"
+    >
+      <polygon
+        points={region.points.map(p => `${p.x * 100},${p.y * 100}`).join(' ')}
+        className={`pointer-events-auto cursor-pointer transition-opacity ${styles.stroke} ${styles.fill} ${emphasis}`}
+        strokeWidth={2}
+        vectorEffect="non-scaling-stroke"
+        data-annotation-id={annotation.id}
+        onClick={onClick}
+      >
+        <title>{annotation.title}</title>
+      </polygon>
+    </svg>
+  );
+};
+
+interface AnnotationRegionZoomProps {
+  imageUrl: string;
+  region: AnnotationRegion;
+  type?: AnnotationPoint['type'];
+  imageDimensions?: { width: number; height: number };
+  className?: string;
+}
+
+/**
+ * The region cropped out of the screenshot with a little surrounding context, scaled to fit
+ */
+export const AnnotationRegionZoom: React.FC<AnnotationRegionZoomProps> = ({
+  imageUrl,
+  region,
+  type = 'issue',
+  imageDimensions,
+  className = ''
+}) => {
+  const [measured, setMeasured] = useState<{ width: number; height: number } | null>(null);
+
+  // Without known dimensions, read them from the image so the crop keeps the screenshot's aspect ratio
+  useEffect(() => {
+    if (imageDimensions?.width && imageDimensions?.height) return;
+    let cancelled = false;
+    const img = new Image();
+    img.onload = () => {
+      if (!cancelled) setMeasured({ width: img.naturalWidth, height: img.naturalHeight });
+    };
+    img.src = imageUrl;
+    return () => {
+      cancelled = true;
+    };
+  }, [imageUrl, imageDimensions?.width, imageDimensions?.height]);
+
+  // Crop in image pixels; the square fallback only applies until the image has loaded
+  const width = imageDimensions?.width || measured?.width || 1000;
+  const height = imageDimensions?.height || measured?.height || 1000;
+  const crop = paddedBounds(region);
+  const bounds = regionBounds(region);
+  const styles = REGION_STYLES[type] ?? REGION_STYLES.issue;
+
+  return (
+    <div className={`h-36 w-full overflow-hidden rounded-md border bg-muted ${className}`}>
+      <svg
+        className="h-full w-full"
+        viewBox={`${crop.x * width} ${crop.y * height} ${crop.width * width} ${crop.height * height}`}
+        preserveAspectRatio="xMidYMid meet"
+      >
+        <image href={imageUrl} x={0} y={0} width={width} height={height} preserveAspectRatio="none" />
+        {region.shape === 'rect' ? (
+          <rect
+            x={bounds.x * width}
+            y={bounds.y * height}
+            width={bounds.width * width}
+            height={bounds.height * height}
+            className={`fill-transparent ${styles.stroke}`}
+            strokeWidth={2}
+            vectorEffect="non-scaling-stroke"
+          />
+        ) : (
+          <polygon
+            points={region.points.map(p => `${p.x * width},${p.y * height}`).join(' ')}
+            className={`fill-transparent ${styles.stroke}`}
+            strokeWidth={2}
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+      </svg>
+    </div>
+  );
+};
@@ -0,0 +1,258 @@
+/**
+ * Annotation Thread
+ * Review status plus threaded human discussion for a single annotation or suggestion
+ */
+
+import React, { useMemo, useState } from 'react';
+import { CornerDownRight, Loader2, MessageCircle, Send, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/context/AuthContext';
+import { useWorkspace } from '@/context/WorkspaceContext';
+import {
+  ANNOTATION_STATUS_LABELS,
+  AnnotationThreadService,
+  type AnalysisThreads
+} from '@/services/AnnotationThreadService';
+import type { WorkspaceMember } from '@/services/WorkspaceService';
+import type { AnnotationStatus, AnnotationTargetType, AnnotationThreadComment } from '@/types/ux-analysis';
+import { toast } from '@/hooks/use-toast';
+
+interface AnnotationThreadProps {
+  analysisId: string;
+  targetType: AnnotationTargetType;
+  targetId: string;
+  threads: AnalysisThreads;
+  members: WorkspaceMember[];
+  onChanged: () => void;
+  compact?: boolean;
+}
+
+const STATUS_STYLES: Record<AnnotationStatus, string> = {
+  open: 'text-foreground',
+  accepted: 'text-blue-600',
+  wont_fix: 'text-muted-foreground',
+  fixed: 'text-green-600'
+};
+
+// Highlight @email mentions in comment bodies
+const renderBody = (body: string) =>
+  body.split(/(@[^\s@]+@[^\s@]+\.[^\s@,;:!?)]+)/g).map((part, index) =>
+    part.startsWith('@') && part.length > 1
+      ? <span key={index} className="font-medium text-primary">{part}</span>
+      : <React.Fragment key={index}>{part}</React.Fragment>
+  );
+
+interface ComposerProps {
+  members: WorkspaceMember[];
+  placeholder: string;
+  autoFocus?: boolean;
+  onSubmit: (body: string) => Promise<void>;
+}
+
+const CommentComposer: React.FC<ComposerProps> = ({ members, placeholder, autoFocus, onSubmit }) => {
+  const [body, setBody] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  // Suggest members while the last word being typed is an @mention
+  const mentionQuery = body.match(/@([^\s@]*)$/)?.[1];
+  const mentionMatches = mentionQuery === undefined
+    ? []
+    : members.filter(m => m.email?.toLowerCase().includes(mentionQuery.toLowerCase())).slice(0, 5);
+
+  const insertMention = (email: string) => {
+    setBody(prev => prev.replace(/@([^\s@]*)$/, `@${email} `));
+  };
+
+  const submit = async () => {
+    if (!body.trim()) return;
+    setSubmitting(true);
+    try {
+      await onSubmit(body);
+      setBody('');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex gap-2">
+        <Textarea
+          value={body}
+          autoFocus={autoFocus}
+          placeholder={placeholder}
+          onChange={(e) => setBody(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+              e.preventDefault();
+              submit();
+            }
+          }}
+          className="resize-none text-sm min-h-[36px]"
+          rows={1}
+        />
+        <Button size="icon" className="h-9 w-9 flex-shrink-0" onClick={submit} disabled={submitting || !body.trim()}>
+          {submitting ? <Loader2 className="h-3 w-3 animate-spin" /> : <Send className="h-3 w-3" />}
+        </Button>
+      </div>
+      {mentionMatches.length > 0 && (
+        <div className="rounded-md border bg-popover p-1 text-xs">
+          {mentionMatches.map(member => (
+            <button
+              key={member.userId}
+              type="button"
+              className="block w-full rounded px-2 py-1 text-left hover:bg-muted"
+              onClick={() => insertMention(member.email!)}
+            >
+              {member.email}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const AnnotationThread: React.FC<AnnotationThreadProps> = ({
+  analysisId,
+  targetType,
+  targetId,
+  threads,
+  members,
+  onChanged,
+  compact = false
+}) => {
+  const { user } = useAuth();
+  const { can } = useWorkspace();
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState(!compact);
+
+  const key = AnnotationThreadService.threadKey(targetType, targetId);
+  const status = threads.statuses[key] || 'open';
+
+  const { rootComments, repliesByParent } = useMemo(() => {
+    const comments = threads.comments.filter(c => c.targetType === targetType && c.targetId === targetId);
+    const replies = new Map<string, AnnotationThreadComment[]>();
+    comments.filter(c => c.parentId).forEach(c => {
+      replies.set(c.parentId!, [...(replies.get(c.parentId!) || []), c]);
+    });
+    return { rootComments: comments.filter(c => !c.parentId), repliesByParent: replies };
+  }, [threads.comments, targetType, targetId]);
+
+  const commentCount = threads.comments.filter(c => c.targetType === targetType && c.targetId === targetId).length;
+
+  const runAction = async (action: () => Promise<unknown>, failureTitle: string) => {
+    try {
+      await action();
+      onChanged();
+    } catch (error) {
+      console.error(`${failureTitle}:`, error);
+      toast({
+        title: failureTitle,
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const addComment = (body: string, parentId: string | null = null) =>
+    runAction(async () => {
+      await AnnotationThreadService.addComment({ analysisId, targetType, targetId, body, parentId, members });
+      setReplyTo(null);
+    }, 'Failed to post comment');
+
+  const renderComment = (comment: AnnotationThreadComment, isReply = false) => (
+    <div key={comment.id} className={isReply ? 'ml-4 border-l pl-2' : ''}>
+      <div className="flex items-center gap-1 text-xs text-muted-foreground">
+        {isReply && <CornerDownRight className="h-3 w-3" />}
+        <span className="font-medium text-foreground truncate">
+          {comment.userId === user?.id ? 'You' : comment.authorEmail || 'Teammate'}
+        </span>
+        <span>· {new Date(comment.createdAt).toLocaleString()}</span>
+        {comment.userId === user?.id && (
+          <button
+            type="button"
+            className="ml-auto opacity-60 hover:opacity-100"
+            title="Delete comment"
+            onClick={() => runAction(() => AnnotationThreadService.deleteComment(comment.id), 'Failed to delete comment')}
+          >
+            <Trash2 className="h-3 w-3" />
+          </button>
+        )}
+      </div>
+      <p className="text-sm whitespace-pre-wrap break-words">{renderBody(comment.body)}</p>
+      {!isReply && can('commenter') && (
+        <button
+          type="button"
+          className="text-xs text-muted-foreground hover:text-foreground"
+          onClick={() => setReplyTo(replyTo === comment.id ? null : comment.id)}
+        >
+          Reply
+        </button>
+      )}
+      {(repliesByParent.get(comment.id) || []).map(reply => renderComment(reply, true))}
+      {replyTo === comment.id && (
+        <div className="ml-4 mt-1">
+          <CommentComposer
+            members={members}
+            placeholder="Reply..."
+            autoFocus
+            onSubmit={(body) => addComment(body, comment.id)}
+          />
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Select
+          value={status}
+          disabled={!can('editor')}
+          onValueChange={(value) => runAction(
+            () => AnnotationThreadService.setStatus(analysisId, targetType, targetId, value as AnnotationStatus),
+            'Failed to update status'
+          )}
+        >
+          <SelectTrigger className={`h-7 w-32 text-xs ${STATUS_STYLES[status]}`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(ANNOTATION_STATUS_LABELS) as AnnotationStatus[]).map(value => (
+              <SelectItem key={value} value={value} className="text-xs">
+                {ANNOTATION_STATUS_LABELS[value]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 gap-1 text-xs"
+          onClick={() => setExpanded(prev => !prev)}
+        >
+          <MessageCircle className="h-3 w-3" />
+          {commentCount > 0 ? `${commentCount} comment${commentCount === 1 ? '' : 's'}` : 'Discuss'}
+        </Button>
+      </div>
+
+      {expanded && (
+        <div className="space-y-2">
+          {rootComments.map(comment => renderComment(comment))}
+          {can('commenter') ? (
+            <CommentComposer
+              members={members}
+              placeholder="Comment, @mention a teammate..."
+              onSubmit={(body) => addComment(body)}
+            />
+          ) : (
+            rootComments.length === 0 && <p className="text-xs text-muted-foreground">No comments yet.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,10 +1,13 @@
 import React, { useCallback, useState } from 'react';
 import { useDropzone } from 'react-dropzone';
-import { Upload, Image, FileText, Loader2, Plus, AlertCircle } from 'lucide-react';
+import { Upload, Image, FileText, Loader2, Plus, AlertCircle, Video } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { BlobUrlReplacementService } from '@/services/BlobUrlReplacementService';
+import { PdfDocumentService } from '@/services/PdfDocumentService';
+import { RecordingKeyframeService } from '@/services/RecordingKeyframeService';
+import { HtmlSnapshotService } from '@/services/HtmlSnapshotService';
 
 interface CanvasUploadZoneProps {
   onImageUpload: (files: File[]) => void;
@@ -34,8 +37,14 @@ export const CanvasUploadZone: React.FC<CanvasUploadZoneProps> = ({
       setProcessingFiles(acceptedFiles.map(f => f.name));
       
       // Process files with blob URL to storage URL conversion
+      // PDFs, recordings and HTML pages are turned into images by the canvas, so only those images get stored
+      const imageFiles = acceptedFiles.filter(
+        file => !PdfDocumentService.isPdf(file) &&
+          !RecordingKeyframeService.isRecording(file) &&
+          !HtmlSnapshotService.isHtmlSnapshot(file)
+      );
       const processedFiles = await Promise.all(
-        acceptedFiles.map(async (file) => {
+        imageFiles.map(async (file) => {
           console.log(`[CanvasUploadZone] Processing file: ${file.name}`);
           
           // Create blob URL for temporary use
@@ -81,7 +90,11 @@ export const CanvasUploadZone: React.FC<CanvasUploadZoneProps> = ({
     onDrop,
     accept: {
       'image/*': ['.png', '.jpg', '.jpeg', '.svg', '.gif'],
-      'text/html': ['.html'],
+      'text/html': ['.html', '.htm'],
+      'multipart/related': ['.mhtml', '.mht'],
+      'application/pdf': ['.pdf'],
+      'video/mp4': ['.mp4'],
+      'video/webm': ['.webm'],
     },
     multiple: true,
     disabled: isUploading,
@@ -201,7 +214,11 @@ export const CanvasUploadZone: React.FC<CanvasUploadZoneProps> = ({
             </div>
             <div className="flex items-center gap-2 text-sm text-muted-foreground">
               <FileText className="w-4 h-4" />
-              <span>HTML</span>
+              <span>HTML, MHTML, PDF</span>
+            </div>
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Video className="w-4 h-4" />
+              <span>MP4, WebM, GIF</span>
             </div>
           </div>
 
@@ -1,30 +1,33 @@
-import React, { useState, memo } from 'react';
+import React, { useState, memo, useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { X, Send, Sparkles, Zap, Target, Palette } from 'lucide-react';
-import { useToast } from '@/hooks/use-toast';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { X, Send, Sparkles, Zap, Target, Palette, Trash2 } from 'lucide-react';
+import { useAnalysisChat } from '@/hooks/useAnalysisChat';
+import type { UXAnalysis } from '@/types/ux-analysis';
 
 interface ChatPanelProps {
   isOpen: boolean;
   onClose: () => void;
+  analysis?: UXAnalysis | null;
 }
 
 const suggestedPrompts = [
   {
     icon: <Sparkles className="h-4 w-4" />,
-    text: "Analyze the visual hierarchy",
-    prompt: "Can you analyze the visual hierarchy of this design and suggest improvements?"
+    text: "Explain the high severity issues",
+    prompt: "Why are the high severity annotations rated as high severity?"
   },
   {
     icon: <Zap className="h-4 w-4" />,
-    text: "Improve accessibility",
-    prompt: "What accessibility improvements would you recommend for this interface?"
+    text: "Rewrite for a developer",
+    prompt: "Rewrite suggestion 1 as an implementation task for a developer."
   },
   {
     icon: <Target className="h-4 w-4" />,
-    text: "Optimize user flow",
-    prompt: "How can we optimize the user flow in this design?"
+    text: "Prioritize quick wins",
+    prompt: "Which suggestions give the most impact for the least effort?"
   },
   {
     icon: <Palette className="h-4 w-4" />,
@@ -34,25 +37,22 @@ const suggestedPrompts = [
 ];
 
 // ✅ PHASE 4.2: MEMOIZED COMPONENT FOR PERFORMANCE
-export const ChatPanel: React.FC<ChatPanelProps> = memo(({ isOpen, onClose }) => {
+export const ChatPanel: React.FC<ChatPanelProps> = memo(({ isOpen, onClose, analysis = null }) => {
   const [message, setMessage] = useState('');
-  const [isLoading, setIsLoading] = useState(false);
-  const { toast } = useToast();
+  const { messages, streamingReply, loading, sending, error, sendMessage, clearThread } = useAnalysisChat(
+    isOpen ? analysis : null
+  );
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'end' });
+  }, [messages, streamingReply]);
 
   const handleSendMessage = async () => {
-    if (!message.trim()) return;
-    
-    setIsLoading(true);
-    
-    // Simulate AI processing
-    setTimeout(() => {
-      setIsLoading(false);
-      setMessage('');
-      toast({
-        title: "Message sent",
-        description: "AI is analyzing your request...",
-      });
-    }, 1000);
+    if (!message.trim() || !analysis) return;
+    const text = message;
+    setMessage('');
+    await sendMessage(text);
   };
 
   const handleSuggestedPrompt = (prompt: string) => {
@@ -61,49 +61,111 @@ export const ChatPanel: React.FC<ChatPanelProps> = memo(({ isOpen, onClose }) =>
 
   if (!isOpen) return null;
 
+  const hasConversation = messages.length > 0 || !!streamingReply;
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-background/50 backdrop-blur-sm">
-      <Card className="w-full max-w-md mx-4 bg-background/95 backdrop-blur-sm border shadow-lg animate-scale-in">
+      <Card className="w-full max-w-lg mx-4 bg-background/95 backdrop-blur-sm border shadow-lg animate-scale-in">
         <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
-          <CardTitle className="text-lg font-semibold">AI Assistant</CardTitle>
-          <Button
-            variant="ghost"
-            size="sm"
-            className="h-8 w-8 p-0"
-            onClick={onClose}
-          >
-            <X className="h-4 w-4" />
-          </Button>
+          <div className="min-w-0">
+            <CardTitle className="text-lg font-semibold">AI Assistant</CardTitle>
+            {analysis && (
+              <p className="text-xs text-muted-foreground truncate">
+                Discussing {analysis.imageName}
+              </p>
+            )}
+          </div>
+          <div className="flex items-center gap-1">
+            {hasConversation && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0"
+                onClick={clearThread}
+                disabled={sending}
+                title="Clear conversation"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 w-8 p-0"
+              onClick={onClose}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
         </CardHeader>
         <CardContent className="space-y-4">
-          {/* Suggested Prompts */}
-          <div className="space-y-2">
-            <p className="text-sm text-muted-foreground mb-3">
-              Get started with these suggestions:
+          {!analysis ? (
+            <p className="text-sm text-muted-foreground">
+              Select an analyzed image on the canvas to ask questions about its analysis.
             </p>
-            <div className="grid grid-cols-1 gap-2">
-              {suggestedPrompts.map((prompt, index) => (
-                <Button
-                  key={index}
-                  variant="outline"
-                  size="sm"
-                  className="justify-start gap-2 h-auto p-3 text-left"
-                  onClick={() => handleSuggestedPrompt(prompt.prompt)}
-                >
-                  {prompt.icon}
-                  <span className="text-xs">{prompt.text}</span>
-                </Button>
-              ))}
+          ) : loading ? (
+            <p className="text-sm text-muted-foreground">Loading conversation...</p>
+          ) : hasConversation ? (
+            <ScrollArea className="h-80 pr-3">
+              <div className="space-y-3">
+                {messages.map(m => (
+                  <div
+                    key={m.id}
+                    className={`rounded-md px-3 py-2 text-sm whitespace-pre-wrap ${
+                      m.role === 'user' ? 'ml-8 bg-primary text-primary-foreground' : 'mr-8 bg-muted'
+                    }`}
+                  >
+                    {m.content}
+                  </div>
+                ))}
+                {streamingReply && (
+                  <div className="mr-8 rounded-md bg-muted px-3 py-2 text-sm whitespace-pre-wrap">
+                    {streamingReply}
+                  </div>
+                )}
+                {sending && !streamingReply && (
+                  <div className="mr-8 rounded-md bg-muted px-3 py-2 text-sm text-muted-foreground">
+                    Thinking...
+                  </div>
+                )}
+                <div ref={bottomRef} />
+              </div>
+            </ScrollArea>
+          ) : (
+            /* Suggested Prompts */
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground mb-3">
+                Get started with these suggestions:
+              </p>
+              <div className="grid grid-cols-1 gap-2">
+                {suggestedPrompts.map((prompt, index) => (
+                  <Button
+                    key={index}
+                    variant="outline"
+                    size="sm"
+                    className="justify-start gap-2 h-auto p-3 text-left"
+                    onClick={() => handleSuggestedPrompt(prompt.prompt)}
+                  >
+                    {prompt.icon}
+                    <span className="text-xs">{prompt.text}</span>
+                  </Button>
+                ))}
+              </div>
             </div>
-          </div>
+          )}
+
+          {error && (
+            <p className="text-xs text-destructive">{error}</p>
+          )}
 
           {/* Message Input */}
           <div className="space-y-2">
             <Textarea
-              placeholder="Ask AI about your design..."
+              placeholder={analysis ? "Ask a follow-up about this analysis..." : "Ask AI about your design..."}
               value={message}
               onChange={(e) => setMessage(e.target.value)}
               className="resize-none min-h-[80px]"
+              disabled={!analysis}
               onKeyDown={(e) => {
                 if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
                   e.preventDefault();
@@ -117,11 +179,11 @@ export const ChatPanel: React.FC<ChatPanelProps> = memo(({ isOpen, onClose }) =>
               </p>
               <Button
                 onClick={handleSendMessage}
-                disabled={!message.trim() || isLoading}
+                disabled={!message.trim() || sending || !analysis}
                 size="sm"
                 className="gap-2"
               >
-                {isLoading ? (
+                {sending ? (
                   <>
                     <div className="h-3 w-3 animate-spin rounded-full border-2 border-current border-t-transparent" />
                     Sending...
@@ -142,4 +204,4 @@ export const ChatPanel: React.FC<ChatPanelProps> = memo(({ isOpen, onClose }) =>
 }); // ✅ PHASE 4.2: MEMOIZED COMPONENT CLOSING
 
 // ✅ PHASE 4.2: SET DISPLAY NAME FOR DEBUGGING
-ChatPanel.displayName = 'ChatPanel';
\ No newline at end of file
+ChatPanel.displayName = 'ChatPanel';
@@ -0,0 +1,292 @@
+/**
+ * Design Tokens Dialog
+ * Upload a project's design tokens (plain JSON, W3C Design Tokens or Style Dictionary) and review
+ * the token drift report built from the analyses checked against them
+ */
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ArrowRight, Loader2, Trash2, Upload } from 'lucide-react';
+import { useWorkspace } from '@/context/WorkspaceContext';
+import { DesignTokenService, type TokenDriftReport } from '@/services/DesignTokenService';
+import type { DesignToken, DesignTokenFormat, DesignTokenKind, DesignTokenSet } from '@/types/ux-analysis';
+import { toast } from '@/hooks/use-toast';
+
+interface DesignTokensDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: string;
+  projectName?: string;
+}
+
+const FORMAT_LABELS: Record<DesignTokenFormat, string> = {
+  figmant: 'JSON',
+  w3c: 'W3C Design Tokens',
+  style_dictionary: 'Style Dictionary'
+};
+
+const KIND_LABELS: Record<DesignTokenKind, string> = {
+  color: 'Colors',
+  fontSize: 'Text sizes',
+  spacing: 'Spacing',
+  radius: 'Radii'
+};
+
+const formatValue = (kind: DesignTokenKind, value: string | number) => kind === 'color' ? String(value) : `${value}px`;
+
+const Swatch: React.FC<{ color: string }> = ({ color }) => (
+  <span className="inline-block h-3 w-3 shrink-0 rounded-sm border" style={{ backgroundColor: color }} />
+);
+
+const TokenScale: React.FC<{ label: string; tokens: DesignToken[]; unit?: string }> = ({ label, tokens, unit = 'px' }) => (
+  <div className="space-y-1">
+    <div className="text-xs font-medium text-muted-foreground">{label} ({tokens.length})</div>
+    <div className="flex flex-wrap gap-1">
+      {tokens.map(token => (
+        <Badge key={token.name} variant="outline" className="font-normal" title={token.name}>
+          {token.value}{unit}
+        </Badge>
+      ))}
+    </div>
+  </div>
+);
+
+export const DesignTokensDialog: React.FC<DesignTokensDialogProps> = ({ open, onOpenChange, projectId, projectName }) => {
+  const { can } = useWorkspace();
+  const [tokenSet, setTokenSet] = useState<DesignTokenSet | null>(null);
+  const [report, setReport] = useState<TokenDriftReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [name, setName] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const isEditor = can('editor');
+
+  const loadTokens = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [set, drift] = await Promise.all([
+        DesignTokenService.getTokenSet(projectId),
+        DesignTokenService.getDriftReport(projectId)
+      ]);
+      setTokenSet(set);
+      setReport(drift);
+      setName(set?.name || '');
+    } catch (error) {
+      console.error('Failed to load design tokens:', error);
+      toast({ title: 'Failed to load design tokens', variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    if (open) loadTokens();
+  }, [open, loadTokens]);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setUploading(true);
+    try {
+      const saved = await DesignTokenService.saveTokenSet(projectId, name || file.name.replace(/\.json$/i, ''), await file.text());
+      setTokenSet(saved);
+      setName(saved.name);
+      toast({
+        title: 'Design tokens imported',
+        description: `${DesignTokenService.countTokens(saved.tokens)} tokens from ${FORMAT_LABELS[saved.sourceFormat]}. New analyses will be checked against them.`
+      });
+    } catch (error) {
+      console.error('Failed to import design tokens:', error);
+      toast({
+        title: 'Failed to import design tokens',
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive'
+      });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      await DesignTokenService.deleteTokenSet(projectId);
+      setTokenSet(null);
+      setName('');
+    } catch (error) {
+      console.error('Failed to remove design tokens:', error);
+      toast({ title: 'Failed to remove design tokens', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Design tokens{projectName ? ` · ${projectName}` : ''}</DialogTitle>
+          <DialogDescription>
+            Analyses flag colors, text sizes, spacing and radii that are not in your tokens and suggest the nearest one.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <Tabs defaultValue="tokens">
+            <TabsList>
+              <TabsTrigger value="tokens">Tokens</TabsTrigger>
+              <TabsTrigger value="drift">Drift report</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="tokens" className="space-y-4">
+              {isEditor && (
+                <div className="flex items-end gap-2">
+                  <div className="flex-1 space-y-1">
+                    <Label htmlFor="design-token-name" className="text-xs">Name</Label>
+                    <Input
+                      id="design-token-name"
+                      value={name}
+                      placeholder="Acme design system"
+                      onChange={(e) => setName(e.target.value)}
+                    />
+                  </div>
+                  <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleFile} />
+                  <Button onClick={() => fileInputRef.current?.click()} disabled={uploading}>
+                    {uploading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+                    {tokenSet ? 'Replace tokens' : 'Upload tokens'}
+                  </Button>
+                  {tokenSet && (
+                    <Button variant="ghost" size="icon" title="Remove design tokens" onClick={handleDelete}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              )}
+
+              {tokenSet ? (
+                <ScrollArea className="max-h-80">
+                  <div className="space-y-3">
+                    <div className="text-sm">
+                      <span className="font-medium">{tokenSet.name}</span>
+                      <span className="text-muted-foreground">
+                        {' '}· {FORMAT_LABELS[tokenSet.sourceFormat]} · updated {new Date(tokenSet.updatedAt).toLocaleDateString()}
+                      </span>
+                    </div>
+                    <div className="space-y-1">
+                      <div className="text-xs font-medium text-muted-foreground">Colors ({tokenSet.tokens.colors.length})</div>
+                      <div className="flex flex-wrap gap-1">
+                        {tokenSet.tokens.colors.map(token => (
+                          <Badge key={token.name} variant="outline" className="gap-1 font-normal" title={`${token.name} ${token.value}`}>
+                            <Swatch color={String(token.value)} />
+                            {token.name}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                    <TokenScale label="Text sizes" tokens={tokenSet.tokens.fontSizes} />
+                    <TokenScale label="Spacing" tokens={tokenSet.tokens.spacing} />
+                    <TokenScale label="Radii" tokens={tokenSet.tokens.radii} />
+                  </div>
+                </ScrollArea>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  No tokens yet. Upload a JSON file with <code>colors</code>, <code>fontSizes</code>, <code>spacing</code> and{' '}
+                  <code>radii</code> maps, or a W3C Design Tokens / Style Dictionary export.
+                </p>
+              )}
+            </TabsContent>
+
+            <TabsContent value="drift" className="space-y-4">
+              {!report || report.analyzedImages === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No analyses have been checked against design tokens yet. Analyze designs after uploading tokens.
+                </p>
+              ) : (
+                <ScrollArea className="max-h-[28rem]">
+                  <div className="space-y-4 pr-3">
+                    <div className="space-y-1">
+                      <div className="flex items-baseline justify-between">
+                        <span className="text-sm font-medium">Token conformance</span>
+                        <span className="text-2xl font-bold">{report.score}%</span>
+                      </div>
+                      <Progress value={report.score} />
+                      <div className="text-xs text-muted-foreground">
+                        Latest analysis of {report.analyzedImages} design{report.analyzedImages !== 1 ? 's' : ''}
+                        {report.tokenSetName ? ` against ${report.tokenSetName}` : ''}
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-4 gap-2">
+                      {(Object.keys(KIND_LABELS) as DesignTokenKind[]).map(kind => (
+                        <div key={kind} className="rounded-md border p-2">
+                          <div className="text-xs text-muted-foreground">{KIND_LABELS[kind]}</div>
+                          <div className="text-sm font-semibold">
+                            {report.byKind[kind].violations} / {report.byKind[kind].checked}
+                          </div>
+                          <div className="text-xs text-muted-foreground">off-token</div>
+                        </div>
+                      ))}
+                    </div>
+
+                    {report.drift.length > 0 && (
+                      <div className="space-y-2">
+                        <div className="text-xs font-medium text-muted-foreground">Most frequent drift</div>
+                        {report.drift.slice(0, 15).map(entry => (
+                          <div key={`${entry.kind}-${entry.found}`} className="flex items-center gap-2 text-sm">
+                            {entry.kind === 'color' && <Swatch color={String(entry.found)} />}
+                            <span className="font-mono">{formatValue(entry.kind, entry.found)}</span>
+                            <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                            {entry.token ? (
+                              <>
+                                {entry.kind === 'color' && <Swatch color={String(entry.token.value)} />}
+                                <span className="truncate">{entry.token.name}</span>
+                                <span className="font-mono text-muted-foreground">{formatValue(entry.kind, entry.token.value)}</span>
+                              </>
+                            ) : (
+                              <span className="text-muted-foreground">no token</span>
+                            )}
+                            <span className="ml-auto whitespace-nowrap text-xs text-muted-foreground">
+                              {entry.imageCount} design{entry.imageCount !== 1 ? 's' : ''}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    <div className="space-y-2">
+                      <div className="text-xs font-medium text-muted-foreground">By design</div>
+                      {report.images.map(image => (
+                        <div key={image.imageId} className="flex items-center gap-2 text-sm">
+                          <span className="flex-1 truncate">{image.imageName}</span>
+                          <span className="text-xs text-muted-foreground">{image.violations} off-token</span>
+                          <Badge variant={image.score >= 80 ? 'secondary' : 'destructive'}>{image.score}%</Badge>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                </ScrollArea>
+              )}
+            </TabsContent>
+          </Tabs>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
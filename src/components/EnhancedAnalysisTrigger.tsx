@@ -62,7 +62,7 @@ export function EnhancedAnalysisTrigger({
         imageUrl: image.url.substring(0, 50) + '...'
       });
 
-      const { jobId: newJobId } = await startUxAnalysis({
+      const { jobId: newJobId, budgetWarning } = await startUxAnalysis({
         imageId: image.id,
         imageUrl: image.url,
         projectId: undefined,
@@ -72,6 +72,7 @@ export function EnhancedAnalysisTrigger({
       console.log('✅ startUxAnalysis returned jobId:', newJobId);
       setJobId(newJobId);
       toast.info('Analysis started. Tracking progress...');
+      if (budgetWarning) toast.warning(budgetWarning);
     } catch (error: any) {
       console.error('❌ Failed to start analysis:', error);
       const message = error?.message || 'Failed to start analysis';
@@ -105,6 +106,9 @@ export function EnhancedAnalysisTrigger({
       onAnalysisError?.(msg);
       setJobId(null);
       setIsAnalyzing(false);
+    } else if (job.status === 'cancelled') {
+      setJobId(null);
+      setIsAnalyzing(false);
     }
   }, [jobId, job]);
 
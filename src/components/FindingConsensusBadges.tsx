@@ -0,0 +1,41 @@
+/**
+ * Finding Consensus Badges
+ * How many models reported a finding and whether their severities need a human decision
+ */
+
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, Users } from 'lucide-react';
+import type { FindingConsensus } from '@/types/ux-analysis';
+import { describeSeverityByModel, isAgreed, modelLabel } from '@/utils/findingConsensus';
+
+interface FindingConsensusBadgesProps {
+  consensus?: FindingConsensus;
+}
+
+export const FindingConsensusBadges: React.FC<FindingConsensusBadgesProps> = ({ consensus }) => {
+  if (!consensus) return null;
+
+  return (
+    <>
+      <Badge
+        variant={isAgreed(consensus) ? 'secondary' : 'outline'}
+        className="text-xs gap-1"
+        title={`Reported by ${consensus.sourceModels.map(modelLabel).join(', ')}`}
+      >
+        <Users className="h-3 w-3" />
+        {consensus.sourceModels.length}/{consensus.modelCount} models
+      </Badge>
+      {consensus.needsReview && (
+        <Badge
+          variant="outline"
+          className="text-xs gap-1 border-destructive text-destructive"
+          title={`Models disagree on severity (${describeSeverityByModel(consensus)})`}
+        >
+          <AlertTriangle className="h-3 w-3" />
+          Needs review
+        </Badge>
+      )}
+    </>
+  );
+};
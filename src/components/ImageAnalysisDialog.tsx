@@ -41,7 +41,7 @@ export function ImageAnalysisDialog({
       toast.info('Starting AI analysis...');
       console.log('[ImageAnalysisDialog] invoking startUxAnalysis', { imageId, hasUrl: !!imageUrl, isBlob: imageUrl?.startsWith('blob:') });
 
-      const { jobId: newJobId } = await startUxAnalysis({
+      const { jobId: newJobId, budgetWarning } = await startUxAnalysis({
         imageId,
         imageUrl,
         projectId: undefined,
@@ -49,6 +49,7 @@ export function ImageAnalysisDialog({
       });
 
       console.log('[ImageAnalysisDialog] startUxAnalysis returned jobId:', newJobId);
+      if (budgetWarning) toast.warning(budgetWarning);
       setJobId(newJobId);
     } catch (error: any) {
       console.error('Analysis start failed:', error);
@@ -79,6 +80,9 @@ export function ImageAnalysisDialog({
       toast.error(msg);
       setJobId(null);
       setIsAnalyzing(false);
+    } else if (job.status === 'cancelled') {
+      setJobId(null);
+      setIsAnalyzing(false);
     }
   }, [jobId, job]);
 
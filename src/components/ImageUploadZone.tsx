@@ -1,6 +1,6 @@
 import React, { useCallback } from 'react';
 import { useDropzone } from 'react-dropzone';
-import { Upload, Image, FileText, Loader2 } from 'lucide-react';
+import { Upload, Image, FileText, Loader2, Video } from 'lucide-react';
 
 interface ImageUploadZoneProps {
   onImageUpload: (files: File[]) => void;
@@ -16,7 +16,11 @@ export const ImageUploadZone: React.FC<ImageUploadZoneProps> = ({ onImageUpload,
     onDrop,
     accept: {
       'image/*': ['.png', '.jpg', '.jpeg', '.svg', '.gif'],
-      'text/html': ['.html'],
+      'text/html': ['.html', '.htm'],
+      'multipart/related': ['.mhtml', '.mht'],
+      'application/pdf': ['.pdf'],
+      'video/mp4': ['.mp4'],
+      'video/webm': ['.webm'],
     },
     multiple: true,
     disabled: isUploading,
@@ -67,7 +71,11 @@ export const ImageUploadZone: React.FC<ImageUploadZoneProps> = ({ onImageUpload,
           </div>
           <div className="flex items-center gap-2 text-sm text-muted-foreground">
             <FileText className="w-4 h-4" />
-            <span>HTML</span>
+            <span>HTML, MHTML, PDF</span>
+          </div>
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Video className="w-4 h-4" />
+            <span>MP4, WebM, GIF</span>
           </div>
         </div>
 
@@ -0,0 +1,246 @@
+/**
+ * Issue Export Dialog
+ * Select suggestions from an analysis and export them as GitHub / Jira / Linear tickets,
+ * or write the payloads to a file with a dry run
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { CheckCircle2, ExternalLink, Loader2, XCircle } from 'lucide-react';
+import { IssueExportService, type DryRunFormat } from '@/services/IssueExportService';
+import type { IssueConnectorConfig, IssueSubmitResult } from '@/services/issueExport/IssueTrackerConnector';
+import type { UXAnalysis } from '@/types/ux-analysis';
+import { toast } from '@/hooks/use-toast';
+
+interface IssueExportDialogProps {
+  analysis: UXAnalysis;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const IssueExportDialog: React.FC<IssueExportDialogProps> = ({ analysis, open, onOpenChange }) => {
+  const connectors = IssueExportService.getConnectors();
+  const [connectorId, setConnectorId] = useState(connectors[0]?.id || 'github');
+  const [config, setConfig] = useState<IssueConnectorConfig>({});
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [dryRun, setDryRun] = useState(true);
+  const [dryRunFormat, setDryRunFormat] = useState<DryRunFormat>('json');
+  const [exporting, setExporting] = useState(false);
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [results, setResults] = useState<IssueSubmitResult[]>([]);
+
+  const connector = IssueExportService.getConnector(connectorId);
+  const suggestions = analysis.suggestions || [];
+  // Read by the reset below without re-running it when a parent re-render rebuilds the array
+  const suggestionsRef = useRef(suggestions);
+  suggestionsRef.current = suggestions;
+
+  useEffect(() => {
+    setConfig(IssueExportService.loadSavedConfig(connectorId));
+    setResults([]);
+  }, [connectorId]);
+
+  // Select everything again whenever the dialog opens or shows another analysis
+  useEffect(() => {
+    if (open) {
+      setSelectedIds(new Set(suggestionsRef.current.map(s => s.id)));
+      setResults([]);
+    }
+  }, [open, analysis.id]);
+
+  const toggleSuggestion = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleExport = async () => {
+    const selected = suggestions.filter(s => selectedIds.has(s.id));
+    if (selected.length === 0) return;
+
+    setExporting(true);
+    setResults([]);
+    setProgress(null);
+    try {
+      IssueExportService.saveConfig(connectorId, config);
+      const result = await IssueExportService.exportSuggestions(analysis, selected, {
+        connectorId,
+        config,
+        dryRun: dryRun ? dryRunFormat : false,
+        onProgress: (completed, total) => setProgress({ completed, total })
+      });
+
+      if (result.dryRun) {
+        toast({
+          title: 'Dry run complete',
+          description: `Wrote ${result.tickets.length} ${connector.name} payloads to a ${dryRunFormat.toUpperCase()} file`
+        });
+        return;
+      }
+
+      setResults(result.results);
+      const failed = result.results.filter(r => !r.success).length;
+      toast({
+        title: failed > 0 ? 'Export finished with errors' : 'Export complete',
+        description: `${result.results.length - failed} of ${result.results.length} tickets created in ${connector.name}`,
+        variant: failed > 0 ? 'destructive' : 'default'
+      });
+    } catch (error) {
+      console.error('Issue export failed:', error);
+      toast({
+        title: 'Export failed',
+        description: error instanceof Error ? error.message : 'Failed to export suggestions',
+        variant: 'destructive'
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const titleFor = (suggestionId: string) => suggestions.find(s => s.id === suggestionId)?.title || suggestionId;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Export to issue tracker</DialogTitle>
+          <DialogDescription>
+            Each suggestion becomes a ticket with category labels, an impact/effort priority and cropped screenshots.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Tracker</Label>
+            <Select value={connectorId} onValueChange={setConnectorId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {connectors.map(c => (
+                  <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Dry run</Label>
+            <div className="flex items-center gap-3 h-10">
+              <Switch checked={dryRun} onCheckedChange={setDryRun} />
+              {dryRun && (
+                <Select value={dryRunFormat} onValueChange={(value) => setDryRunFormat(value as DryRunFormat)}>
+                  <SelectTrigger className="w-24">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="json">JSON</SelectItem>
+                    <SelectItem value="csv">CSV</SelectItem>
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          {connector.configFields.map(field => (
+            <div key={field.key} className="space-y-1">
+              <Label htmlFor={`issue-export-${field.key}`} className="text-xs">
+                {field.label}{field.required && !dryRun ? ' *' : ''}
+              </Label>
+              <Input
+                id={`issue-export-${field.key}`}
+                type={field.secret ? 'password' : 'text'}
+                placeholder={field.placeholder}
+                value={config[field.key] || ''}
+                onChange={(e) => setConfig(prev => ({ ...prev, [field.key]: e.target.value }))}
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Suggestions ({selectedIds.size}/{suggestions.length})</Label>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setSelectedIds(selectedIds.size === suggestions.length ? new Set() : new Set(suggestions.map(s => s.id)))}
+            >
+              {selectedIds.size === suggestions.length ? 'Clear' : 'Select all'}
+            </Button>
+          </div>
+          <ScrollArea className="h-48 rounded-md border p-2">
+            <div className="space-y-2">
+              {suggestions.map(suggestion => (
+                <label key={suggestion.id} className="flex items-start gap-2 text-sm cursor-pointer">
+                  <Checkbox
+                    checked={selectedIds.has(suggestion.id)}
+                    onCheckedChange={() => toggleSuggestion(suggestion.id)}
+                    className="mt-0.5"
+                  />
+                  <span className="flex-1">{suggestion.title}</span>
+                  <Badge variant="outline" className="text-xs">{suggestion.category}</Badge>
+                  <Badge variant="secondary" className="text-xs">
+                    {IssueExportService.derivePriority(suggestion.impact, suggestion.effort)}
+                  </Badge>
+                </label>
+              ))}
+            </div>
+          </ScrollArea>
+        </div>
+
+        {results.length > 0 && (
+          <ScrollArea className="max-h-40">
+            <div className="space-y-1 text-sm">
+              {results.map(result => (
+                <div key={result.suggestionId} className="flex items-start gap-2">
+                  {result.success
+                    ? <CheckCircle2 className="h-4 w-4 text-green-600 mt-0.5 flex-shrink-0" />
+                    : <XCircle className="h-4 w-4 text-destructive mt-0.5 flex-shrink-0" />}
+                  <span className="flex-1">
+                    {titleFor(result.suggestionId)}
+                    {result.error && <span className="block text-xs text-destructive">{result.error}</span>}
+                  </span>
+                  {result.externalUrl && (
+                    <a href={result.externalUrl} target="_blank" rel="noreferrer" className="flex items-center gap-1 text-xs text-primary">
+                      {result.externalId} <ExternalLink className="h-3 w-3" />
+                    </a>
+                  )}
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Close</Button>
+          <Button onClick={handleExport} disabled={exporting || selectedIds.size === 0}>
+            {exporting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {exporting && progress
+              ? `Exporting ${progress.completed}/${progress.total}...`
+              : dryRun ? `Write ${dryRunFormat.toUpperCase()} file` : `Create ${selectedIds.size} tickets`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
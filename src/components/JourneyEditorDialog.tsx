@@ -0,0 +1,171 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { ArrowDown, ArrowUp, CornerDownRight } from 'lucide-react';
+import { GroupJourney, ImageGroup, UploadedImage } from '@/types/ux-analysis';
+import { getImagesInGroupOrder } from '@/utils/imageUtils';
+import { getJourneyTransitions, toGroupJourney } from '@/utils/journeyUtils';
+
+interface JourneyEditorDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (groupId: string, imageIds: string[], journey: GroupJourney | undefined) => void;
+  group: ImageGroup | null;
+  groupImages: UploadedImage[];
+}
+
+const pairKey = (fromImageId: string, toImageId: string) => `${fromImageId}:${toImageId}`;
+
+const labelsOf = (group: ImageGroup) => Object.fromEntries(
+  getJourneyTransitions(group).map(t => [pairKey(t.fromImageId, t.toImageId), t.label ?? ''])
+);
+
+export const JourneyEditorDialog: React.FC<JourneyEditorDialogProps> = ({
+  isOpen,
+  onClose,
+  onSave,
+  group,
+  groupImages,
+}) => {
+  const [isJourney, setIsJourney] = useState(false);
+  const [stepIds, setStepIds] = useState<string[]>([]);
+  // Labels stay keyed by step pair, so moving a step back restores the label of that pair
+  const [labels, setLabels] = useState<Record<string, string>>({});
+
+  // Update form values when group changes
+  useEffect(() => {
+    if (group) {
+      setIsJourney(!!group.journey);
+      setStepIds(group.imageIds);
+      setLabels(labelsOf(group));
+    }
+  }, [group]);
+
+  const moveStep = (index: number, offset: -1 | 1) => {
+    setStepIds(prev => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!group) return;
+    const transitions = getJourneyTransitions({ imageIds: stepIds }).map(t => ({
+      ...t,
+      label: labels[pairKey(t.fromImageId, t.toImageId)]
+    }));
+    onSave(group.id, stepIds, isJourney ? toGroupJourney(transitions) : undefined);
+    onClose();
+  };
+
+  const handleClose = () => {
+    // Reset to original values on close
+    if (group) {
+      setIsJourney(!!group.journey);
+      setStepIds(group.imageIds);
+      setLabels(labelsOf(group));
+    }
+    onClose();
+  };
+
+  if (!group) return null;
+
+  const steps = getImagesInGroupOrder(stepIds, groupImages);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-[520px]">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Edit Journey</DialogTitle>
+            <DialogDescription>
+              Put the {groupImages.length} screens of {group.name} in the order a user goes through them. Group analysis then reviews every step-to-step transition.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 py-4">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="is-journey">Analyze as a user journey</Label>
+              <Switch id="is-journey" checked={isJourney} onCheckedChange={setIsJourney} />
+            </div>
+
+            <ScrollArea className="max-h-[420px] pr-3">
+              <ol className="space-y-1">
+                {steps.map((image, index) => {
+                  const next = steps[index + 1];
+                  const key = next ? pairKey(image.id, next.id) : null;
+                  return (
+                    <li key={image.id}>
+                      <div className="flex items-center gap-3 rounded-md border p-2">
+                        <span className="w-12 shrink-0 text-xs font-medium text-muted-foreground">Step {index + 1}</span>
+                        <img src={image.url} alt="" className="h-10 w-16 shrink-0 rounded object-cover" />
+                        <span className="flex-1 truncate text-sm">{image.name}</span>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 w-7 p-0"
+                          disabled={index === 0}
+                          onClick={() => moveStep(index, -1)}
+                          aria-label={`Move step ${index + 1} up`}
+                        >
+                          <ArrowUp className="w-3 h-3" />
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 w-7 p-0"
+                          disabled={index === steps.length - 1}
+                          onClick={() => moveStep(index, 1)}
+                          aria-label={`Move step ${index + 1} down`}
+                        >
+                          <ArrowDown className="w-3 h-3" />
+                        </Button>
+                      </div>
+                      {key && (
+                        <div className="flex items-center gap-2 py-1 pl-6">
+                          <CornerDownRight className="w-3 h-3 shrink-0 text-muted-foreground" />
+                          <Input
+                            value={labels[key] ?? ''}
+                            onChange={(e) => setLabels(prev => ({ ...prev, [key]: e.target.value }))}
+                            placeholder="Optional action, e.g. taps Checkout"
+                            className="h-7 text-xs"
+                            disabled={!isJourney}
+                            aria-label={`Transition from step ${index + 1} to step ${index + 2}`}
+                          />
+                        </div>
+                      )}
+                    </li>
+                  );
+                })}
+              </ol>
+            </ScrollArea>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={handleClose}>
+              Cancel
+            </Button>
+            <Button type="submit">
+              Save Journey
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -4,8 +4,9 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Loader2, Download, BarChart3, Eye, Zap, Clock } from 'lucide-react';
+import { Loader2, Download, BarChart3, Eye, Zap, Clock, DollarSign } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
+import { CostTrackingService, formatUsd, type ModelCostStats } from '@/services/CostTrackingService';
 import { useToast } from '@/hooks/use-toast';
 
 interface ModelAnalysis {
@@ -38,6 +39,8 @@ export function ModelComparisonPanel({
   const [analyses, setAnalyses] = useState<ModelAnalysis[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [metrics, setMetrics] = useState<Record<string, ComparisonMetrics>>({});
+  // Recorded cost and latency of the last run's model calls, by model id
+  const [costs, setCosts] = useState<Record<string, ModelCostStats>>({});
   const [selectedModels, setSelectedModels] = useState<string[]>(['gpt-4o', 'claude-opus-4-20250514']);
   const { toast } = useToast();
 
@@ -59,6 +62,7 @@ export function ModelComparisonPanel({
 
     setIsLoading(true);
     const results: ModelAnalysis[] = [];
+    const runStartedAt = new Date().toISOString();
 
     try {
       // Run analysis for each selected model in parallel
@@ -95,6 +99,7 @@ export function ModelComparisonPanel({
       const completedAnalyses = await Promise.all(analysisPromises);
       setAnalyses(completedAnalyses);
       calculateMetrics(completedAnalyses);
+      loadCosts(runStartedAt);
       
       if (onAnalysisComplete) {
         onAnalysisComplete(completedAnalyses);
@@ -117,6 +122,16 @@ export function ModelComparisonPanel({
     }
   };
 
+  const loadCosts = async (since: string) => {
+    try {
+      const usage = await CostTrackingService.getUsageSummary({ imageId, since });
+      setCosts(Object.fromEntries(usage.byModel.map(stats => [stats.model, stats])));
+    } catch (error) {
+      console.warn('Failed to load model costs:', error);
+      setCosts({});
+    }
+  };
+
   const calculateMetrics = (analyses: ModelAnalysis[]) => {
     const modelMetrics: Record<string, ComparisonMetrics> = {};
 
@@ -161,7 +176,9 @@ export function ModelComparisonPanel({
         processingTime: a.processingTime,
         summary: a.analysis.summary,
         annotationCount: a.analysis.visualAnnotations?.length || 0,
-        suggestionCount: a.analysis.suggestions?.length || 0
+        suggestionCount: a.analysis.suggestions?.length || 0,
+        costUsd: costs[a.model]?.costUsd ?? null,
+        tokens: costs[a.model] ? costs[a.model].inputTokens + costs[a.model].outputTokens : null
       })),
       metrics,
       recommendations: generateModelRecommendations()
@@ -209,6 +226,10 @@ export function ModelComparisonPanel({
     if (bestCoverage.model) {
       recommendations.push(`Use ${bestCoverage.model} for most comprehensive insights (${bestCoverage.score}% coverage)`);
     }
+    const cheapest = Object.values(costs).filter(c => metrics[c.model]).sort((a, b) => a.costUsd - b.costUsd)[0];
+    if (cheapest && Object.keys(costs).length > 1) {
+      recommendations.push(`Use ${cheapest.model} for lowest cost (${formatUsd(cheapest.costUsd)} for this image)`);
+    }
 
     return recommendations;
   };
@@ -328,6 +349,13 @@ export function ModelComparisonPanel({
                         <Clock className="h-3 w-3" />
                         {(analysis.processingTime / 1000).toFixed(1)}s
                       </div>
+                      {costs[analysis.model] && (
+                        <div className="flex items-center gap-1 col-span-2">
+                          <DollarSign className="h-3 w-3" />
+                          {formatUsd(costs[analysis.model].costUsd)} •{' '}
+                          {(costs[analysis.model].inputTokens + costs[analysis.model].outputTokens).toLocaleString()} tokens
+                        </div>
+                      )}
                     </div>
                   </CardContent>
                 </Card>
@@ -375,6 +403,15 @@ export function ModelComparisonPanel({
                       <Progress value={metric.consistency} className="h-2" />
                     </div>
                   </div>
+                  {costs[model] && (
+                    <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
+                      <span>Cost: <span className="font-medium text-foreground">{formatUsd(costs[model].costUsd)}</span> over {costs[model].calls} calls</span>
+                      {costs[model].avgLatencyMs != null && (
+                        <span>Avg latency: <span className="font-medium text-foreground">{(costs[model].avgLatencyMs / 1000).toFixed(1)}s</span></span>
+                      )}
+                      <span>Tokens: {costs[model].inputTokens.toLocaleString()} in / {costs[model].outputTokens.toLocaleString()} out</span>
+                    </div>
+                  )}
                 </CardContent>
               </Card>
             ))}
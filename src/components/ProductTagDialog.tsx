@@ -0,0 +1,113 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import type { ProductTag } from '@/types/ux-analysis';
+
+interface ProductTagDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (tag: ProductTag | null) => void;
+  imageCount: number;
+  // Tag shared by every selected screen, if any
+  initialTag?: ProductTag;
+  // Competitors already tagged in the project, offered as suggestions
+  competitorNames: string[];
+}
+
+type TagChoice = 'ours' | 'competitor' | 'none';
+
+export const ProductTagDialog: React.FC<ProductTagDialogProps> = ({
+  isOpen,
+  onClose,
+  onSave,
+  imageCount,
+  initialTag,
+  competitorNames,
+}) => {
+  const [choice, setChoice] = useState<TagChoice>('ours');
+  const [competitor, setCompetitor] = useState('');
+
+  // Update form values when the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setChoice(initialTag?.kind ?? 'ours');
+      setCompetitor(initialTag?.kind === 'competitor' ? initialTag.name ?? '' : '');
+    }
+  }, [isOpen, initialTag]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (choice === 'competitor' && !competitor.trim()) return;
+    onSave(choice === 'none' ? null : choice === 'ours' ? { kind: 'ours' } : { kind: 'competitor', name: competitor.trim() });
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[425px]">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Tag Product</DialogTitle>
+            <DialogDescription>
+              Mark whose product the {imageCount} selected screen{imageCount !== 1 ? 's show' : ' shows'}. Tagged screens can be benchmarked against each other.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 py-4">
+            <RadioGroup value={choice} onValueChange={(value) => setChoice(value as TagChoice)}>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="ours" id="tag-ours" />
+                <Label htmlFor="tag-ours">Ours</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="competitor" id="tag-competitor" />
+                <Label htmlFor="tag-competitor">Competitor</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="none" id="tag-none" />
+                <Label htmlFor="tag-none">Not tagged</Label>
+              </div>
+            </RadioGroup>
+
+            {choice === 'competitor' && (
+              <div className="grid gap-2">
+                <Label htmlFor="competitor-name">Competitor name</Label>
+                <Input
+                  id="competitor-name"
+                  value={competitor}
+                  onChange={(e) => setCompetitor(e.target.value)}
+                  placeholder="e.g. Acme"
+                  list="competitor-names"
+                  autoFocus
+                  required
+                />
+                <datalist id="competitor-names">
+                  {competitorNames.map(name => <option key={name} value={name} />)}
+                </datalist>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={choice === 'competitor' && !competitor.trim()}>
+              Save Tag
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
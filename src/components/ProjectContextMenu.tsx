@@ -7,6 +7,8 @@ import {
   BarChart3,
   Star,
   Archive,
+  FileDown,
+  Printer,
   MoreHorizontal
 } from 'lucide-react';
 import {
@@ -31,6 +33,7 @@ export interface ProjectContextMenuProps {
   onAnalyze?: () => void;
   onFavorite?: () => void;
   onArchive?: () => void;
+  onExportReport?: (format: 'html' | 'pdf') => void;
 }
 
 export const ProjectContextMenu: React.FC<ProjectContextMenuProps> = ({
@@ -46,6 +49,7 @@ export const ProjectContextMenu: React.FC<ProjectContextMenuProps> = ({
   onAnalyze,
   onFavorite,
   onArchive,
+  onExportReport,
 }) => {
   const isMobile = useIsMobile();
   const isMultiple = selectedCount > 1;
@@ -75,6 +79,18 @@ export const ProjectContextMenu: React.FC<ProjectContextMenuProps> = ({
       action: onAnalyze,
       show: !!onAnalyze,
     },
+    {
+      icon: <FileDown className="h-5 w-5" />,
+      label: 'Export HTML report',
+      action: () => onExportReport?.('html'),
+      show: !!onExportReport && !isMultiple,
+    },
+    {
+      icon: <Printer className="h-5 w-5" />,
+      label: 'Export PDF report',
+      action: () => onExportReport?.('pdf'),
+      show: !!onExportReport && !isMultiple,
+    },
     {
       icon: <Star className="h-5 w-5" />,
       label: isMultiple ? `Favorite ${selectedCount} projects` : 'Add to favorites',
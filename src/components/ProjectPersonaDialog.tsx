@@ -0,0 +1,321 @@
+/**
+ * Project Persona Dialog
+ * Lists the end-user personas of a project; editors can create them from scratch or a preset and edit
+ * their goals, accessibility needs and constraints. Personas are picked per run on the canvas.
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Pencil, Trash2 } from 'lucide-react';
+import { useWorkspace } from '@/context/WorkspaceContext';
+import { PERSONA_PRESETS, PersonaService, type PersonaDraft } from '@/services/PersonaService';
+import type { EndUserPersona, PersonaExpertise } from '@/types/ux-analysis';
+import { toast } from '@/hooks/use-toast';
+
+interface ProjectPersonaDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: string;
+  projectName?: string;
+}
+
+// Lists are edited one entry per line
+interface PersonaFormState {
+  id?: string;
+  name: string;
+  description: string;
+  age: string;
+  techExpertise: PersonaExpertise;
+  goals: string;
+  accessibilityNeeds: string;
+  constraints: string;
+}
+
+const toForm = (persona: PersonaDraft & { id?: string }): PersonaFormState => ({
+  id: persona.id,
+  name: persona.name,
+  description: persona.description,
+  age: persona.age != null ? String(persona.age) : '',
+  techExpertise: persona.techExpertise,
+  goals: persona.goals.join('\n'),
+  accessibilityNeeds: persona.accessibilityNeeds.join('\n'),
+  constraints: persona.constraints.join('\n')
+});
+
+const formFromTemplate = (template: string): PersonaFormState => {
+  const preset = PERSONA_PRESETS.find(p => p.name === template);
+  return toForm(preset ?? {
+    name: '',
+    description: '',
+    age: null,
+    techExpertise: 'intermediate',
+    goals: [],
+    accessibilityNeeds: [],
+    constraints: []
+  });
+};
+
+const lines = (value: string) => value.split('\n');
+
+const summarize = (persona: EndUserPersona) => [
+  persona.age != null ? `${persona.age} years` : null,
+  persona.techExpertise,
+  persona.accessibilityNeeds.length > 0 ? `${persona.accessibilityNeeds.length} accessibility needs` : null
+].filter(Boolean).join(' · ');
+
+export const ProjectPersonaDialog: React.FC<ProjectPersonaDialogProps> = ({ open, onOpenChange, projectId, projectName }) => {
+  const { can } = useWorkspace();
+  const [personas, setPersonas] = useState<EndUserPersona[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [form, setForm] = useState<PersonaFormState | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const isEditor = can('editor');
+
+  const loadPersonas = useCallback(async () => {
+    setLoading(true);
+    try {
+      setPersonas(await PersonaService.getPersonas(projectId));
+    } catch (error) {
+      console.error('Failed to load personas:', error);
+      toast({ title: 'Failed to load personas', variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    if (open) loadPersonas();
+    else setForm(null);
+  }, [open, loadPersonas]);
+
+  const handleDelete = async (personaId: string) => {
+    try {
+      await PersonaService.deletePersona(personaId);
+      await loadPersonas();
+    } catch (error) {
+      console.error('Failed to delete persona:', error);
+      toast({
+        title: 'Failed to delete persona',
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+
+    setSaving(true);
+    try {
+      await PersonaService.savePersona({
+        id: form.id,
+        projectId,
+        name: form.name,
+        description: form.description,
+        age: form.age.trim() ? Number(form.age) : null,
+        techExpertise: form.techExpertise,
+        goals: lines(form.goals),
+        accessibilityNeeds: lines(form.accessibilityNeeds),
+        constraints: lines(form.constraints)
+      });
+      setForm(null);
+      await loadPersonas();
+      toast({ title: 'Persona saved' });
+    } catch (error) {
+      console.error('Failed to save persona:', error);
+      toast({
+        title: 'Failed to save persona',
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>End-user personas{projectName ? ` · ${projectName}` : ''}</DialogTitle>
+          <DialogDescription>
+            Personas describe the people who use the interface. Select screens on the canvas and run them
+            through several personas to see where severity and friction diverge.
+          </DialogDescription>
+        </DialogHeader>
+
+        {form ? (
+          <form onSubmit={handleSave} className="space-y-4">
+            <ScrollArea className="h-96 pr-3">
+              <div className="space-y-3">
+                <div className="grid grid-cols-[1fr_5rem_9rem] gap-2">
+                  <div className="space-y-1">
+                    <Label htmlFor="persona-name" className="text-xs">Name</Label>
+                    <Input
+                      id="persona-name"
+                      value={form.name}
+                      placeholder="First-time buyer with low vision"
+                      onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="persona-age" className="text-xs">Age</Label>
+                    <Input
+                      id="persona-age"
+                      type="number"
+                      min={1}
+                      max={120}
+                      value={form.age}
+                      onChange={(e) => setForm({ ...form, age: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Tech expertise</Label>
+                    <Select
+                      value={form.techExpertise}
+                      onValueChange={(value) => setForm({ ...form, techExpertise: value as PersonaExpertise })}
+                    >
+                      <SelectTrigger aria-label="Tech expertise">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="novice">Novice</SelectItem>
+                        <SelectItem value="intermediate">Intermediate</SelectItem>
+                        <SelectItem value="expert">Expert</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="persona-description" className="text-xs">Description</Label>
+                  <Textarea
+                    id="persona-description"
+                    rows={2}
+                    value={form.description}
+                    placeholder="Who they are and in what situation they use the product"
+                    onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="persona-goals" className="text-xs">Goals (one per line)</Label>
+                  <Textarea
+                    id="persona-goals"
+                    rows={3}
+                    value={form.goals}
+                    onChange={(e) => setForm({ ...form, goals: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="persona-needs" className="text-xs">Accessibility needs (one per line)</Label>
+                  <Textarea
+                    id="persona-needs"
+                    rows={3}
+                    value={form.accessibilityNeeds}
+                    placeholder="Low vision: needs large text and strong contrast"
+                    onChange={(e) => setForm({ ...form, accessibilityNeeds: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="persona-constraints" className="text-xs">Constraints (one per line)</Label>
+                  <Textarea
+                    id="persona-constraints"
+                    rows={3}
+                    value={form.constraints}
+                    placeholder="Keyboard-first"
+                    onChange={(e) => setForm({ ...form, constraints: e.target.value })}
+                  />
+                </div>
+              </div>
+            </ScrollArea>
+
+            <DialogFooter>
+              <Button type="button" variant="ghost" onClick={() => setForm(null)}>Cancel</Button>
+              <Button type="submit" disabled={saving || !form.name.trim()}>
+                {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save persona
+              </Button>
+            </DialogFooter>
+          </form>
+        ) : (
+          <div className="space-y-3">
+            {isEditor && (
+              <Select onValueChange={(template) => setForm(formFromTemplate(template))}>
+                <SelectTrigger className="w-64">
+                  <SelectValue placeholder="New persona from…" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="blank">Blank persona</SelectItem>
+                  {PERSONA_PRESETS.map(preset => (
+                    <SelectItem key={preset.name} value={preset.name}>{preset.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            <ScrollArea className="max-h-80">
+              {loading ? (
+                <div className="flex justify-center py-6">
+                  <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                </div>
+              ) : personas.length === 0 ? (
+                <p className="py-6 text-center text-sm text-muted-foreground">No personas yet.</p>
+              ) : (
+                <div className="space-y-2">
+                  {personas.map(persona => (
+                    <div key={persona.id} className="flex items-center gap-2 rounded-md border p-2">
+                      <div className="flex-1 min-w-0">
+                        <div className="text-sm font-medium truncate">{persona.name}</div>
+                        <div className="text-xs text-muted-foreground truncate">
+                          {persona.description || summarize(persona)}
+                        </div>
+                      </div>
+                      <Badge variant="secondary" className="capitalize">{persona.techExpertise}</Badge>
+                      {isEditor && (
+                        <>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            title="Edit persona"
+                            onClick={() => setForm(toForm(persona))}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            title="Delete persona"
+                            onClick={() => handleDelete(persona.id)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </ScrollArea>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,334 @@
+/**
+ * Project Rubric Dialog
+ * Lists the analysis rubrics of a project; editors can create them from scratch or a preset,
+ * edit weighted criteria with pass/fail guidance and choose the one future analyses are scored against
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { useWorkspace } from '@/context/WorkspaceContext';
+import { DEFAULT_CRITERIA, RUBRIC_PRESETS, RubricService } from '@/services/RubricService';
+import type { AnalysisRubric, RubricCriterion } from '@/types/ux-analysis';
+import { toast } from '@/hooks/use-toast';
+
+interface ProjectRubricDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: string;
+  projectName?: string;
+}
+
+interface RubricDraft {
+  id?: string;
+  name: string;
+  description: string;
+  criteria: RubricCriterion[];
+}
+
+const BLANK_CRITERION: RubricCriterion = { id: '', name: '', description: '', weight: 1, passGuidance: '', failGuidance: '' };
+
+const draftFromTemplate = (template: string): RubricDraft => {
+  const preset = RUBRIC_PRESETS.find(p => p.name === template);
+  if (preset) {
+    return { name: preset.name, description: preset.description, criteria: preset.criteria.map(c => ({ ...c, id: '' })) };
+  }
+  // Start from the built-in categories so a new rubric reproduces today's scoring until edited
+  return { name: '', description: '', criteria: DEFAULT_CRITERIA.map(c => ({ ...c, id: '' })) };
+};
+
+export const ProjectRubricDialog: React.FC<ProjectRubricDialogProps> = ({ open, onOpenChange, projectId, projectName }) => {
+  const { can } = useWorkspace();
+  const [rubrics, setRubrics] = useState<AnalysisRubric[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [draft, setDraft] = useState<RubricDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const isEditor = can('editor');
+  const activeRubric = rubrics.find(rubric => rubric.isActive);
+
+  const loadRubrics = useCallback(async () => {
+    setLoading(true);
+    try {
+      setRubrics(await RubricService.getRubrics(projectId));
+    } catch (error) {
+      console.error('Failed to load rubrics:', error);
+      toast({ title: 'Failed to load rubrics', variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    if (open) loadRubrics();
+    else setDraft(null);
+  }, [open, loadRubrics]);
+
+  const runAction = async (action: () => Promise<void>, failureTitle: string) => {
+    try {
+      await action();
+      await loadRubrics();
+    } catch (error) {
+      console.error(`${failureTitle}:`, error);
+      toast({
+        title: failureTitle,
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const updateCriterion = (index: number, changes: Partial<RubricCriterion>) => {
+    setDraft(current => current && {
+      ...current,
+      criteria: current.criteria.map((criterion, i) => i === index ? { ...criterion, ...changes } : criterion)
+    });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+
+    setSaving(true);
+    try {
+      const saved = await RubricService.saveRubric({ ...draft, projectId });
+      // The first rubric of a project is the one the user wants analyses scored against
+      if (!activeRubric && !draft.id) await RubricService.setActiveRubric(projectId, saved.id);
+      setDraft(null);
+      await loadRubrics();
+      toast({ title: 'Rubric saved', description: 'Applies to analyses run from now on.' });
+    } catch (error) {
+      console.error('Failed to save rubric:', error);
+      toast({
+        title: 'Failed to save rubric',
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Analysis rubric{projectName ? ` · ${projectName}` : ''}</DialogTitle>
+          <DialogDescription>
+            The active rubric replaces the built-in usability, accessibility, visual and content scores.
+            Each criterion is scored separately and the overall score is their weighted average.
+          </DialogDescription>
+        </DialogHeader>
+
+        {draft ? (
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="rubric-name" className="text-xs">Name</Label>
+                <Input
+                  id="rubric-name"
+                  value={draft.name}
+                  placeholder="Checkout heuristics"
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="rubric-description" className="text-xs">Description</Label>
+                <Input
+                  id="rubric-description"
+                  value={draft.description}
+                  onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <ScrollArea className="h-80 pr-3">
+              <div className="space-y-3">
+                {draft.criteria.map((criterion, index) => (
+                  <div key={index} className="space-y-2 rounded-md border p-3">
+                    <div className="flex items-center gap-2">
+                      <Input
+                        value={criterion.name}
+                        placeholder="Criterion"
+                        aria-label="Criterion name"
+                        onChange={(e) => updateCriterion(index, { name: e.target.value })}
+                      />
+                      <Input
+                        type="number"
+                        min={0.5}
+                        step={0.5}
+                        className="w-20"
+                        title="Weight"
+                        aria-label="Weight"
+                        value={criterion.weight}
+                        onChange={(e) => updateCriterion(index, { weight: Number(e.target.value) })}
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 shrink-0"
+                        title="Remove criterion"
+                        onClick={() => setDraft({ ...draft, criteria: draft.criteria.filter((_, i) => i !== index) })}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <Textarea
+                      rows={2}
+                      value={criterion.description}
+                      placeholder="What the analysis should look at"
+                      aria-label="Criterion description"
+                      onChange={(e) => updateCriterion(index, { description: e.target.value })}
+                    />
+                    <div className="grid grid-cols-2 gap-2">
+                      <Input
+                        value={criterion.passGuidance}
+                        placeholder="Passes when…"
+                        aria-label="Pass guidance"
+                        onChange={(e) => updateCriterion(index, { passGuidance: e.target.value })}
+                      />
+                      <Input
+                        value={criterion.failGuidance}
+                        placeholder="Fails when…"
+                        aria-label="Fail guidance"
+                        onChange={(e) => updateCriterion(index, { failGuidance: e.target.value })}
+                      />
+                    </div>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setDraft({ ...draft, criteria: [...draft.criteria, { ...BLANK_CRITERION }] })}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add criterion
+                </Button>
+              </div>
+            </ScrollArea>
+
+            <DialogFooter>
+              <Button type="button" variant="ghost" onClick={() => setDraft(null)}>Cancel</Button>
+              <Button type="submit" disabled={saving || !draft.name.trim()}>
+                {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save rubric
+              </Button>
+            </DialogFooter>
+          </form>
+        ) : (
+          <div className="space-y-3">
+            {isEditor && (
+              <div className="flex items-center gap-2">
+                <Select onValueChange={(template) => setDraft(draftFromTemplate(template))}>
+                  <SelectTrigger className="w-64">
+                    <SelectValue placeholder="New rubric from…" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="blank">Built-in categories</SelectItem>
+                    {RUBRIC_PRESETS.map(preset => (
+                      <SelectItem key={preset.name} value={preset.name}>{preset.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <ScrollArea className="max-h-80">
+              {loading ? (
+                <div className="flex justify-center py-6">
+                  <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2 rounded-md border p-2">
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm font-medium">Built-in categories</div>
+                      <div className="text-xs text-muted-foreground">Usability, accessibility, visual and content</div>
+                    </div>
+                    {!activeRubric ? (
+                      <Badge variant="secondary">Active</Badge>
+                    ) : isEditor && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => runAction(() => RubricService.setActiveRubric(projectId, null), 'Failed to change rubric')}
+                      >
+                        Use
+                      </Button>
+                    )}
+                  </div>
+
+                  {rubrics.map(rubric => (
+                    <div key={rubric.id} className="flex items-center gap-2 rounded-md border p-2">
+                      <div className="flex-1 min-w-0">
+                        <div className="text-sm font-medium truncate">{rubric.name}</div>
+                        <div className="text-xs text-muted-foreground truncate">
+                          {rubric.criteria.length} criteria
+                          {rubric.description ? ` · ${rubric.description}` : ''}
+                        </div>
+                      </div>
+                      {rubric.isActive ? (
+                        <Badge variant="secondary">Active</Badge>
+                      ) : isEditor && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => runAction(() => RubricService.setActiveRubric(projectId, rubric.id), 'Failed to change rubric')}
+                        >
+                          Use
+                        </Button>
+                      )}
+                      {isEditor && (
+                        <>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            title="Edit rubric"
+                            onClick={() => setDraft({
+                              id: rubric.id,
+                              name: rubric.name,
+                              description: rubric.description,
+                              criteria: rubric.criteria
+                            })}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            title="Delete rubric"
+                            onClick={() => runAction(() => RubricService.deleteRubric(rubric.id), 'Failed to delete rubric')}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </ScrollArea>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
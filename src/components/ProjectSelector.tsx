@@ -1,15 +1,33 @@
-import React from 'react';
-import { Check, ChevronDown, BarChart3, FolderOpen, Activity } from 'lucide-react';
+import React, { useState } from 'react';
+import { Check, ChevronDown, BarChart3, FolderOpen, Activity, Users, Plus, UserCog, ListChecks, UserRound, Palette, Webhook } from 'lucide-react';
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
 import { useProjectSelection, ProjectOption } from '@/hooks/useProjectSelection';
+import { useWorkspace } from '@/context/WorkspaceContext';
+import { WorkspaceMembersDialog } from '@/components/WorkspaceMembersDialog';
+import { ProjectRubricDialog } from '@/components/ProjectRubricDialog';
+import { ProjectPersonaDialog } from '@/components/ProjectPersonaDialog';
+import { DesignTokensDialog } from '@/components/DesignTokensDialog';
+import { ProjectWebhooksDialog } from '@/components/ProjectWebhooksDialog';
+import { toast } from '@/hooks/use-toast';
 import { useNavigate } from 'react-router-dom';
 interface ProjectSelectorProps {
   className?: string;
@@ -24,7 +42,16 @@ export const ProjectSelector: React.FC<ProjectSelectorProps> = ({ className }) =
     switchProject,
     toggleAggregatedView
   } = useProjectSelection();
+  const { workspaces, currentWorkspace, switchWorkspace, createWorkspace } = useWorkspace();
   const navigate = useNavigate();
+  const [membersOpen, setMembersOpen] = useState(false);
+  const [rubricOpen, setRubricOpen] = useState(false);
+  const [personasOpen, setPersonasOpen] = useState(false);
+  const [tokensOpen, setTokensOpen] = useState(false);
+  const [webhooksOpen, setWebhooksOpen] = useState(false);
+  const [createOpen, setCreateOpen] = useState(false);
+  const [workspaceName, setWorkspaceName] = useState('');
+  const [creating, setCreating] = useState(false);
 
   const currentProject = projects.find(p => p.id === currentProjectId);
   const activeProjects = projects.filter(p => p.isActive);
@@ -37,7 +64,31 @@ export const ProjectSelector: React.FC<ProjectSelectorProps> = ({ className }) =
     return parts.length > 0 ? parts.join(', ') : 'No data';
   };
 
+  const handleSwitchWorkspace = async (workspaceId: string) => {
+    await switchWorkspace(workspaceId);
+    navigate('/projects');
+  };
+
+  const handleCreateWorkspace = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!workspaceName.trim()) return;
+
+    setCreating(true);
+    try {
+      await createWorkspace(workspaceName);
+      setCreateOpen(false);
+      setWorkspaceName('');
+      setMembersOpen(true);
+    } catch (error) {
+      console.error('Failed to create workspace:', error);
+      toast({ title: 'Failed to create workspace', variant: 'destructive' });
+    } finally {
+      setCreating(false);
+    }
+  };
+
   return (
+    <>
     <DropdownMenu>
       <DropdownMenuTrigger asChild>
         <Button 
@@ -68,6 +119,67 @@ export const ProjectSelector: React.FC<ProjectSelectorProps> = ({ className }) =
       </DropdownMenuTrigger>
       
       <DropdownMenuContent align="start" className="w-[300px]">
+        {/* Workspace */}
+        <DropdownMenuSub>
+          <DropdownMenuSubTrigger className="flex items-center gap-2">
+            <Users className="h-4 w-4" />
+            <div className="flex-1 min-w-0">
+              <div className="text-xs text-muted-foreground">Workspace</div>
+              <div className="font-medium truncate">{currentWorkspace?.name || 'Loading...'}</div>
+            </div>
+            {currentWorkspace && (
+              <Badge variant="outline" className="text-xs capitalize">{currentWorkspace.role}</Badge>
+            )}
+          </DropdownMenuSubTrigger>
+          <DropdownMenuSubContent className="w-[240px]">
+            {workspaces.map(workspace => (
+              <DropdownMenuItem
+                key={workspace.id}
+                onClick={() => handleSwitchWorkspace(workspace.id)}
+                className="flex items-center justify-between"
+              >
+                <span className="truncate">{workspace.name}</span>
+                {workspace.id === currentWorkspace?.id && <Check className="h-4 w-4" />}
+              </DropdownMenuItem>
+            ))}
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={() => setCreateOpen(true)} className="flex items-center gap-2">
+              <Plus className="h-4 w-4" />
+              New team workspace
+            </DropdownMenuItem>
+          </DropdownMenuSubContent>
+        </DropdownMenuSub>
+        <DropdownMenuItem onClick={() => setMembersOpen(true)} className="flex items-center gap-2">
+          <UserCog className="h-4 w-4" />
+          Manage members
+        </DropdownMenuItem>
+        {currentProject && !aggregatedView && (
+          <DropdownMenuItem onClick={() => setRubricOpen(true)} className="flex items-center gap-2">
+            <ListChecks className="h-4 w-4" />
+            Analysis rubric
+          </DropdownMenuItem>
+        )}
+        {currentProject && !aggregatedView && (
+          <DropdownMenuItem onClick={() => setPersonasOpen(true)} className="flex items-center gap-2">
+            <UserRound className="h-4 w-4" />
+            End-user personas
+          </DropdownMenuItem>
+        )}
+        {currentProject && !aggregatedView && (
+          <DropdownMenuItem onClick={() => setTokensOpen(true)} className="flex items-center gap-2">
+            <Palette className="h-4 w-4" />
+            Design tokens
+          </DropdownMenuItem>
+        )}
+        {currentProject && !aggregatedView && (
+          <DropdownMenuItem onClick={() => setWebhooksOpen(true)} className="flex items-center gap-2">
+            <Webhook className="h-4 w-4" />
+            Webhooks
+          </DropdownMenuItem>
+        )}
+
+        <DropdownMenuSeparator />
+
         {/* Aggregated View Option */}
         <DropdownMenuItem
           onClick={async () => { toggleAggregatedView(); navigate('/canvas'); }}
@@ -160,5 +272,60 @@ export const ProjectSelector: React.FC<ProjectSelectorProps> = ({ className }) =
         )}
       </DropdownMenuContent>
     </DropdownMenu>
+
+    <WorkspaceMembersDialog open={membersOpen} onOpenChange={setMembersOpen} />
+    {currentProject && (
+      <ProjectRubricDialog
+        open={rubricOpen}
+        onOpenChange={setRubricOpen}
+        projectId={currentProject.id}
+        projectName={currentProject.name}
+      />
+    )}
+    {currentProject && (
+      <ProjectPersonaDialog
+        open={personasOpen}
+        onOpenChange={setPersonasOpen}
+        projectId={currentProject.id}
+        projectName={currentProject.name}
+      />
+    )}
+    {currentProject && (
+      <DesignTokensDialog
+        open={tokensOpen}
+        onOpenChange={setTokensOpen}
+        projectId={currentProject.id}
+        projectName={currentProject.name}
+      />
+    )}
+    {currentProject && (
+      <ProjectWebhooksDialog
+        open={webhooksOpen}
+        onOpenChange={setWebhooksOpen}
+        projectId={currentProject.id}
+        projectName={currentProject.name}
+      />
+    )}
+
+    <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+      <DialogContent className="max-w-sm">
+        <form onSubmit={handleCreateWorkspace} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>New team workspace</DialogTitle>
+          </DialogHeader>
+          <Input
+            autoFocus
+            placeholder="Workspace name"
+            value={workspaceName}
+            onChange={(e) => setWorkspaceName(e.target.value)}
+          />
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setCreateOpen(false)}>Cancel</Button>
+            <Button type="submit" disabled={creating || !workspaceName.trim()}>Create</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+    </>
   );
 };
\ No newline at end of file
@@ -0,0 +1,427 @@
+/**
+ * Project Webhooks Dialog
+ * Editors register HTTPS endpoints that receive signed job lifecycle events, and can inspect the
+ * delivery log of each endpoint and redeliver individual events
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { ArrowLeft, Copy, Eye, EyeOff, History, Loader2, Plus, RotateCcw, Trash2 } from 'lucide-react';
+import { useWorkspace } from '@/context/WorkspaceContext';
+import {
+  WEBHOOK_EVENTS,
+  WebhookService,
+  type WebhookDelivery,
+  type WebhookEndpoint,
+  type WebhookEventType
+} from '@/services/WebhookService';
+import { toast } from '@/hooks/use-toast';
+
+interface ProjectWebhooksDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: string;
+  projectName?: string;
+}
+
+interface EndpointDraft {
+  url: string;
+  description: string;
+  events: WebhookEventType[];
+}
+
+const BLANK_DRAFT: EndpointDraft = { url: '', description: '', events: ['analysis.completed', 'analysis.failed'] };
+
+const STATUS_VARIANTS: Record<WebhookDelivery['status'], 'default' | 'secondary' | 'destructive'> = {
+  succeeded: 'default',
+  pending: 'secondary',
+  failed: 'destructive'
+};
+
+const eventLabel = (type: string) => WEBHOOK_EVENTS.find(event => event.type === type)?.label ?? type;
+
+export const ProjectWebhooksDialog: React.FC<ProjectWebhooksDialogProps> = ({ open, onOpenChange, projectId, projectName }) => {
+  const { can } = useWorkspace();
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [draft, setDraft] = useState<EndpointDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [revealedSecret, setRevealedSecret] = useState<string | null>(null);
+  const [logEndpoint, setLogEndpoint] = useState<WebhookEndpoint | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [deliveriesLoading, setDeliveriesLoading] = useState(false);
+  const [expandedDelivery, setExpandedDelivery] = useState<string | null>(null);
+  const [redelivering, setRedelivering] = useState<string | null>(null);
+
+  const isEditor = can('editor');
+
+  const loadEndpoints = useCallback(async () => {
+    setLoading(true);
+    try {
+      setEndpoints(await WebhookService.getEndpoints(projectId));
+    } catch (error) {
+      console.error('Failed to load webhooks:', error);
+      toast({ title: 'Failed to load webhooks', variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  const loadDeliveries = useCallback(async (endpointId: string) => {
+    setDeliveriesLoading(true);
+    try {
+      setDeliveries(await WebhookService.getDeliveries(endpointId));
+    } catch (error) {
+      console.error('Failed to load webhook deliveries:', error);
+      toast({ title: 'Failed to load deliveries', variant: 'destructive' });
+    } finally {
+      setDeliveriesLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (open && isEditor) {
+      loadEndpoints();
+    } else {
+      setDraft(null);
+      setLogEndpoint(null);
+      setRevealedSecret(null);
+    }
+  }, [open, isEditor, loadEndpoints]);
+
+  useEffect(() => {
+    if (logEndpoint) loadDeliveries(logEndpoint.id);
+    else setDeliveries([]);
+  }, [logEndpoint, loadDeliveries]);
+
+  const runAction = async (action: () => Promise<void>, failureTitle: string) => {
+    try {
+      await action();
+      await loadEndpoints();
+    } catch (error) {
+      console.error(`${failureTitle}:`, error);
+      toast({
+        title: failureTitle,
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const toggleDraftEvent = (type: WebhookEventType, checked: boolean) => {
+    setDraft(current => current && {
+      ...current,
+      events: checked ? [...current.events, type] : current.events.filter(event => event !== type)
+    });
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+
+    setSaving(true);
+    try {
+      const endpoint = await WebhookService.createEndpoint({ ...draft, projectId });
+      setDraft(null);
+      setRevealedSecret(endpoint.id);
+      await loadEndpoints();
+      toast({ title: 'Webhook added', description: 'Copy the signing secret to verify deliveries.' });
+    } catch (error) {
+      console.error('Failed to add webhook:', error);
+      toast({
+        title: 'Failed to add webhook',
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCopySecret = async (secret: string) => {
+    try {
+      await navigator.clipboard.writeText(secret);
+      toast({ title: 'Signing secret copied' });
+    } catch {
+      toast({ title: 'Could not copy the secret', variant: 'destructive' });
+    }
+  };
+
+  const handleRedeliver = async (delivery: WebhookDelivery) => {
+    if (!logEndpoint) return;
+    setRedelivering(delivery.id);
+    try {
+      await WebhookService.redeliver(delivery.id);
+      await loadDeliveries(logEndpoint.id);
+      toast({ title: 'Redelivery queued' });
+    } catch (error) {
+      console.error('Failed to redeliver webhook:', error);
+      toast({
+        title: 'Failed to redeliver',
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive'
+      });
+    } finally {
+      setRedelivering(null);
+    }
+  };
+
+  const renderDeliveries = (endpoint: WebhookEndpoint) => (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Button variant="ghost" size="sm" onClick={() => setLogEndpoint(null)}>
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Endpoints
+        </Button>
+        <div className="flex-1 min-w-0 text-sm font-mono truncate">{endpoint.url}</div>
+        <Button variant="outline" size="sm" onClick={() => loadDeliveries(endpoint.id)} disabled={deliveriesLoading}>
+          Refresh
+        </Button>
+      </div>
+
+      <ScrollArea className="h-96 pr-3">
+        {deliveriesLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : deliveries.length === 0 ? (
+          <div className="py-6 text-center text-sm text-muted-foreground">No deliveries yet</div>
+        ) : (
+          <div className="space-y-2">
+            {deliveries.map(delivery => (
+              <div key={delivery.id} className="rounded-md border p-2 space-y-2">
+                <div className="flex items-center gap-2">
+                  <Badge variant={STATUS_VARIANTS[delivery.status]}>{delivery.status}</Badge>
+                  <button
+                    type="button"
+                    className="flex-1 min-w-0 text-left"
+                    onClick={() => setExpandedDelivery(current => current === delivery.id ? null : delivery.id)}
+                  >
+                    <div className="text-sm font-medium truncate">
+                      {eventLabel(delivery.eventType)}
+                      {delivery.redeliveryOf ? ' · redelivery' : ''}
+                    </div>
+                    <div className="text-xs text-muted-foreground truncate">
+                      {new Date(delivery.createdAt).toLocaleString()}
+                      {` · ${delivery.attempts} attempt${delivery.attempts === 1 ? '' : 's'}`}
+                      {delivery.responseStatus ? ` · HTTP ${delivery.responseStatus}` : ''}
+                      {delivery.status === 'pending' && delivery.attempts > 0
+                        ? ` · next try ${new Date(delivery.nextAttemptAt).toLocaleTimeString()}`
+                        : ''}
+                    </div>
+                  </button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={redelivering !== null}
+                    onClick={() => handleRedeliver(delivery)}
+                  >
+                    {redelivering === delivery.id
+                      ? <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                      : <RotateCcw className="h-4 w-4 mr-1" />}
+                    Redeliver
+                  </Button>
+                </div>
+                {expandedDelivery === delivery.id && (
+                  <div className="space-y-2 text-xs">
+                    {delivery.error && <div className="text-destructive">{delivery.error}</div>}
+                    <div>
+                      <div className="font-medium mb-1">Payload</div>
+                      <pre className="rounded bg-muted p-2 overflow-x-auto whitespace-pre-wrap break-all">
+                        {JSON.stringify(delivery.payload, null, 2)}
+                      </pre>
+                    </div>
+                    {delivery.responseBody && (
+                      <div>
+                        <div className="font-medium mb-1">Response</div>
+                        <pre className="rounded bg-muted p-2 overflow-x-auto whitespace-pre-wrap break-all">
+                          {delivery.responseBody}
+                        </pre>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </ScrollArea>
+    </div>
+  );
+
+  const renderDraft = (current: EndpointDraft) => (
+    <form onSubmit={handleCreate} className="space-y-4">
+      <div className="space-y-1">
+        <Label htmlFor="webhook-url" className="text-xs">Payload URL</Label>
+        <Input
+          id="webhook-url"
+          type="url"
+          value={current.url}
+          placeholder="https://example.com/hooks/figmant"
+          onChange={(e) => setDraft({ ...current, url: e.target.value })}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="webhook-description" className="text-xs">Description</Label>
+        <Input
+          id="webhook-description"
+          value={current.description}
+          placeholder="Internal QA dashboard"
+          onChange={(e) => setDraft({ ...current, description: e.target.value })}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label className="text-xs">Events</Label>
+        {WEBHOOK_EVENTS.map(event => (
+          <div key={event.type} className="flex items-center gap-2">
+            <Checkbox
+              id={`webhook-event-${event.type}`}
+              checked={current.events.includes(event.type)}
+              onCheckedChange={(checked) => toggleDraftEvent(event.type, checked === true)}
+            />
+            <Label htmlFor={`webhook-event-${event.type}`} className="text-sm font-normal">
+              {event.label} <span className="font-mono text-xs text-muted-foreground">{event.type}</span>
+            </Label>
+          </div>
+        ))}
+      </div>
+
+      <DialogFooter>
+        <Button type="button" variant="ghost" onClick={() => setDraft(null)}>Cancel</Button>
+        <Button type="submit" disabled={saving || !current.url.trim() || current.events.length === 0}>
+          {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Add webhook
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+
+  const renderEndpoints = () => (
+    <div className="space-y-3">
+      <Button variant="outline" size="sm" onClick={() => setDraft({ ...BLANK_DRAFT })}>
+        <Plus className="h-4 w-4 mr-1" />
+        Add endpoint
+      </Button>
+
+      <ScrollArea className="max-h-96">
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : endpoints.length === 0 ? (
+          <div className="py-6 text-center text-sm text-muted-foreground">No webhooks yet</div>
+        ) : (
+          <div className="space-y-2">
+            {endpoints.map(endpoint => (
+              <div key={endpoint.id} className="rounded-md border p-2 space-y-2">
+                <div className="flex items-center gap-2">
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-mono truncate">{endpoint.url}</div>
+                    {endpoint.description && (
+                      <div className="text-xs text-muted-foreground truncate">{endpoint.description}</div>
+                    )}
+                  </div>
+                  <Switch
+                    checked={endpoint.isActive}
+                    title={endpoint.isActive ? 'Disable' : 'Enable'}
+                    onCheckedChange={(isActive) => runAction(
+                      () => WebhookService.updateEndpoint(endpoint.id, { isActive }),
+                      'Failed to update webhook'
+                    )}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    title="Delivery log"
+                    onClick={() => setLogEndpoint(endpoint)}
+                  >
+                    <History className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    title="Delete webhook"
+                    onClick={() => runAction(() => WebhookService.deleteEndpoint(endpoint.id), 'Failed to delete webhook')}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {endpoint.events.map(type => (
+                    <Badge key={type} variant="outline" className="font-mono text-xs">{type}</Badge>
+                  ))}
+                </div>
+                <div className="flex items-center gap-1">
+                  <code className="flex-1 min-w-0 truncate rounded bg-muted px-2 py-1 text-xs">
+                    {revealedSecret === endpoint.id ? endpoint.secret : 'whsec_••••••••••••••••'}
+                  </code>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    title={revealedSecret === endpoint.id ? 'Hide secret' : 'Show secret'}
+                    onClick={() => setRevealedSecret(current => current === endpoint.id ? null : endpoint.id)}
+                  >
+                    {revealedSecret === endpoint.id ? <EyeOff className="h-3 w-3" /> : <Eye className="h-3 w-3" />}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    title="Copy secret"
+                    onClick={() => handleCopySecret(endpoint.secret)}
+                  >
+                    <Copy className="h-3 w-3" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </ScrollArea>
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Webhooks{projectName ? ` · ${projectName}` : ''}</DialogTitle>
+          <DialogDescription>
+            Receive a POST when analyses in this project finish or fail. Each request carries an
+            X-Figmant-Signature header (t=timestamp,v1=HMAC-SHA256 of "timestamp.body" with the signing
+            secret); failed deliveries are retried with backoff for about 15 minutes.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!isEditor ? (
+          <div className="py-6 text-center text-sm text-muted-foreground">
+            Only project editors can manage webhooks.
+          </div>
+        ) : logEndpoint ? (
+          renderDeliveries(logEndpoint)
+        ) : draft ? (
+          renderDraft(draft)
+        ) : (
+          renderEndpoints()
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,18 +1,24 @@
 import React from 'react';
 import { Navigate, useLocation } from 'react-router-dom';
 import { useAuth } from '@/context/AuthContext';
-import { AlertTriangle } from 'lucide-react';
+import { useWorkspace } from '@/context/WorkspaceContext';
+import type { WorkspaceRole } from '@/services/WorkspaceService';
+import { AlertTriangle, ShieldAlert } from 'lucide-react';
+import { Button } from '@/components/ui/button';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
+  /** Minimum role in the current workspace needed to view the route */
+  requiredRole?: WorkspaceRole;
 }
 
-const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, requiredRole }) => {
   const { user, session, loading } = useAuth();
+  const { currentWorkspace, loading: workspaceLoading, can } = useWorkspace();
   const location = useLocation();
 
   // Show loading state while authenticating
-  if (loading) {
+  if (loading || (requiredRole && user && workspaceLoading)) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
         <div className="text-center space-y-4">
@@ -59,6 +65,27 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
     );
   }
 
+  // Signed in, but the role in the current workspace is too low for this route
+  if (requiredRole && !can(requiredRole)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background p-4">
+        <div className="text-center space-y-4 max-w-md">
+          <ShieldAlert className="h-16 w-16 text-muted-foreground mx-auto" />
+          <div className="space-y-2">
+            <h2 className="text-xl font-semibold">Access Restricted</h2>
+            <p className="text-muted-foreground">
+              You need {requiredRole} access to {currentWorkspace?.name || 'this workspace'} to open this page.
+              Ask a workspace owner to change your role.
+            </p>
+          </div>
+          <Button variant="outline" onClick={() => window.history.back()}>
+            Go back
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
   return <>{children}</>;
 };
 
@@ -0,0 +1,82 @@
+/**
+ * Report Export Menu
+ * Dropdown for exporting analyses as a shareable HTML report or a printable PDF
+ */
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { FileDown, FileText, Loader2, Printer } from 'lucide-react';
+import { ReportExportService, type ReportFormat, type ReportInput } from '@/services/ReportExportService';
+import { toast } from '@/hooks/use-toast';
+
+interface ReportExportMenuProps {
+  // Either a ready selection of analyses or a project to load them from
+  input?: ReportInput;
+  projectId?: string;
+  projectName?: string;
+  label?: string;
+  variant?: 'default' | 'outline' | 'ghost' | 'secondary';
+  size?: 'default' | 'sm' | 'lg' | 'icon';
+  className?: string;
+}
+
+export const ReportExportMenu: React.FC<ReportExportMenuProps> = ({
+  input,
+  projectId,
+  projectName,
+  label = 'Export Report',
+  variant = 'outline',
+  size = 'default',
+  className
+}) => {
+  const [exporting, setExporting] = useState<ReportFormat | null>(null);
+
+  const handleExport = async (format: ReportFormat) => {
+    setExporting(format);
+    try {
+      if (input) {
+        await ReportExportService.exportReport(input, format);
+      } else if (projectId) {
+        await ReportExportService.exportProject(projectId, projectName || 'Project', format);
+      } else {
+        throw new Error('Nothing to export');
+      }
+    } catch (error) {
+      console.error('Report export failed:', error);
+      toast({
+        title: 'Export failed',
+        description: error instanceof Error ? error.message : 'Failed to generate report',
+        variant: 'destructive'
+      });
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant={variant} size={size} className={className} disabled={!!exporting}>
+          {exporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileDown className="mr-2 h-4 w-4" />}
+          {exporting ? 'Preparing report...' : label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => handleExport('html')}>
+          <FileText className="mr-2 h-4 w-4" />
+          HTML report
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport('pdf')}>
+          <Printer className="mr-2 h-4 w-4" />
+          Print / save as PDF
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -16,11 +16,16 @@ import {
   EyeOff,
   Target,
   Group,
+  GitCompare,
+  Tag,
+  Trophy,
+  UsersRound,
   Upload,
   Trash2
 } from 'lucide-react';
 import { useFilteredToast } from '@/hooks/use-filtered-toast';
 import { ChatPanel } from './ChatPanel';
+import type { UXAnalysis } from '@/types/ux-analysis';
 
 export type UnifiedToolMode = 'cursor' | 'draw';
 
@@ -50,6 +55,10 @@ interface UnifiedFloatingToolbarProps {
   // Actions
   onAddComment?: () => void;
   onCreateGroup?: () => void;
+  onCompareScreens?: () => void;
+  onTagProducts?: () => void;
+  onBenchmark?: () => void;
+  onComparePersonas?: () => void;
   onImageUpload?: (files: File[]) => void;
   onDelete?: () => void;
   
@@ -57,6 +66,9 @@ interface UnifiedFloatingToolbarProps {
   hasMultiSelection?: boolean;
   selectedCount?: number;
   
+  // Analysis the AI assistant chat is grounded in (e.g. the selected image's analysis)
+  chatAnalysis?: UXAnalysis | null;
+  
   // Context determines which features are available
   context: ToolbarContext;
 }
@@ -77,10 +89,15 @@ export const UnifiedFloatingToolbar: React.FC<UnifiedFloatingToolbarProps> = ({
   onFitView,
   onAddComment,
   onCreateGroup,
+  onCompareScreens,
+  onTagProducts,
+  onBenchmark,
+  onComparePersonas,
   onImageUpload,
   onDelete,
   hasMultiSelection = false,
   selectedCount = 0,
+  chatAnalysis = null,
   context
 }) => {
   const { toast } = useFilteredToast();
@@ -335,6 +352,96 @@ export const UnifiedFloatingToolbar: React.FC<UnifiedFloatingToolbarProps> = ({
     );
   };
 
+  // Render before/after comparison button (canvas only, exactly two images selected)
+  const renderCompareButton = () => {
+    if (context !== 'canvas' || !onCompareScreens || selectedCount !== 2) return null;
+
+    return (
+      <>
+        <Button 
+          variant="ghost" 
+          size="sm" 
+          className="h-8 w-8 p-0"
+          onClick={(e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            onCompareScreens();
+          }}
+          title="Compare before/after (first selected is the before build)"
+        >
+          <GitCompare className="h-4 w-4" />
+        </Button>
+        <Separator orientation="vertical" className="h-6" />
+      </>
+    );
+  };
+
+  // Render product tagging and competitor benchmark buttons (canvas only)
+  const renderBenchmarkButtons = () => {
+    if (context !== 'canvas' || (!onTagProducts && !onBenchmark)) return null;
+
+    return (
+      <>
+        {onTagProducts && (
+          <Button 
+            variant="ghost" 
+            size="sm" 
+            className="h-8 w-8 p-0"
+            onClick={(e) => {
+              e.preventDefault();
+              e.stopPropagation();
+              onTagProducts();
+            }}
+            disabled={selectedCount < 1}
+            title={selectedCount < 1 ? 'Select screens to tag them as ours or a competitor' : `Tag ${selectedCount} selected screens`}
+          >
+            <Tag className="h-4 w-4" />
+          </Button>
+        )}
+        {onBenchmark && (
+          <Button 
+            variant="ghost" 
+            size="sm" 
+            className="h-8 w-8 p-0"
+            onClick={(e) => {
+              e.preventDefault();
+              e.stopPropagation();
+              onBenchmark();
+            }}
+            title={selectedCount >= 2 ? 'Benchmark the selected tagged screens' : 'Benchmark all tagged screens'}
+          >
+            <Trophy className="h-4 w-4" />
+          </Button>
+        )}
+        <Separator orientation="vertical" className="h-6" />
+      </>
+    );
+  };
+
+  // Render persona comparison button (canvas only, one or more images selected)
+  const renderPersonaButton = () => {
+    if (context !== 'canvas' || !onComparePersonas || selectedCount < 1) return null;
+
+    return (
+      <>
+        <Button 
+          variant="ghost" 
+          size="sm" 
+          className="h-8 w-8 p-0"
+          onClick={(e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            onComparePersonas();
+          }}
+          title="Analyze the selected screens through each end-user persona"
+        >
+          <UsersRound className="h-4 w-4" />
+        </Button>
+        <Separator orientation="vertical" className="h-6" />
+      </>
+    );
+  };
+
   // Render upload button (canvas only)
   const renderUploadButton = () => {
     if (context !== 'canvas' || !onImageUpload) return null;
@@ -345,7 +452,7 @@ export const UnifiedFloatingToolbar: React.FC<UnifiedFloatingToolbarProps> = ({
           ref={fileInputRef}
           type="file"
           multiple
-          accept="image/*,.html"
+          accept="image/*,.html,.htm,.mhtml,.mht,.pdf,.mp4,.webm"
           onChange={handleFileChange}
           className="hidden"
         />
@@ -396,6 +503,15 @@ export const UnifiedFloatingToolbar: React.FC<UnifiedFloatingToolbarProps> = ({
           {/* Group Button (Canvas only) */}
           {renderGroupButton()}
 
+          {/* Compare Button (Canvas only) */}
+          {renderCompareButton()}
+
+          {/* Tag and Benchmark Buttons (Canvas only) */}
+          {renderBenchmarkButtons()}
+
+          {/* Persona Comparison Button (Canvas only) */}
+          {renderPersonaButton()}
+
           {/* Upload Button (Canvas only) */}
           {renderUploadButton()}
 
@@ -432,7 +548,7 @@ export const UnifiedFloatingToolbar: React.FC<UnifiedFloatingToolbarProps> = ({
       </div>
 
       {/* Chat Panel */}
-      <ChatPanel isOpen={isChatOpen} onClose={() => setIsChatOpen(false)} />
+      <ChatPanel isOpen={isChatOpen} onClose={() => setIsChatOpen(false)} analysis={chatAnalysis} />
     </>
   );
 };
\ No newline at end of file
@@ -0,0 +1,278 @@
+/**
+ * Workspace Members Dialog
+ * Lists members and pending invitations of the current workspace; owners can change roles,
+ * remove members and invite people by email
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Copy, Loader2, Mail, Trash2, X } from 'lucide-react';
+import { useAuth } from '@/context/AuthContext';
+import { useWorkspace } from '@/context/WorkspaceContext';
+import {
+  WorkspaceService,
+  WORKSPACE_ROLES,
+  type InvitableRole,
+  type WorkspaceInvitation,
+  type WorkspaceMember,
+  type WorkspaceRole
+} from '@/services/WorkspaceService';
+import { toast } from '@/hooks/use-toast';
+
+interface WorkspaceMembersDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ROLE_DESCRIPTIONS: Record<WorkspaceRole, string> = {
+  owner: 'Manage members and delete projects',
+  editor: 'Upload, analyze and edit projects',
+  commenter: 'View and comment',
+  viewer: 'View only'
+};
+
+const INVITABLE_ROLES = WORKSPACE_ROLES.filter((role): role is InvitableRole => role !== 'owner');
+
+export const WorkspaceMembersDialog: React.FC<WorkspaceMembersDialogProps> = ({ open, onOpenChange }) => {
+  const { user } = useAuth();
+  const { currentWorkspace, can, refreshWorkspaces } = useWorkspace();
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [invitations, setInvitations] = useState<WorkspaceInvitation[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<InvitableRole>('editor');
+  const [inviting, setInviting] = useState(false);
+
+  const isOwner = can('owner');
+  const workspaceId = currentWorkspace?.id;
+
+  const loadMembers = useCallback(async () => {
+    if (!workspaceId) return;
+    setLoading(true);
+    try {
+      const [memberList, invitationList] = await Promise.all([
+        WorkspaceService.getMembers(workspaceId),
+        isOwner ? WorkspaceService.getInvitations(workspaceId) : Promise.resolve([])
+      ]);
+      setMembers(memberList);
+      setInvitations(invitationList);
+    } catch (error) {
+      console.error('Failed to load workspace members:', error);
+      toast({ title: 'Failed to load members', variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  }, [workspaceId, isOwner]);
+
+  useEffect(() => {
+    if (open) loadMembers();
+  }, [open, loadMembers]);
+
+  const runAction = async (action: () => Promise<void>, failureTitle: string) => {
+    try {
+      await action();
+      await loadMembers();
+    } catch (error) {
+      console.error(`${failureTitle}:`, error);
+      toast({
+        title: failureTitle,
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const copyLink = async (token: string) => {
+    await navigator.clipboard.writeText(WorkspaceService.getInvitationUrl(token));
+    toast({ title: 'Invitation link copied' });
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!workspaceId || !inviteEmail.trim()) return;
+
+    setInviting(true);
+    try {
+      const { invitation, emailSent } = await WorkspaceService.inviteMember(workspaceId, inviteEmail, inviteRole);
+      setInviteEmail('');
+      if (!emailSent) await copyLink(invitation.token);
+      toast({
+        title: emailSent ? 'Invitation sent' : 'Invitation created',
+        description: emailSent
+          ? `${invitation.email} will receive a link to join as ${invitation.role}.`
+          : 'Email delivery is not configured, so the link was copied to your clipboard.'
+      });
+      await loadMembers();
+    } catch (error) {
+      console.error('Failed to invite member:', error);
+      toast({
+        title: 'Failed to invite',
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive'
+      });
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const handleLeave = (member: WorkspaceMember) =>
+    runAction(async () => {
+      await WorkspaceService.removeMember(member.id);
+      onOpenChange(false);
+      await refreshWorkspaces();
+    }, 'Failed to leave workspace');
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>{currentWorkspace?.name || 'Workspace'} members</DialogTitle>
+          <DialogDescription>
+            Projects in this workspace are shared with everyone listed here.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isOwner && !currentWorkspace?.isPersonal && (
+          <form onSubmit={handleInvite} className="flex items-end gap-2">
+            <div className="flex-1 space-y-1">
+              <Label htmlFor="workspace-invite-email" className="text-xs">Invite by email</Label>
+              <Input
+                id="workspace-invite-email"
+                type="email"
+                placeholder="teammate@company.com"
+                value={inviteEmail}
+                onChange={(e) => setInviteEmail(e.target.value)}
+              />
+            </div>
+            <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as InvitableRole)}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {INVITABLE_ROLES.map(role => (
+                  <SelectItem key={role} value={role} className="capitalize">{role}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button type="submit" disabled={inviting || !inviteEmail.trim()}>
+              {inviting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Mail className="h-4 w-4" />}
+            </Button>
+          </form>
+        )}
+
+        {currentWorkspace?.isPersonal && (
+          <p className="text-sm text-muted-foreground">
+            Your personal workspace can't be shared. Create a team workspace from the project menu to invite others.
+          </p>
+        )}
+
+        <ScrollArea className="max-h-80">
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {members.map(member => {
+                const isSelf = member.userId === user?.id;
+                return (
+                  <div key={member.id} className="flex items-center gap-2 rounded-md border p-2">
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm font-medium truncate">
+                        {member.email || member.userId}{isSelf ? ' (you)' : ''}
+                      </div>
+                      <div className="text-xs text-muted-foreground">{ROLE_DESCRIPTIONS[member.role]}</div>
+                    </div>
+                    {isOwner && !isSelf ? (
+                      <Select
+                        value={member.role}
+                        onValueChange={(role) => runAction(
+                          () => WorkspaceService.updateMemberRole(member.id, role as WorkspaceRole),
+                          'Failed to change role'
+                        )}
+                      >
+                        <SelectTrigger className="w-32 h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {WORKSPACE_ROLES.map(role => (
+                            <SelectItem key={role} value={role} className="capitalize">{role}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Badge variant="secondary" className="capitalize">{member.role}</Badge>
+                    )}
+                    {isOwner && !isSelf && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        title="Remove member"
+                        onClick={() => runAction(() => WorkspaceService.removeMember(member.id), 'Failed to remove member')}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {isSelf && !currentWorkspace?.isPersonal && (
+                      <Button variant="ghost" size="sm" onClick={() => handleLeave(member)}>
+                        Leave
+                      </Button>
+                    )}
+                  </div>
+                );
+              })}
+
+              {invitations.length > 0 && (
+                <div className="pt-2 space-y-2">
+                  <div className="text-xs font-medium text-muted-foreground">Pending invitations</div>
+                  {invitations.map(invitation => (
+                    <div key={invitation.id} className="flex items-center gap-2 rounded-md border border-dashed p-2">
+                      <div className="flex-1 min-w-0">
+                        <div className="text-sm truncate">{invitation.email}</div>
+                        <div className="text-xs text-muted-foreground">
+                          Expires {new Date(invitation.expiresAt).toLocaleDateString()}
+                        </div>
+                      </div>
+                      <Badge variant="outline" className="capitalize">{invitation.role}</Badge>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        title="Copy invitation link"
+                        onClick={() => copyLink(invitation.token)}
+                      >
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        title="Revoke invitation"
+                        onClick={() => runAction(() => WorkspaceService.revokeInvitation(invitation.id), 'Failed to revoke invitation')}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+};
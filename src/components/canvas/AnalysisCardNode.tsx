@@ -8,6 +8,7 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { Separator } from '@/components/ui/separator';
+import { ReportExportMenu } from '@/components/ReportExportMenu';
 import { 
   AlertCircle, 
   CheckCircle, 
@@ -332,6 +333,11 @@ export const AnalysisCardNode: React.FC<AnalysisCardNodeProps> = ({ data }) => {
             <FileText className="mr-2 h-4 w-4" />
             View Full Analysis
           </Button>
+
+          <ReportExportMenu
+            input={{ title: `${analysis.imageName || 'Screen'} UX Report`, analyses: [analysis] }}
+            className="w-full"
+          />
           
           <Button 
             onClick={handleGenerateConcept} 
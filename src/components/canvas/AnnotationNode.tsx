@@ -5,12 +5,21 @@ import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { X, AlertTriangle, Lightbulb, CheckCircle, Info } from 'lucide-react';
 import { AnnotationPoint } from '@/types/ux-analysis';
+import { AnnotationThread } from '@/components/AnnotationThread';
+import { AnnotationRegionZoom } from '@/components/AnnotationRegion';
+import { FindingConsensusBadges } from '@/components/FindingConsensusBadges';
+import { useAnnotationThreads } from '@/hooks/useAnnotationThreads';
+import { AnnotationThreadService } from '@/services/AnnotationThreadService';
 
 interface AnnotationNodeData {
   annotation: AnnotationPoint;
   onClose: (annotationId: string) => void;
   onRequestAnalysis?: (prompt: string) => void;
   onGenerateVariation?: (prompt: string) => void;
+  analysisId?: string;
+  // Screenshot the annotation belongs to; annotations with a region show a zoom of it
+  imageUrl?: string;
+  imageDimensions?: { width: number; height: number };
 }
 
 interface AnnotationNodeProps {
@@ -18,7 +27,8 @@ interface AnnotationNodeProps {
 }
 
 export const AnnotationNode: React.FC<AnnotationNodeProps> = memo(({ data }) => {
-  const { annotation, onClose, onRequestAnalysis, onGenerateVariation } = data;
+  const { annotation, onClose, onRequestAnalysis, onGenerateVariation, analysisId, imageUrl, imageDimensions } = data;
+  const { threads, members, refresh } = useAnnotationThreads(analysisId);
 
   const getIcon = () => {
     switch (annotation.type) {
@@ -77,6 +87,16 @@ export const AnnotationNode: React.FC<AnnotationNodeProps> = memo(({ data }) =>
           </Button>
         </div>
         
+        {annotation.region && imageUrl && (
+          <AnnotationRegionZoom
+            imageUrl={imageUrl}
+            region={annotation.region}
+            type={annotation.type}
+            imageDimensions={imageDimensions}
+            className="mb-3"
+          />
+        )}
+
         {annotation.description && (
           <p className="text-sm text-muted-foreground mb-3">
             {annotation.description}
@@ -90,6 +110,7 @@ export const AnnotationNode: React.FC<AnnotationNodeProps> = memo(({ data }) =>
           <Badge variant="outline" className="text-xs">
             {annotation.type}
           </Badge>
+          <FindingConsensusBadges consensus={annotation.consensus} />
         </div>
 
         {(onRequestAnalysis || onGenerateVariation) && (
@@ -116,6 +137,20 @@ export const AnnotationNode: React.FC<AnnotationNodeProps> = memo(({ data }) =>
             )}
           </div>
         )}
+
+        {AnnotationThreadService.canDiscuss(analysisId) && (
+          <div className="mt-3 pt-3 border-t nodrag nowheel">
+            <AnnotationThread
+              analysisId={analysisId}
+              targetType="annotation"
+              targetId={annotation.id}
+              threads={threads}
+              members={members}
+              onChanged={refresh}
+              compact
+            />
+          </div>
+        )}
       </div>
       
       {/* Handles for connecting to other nodes */}
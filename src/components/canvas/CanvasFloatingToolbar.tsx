@@ -1,6 +1,7 @@
 import React from 'react';
 import { UnifiedFloatingToolbar, UnifiedToolMode } from '../UnifiedFloatingToolbar';
 import { useCanvasZoom } from '@/hooks/useCanvasZoom';
+import type { UXAnalysis } from '@/types/ux-analysis';
 
 interface CanvasFloatingToolbarProps {
   onToolChange: (tool: UnifiedToolMode) => void;
@@ -8,12 +9,17 @@ interface CanvasFloatingToolbarProps {
   onToggleAnalysis: () => void;
   onAddComment: () => void;
   onCreateGroup?: () => void;
+  onCompareScreens?: () => void;
+  onTagProducts?: () => void;
+  onBenchmark?: () => void;
+  onComparePersonas?: () => void;
   onImageUpload?: (files: File[]) => void;
   showAnnotations: boolean;
   showAnalysis: boolean;
   currentTool: UnifiedToolMode;
   hasMultiSelection?: boolean;
   selectedCount?: number;
+  chatAnalysis?: UXAnalysis | null;
 }
 
 export const CanvasFloatingToolbar: React.FC<CanvasFloatingToolbarProps> = (props) => {
@@ -0,0 +1,118 @@
+/**
+ * Canvas Presence Layer
+ * Collaborators' cursors, selection outlines and avatars. Must be rendered inside ReactFlow.
+ */
+
+import React, { useEffect } from 'react';
+import { Panel, useReactFlow, useStore, useViewport } from '@xyflow/react';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { canvasCollaborationService, type CanvasPeer } from '@/services/CanvasCollaborationService';
+
+interface CanvasPresenceLayerProps {
+  peers: CanvasPeer[];
+}
+
+const MAX_AVATARS = 5;
+
+const peerLabel = (peer: CanvasPeer) => peer.email?.split('@')[0] || 'Teammate';
+
+const peerInitials = (peer: CanvasPeer) => peerLabel(peer).slice(0, 2).toUpperCase();
+
+export const CanvasPresenceLayer: React.FC<CanvasPresenceLayerProps> = ({ peers }) => {
+  const { screenToFlowPosition, getInternalNode } = useReactFlow();
+  const { x: viewportX, y: viewportY, zoom } = useViewport();
+  const domNode = useStore(state => state.domNode);
+
+  // Share this user's cursor in flow coordinates so it lands on the same spot at any zoom level
+  useEffect(() => {
+    if (!domNode) return;
+    const handleMove = (event: PointerEvent) => {
+      canvasCollaborationService.updateCursor(screenToFlowPosition({ x: event.clientX, y: event.clientY }));
+    };
+    const handleLeave = () => canvasCollaborationService.updateCursor(null);
+
+    domNode.addEventListener('pointermove', handleMove);
+    domNode.addEventListener('pointerleave', handleLeave);
+    return () => {
+      domNode.removeEventListener('pointermove', handleMove);
+      domNode.removeEventListener('pointerleave', handleLeave);
+    };
+  }, [domNode, screenToFlowPosition]);
+
+  if (peers.length === 0) return null;
+
+  const toScreen = (x: number, y: number) => ({ left: x * zoom + viewportX, top: y * zoom + viewportY });
+
+  // One avatar per user even if they have the canvas open in several tabs
+  const uniquePeers = Array.from(new Map(peers.map(peer => [peer.userId, peer])).values());
+
+  return (
+    <>
+      <div className="pointer-events-none absolute inset-0 z-10 overflow-hidden">
+        {peers.flatMap(peer => peer.selectedNodeIds.map(nodeId => {
+          const node = getInternalNode(nodeId);
+          if (!node) return null;
+          const { x, y } = node.internals.positionAbsolute;
+          return (
+            <div
+              key={`${peer.key}-${nodeId}`}
+              className="absolute rounded-md border-2"
+              style={{
+                ...toScreen(x, y),
+                width: (node.measured.width || 0) * zoom,
+                height: (node.measured.height || 0) * zoom,
+                borderColor: peer.color
+              }}
+            >
+              <span
+                className="absolute -top-5 left-0 rounded px-1 text-[10px] font-medium text-white"
+                style={{ backgroundColor: peer.color }}
+              >
+                {peerLabel(peer)}
+              </span>
+            </div>
+          );
+        }))}
+
+        {peers.filter(peer => peer.cursor).map(peer => (
+          <div
+            key={peer.key}
+            className="absolute transition-transform duration-75"
+            style={toScreen(peer.cursor!.x, peer.cursor!.y)}
+          >
+            <svg width="16" height="16" viewBox="0 0 16 16" fill={peer.color} stroke="white" strokeWidth="1">
+              <path d="M1 1 L1 13 L4.5 9.5 L7 15 L9 14 L6.5 8.5 L11 8.5 Z" />
+            </svg>
+            <span
+              className="ml-3 whitespace-nowrap rounded px-1.5 py-0.5 text-[10px] font-medium text-white"
+              style={{ backgroundColor: peer.color }}
+            >
+              {peerLabel(peer)}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <Panel position="top-right">
+        <div className="flex -space-x-2">
+          {uniquePeers.slice(0, MAX_AVATARS).map(peer => (
+            <Avatar
+              key={peer.userId}
+              className="h-8 w-8 border-2 border-background"
+              title={peer.email || 'Teammate'}
+            >
+              <AvatarFallback className="text-xs font-medium text-white" style={{ backgroundColor: peer.color }}>
+                {peerInitials(peer)}
+              </AvatarFallback>
+            </Avatar>
+          ))}
+          {uniquePeers.length > MAX_AVATARS && (
+            <Avatar className="h-8 w-8 border-2 border-background">
+              <AvatarFallback className="text-xs">+{uniquePeers.length - MAX_AVATARS}</AvatarFallback>
+            </Avatar>
+          )}
+        </div>
+      </Panel>
+    </>
+  );
+};
@@ -9,10 +9,11 @@ import {
   Connection,
   Edge,
   Node,
+  MarkerType,
 } from '@xyflow/react';
 import { EnhancedAnalysisPipeline } from '@/services/EnhancedAnalysisPipeline';
 import '@xyflow/react/dist/style.css';
-import { UXAnalysis, UploadedImage, GeneratedConcept, ImageGroup, GroupAnalysis, GroupPromptSession, GroupAnalysisWithPrompt } from '@/types/ux-analysis';
+import { UXAnalysis, UploadedImage, GeneratedConcept, ImageGroup, GroupAnalysis, GroupPromptSession, GroupAnalysisWithPrompt, ProductTag, EndUserPersona } from '@/types/ux-analysis';
 import { getSafeDimensions } from '@/utils/imageUtils';
 import { AnalysisRequestNodeData, AnalysisRequestNode } from './AnalysisRequestNode';
 import { ImageNode } from './ImageNode';
@@ -45,6 +46,7 @@ import { useGroupAnalysisProgress } from '@/hooks/useGroupAnalysisProgress';
 import { fetchLatestGroupAnalysis } from '@/services/fetchLatestGroupAnalysis';
 
 import { useAuth } from '@/context/AuthContext';
+import { useWorkspace } from '@/context/WorkspaceContext';
 import { useFinalAppContext } from '@/context/FinalAppContext';
 import { ImageMigrationService } from '@/services/DataMigrationService';
 import { CanvasStateService } from '@/services/CanvasStateService';
@@ -54,6 +56,20 @@ import { Undo2, Redo2 } from 'lucide-react';
 
 import { AnnotationNode } from './AnnotationNode';
 import { GroupAnalysisLoadingNode } from './GroupAnalysisLoadingNode';
+import { ScreenComparisonNode, ScreenComparisonNodeData } from './ScreenComparisonNode';
+import { ScreenComparisonService } from '@/services/ScreenComparisonService';
+import { CompetitorBenchmarkNode, CompetitorBenchmarkNodeData } from './CompetitorBenchmarkNode';
+import { PersonaComparisonNode, PersonaComparisonNodeData } from './PersonaComparisonNode';
+import { PersonaComparisonService } from '@/services/PersonaComparisonService';
+import { PersonaService } from '@/services/PersonaService';
+import { ProductTagDialog } from '@/components/ProductTagDialog';
+import { enhancedGroupAnalysisPipeline, type BenchmarkEntry } from '@/services/EnhancedGroupAnalysisPipeline';
+import { ProjectService } from '@/services/DataMigrationService';
+import { canvasCollaborationService, type CanvasPeer } from '@/services/CanvasCollaborationService';
+import { useCanvasCollaboration } from '@/hooks/useCanvasCollaboration';
+import { CanvasPresenceLayer } from './CanvasPresenceLayer';
+import { getImagesInGroupOrder } from '@/utils/imageUtils';
+import { getJourneyTransitions } from '@/utils/journeyUtils';
 
 const nodeTypes = {
   image: ImageNode,
@@ -70,6 +86,9 @@ const nodeTypes = {
   imageLoading: ImageLoadingNode,
   analysisLoading: AnalysisLoadingNode,
   annotation: AnnotationNode,
+  screenComparison: ScreenComparisonNode,
+  competitorBenchmark: CompetitorBenchmarkNode,
+  personaComparison: PersonaComparisonNode,
 };
 
 export interface CanvasViewProps {
@@ -91,6 +110,8 @@ export interface CanvasViewProps {
   onDeleteGroup?: (groupId: string) => void;
   onEditGroup?: (groupId: string) => void;
   onAnalyzeGroup?: (groupId: string, imageIds?: string[]) => void;
+  onEditJourney?: (groupId: string) => void;
+  onTagProducts?: (imageIds: string[], tag: ProductTag | null) => void;
   onGroupDisplayModeChange?: (groupId: string, mode: 'standard' | 'stacked') => void;
   onSubmitGroupPrompt?: (groupId: string, prompt: string, isCustom: boolean, existingResult?: any) => Promise<void>;
   onEditGroupPrompt?: (sessionId: string) => void;
@@ -120,6 +141,8 @@ export const CanvasView: React.FC<CanvasViewProps> = ({
   onDeleteGroup,
   onEditGroup,
   onAnalyzeGroup,
+  onEditJourney,
+  onTagProducts,
   onGroupDisplayModeChange,
   onSubmitGroupPrompt,
   onEditGroupPrompt,
@@ -319,8 +342,8 @@ export const CanvasView: React.FC<CanvasViewProps> = ({
         throw new Error('Group not found');
       }
 
-      // Get image URLs from the group's images
-      const groupImages = uploadedImages.filter(img => group.imageIds.includes(img.id));
+      // Get image URLs from the group's images, in group order
+      const groupImages = getImagesInGroupOrder(group.imageIds, uploadedImages);
       const imageUrls = groupImages
         .filter(img => img.url && typeof img.url === 'string' && img.url.trim() !== '')
         .map(img => img.url);
@@ -1153,7 +1176,7 @@ export const CanvasView: React.FC<CanvasViewProps> = ({
 
     // Process image groups with containers and individual analysis cards
     imageGroups.forEach((group, groupIndex) => {
-      const groupImages = uploadedImages.filter(img => group.imageIds.includes(img.id));
+      const groupImages = getImagesInGroupOrder(group.imageIds, uploadedImages);
       const displayMode = groupDisplayModes[group.id] || 'standard';
       
       // Calculate container dimensions based on display mode
@@ -1256,10 +1279,13 @@ export const CanvasView: React.FC<CanvasViewProps> = ({
               handleGroupAnalysis(group.imageIds);
             }
           },
+          onEditJourney,
           onDisplayModeChange: onGroupDisplayModeChange,
         },
       };
       nodes.push(containerNode);
+      // Step number of each image when the group is a journey
+      const journeyStepOf = (imageIndex: number) => group.journey ? imageIndex + 1 : undefined;
       
       // Position images and their individual analysis cards inside the container
       if (displayMode === 'standard') {
@@ -1291,6 +1317,7 @@ export const CanvasView: React.FC<CanvasViewProps> = ({
             } : { 
               image,
               analysis,
+              journeyStep: journeyStepOf(imageIndex),
               showAnnotations,
               currentTool,
               onViewChange: stableCallbacks.onViewChange,
@@ -1493,6 +1520,7 @@ export const CanvasView: React.FC<CanvasViewProps> = ({
             data: { 
               image,
               analysis,
+              journeyStep: journeyStepOf(imageIndex),
               showAnnotations,
               currentTool,
               onViewChange: stableCallbacks.onViewChange,
@@ -1665,6 +1693,31 @@ export const CanvasView: React.FC<CanvasViewProps> = ({
         });
       }
       
+      // Journey groups: a directed edge between consecutive steps, labelled with the user's action
+      if (group.journey) {
+        const drawnImageIds = new Set(nodes
+          .filter(node => node.type === 'image' && node.parentId === `group-container-${group.id}`)
+          .map(node => node.id));
+        getJourneyTransitions(group).forEach(transition => {
+          const source = `image-${transition.fromImageId}`;
+          const target = `image-${transition.toImageId}`;
+          if (!drawnImageIds.has(source) || !drawnImageIds.has(target)) return;
+          edges.push({
+            id: `journey-${group.id}-${transition.fromImageId}-${transition.toImageId}`,
+            source,
+            sourceHandle: 'journey-out',
+            target,
+            targetHandle: 'journey-in',
+            type: 'smoothstep',
+            label: transition.label,
+            labelBgPadding: [6, 3],
+            labelBgBorderRadius: 4,
+            markerEnd: { type: MarkerType.ArrowClosed, color: group.color },
+            style: { stroke: group.color, strokeWidth: 2 },
+          });
+        });
+      }
+      
       // Group analysis workflow: Check for prompt sessions and analysis results
       const groupSessions = groupPromptSessions.filter(session => session.groupId === group.id);
       const groupAnalysesForGroup = groupAnalysesWithPrompts.filter(analysis => analysis.groupId === group.id);
@@ -2059,6 +2112,12 @@ export const CanvasView: React.FC<CanvasViewProps> = ({
   }, [nodes, uploadedImages, onAnalysisComplete, updateAnalysisNode]);
 
   const handleStartAnalysis = onStartAnalysis;
+
+  // Undo/redo stays per user: restored snapshots keep positions collaborators changed since
+  const rebaseCollaboratorNodes = useCallback(
+    (restored: Node[]) => canvasCollaborationService.rebaseNodes(restored),
+    []
+  );
   
   const {
     saveState,
@@ -2067,18 +2126,34 @@ export const CanvasView: React.FC<CanvasViewProps> = ({
     canUndo,
     canRedo,
     setIsUpdating,
-  } = useUndoRedo([], []);
+  } = useUndoRedo([], [], { rebaseNodes: rebaseCollaboratorNodes });
+
+  // Realtime presence and shared layout; remote moves re-apply the layout without touching undo history
+  const { can } = useWorkspace();
+  const selectedNodeIds = useMemo(
+    () => multiSelection.state.selectedIds.map(id => `image-${id}`),
+    [multiSelection.state.selectedIds]
+  );
+  const applySharedLayout = useCallback(() => {
+    setNodes(current => canvasCollaborationService.applyLayout(current));
+  }, [setNodes]);
+  const { peers } = useCanvasCollaboration(selectedNodeIds, applySharedLayout);
+
+  const handleNodeDragStop = useCallback((_event: React.MouseEvent, _node: Node, draggedNodes: Node[]) => {
+    if (can('editor')) canvasCollaborationService.recordLocalMoves(draggedNodes);
+  }, [can]);
 
   // Single consolidated effect to manage all node state updates
   useEffect(() => {
     setIsUpdating(true);
     
-    // Update nodes and edges based on latest computed elements
-    setNodes(initialElements.nodes);
+    // Update nodes and edges based on latest computed elements, keeping positions from the shared layout
+    const layoutNodes = canvasCollaborationService.applyLayout(initialElements.nodes);
+    setNodes(layoutNodes);
     setEdges(initialElements.edges);
     
     // Save to history
-    saveState(initialElements.nodes, initialElements.edges);
+    saveState(layoutNodes, initialElements.edges);
     
     // Clean up updating flag
     const cleanup = () => setIsUpdating(false);
@@ -2097,6 +2172,7 @@ export const CanvasView: React.FC<CanvasViewProps> = ({
           setIsUpdating(true);
           setNodes(previousState.nodes);
           setEdges(previousState.edges);
+          if (can('editor')) canvasCollaborationService.recordLocalMoves(previousState.nodes, { onlyTracked: true });
           setTimeout(() => setIsUpdating(false), 0);
         }
       } else if ((event.ctrlKey || event.metaKey) && event.key === 'z' && event.shiftKey) {
@@ -2106,6 +2182,7 @@ export const CanvasView: React.FC<CanvasViewProps> = ({
           setIsUpdating(true);
           setNodes(nextState.nodes);
           setEdges(nextState.edges);
+          if (can('editor')) canvasCollaborationService.recordLocalMoves(nextState.nodes, { onlyTracked: true });
           setTimeout(() => setIsUpdating(false), 0);
         }
       }
@@ -2113,7 +2190,7 @@ export const CanvasView: React.FC<CanvasViewProps> = ({
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [undo, redo, setNodes, setEdges, setIsUpdating]);
+  }, [undo, redo, setNodes, setEdges, setIsUpdating, can]);
 
   const onConnect = useCallback(
     (params: Connection) => setEdges((eds) => addEdge(params, eds)),
@@ -2190,6 +2267,365 @@ export const CanvasView: React.FC<CanvasViewProps> = ({
     // });
   }, [onCreateGroup, multiSelection, toast]);
 
+  const updateComparisonNode = useCallback((comparisonId: string, patch: Partial<ScreenComparisonNodeData>) => {
+    setDynamicNodes(prev => prev.map(node =>
+      node.id === comparisonId ? { ...node, data: { ...node.data, ...patch } } : node
+    ));
+  }, []);
+
+  const handleRunComparison = useCallback(async (comparisonId: string) => {
+    const node = dynamicNodes.find(n => n.id === comparisonId);
+    if (!node) return;
+    const { beforeImage, afterImage } = node.data as unknown as ScreenComparisonNodeData;
+
+    updateComparisonNode(comparisonId, { status: 'running', progress: 0, stage: undefined, error: undefined, result: undefined });
+    try {
+      const projectId = await ProjectService.getCurrentProject().catch(() => null);
+      const result = await ScreenComparisonService.runComparison(beforeImage, afterImage, {
+        projectId,
+        onProgress: ({ stage, progress }) => updateComparisonNode(comparisonId, { stage, progress })
+      });
+      updateComparisonNode(comparisonId, { status: 'completed', progress: 100, result });
+    } catch (error) {
+      console.error('[CanvasView] Screen comparison failed:', error);
+      updateComparisonNode(comparisonId, {
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Comparison failed'
+      });
+      toast({
+        title: "Comparison Failed",
+        description: error instanceof Error ? error.message : 'Comparison failed',
+        category: "error",
+      });
+    }
+  }, [dynamicNodes, updateComparisonNode, toast]);
+
+  const handleSwapComparison = useCallback((comparisonId: string) => {
+    setDynamicNodes(prev => prev.map(node => {
+      if (node.id !== comparisonId) return node;
+      const data = node.data as unknown as ScreenComparisonNodeData;
+      return {
+        ...node,
+        data: {
+          ...node.data,
+          beforeImage: data.afterImage,
+          afterImage: data.beforeImage,
+          beforeAnnotations: data.afterAnnotations,
+          afterAnnotations: data.beforeAnnotations,
+          status: 'idle',
+          result: undefined,
+          error: undefined
+        }
+      };
+    }));
+  }, []);
+
+  const handleRemoveComparison = useCallback((comparisonId: string) => {
+    setDynamicNodes(prev => prev.filter(node => node.id !== comparisonId));
+  }, []);
+
+  // Callbacks are re-bound on every render so the node always runs against current state
+  const comparisonCallbacksRef = useRef({ onRun: handleRunComparison, onSwap: handleSwapComparison, onRemove: handleRemoveComparison });
+  comparisonCallbacksRef.current = { onRun: handleRunComparison, onSwap: handleSwapComparison, onRemove: handleRemoveComparison };
+
+  const handleCompareScreens = useCallback(() => {
+    const selectedIds = multiSelection.state.selectedIds;
+    if (selectedIds.length !== 2) {
+      toast({
+        title: "Selection Required",
+        description: "Select exactly 2 images: the before build first, then the after build",
+        category: "action-required",
+      });
+      return;
+    }
+
+    const [beforeImage, afterImage] = selectedIds.map(id => uploadedImages.find(img => img.id === id));
+    if (!beforeImage || !afterImage) return;
+
+    const annotationsFor = (imageId: string) =>
+      analyses.find(a => a.imageId === imageId && a.status !== 'error')?.visualAnnotations || [];
+
+    const anchors = [beforeImage, afterImage]
+      .map(img => nodes.find(n => n.id === `image-${img.id}`))
+      .filter(Boolean) as Node[];
+    const position = anchors.length > 0
+      ? {
+          x: Math.max(...anchors.map(n => n.position.x)) + 900,
+          y: Math.min(...anchors.map(n => n.position.y))
+        }
+      : { x: 600, y: 300 };
+
+    const comparisonId = `screen-comparison-${beforeImage.id}-${afterImage.id}-${Date.now()}`;
+    const data: ScreenComparisonNodeData = {
+      comparisonId,
+      beforeImage,
+      afterImage,
+      beforeAnnotations: annotationsFor(beforeImage.id),
+      afterAnnotations: annotationsFor(afterImage.id),
+      status: 'idle',
+      onRun: (id) => comparisonCallbacksRef.current.onRun(id),
+      onSwap: (id) => comparisonCallbacksRef.current.onSwap(id),
+      onRemove: (id) => comparisonCallbacksRef.current.onRemove(id)
+    };
+
+    setDynamicNodes(prev => [...prev, {
+      id: comparisonId,
+      type: 'screenComparison',
+      position,
+      data: data as unknown as Record<string, unknown>,
+      draggable: true
+    }]);
+    multiSelection.clearSelection();
+  }, [multiSelection, uploadedImages, analyses, nodes, toast]);
+
+  // Screens being tagged as ours or a competitor; null while the tag dialog is closed
+  const [tagImageIds, setTagImageIds] = useState<string[] | null>(null);
+
+  const handleTagProducts = useCallback(() => {
+    const imageIds = multiSelection.state.selectedIds.filter((id: string) => uploadedImages.some(img => img.id === id));
+    if (imageIds.length === 0) {
+      toast({
+        title: "Selection Required",
+        description: "Select the screens to tag as ours or as a competitor",
+        category: "action-required",
+      });
+      return;
+    }
+    setTagImageIds(imageIds);
+  }, [multiSelection, uploadedImages, toast]);
+
+  const tagDialogInitialTag = useMemo(() => {
+    const tags = (tagImageIds || []).map(id => uploadedImages.find(img => img.id === id)?.productTag);
+    const [first] = tags;
+    return first && tags.every(tag => tag?.kind === first.kind && tag?.name === first.name) ? first : undefined;
+  }, [tagImageIds, uploadedImages]);
+
+  const competitorNames = useMemo(() => Array.from(new Set(
+    uploadedImages
+      .map(img => img.productTag)
+      .filter((tag): tag is ProductTag => tag?.kind === 'competitor' && !!tag.name)
+      .map(tag => tag.name as string)
+  )).sort(), [uploadedImages]);
+
+  /**
+   * Tagged screens with a completed analysis, limited to the given scope (null: every tagged screen)
+   */
+  const collectBenchmarkEntries = useCallback((scopeImageIds: string[] | null): BenchmarkEntry[] =>
+    uploadedImages
+      .filter(img => img.productTag && (!scopeImageIds || scopeImageIds.includes(img.id)))
+      .flatMap(img => {
+        const analysis = analyses.find(a => a.imageId === img.id && a.status !== 'error');
+        return analysis ? [{ imageId: img.id, tag: img.productTag as ProductTag, analysis }] : [];
+      }),
+  [uploadedImages, analyses]);
+
+  const handleRefreshBenchmark = useCallback((benchmarkId: string) => {
+    const node = dynamicNodes.find(n => n.id === benchmarkId);
+    if (!node) return;
+    const { scopeImageIds } = node.data as unknown as CompetitorBenchmarkNodeData;
+    const entries = collectBenchmarkEntries(scopeImageIds);
+    if (!entries.some(e => e.tag.kind === 'ours') || !entries.some(e => e.tag.kind === 'competitor')) {
+      toast({
+        title: "Benchmark Not Updated",
+        description: "The benchmark needs analyzed screens tagged as ours and as at least one competitor",
+        category: "action-required",
+      });
+      return;
+    }
+    const benchmark = enhancedGroupAnalysisPipeline.buildCompetitorBenchmark(entries);
+    setDynamicNodes(prev => prev.map(n =>
+      n.id === benchmarkId ? { ...n, data: { ...n.data, benchmark, images: uploadedImages } } : n
+    ));
+  }, [dynamicNodes, collectBenchmarkEntries, uploadedImages, toast]);
+
+  const handleRemoveBenchmark = useCallback((benchmarkId: string) => {
+    setDynamicNodes(prev => prev.filter(node => node.id !== benchmarkId));
+  }, []);
+
+  // Callbacks are re-bound on every render so the node always runs against current state
+  const benchmarkCallbacksRef = useRef({ onRefresh: handleRefreshBenchmark, onRemove: handleRemoveBenchmark });
+  benchmarkCallbacksRef.current = { onRefresh: handleRefreshBenchmark, onRemove: handleRemoveBenchmark };
+
+  const handleBenchmark = useCallback(() => {
+    // Two or more selected screens scope the benchmark; otherwise every tagged screen takes part
+    const selectedIds: string[] = multiSelection.state.selectedIds;
+    const scopeImageIds = selectedIds.length >= 2 ? selectedIds : null;
+    const entries = collectBenchmarkEntries(scopeImageIds);
+    const skipped = (scopeImageIds ?? uploadedImages.filter(img => img.productTag).map(img => img.id)).length - entries.length;
+
+    if (!entries.some(e => e.tag.kind === 'ours') || !entries.some(e => e.tag.kind === 'competitor')) {
+      toast({
+        title: "Tag Screens First",
+        description: "Benchmarking needs analyzed screens tagged as ours and as at least one competitor. Use the tag button on selected screens.",
+        category: "action-required",
+      });
+      return;
+    }
+
+    const benchmark = enhancedGroupAnalysisPipeline.buildCompetitorBenchmark(entries);
+    const anchors = entries
+      .map(entry => nodes.find(n => n.id === `image-${entry.imageId}`))
+      .filter(Boolean) as Node[];
+    const position = anchors.length > 0
+      ? {
+          x: Math.max(...anchors.map(n => n.position.x)) + 900,
+          y: Math.min(...anchors.map(n => n.position.y))
+        }
+      : { x: 600, y: 300 };
+
+    const benchmarkId = `competitor-benchmark-${Date.now()}`;
+    const data: CompetitorBenchmarkNodeData = {
+      benchmarkId,
+      benchmark,
+      scopeImageIds,
+      images: uploadedImages,
+      onRefresh: (id) => benchmarkCallbacksRef.current.onRefresh(id),
+      onRemove: (id) => benchmarkCallbacksRef.current.onRemove(id)
+    };
+
+    setDynamicNodes(prev => [...prev, {
+      id: benchmarkId,
+      type: 'competitorBenchmark',
+      position,
+      data: data as unknown as Record<string, unknown>,
+      draggable: true
+    }]);
+    multiSelection.clearSelection();
+
+    if (skipped > 0) {
+      toast({
+        title: "Benchmark Created",
+        description: `${skipped} screen${skipped !== 1 ? 's were' : ' was'} left out for missing a product tag or a completed analysis`,
+        category: "info",
+      });
+    }
+  }, [multiSelection, collectBenchmarkEntries, uploadedImages, nodes, toast]);
+
+  const updatePersonaNode = useCallback((comparisonId: string, patch: Partial<PersonaComparisonNodeData>) => {
+    setDynamicNodes(prev => prev.map(node =>
+      node.id === comparisonId ? { ...node, data: { ...node.data, ...patch } } : node
+    ));
+  }, []);
+
+  const handleTogglePersona = useCallback((comparisonId: string, personaId: string) => {
+    setDynamicNodes(prev => prev.map(node => {
+      if (node.id !== comparisonId) return node;
+      const { selectedPersonaIds } = node.data as unknown as PersonaComparisonNodeData;
+      return {
+        ...node,
+        data: {
+          ...node.data,
+          selectedPersonaIds: selectedPersonaIds.includes(personaId)
+            ? selectedPersonaIds.filter(id => id !== personaId)
+            : [...selectedPersonaIds, personaId]
+        }
+      };
+    }));
+  }, []);
+
+  const handleRunPersonas = useCallback(async (comparisonId: string) => {
+    const node = dynamicNodes.find(n => n.id === comparisonId);
+    if (!node) return;
+    const { images, personas, selectedPersonaIds } = node.data as unknown as PersonaComparisonNodeData;
+    const selected = personas.filter(persona => selectedPersonaIds.includes(persona.id));
+
+    updatePersonaNode(comparisonId, { status: 'running', progress: 0, stage: undefined, error: undefined });
+    try {
+      const projectId = await ProjectService.getCurrentProject();
+      const result = await PersonaComparisonService.runComparison(images, selected, {
+        projectId,
+        onProgress: ({ stage, progress }) => updatePersonaNode(comparisonId, { stage, progress })
+      });
+      updatePersonaNode(comparisonId, { status: 'completed', progress: 100, result });
+      if (result.failedPersonas.length > 0) {
+        toast({
+          title: "Some Personas Failed",
+          description: `The comparison leaves out ${result.failedPersonas.join(', ')}`,
+          category: "error",
+        });
+      }
+    } catch (error) {
+      console.error('[CanvasView] Persona comparison failed:', error);
+      updatePersonaNode(comparisonId, {
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Persona analysis failed'
+      });
+      toast({
+        title: "Persona Analysis Failed",
+        description: error instanceof Error ? error.message : 'Persona analysis failed',
+        category: "error",
+      });
+    }
+  }, [dynamicNodes, updatePersonaNode, toast]);
+
+  const handleRemovePersonaComparison = useCallback((comparisonId: string) => {
+    setDynamicNodes(prev => prev.filter(node => node.id !== comparisonId));
+  }, []);
+
+  // Callbacks are re-bound on every render so the node always runs against current state
+  const personaCallbacksRef = useRef({ onToggle: handleTogglePersona, onRun: handleRunPersonas, onRemove: handleRemovePersonaComparison });
+  personaCallbacksRef.current = { onToggle: handleTogglePersona, onRun: handleRunPersonas, onRemove: handleRemovePersonaComparison };
+
+  const handleComparePersonas = useCallback(async () => {
+    // Screens are reviewed in selection order
+    const images = (multiSelection.state.selectedIds as string[])
+      .map(id => uploadedImages.find(img => img.id === id))
+      .filter((img): img is UploadedImage => !!img);
+    if (images.length === 0) {
+      toast({
+        title: "Selection Required",
+        description: "Select the screens to analyze through your personas",
+        category: "action-required",
+      });
+      return;
+    }
+
+    let personas: EndUserPersona[] = [];
+    try {
+      const projectId = await ProjectService.getCurrentProject();
+      personas = await PersonaService.getPersonas(projectId);
+    } catch (error) {
+      console.error('[CanvasView] Failed to load personas:', error);
+      toast({
+        title: "Personas Unavailable",
+        description: error instanceof Error ? error.message : 'Failed to load personas',
+        category: "error",
+      });
+      return;
+    }
+
+    const anchors = images
+      .map(img => nodes.find(n => n.id === `image-${img.id}`))
+      .filter(Boolean) as Node[];
+    const position = anchors.length > 0
+      ? {
+          x: Math.max(...anchors.map(n => n.position.x)) + 900,
+          y: Math.min(...anchors.map(n => n.position.y))
+        }
+      : { x: 600, y: 300 };
+
+    const comparisonId = `persona-comparison-${Date.now()}`;
+    const data: PersonaComparisonNodeData = {
+      comparisonId,
+      images,
+      personas,
+      selectedPersonaIds: personas.map(persona => persona.id),
+      status: 'idle',
+      onTogglePersona: (id, personaId) => personaCallbacksRef.current.onToggle(id, personaId),
+      onRun: (id) => personaCallbacksRef.current.onRun(id),
+      onRemove: (id) => personaCallbacksRef.current.onRemove(id)
+    };
+
+    setDynamicNodes(prev => [...prev, {
+      id: comparisonId,
+      type: 'personaComparison',
+      position,
+      data: data as unknown as Record<string, unknown>,
+      draggable: true
+    }]);
+    multiSelection.clearSelection();
+  }, [multiSelection, uploadedImages, nodes, toast]);
+
 
 
 
@@ -2202,6 +2638,8 @@ export const CanvasView: React.FC<CanvasViewProps> = ({
         onEdgesChange={onEdgesChange}
         onConnect={onConnect}
         onNodeClick={onNodeClick}
+        onNodeDragStop={handleNodeDragStop}
+        peers={peers}
         currentTool={currentTool}
         showAnnotations={showAnnotations}
         showAnalysis={showAnalysis}
@@ -2211,6 +2649,10 @@ export const CanvasView: React.FC<CanvasViewProps> = ({
         handleToggleAnalysis={handleToggleAnalysis}
         handleAddComment={handleAddComment}
         handleCreateGroup={handleCreateGroup}
+        handleCompareScreens={handleCompareScreens}
+        handleTagProducts={onTagProducts ? handleTagProducts : undefined}
+        handleBenchmark={handleBenchmark}
+        handleComparePersonas={handleComparePersonas}
         multiSelection={multiSelection}
         undo={undo}
         redo={redo}
@@ -2220,11 +2662,20 @@ export const CanvasView: React.FC<CanvasViewProps> = ({
         setEdges={setEdges}
         setIsUpdating={setIsUpdating}
         uploadedImages={uploadedImages}
+        analyses={analyses}
         onImageUpload={onImageUpload}
         onContextMenu={openContextMenu}
         ContextMenu={ContextMenu}
         DeleteDialog={DeleteDialog}
       />
+      <ProductTagDialog
+        isOpen={!!tagImageIds}
+        onClose={() => setTagImageIds(null)}
+        onSave={(tag) => tagImageIds && onTagProducts?.(tagImageIds, tag)}
+        imageCount={tagImageIds?.length ?? 0}
+        initialTag={tagDialogInitialTag}
+        competitorNames={competitorNames}
+      />
     </AnnotationOverlayProvider>
   );
 };
@@ -2237,6 +2688,8 @@ interface CanvasContentProps {
   onEdgesChange: any;
   onConnect: any;
   onNodeClick: (event: React.MouseEvent, node: Node) => void;
+  onNodeDragStop: (event: React.MouseEvent, node: Node, nodes: Node[]) => void;
+  peers: CanvasPeer[];
   currentTool: UnifiedToolMode;
   showAnnotations: boolean;
   showAnalysis: boolean;
@@ -2246,6 +2699,10 @@ interface CanvasContentProps {
   handleToggleAnalysis: () => void;
   handleAddComment: () => void;
   handleCreateGroup: () => void;
+  handleCompareScreens: () => void;
+  handleTagProducts?: () => void;
+  handleBenchmark: () => void;
+  handleComparePersonas: () => void;
   multiSelection: any;
   undo: () => any;
   redo: () => any;
@@ -2255,6 +2712,7 @@ interface CanvasContentProps {
   setEdges: any;
   setIsUpdating: any;
   uploadedImages: UploadedImage[];
+  analyses: UXAnalysis[];
   onImageUpload?: (files: File[]) => void;
   onContextMenu?: (item: CanvasItem) => void;
   ContextMenu?: (() => React.ReactElement) | null;
@@ -2268,6 +2726,8 @@ const CanvasContent: React.FC<CanvasContentProps> = ({
   onEdgesChange,
   onConnect,
   onNodeClick,
+  onNodeDragStop,
+  peers,
   currentTool,
   showAnnotations,
   showAnalysis,
@@ -2277,6 +2737,10 @@ const CanvasContent: React.FC<CanvasContentProps> = ({
   handleToggleAnalysis,
   handleAddComment,
   handleCreateGroup,
+  handleCompareScreens,
+  handleTagProducts,
+  handleBenchmark,
+  handleComparePersonas,
   multiSelection,
   undo,
   redo,
@@ -2286,6 +2750,7 @@ const CanvasContent: React.FC<CanvasContentProps> = ({
   setEdges,
   setIsUpdating,
   uploadedImages,
+  analyses,
   onImageUpload,
   onContextMenu,
   ContextMenu,
@@ -2305,6 +2770,16 @@ const CanvasContent: React.FC<CanvasContentProps> = ({
     multiSelection.state.selectedIds.includes(img.id)
   );
 
+  // Ground the AI assistant chat in the most recently selected image's analysis
+  const chatAnalysis = useMemo(() => {
+    const selectedIds: string[] = multiSelection.state.selectedIds;
+    for (let i = selectedIds.length - 1; i >= 0; i--) {
+      const match = analyses.find(a => a.imageId === selectedIds[i] && a.status !== 'error');
+      if (match) return match;
+    }
+    return null;
+  }, [analyses, multiSelection.state.selectedIds]);
+
   return (
     <div className="h-full w-full relative canvas-root" style={{ height: '100vh', width: '100%' }}>
       {/* Upload Zone - Show only when no images exist */}
@@ -2333,6 +2808,7 @@ const CanvasContent: React.FC<CanvasContentProps> = ({
         onEdgesChange={onEdgesChange}
         onConnect={onConnect}
         onNodeClick={onNodeClick}
+        onNodeDragStop={onNodeDragStop}
         nodeTypes={nodeTypes}
         fitView={uploadedImages.length > 0} // Fit view when images are loaded to center content
         fitViewOptions={{
@@ -2361,6 +2837,9 @@ const CanvasContent: React.FC<CanvasContentProps> = ({
       >
         
         {/* Custom controls are now in FloatingToolbar */}
+
+        {/* Collaborators' cursors, selections and avatars */}
+        <CanvasPresenceLayer peers={peers} />
         
         {/* Unified Floating Toolbar - Must be inside ReactFlow for useReactFlow hook */}
         <CanvasFloatingToolbar
@@ -2369,12 +2848,17 @@ const CanvasContent: React.FC<CanvasContentProps> = ({
           onToggleAnalysis={handleToggleAnalysis}
           onAddComment={handleAddComment}
           onCreateGroup={handleCreateGroup}
+          onCompareScreens={handleCompareScreens}
+          onTagProducts={handleTagProducts}
+          onBenchmark={handleBenchmark}
+          onComparePersonas={handleComparePersonas}
           onImageUpload={onImageUpload}
           showAnnotations={showAnnotations}
           showAnalysis={showAnalysis}
           currentTool={currentTool}
           hasMultiSelection={multiSelection.state.isMultiSelectMode}
           selectedCount={multiSelection.state.selectedIds.length}
+          chatAnalysis={chatAnalysis}
         />
       </ReactFlow>
       
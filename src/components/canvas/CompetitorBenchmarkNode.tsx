@@ -0,0 +1,204 @@
+import React from 'react';
+import { Handle, Position, NodeProps } from '@xyflow/react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Check, Minus, RefreshCw, Trophy, X } from 'lucide-react';
+import type { CompetitorBenchmark, UploadedImage } from '@/types/ux-analysis';
+
+export interface CompetitorBenchmarkNodeData {
+  benchmarkId: string;
+  benchmark: CompetitorBenchmark;
+  // Screens the benchmark was built from; null when it covers every tagged screen
+  scopeImageIds: string[] | null;
+  images: UploadedImage[];
+  onRefresh?: (benchmarkId: string) => void;
+  onRemove?: (benchmarkId: string) => void;
+}
+
+const scoreTone = (score: number | undefined, best: number | undefined) => {
+  if (typeof score !== 'number') return 'text-muted-foreground';
+  if (score === best) return 'font-semibold text-green-700';
+  return score < 60 ? 'text-red-600' : '';
+};
+
+export const CompetitorBenchmarkNode: React.FC<NodeProps> = ({ data }) => {
+  const { benchmarkId, benchmark, images = [], onRefresh, onRemove } = data as unknown as CompetitorBenchmarkNodeData;
+  const { criteria, products, features, wins } = benchmark;
+  const imageById = new Map(images.map(image => [image.id, image]));
+
+  const bestScore = (criterionId: string) => Math.max(
+    ...products.map(p => p.scores[criterionId]).filter((s): s is number => typeof s === 'number')
+  );
+  const bestOverall = Math.max(...products.map(p => p.overallScore));
+
+  return (
+    <Card className="w-[640px] bg-background shadow-lg border-2">
+      <Handle type="target" position={Position.Left} />
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
+        <div className="min-w-0">
+          <CardTitle className="text-sm font-semibold flex items-center gap-2">
+            <Trophy className="h-4 w-4" />
+            Competitor Benchmark
+          </CardTitle>
+          <p className="text-xs text-muted-foreground truncate">
+            {products.map(p => p.name).join(' · ')} — {benchmark.rubricName ?? 'built-in categories'}
+          </p>
+        </div>
+        <div className="flex items-center gap-1">
+          {onRefresh && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 w-7 p-0 nodrag"
+              onClick={() => onRefresh(benchmarkId)}
+              title="Rebuild from the latest analyses and tags"
+            >
+              <RefreshCw className="h-3 w-3" />
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 w-7 p-0 nodrag"
+            onClick={() => onRemove?.(benchmarkId)}
+            title="Remove benchmark"
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      </CardHeader>
+
+      <CardContent>
+        <Tabs defaultValue="scores" className="nodrag">
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="scores" className="text-xs">Scores</TabsTrigger>
+            <TabsTrigger value="features" className="text-xs">Features ({features.length})</TabsTrigger>
+            <TabsTrigger value="wins" className="text-xs">Where they beat us ({wins.length})</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="scores">
+            <div className="overflow-x-auto nowheel">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="border-b text-muted-foreground">
+                    <th className="py-1.5 pr-2 text-left font-medium">Criterion</th>
+                    {products.map(p => (
+                      <th key={p.key} className="px-2 py-1.5 text-right font-medium">
+                        {p.name}
+                        <div className="font-normal">{p.imageIds.length} screen{p.imageIds.length !== 1 ? 's' : ''}</div>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr className="border-b">
+                    <td className="py-1.5 pr-2 font-medium">Overall</td>
+                    {products.map(p => (
+                      <td key={p.key} className={`px-2 py-1.5 text-right ${scoreTone(p.overallScore, bestOverall)}`}>{p.overallScore}</td>
+                    ))}
+                  </tr>
+                  {criteria.map(criterion => {
+                    const best = bestScore(criterion.id);
+                    return (
+                      <tr key={criterion.id} className="border-b">
+                        <td className="py-1.5 pr-2">{criterion.name}</td>
+                        {products.map(p => (
+                          <td key={p.key} className={`px-2 py-1.5 text-right ${scoreTone(p.scores[criterion.id], best)}`}>
+                            {p.scores[criterion.id] ?? '–'}
+                          </td>
+                        ))}
+                      </tr>
+                    );
+                  })}
+                  <tr>
+                    <td className="py-1.5 pr-2 text-muted-foreground">Consistency across screens</td>
+                    {products.map(p => (
+                      <td key={p.key} className="px-2 py-1.5 text-right text-muted-foreground">{p.consistency}</td>
+                    ))}
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="features">
+            <div className="max-h-80 overflow-auto nowheel">
+              {features.length === 0 ? (
+                <p className="py-2 text-xs text-muted-foreground">No patterns or elements were detected on these screens.</p>
+              ) : (
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="border-b text-muted-foreground">
+                      <th className="py-1.5 pr-2 text-left font-medium">Feature</th>
+                      {products.map(p => (
+                        <th key={p.key} className="px-2 py-1.5 text-center font-medium">{p.name}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {features.map(feature => (
+                      <tr key={`${feature.source}-${feature.name}`} className="border-b">
+                        <td className="py-1.5 pr-2">
+                          {feature.name}
+                          {feature.source === 'element' && <span className="ml-1 text-muted-foreground">(element)</span>}
+                        </td>
+                        {products.map(p => {
+                          const found = feature.presence[p.key] || [];
+                          return (
+                            <td
+                              key={p.key}
+                              className="px-2 py-1.5 text-center"
+                              title={found.map(id => imageById.get(id)?.name ?? id).join(', ')}
+                            >
+                              {found.length > 0
+                                ? <Check className="mx-auto h-3 w-3 text-green-600" />
+                                : <Minus className="mx-auto h-3 w-3 text-muted-foreground" />}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </TabsContent>
+
+          <TabsContent value="wins">
+            <div className="max-h-96 overflow-y-auto space-y-2 nowheel">
+              {wins.length === 0 && (
+                <p className="py-2 text-xs text-muted-foreground">No competitor scores higher than us or has a pattern we lack.</p>
+              )}
+              {wins.map(win => (
+                <div key={win.id} className="rounded-md border p-2 text-xs space-y-2">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{win.title}</span>
+                    {typeof win.delta === 'number' && (
+                      <Badge variant="destructive" className="ml-auto text-[10px]">+{win.delta}</Badge>
+                    )}
+                  </div>
+                  <p className="text-muted-foreground">{win.detail}</p>
+                  <div className="flex gap-2">
+                    {win.evidenceImageIds.map(id => {
+                      const image = imageById.get(id);
+                      if (!image) return null;
+                      return (
+                        <figure key={id} className="w-36">
+                          <img src={image.url} alt={image.name} className="h-24 w-36 rounded border object-cover object-top" />
+                          <figcaption className="mt-0.5 truncate text-[10px] text-muted-foreground">{image.name}</figcaption>
+                        </figure>
+                      );
+                    })}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+      <Handle type="source" position={Position.Right} />
+    </Card>
+  );
+};
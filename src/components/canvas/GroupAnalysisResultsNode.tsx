@@ -5,7 +5,8 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Separator } from '@/components/ui/separator';
-import { GroupAnalysisWithPrompt } from '@/types/ux-analysis';
+import { GroupAnalysisWithPrompt, GroupJourneyAnalysis } from '@/types/ux-analysis';
+import { formatStepPair } from '@/utils/journeyUtils';
 import { 
   CheckCircle, 
   AlertTriangle, 
@@ -15,7 +16,8 @@ import {
   Edit3,
   Lightbulb,
   Target,
-  Users
+  Users,
+  Route
 } from 'lucide-react';
 
 interface GroupAnalysisResultsNodeData {
@@ -55,6 +57,10 @@ export const GroupAnalysisResultsNode: React.FC<NodeProps> = ({ data }) => {
   const consistency = analysis?.summary?.consistency as number | undefined;
   const thematic = analysis?.summary?.thematicCoherence as number | undefined;
   const flow = analysis?.summary?.userFlowContinuity as number | undefined;
+  const journey = analysis?.journey as GroupJourneyAnalysis | undefined;
+
+  const getRiskVariant = (risk: 'low' | 'medium' | 'high') =>
+    risk === 'high' ? 'destructive' : risk === 'medium' ? 'secondary' : 'outline';
 
   return (
     <div className="w-96">
@@ -140,6 +146,71 @@ export const GroupAnalysisResultsNode: React.FC<NodeProps> = ({ data }) => {
 
           {/* Collapsible Sections */}
           <div className="space-y-2">
+            {/* Journey Transitions */}
+            {journey && (
+              <div className="border rounded-lg">
+                <button
+                  onClick={() => toggleSection('journey')}
+                  className="w-full p-3 text-left flex items-center justify-between hover:bg-muted/30 transition-colors"
+                >
+                  <div className="flex items-center gap-2">
+                    <Route className="w-4 h-4 text-primary" />
+                    <span className="text-sm font-medium">Journey Transitions</span>
+                  </div>
+                  <Badge variant="secondary" className="text-xs">
+                    {journey.transitions.length}
+                  </Badge>
+                </button>
+
+                {expandedSection === 'journey' && (
+                  <div className="p-3 pt-0 border-t bg-muted/10 space-y-3">
+                    <ul className="space-y-3">
+                      {journey.transitions.map((transition) => (
+                        <li key={`${transition.fromStep}-${transition.toStep}`} className="text-sm space-y-1">
+                          <div className="flex items-center justify-between gap-2">
+                            <span className="font-medium">
+                              {formatStepPair(transition.fromStep, transition.toStep)}
+                              {transition.label && (
+                                <span className="font-normal text-muted-foreground"> · {transition.label}</span>
+                              )}
+                            </span>
+                            <span className={getScoreColor(transition.continuity)}>{transition.continuity}%</span>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <Badge variant={getRiskVariant(transition.dropOffRisk)} className="text-xs">
+                              {transition.dropOffRisk} drop-off risk
+                            </Badge>
+                            {transition.dropOffReason && (
+                              <span className="text-xs text-muted-foreground">{transition.dropOffReason}</span>
+                            )}
+                          </div>
+                          {transition.lostContext.length > 0 && (
+                            <p className="text-xs text-muted-foreground">
+                              Lost context: {transition.lostContext.join(', ')}
+                            </p>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+
+                    {journey.gaps.length > 0 && (
+                      <div>
+                        <h5 className="text-xs font-medium text-muted-foreground mb-2">Journey Gaps</h5>
+                        <ul className="space-y-1">
+                          {journey.gaps.map((gap, index) => (
+                            <li key={index} className="text-xs text-muted-foreground flex items-start gap-2">
+                              <span className="font-medium text-foreground shrink-0">{formatStepPair(gap.fromStep, gap.toStep)}</span>
+                              <span>{gap.text}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Key Insights */}
             <div className="border rounded-lg">
               <button
@@ -2,7 +2,7 @@ import React from 'react';
 import { Handle, Position, NodeProps } from '@xyflow/react';
 import { ImageGroup } from '@/types/ux-analysis';
 import { Button } from '@/components/ui/button';
-import { LayoutGrid, Layers, Edit2, BarChart3 } from 'lucide-react';
+import { LayoutGrid, Layers, Edit2, BarChart3, Route } from 'lucide-react';
 
 interface GroupContainerNodeData {
   group: ImageGroup;
@@ -11,6 +11,7 @@ interface GroupContainerNodeData {
   onDelete?: (groupId: string) => void;
   onEdit?: (groupId: string) => void;
   onAnalyzeGroup?: (groupId: string) => void;
+  onEditJourney?: (groupId: string) => void;
   onDisplayModeChange?: (groupId: string, mode: 'standard' | 'stacked') => void;
 }
 
@@ -18,7 +19,7 @@ export const GroupContainerNode: React.FC<NodeProps> = ({
   data,
   selected 
 }) => {
-  const { group, displayMode = 'standard', onUngroup, onDelete, onEdit, onAnalyzeGroup, onDisplayModeChange } = data as unknown as GroupContainerNodeData;
+  const { group, displayMode = 'standard', onUngroup, onDelete, onEdit, onAnalyzeGroup, onEditJourney, onDisplayModeChange } = data as unknown as GroupContainerNodeData;
 
   const handleDisplayModeToggle = () => {
     const newMode = displayMode === 'standard' ? 'stacked' : 'standard';
@@ -31,6 +32,9 @@ export const GroupContainerNode: React.FC<NodeProps> = ({
       <div className="group-header">
         <div className="flex items-center gap-2">
           <h3 className="group-title">{group.name}</h3>
+          {group.journey && (
+            <span className="text-xs text-muted-foreground">Journey · {group.imageIds.length} steps</span>
+          )}
           <Button
             variant="ghost"
             size="sm"
@@ -54,6 +58,15 @@ export const GroupContainerNode: React.FC<NodeProps> = ({
               <BarChart3 className="w-3 h-3" />
             </button>
           )}
+          {onEditJourney && (
+            <button 
+              onClick={() => onEditJourney(group.id)}
+              className="group-action-btn"
+              title={group.journey ? 'Edit journey steps' : 'Make this group a journey'}
+            >
+              <Route className="w-3 h-3" />
+            </button>
+          )}
           {onEdit && (
             <button 
               onClick={() => onEdit(group.id)}
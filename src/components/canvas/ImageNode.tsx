@@ -8,14 +8,18 @@ import { Eye } from 'lucide-react';
 import { DrawingOverlay } from '../DrawingOverlay';
 import { useToast } from '@/hooks/use-toast';
 import { useAnnotationOverlay, useGlobalCoordinates } from '../AnnotationOverlay';
+import { AnnotationRegionOutline } from '../AnnotationRegion';
 import { useIsMobile } from '@/hooks/useIsMobile';
 
 import { AnalysisStatusIndicator } from '../AnalysisStatusIndicator';
+import { productName } from '@/utils/benchmarkUtils';
 
 
 interface ImageNodeData {
   image: UploadedImage;
   analysis?: UXAnalysis;
+  // 1-based step number when the image is part of a journey group
+  journeyStep?: number;
   showAnnotations?: boolean;
   currentTool?: 'cursor' | 'draw';
   onViewChange?: (view: 'gallery' | 'canvas' | 'summary') => void;
@@ -33,7 +37,7 @@ interface ImageNodeProps {
 }
 
 export const ImageNode: React.FC<ImageNodeProps> = ({ data, id }) => {
-  const { image, analysis, showAnnotations = true, currentTool = 'cursor', onViewChange, onImageSelect, onToggleSelection, isSelected = false, onAnalysisComplete, onCreateAnalysisRequest, onContextMenu } = data;
+  const { image, analysis, journeyStep, showAnnotations = true, currentTool = 'cursor', onViewChange, onImageSelect, onToggleSelection, isSelected = false, onAnalysisComplete, onCreateAnalysisRequest, onContextMenu } = data;
   const { toast } = useToast();
   const { fitView } = useReactFlow();
   const { showAnnotation, hideAnnotation, activeAnnotation } = useAnnotationOverlay();
@@ -79,15 +83,15 @@ export const ImageNode: React.FC<ImageNodeProps> = ({ data, id }) => {
       return;
     }
 
-    const markerElement = event.currentTarget as HTMLElement;
     const imageContainer = imageContainerRef.current;
     
     if (imageContainer) {
-      const markerRect = markerElement.getBoundingClientRect();
+      // Anchor the comment at the marker, also when the click landed on the annotation's region
+      const containerRect = imageContainer.getBoundingClientRect();
       const globalPosition = calculateGlobalPosition(
         imageContainer,
-        markerRect.left - imageContainer.getBoundingClientRect().left,
-        markerRect.top - imageContainer.getBoundingClientRect().top
+        annotation.x * containerRect.width,
+        annotation.y * containerRect.height
       );
 
       const relatedSuggestions = analysis?.suggestions?.filter(s => 
@@ -100,10 +104,13 @@ export const ImageNode: React.FC<ImageNodeProps> = ({ data, id }) => {
         relatedSuggestions,
         onRequestAnalysis: handleRequestAnalysis,
         onGenerateVariation: handleGenerateVariation,
-        imageContainerRef: imageContainerRef
+        imageContainerRef: imageContainerRef,
+        analysisId: analysis?.id,
+        imageUrl: image.url,
+        imageDimensions: image.dimensions
       });
     }
-  }, [activeAnnotation, hideAnnotation, calculateGlobalPosition, analysis, showAnnotation, handleRequestAnalysis, handleGenerateVariation]);
+  }, [activeAnnotation, hideAnnotation, calculateGlobalPosition, analysis, showAnnotation, handleRequestAnalysis, handleGenerateVariation, image.url, image.dimensions]);
 
   const handleCloseComment = useCallback(() => {
     hideAnnotation();
@@ -216,7 +223,24 @@ export const ImageNode: React.FC<ImageNodeProps> = ({ data, id }) => {
         onContextMenu?.(image.id);
       }}
     >
+      {journeyStep !== undefined && (
+        <>
+          <Handle type="target" position={Position.Top} id="journey-in" className="opacity-0" isConnectable={false} />
+          <Handle type="source" position={Position.Bottom} id="journey-out" className="opacity-0" isConnectable={false} />
+        </>
+      )}
       <div className="relative image-container" ref={imageContainerRef}>
+        {journeyStep !== undefined && (
+          <Badge className="absolute top-2 left-2 z-10 pointer-events-none">Step {journeyStep}</Badge>
+        )}
+        {image.productTag && (
+          <Badge
+            variant={image.productTag.kind === 'ours' ? 'default' : 'outline'}
+            className="absolute bottom-2 left-2 z-10 pointer-events-none bg-background/90 text-foreground backdrop-blur-sm"
+          >
+            {productName(image.productTag)}
+          </Badge>
+        )}
         <img
           src={image.url}
           alt={image.name}
@@ -285,17 +309,25 @@ export const ImageNode: React.FC<ImageNodeProps> = ({ data, id }) => {
             });
             
             return (
-              <div
-                key={`${annotation.id}-${image.id}`}
-                className={`absolute rounded-full border-2 cursor-pointer transform -translate-x-1/2 -translate-y-1/2 transition-all duration-200 hover:scale-110 z-10 ${getMarkerColor(annotation.type, isActive)}`}
-                style={{
-                  left: `${annotation.x * 100}%`,
-                  top: `${annotation.y * 100}%`,
-                }}
-                data-annotation-id={annotation.id}
-                title={annotation.title}
-                onClick={(e) => handleAnnotationClick(annotation, e)}
-              />
+              <React.Fragment key={`${annotation.id}-${image.id}`}>
+                {annotation.region && (
+                  <AnnotationRegionOutline
+                    annotation={{ ...annotation, region: annotation.region }}
+                    isActive={isActive}
+                    onClick={(e) => handleAnnotationClick(annotation, e)}
+                  />
+                )}
+                <div
+                  className={`absolute rounded-full border-2 cursor-pointer transform -translate-x-1/2 -translate-y-1/2 transition-all duration-200 hover:scale-110 z-10 ${getMarkerColor(annotation.type, isActive)}`}
+                  style={{
+                    left: `${annotation.x * 100}%`,
+                    top: `${annotation.y * 100}%`,
+                  }}
+                  data-annotation-id={annotation.id}
+                  title={annotation.title}
+                  onClick={(e) => handleAnnotationClick(annotation, e)}
+                />
+              </React.Fragment>
             );
           });
         })()}
@@ -0,0 +1,239 @@
+import React from 'react';
+import { Handle, Position, NodeProps } from '@xyflow/react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Loader2, Play, UsersRound, X } from 'lucide-react';
+import type { EndUserPersona, PersonaComparison, PersonaSeverity, UploadedImage } from '@/types/ux-analysis';
+
+export interface PersonaComparisonNodeData {
+  comparisonId: string;
+  // Screens in the order they are sent to the personas
+  images: UploadedImage[];
+  // Personas of the project, offered for the run
+  personas: EndUserPersona[];
+  selectedPersonaIds: string[];
+  status: 'idle' | 'running' | 'completed' | 'error';
+  stage?: string;
+  progress?: number;
+  error?: string;
+  result?: PersonaComparison;
+  onTogglePersona?: (comparisonId: string, personaId: string) => void;
+  onRun?: (comparisonId: string) => void;
+  onRemove?: (comparisonId: string) => void;
+}
+
+const severityStyles: Record<PersonaSeverity, string> = {
+  high: 'bg-red-100 text-red-800 border-red-200',
+  medium: 'bg-amber-100 text-amber-800 border-amber-200',
+  low: 'bg-slate-100 text-slate-700 border-slate-200'
+};
+
+const frictionTone = (score: number) => score >= 60 ? 'text-red-600' : score >= 30 ? 'text-amber-600' : 'text-green-700';
+
+export const PersonaComparisonNode: React.FC<NodeProps> = ({ data }) => {
+  const {
+    comparisonId,
+    images = [],
+    personas = [],
+    selectedPersonaIds = [],
+    status,
+    stage,
+    progress = 0,
+    error,
+    result,
+    onTogglePersona,
+    onRun,
+    onRemove
+  } = data as unknown as PersonaComparisonNodeData;
+
+  const runs = result?.runs ?? [];
+  const divergent = result?.findings.filter(f => f.severitySpread > 0) ?? [];
+  const columns = { gridTemplateColumns: `repeat(${Math.max(runs.length, 1)}, minmax(0, 1fr))` };
+
+  return (
+    <Card className="w-[720px] bg-background shadow-lg border-2">
+      <Handle type="target" position={Position.Left} />
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
+        <div className="min-w-0">
+          <CardTitle className="text-sm font-semibold flex items-center gap-2">
+            <UsersRound className="h-4 w-4" />
+            Persona Comparison
+          </CardTitle>
+          <p className="text-xs text-muted-foreground truncate">
+            {images.map(image => image.name).join(' → ')}
+          </p>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 w-7 p-0 nodrag"
+          onClick={() => onRemove?.(comparisonId)}
+          title="Remove persona comparison"
+        >
+          <X className="h-3 w-3" />
+        </Button>
+      </CardHeader>
+
+      <CardContent className="space-y-3">
+        <div className="flex gap-2 overflow-x-auto nowheel">
+          {images.map((image, index) => (
+            <figure key={image.id} className="w-24 shrink-0">
+              <img src={image.url} alt={image.name} className="h-16 w-24 rounded border object-cover object-top" />
+              <figcaption className="mt-0.5 truncate text-[10px] text-muted-foreground">Screen {index + 1}</figcaption>
+            </figure>
+          ))}
+        </div>
+
+        {status !== 'running' && (
+          <div className="space-y-2 nodrag">
+            {personas.length === 0 ? (
+              <p className="text-xs text-muted-foreground">
+                This project has no personas yet. Add them from the project menu under End-user personas.
+              </p>
+            ) : (
+              <div className="flex flex-wrap gap-x-4 gap-y-2">
+                {personas.map(persona => (
+                  <div key={persona.id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`${comparisonId}-${persona.id}`}
+                      checked={selectedPersonaIds.includes(persona.id)}
+                      onCheckedChange={() => onTogglePersona?.(comparisonId, persona.id)}
+                    />
+                    <Label htmlFor={`${comparisonId}-${persona.id}`} className="text-xs font-normal">{persona.name}</Label>
+                  </div>
+                ))}
+              </div>
+            )}
+            <Button
+              size="sm"
+              variant={result ? 'outline' : 'default'}
+              className="w-full gap-2"
+              disabled={selectedPersonaIds.length === 0}
+              onClick={() => onRun?.(comparisonId)}
+            >
+              <Play className="h-3 w-3" />
+              {result ? 'Re-run personas' : status === 'error' ? 'Retry persona analysis' : `Analyze as ${selectedPersonaIds.length} persona${selectedPersonaIds.length !== 1 ? 's' : ''}`}
+            </Button>
+          </div>
+        )}
+
+        {status === 'running' && (
+          <div className="space-y-1">
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <Loader2 className="h-3 w-3 animate-spin" />
+              Analyzing through each persona{stage ? ` (${stage})` : ''}...
+            </div>
+            <Progress value={progress} className="h-1" />
+          </div>
+        )}
+
+        {status === 'error' && (
+          <p className="text-xs text-destructive">{error || 'Persona analysis failed'}</p>
+        )}
+
+        {result && status !== 'running' && (
+          <Tabs defaultValue="side-by-side" className="nodrag">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="side-by-side" className="text-xs">Side by side</TabsTrigger>
+              <TabsTrigger value="divergence" className="text-xs">Where personas diverge ({divergent.length})</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="side-by-side">
+              {result.failedPersonas.length > 0 && (
+                <p className="pb-2 text-xs text-destructive">Failed for {result.failedPersonas.join(', ')}.</p>
+              )}
+              <div className="grid gap-2" style={columns}>
+                {runs.map(run => {
+                  const counts = (['high', 'medium', 'low'] as PersonaSeverity[])
+                    .map(severity => ({ severity, count: run.findings.filter(f => f.severity === severity).length }));
+                  return (
+                    <div key={run.personaId} className="min-w-0 rounded-md border p-2 text-xs space-y-2">
+                      <div className="font-medium truncate" title={run.personaName}>{run.personaName}</div>
+                      <div className="flex items-baseline gap-3">
+                        <span>
+                          Friction <span className={`text-base font-semibold ${frictionTone(run.frictionScore)}`}>{run.frictionScore}</span>
+                        </span>
+                        {typeof run.taskSuccess === 'number' && (
+                          <span className="text-muted-foreground">Task success {run.taskSuccess}%</span>
+                        )}
+                      </div>
+                      <div className="flex gap-1">
+                        {counts.map(({ severity, count }) => (
+                          <Badge key={severity} variant="outline" className={`text-[10px] ${severityStyles[severity]}`}>
+                            {count} {severity}
+                          </Badge>
+                        ))}
+                      </div>
+                      <ul className="max-h-60 overflow-y-auto space-y-1.5 nowheel">
+                        {run.findings.map(finding => (
+                          <li key={finding.id} className="space-y-0.5">
+                            <div className="flex items-start gap-1">
+                              <span className={`mt-1 h-2 w-2 shrink-0 rounded-full ${finding.severity === 'high' ? 'bg-red-500' : finding.severity === 'medium' ? 'bg-amber-500' : 'bg-slate-400'}`} />
+                              <span className="font-medium">{finding.title}</span>
+                            </div>
+                            <p className="pl-3 text-muted-foreground">{finding.description}</p>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  );
+                })}
+              </div>
+            </TabsContent>
+
+            <TabsContent value="divergence">
+              <div className="max-h-96 overflow-auto nowheel">
+                {divergent.length === 0 ? (
+                  <p className="py-2 text-xs text-muted-foreground">Every persona rated the issues the same way.</p>
+                ) : (
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="border-b text-muted-foreground">
+                        <th className="py-1.5 pr-2 text-left font-medium">Issue</th>
+                        {runs.map(run => (
+                          <th key={run.personaId} className="px-2 py-1.5 text-center font-medium">{run.personaName}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {divergent.map(finding => (
+                        <tr key={finding.id} className="border-b align-top">
+                          <td className="py-1.5 pr-2">
+                            <div className="font-medium">{finding.title}</div>
+                            {finding.screen !== null && <div className="text-muted-foreground">Screen {finding.screen}</div>}
+                          </td>
+                          {runs.map(run => {
+                            const severity = finding.severities[run.personaId];
+                            const friction = finding.friction[run.personaId];
+                            return (
+                              <td key={run.personaId} className="px-2 py-1.5 text-center">
+                                {severity ? (
+                                  <>
+                                    <Badge variant="outline" className={`text-[10px] ${severityStyles[severity]}`}>{severity}</Badge>
+                                    {friction !== null && <div className="mt-0.5 text-muted-foreground">friction {friction}</div>}
+                                  </>
+                                ) : (
+                                  <span className="text-muted-foreground">not affected</span>
+                                )}
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            </TabsContent>
+          </Tabs>
+        )}
+      </CardContent>
+      <Handle type="source" position={Position.Right} />
+    </Card>
+  );
+};
@@ -0,0 +1,276 @@
+import React, { useState } from 'react';
+import { Handle, Position, NodeProps } from '@xyflow/react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Slider } from '@/components/ui/slider';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  ArrowLeftRight,
+  CheckCircle2,
+  Layers,
+  Loader2,
+  MinusCircle,
+  Play,
+  SplitSquareHorizontal,
+  X,
+  XCircle
+} from 'lucide-react';
+import type { AnnotationPoint, ScreenComparisonResult, UploadedImage } from '@/types/ux-analysis';
+
+export interface ScreenComparisonNodeData {
+  comparisonId: string;
+  beforeImage: UploadedImage;
+  afterImage: UploadedImage;
+  beforeAnnotations: AnnotationPoint[];
+  afterAnnotations: AnnotationPoint[];
+  status: 'idle' | 'running' | 'completed' | 'error';
+  stage?: string;
+  progress?: number;
+  error?: string;
+  result?: ScreenComparisonResult;
+  onRun?: (comparisonId: string) => void;
+  onSwap?: (comparisonId: string) => void;
+  onRemove?: (comparisonId: string) => void;
+}
+
+type OverlayMode = 'slider' | 'onion';
+
+const verdictStyles: Record<string, string> = {
+  improved: 'bg-green-100 text-green-800 border-green-200',
+  regressed: 'bg-red-100 text-red-800 border-red-200',
+  mixed: 'bg-amber-100 text-amber-800 border-amber-200',
+  unchanged: 'bg-muted text-muted-foreground',
+  neutral: 'bg-muted text-muted-foreground'
+};
+
+const toPercent = (value: number) => `${(value > 1 ? value : value * 100).toFixed(2)}%`;
+
+const Marker: React.FC<{ x: number; y: number; className: string; title: string; label?: string }> = ({
+  x, y, className, title, label
+}) => (
+  <div
+    title={title}
+    className={`absolute flex h-4 w-4 -translate-x-1/2 -translate-y-1/2 items-center justify-center rounded-full border-2 border-white text-[9px] font-bold text-white shadow ${className}`}
+    style={{ left: toPercent(x), top: toPercent(y) }}
+  >
+    {label}
+  </div>
+);
+
+export const ScreenComparisonNode: React.FC<NodeProps> = ({ data }) => {
+  const {
+    comparisonId,
+    beforeImage,
+    afterImage,
+    beforeAnnotations = [],
+    afterAnnotations = [],
+    status,
+    stage,
+    progress = 0,
+    error,
+    result,
+    onRun,
+    onSwap,
+    onRemove
+  } = data as unknown as ScreenComparisonNodeData;
+
+  const [mode, setMode] = useState<OverlayMode>('slider');
+  const [position, setPosition] = useState(50);
+  const [showBeforeMarkers, setShowBeforeMarkers] = useState(true);
+  const [showAfterMarkers, setShowAfterMarkers] = useState(true);
+
+  // Slider: the before build is revealed left of the divider. Onion skin: before fades over after.
+  const beforeLayerStyle: React.CSSProperties = mode === 'slider'
+    ? { clipPath: `inset(0 ${100 - position}% 0 0)` }
+    : { opacity: 1 - position / 100 };
+
+  return (
+    <Card className="w-[560px] bg-background shadow-lg border-2">
+      <Handle type="target" position={Position.Left} />
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
+        <div className="min-w-0">
+          <CardTitle className="text-sm font-semibold flex items-center gap-2">
+            <SplitSquareHorizontal className="h-4 w-4" />
+            Before / After
+          </CardTitle>
+          <p className="text-xs text-muted-foreground truncate">
+            {beforeImage.name} → {afterImage.name}
+          </p>
+        </div>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 w-7 p-0 nodrag"
+            onClick={() => onSwap?.(comparisonId)}
+            disabled={status === 'running'}
+            title="Swap before and after"
+          >
+            <ArrowLeftRight className="h-3 w-3" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 w-7 p-0 nodrag"
+            onClick={() => onRemove?.(comparisonId)}
+            title="Remove comparison"
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-3">
+        <div className="relative w-full overflow-hidden rounded-md border bg-muted select-none">
+          <img src={afterImage.url} alt={afterImage.name} className="block w-full h-auto" draggable={false} />
+          <img
+            src={beforeImage.url}
+            alt={beforeImage.name}
+            className="absolute inset-0 h-full w-full object-contain"
+            style={beforeLayerStyle}
+            draggable={false}
+          />
+          {mode === 'slider' && (
+            <div
+              className="absolute inset-y-0 w-0.5 bg-primary pointer-events-none"
+              style={{ left: `${position}%` }}
+            />
+          )}
+
+          {showBeforeMarkers && beforeAnnotations.map(a => (
+            <Marker key={`before-${a.id}`} x={a.x} y={a.y} title={`Before: ${a.title}`} className="bg-blue-500" />
+          ))}
+          {showAfterMarkers && afterAnnotations.map(a => (
+            <Marker key={`after-${a.id}`} x={a.x} y={a.y} title={`After: ${a.title}`} className="bg-purple-500" />
+          ))}
+          {result?.changes.map((change, i) => {
+            const point = change.after || change.before;
+            if (!point) return null;
+            const tone = change.verdict === 'improved' ? 'bg-green-600' : change.verdict === 'regressed' ? 'bg-red-600' : 'bg-slate-500';
+            return (
+              <Marker
+                key={`change-${change.id}`}
+                x={point.x}
+                y={point.y}
+                label={String(i + 1)}
+                title={`${change.area}: ${change.description}`}
+                className={tone}
+              />
+            );
+          })}
+
+          <div className="absolute left-2 top-2 flex gap-1 pointer-events-none">
+            <Badge variant="secondary" className="text-[10px]">Before</Badge>
+          </div>
+          <div className="absolute right-2 top-2 flex gap-1 pointer-events-none">
+            <Badge variant="secondary" className="text-[10px]">After</Badge>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-3 nodrag">
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={mode}
+            onValueChange={(value) => value && setMode(value as OverlayMode)}
+          >
+            <ToggleGroupItem value="slider" title="Slider">
+              <SplitSquareHorizontal className="h-3 w-3" />
+            </ToggleGroupItem>
+            <ToggleGroupItem value="onion" title="Onion skin">
+              <Layers className="h-3 w-3" />
+            </ToggleGroupItem>
+          </ToggleGroup>
+          <Slider
+            className="flex-1"
+            value={[position]}
+            min={0}
+            max={100}
+            step={1}
+            onValueChange={([value]) => setPosition(value)}
+          />
+        </div>
+
+        <div className="flex items-center gap-2 text-xs nodrag">
+          <Button
+            size="sm"
+            variant={showBeforeMarkers ? 'secondary' : 'ghost'}
+            className="h-6 px-2 text-xs"
+            onClick={() => setShowBeforeMarkers(v => !v)}
+          >
+            <span className="mr-1 h-2 w-2 rounded-full bg-blue-500" /> Before ({beforeAnnotations.length})
+          </Button>
+          <Button
+            size="sm"
+            variant={showAfterMarkers ? 'secondary' : 'ghost'}
+            className="h-6 px-2 text-xs"
+            onClick={() => setShowAfterMarkers(v => !v)}
+          >
+            <span className="mr-1 h-2 w-2 rounded-full bg-purple-500" /> After ({afterAnnotations.length})
+          </Button>
+        </div>
+
+        {status === 'running' && (
+          <div className="space-y-1">
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <Loader2 className="h-3 w-3 animate-spin" />
+              Comparing builds{stage ? ` (${stage})` : ''}...
+            </div>
+            <Progress value={progress} className="h-1" />
+          </div>
+        )}
+
+        {status === 'error' && (
+          <p className="text-xs text-destructive">{error || 'Comparison failed'}</p>
+        )}
+
+        {status !== 'running' && !result && (
+          <Button size="sm" className="w-full gap-2 nodrag" onClick={() => onRun?.(comparisonId)}>
+            <Play className="h-3 w-3" />
+            {status === 'error' ? 'Retry comparison' : 'Run comparative analysis'}
+          </Button>
+        )}
+
+        {result && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Badge variant="outline" className={`capitalize ${verdictStyles[result.verdict]}`}>
+                {result.verdict}
+              </Badge>
+              {typeof result.overallScore === 'number' && (
+                <span className="text-xs text-muted-foreground">After score: {result.overallScore}</span>
+              )}
+            </div>
+            <div className="max-h-56 overflow-y-auto space-y-2 nowheel">
+              {result.changes.length === 0 && (
+                <p className="text-xs text-muted-foreground">No meaningful UX changes detected.</p>
+              )}
+              {result.changes.map((change, i) => {
+                const Icon = change.verdict === 'improved' ? CheckCircle2 : change.verdict === 'regressed' ? XCircle : MinusCircle;
+                const tone = change.verdict === 'improved' ? 'text-green-600' : change.verdict === 'regressed' ? 'text-red-600' : 'text-muted-foreground';
+                return (
+                  <div key={change.id} className="rounded-md border p-2 text-xs space-y-1">
+                    <div className="flex items-center gap-2">
+                      <Icon className={`h-3 w-3 flex-shrink-0 ${tone}`} />
+                      <span className="font-medium">{i + 1}. {change.area}</span>
+                      <Badge variant="outline" className="ml-auto text-[10px]">{change.severity}</Badge>
+                    </div>
+                    <p>{change.description}</p>
+                    {change.rationale && <p className="text-muted-foreground">{change.rationale}</p>}
+                  </div>
+                );
+              })}
+            </div>
+            <Button size="sm" variant="outline" className="w-full gap-2 nodrag" onClick={() => onRun?.(comparisonId)}>
+              <Play className="h-3 w-3" />
+              Re-run comparison
+            </Button>
+          </div>
+        )}
+      </CardContent>
+      <Handle type="source" position={Position.Right} />
+    </Card>
+  );
+};
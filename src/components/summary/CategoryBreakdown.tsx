@@ -2,6 +2,7 @@ import React from 'react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
 import { UXAnalysis } from '@/types/ux-analysis';
 import { DashboardMetrics } from '@/services/DashboardService';
+import { DEFAULT_CRITERIA, RubricService, type CriterionAverage } from '@/services/RubricService';
 
 interface CategoryBreakdownProps {
   analyses: UXAnalysis[];
@@ -30,53 +31,34 @@ export const CategoryBreakdown: React.FC<CategoryBreakdownProps> = ({ analyses,
     );
   }
 
-  // Calculate category data using analyses when available, otherwise fall back to aggregated metrics
-  const categoryData = [
-    {
-      name: 'Usability',
-      score: hasAnalyses
-        ? Math.round(
-            analyses.reduce((sum, analysis) => sum + (analysis.summary?.categoryScores?.usability || 0), 0) / analyses.length
-          )
-        : Math.round(metrics?.categoryScores?.usability || 0),
-      issues: hasAnalyses
-        ? analyses.reduce((sum, analysis) => sum + (analysis.suggestions?.filter(s => s.category === 'usability').length || 0), 0)
-        : undefined
-    },
-    {
-      name: 'Accessibility',
-      score: hasAnalyses
-        ? Math.round(
-            analyses.reduce((sum, analysis) => sum + (analysis.summary?.categoryScores?.accessibility || 0), 0) / analyses.length
-          )
-        : Math.round(metrics?.categoryScores?.accessibility || 0),
-      issues: hasAnalyses
-        ? analyses.reduce((sum, analysis) => sum + (analysis.suggestions?.filter(s => s.category === 'accessibility').length || 0), 0)
-        : undefined
-    },
-    {
-      name: 'Visual',
-      score: hasAnalyses
-        ? Math.round(
-            analyses.reduce((sum, analysis) => sum + (analysis.summary?.categoryScores?.visual || 0), 0) / analyses.length
-          )
-        : Math.round(metrics?.categoryScores?.visual || 0),
-      issues: hasAnalyses
-        ? analyses.reduce((sum, analysis) => sum + (analysis.suggestions?.filter(s => s.category === 'visual').length || 0), 0)
-        : undefined
-    },
-    {
-      name: 'Content',
-      score: hasAnalyses
-        ? Math.round(
-            analyses.reduce((sum, analysis) => sum + (analysis.summary?.categoryScores?.content || 0), 0) / analyses.length
-          )
-        : Math.round(metrics?.categoryScores?.content || 0),
-      issues: hasAnalyses
-        ? analyses.reduce((sum, analysis) => sum + (analysis.suggestions?.filter(s => s.category === 'content').length || 0), 0)
-        : undefined
-    }
-  ];
+  // Per-criterion averages from analyses when available, otherwise from aggregated metrics. Analyses
+  // scored against a project rubric report its criteria; older ones report the four built-in categories.
+  const summaries = hasAnalyses ? analyses.map(analysis => analysis.summary) : [];
+  const builtInIds = new Set(DEFAULT_CRITERIA.map(criterion => criterion.id));
+  const averages: CriterionAverage[] = hasAnalyses
+    ? RubricService.averageCriterionScores(summaries)
+    : metrics?.criterionScores?.length
+      ? metrics.criterionScores
+      : DEFAULT_CRITERIA.map(criterion => ({
+          criterionId: criterion.id,
+          name: criterion.name,
+          weight: criterion.weight,
+          score: Math.round(metrics?.categoryScores?.[criterion.id as keyof DashboardMetrics['categoryScores']] || 0),
+          count: 0,
+          failCount: 0
+        }));
+  const rubricName = hasAnalyses ? RubricService.getRubricName(summaries) : metrics?.rubricName;
+
+  const categoryData = averages.map(average => ({
+    name: average.name,
+    score: average.score,
+    // Suggestions are categorized by built-in category; rubric criteria count failed verdicts instead
+    issues: !hasAnalyses
+      ? undefined
+      : builtInIds.has(average.criterionId)
+        ? analyses.reduce((sum, analysis) => sum + (analysis.suggestions?.filter(s => s.category === average.criterionId).length || 0), 0)
+        : average.failCount
+  }));
 
   const getBarColor = (score: number) => {
     if (score >= 80) return 'hsl(var(--annotation-success))';
@@ -90,7 +72,7 @@ export const CategoryBreakdown: React.FC<CategoryBreakdownProps> = ({ analyses,
         <div>
           <h3 className="text-lg font-semibold">Category Breakdown</h3>
           <p className="text-sm text-muted-foreground">
-            Average scores across all designs
+            {rubricName ? `Average ${rubricName} scores across all designs` : 'Average scores across all designs'}
           </p>
         </div>
 
@@ -102,6 +84,8 @@ export const CategoryBreakdown: React.FC<CategoryBreakdownProps> = ({ analyses,
                 dataKey="name" 
                 className="text-xs"
                 tick={{ fontSize: 12 }}
+                interval={0}
+                tickFormatter={(name: string) => categoryData.length > 4 && name.length > 12 ? `${name.slice(0, 11)}…` : name}
               />
               <YAxis 
                 domain={[0, 100]}
@@ -139,7 +123,7 @@ export const CategoryBreakdown: React.FC<CategoryBreakdownProps> = ({ analyses,
         <div className="grid grid-cols-2 gap-4 pt-4 border-t border-border">
           {categoryData.map((category, index) => (
             <div key={index} className="flex justify-between items-center">
-              <span className="text-sm font-medium">{category.name}</span>
+              <span className="text-sm font-medium truncate" title={category.name}>{category.name}</span>
               <div className="flex items-center gap-2">
                 <span className="text-sm font-semibold">{category.score}/100</span>
                 {typeof category.issues === 'number' && (
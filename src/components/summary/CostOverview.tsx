@@ -0,0 +1,275 @@
+/**
+ * Cost Overview
+ * Model spend for the current budget month from model_usage, broken down by model and project,
+ * with each project's monthly budget. Workspace owners can set soft and hard caps here.
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Skeleton } from '@/components/ui/skeleton';
+import { DollarSign, Loader2, Pencil, RefreshCw } from 'lucide-react';
+import { useWorkspace } from '@/context/WorkspaceContext';
+import {
+  CostTrackingService,
+  formatUsd,
+  type ProjectBudgetStatus,
+  type UsageSummary
+} from '@/services/CostTrackingService';
+import { toast } from '@/hooks/use-toast';
+
+interface CostOverviewProps {
+  // Projects to show budgets for even when they have no spend yet
+  projects: Array<{ id: string; name: string }>;
+}
+
+interface ProjectCostRow {
+  projectId: string;
+  projectName: string;
+  costUsd: number;
+  budget: ProjectBudgetStatus | null;
+}
+
+const parseCap = (value: string): number | null => {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const parsed = Number(trimmed);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : NaN;
+};
+
+const BudgetEditor: React.FC<{
+  projectId: string;
+  budget: ProjectBudgetStatus | null;
+  onSaved: () => void;
+  onCancel: () => void;
+}> = ({ projectId, budget, onSaved, onCancel }) => {
+  const [softCap, setSoftCap] = useState(budget?.softCapUsd != null ? String(budget.softCapUsd) : '');
+  const [hardCap, setHardCap] = useState(budget?.hardCapUsd != null ? String(budget.hardCapUsd) : '');
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    const softCapUsd = parseCap(softCap);
+    const hardCapUsd = parseCap(hardCap);
+    if (Number.isNaN(softCapUsd) || Number.isNaN(hardCapUsd)) {
+      toast({ title: 'Invalid budget', description: 'Caps must be positive amounts in USD', variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await CostTrackingService.setProjectBudget(projectId, { softCapUsd, hardCapUsd });
+      toast({ title: 'Budget saved' });
+      onSaved();
+    } catch (error) {
+      toast({
+        title: 'Failed to save budget',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-3 grid grid-cols-1 gap-3 sm:grid-cols-[1fr_1fr_auto] sm:items-end">
+      <div className="space-y-1">
+        <Label htmlFor={`soft-cap-${projectId}`} className="text-xs">Soft cap (warn), USD / month</Label>
+        <Input id={`soft-cap-${projectId}`} inputMode="decimal" placeholder="None" value={softCap} onChange={e => setSoftCap(e.target.value)} />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor={`hard-cap-${projectId}`} className="text-xs">Hard cap (block), USD / month</Label>
+        <Input id={`hard-cap-${projectId}`} inputMode="decimal" placeholder="None" value={hardCap} onChange={e => setHardCap(e.target.value)} />
+      </div>
+      <div className="flex gap-2">
+        <Button size="sm" onClick={handleSave} disabled={saving}>
+          {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save
+        </Button>
+        <Button size="sm" variant="ghost" onClick={onCancel} disabled={saving}>Cancel</Button>
+      </div>
+    </div>
+  );
+};
+
+export const CostOverview: React.FC<CostOverviewProps> = ({ projects }) => {
+  const { can } = useWorkspace();
+  const [summary, setSummary] = useState<UsageSummary | null>(null);
+  const [projectRows, setProjectRows] = useState<ProjectCostRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editingProjectId, setEditingProjectId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const usage = await CostTrackingService.getUsageSummary();
+      const names = new Map<string, string>(projects.map(p => [p.id, p.name]));
+      const spend = new Map<string, number>();
+      for (const entry of usage.byProject) {
+        if (!entry.projectId) continue;
+        names.set(entry.projectId, entry.projectName);
+        spend.set(entry.projectId, entry.costUsd);
+      }
+
+      const rows = await Promise.all([...names.entries()].map(async ([projectId, projectName]) => ({
+        projectId,
+        projectName,
+        costUsd: spend.get(projectId) ?? 0,
+        budget: await CostTrackingService.getProjectBudgetStatus(projectId).catch(() => null)
+      })));
+
+      setSummary(usage);
+      setProjectRows(rows.sort((a, b) => b.costUsd - a.costUsd));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load costs');
+    } finally {
+      setLoading(false);
+    }
+  }, [projects]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const month = new Date().toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <DollarSign className="h-5 w-5" />
+            AI Costs
+          </CardTitle>
+          <CardDescription>Model spend in {month} and monthly project budgets</CardDescription>
+        </div>
+        <Button variant="ghost" size="icon" onClick={load} disabled={loading} aria-label="Refresh costs">
+          <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {loading && !summary ? (
+          <div className="space-y-3">
+            <Skeleton className="h-16" />
+            <Skeleton className="h-32" />
+          </div>
+        ) : summary && (
+          <>
+            <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+              <div>
+                <div className="text-2xl font-bold">{formatUsd(summary.costUsd)}</div>
+                <p className="text-xs text-muted-foreground">Spent this month</p>
+              </div>
+              <div>
+                <div className="text-2xl font-bold">{summary.calls}</div>
+                <p className="text-xs text-muted-foreground">Model calls</p>
+              </div>
+              <div>
+                <div className="text-2xl font-bold">{summary.inputTokens.toLocaleString()}</div>
+                <p className="text-xs text-muted-foreground">Input tokens</p>
+              </div>
+              <div>
+                <div className="text-2xl font-bold">{summary.outputTokens.toLocaleString()}</div>
+                <p className="text-xs text-muted-foreground">Output tokens</p>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">By model</h4>
+              {summary.byModel.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No model calls recorded this month</p>
+              ) : (
+                <div className="divide-y rounded-md border">
+                  {summary.byModel.map(stats => (
+                    <div key={stats.model} className="flex items-center justify-between gap-4 px-3 py-2 text-sm">
+                      <div className="min-w-0">
+                        <div className="truncate font-medium">{stats.model}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {stats.provider} • {stats.calls} calls • {(stats.inputTokens + stats.outputTokens).toLocaleString()} tokens
+                          {stats.avgLatencyMs != null && ` • ${(stats.avgLatencyMs / 1000).toFixed(1)}s avg`}
+                        </div>
+                      </div>
+                      <div className="text-right">
+                        <div className="font-medium">{formatUsd(stats.costUsd)}</div>
+                        <div className="text-xs text-muted-foreground">{formatUsd(stats.avgCostUsd)} / call</div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">By project</h4>
+              {projectRows.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No projects yet</p>
+              ) : (
+                <div className="space-y-3">
+                  {projectRows.map(row => {
+                    const cap = row.budget?.hardCapUsd ?? row.budget?.softCapUsd ?? null;
+                    return (
+                      <div key={row.projectId} className="rounded-md border p-3">
+                        <div className="flex items-center justify-between gap-2 text-sm">
+                          <span className="truncate font-medium">{row.projectName}</span>
+                          <div className="flex items-center gap-2">
+                            {row.budget?.hardCapReached ? (
+                              <Badge variant="destructive">Budget reached</Badge>
+                            ) : row.budget?.softCapReached ? (
+                              <Badge variant="outline" className="border-amber-500 text-amber-600">Over soft cap</Badge>
+                            ) : null}
+                            <span>
+                              {formatUsd(row.costUsd)}
+                              {cap != null && <span className="text-muted-foreground"> / {formatUsd(cap)}</span>}
+                            </span>
+                            {can('owner') && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-7 w-7"
+                                onClick={() => setEditingProjectId(id => id === row.projectId ? null : row.projectId)}
+                                aria-label="Edit budget"
+                              >
+                                <Pencil className="h-3.5 w-3.5" />
+                              </Button>
+                            )}
+                          </div>
+                        </div>
+                        {cap != null && cap > 0 && (
+                          <Progress value={Math.min(100, (row.costUsd / cap) * 100)} className="mt-2 h-2" />
+                        )}
+                        {row.budget?.softCapUsd != null && row.budget.hardCapUsd != null && (
+                          <p className="mt-1 text-xs text-muted-foreground">
+                            Warns at {formatUsd(row.budget.softCapUsd)}, blocks new analyses at {formatUsd(row.budget.hardCapUsd)}
+                          </p>
+                        )}
+                        {editingProjectId === row.projectId && (
+                          <BudgetEditor
+                            projectId={row.projectId}
+                            budget={row.budget}
+                            onCancel={() => setEditingProjectId(null)}
+                            onSaved={() => {
+                              setEditingProjectId(null);
+                              load();
+                            }}
+                          />
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -2,6 +2,7 @@ import React from 'react';
 import { TrendingUp, TrendingDown, AlertTriangle, CheckCircle, Target, Zap, Minus } from 'lucide-react';
 import { UXAnalysis } from '@/types/ux-analysis';
 import { DashboardMetrics, MetricTrend } from '@/services/DashboardService';
+import { RubricService } from '@/services/RubricService';
 
 interface MetricsOverviewProps {
   analyses: UXAnalysis[];
@@ -46,8 +47,8 @@ const renderTrendIcon = (trend: MetricTrend) => {
 };
 
 export const MetricsOverview: React.FC<MetricsOverviewProps> = ({ analyses, metrics: dashboardMetrics }) => {
-  // Early return with safe defaults if no analyses
-  if (!analyses || analyses.length === 0) {
+  // Early return with safe defaults if there is neither local nor database data
+  if ((!analyses || analyses.length === 0) && !dashboardMetrics) {
     const metricsData = [
       {
         title: 'Overall UX Score',
@@ -67,12 +68,12 @@ export const MetricsOverview: React.FC<MetricsOverviewProps> = ({ analyses, metr
         description: 'Issues will appear after analysis'
       },
       {
-        title: 'High Impact Items',
+        title: 'Open High-Severity Issues',
         value: 0,
         icon: Zap,
         trend: null,
         trendValue: 'No data',
-        description: 'Critical improvements to prioritize'
+        description: 'Critical issues not yet fixed or dismissed'
       },
       {
         title: 'Accessibility Score',
@@ -132,16 +133,24 @@ export const MetricsOverview: React.FC<MetricsOverviewProps> = ({ analyses, metr
   const totalIssues = dashboardMetrics?.totalIssues || 
     analyses.reduce((sum, analysis) => sum + (analysis.summary?.keyIssues?.length || 0), 0);
   
-  const accessibilityScore = dashboardMetrics?.categoryScores?.accessibility || (
-    analyses.length > 0 ? Math.round(
-      analyses.reduce((sum, analysis) => sum + (analysis.summary?.categoryScores?.accessibility || 0), 0) / analyses.length
-    ) : 0
-  );
-  
-  const highImpactSuggestions = dashboardMetrics?.issueDistribution?.high || 
-    analyses.reduce((sum, analysis) => 
-      sum + (analysis.suggestions?.filter(s => s.impact === 'high').length || 0), 0
+  // Projects scored against a rubric without an accessibility criterion surface their weakest criterion instead
+  const criterionAverages = dashboardMetrics?.criterionScores?.length
+    ? dashboardMetrics.criterionScores
+    : RubricService.averageCriterionScores(analyses.map(analysis => analysis.summary));
+  const accessibilityCriterion = criterionAverages.find(c => c.criterionId === 'accessibility' || c.name.toLowerCase() === 'accessibility');
+  const weakestCriterion = accessibilityCriterion || criterionAverages.length === 0
+    ? null
+    : criterionAverages.reduce((weakest, c) => c.score < weakest.score ? c : weakest);
+
+  const accessibilityScore = accessibilityCriterion?.score ?? dashboardMetrics?.categoryScores?.accessibility ?? 0;
+
+  // Reviewed status when available: high-severity issues nobody has fixed or dismissed yet
+  const reviewStatus = dashboardMetrics?.reviewStatus;
+  const openHighSeverityIssues = reviewStatus?.openHighSeverity ??
+    analyses.reduce((sum, analysis) =>
+      sum + (analysis.visualAnnotations?.filter(a => a.type === 'issue' && a.severity === 'high').length || 0), 0
     );
+  const resolvedFindings = reviewStatus ? reviewStatus.fixed + reviewStatus.wontFix : 0;
 
   // Get trend data
   const trends = dashboardMetrics?.trends;
@@ -166,14 +175,24 @@ export const MetricsOverview: React.FC<MetricsOverviewProps> = ({ analyses, metr
       description: trends?.totalIssues ? getTrendDescription(trends.totalIssues, 'Issues') : 'Identified design and usability issues'
     },
     {
-      title: 'High Impact Items',
-      value: highImpactSuggestions,
+      title: 'Open High-Severity Issues',
+      value: openHighSeverityIssues,
       icon: Zap,
       trend: null, // No specific trend for this metric yet
-      trendValue: analysisQuality ? `${Math.round(analysisQuality.successRate)}% success` : 'No data',
-      description: analysisQuality ? `Analysis quality: ${Math.round(analysisQuality.averageConfidence * 100)}% avg confidence` : 'Critical improvements to prioritize'
+      trendValue: reviewStatus ? `${resolvedFindings} resolved` : 'No data',
+      description: reviewStatus
+        ? `${reviewStatus.accepted} accepted, ${reviewStatus.fixed} fixed, ${reviewStatus.wontFix} won't fix`
+        : 'Critical issues not yet fixed or dismissed'
     },
-    {
+    weakestCriterion ? {
+      title: `Weakest: ${weakestCriterion.name}`,
+      value: weakestCriterion.score,
+      suffix: '/100',
+      icon: CheckCircle,
+      trend: null,
+      trendValue: weakestCriterion.failCount > 0 ? `${weakestCriterion.failCount} failed` : 'No failures',
+      description: dashboardMetrics?.rubricName ? `Lowest scoring criterion of ${dashboardMetrics.rubricName}` : 'Lowest scoring criterion'
+    } : {
       title: 'Accessibility Score',
       value: accessibilityScore,
       suffix: '/100',
@@ -82,6 +82,8 @@ export const SummaryDashboard: React.FC<SummaryDashboardProps> = ({
     totalIssues: 0,
     totalSuggestions: 0,
     categoryScores: { usability: 0, accessibility: 0, visual: 0, content: 0 },
+    criterionScores: [],
+    rubricName: null,
     issueDistribution: { high: 0, medium: 0, low: 0 },
     recentActivity: [],
     topIssues: [],
@@ -96,7 +98,8 @@ export const SummaryDashboard: React.FC<SummaryDashboardProps> = ({
       successRate: 100,
       averageConfidence: 0,
       failureReasons: []
-    }
+    },
+    reviewStatus: { open: 0, accepted: 0, wontFix: 0, fixed: 0, openHighSeverity: 0 }
   };
 
   return (
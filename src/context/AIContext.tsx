@@ -5,6 +5,7 @@ import type { AnalysisProgress } from '@/services/EnhancedAnalysisPipeline';
 import { AnalysisContext } from '@/types/contextTypes';
 import { startUxAnalysis } from '@/services/StartUxAnalysis';
 import { fetchLatestAnalysis } from '@/services/fetchLatestAnalysis';
+import { ContrastAnalysisService } from '@/services/ContrastAnalysisService';
 
 interface AIContextType {
   selectedAIModel: 'auto' | 'claude-opus-4-20250514' | 'stability-ai' | 'gpt-4o';
@@ -66,6 +67,16 @@ export const AIProvider: React.FC<{ children: React.ReactNode }> = ({ children }
     }
   }, []);
 
+  // Merge the pixel-measured contrast check into the result; the AI analysis stands on its own if it fails
+  const withContrastCheck = useCallback(async (analysis: Awaited<ReturnType<typeof fetchLatestAnalysis>>, imageUrl: string) => {
+    try {
+      return await ContrastAnalysisService.applyToAnalysis(analysis, imageUrl);
+    } catch (error) {
+      console.warn('[AIContext] Contrast check skipped:', error);
+      return analysis;
+    }
+  }, []);
+
   const analyzeImageWithAI = useCallback(async (
     imageId: string, 
     imageUrl: string, 
@@ -86,12 +97,15 @@ export const AIProvider: React.FC<{ children: React.ReactNode }> = ({ children }
 
     try {
       const dispatchMode = (localStorage.getItem('DISPATCH_MODE') as 'inngest' | 'direct' | 'both') || 'inngest';
-      const { jobId } = await startUxAnalysis({
+      const { jobId, budgetWarning } = await startUxAnalysis({
         imageId,
         imageUrl,
         userContext: userContext || null,
         dispatchMode,
       });
+      if (budgetWarning) {
+        toast({ title: "Budget warning", description: budgetWarning });
+      }
 
       const result = await new Promise<any>((resolve, reject) => {
         let resolved = false;
@@ -100,7 +114,7 @@ export const AIProvider: React.FC<{ children: React.ReactNode }> = ({ children }
           if (!resolved) {
             if (channel) supabase.removeChannel(channel);
             try {
-              const latest = await fetchLatestAnalysis(imageId);
+              const latest = await withContrastCheck(await fetchLatestAnalysis(imageId), imageUrl);
               resolved = true;
               setAnalysisProgress(null);
               setIsAnalyzing(false);
@@ -130,7 +144,7 @@ export const AIProvider: React.FC<{ children: React.ReactNode }> = ({ children }
               resolved = true;
               clearTimeout(timeout);
               try {
-                const latest = await fetchLatestAnalysis(imageId);
+                const latest = await withContrastCheck(await fetchLatestAnalysis(imageId), imageUrl);
                 supabase.removeChannel(channel);
                 resolve(latest);
               } catch (e: any) {
@@ -142,13 +156,13 @@ export const AIProvider: React.FC<{ children: React.ReactNode }> = ({ children }
               }
             }
 
-            if (j.status === 'failed') {
+            if (j.status === 'failed' || j.status === 'cancelled') {
               resolved = true;
               clearTimeout(timeout);
               supabase.removeChannel(channel);
               setIsAnalyzing(false);
               setCurrentAnalysisParams(null);
-              reject(new Error(j.error || 'Analysis failed'));
+              reject(new Error(j.error || (j.status === 'cancelled' ? 'Analysis cancelled' : 'Analysis failed')));
             }
           })
           .subscribe();
@@ -165,7 +179,7 @@ export const AIProvider: React.FC<{ children: React.ReactNode }> = ({ children }
     } finally {
       setIsAnalyzing(false);
     }
-  }, [toast]);
+  }, [toast, withContrastCheck]);
 
   const provideClarificationAndContinue = useCallback(async (_responses: Record<string, string>) => {
     toast({
@@ -56,6 +56,22 @@ export function appStateReducer(state: AppState, action: AppAction): AppState {
         imageGroups: [...state.imageGroups, action.payload]
       };
     
+    case 'UPDATE_IMAGE':
+      return {
+        ...state,
+        uploadedImages: state.uploadedImages.map(image =>
+          image.id === action.payload.id ? { ...image, ...action.payload.updates } : image
+        )
+      };
+    
+    case 'UPDATE_GROUP':
+      return {
+        ...state,
+        imageGroups: state.imageGroups.map(group =>
+          group.id === action.payload.id ? { ...group, ...action.payload.updates } : group
+        )
+      };
+    
     case 'REMOVE_GROUP':
       return {
         ...state,
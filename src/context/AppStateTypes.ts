@@ -5,6 +5,7 @@
 
 // Import existing types to maintain compatibility
 import type { UploadedImage, UXAnalysis as LegacyUXAnalysis, ImageGroup as LegacyImageGroup, GroupAnalysisWithPrompt, GeneratedConcept as LegacyGeneratedConcept } from '@/types/ux-analysis';
+import { getImagesInGroupOrder } from '@/utils/imageUtils';
 
 // Export types for use in other modules
 export type { UploadedImage, LegacyUXAnalysis, LegacyImageGroup, GroupAnalysisWithPrompt, LegacyGeneratedConcept };
@@ -160,7 +161,7 @@ export const selectors = {
   getImagesInGroup: (state: AppState, groupId: string): UploadedImage[] => {
     const group = state.imageGroups.find(g => g.id === groupId);
     if (!group) return [];
-    return state.uploadedImages.filter(img => group.imageIds.includes(img.id));
+    return getImagesInGroupOrder(group.imageIds, state.uploadedImages);
   },
   
   getGroupAnalyses: (state: AppState, groupId: string): GroupAnalysisWithPrompt[] =>
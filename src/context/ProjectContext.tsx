@@ -133,7 +133,6 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
         .from('projects')
         .select('*')
         .eq('slug', slug)
-        .eq('user_id', user.id)
         .single();
 
       if (error) {
@@ -0,0 +1,106 @@
+/**
+ * Workspace Context
+ * Exposes the signed-in user's workspaces, the current workspace and their role in it
+ */
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import { WorkspaceService, type Workspace, type WorkspaceRole } from '@/services/WorkspaceService';
+
+interface WorkspaceContextType {
+  workspaces: Workspace[];
+  currentWorkspace: Workspace | null;
+  role: WorkspaceRole | null;
+  loading: boolean;
+  switchWorkspace: (workspaceId: string) => Promise<void>;
+  createWorkspace: (name: string) => Promise<Workspace>;
+  refreshWorkspaces: () => Promise<void>;
+  can: (minRole: WorkspaceRole) => boolean;
+}
+
+const WorkspaceContext = createContext<WorkspaceContextType | undefined>(undefined);
+
+export const useWorkspace = () => {
+  const context = useContext(WorkspaceContext);
+  if (!context) {
+    throw new Error('useWorkspace must be used within WorkspaceProvider');
+  }
+  return context;
+};
+
+export const WorkspaceProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user, loading: authLoading } = useAuth();
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [currentWorkspaceId, setCurrentWorkspaceId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const refreshWorkspaces = useCallback(async () => {
+    if (authLoading) return;
+
+    if (!user) {
+      WorkspaceService.resetWorkspace();
+      setWorkspaces([]);
+      setCurrentWorkspaceId(null);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      // Resolve the current workspace first so a brand new user's personal workspace exists
+      const currentId = await WorkspaceService.getCurrentWorkspaceId();
+      setCurrentWorkspaceId(currentId);
+      setWorkspaces(await WorkspaceService.getWorkspaces());
+    } catch (error) {
+      console.error('[WorkspaceProvider] Failed to load workspaces:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, authLoading]);
+
+  useEffect(() => {
+    refreshWorkspaces();
+  }, [refreshWorkspaces]);
+
+  useEffect(() => {
+    const handleWorkspaceChange = (event: CustomEvent) => {
+      setCurrentWorkspaceId(event.detail.workspaceId);
+      refreshWorkspaces();
+    };
+
+    window.addEventListener('workspaceChanged', handleWorkspaceChange as EventListener);
+    return () => {
+      window.removeEventListener('workspaceChanged', handleWorkspaceChange as EventListener);
+    };
+  }, [refreshWorkspaces]);
+
+  const switchWorkspace = useCallback(async (workspaceId: string) => {
+    await WorkspaceService.switchWorkspace(workspaceId);
+  }, []);
+
+  const createWorkspace = useCallback(async (name: string) => {
+    const workspace = await WorkspaceService.createWorkspace(name);
+    await WorkspaceService.switchWorkspace(workspace.id);
+    return workspace;
+  }, []);
+
+  const currentWorkspace = workspaces.find(w => w.id === currentWorkspaceId) || null;
+  const role = currentWorkspace?.role ?? null;
+
+  const value = useMemo<WorkspaceContextType>(() => ({
+    workspaces,
+    currentWorkspace,
+    role,
+    loading,
+    switchWorkspace,
+    createWorkspace,
+    refreshWorkspaces,
+    can: (minRole: WorkspaceRole) => WorkspaceService.hasRole(role, minRole)
+  }), [workspaces, currentWorkspace, role, loading, switchWorkspace, createWorkspace, refreshWorkspaces]);
+
+  return (
+    <WorkspaceContext.Provider value={value}>
+      {children}
+    </WorkspaceContext.Provider>
+  );
+};
@@ -0,0 +1,100 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AnalysisChatService, type AnalysisChatMessage } from '@/services/AnalysisChatService';
+import type { UXAnalysis } from '@/types/ux-analysis';
+
+export function useAnalysisChat(analysis: UXAnalysis | null) {
+  const [messages, setMessages] = useState<AnalysisChatMessage[]>([]);
+  const [streamingReply, setStreamingReply] = useState<string>('');
+  const [loading, setLoading] = useState<boolean>(false);
+  const [sending, setSending] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const analysisId = analysis?.id ?? null;
+
+  useEffect(() => {
+    setMessages([]);
+    setStreamingReply('');
+    setError(null);
+    if (!analysisId) return;
+
+    let mounted = true;
+    setLoading(true);
+    AnalysisChatService.loadThread(analysisId).then(thread => {
+      if (!mounted) return;
+      setMessages(thread);
+      setLoading(false);
+    });
+
+    return () => {
+      mounted = false;
+      abortRef.current?.abort();
+    };
+  }, [analysisId]);
+
+  const sendMessage = useCallback(async (content: string) => {
+    const text = content.trim();
+    if (!analysis || !text || sending) return;
+
+    setSending(true);
+    setError(null);
+    setStreamingReply('');
+
+    const optimistic: AnalysisChatMessage = {
+      id: `pending-${Date.now()}`,
+      analysisId: analysis.id,
+      imageId: analysis.imageId || null,
+      role: 'user',
+      content: text,
+      createdAt: new Date()
+    };
+    const history = [...messages, optimistic];
+    setMessages(history);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    try {
+      const saved = await AnalysisChatService.appendMessage(analysis, 'user', text);
+      if (saved) {
+        setMessages(prev => prev.map(m => (m.id === optimistic.id ? saved : m)));
+      }
+
+      const reply = await AnalysisChatService.streamReply(analysis, history, {
+        signal: controller.signal,
+        onDelta: delta => setStreamingReply(prev => prev + delta)
+      });
+
+      if (reply) {
+        const savedReply = await AnalysisChatService.appendMessage(analysis, 'assistant', reply);
+        setMessages(prev => [
+          ...prev,
+          savedReply ?? {
+            id: `local-${Date.now()}`,
+            analysisId: analysis.id,
+            imageId: analysis.imageId || null,
+            role: 'assistant',
+            content: reply,
+            createdAt: new Date()
+          }
+        ]);
+      }
+    } catch (err) {
+      console.error('[useAnalysisChat] send failed', err);
+      setError(err instanceof Error ? err.message : 'Failed to send message');
+    } finally {
+      setStreamingReply('');
+      setSending(false);
+      abortRef.current = null;
+    }
+  }, [analysis, messages, sending]);
+
+  const clearThread = useCallback(async () => {
+    if (!analysisId) return;
+    abortRef.current?.abort();
+    const cleared = await AnalysisChatService.clearThread(analysisId);
+    if (cleared) setMessages([]);
+  }, [analysisId]);
+
+  return { messages, streamingReply, loading, sending, error, sendMessage, clearThread };
+}
@@ -8,7 +8,7 @@ export type AnalysisJob = {
   image_url: string;
   project_id: string | null;
   user_context: string | null;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
   progress: number | null;
   current_stage: string | null;
   error?: string | null;
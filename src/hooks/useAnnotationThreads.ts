@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AnnotationThreadService, type AnalysisThreads } from '@/services/AnnotationThreadService';
+import type { WorkspaceMember } from '@/services/WorkspaceService';
+
+const EMPTY_THREADS: AnalysisThreads = { comments: [], statuses: {} };
+
+/**
+ * Comment threads and review statuses for every finding of one analysis, kept live via realtime
+ */
+export function useAnnotationThreads(analysisId: string | null | undefined) {
+  const [threads, setThreads] = useState<AnalysisThreads>(EMPTY_THREADS);
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!AnnotationThreadService.canDiscuss(analysisId)) return;
+    try {
+      setThreads(await AnnotationThreadService.getThreads(analysisId));
+    } catch (error) {
+      console.error('[useAnnotationThreads] Failed to load threads:', error);
+    }
+  }, [analysisId]);
+
+  useEffect(() => {
+    if (!AnnotationThreadService.canDiscuss(analysisId)) {
+      setThreads(EMPTY_THREADS);
+      return;
+    }
+
+    let mounted = true;
+    setLoading(true);
+    refresh().finally(() => {
+      if (mounted) setLoading(false);
+    });
+    const unsubscribe = AnnotationThreadService.subscribe(analysisId, refresh);
+
+    return () => {
+      mounted = false;
+      unsubscribe();
+    };
+  }, [analysisId, refresh]);
+
+  useEffect(() => {
+    AnnotationThreadService.getMentionCandidates()
+      .then(setMembers)
+      .catch(error => console.warn('[useAnnotationThreads] Mention candidates unavailable:', error));
+  }, []);
+
+  return { threads, members, loading, refresh };
+}
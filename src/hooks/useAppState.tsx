@@ -6,6 +6,7 @@
 import { useContext, useMemo } from 'react';
 import type { AppState, StateSelector } from '@/context/AppStateTypes';
 import { useFinalAppContext } from '@/context/FinalAppContext';
+import { getImagesInGroupOrder } from '@/utils/imageUtils';
 
 // Main hook with overloads for typed access
 export function useAppState(): AppState;
@@ -96,7 +97,7 @@ export function useGroupData(groupId: string | null) {
     const group = state.imageGroups.find(g => g.id === groupId);
     if (!group) return null;
     
-    const images = state.uploadedImages.filter(img => group.imageIds.includes(img.id));
+    const images = getImagesInGroupOrder(group.imageIds, state.uploadedImages);
     const groupAnalyses = state.groupAnalysesWithPrompts.filter(ga => ga.groupId === groupId);
     
     return { group, images, analyses: groupAnalyses };
@@ -0,0 +1,80 @@
+import { useEffect, useRef, useState } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import { useFinalAppContext } from '@/context/FinalAppContext';
+import { ProjectService } from '@/services/DataMigrationService';
+import { eventDrivenSyncService } from '@/services/EventDrivenSyncService';
+import { canvasCollaborationService, type CanvasPeer } from '@/services/CanvasCollaborationService';
+import type { ImageGroup } from '@/types/ux-analysis';
+
+/**
+ * Joins the realtime room of the current project, publishes this user's selection and
+ * applies collaborators' group edits to app state. Remote node moves are handed to onRemoteLayout
+ * so the canvas can re-apply the shared layout without recording undo history.
+ */
+export function useCanvasCollaboration(selectedNodeIds: string[], onRemoteLayout: () => void) {
+  const { user } = useAuth();
+  const { state, dispatch } = useFinalAppContext();
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [peers, setPeers] = useState<CanvasPeer[]>([]);
+
+  const onRemoteLayoutRef = useRef(onRemoteLayout);
+  onRemoteLayoutRef.current = onRemoteLayout;
+  const groupIdsRef = useRef(new Set<string>());
+  groupIdsRef.current = new Set(state.imageGroups.map(group => group.id));
+
+  useEffect(() => {
+    let mounted = true;
+    ProjectService.getCurrentProject()
+      .then(id => { if (mounted) setProjectId(id); })
+      .catch(() => { if (mounted) setProjectId(null); });
+
+    const handleProjectChange = (event: Event) => {
+      const { projectId: nextProjectId } = (event as CustomEvent<{ projectId: string }>).detail || {};
+      setProjectId(nextProjectId || null);
+    };
+    window.addEventListener('projectChanged', handleProjectChange);
+
+    return () => {
+      mounted = false;
+      window.removeEventListener('projectChanged', handleProjectChange);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!projectId || !user) return;
+    canvasCollaborationService.join(projectId, { id: user.id, email: user.email }).catch(error => {
+      console.error('[useCanvasCollaboration] Failed to join canvas room:', error);
+    });
+    return () => {
+      canvasCollaborationService.leave();
+    };
+  }, [projectId, user]);
+
+  useEffect(() => canvasCollaborationService.subscribe(() => {
+    setPeers(canvasCollaborationService.getPeers());
+  }), []);
+
+  const selectionKey = selectedNodeIds.join(',');
+  useEffect(() => {
+    canvasCollaborationService.updateSelection(selectionKey ? selectionKey.split(',') : []);
+  }, [selectionKey, projectId]);
+
+  useEffect(() => {
+    const unsubscribers = [
+      eventDrivenSyncService.addEventListener('canvas_nodes_moved', () => onRemoteLayoutRef.current()),
+      eventDrivenSyncService.addEventListener('group_created', event => {
+        const group = event.payload as ImageGroup;
+        if (event.source !== 'remote' || groupIdsRef.current.has(group.id)) return;
+        dispatch({ type: 'ADD_GROUP', payload: { ...group, createdAt: new Date(group.createdAt) } });
+      }),
+      eventDrivenSyncService.addEventListener('group_deleted', event => {
+        const { id } = event.payload as { id: string };
+        if (event.source !== 'remote' || !groupIdsRef.current.has(id)) return;
+        dispatch({ type: 'REMOVE_GROUP', payload: id });
+      })
+    ];
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [dispatch]);
+
+  return { peers, projectId };
+}
@@ -80,7 +80,7 @@ export const useDashboardMetrics = (projectId?: string | null, aggregatedView =
     return () => { canceled = true; };
   }, [loadMetrics]);
 
-  // Listen for project changes
+  // Listen for project and workspace changes
   useEffect(() => {
     const handleProjectChange = () => {
       lastLoadKey.current = ''; // Reset to force reload
@@ -88,8 +88,10 @@ export const useDashboardMetrics = (projectId?: string | null, aggregatedView =
     };
 
     window.addEventListener('projectChanged', handleProjectChange);
+    window.addEventListener('workspaceChanged', handleProjectChange);
     return () => {
       window.removeEventListener('projectChanged', handleProjectChange);
+      window.removeEventListener('workspaceChanged', handleProjectChange);
     };
   }, [loadMetrics]);
 
@@ -29,6 +29,9 @@ interface HistoryState {
 interface UseEnhancedUndoRedoOptions {
   maxHistorySize?: number;
   debounceTime?: number;
+  // Adjusts restored nodes, e.g. to keep positions collaborators changed since the snapshot,
+  // so undo/redo only reverts this user's own edits
+  rebaseNodes?: (nodes: Node[]) => Node[];
 }
 
 export const useEnhancedUndoRedo = (
@@ -37,7 +40,7 @@ export const useEnhancedUndoRedo = (
   appState: AppState,
   options: UseEnhancedUndoRedoOptions = {}
 ) => {
-  const { maxHistorySize = 50, debounceTime = 500 } = options;
+  const { maxHistorySize = 50, debounceTime = 500, rebaseNodes } = options;
   
   const [currentIndex, setCurrentIndex] = useState(0);
   const history = useRef<HistoryState[]>([
@@ -102,21 +105,25 @@ export const useEnhancedUndoRedo = (
     history.current = newHistory;
   }, [currentIndex, debounceTime, maxHistorySize, appState]);
 
+  const restore = useCallback((state: HistoryState): HistoryState => (
+    rebaseNodes ? { ...state, nodes: rebaseNodes(state.nodes) } : state
+  ), [rebaseNodes]);
+
   const undo = useCallback(() => {
     if (currentIndex > 0) {
       setCurrentIndex(prev => prev - 1);
-      return history.current[currentIndex - 1];
+      return restore(history.current[currentIndex - 1]);
     }
     return null;
-  }, [currentIndex]);
+  }, [currentIndex, restore]);
 
   const redo = useCallback(() => {
     if (currentIndex < history.current.length - 1) {
       setCurrentIndex(prev => prev + 1);
-      return history.current[currentIndex + 1];
+      return restore(history.current[currentIndex + 1]);
     }
     return null;
-  }, [currentIndex]);
+  }, [currentIndex, restore]);
 
   const setIsUpdating = useCallback((value: boolean) => {
     isUpdating.current = value;
@@ -143,10 +150,10 @@ export const useEnhancedUndoRedo = (
   const jumpToState = useCallback((index: number) => {
     if (index >= 0 && index < history.current.length) {
       setCurrentIndex(index);
-      return history.current[index];
+      return restore(history.current[index]);
     }
     return null;
-  }, []);
+  }, [restore]);
 
   const clearHistory = useCallback(() => {
     const currentState = history.current[currentIndex];
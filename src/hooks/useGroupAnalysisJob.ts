@@ -7,7 +7,7 @@ export type GroupAnalysisJob = {
   group_id: string | null;
   project_id: string | null;
   image_urls: string[];
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
   progress: number | null;
   current_stage: string | null;
   error?: string | null;
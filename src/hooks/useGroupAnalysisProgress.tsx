@@ -168,6 +168,14 @@ export const useGroupAnalysisProgress = (): GroupAnalysisHookReturn => {
               cleanup();
               reject(new Error(j.error || 'Group analysis failed'));
             }
+
+            if (j.status === 'cancelled') {
+              resolved = true;
+              clearTimeout(timeout);
+              groupAnalysisProgressService.failGroupAnalysis(groupId, 'Group analysis cancelled');
+              cleanup();
+              reject(new Error('Group analysis cancelled'));
+            }
           })
           .subscribe();
 
@@ -220,12 +228,13 @@ export const useGroupAnalysisProgress = (): GroupAnalysisHookReturn => {
               groupAnalysisProgressService.completeGroupAnalysis(groupId, latest);
               cleanup();
               resolve();
-            } else if (data.status === 'failed') {
+            } else if (data.status === 'failed' || data.status === 'cancelled') {
+              const message = data.status === 'cancelled' ? 'Group analysis cancelled' : data.error || 'Group analysis failed';
               resolved = true;
               clearTimeout(timeout);
-              groupAnalysisProgressService.failGroupAnalysis(groupId, data.error || 'Group analysis failed');
+              groupAnalysisProgressService.failGroupAnalysis(groupId, message);
               cleanup();
-              reject(new Error(data.error || 'Group analysis failed'));
+              reject(new Error(message));
             }
           } catch (e) {
             // ignore transient polling errors
@@ -12,6 +12,7 @@ import type {
   LegacyImageGroup as ImageGroup,
   LegacyGeneratedConcept as GeneratedConcept
 } from '@/context/AppStateTypes';
+import { getImagesInGroupOrder } from '@/utils/imageUtils';
 
 // Type-safe selector function
 type StateSelector<T> = (state: AppState) => T;
@@ -95,7 +96,7 @@ export const useGroupWithImages = (groupId: string | null) => {
     if (!groupId) return { group: undefined, images: [] };
     
     const group = groups.find(g => g.id === groupId);
-    const groupImages = group ? images.filter(img => group.imageIds.includes(img.id)) : [];
+    const groupImages = group ? getImagesInGroupOrder(group.imageIds, images) : [];
     
     return { group, images: groupImages };
   }, [groups, images, groupId]);
@@ -105,6 +105,20 @@ export const useProjectSelection = () => {
     };
   }, [loadProjects]);
 
+  // A workspace switch replaces the whole project list and the current project
+  useEffect(() => {
+    const handleWorkspaceChange = () => {
+      setCurrentProjectId(null);
+      setAggregatedView(false);
+      loadProjects();
+    };
+
+    window.addEventListener('workspaceChanged', handleWorkspaceChange);
+    return () => {
+      window.removeEventListener('workspaceChanged', handleWorkspaceChange);
+    };
+  }, [loadProjects]);
+
   return {
     currentProjectId,
     projects,
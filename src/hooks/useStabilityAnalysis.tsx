@@ -65,12 +65,13 @@ export function useStabilityAnalysis() {
   const generateMockups = useCallback(async (
     imageUrl: string,
     suggestions: any[],
-    context?: AnalysisContext
+    context?: AnalysisContext,
+    imageId?: string
   ): Promise<Array<{ suggestionId: string; imageUrl: string; prompt: string }>> => {
     setState(prev => ({ ...prev, isLoading: true, error: null }));
 
     try {
-      const mockups = await StabilityAnalysisService.generateMockups(imageUrl, suggestions, context);
+      const mockups = await StabilityAnalysisService.generateMockups(imageUrl, suggestions, context, imageId);
       setState(prev => ({ ...prev, isLoading: false }));
       
       if (mockups.length > 0) {
@@ -6,7 +6,13 @@ interface HistoryState {
   edges: Edge[];
 }
 
-export const useUndoRedo = (initialNodes: Node[], initialEdges: Edge[]) => {
+interface UseUndoRedoOptions {
+  // Adjusts restored nodes, e.g. to keep positions collaborators changed since the snapshot
+  rebaseNodes?: (nodes: Node[]) => Node[];
+}
+
+export const useUndoRedo = (initialNodes: Node[], initialEdges: Edge[], options: UseUndoRedoOptions = {}) => {
+  const { rebaseNodes } = options;
   const [currentIndex, setCurrentIndex] = useState(0);
   const history = useRef<HistoryState[]>([
     { nodes: initialNodes, edges: initialEdges }
@@ -32,21 +38,25 @@ export const useUndoRedo = (initialNodes: Node[], initialEdges: Edge[]) => {
     history.current = newHistory;
   }, [currentIndex]);
 
+  const restore = useCallback((state: HistoryState): HistoryState => (
+    rebaseNodes ? { ...state, nodes: rebaseNodes(state.nodes) } : state
+  ), [rebaseNodes]);
+
   const undo = useCallback(() => {
     if (currentIndex > 0) {
       setCurrentIndex(prev => prev - 1);
-      return history.current[currentIndex - 1];
+      return restore(history.current[currentIndex - 1]);
     }
     return null;
-  }, [currentIndex]);
+  }, [currentIndex, restore]);
 
   const redo = useCallback(() => {
     if (currentIndex < history.current.length - 1) {
       setCurrentIndex(prev => prev + 1);
-      return history.current[currentIndex + 1];
+      return restore(history.current[currentIndex + 1]);
     }
     return null;
-  }, [currentIndex]);
+  }, [currentIndex, restore]);
 
   const setIsUpdating = useCallback((value: boolean) => {
     isUpdating.current = value;
@@ -119,6 +119,54 @@ export type Database = {
         }
         Relationships: []
       }
+      analysis_chat_messages: {
+        Row: {
+          analysis_id: string
+          content: string
+          created_at: string
+          id: string
+          image_id: string | null
+          metadata: Json
+          role: string
+          user_id: string
+        }
+        Insert: {
+          analysis_id: string
+          content: string
+          created_at?: string
+          id?: string
+          image_id?: string | null
+          metadata?: Json
+          role: string
+          user_id: string
+        }
+        Update: {
+          analysis_id?: string
+          content?: string
+          created_at?: string
+          id?: string
+          image_id?: string | null
+          metadata?: Json
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "analysis_chat_messages_analysis_id_fkey"
+            columns: ["analysis_id"]
+            isOneToOne: false
+            referencedRelation: "ux_analyses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "analysis_chat_messages_image_id_fkey"
+            columns: ["image_id"]
+            isOneToOne: false
+            referencedRelation: "images"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       analysis_events: {
         Row: {
           created_at: string
@@ -300,6 +348,148 @@ export type Database = {
           },
         ]
       }
+      analysis_rubrics: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          criteria: Json
+          description: string | null
+          id: string
+          is_active: boolean
+          name: string
+          project_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          criteria?: Json
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          project_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          criteria?: Json
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          project_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "analysis_rubrics_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      annotation_comments: {
+        Row: {
+          analysis_id: string
+          author_email: string | null
+          body: string
+          created_at: string
+          id: string
+          mentions: string[]
+          parent_id: string | null
+          target_id: string
+          target_type: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          analysis_id: string
+          author_email?: string | null
+          body: string
+          created_at?: string
+          id?: string
+          mentions?: string[]
+          parent_id?: string | null
+          target_id: string
+          target_type: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          analysis_id?: string
+          author_email?: string | null
+          body?: string
+          created_at?: string
+          id?: string
+          mentions?: string[]
+          parent_id?: string | null
+          target_id?: string
+          target_type?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "annotation_comments_analysis_id_fkey"
+            columns: ["analysis_id"]
+            isOneToOne: false
+            referencedRelation: "ux_analyses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "annotation_comments_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "annotation_comments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      annotation_statuses: {
+        Row: {
+          analysis_id: string
+          created_at: string
+          id: string
+          status: string
+          target_id: string
+          target_type: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          analysis_id: string
+          created_at?: string
+          id?: string
+          status?: string
+          target_id: string
+          target_type: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          analysis_id?: string
+          created_at?: string
+          id?: string
+          status?: string
+          target_id?: string
+          target_type?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "annotation_statuses_analysis_id_fkey"
+            columns: ["analysis_id"]
+            isOneToOne: false
+            referencedRelation: "ux_analyses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       api_keys: {
         Row: {
           api_key: string
@@ -488,6 +678,47 @@ export type Database = {
         }
         Relationships: []
       }
+      canvas_node_positions: {
+        Row: {
+          clock: number
+          id: string
+          node_id: string
+          project_id: string
+          updated_at: string
+          updated_by: string | null
+          x: number
+          y: number
+        }
+        Insert: {
+          clock?: number
+          id?: string
+          node_id: string
+          project_id: string
+          updated_at?: string
+          updated_by?: string | null
+          x: number
+          y: number
+        }
+        Update: {
+          clock?: number
+          id?: string
+          node_id?: string
+          project_id?: string
+          updated_at?: string
+          updated_by?: string | null
+          x?: number
+          y?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "canvas_node_positions_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       canvas_states: {
         Row: {
           canvas_settings: Json
@@ -548,6 +779,47 @@ export type Database = {
           },
         ]
       }
+      design_token_sets: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          project_id: string
+          source_format: string
+          tokens: Json
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          project_id: string
+          source_format: string
+          tokens?: Json
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          project_id?: string
+          source_format?: string
+          tokens?: Json
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "design_token_sets_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: true
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       error_logs: {
         Row: {
           created_at: string
@@ -790,14 +1062,17 @@ export type Database = {
         Row: {
           group_id: string
           image_id: string
+          position: number
         }
         Insert: {
           group_id: string
           image_id: string
+          position?: number
         }
         Update: {
           group_id?: string
           image_id?: string
+          position?: number
         }
         Relationships: [
           {
@@ -822,6 +1097,7 @@ export type Database = {
           created_at: string | null
           description: string | null
           id: string
+          journey: Json | null
           name: string
           position: Json
           project_id: string | null
@@ -831,6 +1107,7 @@ export type Database = {
           created_at?: string | null
           description?: string | null
           id?: string
+          journey?: Json | null
           name: string
           position: Json
           project_id?: string | null
@@ -840,6 +1117,7 @@ export type Database = {
           created_at?: string | null
           description?: string | null
           id?: string
+          journey?: Json | null
           name?: string
           position?: Json
           project_id?: string | null
@@ -870,6 +1148,7 @@ export type Database = {
           id: string
           metadata: Json | null
           original_name: string
+          product_tag: Json | null
           project_id: string | null
           security_scan_status: string | null
           storage_path: string
@@ -883,6 +1162,7 @@ export type Database = {
           id?: string
           metadata?: Json | null
           original_name: string
+          product_tag?: Json | null
           project_id?: string | null
           security_scan_status?: string | null
           storage_path: string
@@ -896,6 +1176,7 @@ export type Database = {
           id?: string
           metadata?: Json | null
           original_name?: string
+          product_tag?: Json | null
           project_id?: string | null
           security_scan_status?: string | null
           storage_path?: string
@@ -1001,6 +1282,95 @@ export type Database = {
         }
         Relationships: []
       }
+      model_usage: {
+        Row: {
+          cost_usd: number
+          created_at: string
+          function_name: string
+          group_job_id: string | null
+          id: string
+          image_id: string | null
+          image_tokens: number
+          input_tokens: number
+          job_id: string | null
+          latency_ms: number | null
+          model: string
+          output_tokens: number
+          project_id: string | null
+          provider: string
+          stage: string | null
+          units: number
+          user_id: string | null
+        }
+        Insert: {
+          cost_usd?: number
+          created_at?: string
+          function_name: string
+          group_job_id?: string | null
+          id?: string
+          image_id?: string | null
+          image_tokens?: number
+          input_tokens?: number
+          job_id?: string | null
+          latency_ms?: number | null
+          model: string
+          output_tokens?: number
+          project_id?: string | null
+          provider: string
+          stage?: string | null
+          units?: number
+          user_id?: string | null
+        }
+        Update: {
+          cost_usd?: number
+          created_at?: string
+          function_name?: string
+          group_job_id?: string | null
+          id?: string
+          image_id?: string | null
+          image_tokens?: number
+          input_tokens?: number
+          job_id?: string | null
+          latency_ms?: number | null
+          model?: string
+          output_tokens?: number
+          project_id?: string | null
+          provider?: string
+          stage?: string | null
+          units?: number
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "model_usage_group_job_id_fkey"
+            columns: ["group_job_id"]
+            isOneToOne: false
+            referencedRelation: "group_analysis_jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "model_usage_image_id_fkey"
+            columns: ["image_id"]
+            isOneToOne: false
+            referencedRelation: "images"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "model_usage_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "analysis_jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "model_usage_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       performance_metrics: {
         Row: {
           created_at: string
@@ -1043,6 +1413,7 @@ export type Database = {
           slug: string
           updated_at: string | null
           user_id: string | null
+          workspace_id: string | null
         }
         Insert: {
           created_at?: string | null
@@ -1052,6 +1423,7 @@ export type Database = {
           slug: string
           updated_at?: string | null
           user_id?: string | null
+          workspace_id?: string | null
         }
         Update: {
           created_at?: string | null
@@ -1061,8 +1433,105 @@ export type Database = {
           slug?: string
           updated_at?: string | null
           user_id?: string | null
+          workspace_id?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "projects_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_budgets: {
+        Row: {
+          created_at: string
+          monthly_hard_cap_usd: number | null
+          monthly_soft_cap_usd: number | null
+          project_id: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          created_at?: string
+          monthly_hard_cap_usd?: number | null
+          monthly_soft_cap_usd?: number | null
+          project_id: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          created_at?: string
+          monthly_hard_cap_usd?: number | null
+          monthly_soft_cap_usd?: number | null
+          project_id?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_budgets_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: true
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_personas: {
+        Row: {
+          accessibility_needs: string[]
+          age: number | null
+          constraints: string[]
+          created_at: string
+          created_by: string | null
+          description: string | null
+          goals: string[]
+          id: string
+          name: string
+          project_id: string
+          tech_expertise: string
+          updated_at: string
+        }
+        Insert: {
+          accessibility_needs?: string[]
+          age?: number | null
+          constraints?: string[]
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          goals?: string[]
+          id?: string
+          name: string
+          project_id: string
+          tech_expertise?: string
+          updated_at?: string
+        }
+        Update: {
+          accessibility_needs?: string[]
+          age?: number | null
+          constraints?: string[]
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          goals?: string[]
+          id?: string
+          name?: string
+          project_id?: string
+          tech_expertise?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_personas_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       rate_limits: {
         Row: {
@@ -1349,11 +1818,138 @@ export type Database = {
           },
         ]
       }
+      webhook_deliveries: {
+        Row: {
+          attempts: number
+          created_at: string
+          delivered_at: string | null
+          endpoint_id: string
+          error: string | null
+          event_id: string
+          event_type: string
+          id: string
+          last_attempt_at: string | null
+          next_attempt_at: string
+          payload: Json
+          project_id: string
+          redelivery_of: string | null
+          response_body: string | null
+          response_status: number | null
+          status: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          delivered_at?: string | null
+          endpoint_id: string
+          error?: string | null
+          event_id: string
+          event_type: string
+          id?: string
+          last_attempt_at?: string | null
+          next_attempt_at?: string
+          payload: Json
+          project_id: string
+          redelivery_of?: string | null
+          response_body?: string | null
+          response_status?: number | null
+          status?: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          delivered_at?: string | null
+          endpoint_id?: string
+          error?: string | null
+          event_id?: string
+          event_type?: string
+          id?: string
+          last_attempt_at?: string | null
+          next_attempt_at?: string
+          payload?: Json
+          project_id?: string
+          redelivery_of?: string | null
+          response_body?: string | null
+          response_status?: number | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_deliveries_endpoint_id_fkey"
+            columns: ["endpoint_id"]
+            isOneToOne: false
+            referencedRelation: "webhook_endpoints"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "webhook_deliveries_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "webhook_deliveries_redelivery_of_fkey"
+            columns: ["redelivery_of"]
+            isOneToOne: false
+            referencedRelation: "webhook_deliveries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      webhook_endpoints: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          events: string[]
+          id: string
+          is_active: boolean
+          project_id: string
+          secret: string
+          updated_at: string
+          url: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          events: string[]
+          id?: string
+          is_active?: boolean
+          project_id: string
+          secret?: string
+          updated_at?: string
+          url: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          events?: string[]
+          id?: string
+          is_active?: boolean
+          project_id?: string
+          secret?: string
+          updated_at?: string
+          url?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_endpoints_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       worker_ant_results: {
         Row: {
           ant_type: string
           completed_at: string | null
           error: string | null
+          group_job_id: string | null
           id: string
           job_id: string | null
           result: Json | null
@@ -1364,6 +1960,7 @@ export type Database = {
           ant_type: string
           completed_at?: string | null
           error?: string | null
+          group_job_id?: string | null
           id?: string
           job_id?: string | null
           result?: Json | null
@@ -1374,6 +1971,7 @@ export type Database = {
           ant_type?: string
           completed_at?: string | null
           error?: string | null
+          group_job_id?: string | null
           id?: string
           job_id?: string | null
           result?: Json | null
@@ -1381,6 +1979,13 @@ export type Database = {
           status?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "worker_ant_results_group_job_id_fkey"
+            columns: ["group_job_id"]
+            isOneToOne: false
+            referencedRelation: "group_analysis_jobs"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "worker_ant_results_job_id_fkey"
             columns: ["job_id"]
@@ -1390,11 +1995,130 @@ export type Database = {
           },
         ]
       }
+      workspace_invitations: {
+        Row: {
+          accepted_at: string | null
+          accepted_by: string | null
+          created_at: string
+          email: string
+          expires_at: string
+          id: string
+          invited_by: string | null
+          role: string
+          status: string
+          token: string
+          workspace_id: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          email: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          role: string
+          status?: string
+          token?: string
+          workspace_id: string
+        }
+        Update: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          email?: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          role?: string
+          status?: string
+          token?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_invitations_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspace_members: {
+        Row: {
+          created_at: string
+          email: string | null
+          id: string
+          invited_by: string | null
+          role: string
+          user_id: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          email?: string | null
+          id?: string
+          invited_by?: string | null
+          role: string
+          user_id: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          email?: string | null
+          id?: string
+          invited_by?: string | null
+          role?: string
+          user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_members_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspaces: {
+        Row: {
+          created_at: string
+          id: string
+          is_personal: boolean
+          name: string
+          owner_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_personal?: boolean
+          name: string
+          owner_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_personal?: boolean
+          name?: string
+          owner_id?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      accept_workspace_invitation: {
+        Args: { _token: string }
+        Returns: string
+      }
       calculate_metric_trend: {
         Args: {
           p_project_id: string
@@ -1411,13 +2135,44 @@ export type Database = {
           details: Json
         }[]
       }
-      check_rate_limit: {
-        Args: {
-          endpoint_name: string
-          max_requests?: number
-          window_minutes?: number
-        }
-        Returns: boolean
+      check_rate_limit:
+        | {
+            Args: {
+              endpoint_name: string
+              max_requests?: number
+              window_minutes?: number
+            }
+            Returns: boolean
+          }
+        | {
+            Args: {
+              _user_id: string
+              endpoint_name: string
+              max_requests: number
+              window_minutes: number
+            }
+            Returns: boolean
+          }
+      claim_webhook_deliveries: {
+        Args: { _limit?: number; _delivery_id?: string }
+        Returns: {
+          attempts: number
+          created_at: string
+          delivered_at: string | null
+          endpoint_id: string
+          error: string | null
+          event_id: string
+          event_type: string
+          id: string
+          last_attempt_at: string | null
+          next_attempt_at: string
+          payload: Json
+          project_id: string
+          redelivery_of: string | null
+          response_body: string | null
+          response_status: number | null
+          status: string
+        }[]
       }
       cleanup_analysis_events: {
         Args: { p_retention_days?: number }
@@ -1435,6 +2190,10 @@ export type Database = {
         Args: Record<PropertyKey, never>
         Returns: number
       }
+      ensure_my_personal_workspace: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
       generate_api_key: {
         Args: Record<PropertyKey, never>
         Returns: string
@@ -1474,14 +2233,44 @@ export type Database = {
         Args: { p_image_id: string; p_analysis_type: string }
         Returns: number
       }
+      get_project_budget_status: {
+        Args: { _project_id: string }
+        Returns: {
+          month_spend_usd: number
+          soft_cap_usd: number
+          hard_cap_usd: number
+          soft_cap_reached: boolean
+          hard_cap_reached: boolean
+        }[]
+      }
+      has_analysis_role: {
+        Args: { _analysis_id: string; _min_role?: string }
+        Returns: boolean
+      }
+      has_project_role: {
+        Args: { _project_id: string; _min_role?: string }
+        Returns: boolean
+      }
       has_recent_analysis: {
         Args: { p_image_id: string; p_analysis_type: string; p_hours?: number }
         Returns: boolean
       }
+      has_workspace_role: {
+        Args: { _workspace_id: string; _min_role?: string }
+        Returns: boolean
+      }
+      record_api_key_use: {
+        Args: { _api_key_id: string }
+        Returns: undefined
+      }
       record_metrics_snapshot: {
         Args: { p_project_id: string }
         Returns: string
       }
+      redeliver_webhook: {
+        Args: { _delivery_id: string }
+        Returns: string
+      }
       store_analysis_result: {
         Args: {
           p_image_id: string
@@ -1499,6 +2288,14 @@ export type Database = {
         Args: { operation: string; resource_id?: string }
         Returns: boolean
       }
+      webhook_event_type: {
+        Args: { _event_name: string }
+        Returns: string
+      }
+      workspace_role_rank: {
+        Args: { _role: string }
+        Returns: number
+      }
     }
     Enums: {
       [_ in never]: never
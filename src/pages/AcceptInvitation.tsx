@@ -0,0 +1,74 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { CheckCircle2, Loader2, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useAuth } from '@/context/AuthContext';
+import { WorkspaceService } from '@/services/WorkspaceService';
+
+type InvitationState =
+  | { status: 'accepting' }
+  | { status: 'accepted' }
+  | { status: 'error'; message: string };
+
+const AcceptInvitation = () => {
+  const { token } = useParams<{ token: string }>();
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [state, setState] = useState<InvitationState>({ status: 'accepting' });
+  const attemptedRef = useRef(false);
+
+  useEffect(() => {
+    if (!token || !user || attemptedRef.current) return;
+    attemptedRef.current = true;
+
+    WorkspaceService.acceptInvitation(token)
+      .then(() => {
+        setState({ status: 'accepted' });
+        setTimeout(() => navigate('/projects', { replace: true }), 1200);
+      })
+      .catch(error => {
+        console.error('[AcceptInvitation] Failed to accept invitation:', error);
+        setState({
+          status: 'error',
+          message: error instanceof Error ? error.message : 'This invitation could not be accepted'
+        });
+      });
+  }, [token, user, navigate]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background px-4">
+      <Card className="w-full max-w-md text-center">
+        <CardHeader>
+          <CardTitle className="text-2xl font-bold">Workspace invitation</CardTitle>
+          <CardDescription>Signed in as {user?.email}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {state.status === 'accepting' && (
+            <>
+              <Loader2 className="h-10 w-10 animate-spin text-primary mx-auto" />
+              <p className="text-muted-foreground">Joining the workspace...</p>
+            </>
+          )}
+          {state.status === 'accepted' && (
+            <>
+              <CheckCircle2 className="h-10 w-10 text-green-600 mx-auto" />
+              <p className="text-muted-foreground">You're in. Taking you to the workspace's projects...</p>
+            </>
+          )}
+          {state.status === 'error' && (
+            <>
+              <XCircle className="h-10 w-10 text-destructive mx-auto" />
+              <p className="text-muted-foreground">{state.message}</p>
+              <Button variant="outline" onClick={() => navigate('/dashboard', { replace: true })}>
+                Go to dashboard
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AcceptInvitation;
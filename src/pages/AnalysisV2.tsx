@@ -132,7 +132,7 @@ export default function AnalysisV2() {
     if (job.status === "completed") {
       return base.map((s) => ({ ...s, status: "completed" as const }));
     }
-    if (job.status === "failed") {
+    if (job.status === "failed" || job.status === "cancelled") {
       const idx = base.findIndex((s) => job.current_stage?.includes(s.id));
       return base.map((s, i) => {
         if (i < idx) return { ...s, status: "completed" as const };
@@ -155,7 +155,7 @@ export default function AnalysisV2() {
   }, [job?.progress]);
 
   const isComplete = job?.status === "completed";
-  const hasError = job?.status === "failed";
+  const hasError = job?.status === "failed" || job?.status === "cancelled";
 
   if (!uiEnabled) {
     return (
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { Navigate } from 'react-router-dom';
+import { Navigate, useLocation } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -16,10 +16,12 @@ const Auth = () => {
   const [resetEmail, setResetEmail] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showForgotPassword, setShowForgotPassword] = useState(false);
+  const location = useLocation();
 
-  // Redirect authenticated users to dashboard
+  // Redirect authenticated users back to where they came from (e.g. an invitation link)
   if (user) {
-    return <Navigate to="/dashboard" replace />;
+    const from = (location.state as { from?: string } | null)?.from;
+    return <Navigate to={from && from !== '/auth' ? from : '/dashboard'} replace />;
   }
 
   const handleSignIn = async (e: React.FormEvent) => {
@@ -4,6 +4,7 @@ import { useFinalAppContext } from '@/context/FinalAppContext';
 import { useAuth } from '@/context/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { ProjectService, GroupMigrationService, GroupAnalysisMigrationService } from '@/services/DataMigrationService';
+import { canvasCollaborationService } from '@/services/CanvasCollaborationService';
 import { analysisService } from '@/services/TypeSafeAnalysisService';
 import { PerformantCanvasView } from '@/components/canvas/PerformantCanvasView';
 import { Sidebar } from '@/components/Sidebar';
@@ -12,6 +13,7 @@ import { AnalysisFlowDebugger } from '@/components/AnalysisFlowDebugger';
 import { useFilteredToast } from '@/hooks/use-filtered-toast';
 import { ProjectContextBanner } from '@/components/ProjectContextBanner';
 import { WorkspaceCleanupDialog, CleanupOptions } from '@/components/WorkspaceCleanupDialog';
+import { getImagesInGroupOrder } from '@/utils/imageUtils';
 
 interface ErrorDisplayProps {
   error: string;
@@ -261,6 +263,7 @@ const Canvas = () => {
         type: 'ADD_GROUP',
         payload: newGroup
       });
+      canvasCollaborationService.shareGroupCreated(newGroup);
 
       toast({
         category: 'success',
@@ -280,6 +283,7 @@ const Canvas = () => {
   const handleUngroup = useCallback((groupId: string) => {
     console.log('Ungroup:', groupId);
     dispatch({ type: 'REMOVE_GROUP', payload: groupId });
+    canvasCollaborationService.shareGroupDeleted(groupId);
     toast({
       category: 'success',
       title: 'Group Ungrouped',
@@ -290,6 +294,7 @@ const Canvas = () => {
   const handleDeleteGroup = useCallback(async (groupId: string) => {
     try {
       dispatch({ type: 'REMOVE_GROUP', payload: groupId });
+      canvasCollaborationService.shareGroupDeleted(groupId);
       toast({
         category: 'success',
         title: 'Group Deleted',
@@ -329,9 +334,7 @@ const Canvas = () => {
       }
 
       // Get image URLs from the group
-      const groupImages = state.uploadedImages.filter(img => 
-        group.imageIds.includes(img.id)
-      );
+      const groupImages = getImagesInGroupOrder(group.imageIds, state.uploadedImages);
 
       if (groupImages.length === 0) {
         throw new Error('No images found in this group');
@@ -1,10 +1,11 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/context/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { useDashboardMetrics } from '@/hooks/useDashboardMetrics';
 import { DashboardMetrics } from '@/services/DashboardService';
 import { SummaryDashboard } from '@/components/summary/SummaryDashboard';
+import { CostOverview } from '@/components/summary/CostOverview';
 import { Sidebar } from '@/components/Sidebar';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -13,6 +14,7 @@ import { Skeleton } from '@/components/ui/skeleton';
 
 import { Plus, BarChart3, Images, Lightbulb, Users, Activity } from 'lucide-react';
 import { ProjectService } from '@/services/DataMigrationService';
+import { WorkspaceService } from '@/services/WorkspaceService';
 import { CanvasStateService } from '@/services/CanvasStateService';
 import { useFilteredToast } from '@/hooks/use-filtered-toast';
 import { UXAnalysis } from '@/types/ux-analysis';
@@ -78,6 +80,7 @@ const Dashboard = () => {
   // Add this ref after state declarations
   const projectsLoadedRef = useRef(false);
   const lastMetricsRef = useRef<DashboardMetrics | null>(null);
+  const costProjects = useMemo(() => stats?.recentProjects ?? [], [stats]);
 
   // Performance monitoring removed for production optimization
 
@@ -130,10 +133,11 @@ const Dashboard = () => {
         setError(metricsError);
 
         // Fetch projects with image counts for recent projects section
+        const workspaceId = await WorkspaceService.getCurrentWorkspaceId();
         const { data: projects, error: projectsError } = await supabase
           .from('projects')
           .select('id, name, updated_at')
-          .eq('user_id', user.id)
+          .eq('workspace_id', workspaceId)
           .order('updated_at', { ascending: false })
           .limit(5);
 
@@ -323,6 +327,9 @@ const Dashboard = () => {
                 onRefresh={refreshMetrics}
               />
 
+              {/* Model costs and project budgets */}
+              <CostOverview projects={costProjects} />
+
               {/* Recent Projects */}
               <Card>
                 <CardHeader>
@@ -4,6 +4,7 @@ import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/context/AuthContext";
 
 import { AnalysisStatusPipeline } from "@/components/AnalysisStatusPipeline";
+import { AnalysisJobControls } from "@/components/AnalysisJobControls";
 import { useGroupAnalysisJob } from "@/hooks/useGroupAnalysisJob";
 
 const usePageSEO = () => {
@@ -92,7 +93,7 @@ const uiEnabled = true;
     ];
     if (!job) return base;
     if (job.status === 'completed') return base.map((s) => ({ ...s, status: 'completed' as const }));
-    if (job.status === 'failed') {
+    if (job.status === 'failed' || job.status === 'cancelled') {
       const idx = base.findIndex((s) => job.current_stage?.includes(s.id));
       return base.map((s, i) => {
         if (i < idx) return { ...s, status: 'completed' as const };
@@ -114,7 +115,7 @@ const uiEnabled = true;
   }, [job?.progress]);
 
   const isComplete = job?.status === 'completed';
-  const hasError = job?.status === 'failed';
+  const hasError = job?.status === 'failed' || job?.status === 'cancelled';
 
   if (!uiEnabled) {
     return (
@@ -147,6 +148,9 @@ const uiEnabled = true;
       ) : (
         <section className="space-y-6">
           <AnalysisStatusPipeline stages={stages as any} overallProgress={overall} isComplete={!!isComplete} hasError={!!hasError} />
+          {job && (
+            <AnalysisJobControls kind="group" jobId={job.id} status={job.status} currentStage={job.current_stage} />
+          )}
 
           <section className="rounded border p-4">
             <h2 className="text-sm font-medium mb-2">Stage events</h2>
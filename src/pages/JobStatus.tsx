@@ -6,11 +6,47 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import { toast } from "sonner";
+import {
+  AnalysisJobControlService,
+  PIPELINE_STAGES,
+  stageName,
+  type StageResult,
+} from "@/services/AnalysisJobControlService";
 
 const JobStatusPage: React.FC = () => {
   const { jobId } = useParams<{ jobId: string }>();
   const { job, loading, error } = useAnalysisJob(jobId ?? null);
   const [showRaw, setShowRaw] = useState(false);
+  const [stageResults, setStageResults] = useState<StageResult[]>([]);
+  const [openStage, setOpenStage] = useState<string | null>(null);
+  const [rerunning, setRerunning] = useState<string | null>(null);
+
+  // Saved stage outputs change when a stage completes or a retry clears them
+  const jobStatus = job?.status;
+  const jobStage = job?.current_stage;
+  useEffect(() => {
+    if (!jobId) return;
+    let mounted = true;
+    AnalysisJobControlService.getCompletedStages({ kind: "analysis", id: jobId })
+      .then((results) => { if (mounted) setStageResults(results); })
+      .catch((e) => console.warn("[JobStatus] Failed to load stage results", e));
+    return () => { mounted = false; };
+  }, [jobId, jobStatus, jobStage]);
+
+  const canRerun = jobStatus === "failed" || jobStatus === "cancelled";
+  const rerunFrom = async (stage: string) => {
+    if (!jobId) return;
+    setRerunning(stage);
+    try {
+      await AnalysisJobControlService.retry({ kind: "analysis", id: jobId }, stage);
+      toast.success(`Re-running from ${stageName(stage).toLowerCase()}`);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Failed to retry analysis");
+    } finally {
+      setRerunning(null);
+    }
+  };
 
   useEffect(() => {
     document.title = `UX Analysis Job Status${jobId ? ` • ${jobId}` : ""}`;
@@ -29,7 +65,7 @@ const JobStatusPage: React.FC = () => {
           <CardHeader>
             <div className="flex items-center justify-between">
               <CardTitle className="text-xl">Analysis Job Status</CardTitle>
-              <Badge variant={meta.status === 'completed' ? 'default' : meta.status === 'failed' ? 'destructive' : 'secondary'}>
+              <Badge variant={meta.status === 'completed' ? 'default' : meta.status === 'failed' ? 'destructive' : meta.status === 'cancelled' ? 'outline' : 'secondary'}>
                 {meta.status}
               </Badge>
             </div>
@@ -48,6 +84,49 @@ const JobStatusPage: React.FC = () => {
                   )}
                 </div>
 
+                <div className="space-y-2">
+                  <h3 className="text-sm font-medium">Stage outputs</h3>
+                  <ul className="divide-y rounded border">
+                    {PIPELINE_STAGES.analysis.map((stage) => {
+                      const saved = stageResults.find((r) => r.stage === stage);
+                      return (
+                        <li key={stage} className="p-2 text-sm">
+                          <div className="flex items-center justify-between gap-2">
+                            <span>{stageName(stage)}</span>
+                            <div className="flex items-center gap-2">
+                              {saved ? (
+                                <Badge variant="outline">
+                                  saved{saved.completedAt ? ` ${new Date(saved.completedAt).toLocaleTimeString()}` : ""}
+                                </Badge>
+                              ) : (
+                                <span className="text-xs text-muted-foreground">not run</span>
+                              )}
+                              {saved && (
+                                <Button size="sm" variant="ghost" onClick={() => setOpenStage((s) => (s === stage ? null : stage))}>
+                                  {openStage === stage ? "Hide" : "View"}
+                                </Button>
+                              )}
+                              {canRerun && saved && (
+                                <Button size="sm" variant="outline" disabled={rerunning !== null} onClick={() => rerunFrom(stage)}>
+                                  Re-run from here
+                                </Button>
+                              )}
+                            </div>
+                          </div>
+                          {saved && openStage === stage && (
+                            <pre className="mt-2 max-h-64 overflow-auto rounded bg-muted/40 p-2 text-xs">
+                              {JSON.stringify(saved.result, null, 2)}
+                            </pre>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                  <p className="text-xs text-muted-foreground">
+                    Retrying reuses saved outputs; re-running from a stage discards its output and every later one.
+                  </p>
+                </div>
+
                 <div className="flex flex-wrap gap-2 pt-2">
                   <Button asChild variant="secondary">
                     <Link to="/dashboard">Back to Dashboard</Link>
@@ -13,6 +13,7 @@ import { useMultiSelection } from '@/hooks/useMultiSelection';
 import { ProjectDeletionDialog } from '@/components/ProjectDeletionDialog';
 import { useLongPress } from '@/hooks/useLongPress';
 import { ProjectContextMenu } from '@/components/ProjectContextMenu';
+import { ReportExportService, type ReportFormat } from '@/services/ReportExportService';
 
 interface Project {
   id: string;
@@ -130,6 +131,23 @@ const Projects = () => {
     // Already on projects page
   };
 
+  const handleExportReport = async (project: Project, format: ReportFormat) => {
+    try {
+      toast({
+        title: "Preparing report",
+        description: `Building the ${format === 'pdf' ? 'PDF' : 'HTML'} report for ${project.name}`,
+      });
+      await ReportExportService.exportProject(project.id, project.name, format);
+    } catch (error) {
+      console.error('Error exporting report:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to export report",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleDeleteProjects = async () => {
     if (multiSelection.state.selectedIds.length === 0) return;
     
@@ -412,6 +430,7 @@ const Projects = () => {
         selectedCount={contextMenu.selectedCount}
         onOpen={() => contextMenu.project && handleSwitchProject(contextMenu.project)}
         onDelete={() => setShowDeleteDialog(true)}
+        onExportReport={(format) => contextMenu.project && handleExportReport(contextMenu.project, format)}
       />
     </div>
   );
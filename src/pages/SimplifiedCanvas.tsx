@@ -7,10 +7,19 @@ import { analysisService } from '@/services/TypeSafeAnalysisService';
 import { PerformantCanvasViewWithErrorBoundary } from '@/components/canvas/PerformantCanvasViewWithErrorBoundary';
 import { Sidebar } from '@/components/Sidebar';
 import { AnalysisPanel } from '@/components/AnalysisPanel';
+import { JourneyEditorDialog } from '@/components/JourneyEditorDialog';
 import { ProjectContextBanner } from '@/components/ProjectContextBanner';
 import { useFilteredToast } from '@/hooks/use-filtered-toast';
 import { useGroupAnalysisProgress } from '@/hooks/useGroupAnalysisProgress';
 import { startUxAnalysis } from '@/services/StartUxAnalysis';
+import { PdfDocumentService } from '@/services/PdfDocumentService';
+import { RecordingKeyframeService } from '@/services/RecordingKeyframeService';
+import { HtmlSnapshotService } from '@/services/HtmlSnapshotService';
+import { SecurityService } from '@/services/SecurityService';
+import { getImagesInGroupOrder } from '@/utils/imageUtils';
+import { parseGroupJourneyAnalysis } from '@/utils/journeyUtils';
+import { productName } from '@/utils/benchmarkUtils';
+import type { GroupJourney, ProductTag, UploadedImage } from '@/types/ux-analysis';
 
 const SimplifiedCanvas = () => {
   const navigate = useNavigate();
@@ -47,6 +56,7 @@ const SimplifiedCanvas = () => {
   const [selectedAnalysisId, setSelectedAnalysisId] = useState<string | null>(null);
   const [isAnalysisPanelOpen, setIsAnalysisPanelOpen] = useState(false);
   const [currentProjectName, setCurrentProjectName] = useState<string | null>(null);
+  const [journeyGroupId, setJourneyGroupId] = useState<string | null>(null);
   
 const { toast } = useFilteredToast();
 const groupAnalysisProgress = useGroupAnalysisProgress();
@@ -169,7 +179,10 @@ const loadedRef = useRef<string | null>(null);
         return;
       }
       toast({ category: 'info', title: 'Starting Analysis', description: 'Creating job and launching pipeline...' });
-      const { jobId } = await startUxAnalysis({ imageId: candidate.id, imageUrl: candidate.url, projectId: null, userContext: null });
+      const { jobId, budgetWarning } = await startUxAnalysis({ imageId: candidate.id, imageUrl: candidate.url, projectId: null, userContext: null });
+      if (budgetWarning) {
+        toast({ category: 'action-required', title: 'Budget warning', description: budgetWarning });
+      }
       navigate(`/job/${jobId}`);
     } catch (err) {
       console.error('[SimplifiedCanvas] startUxAnalysis failed:', err);
@@ -188,7 +201,7 @@ const loadedRef = useRef<string | null>(null);
       const input = document.createElement('input');
       input.type = 'file';
       input.multiple = true;
-      input.accept = 'image/*';
+      input.accept = 'image/*,application/pdf,video/mp4,video/webm,.html,.htm,.mhtml,.mht';
       input.onchange = async (e) => {
         const selectedFiles = Array.from((e.target as HTMLInputElement).files || []);
         console.log('[SimplifiedCanvas] Files selected from input:', selectedFiles.length);
@@ -198,62 +211,235 @@ const loadedRef = useRef<string | null>(null);
     }
   }, []);
 
+  // Uploads image files and persists them; resolves with the images that were saved, in file order.
+  // details[i] carries what files[i] was derived from (a recording keyframe, an HTML snapshot).
+  const uploadImageFiles = useCallback(async (
+    files: File[],
+    details: Array<Pick<UploadedImage, 'recordingFrame' | 'domAudit'>> = []
+  ) => {
+    // PHASE 2: Immediate storage upload and blob URL replacement
+    const { loadImageDimensions } = await import('@/utils/imageUtils');
+    const { BlobUrlReplacementService } = await import('@/services/BlobUrlReplacementService');
+    
+    const uploadPromises = files.map(async (file, index) => {
+      console.log('[SimplifiedCanvas] Processing file:', file.name);
+      const dimensions = await loadImageDimensions(file);
+      const imageId = crypto.randomUUID();
+      
+      // Create initial image with blob URL for immediate display
+      const tempImage = {
+        id: imageId,
+        name: file.name,
+        url: URL.createObjectURL(file),
+        file,
+        dimensions,
+        status: 'completed' as const,
+        ...details[index]
+      };
+
+      // Immediately upload to storage and replace blob URL
+      try {
+        const processedImage = await BlobUrlReplacementService.processUploadedImage(tempImage);
+        console.log('[SimplifiedCanvas] Image uploaded to storage:', processedImage.url);
+        return processedImage;
+      } catch (storageError) {
+        console.warn('[SimplifiedCanvas] Storage upload failed, using blob URL:', storageError);
+        return tempImage; // Fallback to blob URL
+      }
+    });
+    
+    const results = await Promise.all(uploadPromises);
+    console.log('[SimplifiedCanvas] Upload results:', results.length);
+    
+    // Add to local state immediately for instant feedback
+    dispatch({ type: 'ADD_IMAGES', payload: results });
+    
+    // Persist to database in background
+    const { ImageMigrationService } = await import('@/services/DataMigrationService');
+    const persisted: typeof results = [];
+    for (const image of results) {
+      try {
+        await ImageMigrationService.migrateImageToDatabase(image);
+        persisted.push(image);
+        console.log('[SimplifiedCanvas] Successfully persisted image:', image.name);
+      } catch (persistError) {
+        console.error('[SimplifiedCanvas] Failed to persist image:', image.name, persistError);
+      }
+    }
+    return persisted;
+  }, [dispatch]);
+
+  // Groups images split from one source file (PDF pages, recording keyframes), keeping their order
+  const createSequenceGroup = useCallback(async (name: string, description: string, images: UploadedImage[]) => {
+    const newGroup = {
+      id: crypto.randomUUID(),
+      name,
+      description,
+      color: '#3b82f6',
+      imageIds: images.map(image => image.id),
+      position: { x: 100, y: 100 },
+      createdAt: new Date(),
+      projectId: ''
+    };
+
+    await GroupMigrationService.migrateGroupToDatabase(newGroup);
+    dispatch({
+      type: 'ADD_GROUP',
+      payload: newGroup
+    });
+  }, [dispatch]);
+
+  // Splits a PDF into one image per page and groups the pages, in page order, for group analysis
+  const uploadPdfDocument = useCallback(async (file: File) => {
+    if (!SecurityService.validateFileUpload(file)) {
+      toast({
+        category: 'error',
+        title: 'PDF Not Supported',
+        description: `${file.name} could not be imported. PDFs up to 50MB are supported.`
+      });
+      return;
+    }
+
+    try {
+      const pdfDocument = await PdfDocumentService.rasterize(file);
+      if (pdfDocument.pages.length === 0) {
+        throw new Error('The document has no pages');
+      }
+
+      const pages = await uploadImageFiles(pdfDocument.pages);
+      if (pages.length < 2) {
+        // A single page is just another screenshot
+        return;
+      }
+
+      await createSequenceGroup(pdfDocument.name, `${pages.length} pages from ${file.name}`, pages);
+
+      toast({
+        category: pdfDocument.truncated ? 'action-required' : 'success',
+        title: 'Document Imported',
+        description: pdfDocument.truncated
+          ? `Only the first ${pdfDocument.pages.length} of ${pdfDocument.pageCount} pages of ${file.name} were imported and grouped.`
+          : `${pages.length} pages of ${file.name} were grouped and are ready for group analysis.`
+      });
+    } catch (error) {
+      console.error('[SimplifiedCanvas] PDF import failed:', file.name, error);
+      toast({
+        category: 'error',
+        title: 'PDF Import Failed',
+        description: error instanceof Error ? error.message : `Failed to import ${file.name}.`
+      });
+    }
+  }, [uploadImageFiles, createSequenceGroup, toast]);
+
+  // Extracts the keyframes of a screen recording or animated GIF and groups them as a journey
+  const uploadRecording = useCallback(async (file: File) => {
+    if (!SecurityService.validateFileUpload(file)) {
+      toast({
+        category: 'error',
+        title: 'Recording Not Supported',
+        description: `${file.name} could not be imported. MP4, WebM and GIF recordings up to 50MB are supported.`
+      });
+      return;
+    }
+
+    try {
+      const recording = await RecordingKeyframeService.extractKeyframes(file);
+      if (recording.frames.length === 0) {
+        throw new Error('No frames could be read from the recording');
+      }
+
+      const frames = await uploadImageFiles(
+        recording.frames,
+        recording.timestamps.map(recordingFrame => ({ recordingFrame }))
+      );
+      if (frames.length < 2) {
+        // A recording without scene changes is a single screen
+        return;
+      }
+
+      await createSequenceGroup(recording.name, `${frames.length} screens from the recording ${file.name}`, frames);
+
+      toast({
+        category: recording.truncated ? 'action-required' : 'success',
+        title: 'Recording Imported',
+        description: recording.truncated
+          ? `Only the first ${recording.frames.length} screens of ${file.name} were extracted and grouped.`
+          : `${frames.length} screens of ${file.name} were grouped and are ready for journey analysis.`
+      });
+    } catch (error) {
+      console.error('[SimplifiedCanvas] Recording import failed:', file.name, error);
+      toast({
+        category: 'error',
+        title: 'Recording Import Failed',
+        description: error instanceof Error ? error.message : `Failed to import ${file.name}.`
+      });
+    }
+  }, [uploadImageFiles, createSequenceGroup, toast]);
+
+  // Renders an HTML snapshot to a screenshot and keeps its DOM accessibility audit with the image
+  const uploadHtmlSnapshot = useCallback(async (file: File) => {
+    if (!SecurityService.validateFileUpload(file)) {
+      toast({
+        category: 'error',
+        title: 'HTML Not Supported',
+        description: `${file.name} could not be imported. HTML and MHTML pages up to 50MB are supported.`
+      });
+      return;
+    }
+
+    try {
+      const snapshot = await HtmlSnapshotService.render(file);
+      const [image] = await uploadImageFiles([snapshot.screenshot], [{ domAudit: snapshot.audit }]);
+      if (!image) {
+        throw new Error('The rendered page could not be saved');
+      }
+
+      toast({
+        category: 'success',
+        title: 'HTML Page Imported',
+        description: snapshot.audit.findings.length > 0
+          ? `${file.name} was rendered; ${snapshot.audit.findings.length} DOM accessibility findings will be added to its analysis.`
+          : `${file.name} was rendered and passed the DOM accessibility checks.`
+      });
+    } catch (error) {
+      console.error('[SimplifiedCanvas] HTML import failed:', file.name, error);
+      toast({
+        category: 'error',
+        title: 'HTML Import Failed',
+        description: error instanceof Error ? error.message : `Failed to import ${file.name}.`
+      });
+    }
+  }, [uploadImageFiles, toast]);
+
   const handleFilesUpload = useCallback(async (files: File[]) => {
     console.log('[SimplifiedCanvas] Processing files:', files.length);
     
     if (files.length === 0) return;
     
     try {
-      // PHASE 2: Immediate storage upload and blob URL replacement
-      const { loadImageDimensions } = await import('@/utils/imageUtils');
-      const { BlobUrlReplacementService } = await import('@/services/BlobUrlReplacementService');
-      
-      const uploadPromises = files.map(async (file) => {
-        console.log('[SimplifiedCanvas] Processing file:', file.name);
-        const dimensions = await loadImageDimensions(file);
-        const imageId = crypto.randomUUID();
-        
-        // Create initial image with blob URL for immediate display
-        const tempImage = {
-          id: imageId,
-          name: file.name,
-          url: URL.createObjectURL(file),
-          file,
-          dimensions,
-          status: 'completed' as const
-        };
-
-        // Immediately upload to storage and replace blob URL
-        try {
-          const processedImage = await BlobUrlReplacementService.processUploadedImage(tempImage);
-          console.log('[SimplifiedCanvas] Image uploaded to storage:', processedImage.url);
-          return processedImage;
-        } catch (storageError) {
-          console.warn('[SimplifiedCanvas] Storage upload failed, using blob URL:', storageError);
-          return tempImage; // Fallback to blob URL
-        }
-      });
-      
-      const results = await Promise.all(uploadPromises);
-      console.log('[SimplifiedCanvas] Upload results:', results.length);
-      
-      // Add to local state immediately for instant feedback
-      dispatch({ type: 'ADD_IMAGES', payload: results });
-      
-      // Persist to database in background
-      const { ImageMigrationService } = await import('@/services/DataMigrationService');
-      for (const image of results) {
-        try {
-          await ImageMigrationService.migrateImageToDatabase(image);
-          console.log('[SimplifiedCanvas] Successfully persisted image:', image.name);
-        } catch (persistError) {
-          console.error('[SimplifiedCanvas] Failed to persist image:', image.name, persistError);
+      const imageFiles = files.filter(
+        file => !PdfDocumentService.isPdf(file) &&
+          !RecordingKeyframeService.isRecording(file) &&
+          !HtmlSnapshotService.isHtmlSnapshot(file)
+      );
+      if (imageFiles.length > 0) {
+        await uploadImageFiles(imageFiles);
+      }
+
+      // Documents, recordings and pages one at a time so their images land on the canvas in order
+      for (const file of files) {
+        if (PdfDocumentService.isPdf(file)) {
+          await uploadPdfDocument(file);
+        } else if (RecordingKeyframeService.isRecording(file)) {
+          await uploadRecording(file);
+        } else if (HtmlSnapshotService.isHtmlSnapshot(file)) {
+          await uploadHtmlSnapshot(file);
         }
       }
     } catch (error) {
       console.error('[SimplifiedCanvas] Upload failed:', error);
     }
-  }, [dispatch]);
+  }, [uploadImageFiles, uploadPdfDocument, uploadRecording, uploadHtmlSnapshot]);
 
   // Group creation handler
   const handleCreateGroup = useCallback(async (imageIds: string[]) => {
@@ -302,6 +488,60 @@ const loadedRef = useRef<string | null>(null);
     }
   }, [dispatch, imageGroups.length, toast]);
 
+  // Marks a group as a journey (or back to a plain group) and saves its step order and transition labels
+  const handleSaveJourney = useCallback(async (groupId: string, imageIds: string[], journey: GroupJourney | undefined) => {
+    const group = imageGroups.find(g => g.id === groupId);
+    if (!group) return;
+
+    const updated = { ...group, imageIds, journey };
+    dispatch({ type: 'UPDATE_GROUP', payload: { id: groupId, updates: { imageIds, journey } } });
+
+    try {
+      await GroupMigrationService.updateGroupJourney(updated);
+      toast({
+        category: 'success',
+        title: journey ? 'Journey Saved' : 'Journey Removed',
+        description: journey
+          ? `${group.name} will be analyzed step by step across ${imageIds.length} screens.`
+          : `${group.name} is analyzed as a plain group again.`
+      });
+    } catch (error) {
+      console.error('[SimplifiedCanvas] Failed to save journey:', error);
+      dispatch({ type: 'UPDATE_GROUP', payload: { id: groupId, updates: { imageIds: group.imageIds, journey: group.journey } } });
+      toast({
+        category: 'error',
+        title: 'Journey Not Saved',
+        description: 'Failed to save the journey. Please try again.'
+      });
+    }
+  }, [imageGroups, dispatch, toast]);
+
+  // Tags screens as ours or a named competitor for benchmarking
+  const handleTagProducts = useCallback(async (imageIds: string[], tag: ProductTag | null) => {
+    const previous = imageIds.map(id => ({ id, productTag: uploadedImages.find(img => img.id === id)?.productTag }));
+    imageIds.forEach(id => dispatch({ type: 'UPDATE_IMAGE', payload: { id, updates: { productTag: tag ?? undefined } } }));
+
+    try {
+      const { ImageMigrationService } = await import('@/services/DataMigrationService');
+      await ImageMigrationService.updateProductTags(imageIds, tag);
+      toast({
+        category: 'success',
+        title: tag ? 'Screens Tagged' : 'Tags Removed',
+        description: tag
+          ? `${imageIds.length} screen${imageIds.length !== 1 ? 's' : ''} tagged as ${productName(tag)}.`
+          : `${imageIds.length} screen${imageIds.length !== 1 ? 's are' : ' is'} no longer part of benchmarks.`
+      });
+    } catch (error) {
+      console.error('[SimplifiedCanvas] Failed to save product tags:', error);
+      previous.forEach(({ id, productTag }) => dispatch({ type: 'UPDATE_IMAGE', payload: { id, updates: { productTag } } }));
+      toast({
+        category: 'error',
+        title: 'Tags Not Saved',
+        description: 'Failed to save the product tags. Please try again.'
+      });
+    }
+  }, [uploadedImages, dispatch, toast]);
+
   // Group analysis functionality with canvas integration
   const handleSubmitGroupPrompt = useCallback(
     async (
@@ -351,6 +591,7 @@ const loadedRef = useRef<string | null>(null);
               designInconsistencies: source?.patterns?.designInconsistencies || [],
               userJourneyGaps: source?.patterns?.userJourneyGaps || [],
             },
+            journey: source?.journey ?? parseGroupJourneyAnalysis(source?.metadata),
             analysis: source?.analysis,
             createdAt: source?.createdAt ? new Date(source.createdAt) : new Date(),
           } as const;
@@ -374,7 +615,7 @@ const loadedRef = useRef<string | null>(null);
         }
 
         // If no existing result provided, start the job-based pipeline via Inngest
-        const groupImages = uploadedImages.filter((img) => group.imageIds.includes(img.id));
+        const groupImages = getImagesInGroupOrder(group.imageIds, uploadedImages);
         if (groupImages.length === 0) {
           throw new Error('No images found in this group');
         }
@@ -425,6 +666,8 @@ const loadedRef = useRef<string | null>(null);
     );
   }, [handleSubmitGroupPrompt]);
 
+  const journeyGroup = journeyGroupId ? imageGroups.find(g => g.id === journeyGroupId) ?? null : null;
+
   if (isLoading) {
     return (
       <div className="flex h-screen bg-background">
@@ -504,12 +747,22 @@ const loadedRef = useRef<string | null>(null);
             onGroupDisplayModeChange={() => {}}
             onSubmitGroupPrompt={handleSubmitGroupPrompt}
             onAnalyzeGroup={handleAnalyzeGroup}
+            onEditJourney={setJourneyGroupId}
+            onTagProducts={handleTagProducts}
             onAnalysisComplete={handleAnalysisComplete}
             onImageUpload={handleAddImages}
           />
         </div>
       </div>
       
+      <JourneyEditorDialog
+        isOpen={!!journeyGroup}
+        onClose={() => setJourneyGroupId(null)}
+        onSave={handleSaveJourney}
+        group={journeyGroup}
+        groupImages={journeyGroup ? getImagesInGroupOrder(journeyGroup.imageIds, uploadedImages) : []}
+      />
+
       {isAnalysisPanelOpen && selectedAnalysisId && Array.isArray(analyses) && (
         <AnalysisPanel
           analysis={analyses.find(a => a.id === selectedAnalysisId) || null}
@@ -0,0 +1,160 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { UXAnalysis } from '@/types/ux-analysis';
+
+type AnalysisChatMessageRow = Tables<'analysis_chat_messages'>;
+
+export type AnalysisChatRole = 'user' | 'assistant';
+
+export interface AnalysisChatMessage {
+  id: string;
+  analysisId: string;
+  imageId: string | null;
+  role: AnalysisChatRole;
+  content: string;
+  createdAt: Date;
+}
+
+export interface StreamReplyHandlers {
+  onDelta: (delta: string) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Persists and streams follow-up conversations about a single UXAnalysis.
+ * One thread exists per user and analysis; reopening the chat restores it.
+ */
+export class AnalysisChatService {
+  static async loadThread(analysisId: string): Promise<AnalysisChatMessage[]> {
+    const { data: authData } = await supabase.auth.getUser();
+    if (!authData.user) return [];
+
+    const { data, error } = await supabase
+      .from('analysis_chat_messages')
+      .select('*')
+      .eq('analysis_id', analysisId)
+      .eq('user_id', authData.user.id)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Failed to load analysis chat thread:', error);
+      return [];
+    }
+
+    return (data || []).map(row => this.transformRow(row));
+  }
+
+  static async appendMessage(
+    analysis: Pick<UXAnalysis, 'id' | 'imageId'>,
+    role: AnalysisChatRole,
+    content: string
+  ): Promise<AnalysisChatMessage | null> {
+    const { data: authData } = await supabase.auth.getUser();
+    if (!authData.user) throw new Error('User not authenticated');
+
+    const { data, error } = await supabase
+      .from('analysis_chat_messages')
+      .insert({
+        user_id: authData.user.id,
+        analysis_id: analysis.id,
+        image_id: analysis.imageId || null,
+        role,
+        content
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error('Failed to persist analysis chat message:', error);
+      return null;
+    }
+
+    return this.transformRow(data);
+  }
+
+  static async clearThread(analysisId: string): Promise<boolean> {
+    const { data: authData } = await supabase.auth.getUser();
+    if (!authData.user) return false;
+
+    const { error } = await supabase
+      .from('analysis_chat_messages')
+      .delete()
+      .eq('analysis_id', analysisId)
+      .eq('user_id', authData.user.id);
+
+    if (error) {
+      console.error('Failed to clear analysis chat thread:', error);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Send the thread to the analysis-chat edge function and stream the reply. The function loads
+   * the stored analysis itself, so only its id goes along.
+   * Resolves with the full assistant text once the stream completes.
+   */
+  static async streamReply(
+    analysis: Pick<UXAnalysis, 'id'>,
+    history: Array<Pick<AnalysisChatMessage, 'role' | 'content'>>,
+    { onDelta, signal }: StreamReplyHandlers
+  ): Promise<string> {
+    const { data, error } = await supabase.functions.invoke('analysis-chat', {
+      body: {
+        analysisId: analysis.id,
+        messages: history.map(({ role, content }) => ({ role, content }))
+      }
+    });
+
+    if (error) throw new Error(error.message || 'Chat request failed');
+
+    const response = data as Response;
+    if (!response?.body) throw new Error('Chat response did not include a stream');
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let fullText = '';
+
+    try {
+      while (true) {
+        if (signal?.aborted) {
+          await reader.cancel();
+          break;
+        }
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        const events = buffer.split('\n\n');
+        buffer = events.pop() ?? '';
+        for (const event of events) {
+          const payload = event.replace(/^data:\s*/, '').trim();
+          if (!payload || payload === '[DONE]') continue;
+
+          const parsed = JSON.parse(payload);
+          if (parsed.error) throw new Error(parsed.error);
+          if (parsed.delta) {
+            fullText += parsed.delta;
+            onDelta(parsed.delta);
+          }
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+
+    return fullText;
+  }
+
+  private static transformRow(row: AnalysisChatMessageRow): AnalysisChatMessage {
+    return {
+      id: row.id,
+      analysisId: row.analysis_id,
+      imageId: row.image_id,
+      role: row.role as AnalysisChatRole,
+      content: row.content,
+      createdAt: new Date(row.created_at)
+    };
+  }
+}
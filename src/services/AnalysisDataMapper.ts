@@ -4,6 +4,7 @@
  */
 
 import type { UXAnalysis } from '@/types/ux-analysis';
+import { normalizeRegion, withNormalizedRegion } from '@/utils/annotationRegions';
 
 console.log('🔍 BUILD DEBUG: AnalysisDataMapper file loading...');
 
@@ -28,7 +29,7 @@ export class AnalysisDataMapper {
 
     // Compute visual annotations: prefer backend-provided; else derive from Vision metadata.objects
     let visualAnnotations: any[] | undefined = Array.isArray(sourceData.visual_annotations || sourceData.visualAnnotations)
-      ? (sourceData.visual_annotations || sourceData.visualAnnotations)
+      ? (sourceData.visual_annotations || sourceData.visualAnnotations).map((a: unknown) => a && typeof a === 'object' ? withNormalizedRegion(a as Record<string, unknown>) : a)
       : undefined;
 
     if (!visualAnnotations || visualAnnotations.length === 0) {
@@ -51,6 +52,7 @@ export class AnalysisDataMapper {
               id: `${sourceData.id || 'analysis'}-vision-${idx}`,
               x: Math.max(0, Math.min(1, centerX)),
               y: Math.max(0, Math.min(1, centerY)),
+              region: normalizeRegion(bbox),
               type: 'suggestion',
               title: obj.name ? `Detected: ${obj.name}` : 'Detected object',
               description:
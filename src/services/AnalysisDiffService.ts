@@ -0,0 +1,221 @@
+/**
+ * Analysis Diff Service
+ * Compares two versions of a ux_analyses record for the same screen: score deltas,
+ * resolved / new / persisting suggestions and moved annotations.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { AnalysisDataMapper } from './AnalysisDataMapper';
+import { matchBySimilarity, textSimilarity } from '@/utils/textSimilarity';
+import type { AnnotationPoint, Suggestion, UXAnalysis } from '@/types/ux-analysis';
+
+export type CategoryKey = 'usability' | 'accessibility' | 'visual' | 'content';
+
+export interface VersionedAnalysis {
+  analysis: UXAnalysis;
+  version: number | null;
+}
+
+export interface ScoreDelta {
+  key: string;
+  previous: number | null;
+  current: number | null;
+  delta: number | null;
+}
+
+export interface PersistingSuggestion {
+  previous: Suggestion;
+  current: Suggestion;
+  similarity: number;
+  impactChanged: boolean;
+}
+
+export interface AnnotationChange {
+  previous: AnnotationPoint;
+  current: AnnotationPoint;
+  similarity: number;
+  distance: number;
+  moved: boolean;
+  severityChanged: boolean;
+}
+
+export interface AnalysisDiff {
+  previous: VersionedAnalysis;
+  current: VersionedAnalysis;
+  overallScore: ScoreDelta;
+  categoryScores: ScoreDelta[];
+  suggestions: {
+    resolved: Suggestion[];
+    added: Suggestion[];
+    persisting: PersistingSuggestion[];
+  };
+  annotations: {
+    removed: AnnotationPoint[];
+    added: AnnotationPoint[];
+    matched: AnnotationChange[];
+  };
+}
+
+const CATEGORY_KEYS: CategoryKey[] = ['usability', 'accessibility', 'visual', 'content'];
+
+// Tuned against re-runs of the same screen: lower thresholds start pairing unrelated findings
+const SUGGESTION_MATCH_THRESHOLD = 0.45;
+const ANNOTATION_MATCH_THRESHOLD = 0.5;
+// Annotation coordinates are normalized 0-1; 5% of the image counts as a move
+const ANNOTATION_MOVE_THRESHOLD = 0.05;
+
+export class AnalysisDiffService {
+  /**
+   * Load a single analysis version by id, mapped to the frontend shape
+   */
+  static async loadVersion(analysisId: string): Promise<VersionedAnalysis | null> {
+    const { data, error } = await supabase
+      .from('ux_analyses')
+      .select('*')
+      .eq('id', analysisId)
+      .maybeSingle();
+
+    if (error || !data) {
+      console.error('Failed to load analysis version:', error);
+      return null;
+    }
+
+    return {
+      analysis: AnalysisDataMapper.mapBackendToFrontend(data) as UXAnalysis,
+      version: data.version
+    };
+  }
+
+  static diff(previous: VersionedAnalysis, current: VersionedAnalysis): AnalysisDiff {
+    const prevSummary = previous.analysis.summary || ({} as UXAnalysis['summary']);
+    const currSummary = current.analysis.summary || ({} as UXAnalysis['summary']);
+
+    const categoryScores = CATEGORY_KEYS.map(key =>
+      this.scoreDelta(key, prevSummary.categoryScores?.[key], currSummary.categoryScores?.[key])
+    );
+
+    return {
+      previous,
+      current,
+      overallScore: this.scoreDelta('overall', prevSummary.overallScore, currSummary.overallScore),
+      categoryScores,
+      suggestions: this.diffSuggestions(previous.analysis.suggestions || [], current.analysis.suggestions || []),
+      annotations: this.diffAnnotations(previous.analysis.visualAnnotations || [], current.analysis.visualAnnotations || [])
+    };
+  }
+
+  /**
+   * Render the diff as Markdown suitable for pasting into a pull request
+   */
+  static toChangelogMarkdown(diff: AnalysisDiff): string {
+    const label = (v: VersionedAnalysis) => (v.version != null ? `v${v.version}` : v.analysis.id.slice(0, 8));
+    const formatDelta = (d: ScoreDelta) => {
+      if (d.delta == null) return 'n/a';
+      const sign = d.delta > 0 ? '+' : '';
+      return `${d.previous} → ${d.current} (${sign}${d.delta})`;
+    };
+
+    const lines: string[] = [];
+    lines.push(`## UX analysis changes: ${diff.current.analysis.imageName} (${label(diff.previous)} → ${label(diff.current)})`);
+    lines.push('');
+    lines.push('### Scores');
+    lines.push('| Category | Change |');
+    lines.push('| --- | --- |');
+    lines.push(`| Overall | ${formatDelta(diff.overallScore)} |`);
+    diff.categoryScores.forEach(d => {
+      lines.push(`| ${d.key.charAt(0).toUpperCase()}${d.key.slice(1)} | ${formatDelta(d)} |`);
+    });
+
+    const section = (title: string, items: string[]) => {
+      if (items.length === 0) return;
+      lines.push('');
+      lines.push(`### ${title} (${items.length})`);
+      items.forEach(item => lines.push(`- ${item}`));
+    };
+
+    section('Resolved', diff.suggestions.resolved.map(s => `~~${s.title}~~ (${s.category}, ${s.impact} impact)`));
+    section('New', diff.suggestions.added.map(s => `${s.title} (${s.category}, ${s.impact} impact)`));
+    section('Still open', diff.suggestions.persisting.map(p =>
+      p.impactChanged
+        ? `${p.current.title} (impact ${p.previous.impact} → ${p.current.impact})`
+        : `${p.current.title}`
+    ));
+    section('Moved annotations', diff.annotations.matched.filter(a => a.moved).map(a =>
+      `${a.current.title} moved ${(a.distance * 100).toFixed(0)}% of the screen`
+    ));
+
+    return lines.join('\n');
+  }
+
+  private static scoreDelta(key: string, previous?: number, current?: number): ScoreDelta {
+    const prev = typeof previous === 'number' && isFinite(previous) ? previous : null;
+    const curr = typeof current === 'number' && isFinite(current) ? current : null;
+    return {
+      key,
+      previous: prev,
+      current: curr,
+      delta: prev != null && curr != null ? Math.round((curr - prev) * 10) / 10 : null
+    };
+  }
+
+  private static diffSuggestions(previous: Suggestion[], current: Suggestion[]) {
+    const text = (s: Suggestion) => `${s.title} ${s.description} ${(s.actionItems || []).join(' ')}`;
+    const matches = matchBySimilarity(previous, current, (a, b) => {
+      const similarity = textSimilarity(text(a), text(b));
+      // Same-category findings are far more likely to be the same issue
+      return a.category === b.category ? Math.min(1, similarity + 0.1) : similarity;
+    }, SUGGESTION_MATCH_THRESHOLD);
+
+    const matchedPrevious = new Set(matches.map(m => m.previousIndex));
+    const matchedCurrent = new Set(matches.map(m => m.currentIndex));
+
+    return {
+      resolved: previous.filter((_, i) => !matchedPrevious.has(i)),
+      added: current.filter((_, i) => !matchedCurrent.has(i)),
+      persisting: matches.map(m => ({
+        previous: previous[m.previousIndex],
+        current: current[m.currentIndex],
+        similarity: m.similarity,
+        impactChanged: previous[m.previousIndex].impact !== current[m.currentIndex].impact
+      }))
+    };
+  }
+
+  private static diffAnnotations(previous: AnnotationPoint[], current: AnnotationPoint[]) {
+    const text = (a: AnnotationPoint) => `${a.title} ${a.description}`;
+    const matches = matchBySimilarity(previous, current, (a, b) => {
+      const similarity = textSimilarity(text(a), text(b));
+      return a.type === b.type ? similarity : similarity * 0.8;
+    }, ANNOTATION_MATCH_THRESHOLD);
+
+    const matchedPrevious = new Set(matches.map(m => m.previousIndex));
+    const matchedCurrent = new Set(matches.map(m => m.currentIndex));
+
+    return {
+      removed: previous.filter((_, i) => !matchedPrevious.has(i)),
+      added: current.filter((_, i) => !matchedCurrent.has(i)),
+      matched: matches.map(m => {
+        const prev = previous[m.previousIndex];
+        const curr = current[m.currentIndex];
+        const distance = Math.hypot(
+          this.normalizeCoordinate(curr.x) - this.normalizeCoordinate(prev.x),
+          this.normalizeCoordinate(curr.y) - this.normalizeCoordinate(prev.y)
+        );
+        return {
+          previous: prev,
+          current: curr,
+          similarity: m.similarity,
+          distance,
+          moved: distance > ANNOTATION_MOVE_THRESHOLD,
+          severityChanged: prev.severity !== curr.severity
+        };
+      })
+    };
+  }
+
+  // Older analyses store percentages (0-100) rather than fractions
+  private static normalizeCoordinate(value: number): number {
+    if (typeof value !== 'number' || !isFinite(value)) return 0;
+    return value > 1 ? value / 100 : value;
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * Analysis Job Control Service
+ * Cancels and retries event-driven analysis jobs (single image and group) through the job-control
+ * edge function. Each pipeline stage saves its output, so a retry resumes at the stage that failed
+ * and reuses the vision, context and AI outputs that already completed.
+ */
+
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { CostTrackingService } from '@/services/CostTrackingService';
+
+export type JobKind = 'analysis' | 'group';
+
+export interface JobRef {
+  kind: JobKind;
+  id: string;
+}
+
+export interface StageResult {
+  // Pipeline stage, with the provider for vision stages ("vision:google")
+  stage: string;
+  startedAt: string | null;
+  completedAt: string | null;
+  result: unknown;
+}
+
+export interface RetryResult {
+  // Stages whose saved output the retry reuses
+  reused: string[];
+  budgetWarning?: string;
+}
+
+// Pipeline order, matching supabase/functions/_shared/job-stages.ts
+export const PIPELINE_STAGES: Record<JobKind, string[]> = {
+  analysis: ['vision:google', 'context', 'ai', 'synthesis'],
+  group: ['vision:google', 'context', 'ai', 'synthesis']
+};
+
+export const STAGE_NAMES: Record<string, string> = {
+  vision: 'Vision analysis',
+  context: 'Context detection',
+  ai: 'AI analysis',
+  synthesis: 'Synthesis'
+};
+
+export function stageName(stage: string): string {
+  const [base, provider] = stage.split(':');
+  const name = STAGE_NAMES[base] ?? base;
+  return provider ? `${name} (${provider})` : name;
+}
+
+const jobBody = (job: JobRef) => (job.kind === 'group' ? { groupJobId: job.id } : { jobId: job.id });
+
+// job-control explains rejections (already finished, not retryable) in the response body
+async function errorMessage(error: unknown, fallback: string): Promise<string> {
+  if (error instanceof FunctionsHttpError) {
+    try {
+      const body = await (error.context as Response).clone().json();
+      if (body?.error) return body.error;
+    } catch {
+      // fall through to the generic message
+    }
+  }
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
+export class AnalysisJobControlService {
+  /**
+   * Stop a pending or processing job. Workers stop at their next check, so a model call already in
+   * flight still completes but its output is discarded.
+   */
+  static async cancel(job: JobRef): Promise<void> {
+    const { data, error } = await supabase.functions.invoke('job-control', {
+      body: { action: 'cancel', ...jobBody(job) }
+    });
+    if (error) throw new Error(await errorMessage(error, 'Failed to cancel analysis'));
+    if (!data?.success) throw new Error(data?.error || 'Failed to cancel analysis');
+  }
+
+  /**
+   * Re-run a failed or cancelled job. Without fromStage the job resumes at the first stage that has
+   * no saved output; with it, that stage and every later one run again.
+   */
+  static async retry(job: JobRef, fromStage?: string): Promise<RetryResult> {
+    const { data, error } = await supabase.functions.invoke('job-control', {
+      body: { action: 'retry', ...jobBody(job), fromStage: fromStage ?? null }
+    });
+    if (error) {
+      const budgetError = await CostTrackingService.toBudgetError(error);
+      if (budgetError) throw budgetError;
+      throw new Error(await errorMessage(error, 'Failed to retry analysis'));
+    }
+    if (!data?.success) throw new Error(data?.error || 'Failed to retry analysis');
+
+    return { reused: Array.isArray(data.reused) ? data.reused : [], budgetWarning: data.budgetWarning };
+  }
+
+  /**
+   * Saved stage outputs of a job, in pipeline order
+   */
+  static async getCompletedStages(job: JobRef): Promise<StageResult[]> {
+    const { data, error } = await supabase
+      .from('worker_ant_results')
+      .select('ant_type, started_at, completed_at, result')
+      .eq(job.kind === 'group' ? 'group_job_id' : 'job_id', job.id)
+      .eq('status', 'completed');
+    if (error) throw new Error(`Failed to load stage results: ${error.message}`);
+
+    const order = PIPELINE_STAGES[job.kind];
+    return (data || [])
+      .map(row => ({
+        stage: row.ant_type,
+        startedAt: row.started_at,
+        completedAt: row.completed_at,
+        result: row.result
+      }))
+      .sort((a, b) => order.indexOf(a.stage) - order.indexOf(b.stage));
+  }
+}
@@ -0,0 +1,271 @@
+/**
+ * Annotation Thread Service
+ * Threaded human comments (with @mentions) and a resolution status on each AI annotation and suggestion.
+ * Findings are stored as JSON inside ux_analyses, so threads are keyed by (analysis, target type, target id).
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { WorkspaceService, type WorkspaceMember } from './WorkspaceService';
+import type {
+  AnnotationStatus,
+  AnnotationStatusSummary,
+  AnnotationTargetType,
+  AnnotationThreadComment
+} from '@/types/ux-analysis';
+import type { Json, Tables } from '@/integrations/supabase/types';
+
+export interface AnalysisThreads {
+  comments: AnnotationThreadComment[];
+  statuses: Record<string, AnnotationStatus>;
+}
+
+export const ANNOTATION_STATUS_LABELS: Record<AnnotationStatus, string> = {
+  open: 'Open',
+  accepted: 'Accepted',
+  wont_fix: "Won't fix",
+  fixed: 'Fixed'
+};
+
+// Accepted findings are acknowledged but still need work
+const UNRESOLVED_STATUSES: AnnotationStatus[] = ['open', 'accepted'];
+const STATUS_QUERY_CHUNK = 200;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function toComment(row: Tables<'annotation_comments'>): AnnotationThreadComment {
+  return {
+    id: row.id,
+    analysisId: row.analysis_id,
+    targetType: row.target_type as AnnotationTargetType,
+    targetId: row.target_id,
+    parentId: row.parent_id,
+    userId: row.user_id,
+    authorEmail: row.author_email,
+    body: row.body,
+    mentions: row.mentions || [],
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+function asRecords(value: Json | null): Array<{ [key: string]: Json | undefined }> {
+  return Array.isArray(value)
+    ? value.filter((item): item is { [key: string]: Json | undefined } => !!item && typeof item === 'object' && !Array.isArray(item))
+    : [];
+}
+
+export class AnnotationThreadService {
+  static threadKey(targetType: AnnotationTargetType, targetId: string): string {
+    return `${targetType}:${targetId}`;
+  }
+
+  /**
+   * Analyses that only exist locally (not yet saved) cannot carry threads
+   */
+  static canDiscuss(analysisId: string | null | undefined): analysisId is string {
+    return !!analysisId && UUID_PATTERN.test(analysisId);
+  }
+
+  static isResolved(status: AnnotationStatus | undefined): boolean {
+    return !UNRESOLVED_STATUSES.includes(status || 'open');
+  }
+
+  static async getThreads(analysisId: string): Promise<AnalysisThreads> {
+    const [commentsResult, statusesResult] = await Promise.all([
+      supabase
+        .from('annotation_comments')
+        .select('*')
+        .eq('analysis_id', analysisId)
+        .order('created_at', { ascending: true }),
+      supabase
+        .from('annotation_statuses')
+        .select('target_type, target_id, status')
+        .eq('analysis_id', analysisId)
+    ]);
+
+    if (commentsResult.error) throw commentsResult.error;
+    if (statusesResult.error) throw statusesResult.error;
+
+    const statuses: Record<string, AnnotationStatus> = {};
+    (statusesResult.data || []).forEach(row => {
+      statuses[this.threadKey(row.target_type as AnnotationTargetType, row.target_id)] = row.status as AnnotationStatus;
+    });
+
+    return { comments: (commentsResult.data || []).map(toComment), statuses };
+  }
+
+  /**
+   * Members of the current workspace that can be @mentioned
+   */
+  static async getMentionCandidates(): Promise<WorkspaceMember[]> {
+    const workspaceId = await WorkspaceService.getCurrentWorkspaceId();
+    const members = await WorkspaceService.getMembers(workspaceId);
+    return members.filter(member => !!member.email);
+  }
+
+  /**
+   * Mentions are written as @email; only addresses of workspace members resolve to users
+   */
+  static extractMentions(body: string, members: WorkspaceMember[]): string[] {
+    const byEmail = new Map(members.filter(m => m.email).map(m => [m.email!.toLowerCase(), m.userId]));
+    const mentioned = new Set<string>();
+    for (const match of body.matchAll(/@([^\s@]+@[^\s@]+\.[^\s@,;:!?)]+)/g)) {
+      const userId = byEmail.get(match[1].toLowerCase());
+      if (userId) mentioned.add(userId);
+    }
+    return Array.from(mentioned);
+  }
+
+  static async addComment(params: {
+    analysisId: string;
+    targetType: AnnotationTargetType;
+    targetId: string;
+    body: string;
+    parentId?: string | null;
+    members?: WorkspaceMember[];
+  }): Promise<AnnotationThreadComment> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const body = params.body.trim();
+    if (!body) throw new Error('Comment is empty');
+
+    const { data, error } = await supabase
+      .from('annotation_comments')
+      .insert({
+        analysis_id: params.analysisId,
+        target_type: params.targetType,
+        target_id: params.targetId,
+        parent_id: params.parentId ?? null,
+        user_id: user.id,
+        author_email: user.email ?? null,
+        body,
+        mentions: this.extractMentions(body, params.members || [])
+      })
+      .select('*')
+      .single();
+
+    if (error) throw error;
+    return toComment(data);
+  }
+
+  static async updateComment(commentId: string, body: string, members: WorkspaceMember[] = []): Promise<void> {
+    const trimmed = body.trim();
+    if (!trimmed) throw new Error('Comment is empty');
+
+    const { error } = await supabase
+      .from('annotation_comments')
+      .update({ body: trimmed, mentions: this.extractMentions(trimmed, members) })
+      .eq('id', commentId);
+
+    if (error) throw error;
+  }
+
+  static async deleteComment(commentId: string): Promise<void> {
+    const { error } = await supabase
+      .from('annotation_comments')
+      .delete()
+      .eq('id', commentId);
+
+    if (error) throw error;
+  }
+
+  static async setStatus(
+    analysisId: string,
+    targetType: AnnotationTargetType,
+    targetId: string,
+    status: AnnotationStatus
+  ): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { error } = await supabase
+      .from('annotation_statuses')
+      .upsert({
+        analysis_id: analysisId,
+        target_type: targetType,
+        target_id: targetId,
+        status,
+        updated_by: user.id
+      }, { onConflict: 'analysis_id,target_type,target_id' });
+
+    if (error) throw error;
+  }
+
+  /**
+   * Live updates for every thread on an analysis; returns an unsubscribe function
+   */
+  static subscribe(analysisId: string, onChange: () => void): () => void {
+    // Several views can watch the same analysis, so each subscription gets its own channel
+    const channel = supabase
+      .channel(`annotation-threads-${analysisId}-${Math.random().toString(36).slice(2, 8)}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'annotation_comments',
+        filter: `analysis_id=eq.${analysisId}`
+      }, onChange)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'annotation_statuses',
+        filter: `analysis_id=eq.${analysisId}`
+      }, onChange)
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }
+
+  /**
+   * Count findings by review status. Issue annotations and suggestions without a status row are open.
+   */
+  static async summarizeStatuses(
+    analyses: Array<{ id: string; visual_annotations: Json | null; suggestions: Json | null }>
+  ): Promise<AnnotationStatusSummary> {
+    const summary: AnnotationStatusSummary = { open: 0, accepted: 0, wontFix: 0, fixed: 0, openHighSeverity: 0 };
+    if (analyses.length === 0) return summary;
+
+    const statuses = new Map<string, AnnotationStatus>();
+    const analysisIds = analyses.map(a => a.id);
+    for (let i = 0; i < analysisIds.length; i += STATUS_QUERY_CHUNK) {
+      const { data, error } = await supabase
+        .from('annotation_statuses')
+        .select('analysis_id, target_type, target_id, status')
+        .in('analysis_id', analysisIds.slice(i, i + STATUS_QUERY_CHUNK));
+
+      if (error) {
+        console.warn('[AnnotationThreadService] Failed to load statuses, treating findings as open:', error);
+        break;
+      }
+      data?.forEach(row => {
+        statuses.set(`${row.analysis_id}:${row.target_type}:${row.target_id}`, row.status as AnnotationStatus);
+      });
+    }
+
+    const count = (status: AnnotationStatus, isHighSeverity: boolean) => {
+      if (status === 'open') summary.open++;
+      else if (status === 'accepted') summary.accepted++;
+      else if (status === 'wont_fix') summary.wontFix++;
+      else summary.fixed++;
+      if (isHighSeverity && !this.isResolved(status)) summary.openHighSeverity++;
+    };
+
+    analyses.forEach(analysis => {
+      asRecords(analysis.visual_annotations)
+        .filter(annotation => annotation.type === 'issue' && typeof annotation.id === 'string')
+        .forEach(annotation => {
+          const status = statuses.get(`${analysis.id}:annotation:${annotation.id}`) || 'open';
+          count(status, annotation.severity === 'high');
+        });
+
+      asRecords(analysis.suggestions)
+        .filter(suggestion => typeof suggestion.id === 'string')
+        .forEach(suggestion => {
+          count(statuses.get(`${analysis.id}:suggestion:${suggestion.id}`) || 'open', false);
+        });
+    });
+
+    return summary;
+  }
+}
@@ -0,0 +1,403 @@
+/**
+ * Canvas Collaboration Service
+ * Realtime presence (cursors, selections) and conflict-free merging of shared canvas edits
+ * for everyone looking at the same project.
+ *
+ * - Node positions are last-writer-wins registers ordered by a Lamport clock, so concurrent moves
+ *   converge to the same layout on every client regardless of delivery order.
+ * - Group creation and deletion are commutative: group ids are UUIDs and deletions leave a tombstone,
+ *   so a late "created" never resurrects a deleted group.
+ * - Remote edits are routed through the EventDrivenSyncService queue with source 'remote' and never
+ *   enter the local undo history.
+ */
+
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import type { Node } from '@xyflow/react';
+import { supabase } from '@/integrations/supabase/client';
+import { eventDrivenSyncService } from './EventDrivenSyncService';
+import type { ImageGroup } from '@/types/ux-analysis';
+
+export interface CanvasPoint {
+  x: number;
+  y: number;
+}
+
+export interface CanvasPeer {
+  key: string;
+  userId: string;
+  email: string | null;
+  color: string;
+  cursor: CanvasPoint | null;
+  selectedNodeIds: string[];
+}
+
+export interface CanvasNodeMove extends CanvasPoint {
+  nodeId: string;
+}
+
+export type CanvasOperation =
+  | { type: 'nodes_moved'; moves: CanvasNodeMove[]; clock: number; userId: string }
+  | { type: 'group_created'; group: ImageGroup; clock: number; userId: string }
+  | { type: 'group_deleted'; groupId: string; clock: number; userId: string };
+
+interface LayoutEntry extends CanvasPoint {
+  clock: number;
+  userId: string;
+}
+
+interface PresencePayload {
+  userId: string;
+  email: string | null;
+  color: string;
+  selectedNodeIds: string[];
+}
+
+const PEER_COLORS = ['#e11d48', '#2563eb', '#16a34a', '#d97706', '#7c3aed', '#0891b2', '#db2777', '#65a30d'];
+const CURSOR_THROTTLE_MS = 50;
+const PERSIST_DEBOUNCE_MS = 600;
+
+/**
+ * Stable color per user so the same teammate looks the same in every tab
+ */
+export function colorForUser(userId: string): string {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) {
+    hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+  }
+  return PEER_COLORS[Math.abs(hash) % PEER_COLORS.length];
+}
+
+// Total order for concurrent writes: higher clock wins, user id breaks ties
+function isNewer(a: { clock: number; userId: string }, b: { clock: number; userId: string }): boolean {
+  return a.clock > b.clock || (a.clock === b.clock && a.userId > b.userId);
+}
+
+class CanvasCollaborationService {
+  private channel: RealtimeChannel | null = null;
+  private projectId: string | null = null;
+  private userId: string | null = null;
+  private sessionKey = '';
+  private presence: PresencePayload | null = null;
+
+  private clock = 0;
+  private layout = new Map<string, LayoutEntry>();
+  private deletedGroups = new Set<string>();
+  private peers = new Map<string, CanvasPeer>();
+  private cursors = new Map<string, CanvasPoint | null>();
+
+  private pendingMoves = new Map<string, LayoutEntry>();
+  private persistTimer: ReturnType<typeof setTimeout> | null = null;
+  private lastCursorSentAt = 0;
+  private joinGeneration = 0;
+  private listeners = new Set<() => void>();
+
+  /**
+   * Join the realtime room of a project. Leaves any previous room first.
+   */
+  async join(projectId: string, user: { id: string; email?: string | null }): Promise<void> {
+    if (this.projectId === projectId && this.userId === user.id && this.channel) return;
+    await this.leave();
+    // A later join or leave supersedes this one while it is still loading
+    const generation = this.joinGeneration;
+
+    this.projectId = projectId;
+    this.userId = user.id;
+    this.sessionKey = `${user.id}:${Math.random().toString(36).slice(2, 10)}`;
+    this.presence = {
+      userId: user.id,
+      email: user.email ?? null,
+      color: colorForUser(user.id),
+      selectedNodeIds: []
+    };
+
+    await this.loadLayout(projectId);
+    if (generation !== this.joinGeneration) return;
+
+    const channel = supabase.channel(`canvas-${projectId}`, {
+      config: { presence: { key: this.sessionKey }, broadcast: { self: false } }
+    });
+
+    channel
+      .on('presence', { event: 'sync' }, () => this.syncPeers())
+      .on('broadcast', { event: 'cursor' }, ({ payload }) => {
+        if (!payload?.key) return;
+        this.cursors.set(payload.key, payload.cursor ?? null);
+        const peer = this.peers.get(payload.key);
+        if (peer) {
+          this.peers.set(payload.key, { ...peer, cursor: payload.cursor ?? null });
+          this.notify();
+        }
+      })
+      .on('broadcast', { event: 'operation' }, ({ payload }) => {
+        this.applyOperation(payload as CanvasOperation, 'remote');
+      })
+      .subscribe(async (status) => {
+        if (status !== 'SUBSCRIBED' || this.channel !== channel) return;
+        await channel.track(this.presence!);
+        // Catch up on moves that were broadcast while this client was disconnected
+        await this.loadLayout(projectId);
+      });
+
+    this.channel = channel;
+  }
+
+  async leave(): Promise<void> {
+    this.joinGeneration += 1;
+    await this.flushMoves();
+    if (this.channel) {
+      const channel = this.channel;
+      this.channel = null;
+      await supabase.removeChannel(channel);
+    }
+    this.projectId = null;
+    this.userId = null;
+    this.presence = null;
+    this.layout.clear();
+    this.deletedGroups.clear();
+    this.peers.clear();
+    this.cursors.clear();
+    this.notify();
+  }
+
+  /**
+   * Subscribe to peer and layout changes; returns an unsubscribe function
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getPeers(): CanvasPeer[] {
+    return Array.from(this.peers.values());
+  }
+
+  updateCursor(cursor: CanvasPoint | null): void {
+    if (!this.channel) return;
+    const now = Date.now();
+    if (cursor && now - this.lastCursorSentAt < CURSOR_THROTTLE_MS) return;
+    this.lastCursorSentAt = now;
+    this.channel.send({ type: 'broadcast', event: 'cursor', payload: { key: this.sessionKey, cursor } });
+  }
+
+  updateSelection(selectedNodeIds: string[]): void {
+    if (!this.channel || !this.presence) return;
+    const unchanged = selectedNodeIds.length === this.presence.selectedNodeIds.length
+      && selectedNodeIds.every((id, i) => id === this.presence!.selectedNodeIds[i]);
+    if (unchanged) return;
+    this.presence = { ...this.presence, selectedNodeIds };
+    this.channel.track(this.presence);
+  }
+
+  /**
+   * Overlay the merged shared layout on freshly generated nodes
+   */
+  applyLayout(nodes: Node[]): Node[] {
+    if (this.layout.size === 0) return nodes;
+    return nodes.map(node => {
+      const entry = this.layout.get(node.id);
+      return entry && (entry.x !== node.position.x || entry.y !== node.position.y)
+        ? { ...node, position: { x: entry.x, y: entry.y } }
+        : node;
+    });
+  }
+
+  /**
+   * Keep positions last written by other users when restoring a local undo/redo snapshot,
+   * so undo only reverts this user's own moves
+   */
+  rebaseNodes(nodes: Node[]): Node[] {
+    return nodes.map(node => {
+      const entry = this.layout.get(node.id);
+      return entry && entry.userId !== this.userId
+        ? { ...node, position: { x: entry.x, y: entry.y } }
+        : node;
+    });
+  }
+
+  /**
+   * Record local moves and share them. With onlyTracked, nodes that were never moved by anyone are
+   * skipped, which lets callers pass a whole restored snapshot.
+   */
+  recordLocalMoves(nodes: Array<Pick<Node, 'id' | 'position'>>, options: { onlyTracked?: boolean } = {}): void {
+    if (!this.userId) return;
+
+    const moves = nodes
+      .filter(node => {
+        const entry = this.layout.get(node.id);
+        if (!entry) return !options.onlyTracked;
+        return entry.x !== node.position.x || entry.y !== node.position.y;
+      })
+      .map(node => ({ nodeId: node.id, x: node.position.x, y: node.position.y }));
+    if (moves.length === 0) return;
+
+    this.emitLocal({ type: 'nodes_moved', moves, clock: this.tick(), userId: this.userId });
+  }
+
+  shareGroupCreated(group: ImageGroup): void {
+    if (!this.userId) return;
+    this.emitLocal({ type: 'group_created', group, clock: this.tick(), userId: this.userId });
+  }
+
+  shareGroupDeleted(groupId: string): void {
+    if (!this.userId) return;
+    this.emitLocal({ type: 'group_deleted', groupId, clock: this.tick(), userId: this.userId });
+  }
+
+  private tick(): number {
+    this.clock += 1;
+    return this.clock;
+  }
+
+  private emitLocal(operation: CanvasOperation): void {
+    this.applyOperation(operation, 'local');
+    this.channel?.send({ type: 'broadcast', event: 'operation', payload: operation });
+  }
+
+  private applyOperation(operation: CanvasOperation, source: 'local' | 'remote'): void {
+    this.clock = Math.max(this.clock, operation.clock);
+
+    switch (operation.type) {
+      case 'nodes_moved': {
+        const applied = this.mergeMoves(
+          operation.moves.map(move => ({ ...move, clock: operation.clock, userId: operation.userId }))
+        );
+        if (source === 'local') {
+          applied.forEach(({ nodeId, ...entry }) => this.pendingMoves.set(nodeId, entry));
+          this.schedulePersist();
+        } else if (applied.length > 0) {
+          eventDrivenSyncService.emitSyncEvent({ type: 'canvas_nodes_moved', payload: applied, source: 'remote' });
+        }
+        break;
+      }
+
+      case 'group_created':
+        if (this.deletedGroups.has(operation.group.id)) return;
+        if (source === 'remote') {
+          eventDrivenSyncService.emitSyncEvent({ type: 'group_created', payload: operation.group, source: 'remote' });
+        }
+        break;
+
+      case 'group_deleted':
+        if (this.deletedGroups.has(operation.groupId)) return;
+        this.deletedGroups.add(operation.groupId);
+        if (source === 'remote') {
+          eventDrivenSyncService.emitSyncEvent({ type: 'group_deleted', payload: { id: operation.groupId }, source: 'remote' });
+        }
+        break;
+    }
+
+    this.notify();
+  }
+
+  /**
+   * Last-writer-wins merge into the layout; returns the moves that took effect
+   */
+  private mergeMoves(moves: Array<LayoutEntry & { nodeId: string }>): Array<LayoutEntry & { nodeId: string }> {
+    return moves.filter(({ nodeId, ...next }) => {
+      const current = this.layout.get(nodeId);
+      if (current && !isNewer(next, current)) return false;
+      this.layout.set(nodeId, next);
+      return true;
+    });
+  }
+
+  private async loadLayout(projectId: string): Promise<void> {
+    const { data, error } = await supabase
+      .from('canvas_node_positions')
+      .select('node_id, x, y, clock, updated_by')
+      .eq('project_id', projectId);
+
+    if (error) {
+      console.warn('[CanvasCollaboration] Failed to load shared layout:', error);
+      return;
+    }
+    if (this.projectId !== projectId) return;
+
+    const applied = this.mergeMoves((data || []).map(row => ({
+      nodeId: row.node_id,
+      x: row.x,
+      y: row.y,
+      clock: row.clock,
+      userId: row.updated_by || ''
+    })));
+    this.clock = Math.max(this.clock, ...applied.map(move => move.clock));
+
+    if (applied.length > 0) {
+      eventDrivenSyncService.emitSyncEvent({ type: 'canvas_nodes_moved', payload: applied, source: 'remote' });
+      this.notify();
+    }
+  }
+
+  private schedulePersist(): void {
+    if (this.persistTimer) clearTimeout(this.persistTimer);
+    this.persistTimer = setTimeout(() => {
+      this.flushMoves();
+    }, PERSIST_DEBOUNCE_MS);
+  }
+
+  private async flushMoves(): Promise<void> {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
+    if (!this.projectId || this.pendingMoves.size === 0) return;
+
+    const projectId = this.projectId;
+    const rows = Array.from(this.pendingMoves.entries()).map(([nodeId, entry]) => ({
+      project_id: projectId,
+      node_id: nodeId,
+      x: entry.x,
+      y: entry.y,
+      clock: entry.clock,
+      updated_by: entry.userId
+    }));
+    this.pendingMoves.clear();
+
+    const { error } = await supabase
+      .from('canvas_node_positions')
+      .upsert(rows, { onConflict: 'project_id,node_id' });
+
+    if (error) {
+      console.error('[CanvasCollaboration] Failed to persist node positions:', error);
+    }
+  }
+
+  private syncPeers(): void {
+    if (!this.channel) return;
+    const state = this.channel.presenceState<PresencePayload>();
+    const peers = new Map<string, CanvasPeer>();
+
+    Object.entries(state).forEach(([key, metas]) => {
+      const meta = metas[metas.length - 1];
+      if (!meta || key === this.sessionKey) return;
+      peers.set(key, {
+        key,
+        userId: meta.userId,
+        email: meta.email,
+        color: meta.color,
+        cursor: this.cursors.get(key) ?? null,
+        selectedNodeIds: meta.selectedNodeIds || []
+      });
+    });
+
+    Array.from(this.cursors.keys()).forEach(key => {
+      if (!peers.has(key)) this.cursors.delete(key);
+    });
+    this.peers = peers;
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('[CanvasCollaboration] Listener error:', error);
+      }
+    });
+  }
+}
+
+export const canvasCollaborationService = new CanvasCollaborationService();
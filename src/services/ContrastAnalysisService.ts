@@ -0,0 +1,393 @@
+/**
+ * Contrast Analysis Service
+ * Deterministic WCAG 2.x contrast check computed from screenshot pixels. Foreground and background
+ * colors are sampled inside the text boxes found by Google Vision TEXT_DETECTION; failures become
+ * annotations with the measured ratio, the required threshold and the nearest compliant color, and the
+ * measured pass rate is blended into the analysis' accessibility score.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { AnalysisDataMapper } from './AnalysisDataMapper';
+import { normalizeRegion } from '@/utils/annotationRegions';
+import type {
+  AnnotationPoint,
+  ContrastFinding,
+  ContrastReport,
+  Suggestion,
+  UXAnalysis
+} from '@/types/ux-analysis';
+
+interface TextBox {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface Rgb {
+  r: number;
+  g: number;
+  b: number;
+}
+
+interface WordMeasurement {
+  box: TextBox;
+  foreground: Rgb;
+  background: Rgb;
+  ratio: number;
+  largeText: boolean;
+}
+
+// WCAG 2.x success criteria 1.4.3 (AA) and 1.4.6 (AAA)
+const THRESHOLDS = {
+  normal: { aa: 4.5, aaa: 7 },
+  large: { aa: 3, aaa: 4.5 }
+};
+// 18pt regular text; bold is not detectable from pixels, so 14pt bold counts as normal text
+const LARGE_TEXT_PX = 24;
+// A color must cover this share of the box to count as the text color rather than anti-aliasing
+const MIN_FOREGROUND_SHARE = 0.04;
+// Weight of the measured pass rate in the blended accessibility score
+const MEASURED_WEIGHT = 0.5;
+const MAX_CONTRAST_ANNOTATIONS = 15;
+
+const toHex = ({ r, g, b }: Rgb) =>
+  `#${[r, g, b].map(c => Math.max(0, Math.min(255, Math.round(c))).toString(16).padStart(2, '0')).join('')}`.toUpperCase();
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to load image for contrast analysis'));
+    image.src = url;
+  });
+}
+
+/**
+ * Screenshots of phones and retina displays are captured at 2-3x; text size thresholds are in CSS pixels
+ */
+function guessPixelRatio(width: number, height: number): number {
+  if (height > width && width >= 1100) return 3;
+  if (height > width && width >= 700) return 2;
+  if (width >= 2400) return 2;
+  return 1;
+}
+
+function rgbToHsl({ r, g, b }: Rgb): [number, number, number] {
+  const [rn, gn, bn] = [r / 255, g / 255, b / 255];
+  const max = Math.max(rn, gn, bn);
+  const min = Math.min(rn, gn, bn);
+  const l = (max + min) / 2;
+  if (max === min) return [0, 0, l];
+  const d = max - min;
+  const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+  const h = max === rn ? (gn - bn) / d + (gn < bn ? 6 : 0) : max === gn ? (bn - rn) / d + 2 : (rn - gn) / d + 4;
+  return [h / 6, s, l];
+}
+
+function hslToRgb(h: number, s: number, l: number): Rgb {
+  if (s === 0) return { r: l * 255, g: l * 255, b: l * 255 };
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+  const p = 2 * l - q;
+  const channel = (t: number) => {
+    const k = t < 0 ? t + 1 : t > 1 ? t - 1 : t;
+    if (k < 1 / 6) return p + (q - p) * 6 * k;
+    if (k < 1 / 2) return q;
+    if (k < 2 / 3) return p + (q - p) * (2 / 3 - k) * 6;
+    return p;
+  };
+  return { r: channel(h + 1 / 3) * 255, g: channel(h) * 255, b: channel(h - 1 / 3) * 255 };
+}
+
+export class ContrastAnalysisService {
+  static relativeLuminance({ r, g, b }: Rgb): number {
+    const linear = (c: number) => {
+      const s = c / 255;
+      return s <= 0.03928 ? s / 12.92 : Math.pow((s + 0.055) / 1.055, 2.4);
+    };
+    return 0.2126 * linear(r) + 0.7152 * linear(g) + 0.0722 * linear(b);
+  }
+
+  static contrastRatio(a: Rgb, b: Rgb): number {
+    const la = this.relativeLuminance(a);
+    const lb = this.relativeLuminance(b);
+    return (Math.max(la, lb) + 0.05) / (Math.min(la, lb) + 0.05);
+  }
+
+  /**
+   * Closest foreground (same hue and saturation, shifted lightness) reaching the target ratio
+   */
+  static nearestCompliantColor(foreground: Rgb, background: Rgb, target: number): { color: string; ratio: number } | null {
+    const [h, s, l] = rgbToHsl(foreground);
+    // Aim slightly above the target so rounding to 8-bit channels cannot land just under it
+    const goal = target + 0.02;
+    const candidates: Array<{ rgb: Rgb; delta: number }> = [];
+
+    ([0, 1] as const).forEach(bound => {
+      const extreme = hslToRgb(h, s, bound);
+      if (this.contrastRatio(extreme, background) < goal) return;
+      let lo = l;
+      let hi: number = bound;
+      for (let i = 0; i < 20; i++) {
+        const mid = (lo + hi) / 2;
+        if (this.contrastRatio(hslToRgb(h, s, mid), background) >= goal) hi = mid;
+        else lo = mid;
+      }
+      candidates.push({ rgb: hslToRgb(h, s, hi), delta: Math.abs(hi - l) });
+    });
+
+    const best = candidates.sort((a, b) => a.delta - b.delta)[0];
+    if (!best) return null;
+    const rgb = { r: Math.round(best.rgb.r), g: Math.round(best.rgb.g), b: Math.round(best.rgb.b) };
+    return { color: toHex(rgb), ratio: round2(this.contrastRatio(rgb, background)) };
+  }
+
+  /**
+   * Background is the most common color in the box; the text color is the significant color that
+   * contrasts most with it (anti-aliased edge pixels fall in between)
+   */
+  private static sampleColors(pixels: Uint8ClampedArray): { foreground: Rgb; background: Rgb } | null {
+    const buckets = new Map<number, { count: number; r: number; g: number; b: number }>();
+    let total = 0;
+    for (let i = 0; i < pixels.length; i += 4) {
+      if (pixels[i + 3] < 128) continue;
+      const key = ((pixels[i] >> 4) << 8) | ((pixels[i + 1] >> 4) << 4) | (pixels[i + 2] >> 4);
+      const bucket = buckets.get(key) || { count: 0, r: 0, g: 0, b: 0 };
+      bucket.count++;
+      bucket.r += pixels[i];
+      bucket.g += pixels[i + 1];
+      bucket.b += pixels[i + 2];
+      buckets.set(key, bucket);
+      total++;
+    }
+    if (total === 0) return null;
+
+    const colors = Array.from(buckets.values())
+      .map(bucket => ({ count: bucket.count, rgb: { r: bucket.r / bucket.count, g: bucket.g / bucket.count, b: bucket.b / bucket.count } }))
+      .sort((a, b) => b.count - a.count);
+    const background = colors[0].rgb;
+    const minCount = Math.max(4, total * MIN_FOREGROUND_SHARE);
+
+    let foreground: Rgb | null = null;
+    let bestRatio = 1;
+    colors.slice(1).forEach(color => {
+      if (color.count < minCount) return;
+      const ratio = this.contrastRatio(color.rgb, background);
+      if (ratio > bestRatio) {
+        bestRatio = ratio;
+        foreground = color.rgb;
+      }
+    });
+    return foreground ? { foreground, background } : null;
+  }
+
+  /**
+   * Words on the same line with the same colors are reported as one finding
+   */
+  private static groupLines(words: WordMeasurement[]): WordMeasurement[][] {
+    const groups: WordMeasurement[][] = [];
+    [...words].sort((a, b) => a.box.y - b.box.y || a.box.x - b.box.x).forEach(word => {
+      const group = groups.find(g => {
+        const last = g[g.length - 1];
+        const overlap = Math.min(last.box.y + last.box.height, word.box.y + word.box.height) - Math.max(last.box.y, word.box.y);
+        const gap = word.box.x - (last.box.x + last.box.width);
+        return overlap > Math.min(last.box.height, word.box.height) / 2
+          && gap >= -last.box.height && gap < last.box.height * 2
+          && this.contrastRatio(last.foreground, word.foreground) < 1.15
+          && this.contrastRatio(last.background, word.background) < 1.15;
+      });
+      if (group) group.push(word);
+      else groups.push([word]);
+    });
+    return groups;
+  }
+
+  /**
+   * Measure every detected word; returns the contrast report without annotations
+   */
+  static async analyzeImage(imageUrl: string, textBoxes: TextBox[]): Promise<{ report: Omit<ContrastReport, 'aiAccessibilityScore'>; width: number; height: number }> {
+    const image = await loadImage(imageUrl);
+    const width = image.naturalWidth;
+    const height = image.naturalHeight;
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context) throw new Error('Canvas is not available for contrast analysis');
+    context.drawImage(image, 0, 0);
+
+    const pixelRatio = guessPixelRatio(width, height);
+    const words: WordMeasurement[] = [];
+
+    textBoxes.forEach(box => {
+      // Skip the whole-text block and boxes too small to sample
+      if (box.text.includes('\n') || box.width * box.height > width * height * 0.25) return;
+      if (box.width < 4 || box.height < 4 || !/[\p{L}\p{N}]/u.test(box.text)) return;
+
+      const x = Math.max(0, Math.floor(box.x));
+      const y = Math.max(0, Math.floor(box.y));
+      const w = Math.min(width - x, Math.ceil(box.width));
+      const h = Math.min(height - y, Math.ceil(box.height));
+      if (w <= 0 || h <= 0) return;
+
+      const colors = this.sampleColors(context.getImageData(x, y, w, h).data);
+      if (!colors) return;
+      words.push({
+        box,
+        ...colors,
+        ratio: this.contrastRatio(colors.foreground, colors.background),
+        largeText: box.height / pixelRatio >= LARGE_TEXT_PX
+      });
+    });
+
+    const findings: ContrastFinding[] = this.groupLines(words.filter(word => {
+      const required = word.largeText ? THRESHOLDS.large : THRESHOLDS.normal;
+      return word.ratio < required.aa;
+    })).map(group => {
+      const worst = group.reduce((min, word) => word.ratio < min.ratio ? word : min);
+      const required = worst.largeText ? THRESHOLDS.large : THRESHOLDS.normal;
+      const x = Math.min(...group.map(word => word.box.x));
+      const y = Math.min(...group.map(word => word.box.y));
+      return {
+        id: crypto.randomUUID(),
+        text: group.map(word => word.box.text).join(' '),
+        boundingBox: {
+          x,
+          y,
+          width: Math.max(...group.map(word => word.box.x + word.box.width)) - x,
+          height: Math.max(...group.map(word => word.box.y + word.box.height)) - y
+        },
+        foreground: toHex(worst.foreground),
+        background: toHex(worst.background),
+        ratio: round2(worst.ratio),
+        largeText: worst.largeText,
+        required,
+        level: 'fail' as const,
+        suggestion: this.nearestCompliantColor(worst.foreground, worst.background, required.aa)
+      };
+    }).sort((a, b) => a.ratio - b.ratio);
+
+    const passing = words.filter(word => word.ratio >= (word.largeText ? THRESHOLDS.large : THRESHOLDS.normal).aa).length;
+    return {
+      width,
+      height,
+      report: {
+        checkedAt: new Date().toISOString(),
+        textCount: words.length,
+        failCount: words.length - passing,
+        score: words.length > 0 ? Math.round((passing / words.length) * 100) : 100,
+        findings
+      }
+    };
+  }
+
+  static toAnnotations(findings: ContrastFinding[], width: number, height: number): AnnotationPoint[] {
+    return findings.slice(0, MAX_CONTRAST_ANNOTATIONS).map((finding, index) => {
+      const id = `contrast-${index + 1}`;
+      finding.annotationId = id;
+      const textSize = finding.largeText ? 'Large text' : 'Normal text';
+      const fix = finding.suggestion
+        ? ` Nearest compliant color: ${finding.suggestion.color} (${finding.suggestion.ratio}:1).`
+        : '';
+      const box = finding.boundingBox;
+      return {
+        id,
+        x: Math.max(0, Math.min(1, (box.x + box.width / 2) / width)),
+        y: Math.max(0, Math.min(1, (box.y + box.height / 2) / height)),
+        region: normalizeRegion({ x: box.x / width, y: box.y / height, width: box.width / width, height: box.height / height }),
+        type: 'issue' as const,
+        title: `Low contrast ${finding.ratio}:1`,
+        description: `"${finding.text.slice(0, 60)}" measures ${finding.ratio}:1 (${finding.foreground} on ${finding.background}). ` +
+          `${textSize} needs ${finding.required.aa}:1 for WCAG AA and ${finding.required.aaa}:1 for AAA.${fix}`,
+        severity: finding.ratio < 3 ? 'high' as const : 'medium' as const
+      };
+    });
+  }
+
+  /**
+   * Run the contrast check for a completed analysis and merge it into the stored result: annotations,
+   * one accessibility suggestion, the blended accessibility score and metadata.contrast.
+   * Analyses that were already checked or whose image has no detected text are returned unchanged.
+   */
+  static async applyToAnalysis(analysis: Partial<UXAnalysis>, imageUrl: string): Promise<Partial<UXAnalysis>> {
+    if (!analysis.id || !analysis.imageId || analysis.metadata?.contrast) return analysis;
+
+    const { data: image } = await supabase
+      .from('images')
+      .select('metadata')
+      .eq('id', analysis.imageId)
+      .maybeSingle();
+
+    const googleVision = (image?.metadata as Record<string, Json> | null)?.googleVision as Record<string, Json> | undefined;
+    const textBoxes: TextBox[] = (Array.isArray(googleVision?.text) ? googleVision.text : []).flatMap(entry => {
+      const item = entry as { description?: unknown; boundingBox?: Partial<TextBox> } | null;
+      const box = item?.boundingBox;
+      if (typeof item?.description !== 'string' || !box) return [];
+      if (![box.x, box.y, box.width, box.height].every(n => typeof n === 'number' && Number.isFinite(n))) return [];
+      return [{ text: item.description, x: box.x!, y: box.y!, width: box.width!, height: box.height! }];
+    });
+    if (textBoxes.length === 0) return analysis;
+
+    const { report, width, height } = await this.analyzeImage(imageUrl, textBoxes);
+    const annotations = this.toAnnotations(report.findings, width, height);
+
+    const { data: row, error } = await supabase
+      .from('ux_analyses')
+      .select('*')
+      .eq('id', analysis.id)
+      .single();
+    if (error) throw error;
+
+    const summary = (row.summary && typeof row.summary === 'object' ? row.summary : {}) as Record<string, Json>;
+    const categoryScores = (summary.categoryScores && typeof summary.categoryScores === 'object' ? summary.categoryScores : {}) as Record<string, Json>;
+    const aiAccessibilityScore = typeof categoryScores.accessibility === 'number' ? categoryScores.accessibility : null;
+    const accessibility = aiAccessibilityScore === null
+      ? report.score
+      : Math.round(aiAccessibilityScore * (1 - MEASURED_WEIGHT) + report.score * MEASURED_WEIGHT);
+
+    const suggestion: Suggestion | null = report.findings.length > 0 ? {
+      id: 'contrast-fixes',
+      category: 'accessibility',
+      title: `Fix ${report.findings.length} low-contrast text element${report.findings.length !== 1 ? 's' : ''}`,
+      description: `${report.failCount} of ${report.textCount} measured words fall below the WCAG AA contrast minimum.`,
+      impact: report.findings.some(finding => finding.ratio < 3) ? 'high' : 'medium',
+      effort: 'low',
+      actionItems: report.findings.slice(0, MAX_CONTRAST_ANNOTATIONS).map(finding =>
+        finding.suggestion
+          ? `"${finding.text.slice(0, 40)}": change ${finding.foreground} to ${finding.suggestion.color} (${finding.ratio}:1 → ${finding.suggestion.ratio}:1)`
+          : `"${finding.text.slice(0, 40)}": change the background behind ${finding.foreground} (${finding.ratio}:1)`
+      ),
+      relatedAnnotations: annotations.map(annotation => annotation.id)
+    } : null;
+
+    const contrast: ContrastReport = { ...report, aiAccessibilityScore };
+    const { data: updated, error: updateError } = await supabase
+      .from('ux_analyses')
+      .update({
+        summary: { ...summary, categoryScores: { ...categoryScores, accessibility } },
+        visual_annotations: [
+          ...(Array.isArray(row.visual_annotations) ? row.visual_annotations : []),
+          ...annotations
+        ] as unknown as Json,
+        suggestions: [
+          ...(Array.isArray(row.suggestions) ? row.suggestions : []),
+          ...(suggestion ? [suggestion] : [])
+        ] as unknown as Json,
+        metadata: {
+          ...(row.metadata && typeof row.metadata === 'object' ? row.metadata as Record<string, Json> : {}),
+          contrast
+        } as unknown as Json
+      })
+      .eq('id', analysis.id)
+      .select('*')
+      .single();
+    if (updateError) throw updateError;
+
+    return { ...analysis, ...AnalysisDataMapper.mapBackendToFrontend(updated) };
+  }
+}
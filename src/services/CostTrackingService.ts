@@ -0,0 +1,221 @@
+/**
+ * Cost Tracking Service
+ * Reads the per-call token and cost records the edge functions write to model_usage, and manages
+ * the monthly soft/hard budgets of a project. Hard caps block new analysis jobs server-side.
+ */
+
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface ProjectBudget {
+  softCapUsd: number | null;
+  hardCapUsd: number | null;
+}
+
+export interface ProjectBudgetStatus extends ProjectBudget {
+  monthSpendUsd: number;
+  softCapReached: boolean;
+  hardCapReached: boolean;
+}
+
+export interface ModelCostStats {
+  model: string;
+  provider: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  imageTokens: number;
+  costUsd: number;
+  avgCostUsd: number;
+  avgLatencyMs: number | null;
+}
+
+export interface UsageSummary {
+  since: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  byModel: ModelCostStats[];
+  byProject: Array<{ projectId: string | null; projectName: string; calls: number; costUsd: number }>;
+  // Cost per UTC day, oldest first
+  byDay: Array<{ date: string; costUsd: number }>;
+}
+
+export class BudgetExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+const USAGE_COLUMNS = 'provider, model, project_id, input_tokens, output_tokens, image_tokens, latency_ms, cost_usd, created_at';
+
+// Start of the current UTC month, matching the server-side budget window
+export function currentBudgetPeriodStart(): string {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString();
+}
+
+export function formatUsd(value: number): string {
+  return value < 0.01 && value > 0 ? `$${value.toFixed(4)}` : `$${value.toFixed(2)}`;
+}
+
+export class CostTrackingService {
+  /**
+   * Spend this month against the project's caps
+   */
+  static async getProjectBudgetStatus(projectId: string): Promise<ProjectBudgetStatus | null> {
+    const { data, error } = await supabase
+      .rpc('get_project_budget_status', { _project_id: projectId })
+      .maybeSingle();
+    if (error) throw new Error(`Failed to load project budget: ${error.message}`);
+    if (!data) return null;
+
+    return {
+      monthSpendUsd: Number(data.month_spend_usd) || 0,
+      softCapUsd: data.soft_cap_usd != null ? Number(data.soft_cap_usd) : null,
+      hardCapUsd: data.hard_cap_usd != null ? Number(data.hard_cap_usd) : null,
+      softCapReached: !!data.soft_cap_reached,
+      hardCapReached: !!data.hard_cap_reached
+    };
+  }
+
+  /**
+   * Set or clear (both caps null) a project's monthly budget. Requires the owner role.
+   */
+  static async setProjectBudget(projectId: string, budget: ProjectBudget): Promise<void> {
+    if (budget.softCapUsd != null && budget.hardCapUsd != null && budget.softCapUsd > budget.hardCapUsd) {
+      throw new Error('The soft cap cannot be higher than the hard cap');
+    }
+
+    if (budget.softCapUsd == null && budget.hardCapUsd == null) {
+      const { error } = await supabase.from('project_budgets').delete().eq('project_id', projectId);
+      if (error) throw new Error(`Failed to clear project budget: ${error.message}`);
+      return;
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { error } = await supabase.from('project_budgets').upsert({
+      project_id: projectId,
+      monthly_soft_cap_usd: budget.softCapUsd,
+      monthly_hard_cap_usd: budget.hardCapUsd,
+      updated_by: user.id
+    });
+    if (error) throw new Error(`Failed to save project budget: ${error.message}`);
+  }
+
+  /**
+   * Usage visible to the current user (own calls and calls on their projects), aggregated by model,
+   * project and day. Defaults to the current budget period.
+   */
+  static async getUsageSummary(options: { since?: string; projectId?: string; imageId?: string } = {}): Promise<UsageSummary> {
+    const since = options.since ?? currentBudgetPeriodStart();
+    let query = supabase
+      .from('model_usage')
+      .select(USAGE_COLUMNS)
+      .gte('created_at', since)
+      .order('created_at', { ascending: true })
+      .limit(5000);
+    if (options.projectId) query = query.eq('project_id', options.projectId);
+    if (options.imageId) query = query.eq('image_id', options.imageId);
+
+    const { data, error } = await query;
+    if (error) throw new Error(`Failed to load model usage: ${error.message}`);
+    const rows = data || [];
+
+    const byModel = new Map<string, ModelCostStats & { latencyTotal: number; latencyCount: number }>();
+    const byProject = new Map<string | null, { calls: number; costUsd: number }>();
+    const byDay = new Map<string, number>();
+    let inputTokens = 0;
+    let outputTokens = 0;
+    let costUsd = 0;
+
+    for (const row of rows) {
+      const cost = Number(row.cost_usd) || 0;
+      inputTokens += row.input_tokens;
+      outputTokens += row.output_tokens;
+      costUsd += cost;
+
+      const model = byModel.get(row.model) ?? {
+        model: row.model,
+        provider: row.provider,
+        calls: 0,
+        inputTokens: 0,
+        outputTokens: 0,
+        imageTokens: 0,
+        costUsd: 0,
+        avgCostUsd: 0,
+        avgLatencyMs: null,
+        latencyTotal: 0,
+        latencyCount: 0
+      };
+      model.calls++;
+      model.inputTokens += row.input_tokens;
+      model.outputTokens += row.output_tokens;
+      model.imageTokens += row.image_tokens;
+      model.costUsd += cost;
+      if (row.latency_ms != null) {
+        model.latencyTotal += row.latency_ms;
+        model.latencyCount++;
+      }
+      byModel.set(row.model, model);
+
+      const project = byProject.get(row.project_id) ?? { calls: 0, costUsd: 0 };
+      project.calls++;
+      project.costUsd += cost;
+      byProject.set(row.project_id, project);
+
+      const day = row.created_at.slice(0, 10);
+      byDay.set(day, (byDay.get(day) ?? 0) + cost);
+    }
+
+    const projectIds = [...byProject.keys()].filter((id): id is string => !!id);
+    const projectNames = new Map<string, string>();
+    if (projectIds.length > 0) {
+      const { data: projects } = await supabase.from('projects').select('id, name').in('id', projectIds);
+      for (const project of projects || []) projectNames.set(project.id, project.name);
+    }
+
+    return {
+      since,
+      calls: rows.length,
+      inputTokens,
+      outputTokens,
+      costUsd,
+      byModel: [...byModel.values()]
+        .map(({ latencyTotal, latencyCount, ...stats }) => ({
+          ...stats,
+          avgCostUsd: stats.costUsd / stats.calls,
+          avgLatencyMs: latencyCount > 0 ? Math.round(latencyTotal / latencyCount) : null
+        }))
+        .sort((a, b) => b.costUsd - a.costUsd),
+      byProject: [...byProject.entries()]
+        .map(([projectId, stats]) => ({
+          projectId,
+          projectName: projectId ? projectNames.get(projectId) ?? 'Unknown project' : 'No project',
+          ...stats
+        }))
+        .sort((a, b) => b.costUsd - a.costUsd),
+      byDay: [...byDay.entries()].map(([date, cost]) => ({ date, costUsd: cost }))
+    };
+  }
+
+  /**
+   * Turn a 402 budget_exceeded response from start-ux-analysis / start-group-ux-analysis into a
+   * BudgetExceededError; null for any other error.
+   */
+  static async toBudgetError(error: unknown): Promise<BudgetExceededError | null> {
+    if (!(error instanceof FunctionsHttpError)) return null;
+    const response = error.context as Response | undefined;
+    if (response?.status !== 402) return null;
+    try {
+      const body = await response.clone().json();
+      return new BudgetExceededError(body?.message || 'Monthly budget reached for this project');
+    } catch {
+      return new BudgetExceededError('Monthly budget reached for this project');
+    }
+  }
+}
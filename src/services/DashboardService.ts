@@ -1,4 +1,7 @@
 import { supabase } from '@/integrations/supabase/client';
+import { AnnotationThreadService } from './AnnotationThreadService';
+import { RubricService, type CriterionAverage } from './RubricService';
+import type { AnnotationStatusSummary } from '@/types/ux-analysis';
 
 export interface MetricTrend {
   currentValue: number;
@@ -21,6 +24,9 @@ export interface DashboardMetrics {
     visual: number;
     content: number;
   };
+  // Per-criterion averages: the project's rubric criteria, or the four categories above
+  criterionScores: CriterionAverage[];
+  rubricName: string | null;
   issueDistribution: {
     high: number;
     medium: number;
@@ -52,6 +58,8 @@ export interface DashboardMetrics {
     averageConfidence: number;
     failureReasons: string[];
   };
+  // Human review status of findings; unreviewed findings count as open
+  reviewStatus: AnnotationStatusSummary;
 }
 
 export class DashboardService {
@@ -85,7 +93,7 @@ export class DashboardService {
       // Get all analyses for these images
       const { data: analyses, error: analysesError } = await supabase
         .from('ux_analyses')
-        .select('image_id, suggestions, summary, created_at, status, metadata')
+        .select('id, image_id, suggestions, visual_annotations, summary, created_at, status, metadata')
         .in('image_id', imageIds);
 
       if (analysesError) {
@@ -184,6 +192,8 @@ export class DashboardService {
       // Get analysis quality metrics
       const analysisQuality = await this.getAnalysisQuality(projectId);
 
+      const reviewStatus = await AnnotationThreadService.summarizeStatuses(analyses);
+
       const result: DashboardMetrics = {
         totalAnalyses,
         totalImages,
@@ -191,12 +201,15 @@ export class DashboardService {
         totalIssues,
         totalSuggestions,
         categoryScores,
+        criterionScores: RubricService.averageCriterionScores(analyses.map(a => a.summary)),
+        rubricName: RubricService.getRubricName(analyses.map(a => a.summary)),
         issueDistribution: issueSeverityCounts,
         recentActivity,
         topIssues,
         patterns,
         trends,
-        analysisQuality
+        analysisQuality,
+        reviewStatus
       };
 
       this.cache.set(projectId, { data: result, ts: Date.now() });
@@ -551,6 +564,8 @@ export class DashboardService {
         visual: 0,
         content: 0,
       },
+      criterionScores: [],
+      rubricName: null,
       issueDistribution: {
         high: 0,
         medium: 0,
@@ -568,7 +583,8 @@ export class DashboardService {
         successRate: 100,
         averageConfidence: 0,
         failureReasons: []
-      }
+      },
+      reviewStatus: { open: 0, accepted: 0, wontFix: 0, fixed: 0, openHighSeverity: 0 }
     };
   }
 
@@ -1,6 +1,10 @@
 import { supabase } from '@/integrations/supabase/client';
-import { UXAnalysis, UploadedImage, ImageGroup, GroupAnalysis, GroupPromptSession, GroupAnalysisWithPrompt } from '@/types/ux-analysis';
+import { UXAnalysis, UploadedImage, ImageGroup, GroupAnalysis, GroupPromptSession, GroupAnalysisWithPrompt, ProductTag, RecordingFrame } from '@/types/ux-analysis';
+import type { Json } from '@/integrations/supabase/types';
+import { parseGroupJourney, parseGroupJourneyAnalysis } from '@/utils/journeyUtils';
+import { parseProductTag } from '@/utils/benchmarkUtils';
 import { SlugService } from './SlugService';
+import { WorkspaceService } from './WorkspaceService';
 
 // Project management for user data isolation
 export class ProjectService {
@@ -22,11 +26,12 @@ export class ProjectService {
 
       console.log('[ProjectService] Looking for existing projects for user:', user.id);
 
-      // Get or create default project for user
+      // Get or create default project in the current workspace
+      const workspaceId = await WorkspaceService.getCurrentWorkspaceId();
       const { data: projects, error } = await supabase
         .from('projects')
         .select('id')
-        .eq('user_id', user.id)
+        .eq('workspace_id', workspaceId)
         .limit(1);
 
       if (error) {
@@ -48,6 +53,7 @@ export class ProjectService {
         .from('projects')
         .insert({
           user_id: user.id,
+          workspace_id: workspaceId,
           name: 'Default Project',
           description: 'Your UX analysis workspace',
           slug
@@ -90,6 +96,7 @@ export class ProjectService {
       .from('projects')
       .insert({
         user_id: user.id,
+        workspace_id: await WorkspaceService.getCurrentWorkspaceId(),
         name,
         description: description || '',
         slug
@@ -107,10 +114,10 @@ export class ProjectService {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('User not authenticated');
 
+      // Row level security limits this to projects in the user's workspaces
       const { data: project, error } = await supabase
         .from('projects')
         .select('id')
-        .eq('user_id', user.id)
         .eq('slug', slug)
         .single();
 
@@ -178,6 +185,7 @@ export class ProjectService {
       .from('projects')
       .insert({
         user_id: user.id,
+        workspace_id: await WorkspaceService.getCurrentWorkspaceId(),
         name: projectName,
         description: description || `Created on ${new Date().toLocaleDateString()}`,
         slug
@@ -212,6 +220,16 @@ export class ProjectService {
 
 }
 
+// images.metadata.recordingFrame of keyframes extracted from a recording
+function parseRecordingFrame(metadata: Json | null): RecordingFrame | undefined {
+  if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) return undefined;
+  const frame = metadata.recordingFrame;
+  if (!frame || typeof frame !== 'object' || Array.isArray(frame)) return undefined;
+  return typeof frame.recording === 'string' && typeof frame.timestampMs === 'number'
+    ? { recording: frame.recording, timestampMs: frame.timestampMs }
+    : undefined;
+}
+
 // Image data migration service
 export class ImageMigrationService {
   // Convert File to storage path and create database record with duplicate handling
@@ -274,7 +292,14 @@ export class ImageMigrationService {
           dimensions: uploadedImage.dimensions,
           file_size: uploadedImage.file.size,
           file_type: uploadedImage.file.type,
-          security_scan_status: 'pending'
+          security_scan_status: 'pending',
+          ...(uploadedImage.recordingFrame || uploadedImage.domAudit ? {
+            metadata: {
+              ...(uploadedImage.recordingFrame ? { recordingFrame: { ...uploadedImage.recordingFrame } } : {}),
+              // Read by ux-synthesis, which adds the findings to the analysis of this image
+              ...(uploadedImage.domAudit ? { domAudit: uploadedImage.domAudit as unknown as Json } : {})
+            }
+          } : {})
         }, {
           onConflict: 'id'
         })
@@ -291,6 +316,17 @@ export class ImageMigrationService {
 
   // Load images from database back to UploadedImage format
   // Delete specific image from database
+  /**
+   * Tag screens as our product or a named competitor; null removes the tag
+   */
+  static async updateProductTags(imageIds: string[], tag: ProductTag | null): Promise<void> {
+    const { error } = await supabase
+      .from('images')
+      .update({ product_tag: tag ? { ...tag } as unknown as Json : null })
+      .in('id', imageIds);
+    if (error) throw error;
+  }
+
   static async deleteImageFromDatabase(imageId: string) {
     try {
       const projectId = await ProjectService.getCurrentProject();
@@ -401,7 +437,9 @@ export class ImageMigrationService {
                        img.dimensions.width > 0 && img.dimensions.height > 0) 
                       ? { width: img.dimensions.width, height: img.dimensions.height }
                       : { width: 800, height: 600 }, // Fallback dimensions
-          status: 'completed' as const
+          status: 'completed' as const,
+          recordingFrame: parseRecordingFrame(img.metadata),
+          productTag: parseProductTag(img.product_tag)
         };
 
         // Validation and logging
@@ -552,7 +590,8 @@ export class GroupMigrationService {
         name: group.name,
         description: group.description,
         color: group.color,
-        position: group.position
+        position: group.position,
+        journey: group.journey ? { ...group.journey } as unknown as Json : null
       })
       .select('id')
       .single();
@@ -561,9 +600,10 @@ export class GroupMigrationService {
 
     // Insert group-image associations
     if (group.imageIds.length > 0) {
-      const associations = group.imageIds.map(imageId => ({
+      const associations = group.imageIds.map((imageId, index) => ({
         group_id: group.id,
-        image_id: imageId
+        image_id: imageId,
+        position: index
       }));
 
       const { error: associationError } = await supabase
@@ -576,6 +616,26 @@ export class GroupMigrationService {
     return groupData.id;
   }
 
+  /**
+   * Persist a group's journey flag and transition labels together with its step order
+   */
+  static async updateGroupJourney(group: ImageGroup): Promise<void> {
+    const { error } = await supabase
+      .from('image_groups')
+      .update({ journey: group.journey ? { ...group.journey } as unknown as Json : null })
+      .eq('id', group.id);
+    if (error) throw error;
+
+    for (const [index, imageId] of group.imageIds.entries()) {
+      const { error: positionError } = await supabase
+        .from('group_images')
+        .update({ position: index })
+        .eq('group_id', group.id)
+        .eq('image_id', imageId);
+      if (positionError) throw positionError;
+    }
+  }
+
   static async deleteGroupFromDatabase(groupId: string) {
     try {
       const projectId = await ProjectService.getCurrentProject();
@@ -644,12 +704,14 @@ export class GroupMigrationService {
 
       // 🚨 CRITICAL FIX: Handle Promise.all failures gracefully
       const groupsWithImages = await Promise.allSettled(
-        groups.map(async (group) => {
+        groups.map(async (group): Promise<ImageGroup> => {
           try {
             const { data: groupImages, error: imagesError } = await supabase
               .from('group_images')
               .select('image_id')
-              .eq('group_id', group.id);
+              .eq('group_id', group.id)
+              .order('position')
+              .order('image_id');
 
             if (imagesError) {
               console.error(`Failed to load images for group ${group.id}:`, imagesError);
@@ -662,7 +724,8 @@ export class GroupMigrationService {
               imageIds: groupImages?.map((gi: any) => gi.image_id) || [],
               position: (group.position as any) || { x: 100, y: 100 },
               color: group.color,
-              createdAt: new Date(group.created_at)
+              createdAt: new Date(group.created_at),
+              journey: parseGroupJourney(group.journey)
             };
           } catch (error) {
             console.error(`Failed to process group ${group.id}:`, error);
@@ -673,7 +736,8 @@ export class GroupMigrationService {
               imageIds: [],
               position: { x: 100, y: 100 },
               color: group.color,
-              createdAt: new Date(group.created_at)
+              createdAt: new Date(group.created_at),
+              journey: parseGroupJourney(group.journey)
             };
           }
         })
@@ -709,7 +773,8 @@ export class GroupAnalysisMigrationService {
         summary: analysis.summary as any,
         insights: analysis.insights as any,
         recommendations: analysis.recommendations as any,
-        patterns: analysis.patterns as any
+        patterns: analysis.patterns as any,
+        ...(analysis.journey ? { metadata: { journey: { ...analysis.journey } as unknown as Json } } : {})
       })
       .select('id')
       .single();
@@ -773,6 +838,7 @@ export class GroupAnalysisMigrationService {
             insights: (analysis.insights as any) || [],
             recommendations: (analysis.recommendations as any) || [],
             patterns: (analysis.patterns as any) || {},
+            journey: parseGroupJourneyAnalysis(analysis.metadata),
             createdAt: new Date(analysis.created_at)
           };
         } catch (processError) {
@@ -787,6 +853,7 @@ export class GroupAnalysisMigrationService {
             insights: [],
             recommendations: [],
             patterns: {},
+            journey: parseGroupJourneyAnalysis(analysis.metadata),
             createdAt: new Date()
           };
         }
@@ -0,0 +1,450 @@
+/**
+ * Design Token Service
+ * Per-project design tokens imported from plain JSON, W3C Design Tokens or Style Dictionary files.
+ * Analyses check screens against them (see ux-synthesis); this service also rolls the per-analysis
+ * results up into the project's token drift report.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import type {
+  DesignToken,
+  DesignTokenFormat,
+  DesignTokenKind,
+  DesignTokens,
+  DesignTokenSet,
+  TokenConformance
+} from '@/types/ux-analysis';
+
+export interface TokenDriftEntry {
+  kind: DesignTokenKind;
+  found: string | number;
+  token: DesignToken | null;
+  occurrences: number;
+  imageCount: number;
+}
+
+export interface TokenDriftImage {
+  imageId: string;
+  imageName: string;
+  score: number;
+  violations: number;
+}
+
+export interface TokenDriftReport {
+  tokenSetName: string | null;
+  analyzedImages: number;
+  // Average conformance of the latest analysis per image, 0-100
+  score: number;
+  byKind: Record<DesignTokenKind, { checked: number; violations: number }>;
+  // Most frequent off-token values with the token to use instead
+  drift: TokenDriftEntry[];
+  images: TokenDriftImage[];
+}
+
+const EMPTY_TOKENS: DesignTokens = { colors: [], fontSizes: [], spacing: [], radii: [] };
+
+const KIND_KEYS: Record<DesignTokenKind, keyof DesignTokens> = {
+  color: 'colors',
+  fontSize: 'fontSizes',
+  spacing: 'spacing',
+  radius: 'radii'
+};
+
+const DESIGN_TOKEN_KINDS = Object.keys(KIND_KEYS) as DesignTokenKind[];
+
+// Top-level keys of the plain format, and path segments that classify W3C / Style Dictionary tokens
+const PLAIN_KEYS: Record<keyof DesignTokens, string[]> = {
+  colors: ['colors', 'color', 'palette'],
+  fontSizes: ['fontSizes', 'fontSize', 'typeScale', 'textSizes'],
+  spacing: ['spacing', 'space', 'spaces'],
+  radii: ['radii', 'radius', 'borderRadius', 'radiuses']
+};
+const FONT_SIZE_PATH = /font-?size|text-?size|type-?scale|typography|^text$|^font$/i;
+const SPACING_PATH = /spac|^space|gap|margin|padding|inset|gutter/i;
+const RADIUS_PATH = /radi|rounded|corner/i;
+
+const ROOT_FONT_SIZE = 16;
+
+function asObject(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : null;
+}
+
+const toHexPart = (n: number) => Math.max(0, Math.min(255, Math.round(n))).toString(16).padStart(2, '0');
+
+/**
+ * Normalize a CSS color (hex, rgb(), hsl()) or a W3C color object to #RRGGBB
+ */
+export function normalizeColor(value: unknown): string | null {
+  const object = asObject(value);
+  if (object) {
+    if (typeof object.hex === 'string') return normalizeColor(object.hex);
+    if (Array.isArray(object.components) && object.components.length >= 3 && (object.colorSpace ?? 'srgb') === 'srgb') {
+      const [r, g, b] = object.components.map(Number);
+      return `#${toHexPart(r * 255)}${toHexPart(g * 255)}${toHexPart(b * 255)}`.toUpperCase();
+    }
+    return null;
+  }
+  if (typeof value !== 'string') return null;
+
+  const color = value.trim().toLowerCase();
+  const hex = color.match(/^#([0-9a-f]{3,8})$/);
+  if (hex) {
+    const digits = hex[1].length <= 4 ? hex[1].split('').map(d => d + d).join('') : hex[1];
+    return digits.length >= 6 ? `#${digits.slice(0, 6)}`.toUpperCase() : null;
+  }
+
+  const rgb = color.match(/^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)/);
+  if (rgb) return `#${toHexPart(+rgb[1])}${toHexPart(+rgb[2])}${toHexPart(+rgb[3])}`.toUpperCase();
+
+  const hsl = color.match(/^hsla?\(\s*([\d.]+)(?:deg)?[\s,]+([\d.]+)%[\s,]+([\d.]+)%/);
+  if (hsl) {
+    const h = +hsl[1] / 360;
+    const s = +hsl[2] / 100;
+    const l = +hsl[3] / 100;
+    const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+    const p = 2 * l - q;
+    const channel = (t: number) => {
+      const k = t < 0 ? t + 1 : t > 1 ? t - 1 : t;
+      if (k < 1 / 6) return p + (q - p) * 6 * k;
+      if (k < 1 / 2) return q;
+      if (k < 2 / 3) return p + (q - p) * (2 / 3 - k) * 6;
+      return p;
+    };
+    return `#${toHexPart(channel(h + 1 / 3) * 255)}${toHexPart(channel(h) * 255)}${toHexPart(channel(h - 1 / 3) * 255)}`.toUpperCase();
+  }
+
+  return null;
+}
+
+/**
+ * Dimension in CSS pixels from a number, "16px", "1.5rem", "12pt" or a W3C { value, unit } object
+ */
+export function parseDimension(value: unknown): number | null {
+  const object = asObject(value);
+  if (object && 'value' in object) {
+    return parseDimension(`${object.value}${typeof object.unit === 'string' ? object.unit : 'px'}`);
+  }
+  if (typeof value === 'number') return Number.isFinite(value) && value >= 0 ? value : null;
+  if (typeof value !== 'string') return null;
+
+  const match = value.trim().match(/^(-?[\d.]+)\s*(px|rem|em|pt)?$/i);
+  if (!match) return null;
+  const n = parseFloat(match[1]);
+  if (!Number.isFinite(n) || n < 0) return null;
+  switch ((match[2] || 'px').toLowerCase()) {
+    case 'rem':
+    case 'em':
+      return n * ROOT_FONT_SIZE;
+    case 'pt':
+      return Math.round(n * 4 / 3 * 100) / 100;
+    default:
+      return n;
+  }
+}
+
+function detectFormat(source: Record<string, unknown>): DesignTokenFormat {
+  let format = 'figmant' as DesignTokenFormat;
+  const visit = (node: unknown, depth: number) => {
+    const object = asObject(node);
+    if (!object || depth > 12 || format === 'w3c') return;
+    if ('$value' in object) {
+      format = 'w3c';
+      return;
+    }
+    if ('value' in object && depth > 0 && !asObject(object.value)) format = 'style_dictionary';
+    Object.values(object).forEach(child => visit(child, depth + 1));
+  };
+  visit(source, 0);
+
+  // The plain format keeps flat name/value maps under known keys
+  const plainKeys = Object.values(PLAIN_KEYS).flat();
+  if (format === 'style_dictionary' && Object.keys(source).every(key => plainKeys.includes(key))) {
+    const flat = Object.values(source).every(group =>
+      Array.isArray(group) || Object.values(asObject(group) || {}).every(value => !asObject(value))
+    );
+    if (flat) return 'figmant';
+  }
+  return format;
+}
+
+function classify(path: string[], type: string | undefined, value: unknown): DesignTokenKind | null {
+  if (type === 'color') return 'color';
+  if (type === 'fontSize' || type === 'fontSizes') return 'fontSize';
+  if (type === 'spacing') return 'spacing';
+  if (type === 'borderRadius') return 'radius';
+
+  if (!type && normalizeColor(value)) return 'color';
+  if (type && type !== 'dimension' && type !== 'sizing' && type !== 'size') return null;
+
+  const segments = path.slice(0, -1);
+  if (segments.some(segment => RADIUS_PATH.test(segment))) return 'radius';
+  if (segments.some(segment => FONT_SIZE_PATH.test(segment))) return 'fontSize';
+  if (segments.some(segment => SPACING_PATH.test(segment))) return 'spacing';
+  return null;
+}
+
+function addToken(tokens: DesignTokens, kind: DesignTokenKind, name: string, value: unknown) {
+  const normalized = kind === 'color' ? normalizeColor(value) : parseDimension(value);
+  if (normalized == null) return;
+  const list = tokens[KIND_KEYS[kind]];
+  if (!list.some(token => token.name === name)) list.push({ name, value: normalized });
+}
+
+/**
+ * Walk a W3C or Style Dictionary tree; groups pass their $type down and aliases like
+ * {color.brand.500} resolve against the rest of the file
+ */
+function parseTree(source: Record<string, unknown>, format: 'w3c' | 'style_dictionary'): DesignTokens {
+  const tokens: DesignTokens = { colors: [], fontSizes: [], spacing: [], radii: [] };
+  const valueKey = format === 'w3c' ? '$value' : 'value';
+  const typeKey = format === 'w3c' ? '$type' : 'type';
+
+  const lookup = (reference: string, seen = new Set<string>()): unknown => {
+    const path = reference.replace(/\.value$/, '').split('.');
+    let node: unknown = source;
+    for (const segment of path) node = asObject(node)?.[segment];
+    const value = asObject(node)?.[valueKey];
+    return resolve(value, seen.add(reference));
+  };
+  const resolve = (value: unknown, seen = new Set<string>()): unknown => {
+    if (typeof value !== 'string') return value;
+    const alias = value.match(/^\{([^}]+)\}$/);
+    if (!alias || seen.has(alias[1])) return value;
+    return lookup(alias[1], seen);
+  };
+
+  const visit = (node: Record<string, unknown>, path: string[], inheritedType?: string) => {
+    const type = typeof node[typeKey] === 'string' ? node[typeKey] as string : inheritedType;
+
+    if (valueKey in node) {
+      const name = path.join('.');
+      const value = resolve(node[valueKey]);
+      const composite = asObject(value);
+      // Typography composites contribute their font size
+      if (type === 'typography' && composite) {
+        addToken(tokens, 'fontSize', name, resolve(composite.fontSize));
+        return;
+      }
+      const kind = classify(path, type, value);
+      if (kind) addToken(tokens, kind, name, value);
+      return;
+    }
+
+    Object.entries(node).forEach(([key, child]) => {
+      const object = asObject(child);
+      if (object && !key.startsWith('$')) visit(object, [...path, key], type);
+    });
+  };
+
+  visit(source, []);
+  return tokens;
+}
+
+function parsePlain(source: Record<string, unknown>): DesignTokens {
+  const tokens: DesignTokens = { colors: [], fontSizes: [], spacing: [], radii: [] };
+
+  (Object.keys(PLAIN_KEYS) as Array<keyof DesignTokens>).forEach(key => {
+    const kind = DESIGN_TOKEN_KINDS.find(k => KIND_KEYS[k] === key)!;
+    PLAIN_KEYS[key].forEach(sourceKey => {
+      const group = source[sourceKey];
+      if (Array.isArray(group)) {
+        group.forEach((item, index) => {
+          const object = asObject(item);
+          if (object) addToken(tokens, kind, typeof object.name === 'string' ? object.name : `${key}.${index}`, object.value);
+          else addToken(tokens, kind, `${key}.${index}`, item);
+        });
+      } else {
+        Object.entries(asObject(group) || {}).forEach(([name, value]) => addToken(tokens, kind, name, value));
+      }
+    });
+  });
+
+  return tokens;
+}
+
+function toTokens(value: Json): DesignTokens {
+  const source = asObject(value);
+  if (!source) return { ...EMPTY_TOKENS };
+  const list = (key: keyof DesignTokens): DesignToken[] => Array.isArray(source[key])
+    ? (source[key] as unknown[])
+        .map(asObject)
+        .filter((token): token is Record<string, unknown> => !!token && typeof token.name === 'string')
+        .map(token => ({ name: token.name as string, value: token.value as string | number }))
+    : [];
+  return { colors: list('colors'), fontSizes: list('fontSizes'), spacing: list('spacing'), radii: list('radii') };
+}
+
+function toTokenSet(row: Tables<'design_token_sets'>): DesignTokenSet {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    name: row.name,
+    sourceFormat: row.source_format as DesignTokenFormat,
+    tokens: toTokens(row.tokens),
+    updatedAt: row.updated_at
+  };
+}
+
+export class DesignTokenService {
+  /**
+   * Parse an uploaded token file. Dimensions are converted to pixels (1rem = 16px) and colors to #RRGGBB.
+   */
+  static parseTokens(input: string | unknown): { format: DesignTokenFormat; tokens: DesignTokens } {
+    let source: unknown = input;
+    if (typeof input === 'string') {
+      try {
+        source = JSON.parse(input);
+      } catch {
+        throw new Error('Token file is not valid JSON');
+      }
+    }
+    const object = asObject(source);
+    if (!object) throw new Error('Token file must contain a JSON object');
+
+    const format = detectFormat(object);
+    const tokens = format === 'figmant' ? parsePlain(object) : parseTree(object, format);
+
+    if (this.countTokens(tokens) === 0) {
+      throw new Error('No colors, font sizes, spacing or radii found in the token file');
+    }
+    (['fontSizes', 'spacing', 'radii'] as const).forEach(key => {
+      tokens[key].sort((a, b) => (a.value as number) - (b.value as number));
+    });
+    return { format, tokens };
+  }
+
+  static countTokens(tokens: DesignTokens): number {
+    return tokens.colors.length + tokens.fontSizes.length + tokens.spacing.length + tokens.radii.length;
+  }
+
+  static async getTokenSet(projectId: string): Promise<DesignTokenSet | null> {
+    const { data, error } = await supabase
+      .from('design_token_sets')
+      .select('*')
+      .eq('project_id', projectId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? toTokenSet(data) : null;
+  }
+
+  /**
+   * Replace the project's tokens with the contents of an uploaded file
+   */
+  static async saveTokenSet(projectId: string, name: string, file: string): Promise<DesignTokenSet> {
+    const { format, tokens } = this.parseTokens(file);
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { data, error } = await supabase
+      .from('design_token_sets')
+      .upsert({
+        project_id: projectId,
+        name: name.trim() || 'Design tokens',
+        source_format: format,
+        tokens: tokens as unknown as Json,
+        created_by: user.id
+      }, { onConflict: 'project_id' })
+      .select('*')
+      .single();
+
+    if (error) throw error;
+    return toTokenSet(data);
+  }
+
+  static async deleteTokenSet(projectId: string): Promise<void> {
+    const { error } = await supabase
+      .from('design_token_sets')
+      .delete()
+      .eq('project_id', projectId);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Token drift across the project: the latest analysis of each image that was checked against tokens
+   */
+  static async getDriftReport(projectId: string): Promise<TokenDriftReport> {
+    const { data: images, error: imagesError } = await supabase
+      .from('images')
+      .select('id, original_name')
+      .eq('project_id', projectId);
+
+    if (imagesError) throw imagesError;
+    if (!images || images.length === 0) return this.buildDriftReport([]);
+
+    const { data: analyses, error } = await supabase
+      .from('ux_analyses')
+      .select('image_id, metadata, created_at')
+      .in('image_id', images.map(image => image.id))
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    const names = new Map(images.map(image => [image.id, image.original_name]));
+    const latest = new Map<string, TokenConformance>();
+    (analyses || []).forEach(analysis => {
+      const conformance = asObject(analysis.metadata)?.tokenConformance as TokenConformance | undefined;
+      if (analysis.image_id && conformance && !latest.has(analysis.image_id)) {
+        latest.set(analysis.image_id, conformance);
+      }
+    });
+
+    return this.buildDriftReport(Array.from(latest.entries()).map(([imageId, conformance]) => ({
+      imageId,
+      imageName: names.get(imageId) || 'Untitled',
+      conformance
+    })));
+  }
+
+  static buildDriftReport(results: Array<{ imageId: string; imageName: string; conformance: TokenConformance }>): TokenDriftReport {
+    const byKind = Object.fromEntries(
+      DESIGN_TOKEN_KINDS.map(kind => [kind, { checked: 0, violations: 0 }])
+    ) as TokenDriftReport['byKind'];
+    const drift = new Map<string, TokenDriftEntry & { images: Set<string> }>();
+
+    results.forEach(({ imageId, conformance }) => {
+      DESIGN_TOKEN_KINDS.forEach(kind => {
+        byKind[kind].checked += conformance.checked?.[kind] || 0;
+      });
+      (conformance.violations || []).forEach(violation => {
+        byKind[violation.kind].violations += 1;
+        const key = `${violation.kind}:${violation.found}`;
+        const entry = drift.get(key) || {
+          kind: violation.kind,
+          found: violation.found,
+          token: violation.token,
+          occurrences: 0,
+          imageCount: 0,
+          images: new Set<string>()
+        };
+        entry.occurrences += 1;
+        entry.images.add(imageId);
+        entry.imageCount = entry.images.size;
+        drift.set(key, entry);
+      });
+    });
+
+    const images = results
+      .map(({ imageId, imageName, conformance }) => ({
+        imageId,
+        imageName,
+        score: conformance.score,
+        violations: conformance.violations?.length || 0
+      }))
+      .sort((a, b) => a.score - b.score);
+
+    return {
+      tokenSetName: results[0]?.conformance.tokenSetName ?? null,
+      analyzedImages: results.length,
+      score: images.length > 0 ? Math.round(images.reduce((sum, image) => sum + image.score, 0) / images.length) : 100,
+      byKind,
+      drift: Array.from(drift.values())
+        .map(({ images: _images, ...entry }) => entry)
+        .sort((a, b) => b.imageCount - a.imageCount || b.occurrences - a.occurrences),
+      images
+    };
+  }
+}
@@ -0,0 +1,392 @@
+/**
+ * DOM Audit Service
+ * Rule engine for the accessibility checks a screenshot cannot answer: form labels, landmarks,
+ * heading hierarchy, ARIA misuse, alt text and tab order. Runs on the laid-out document of a rendered
+ * HTML snapshot, so every element finding carries its box on the page for annotations.
+ */
+
+import type { DomAuditFinding, DomAuditReport, DomAuditRule } from '@/types/ux-analysis';
+
+type Severity = DomAuditFinding['severity'];
+
+interface PageBox {
+  width: number;
+  height: number;
+}
+
+const MAX_FINDINGS_PER_RULE = 40;
+// Focus moving this far back up the page (CSS px) no longer follows the reading order
+const FOCUS_JUMP_PX = 400;
+const SNIPPET_LENGTH = 60;
+
+const VALID_ROLES = new Set([
+  'alert', 'alertdialog', 'application', 'article', 'banner', 'blockquote', 'button', 'caption', 'cell', 'checkbox',
+  'code', 'columnheader', 'combobox', 'complementary', 'contentinfo', 'definition', 'deletion', 'dialog', 'directory',
+  'document', 'emphasis', 'feed', 'figure', 'form', 'generic', 'grid', 'gridcell', 'group', 'heading', 'img', 'insertion',
+  'link', 'list', 'listbox', 'listitem', 'log', 'main', 'marquee', 'math', 'menu', 'menubar', 'menuitem',
+  'menuitemcheckbox', 'menuitemradio', 'meter', 'navigation', 'none', 'note', 'option', 'paragraph', 'presentation',
+  'progressbar', 'radio', 'radiogroup', 'region', 'row', 'rowgroup', 'rowheader', 'scrollbar', 'search', 'searchbox',
+  'separator', 'slider', 'spinbutton', 'status', 'strong', 'subscript', 'superscript', 'switch', 'tab', 'table',
+  'tablist', 'tabpanel', 'term', 'textbox', 'time', 'timer', 'toolbar', 'tooltip', 'tree', 'treegrid', 'treeitem'
+]);
+
+const VALID_ARIA_ATTRIBUTES = new Set([
+  'aria-activedescendant', 'aria-atomic', 'aria-autocomplete', 'aria-braillelabel', 'aria-brailleroledescription',
+  'aria-busy', 'aria-checked', 'aria-colcount', 'aria-colindex', 'aria-colindextext', 'aria-colspan', 'aria-controls',
+  'aria-current', 'aria-describedby', 'aria-description', 'aria-details', 'aria-disabled', 'aria-dropeffect',
+  'aria-errormessage', 'aria-expanded', 'aria-flowto', 'aria-grabbed', 'aria-haspopup', 'aria-hidden', 'aria-invalid',
+  'aria-keyshortcuts', 'aria-label', 'aria-labelledby', 'aria-level', 'aria-live', 'aria-modal', 'aria-multiline',
+  'aria-multiselectable', 'aria-orientation', 'aria-owns', 'aria-placeholder', 'aria-posinset', 'aria-pressed',
+  'aria-readonly', 'aria-relevant', 'aria-required', 'aria-roledescription', 'aria-rowcount', 'aria-rowindex',
+  'aria-rowindextext', 'aria-rowspan', 'aria-selected', 'aria-setsize', 'aria-sort', 'aria-valuemax', 'aria-valuemin',
+  'aria-valuenow', 'aria-valuetext'
+]);
+
+// Roles that promise keyboard interaction; on a non-focusable element they are mouse-only
+const INTERACTIVE_ROLES = new Set([
+  'button', 'link', 'checkbox', 'radio', 'switch', 'tab', 'menuitem', 'menuitemcheckbox', 'menuitemradio', 'option',
+  'slider', 'spinbutton', 'textbox', 'searchbox', 'combobox', 'treeitem'
+]);
+
+const FOCUSABLE_SELECTOR = [
+  'a[href]', 'area[href]', 'button', 'input:not([type="hidden"])', 'select', 'textarea', 'iframe', 'summary',
+  '[tabindex]', '[contenteditable=""]', '[contenteditable="true"]'
+].join(',');
+
+const GENERIC_ALT = /^(image|img|picture|photo|graphic|icon|logo|banner|spacer|untitled|placeholder)\s*\d*$/i;
+const FILE_NAME_ALT = /\.(png|jpe?g|gif|svg|webp|avif|bmp)$/i;
+
+const compact = (text: string | null | undefined) => (text ?? '').replace(/\s+/g, ' ').trim();
+
+export class DomAuditService {
+  static audit(doc: Document, page: PageBox, source: string): DomAuditReport {
+    const findings: DomAuditFinding[] = [];
+    const checked: Record<DomAuditRule, number> = { label: 0, landmark: 0, heading: 0, aria: 0, 'alt-text': 0, 'tab-order': 0 };
+    const perRule = new Map<DomAuditRule, number>();
+
+    const report = (rule: DomAuditRule, severity: Severity, title: string, description: string, element?: Element) => {
+      const count = perRule.get(rule) ?? 0;
+      if (count >= MAX_FINDINGS_PER_RULE) return;
+      perRule.set(rule, count + 1);
+      findings.push({
+        id: `${rule}-${count + 1}`,
+        rule,
+        severity,
+        title,
+        description,
+        selector: element ? this.selectorOf(element) : null,
+        region: element ? this.regionOf(element, page) : null
+      });
+    };
+
+    const elements = Array.from(doc.body?.querySelectorAll('*') ?? []).filter(el => this.isRendered(el));
+
+    this.checkLabels(elements, doc, checked, report);
+    this.checkLandmarks(doc, checked, report);
+    this.checkHeadings(elements, checked, report);
+    this.checkAria(elements, doc, checked, report);
+    this.checkAltText(elements, doc, checked, report);
+    this.checkTabOrder(elements, checked, report);
+
+    const order: Record<Severity, number> = { high: 0, medium: 1, low: 2 };
+    findings.sort((a, b) => order[a.severity] - order[b.severity]);
+
+    return { source, checkedAt: new Date().toISOString(), page, checked, findings };
+  }
+
+  /**
+   * Accessible name following the main steps of the accname algorithm; '' when there is none
+   */
+  static accessibleName(el: Element, doc: Document): string {
+    const labelledBy = el.getAttribute('aria-labelledby');
+    if (labelledBy) {
+      const text = labelledBy.split(/\s+/).map(id => compact(doc.getElementById(id)?.textContent)).join(' ').trim();
+      if (text) return text;
+    }
+    const ariaLabel = compact(el.getAttribute('aria-label'));
+    if (ariaLabel) return ariaLabel;
+
+    const tag = el.tagName.toLowerCase();
+    if (tag === 'img' || tag === 'area' || (tag === 'input' && (el as HTMLInputElement).type === 'image')) {
+      return compact(el.getAttribute('alt'));
+    }
+    if (tag === 'input' || tag === 'select' || tag === 'textarea') {
+      const input = el as HTMLInputElement;
+      if (['submit', 'reset', 'button'].includes(input.type)) return compact(input.value) || (input.type === 'button' ? '' : input.type);
+      const labels = Array.from(input.labels ?? []).map(label => compact(label.textContent)).join(' ').trim();
+      if (labels) return labels;
+      return compact(el.getAttribute('title'));
+    }
+
+    // Name from content: text plus the alt text of images inside (icon links and buttons)
+    const content = compact([
+      el.textContent,
+      ...Array.from(el.querySelectorAll('img[alt], [aria-label]')).map(child =>
+        child.getAttribute('alt') ?? child.getAttribute('aria-label'))
+    ].join(' '));
+    return content || compact(el.getAttribute('title'));
+  }
+
+  private static checkLabels(elements: Element[], doc: Document, checked: Record<DomAuditRule, number>, report: ReportFn) {
+    for (const el of elements) {
+      const tag = el.tagName.toLowerCase();
+      const role = el.getAttribute('role');
+
+      if (tag === 'input' || tag === 'select' || tag === 'textarea') {
+        const type = (el as HTMLInputElement).type;
+        if (type === 'hidden' || type === 'image') continue;
+        checked.label++;
+        if (this.accessibleName(el, doc)) continue;
+        const placeholder = compact(el.getAttribute('placeholder'));
+        if (placeholder) {
+          report('label', 'medium', 'Placeholder used as the only label',
+            `The ${this.describe(el)} is only labelled by its placeholder "${placeholder.slice(0, SNIPPET_LENGTH)}", which disappears while typing and is not reliably announced. Add a visible <label>.`, el);
+        } else {
+          report('label', 'high', 'Form field has no label',
+            `Screen readers announce the ${this.describe(el)} without a name. Associate a <label for>, wrap it in a <label> or add aria-label.`, el);
+        }
+        continue;
+      }
+
+      const isLink = tag === 'a' && el.hasAttribute('href');
+      const isButton = tag === 'button' || role === 'button' || role === 'link';
+      if (isLink || isButton) {
+        checked.label++;
+        if (!this.accessibleName(el, doc)) {
+          const what = isLink || role === 'link' ? 'Link' : 'Button';
+          report('label', 'high', `${what} has no accessible name`,
+            `The ${this.describe(el)} has no text, alt text or aria-label, so it is announced as an unnamed ${what.toLowerCase()}. Icon-only controls need an aria-label.`, el);
+        }
+      }
+    }
+  }
+
+  private static checkLandmarks(doc: Document, checked: Record<DomAuditRule, number>, report: ReportFn) {
+    const mains = Array.from(doc.querySelectorAll('main, [role="main"]')).filter(el => this.isRendered(el));
+    checked.landmark = doc.querySelectorAll(
+      'main, nav, header, footer, aside, [role="main"], [role="navigation"], [role="banner"], [role="contentinfo"], [role="complementary"], [role="search"], [role="region"]'
+    ).length;
+
+    if (mains.length === 0) {
+      report('landmark', 'medium', 'No main landmark',
+        'The page has no <main> (or role="main"), so screen reader users cannot jump past navigation straight to the content.');
+    }
+    mains.slice(1).forEach(main => report('landmark', 'low', 'More than one main landmark',
+      'A page should have a single main landmark; mark secondary regions as <section> or <aside> instead.', main));
+
+    // Top-level header/footer become banner/contentinfo; more than one is ambiguous
+    const topLevel = (selector: string, role: string) => Array.from(doc.querySelectorAll(selector)).filter(el =>
+      this.isRendered(el) && (el.getAttribute('role') === role || !el.parentElement?.closest('article, aside, main, nav, section')));
+    for (const [selector, role, name] of [
+      ['header, [role="banner"]', 'banner', 'banner (page header)'],
+      ['footer, [role="contentinfo"]', 'contentinfo', 'contentinfo (page footer)']
+    ] as const) {
+      topLevel(selector, role).slice(1).forEach(el => report('landmark', 'low', `More than one ${role} landmark`,
+        `The page has several ${name} landmarks; keep one and label or nest the others.`, el));
+    }
+
+    if (doc.querySelectorAll('a[href]').length >= 5 && doc.querySelectorAll('nav, [role="navigation"]').length === 0) {
+      report('landmark', 'low', 'Navigation links are not in a nav landmark',
+        'Wrap the main navigation links in <nav> so it can be found and skipped with landmark navigation.');
+    }
+  }
+
+  private static checkHeadings(elements: Element[], checked: Record<DomAuditRule, number>, report: ReportFn) {
+    const headings = elements.flatMap(el => {
+      const match = el.tagName.match(/^H([1-6])$/);
+      const ariaLevel = el.getAttribute('role') === 'heading' ? Number(el.getAttribute('aria-level') || 2) : NaN;
+      const level = match ? Number(match[1]) : ariaLevel;
+      return Number.isFinite(level) ? [{ el, level }] : [];
+    });
+    checked.heading = headings.length;
+
+    if (headings.length === 0) {
+      report('heading', 'medium', 'No headings',
+        'The page has no headings, so it cannot be skimmed or navigated by heading. Mark up section titles as <h1>-<h6>.');
+      return;
+    }
+    const h1s = headings.filter(h => h.level === 1);
+    if (h1s.length === 0) {
+      report('heading', 'medium', 'No level-one heading',
+        'The page has no <h1> naming its main content; the first heading is a lower level.', headings[0].el);
+    }
+    h1s.slice(1).forEach(h => report('heading', 'low', 'More than one level-one heading',
+      `"${compact(h.el.textContent).slice(0, SNIPPET_LENGTH)}" is another <h1>; sub-sections read more clearly as <h2>.`, h.el));
+
+    let previous = 0;
+    for (const { el, level } of headings) {
+      const text = compact(el.textContent);
+      if (!text && !el.querySelector('img[alt]')) {
+        report('heading', 'medium', 'Empty heading', `An empty <h${level}> is announced as a heading with no content.`, el);
+      }
+      if (previous > 0 && level > previous + 1) {
+        report('heading', 'medium', `Heading level skips from h${previous} to h${level}`,
+          `"${text.slice(0, SNIPPET_LENGTH)}" jumps from level ${previous} to ${level}; screen reader users rely on levels to understand the outline. Use <h${previous + 1}>.`, el);
+      }
+      previous = level;
+    }
+  }
+
+  private static checkAria(elements: Element[], doc: Document, checked: Record<DomAuditRule, number>, report: ReportFn) {
+    for (const el of elements) {
+      const ariaAttributes = el.getAttributeNames().filter(name => name.startsWith('aria-'));
+      const role = el.getAttribute('role');
+      if (!role && ariaAttributes.length === 0) continue;
+      checked.aria++;
+
+      if (role) {
+        const invalid = role.split(/\s+/).filter(r => r && !VALID_ROLES.has(r));
+        if (invalid.length > 0 && invalid.length === role.split(/\s+/).filter(Boolean).length) {
+          report('aria', 'medium', `Invalid role "${invalid[0]}"`,
+            `role="${role}" on the ${this.describe(el)} is not an ARIA role, so assistive technology ignores it.`, el);
+        }
+        if (INTERACTIVE_ROLES.has(role) && !this.isFocusable(el)) {
+          report('aria', 'high', `role="${role}" is not keyboard reachable`,
+            `The ${this.describe(el)} says it is a ${role} but cannot receive focus. Use a native element or add tabindex="0" and keyboard handlers.`, el);
+        }
+      }
+
+      for (const name of ariaAttributes) {
+        if (!VALID_ARIA_ATTRIBUTES.has(name)) {
+          report('aria', 'low', `Unknown attribute ${name}`, `${name} on the ${this.describe(el)} is not an ARIA attribute; check for a typo.`, el);
+        }
+      }
+
+      for (const name of ['aria-labelledby', 'aria-describedby', 'aria-controls']) {
+        const missing = (el.getAttribute(name) ?? '').split(/\s+/).filter(id => id && !doc.getElementById(id));
+        if (missing.length > 0) {
+          report('aria', 'medium', `${name} points to a missing element`,
+            `${name} on the ${this.describe(el)} references "${missing.join('", "')}", which is not on the page.`, el);
+        }
+      }
+
+      if (el.getAttribute('aria-hidden') === 'true') {
+        const focusable = this.isFocusable(el) ? el : Array.from(el.querySelectorAll(FOCUSABLE_SELECTOR)).find(child => this.isFocusable(child));
+        if (focusable) {
+          report('aria', 'high', 'Focusable element hidden from screen readers',
+            `aria-hidden="true" hides the ${this.describe(focusable)} from assistive technology, but keyboard focus still lands on it.`, focusable);
+        }
+      }
+    }
+  }
+
+  private static checkAltText(elements: Element[], doc: Document, checked: Record<DomAuditRule, number>, report: ReportFn) {
+    for (const el of elements) {
+      const tag = el.tagName.toLowerCase();
+      const isImageInput = tag === 'input' && (el as HTMLInputElement).type === 'image';
+      if (tag === 'img' || tag === 'area' || isImageInput) {
+        if (tag === 'img' && (el.getAttribute('role') === 'presentation' || el.getAttribute('role') === 'none' || el.getAttribute('aria-hidden') === 'true')) continue;
+        checked['alt-text']++;
+        const alt = el.getAttribute('alt');
+        const labelled = el.hasAttribute('aria-label') || el.hasAttribute('aria-labelledby');
+        if (alt === null && !labelled) {
+          const source = (el.getAttribute('src') ?? '').split('/').pop()?.split('?')[0] ?? '';
+          report('alt-text', 'high', 'Image has no alt text',
+            `The ${tag === 'img' ? 'image' : this.describe(el)}${source && !source.startsWith('data:') ? ` (${source.slice(0, SNIPPET_LENGTH)})` : ''} has no alt attribute. Describe it, or use alt="" if it is decorative.`, el);
+        } else if (alt !== null && (GENERIC_ALT.test(alt.trim()) || FILE_NAME_ALT.test(alt.trim()))) {
+          report('alt-text', 'medium', 'Alt text does not describe the image',
+            `alt="${alt.slice(0, SNIPPET_LENGTH)}" is a file name or a generic word; say what the image shows or does.`, el);
+        } else if (alt !== null && alt.trim() === '' && isImageInput) {
+          report('alt-text', 'high', 'Image button has empty alt text',
+            'An image button needs alt text naming its action; alt="" leaves it unnamed.', el);
+        }
+        continue;
+      }
+      if (tag === 'svg' && el.getAttribute('role') === 'img') {
+        checked['alt-text']++;
+        if (!this.accessibleName(el, doc) && !compact(el.querySelector('title')?.textContent)) {
+          report('alt-text', 'medium', 'SVG image has no text alternative',
+            'The svg has role="img" but no <title> or aria-label.', el);
+        }
+      }
+    }
+  }
+
+  private static checkTabOrder(elements: Element[], checked: Record<DomAuditRule, number>, report: ReportFn) {
+    const focusable = elements.filter(el => this.isFocusable(el) && el.getAttribute('tabindex') !== '-1');
+    checked['tab-order'] = focusable.length;
+
+    const positive = focusable.filter(el => Number(el.getAttribute('tabindex')) > 0);
+    for (const el of positive) {
+      report('tab-order', 'medium', `Positive tabindex (${el.getAttribute('tabindex')})`,
+        `tabindex="${el.getAttribute('tabindex')}" on the ${this.describe(el)} moves it ahead of the natural tab order, so focus skips around the page. Use tabindex="0" and order the DOM instead.`, el);
+    }
+
+    // Elements with click handlers in the markup that the keyboard cannot reach
+    for (const el of elements) {
+      if (!el.hasAttribute('onclick') || this.isFocusable(el)) continue;
+      report('tab-order', 'high', 'Clickable element is not keyboard reachable',
+        `The ${this.describe(el)} has a click handler but cannot be focused with Tab. Use a <button> or add tabindex="0", a role and key handlers.`, el);
+    }
+
+    // Sequential focus order: positive tabindex values first (ascending), then document order
+    const sequence = [
+      ...positive.sort((a, b) => Number(a.getAttribute('tabindex')) - Number(b.getAttribute('tabindex'))),
+      ...focusable.filter(el => !(Number(el.getAttribute('tabindex')) > 0))
+    ];
+    for (let i = 1; i < sequence.length; i++) {
+      const previous = sequence[i - 1].getBoundingClientRect();
+      const current = sequence[i].getBoundingClientRect();
+      if (previous.top - current.bottom > FOCUS_JUMP_PX) {
+        report('tab-order', 'low', 'Focus order jumps back up the page',
+          `After the ${this.describe(sequence[i - 1])}, Tab moves ${Math.round(previous.top - current.top)}px up to the ${this.describe(sequence[i])}; the focus order does not follow the visual order.`, sequence[i]);
+      }
+    }
+  }
+
+  private static isRendered(el: Element): boolean {
+    if (el.getClientRects().length === 0) return false;
+    const view = el.ownerDocument.defaultView;
+    const style = view?.getComputedStyle(el);
+    return !style || (style.visibility !== 'hidden' && style.display !== 'none');
+  }
+
+  private static isFocusable(el: Element): boolean {
+    if (!el.matches(FOCUSABLE_SELECTOR)) return false;
+    if ((el as HTMLButtonElement).disabled) return false;
+    return this.isRendered(el);
+  }
+
+  private static regionOf(el: Element, page: PageBox): DomAuditFinding['region'] {
+    const rect = el.getBoundingClientRect();
+    if (rect.width === 0 && rect.height === 0) return null;
+    const clamp = (n: number) => Math.max(0, Math.min(1, n));
+    const x = clamp(rect.left / page.width);
+    const y = clamp(rect.top / page.height);
+    // Elements below the captured part of a long page have no place on the screenshot
+    if (rect.top >= page.height) return null;
+    return {
+      x,
+      y,
+      width: clamp(rect.right / page.width) - x,
+      height: clamp(rect.bottom / page.height) - y
+    };
+  }
+
+  private static selectorOf(el: Element): string {
+    const parts: string[] = [];
+    let current: Element | null = el;
+    while (current && parts.length < 4 && current.tagName !== 'BODY' && current.tagName !== 'HTML') {
+      const tag = current.tagName.toLowerCase();
+      if (current.id) {
+        parts.unshift(`${tag}#${CSS.escape(current.id)}`);
+        break;
+      }
+      const parent: Element | null = current.parentElement;
+      const siblings = parent ? Array.from(parent.children).filter(child => child.tagName === current!.tagName) : [];
+      parts.unshift(siblings.length > 1 ? `${tag}:nth-of-type(${siblings.indexOf(current) + 1})` : tag);
+      current = parent;
+    }
+    return parts.join(' > ');
+  }
+
+  private static describe(el: Element): string {
+    const tag = el.tagName.toLowerCase();
+    const type = tag === 'input' ? ` type="${(el as HTMLInputElement).type}"` : '';
+    const name = el.getAttribute('name') ? ` name="${el.getAttribute('name')}"` : '';
+    const text = compact(el.textContent).slice(0, 30);
+    return `<${tag}${type}${name}>${text ? ` "${text}"` : ''}`;
+  }
+}
+
+type ReportFn = (rule: DomAuditRule, severity: Severity, title: string, description: string, element?: Element) => void;
@@ -1,5 +1,7 @@
 import { AnalysisContext, PromptComponents, Citation } from '@/types/contextTypes';
+import type { AnalysisRubric, EndUserPersona } from '@/types/ux-analysis';
 import { pipelineConfig } from '@/config/pipelineConfig';
+import { buildPersonaPrompt } from '../../supabase/functions/_shared/persona-prompt.ts';
 
 export class DynamicPromptBuilder {
   private perplexityEnabled: boolean;
@@ -32,6 +34,11 @@ export class DynamicPromptBuilder {
       prompt += `\n\n${components.roleSpecific}`;
     }
     
+    // Add the end-user persona the interface is judged for
+    if (components.persona) {
+      prompt += `\n\n${components.persona}`;
+    }
+    
     // Add research context if Perplexity is enabled
     if (components.researchContext) {
       prompt += `\n\nCurrent Best Practices & Standards:\n${components.researchContext}`;
@@ -45,6 +52,11 @@ export class DynamicPromptBuilder {
       });
     }
     
+    // Add the project's scoring rubric; it replaces the built-in score categories
+    if (components.rubric) {
+      prompt += `\n\n${components.rubric}`;
+    }
+    
     // Add output format requirements
     prompt += `\n\n${components.outputFormat}`;
     
@@ -103,6 +115,16 @@ export class DynamicPromptBuilder {
     // Add quality markers for high-quality output
     components.qualityMarkers = this.getQualityMarkers(context);
     
+    // Score against the project rubric when one is active
+    if (context.rubric && stage !== 'vision') {
+      components.rubric = this.getRubricPrompt(context.rubric);
+    }
+    
+    // Judge severity and friction for the persona of a persona run
+    if (context.persona && stage !== 'vision') {
+      components.persona = this.getPersonaPrompt(context.persona);
+    }
+    
     // Fetch research context if Perplexity is enabled
     if (this.perplexityEnabled && stage !== 'vision') {
       const research = await this.fetchResearchContext(context);
@@ -209,6 +231,33 @@ export class DynamicPromptBuilder {
     return basePrompts[stage][image.primaryType] || basePrompts[stage].unknown;
   }
 
+  private getRubricPrompt(rubric: AnalysisRubric): string {
+    const criteria = rubric.criteria.map((criterion, index) => {
+      const lines = [`${index + 1}. [${criterion.id}] ${criterion.name} (weight ${criterion.weight})`];
+      if (criterion.description) lines.push(`   ${criterion.description}`);
+      if (criterion.passGuidance) lines.push(`   Pass: ${criterion.passGuidance}`);
+      if (criterion.failGuidance) lines.push(`   Fail: ${criterion.failGuidance}`);
+      return lines.join('\n');
+    });
+
+    return `Evaluation Rubric: ${rubric.name}
+${rubric.description ? `${rubric.description}\n` : ''}Score the interface against EVERY criterion below instead of generic categories:
+${criteria.join('\n')}
+
+Include in the summary object:
+"criterionScores": [{ "criterionId": "<id in brackets>", "score": 0-100, "verdict": "pass|partial|fail", "rationale": "one sentence citing what you saw" }]
+with exactly one entry per criterion, in the order listed.`;
+  }
+
+  // The lens itself is shared with the persona runs of the group pipeline
+  private getPersonaPrompt(persona: EndUserPersona): string {
+    return `${buildPersonaPrompt(persona)}
+
+Include in the output:
+"personaFindings": [{ "id": "short-slug", "title": "...", "description": "why it affects this persona", "severity": "high|medium|low", "friction": 0-100, "screen": <1-based screen number or null> }]
+and in the summary object "frictionScore": 0-100 (overall friction for this persona) and "taskSuccess": 0-100 (likelihood they achieve their goals).`;
+  }
+
   private getDomainSpecificPrompt(context: AnalysisContext): string {
     const { image } = context;
     
@@ -382,7 +431,7 @@ ${context.user.inferredRole === 'designer' ? `Designer Perspective:
 {
   "executiveSummary": "Brief overview of key findings",
   "prioritizedActions": [{ "title": "", "description": "", "priority": "critical|high|medium|low", "effort": "", "impact": "", "timeline": "" }],
-  "visualAnnotations": [{ "element": "", "x": 0, "y": 0, "issue": "", "recommendation": "" }],
+  "visualAnnotations": [{ "element": "", "x": 0, "y": 0, "region": { "shape": "rect", "x": 0, "y": 0, "width": 0, "height": 0 }, "issue": "", "recommendation": "" }],
   "implementationRoadmap": { "immediate": [], "shortTerm": [], "longTerm": [] },
   "successMetrics": [{ "metric": "", "currentState": "", "targetState": "", "measurement": "" }],
   "strategicInsights": {
@@ -414,6 +463,9 @@ CRITICAL: The summary object MUST include:
 - overallScore: numeric score 0-100
 - categoryScores: object with usability, accessibility, visual, content scores
 
+Each visualAnnotation's region outlines the element it refers to, normalized 0-1 from the top-left of the screenshot;
+use { "shape": "polygon", "points": [{ "x": 0, "y": 0 }, ...] } for areas that are not rectangular. x/y is the point to pin inside it.
+
 Always include ALL properties in the exact format shown above.`
     };
     
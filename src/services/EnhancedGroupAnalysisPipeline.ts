@@ -5,10 +5,20 @@
 
 import { supabase } from '@/integrations/supabase/client';
 import { AnalysisContext } from '@/types/contextTypes';
-import { UXAnalysis, GroupAnalysisWithPrompt } from '@/types/ux-analysis';
+import {
+  UXAnalysis,
+  GroupAnalysisWithPrompt,
+  BenchmarkFeature,
+  BenchmarkProduct,
+  BenchmarkWin,
+  CompetitorBenchmark,
+  ProductTag
+} from '@/types/ux-analysis';
+import { productKey, productName } from '@/utils/benchmarkUtils';
 import { imageOptimizationService } from './ImageOptimizationService';
 import { ContextDetectionService } from './ContextDetectionService';
 import { DynamicPromptBuilder } from './DynamicPromptBuilder';
+import { RubricService } from './RubricService';
 
 export interface GroupAnalysisRequest {
   imageUrls: string[];
@@ -43,6 +53,35 @@ export interface CrossImageAnalysisResult {
   recommendations: string[];
 }
 
+export interface BenchmarkEntry {
+  imageId: string;
+  tag: ProductTag;
+  analysis: UXAnalysis;
+}
+
+// UX patterns looked for in the detected text and elements of every benchmarked screen
+const BENCHMARK_PATTERNS: Array<{ name: string; test: RegExp }> = [
+  { name: 'Search', test: /\bsearch\b/i },
+  { name: 'Filters & sorting', test: /\bfilters?\b|\bsort by\b/i },
+  { name: 'Sign in', test: /\b(sign|log) ?in\b/i },
+  { name: 'Social sign-in', test: /\b(continue|sign in|log in) with (google|apple|facebook|microsoft|github)\b/i },
+  { name: 'Visible pricing', test: /[$€£¥]\s?\d|\/\s?mo(nth)?\b|\bper month\b/i },
+  { name: 'Free trial', test: /\bfree trial\b|\btry (it )?(for )?free\b/i },
+  { name: 'Ratings & reviews', test: /\breviews?\b|\bratings?\b|★/i },
+  { name: 'Cart', test: /\badd to (cart|bag|basket)\b|\b(cart|basket)\b/i },
+  { name: 'Guest checkout', test: /\bguest checkout\b|\b(checkout|continue) as (a )?guest\b/i },
+  { name: 'Help & live chat', test: /\blive chat\b|\bchat with us\b|\bhelp cent(er|re)\b|\bcontact support\b/i },
+  { name: 'Social proof', test: /\btrusted by\b|\btestimonials?\b|\bcustomer stories\b/i },
+  { name: 'Trust & guarantees', test: /\bsecure (checkout|payment)\b|\bmoney[- ]back\b|\bguarantee[d]?\b/i },
+  { name: 'Progress indicator', test: /\bstep \d+ of \d+\b/i }
+];
+
+const MIN_ELEMENT_CONFIDENCE = 0.5;
+const MAX_ELEMENT_FEATURES = 20;
+// Criterion gaps smaller than this are noise between two AI reviews
+const BENCHMARK_WIN_MARGIN = 5;
+const MAX_EVIDENCE_IMAGES = 2;
+
 export interface EnhancedGroupAnalysisResult {
   success: boolean;
   groupAnalysis?: GroupAnalysisWithPrompt;
@@ -569,6 +608,142 @@ export class EnhancedGroupAnalysisPipeline {
     return groupAnalysis;
   }
 
+  /**
+   * Benchmark our screens against competitors' on one rubric, using each screen's existing analysis.
+   * Every product is scored per criterion and for cross-screen consistency; features come from
+   * detected text and elements; wins list where a competitor scores higher or has a pattern we lack.
+   */
+  buildCompetitorBenchmark(entries: BenchmarkEntry[]): CompetitorBenchmark {
+    // Only a rubric every analysis was scored against is comparable; otherwise fall back to the categories
+    const rubricIds = new Set(entries.map(entry => entry.analysis.summary?.rubric?.id ?? null));
+    const sharedRubric = rubricIds.size === 1 && !rubricIds.has(null);
+    const summaryOf = (entry: BenchmarkEntry) => sharedRubric
+      ? entry.analysis.summary
+      : { categoryScores: entry.analysis.summary?.categoryScores };
+
+    const criteria = RubricService.averageCriterionScores(entries.map(summaryOf))
+      .map(({ criterionId, name, weight }) => ({ id: criterionId, name, weight }));
+    const scoreOn = (entry: BenchmarkEntry, criterionId: string) =>
+      RubricService.getCriterionScores(summaryOf(entry)).find(s => s.criterionId === criterionId)?.score;
+
+    const byProduct = new Map<string, BenchmarkEntry[]>();
+    entries.forEach(entry => {
+      const key = productKey(entry.tag);
+      byProduct.set(key, [...(byProduct.get(key) || []), entry]);
+    });
+
+    const products: BenchmarkProduct[] = Array.from(byProduct.entries()).map(([key, productEntries]) => {
+      const averages = RubricService.averageCriterionScores(productEntries.map(summaryOf));
+      const scores = Object.fromEntries(averages.map(a => [a.criterionId, a.score]));
+      return {
+        key,
+        name: productName(productEntries[0].tag),
+        isOurs: productEntries[0].tag.kind === 'ours',
+        imageIds: productEntries.map(entry => entry.imageId),
+        overallScore: RubricService.weightedScore(criteria
+          .filter(c => typeof scores[c.id] === 'number')
+          .map(c => ({ weight: c.weight, score: scores[c.id] }))),
+        scores,
+        consistency: this.calculateConsistencyScore(productEntries.map(entry => entry.analysis.summary?.overallScore ?? 0))
+      };
+    }).sort((a, b) => Number(b.isOurs) - Number(a.isOurs) || b.overallScore - a.overallScore);
+
+    const features = this.detectBenchmarkFeatures(entries);
+    const ours = products.find(p => p.isOurs);
+    const wins: BenchmarkWin[] = [];
+
+    if (ours) {
+      products.filter(p => !p.isOurs).forEach(competitor => {
+        const competitorEntries = byProduct.get(competitor.key) || [];
+
+        criteria.forEach(criterion => {
+          const theirs = competitor.scores[criterion.id];
+          const mine = ours.scores[criterion.id];
+          if (typeof theirs !== 'number' || typeof mine !== 'number' || theirs - mine < BENCHMARK_WIN_MARGIN) return;
+          wins.push({
+            id: `${competitor.key}-${criterion.id}`,
+            competitorKey: competitor.key,
+            competitor: competitor.name,
+            kind: 'criterion',
+            title: `${competitor.name} scores higher on ${criterion.name}`,
+            detail: `${theirs} vs ${mine} for us across ${competitorEntries.length} of their screens and ${ours.imageIds.length} of ours`,
+            delta: theirs - mine,
+            // Their best screens on the criterion
+            evidenceImageIds: [...competitorEntries]
+              .sort((a, b) => (scoreOn(b, criterion.id) ?? 0) - (scoreOn(a, criterion.id) ?? 0))
+              .slice(0, MAX_EVIDENCE_IMAGES)
+              .map(entry => entry.imageId)
+          });
+        });
+
+        features
+          .filter(f => f.source === 'pattern' && (f.presence[competitor.key] || []).length > 0 && !(f.presence[ours.key] || []).length)
+          .forEach(feature => {
+            const evidence = feature.presence[competitor.key];
+            wins.push({
+              id: `${competitor.key}-feature-${feature.name}`,
+              competitorKey: competitor.key,
+              competitor: competitor.name,
+              kind: 'feature',
+              title: `${competitor.name} offers ${feature.name.toLowerCase()}`,
+              detail: `Detected on ${evidence.length} of their screens and none of ours`,
+              evidenceImageIds: evidence.slice(0, MAX_EVIDENCE_IMAGES)
+            });
+          });
+      });
+    }
+
+    wins.sort((a, b) => (b.delta ?? 0) - (a.delta ?? 0));
+
+    return {
+      id: `benchmark_${Date.now()}`,
+      rubricName: sharedRubric ? RubricService.getRubricName(entries.map(entry => entry.analysis.summary)) : null,
+      criteria,
+      products,
+      features,
+      wins,
+      createdAt: new Date()
+    };
+  }
+
+  /**
+   * Pattern and element presence per product; patterns first, then the most widely detected elements
+   */
+  private detectBenchmarkFeatures(entries: BenchmarkEntry[]): BenchmarkFeature[] {
+    const features = new Map<string, BenchmarkFeature>();
+    const mark = (name: string, source: BenchmarkFeature['source'], entry: BenchmarkEntry) => {
+      const feature = features.get(`${source}:${name}`) || { name, source, presence: {} };
+      const key = productKey(entry.tag);
+      const imageIds = feature.presence[key] || [];
+      if (!imageIds.includes(entry.imageId)) feature.presence[key] = [...imageIds, entry.imageId];
+      features.set(`${source}:${name}`, feature);
+    };
+
+    entries.forEach(entry => {
+      const metadata = entry.analysis.metadata;
+      const elements = (metadata?.objects || [])
+        .filter(o => o?.name && (o.confidence ?? 0) >= MIN_ELEMENT_CONFIDENCE)
+        .map(o => o.name.trim().charAt(0).toUpperCase() + o.name.trim().slice(1).toLowerCase());
+      const haystack = [...(metadata?.text || []), ...elements].join('\n');
+
+      BENCHMARK_PATTERNS.forEach(pattern => {
+        if (pattern.test.test(haystack)) mark(pattern.name, 'pattern', entry);
+      });
+      new Set(elements).forEach(element => mark(element, 'element', entry));
+    });
+
+    const productsWith = (feature: BenchmarkFeature) => Object.keys(feature.presence).length;
+    const patterns = BENCHMARK_PATTERNS
+      .map(pattern => features.get(`pattern:${pattern.name}`))
+      .filter((f): f is BenchmarkFeature => !!f);
+    const elements = Array.from(features.values())
+      .filter(f => f.source === 'element')
+      .sort((a, b) => productsWith(b) - productsWith(a) || a.name.localeCompare(b.name))
+      .slice(0, MAX_ELEMENT_FEATURES);
+
+    return [...patterns, ...elements];
+  }
+
   // Helper methods for metrics calculation
   private calculateConsistencyScore(scores: number[]): number {
     if (scores.length === 0) return 0;
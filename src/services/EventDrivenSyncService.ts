@@ -19,7 +19,8 @@ export type SyncEventType =
   | 'project_created'
   | 'project_deleted'
   | 'project_switched'
-  | 'workspace_cleaned';
+  | 'workspace_cleaned'
+  | 'canvas_nodes_moved';
 
 interface SyncEvent {
   type: SyncEventType;
@@ -149,6 +150,10 @@ class EventDrivenSyncService {
           await this.handleWorkspaceCleaned(event);
           break;
         
+        case 'canvas_nodes_moved':
+          await this.handleCanvasEvent(event);
+          break;
+        
         default:
           console.warn('[EventDrivenSync] Unknown event type:', event.type);
       }
@@ -252,6 +257,15 @@ class EventDrivenSyncService {
     }));
   }
 
+  /**
+   * Handle shared canvas layout changes from collaborators
+   */
+  private async handleCanvasEvent(event: SyncEvent): Promise<void> {
+    window.dispatchEvent(new CustomEvent('canvasNodesMoved', {
+      detail: event.payload
+    }));
+  }
+
   /**
    * ✅ PHASE 3.2: Clear all events and listeners
    */
@@ -1,4 +1,5 @@
 import { Node } from '@xyflow/react';
+import { parseGroupJourneyAnalysis } from '@/utils/journeyUtils';
 
 export interface GroupAnalysisProgressData {
   groupId: string;
@@ -206,6 +207,7 @@ export class GroupAnalysisProgressService {
         designInconsistencies: Array.isArray(source?.patterns?.designInconsistencies) ? source.patterns.designInconsistencies : [],
         userJourneyGaps: Array.isArray(source?.patterns?.userJourneyGaps) ? source.patterns.userJourneyGaps : []
       },
+      journey: source?.journey ?? parseGroupJourneyAnalysis(source?.metadata),
       analysis: source?.analysis || undefined,
       createdAt: source?.createdAt || source?.timestamp || new Date()
     };
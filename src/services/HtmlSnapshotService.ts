@@ -0,0 +1,211 @@
+import type { DomAuditReport } from '@/types/ux-analysis';
+import { canvasToImageFile } from '@/utils/imageUtils';
+import { DomAuditService } from './DomAuditService';
+
+/**
+ * HTML Snapshot Service
+ * Renders an uploaded HTML page (a single .html file or a "Save as web page, single file" .mhtml
+ * archive) in an offscreen, script-less iframe, runs the DOM accessibility audit on the laid-out page
+ * and captures it as a screenshot for the regular analysis pipeline. html2canvas is loaded on first use.
+ */
+
+export interface RenderedSnapshot {
+  screenshot: File;
+  audit: DomAuditReport;
+}
+
+// Rendered at a common desktop width; long pages are captured down to MAX_PAGE_HEIGHT
+const VIEWPORT_WIDTH = 1440;
+const MIN_PAGE_HEIGHT = 900;
+const MAX_PAGE_HEIGHT = 10000;
+const LOAD_TIMEOUT_MS = 10000;
+
+const HTML_EXTENSIONS = /\.(html?|mhtml?|mht)$/i;
+const MHTML_EXTENSIONS = /\.(mhtml?|mht)$/i;
+
+const baseName = (fileName: string) => fileName.replace(HTML_EXTENSIONS, '');
+
+interface MhtmlPart {
+  contentType: string;
+  location: string | null;
+  contentId: string | null;
+  body: string;
+  encoding: string;
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T | undefined> {
+  return Promise.race([promise, new Promise<undefined>(resolve => setTimeout(() => resolve(undefined), ms))]);
+}
+
+export class HtmlSnapshotService {
+  static isHtmlSnapshot(file: File): boolean {
+    return file.type === 'text/html' || file.type === 'multipart/related' || HTML_EXTENSIONS.test(file.name);
+  }
+
+  static async render(file: File): Promise<RenderedSnapshot> {
+    const text = await file.text();
+    const isMhtml = file.type === 'multipart/related' || MHTML_EXTENSIONS.test(file.name);
+    const html = this.sanitize(isMhtml ? this.unpackMhtml(text) : text);
+
+    const iframe = document.createElement('iframe');
+    // Same origin so the page can be read and captured; without allow-scripts nothing in it runs
+    iframe.setAttribute('sandbox', 'allow-same-origin');
+    iframe.setAttribute('aria-hidden', 'true');
+    iframe.tabIndex = -1;
+    Object.assign(iframe.style, {
+      position: 'fixed',
+      left: '-20000px',
+      top: '0',
+      width: `${VIEWPORT_WIDTH}px`,
+      height: `${MIN_PAGE_HEIGHT}px`,
+      border: '0',
+      visibility: 'hidden'
+    });
+
+    try {
+      const loaded = new Promise<void>(resolve => iframe.addEventListener('load', () => resolve(), { once: true }));
+      iframe.srcdoc = html;
+      document.body.appendChild(iframe);
+      await withTimeout(loaded, LOAD_TIMEOUT_MS);
+
+      const doc = iframe.contentDocument;
+      if (!doc?.documentElement || !doc.body) {
+        throw new Error('The HTML page could not be rendered');
+      }
+      await withTimeout(this.settle(doc), LOAD_TIMEOUT_MS);
+
+      // Grow the frame to the full page so the audit and the capture see the same layout
+      const height = Math.min(MAX_PAGE_HEIGHT, Math.max(MIN_PAGE_HEIGHT, doc.documentElement.scrollHeight, doc.body.scrollHeight));
+      iframe.style.height = `${height}px`;
+      const page = { width: VIEWPORT_WIDTH, height };
+
+      const audit = DomAuditService.audit(doc, page, file.name);
+
+      const { default: html2canvas } = await import('html2canvas');
+      const canvas = await html2canvas(doc.documentElement, {
+        width: page.width,
+        height: page.height,
+        windowWidth: page.width,
+        windowHeight: page.height,
+        scale: 1,
+        useCORS: true,
+        backgroundColor: '#ffffff',
+        logging: false
+      });
+
+      return { screenshot: await canvasToImageFile(canvas, baseName(file.name)), audit };
+    } finally {
+      iframe.remove();
+    }
+  }
+
+  /**
+   * Wait for web fonts and images so the layout (and the finding positions) match the capture
+   */
+  private static async settle(doc: Document): Promise<void> {
+    await doc.fonts?.ready;
+    await Promise.all(Array.from(doc.images)
+      .filter(image => !image.complete)
+      .map(image => new Promise<void>(resolve => {
+        image.addEventListener('load', () => resolve(), { once: true });
+        image.addEventListener('error', () => resolve(), { once: true });
+      })));
+  }
+
+  /**
+   * Scripts and refresh redirects are removed; the snapshot is rendered as markup only
+   */
+  private static sanitize(html: string): string {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    doc.querySelectorAll('script, noscript, meta[http-equiv="refresh" i], base').forEach(el => el.remove());
+    // Inline handlers stay as attributes for the audit (onclick marks clickable elements); they never run
+    // because the frame has no allow-scripts
+    return `<!DOCTYPE html>\n${doc.documentElement.outerHTML}`;
+  }
+
+  /**
+   * The HTML of an MHTML archive, with its stylesheets and images inlined as data URIs
+   */
+  private static unpackMhtml(archive: string): string {
+    const boundary = archive.match(/boundary="?([^";\r\n]+)"?/i)?.[1];
+    if (!boundary) throw new Error('The MHTML archive has no multipart boundary');
+
+    const parts = archive
+      .split(`--${boundary}`)
+      .slice(1)
+      .filter(chunk => !chunk.startsWith('--'))
+      .map(chunk => this.parsePart(chunk))
+      .filter((part): part is MhtmlPart => part !== null);
+
+    const root = parts.find(part => part.contentType === 'text/html');
+    if (!root) throw new Error('The MHTML archive contains no HTML page');
+
+    // Stylesheets first, so the image URLs inside them are rewritten too before they are inlined
+    const resources = new Map<string, string>();
+    const ordered = [...parts.filter(part => part.contentType === 'text/css'), ...parts.filter(part => part.contentType !== 'text/css')];
+    for (const part of ordered) {
+      if (part === root) continue;
+      const body = part.contentType === 'text/css' ? this.rewriteUrls(this.decodeText(part), resources) : null;
+      const dataUri = body !== null
+        ? `data:text/css;base64,${bytesToBase64(new TextEncoder().encode(body))}`
+        : `data:${part.contentType};base64,${this.toBase64(part)}`;
+      if (part.location) resources.set(part.location, dataUri);
+      if (part.contentId) resources.set(`cid:${part.contentId}`, dataUri);
+    }
+
+    return this.rewriteUrls(this.decodeText(root), resources);
+  }
+
+  private static parsePart(chunk: string): MhtmlPart | null {
+    const separator = chunk.search(/\r?\n\r?\n/);
+    if (separator === -1) return null;
+    const headerText = chunk.slice(0, separator).replace(/\r?\n[ \t]+/g, ' ');
+    const body = chunk.slice(separator).replace(/^\r?\n\r?\n/, '').replace(/\r?\n$/, '');
+
+    const header = (name: string) => headerText.match(new RegExp(`^${name}:\\s*(.+)$`, 'im'))?.[1].trim() ?? null;
+    return {
+      contentType: (header('Content-Type') ?? 'application/octet-stream').split(';')[0].trim().toLowerCase(),
+      location: header('Content-Location'),
+      contentId: header('Content-ID')?.replace(/^<|>$/g, '') ?? null,
+      encoding: (header('Content-Transfer-Encoding') ?? '7bit').toLowerCase(),
+      body
+    };
+  }
+
+  /**
+   * Raw bytes of a base64 or quoted-printable part; 7bit/8bit parts are returned as read
+   */
+  private static decodeBinary(part: MhtmlPart): string {
+    if (part.encoding === 'base64') return atob(part.body.replace(/\s+/g, ''));
+    if (part.encoding === 'quoted-printable') {
+      return part.body.replace(/=\r?\n/g, '').replace(/=([0-9A-F]{2})/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+    }
+    return part.body;
+  }
+
+  private static decodeText(part: MhtmlPart): string {
+    const binary = this.decodeBinary(part);
+    if (part.encoding !== 'base64' && part.encoding !== 'quoted-printable') return binary;
+    return new TextDecoder('utf-8').decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+  }
+
+  private static toBase64(part: MhtmlPart): string {
+    if (part.encoding === 'base64') return part.body.replace(/\s+/g, '');
+    if (part.encoding === 'quoted-printable') return btoa(this.decodeBinary(part));
+    return bytesToBase64(new TextEncoder().encode(part.body));
+  }
+
+  private static rewriteUrls(text: string, resources: Map<string, string>): string {
+    let rewritten = text;
+    for (const [location, dataUri] of resources) {
+      rewritten = rewritten.split(location).join(dataUri);
+    }
+    return rewritten;
+  }
+}
@@ -0,0 +1,305 @@
+/**
+ * Issue Export Service
+ * Turns selected UX suggestions into tracker tickets (GitHub Issues, Jira, Linear) with
+ * cropped annotation screenshots, category labels and an impact/effort priority.
+ * A dry run writes the exact request payloads to a JSON or CSV file instead of sending them.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { GitHubIssuesConnector } from './issueExport/GitHubIssuesConnector';
+import { JiraConnector } from './issueExport/JiraConnector';
+import { LinearConnector } from './issueExport/LinearConnector';
+import type {
+  IssueAttachment,
+  IssueConnectorConfig,
+  IssuePriority,
+  IssueSubmitResult,
+  IssueTicket,
+  IssueTrackerConnector
+} from './issueExport/IssueTrackerConnector';
+import type { AnnotationPoint, Suggestion, UXAnalysis } from '@/types/ux-analysis';
+
+export type DryRunFormat = 'json' | 'csv';
+
+export interface IssueExportOptions {
+  connectorId: string;
+  config: IssueConnectorConfig;
+  dryRun?: DryRunFormat | false;
+  onProgress?: (completed: number, total: number) => void;
+}
+
+export interface IssueExportResult {
+  dryRun: boolean;
+  tickets: IssueTicket[];
+  results: IssueSubmitResult[];
+}
+
+const CONFIG_STORAGE_PREFIX = 'issue-export-config:';
+const CROP_SIZE_RATIO = 0.35;
+const MIN_CROP_SIZE = 240;
+
+// Rows: impact, columns: effort. Quick wins outrank expensive work of the same impact.
+const PRIORITY_MATRIX: Record<Suggestion['impact'], Record<Suggestion['effort'], IssuePriority>> = {
+  high: { low: 'urgent', medium: 'high', high: 'high' },
+  medium: { low: 'high', medium: 'medium', high: 'medium' },
+  low: { low: 'medium', medium: 'low', high: 'low' }
+};
+
+// Older analyses store percentages (0-100) rather than fractions
+function normalizeCoordinate(value: number): number {
+  if (typeof value !== 'number' || !isFinite(value)) return 0;
+  return value > 1 ? value / 100 : value;
+}
+
+function csvCell(value: unknown): string {
+  const text = String(value ?? '');
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export class IssueExportService {
+  private static connectors = new Map<string, IssueTrackerConnector>(
+    [new GitHubIssuesConnector(), new JiraConnector(), new LinearConnector()].map(c => [c.id, c])
+  );
+
+  /**
+   * Register an additional connector, or replace a built-in one (e.g. with a mock for testing)
+   */
+  static registerConnector(connector: IssueTrackerConnector): void {
+    this.connectors.set(connector.id, connector);
+  }
+
+  static getConnectors(): IssueTrackerConnector[] {
+    return Array.from(this.connectors.values());
+  }
+
+  static getConnector(connectorId: string): IssueTrackerConnector {
+    const connector = this.connectors.get(connectorId);
+    if (!connector) throw new Error(`Unknown issue tracker: ${connectorId}`);
+    return connector;
+  }
+
+  static derivePriority(impact: Suggestion['impact'], effort: Suggestion['effort']): IssuePriority {
+    return PRIORITY_MATRIX[impact]?.[effort] ?? 'medium';
+  }
+
+  static deriveLabels(suggestion: Suggestion): string[] {
+    return ['ux', `ux:${suggestion.category}`, `impact:${suggestion.impact}`];
+  }
+
+  /**
+   * Build tickets for the selected suggestions, cropping the screenshot around each related annotation
+   */
+  static async buildTickets(analysis: UXAnalysis, suggestions: Suggestion[]): Promise<IssueTicket[]> {
+    const annotationsById = new Map((analysis.visualAnnotations || []).map(a => [a.id, a]));
+    const image = await this.loadImage(analysis.imageUrl).catch(error => {
+      console.warn('[IssueExportService] Screenshot unavailable, exporting without crops:', error);
+      return null;
+    });
+
+    return suggestions.map(suggestion => {
+      const attachments: IssueAttachment[] = [];
+      if (image) {
+        (suggestion.relatedAnnotations || []).forEach((annotationId, index) => {
+          const annotation = annotationsById.get(annotationId);
+          const dataUrl = annotation ? this.cropAnnotation(image, annotation) : null;
+          if (dataUrl) {
+            attachments.push({
+              annotationId,
+              filename: `${suggestion.id}-${index + 1}.png`,
+              dataUrl
+            });
+          }
+        });
+      }
+
+      return {
+        suggestionId: suggestion.id,
+        title: suggestion.title,
+        description: suggestion.description,
+        actionItems: Array.isArray(suggestion.actionItems) ? suggestion.actionItems : [],
+        category: suggestion.category,
+        impact: suggestion.impact,
+        effort: suggestion.effort,
+        priority: this.derivePriority(suggestion.impact, suggestion.effort),
+        labels: this.deriveLabels(suggestion),
+        source: {
+          analysisId: analysis.id,
+          imageId: analysis.imageId,
+          imageName: analysis.imageName,
+          imageUrl: analysis.imageUrl
+        },
+        attachments
+      };
+    });
+  }
+
+  static async exportSuggestions(
+    analysis: UXAnalysis,
+    suggestions: Suggestion[],
+    { connectorId, config, dryRun = false, onProgress }: IssueExportOptions
+  ): Promise<IssueExportResult> {
+    const connector = this.getConnector(connectorId);
+    const tickets = await this.buildTickets(analysis, suggestions);
+
+    if (dryRun) {
+      this.writeDryRunFile(connector, config, tickets, dryRun);
+      return { dryRun: true, tickets, results: [] };
+    }
+
+    const missing = connector.validateConfig(config);
+    if (missing.length > 0) {
+      throw new Error(`Missing ${connector.name} settings: ${missing.join(', ')}`);
+    }
+
+    const results: IssueSubmitResult[] = [];
+    for (const ticket of tickets) {
+      await this.uploadAttachments(ticket);
+      results.push(await connector.submit(ticket, config));
+      onProgress?.(results.length, tickets.length);
+    }
+
+    return { dryRun: false, tickets, results };
+  }
+
+  /**
+   * Non-secret connector settings are remembered per tracker; tokens are never persisted
+   */
+  static loadSavedConfig(connectorId: string): IssueConnectorConfig {
+    try {
+      return JSON.parse(localStorage.getItem(`${CONFIG_STORAGE_PREFIX}${connectorId}`) || '{}');
+    } catch {
+      return {};
+    }
+  }
+
+  static saveConfig(connectorId: string, config: IssueConnectorConfig): void {
+    const connector = this.getConnector(connectorId);
+    const secretKeys = new Set(connector.configFields.filter(f => f.secret).map(f => f.key));
+    const persisted = Object.fromEntries(Object.entries(config).filter(([key]) => !secretKeys.has(key)));
+    localStorage.setItem(`${CONFIG_STORAGE_PREFIX}${connectorId}`, JSON.stringify(persisted));
+  }
+
+  private static writeDryRunFile(
+    connector: IssueTrackerConnector,
+    config: IssueConnectorConfig,
+    tickets: IssueTicket[],
+    format: DryRunFormat
+  ): void {
+    const secretKeys = connector.configFields.filter(f => f.secret).map(f => f.key);
+    // Build with a placeholder credential so no real secret ends up in the file
+    const redactedConfig = { ...config, ...Object.fromEntries(secretKeys.map(key => [key, '<redacted>'])) };
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+
+    if (format === 'json') {
+      const payload = {
+        connector: connector.id,
+        generatedAt: new Date().toISOString(),
+        tickets: tickets.map(ticket => ({
+          ticket,
+          request: connector.buildRequest(ticket, redactedConfig)
+        }))
+      };
+      this.downloadFile(JSON.stringify(payload, null, 2), `${connector.id}-issues-${timestamp}.json`, 'application/json');
+      return;
+    }
+
+    const header = ['title', 'priority', 'labels', 'category', 'impact', 'effort', 'description', 'action_items', 'attachments', 'screen'];
+    const rows = tickets.map(ticket => [
+      ticket.title,
+      ticket.priority,
+      ticket.labels.join(' '),
+      ticket.category,
+      ticket.impact,
+      ticket.effort,
+      ticket.description,
+      ticket.actionItems.join('; '),
+      ticket.attachments.map(a => a.filename).join(' '),
+      ticket.source.imageName
+    ]);
+    const csv = [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+    this.downloadFile(csv, `${connector.id}-issues-${timestamp}.csv`, 'text/csv');
+  }
+
+  private static async uploadAttachments(ticket: IssueTicket): Promise<void> {
+    if (ticket.attachments.length === 0) return;
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    for (const attachment of ticket.attachments) {
+      const blob = await (await fetch(attachment.dataUrl)).blob();
+      const path = `${user.id}/issue-exports/${ticket.source.analysisId}/${Date.now()}-${attachment.filename}`;
+      const { error } = await supabase.storage
+        .from('images')
+        .upload(path, blob, { contentType: 'image/png', upsert: true });
+
+      if (error) {
+        console.warn('[IssueExportService] Failed to upload screenshot crop:', error);
+        continue;
+      }
+      attachment.url = supabase.storage.from('images').getPublicUrl(path).data.publicUrl;
+    }
+  }
+
+  private static loadImage(url: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+      if (!url) {
+        reject(new Error('Analysis has no image URL'));
+        return;
+      }
+      const img = new Image();
+      img.crossOrigin = 'anonymous';
+      img.onload = () => resolve(img);
+      img.onerror = () => reject(new Error(`Failed to load ${url}`));
+      img.src = url;
+    });
+  }
+
+  /**
+   * Crop a square around the annotation and mark the exact point
+   */
+  private static cropAnnotation(image: HTMLImageElement, annotation: AnnotationPoint): string | null {
+    const width = image.naturalWidth;
+    const height = image.naturalHeight;
+    if (!width || !height) return null;
+
+    const size = Math.min(Math.max(MIN_CROP_SIZE, Math.round(width * CROP_SIZE_RATIO)), width, height);
+    const centerX = normalizeCoordinate(annotation.x) * width;
+    const centerY = normalizeCoordinate(annotation.y) * height;
+    const left = Math.min(Math.max(0, Math.round(centerX - size / 2)), width - size);
+    const top = Math.min(Math.max(0, Math.round(centerY - size / 2)), height - size);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+
+    try {
+      ctx.drawImage(image, left, top, size, size, 0, 0, size, size);
+      const radius = Math.max(10, Math.round(size / 24));
+      ctx.beginPath();
+      ctx.arc(centerX - left, centerY - top, radius, 0, Math.PI * 2);
+      ctx.lineWidth = Math.max(3, radius / 3);
+      ctx.strokeStyle = annotation.type === 'success' ? '#22c55e' : annotation.type === 'suggestion' ? '#eab308' : '#ef4444';
+      ctx.stroke();
+      return canvas.toDataURL('image/png');
+    } catch (error) {
+      // A CORS-tainted canvas cannot be exported
+      console.warn('[IssueExportService] Failed to crop annotation:', error);
+      return null;
+    }
+  }
+
+  private static downloadFile(content: string, filename: string, type: string): void {
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }
+}
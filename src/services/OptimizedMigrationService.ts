@@ -2,6 +2,7 @@ import { supabase } from '@/integrations/supabase/client';
 import type { UploadedImage, UXAnalysis, ImageGroup, GroupAnalysisWithPrompt } from '@/types/ux-analysis';
 import { ImageMigrationService, AnalysisMigrationService, GroupMigrationService, GroupAnalysisMigrationService } from './DataMigrationService';
 import { SmartCacheService } from './SmartCacheService';
+import { parseGroupJourney, parseGroupJourneyAnalysis } from '@/utils/journeyUtils';
 
 export class OptimizedImageMigrationService extends ImageMigrationService {
   static async loadImagesFromDatabaseOptimized(
@@ -273,7 +274,8 @@ export class OptimizedGroupMigrationService extends GroupMigrationService {
       const { data: images } = await supabase
         .from('group_images')
         .select('group_id, image_id')
-        .in('group_id', groupIds);
+        .in('group_id', groupIds)
+        .order('position');
       
       groupImages = images || [];
     }
@@ -288,7 +290,8 @@ export class OptimizedGroupMigrationService extends GroupMigrationService {
         .map(gi => gi.image_id) : [],
       position: group.position as { x: number; y: number } || { x: 0, y: 0 },
       createdAt: new Date(group.created_at),
-      projectId: group.project_id
+      projectId: group.project_id,
+      journey: parseGroupJourney(group.journey)
     }));
   }
 
@@ -353,6 +356,7 @@ export class OptimizedGroupAnalysisMigrationService extends GroupAnalysisMigrati
         designInconsistencies: [],
         userJourneyGaps: []
       },
+      journey: parseGroupJourneyAnalysis(analysis.metadata),
       createdAt: new Date(analysis.created_at)
     }));
   }
@@ -1,5 +1,9 @@
 import { supabase } from '@/integrations/supabase/client';
 import { SlugService } from './SlugService';
+import { WorkspaceService } from './WorkspaceService';
+import { AnnotationThreadService } from './AnnotationThreadService';
+import { RubricService, type CriterionAverage } from './RubricService';
+import type { AnnotationStatusSummary } from '@/types/ux-analysis';
 
 interface ProjectWithCounts {
   id: string;
@@ -9,6 +13,7 @@ interface ProjectWithCounts {
   created_at: string;
   updated_at: string;
   user_id: string;
+  workspace_id: string | null;
   images: Array<{ count: number }>;
   ux_analyses: Array<{ count: number }>;
 }
@@ -83,12 +88,14 @@ export class OptimizedProjectService {
 
       console.log('[OptimizedProjectService] No projects found, creating default project...');
 
-      // Create default project with slug
+      // Create default project with slug in the current workspace
+      const workspaceId = await WorkspaceService.getCurrentWorkspaceId();
       const slug = await SlugService.generateUniqueSlug('Default Project');
       const { data: newProject, error: createError } = await supabase
         .from('projects')
         .insert({
           user_id: user.id,
+          workspace_id: workspaceId,
           name: 'Default Project',
           description: 'Your UX analysis workspace',
           slug
@@ -118,11 +125,13 @@ export class OptimizedProjectService {
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) throw new Error('User not authenticated');
 
+    const workspaceId = await WorkspaceService.getCurrentWorkspaceId();
+
     // Get basic project info first
     const { data: projects, error } = await supabase
       .from('projects')
       .select('*')
-      .eq('user_id', user.id)
+      .eq('workspace_id', workspaceId)
       .order('updated_at', { ascending: false });
 
     if (error) throw error;
@@ -254,6 +263,7 @@ export class OptimizedProjectService {
       .from('projects')
       .insert({
         user_id: user.id,
+        workspace_id: await WorkspaceService.getCurrentWorkspaceId(),
         name,
         description: description || '',
         slug
@@ -274,10 +284,10 @@ export class OptimizedProjectService {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('User not authenticated');
 
+      // Row level security limits this to projects in the user's workspaces
       const { data: project, error } = await supabase
         .from('projects')
         .select('id')
-        .eq('user_id', user.id)
         .eq('slug', slug)
         .single();
 
@@ -347,6 +357,7 @@ export class OptimizedProjectService {
       .from('projects')
       .insert({
         user_id: user.id,
+        workspace_id: await WorkspaceService.getCurrentWorkspaceId(),
         name: projectName,
         description: description || `Created on ${new Date().toLocaleDateString()}`,
         slug
@@ -404,6 +415,8 @@ export class OptimizedProjectService {
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) return null;
 
+    const workspaceId = await WorkspaceService.getCurrentWorkspaceId();
+
     // Get all projects with their update times and activity
     const { data: projects, error } = await supabase
       .from('projects')
@@ -413,7 +426,7 @@ export class OptimizedProjectService {
         images!inner (id),
         ux_analyses: images!inner (ux_analyses!inner (id))
       `)
-      .eq('user_id', user.id)
+      .eq('workspace_id', workspaceId)
       .order('updated_at', { ascending: false });
 
     if (error || !projects || projects.length === 0) {
@@ -421,7 +434,7 @@ export class OptimizedProjectService {
       const { data: fallbackProjects } = await supabase
         .from('projects')
         .select('id')
-        .eq('user_id', user.id)
+        .eq('workspace_id', workspaceId)
         .order('updated_at', { ascending: false })
         .limit(1);
       
@@ -477,12 +490,15 @@ export class OptimizedProjectService {
     totalIssues: number;
     totalSuggestions: number;
     categoryScores: { usability: number; accessibility: number; visual: number; content: number };
+    criterionScores: CriterionAverage[];
+    rubricName: string | null;
     issueDistribution: { high: number; medium: number; low: number };
     recentActivity: any[];
     topIssues: any[];
     patterns: { commonIssues: any[]; improvementAreas: any[]; strengths: any[] };
     trends: any;
     analysisQuality: { successRate: number; averageConfidence: number; failureReasons: any[] };
+    reviewStatus: AnnotationStatusSummary;
   }> {
     try {
       console.log('[OptimizedProjectService] Starting getAggregatedMetrics...');
@@ -495,11 +511,12 @@ export class OptimizedProjectService {
 
       console.log('[OptimizedProjectService] User authenticated:', user.id);
 
-      // Step 1: Get all user projects first
+      // Step 1: Get all projects in the current workspace first
+      const workspaceId = await WorkspaceService.getCurrentWorkspaceId();
       const { data: userProjects, error: projectsError } = await supabase
         .from('projects')
         .select('id')
-        .eq('user_id', user.id);
+        .eq('workspace_id', workspaceId);
 
       if (projectsError) {
         console.error('[OptimizedProjectService] Error fetching projects:', projectsError);
@@ -520,6 +537,8 @@ export class OptimizedProjectService {
           totalIssues: 0,
           totalSuggestions: 0,
           categoryScores: { usability: 0, accessibility: 0, visual: 0, content: 0 },
+          criterionScores: [],
+          rubricName: null,
           issueDistribution: { high: 0, medium: 0, low: 0 },
           recentActivity: [],
           topIssues: [],
@@ -534,7 +553,8 @@ export class OptimizedProjectService {
             successRate: 0,
             averageConfidence: 0,
             failureReasons: []
-          }
+          },
+          reviewStatus: { open: 0, accepted: 0, wontFix: 0, fixed: 0, openHighSeverity: 0 }
         };
       }
 
@@ -587,15 +607,21 @@ export class OptimizedProjectService {
       let totalSuggestions = 0;
       let categoryScores = { usability: 0, accessibility: 0, visual: 0, content: 0 };
       let issueDistribution = { high: 0, medium: 0, low: 0 };
+      // Criteria of different project rubrics stay separate since they are keyed by criterion id
+      let criterionScores: CriterionAverage[] = [];
+      let reviewStatus: AnnotationStatusSummary = { open: 0, accepted: 0, wontFix: 0, fixed: 0, openHighSeverity: 0 };
 
       if (totalAnalyses > 0) {
         // Get detailed analysis data for calculations
         const { data: detailedAnalyses, error: detailError } = await supabase
           .from('ux_analyses')
-          .select('summary, suggestions, visual_annotations')
+          .select('id, summary, suggestions, visual_annotations')
           .in('image_id', userImages.map(img => img.id));
 
         if (!detailError && detailedAnalyses) {
+          reviewStatus = await AnnotationThreadService.summarizeStatuses(detailedAnalyses);
+          criterionScores = RubricService.averageCriterionScores(detailedAnalyses.map(a => a.summary));
+
           console.log('[OptimizedProjectService] Found detailed analyses for metrics:', detailedAnalyses.length);
           
           let scoreSum = 0;
@@ -658,6 +684,8 @@ export class OptimizedProjectService {
         totalIssues: issueDistribution.high + issueDistribution.medium + issueDistribution.low,
         totalSuggestions,
         categoryScores,
+        criterionScores,
+        rubricName: null,
         issueDistribution,
         recentActivity: [],
         topIssues: [],
@@ -672,7 +700,8 @@ export class OptimizedProjectService {
           successRate: 100,
           averageConfidence: 0.8,
           failureReasons: []
-        }
+        },
+        reviewStatus
       };
 
       console.log('[OptimizedProjectService] Comprehensive aggregated metrics result:', result);
@@ -691,6 +720,8 @@ export class OptimizedProjectService {
         totalIssues: 0,
         totalSuggestions: 0,
         categoryScores: { usability: 0, accessibility: 0, visual: 0, content: 0 },
+        criterionScores: [],
+        rubricName: null,
         issueDistribution: { high: 0, medium: 0, low: 0 },
         recentActivity: [],
         topIssues: [],
@@ -705,7 +736,8 @@ export class OptimizedProjectService {
           successRate: 0,
           averageConfidence: 0,
           failureReasons: []
-        }
+        },
+        reviewStatus: { open: 0, accepted: 0, wontFix: 0, fixed: 0, openHighSeverity: 0 }
       };
       
       console.log('[OptimizedProjectService] Returning fallback result due to error:', fallbackResult);
@@ -0,0 +1,78 @@
+import { canvasToImageFile } from '@/utils/imageUtils';
+
+/**
+ * PDF Document Service
+ * Rasterizes multi-page PDFs (exported flows, decks) into one PNG per page in the browser, so each
+ * page is uploaded, stored and analyzed like any other screenshot. pdf.js is loaded on first use.
+ */
+
+export interface RasterizedDocument {
+  name: string;
+  pages: File[];
+  pageCount: number;
+  // More pages than MAX_PDF_PAGES; only the first MAX_PDF_PAGES were rasterized
+  truncated: boolean;
+}
+
+// Group analysis takes at most 20 images
+export const MAX_PDF_PAGES = 20;
+
+// Pages are rendered at TARGET_WIDTH pixels wide (never above 2x), a typical desktop screenshot size
+const TARGET_WIDTH = 1600;
+const MAX_SCALE = 2;
+
+const baseName = (fileName: string) => fileName.replace(/\.pdf$/i, '');
+
+export class PdfDocumentService {
+  static isPdf(file: File): boolean {
+    return file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+  }
+
+  /**
+   * Render each page to a PNG file named "<document>-page-01.png", in page order. Pages whose PNG
+   * would exceed 10 MB are encoded as JPEG instead.
+   */
+  static async rasterize(
+    file: File,
+    onProgress?: (page: number, pageCount: number) => void
+  ): Promise<RasterizedDocument> {
+    const pdfjs = await import('pdfjs-dist');
+    const { default: workerUrl } = await import('pdfjs-dist/build/pdf.worker.min.mjs?url');
+    pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+
+    const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+    const name = baseName(file.name);
+    const pageCount = pdf.numPages;
+    const renderCount = Math.min(pageCount, MAX_PDF_PAGES);
+    const digits = Math.max(2, String(renderCount).length);
+    const pages: File[] = [];
+
+    try {
+      for (let pageNumber = 1; pageNumber <= renderCount; pageNumber++) {
+        const page = await pdf.getPage(pageNumber);
+        const unscaled = page.getViewport({ scale: 1 });
+        const viewport = page.getViewport({ scale: Math.min(MAX_SCALE, TARGET_WIDTH / unscaled.width) });
+
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.floor(viewport.width);
+        canvas.height = Math.floor(viewport.height);
+        const context = canvas.getContext('2d');
+        if (!context) throw new Error('Canvas 2D context is not available');
+
+        // PDFs without a background would otherwise render onto transparent pixels
+        context.fillStyle = '#ffffff';
+        context.fillRect(0, 0, canvas.width, canvas.height);
+        await page.render({ canvasContext: context, viewport }).promise;
+        page.cleanup();
+
+        const label = String(pageNumber).padStart(digits, '0');
+        pages.push(await canvasToImageFile(canvas, `${name}-page-${label}`));
+        onProgress?.(pageNumber, renderCount);
+      }
+    } finally {
+      await pdf.destroy();
+    }
+
+    return { name, pages, pageCount, truncated: pageCount > renderCount };
+  }
+}
@@ -0,0 +1,212 @@
+import { supabase } from '@/integrations/supabase/client';
+import { startGroupUxAnalysis } from '@/services/StartGroupUxAnalysis';
+import { matchBySimilarity, textSimilarity } from '@/utils/textSimilarity';
+import type {
+  EndUserPersona,
+  PersonaComparison,
+  PersonaFinding,
+  PersonaFindingComparison,
+  PersonaRunResult,
+  PersonaSeverity,
+  UploadedImage
+} from '@/types/ux-analysis';
+
+export interface PersonaComparisonProgress {
+  stage: string;
+  progress: number;
+}
+
+interface RunPersonaComparisonOptions {
+  projectId: string;
+  userContext?: string | null;
+  onProgress?: (progress: PersonaComparisonProgress) => void;
+}
+
+const POLL_INTERVAL_MS = 2500;
+const JOB_TIMEOUT_MS = 5 * 60 * 1000;
+// Personas phrase the same issue differently, so findings match on a lower bar than analysis versions
+const FINDING_MATCH_THRESHOLD = 0.4;
+
+const SEVERITY_RANK: Record<PersonaSeverity, number> = { low: 1, medium: 2, high: 3 };
+const SEVERITIES: PersonaSeverity[] = ['low', 'medium', 'high'];
+
+/**
+ * Runs the same screens through the lens of several end-user personas and lines their findings up.
+ * Each persona is one group job in persona mode (start-group-ux-analysis → group-ux-orchestrator).
+ */
+export class PersonaComparisonService {
+  static async runComparison(
+    images: UploadedImage[],
+    personas: EndUserPersona[],
+    { projectId, userContext = null, onProgress }: RunPersonaComparisonOptions
+  ): Promise<PersonaComparison> {
+    const imageUrls = images.map(image => image.url);
+    if (imageUrls.some(url => !url || url.startsWith('blob:'))) {
+      throw new Error('All screens must finish uploading before they can be analyzed');
+    }
+    if (personas.length === 0) throw new Error('Choose at least one persona');
+
+    const jobProgress = new Map<string, PersonaComparisonProgress>();
+    const reportProgress = () => {
+      const entries = Array.from(jobProgress.values());
+      onProgress?.({
+        stage: `${entries.filter(p => p.stage === 'completed').length}/${personas.length} personas`,
+        progress: Math.round(entries.reduce((sum, p) => sum + p.progress, 0) / personas.length)
+      });
+    };
+
+    const settled = await Promise.allSettled(personas.map(async persona => {
+      const { jobId } = await startGroupUxAnalysis({
+        groupId: null,
+        imageUrls,
+        groupName: `${persona.name}: ${images.map(image => image.name).join(', ')}`,
+        projectId,
+        userContext,
+        analysisMode: 'persona',
+        personaId: persona.id,
+        dispatchMode: (localStorage.getItem('DISPATCH_MODE') as 'inngest' | 'direct' | 'both') || 'both'
+      });
+
+      await this.waitForJob(jobId, progress => {
+        jobProgress.set(persona.id, progress);
+        reportProgress();
+      });
+      return this.fetchRun(jobId, persona);
+    }));
+
+    const runs = settled.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+    const failedPersonas = personas.filter((_, i) => settled[i].status === 'rejected').map(persona => persona.name);
+    if (runs.length === 0) {
+      const firstError = settled.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+      throw firstError?.reason instanceof Error ? firstError.reason : new Error('Persona analysis failed');
+    }
+
+    return {
+      id: `persona-comparison-${Date.now()}`,
+      imageIds: images.map(image => image.id),
+      runs,
+      findings: this.compareRuns(runs),
+      failedPersonas,
+      createdAt: new Date()
+    };
+  }
+
+  static async fetchRun(jobId: string, persona: EndUserPersona): Promise<PersonaRunResult> {
+    const { data, error } = await supabase
+      .from('group_analyses')
+      .select('*')
+      .eq('metadata->>groupJobId', jobId)
+      .order('created_at', { ascending: false })
+      .limit(1);
+
+    if (error) throw new Error(error.message || 'Failed to load persona analysis');
+    const row = data?.[0];
+    if (!row) throw new Error(`No analysis found for persona ${persona.name}`);
+
+    const summary = (row.summary && typeof row.summary === 'object' ? row.summary : {}) as Record<string, unknown>;
+    const metadata = (row.metadata && typeof row.metadata === 'object' ? row.metadata : {}) as Record<string, unknown>;
+    const personaMeta = (metadata.persona || {}) as { findings?: unknown };
+    const findings = Array.isArray(personaMeta.findings)
+      ? personaMeta.findings.map((f, i) => this.normalizeFinding((f || {}) as Record<string, unknown>, i))
+      : [];
+
+    return {
+      personaId: persona.id,
+      personaName: persona.name,
+      jobId,
+      analysisId: row.id,
+      frictionScore: typeof summary.frictionScore === 'number' ? summary.frictionScore : 0,
+      taskSuccess: typeof summary.taskSuccess === 'number' ? summary.taskSuccess : undefined,
+      findings,
+      insights: Array.isArray(row.insights) ? (row.insights as unknown[]).filter((i): i is string => typeof i === 'string') : [],
+      createdAt: new Date(row.created_at || Date.now())
+    };
+  }
+
+  /**
+   * Group the findings of every run into shared issues and measure how far the personas' ratings of
+   * each issue diverge; a persona that did not run into an issue counts as not affected
+   */
+  static compareRuns(runs: PersonaRunResult[]): PersonaFindingComparison[] {
+    const clusters: Array<{ representative: PersonaFinding; byPersona: Map<string, PersonaFinding> }> = [];
+    const text = (f: PersonaFinding) => `${f.title} ${f.description}`;
+
+    runs.forEach(run => {
+      const matches = matchBySimilarity(clusters, run.findings, (cluster, finding) => {
+        const a = cluster.representative;
+        const similarity = Math.max(textSimilarity(a.title, finding.title), textSimilarity(text(a), text(finding)));
+        // Issues pinned to different screens are rarely the same issue
+        return a.screen !== null && finding.screen !== null && a.screen !== finding.screen ? similarity * 0.5 : similarity;
+      }, FINDING_MATCH_THRESHOLD);
+
+      const matched = new Set(matches.map(m => m.currentIndex));
+      matches.forEach(m => clusters[m.previousIndex].byPersona.set(run.personaId, run.findings[m.currentIndex]));
+      run.findings.forEach((finding, i) => {
+        if (!matched.has(i)) clusters.push({ representative: finding, byPersona: new Map([[run.personaId, finding]]) });
+      });
+    });
+
+    return clusters
+      .map((cluster, index) => {
+        const severities: Record<string, PersonaSeverity | null> = {};
+        const friction: Record<string, number | null> = {};
+        runs.forEach(run => {
+          const finding = cluster.byPersona.get(run.personaId);
+          severities[run.personaId] = finding?.severity ?? null;
+          friction[run.personaId] = finding?.friction ?? null;
+        });
+        const ranks = Object.values(severities).map(s => s ? SEVERITY_RANK[s] : 0);
+        const frictions = Object.values(friction).map(f => f ?? 0);
+        // The most severe rating describes the issue best
+        const worst = Array.from(cluster.byPersona.values())
+          .sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity])[0];
+
+        return {
+          id: `persona-finding-${index + 1}`,
+          title: worst.title,
+          description: worst.description,
+          screen: cluster.representative.screen,
+          severities,
+          friction,
+          severitySpread: Math.max(...ranks) - Math.min(...ranks),
+          frictionSpread: Math.max(...frictions) - Math.min(...frictions)
+        };
+      })
+      .sort((a, b) => b.severitySpread - a.severitySpread || b.frictionSpread - a.frictionSpread);
+  }
+
+  private static async waitForJob(jobId: string, onProgress: (p: PersonaComparisonProgress) => void): Promise<void> {
+    const startedAt = Date.now();
+
+    while (Date.now() - startedAt < JOB_TIMEOUT_MS) {
+      const { data, error } = await supabase
+        .from('group_analysis_jobs')
+        .select('status, progress, current_stage, error')
+        .eq('id', jobId)
+        .maybeSingle();
+
+      if (error) throw new Error(error.message);
+      if (data) {
+        onProgress({ stage: data.current_stage || 'queued', progress: data.progress || 0 });
+        if (data.status === 'completed') return;
+        if (data.status === 'failed') throw new Error(data.error || 'Persona analysis failed');
+      }
+
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+
+    throw new Error('Persona analysis timed out. Please check background workers.');
+  }
+
+  private static normalizeFinding(raw: Record<string, unknown>, index: number): PersonaFinding {
+    const friction = Number(raw.friction);
+    return {
+      id: typeof raw.id === 'string' && raw.id ? raw.id : `finding-${index + 1}`,
+      title: String(raw.title ?? ''),
+      description: String(raw.description ?? ''),
+      severity: SEVERITIES.includes(raw.severity as PersonaSeverity) ? raw.severity as PersonaSeverity : 'medium',
+      friction: Number.isFinite(friction) ? Math.max(0, Math.min(100, Math.round(friction))) : 0,
+      screen: typeof raw.screen === 'number' ? raw.screen : null
+    };
+  }
+}
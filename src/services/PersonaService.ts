@@ -0,0 +1,125 @@
+/**
+ * Persona Service
+ * Reusable end-user personas of a project. Where UserContext describes the reader of a report, a persona
+ * describes who uses the interface; persona runs judge severity and friction for that person.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { EndUserPersona, PersonaExpertise } from '@/types/ux-analysis';
+
+export type PersonaDraft = Omit<EndUserPersona, 'id' | 'projectId' | 'createdAt' | 'updatedAt'>;
+
+export const PERSONA_PRESETS: PersonaDraft[] = [
+  {
+    name: 'First-time buyer with low vision',
+    description: '65-year-old buying online for the first time, on a tablet with enlarged text',
+    age: 65,
+    techExpertise: 'novice',
+    goals: ['Find the right product', 'Complete the purchase without help'],
+    accessibilityNeeds: ['Low vision: needs large text and strong contrast', 'Relies on zoom and clear focus states'],
+    constraints: ['Unsure of online payment', 'Abandons when steps are unclear']
+  },
+  {
+    name: 'Power-user admin',
+    description: 'Daily administrator who manages many records and knows the product inside out',
+    age: null,
+    techExpertise: 'expert',
+    goals: ['Complete bulk tasks quickly', 'Audit what changed and who changed it'],
+    accessibilityNeeds: [],
+    constraints: ['Keyboard-first', 'Little patience for confirmation dialogs and wizards']
+  },
+  {
+    name: 'Commuter on a phone',
+    description: 'Uses the product one-handed on a small screen while travelling',
+    age: 29,
+    techExpertise: 'intermediate',
+    goals: ['Finish the task in a few minutes'],
+    accessibilityNeeds: [],
+    constraints: ['Slow, flaky connection', 'Frequent interruptions', 'Small touch targets are hard to hit']
+  }
+];
+
+const EXPERTISE: PersonaExpertise[] = ['novice', 'intermediate', 'expert'];
+
+const cleanList = (items: string[]) => items.map(item => item.trim()).filter(Boolean);
+
+function toPersona(row: Tables<'project_personas'>): EndUserPersona {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    name: row.name,
+    description: row.description || '',
+    age: row.age,
+    techExpertise: EXPERTISE.includes(row.tech_expertise as PersonaExpertise) ? row.tech_expertise as PersonaExpertise : 'intermediate',
+    goals: row.goals || [],
+    accessibilityNeeds: row.accessibility_needs || [],
+    constraints: row.constraints || [],
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+export class PersonaService {
+  static async getPersonas(projectId: string): Promise<EndUserPersona[]> {
+    const { data, error } = await supabase
+      .from('project_personas')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(toPersona);
+  }
+
+  static async savePersona(params: PersonaDraft & { id?: string; projectId: string }): Promise<EndUserPersona> {
+    const name = params.name.trim();
+    if (!name) throw new Error('Persona name is required');
+    if (params.age != null && (!Number.isInteger(params.age) || params.age < 1 || params.age > 120)) {
+      throw new Error('Age must be a whole number between 1 and 120');
+    }
+
+    const fields = {
+      name,
+      description: params.description.trim() || null,
+      age: params.age,
+      tech_expertise: params.techExpertise,
+      goals: cleanList(params.goals),
+      accessibility_needs: cleanList(params.accessibilityNeeds),
+      constraints: cleanList(params.constraints)
+    };
+
+    if (params.id) {
+      const { data, error } = await supabase
+        .from('project_personas')
+        .update(fields)
+        .eq('id', params.id)
+        .select('*')
+        .single();
+
+      if (error) throw error;
+      return toPersona(data);
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { data, error } = await supabase
+      .from('project_personas')
+      .insert({ ...fields, project_id: params.projectId, created_by: user.id })
+      .select('*')
+      .single();
+
+    if (error) throw error;
+    return toPersona(data);
+  }
+
+  static async deletePersona(personaId: string): Promise<void> {
+    const { error } = await supabase
+      .from('project_personas')
+      .delete()
+      .eq('id', personaId);
+
+    if (error) throw error;
+  }
+}
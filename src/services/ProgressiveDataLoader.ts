@@ -7,6 +7,8 @@ import { supabase } from '@/integrations/supabase/client';
 import { getCentralizedStorage } from '@/services/CentralizedStorageService';
 import { createDependencyGraph, resolveDependencyOrder } from '@/utils/dependencyMapping';
 import type { UploadedImage, UXAnalysis, ImageGroup, GroupAnalysisWithPrompt } from '@/types/ux-analysis';
+import { parseGroupJourney, parseGroupJourneyAnalysis } from '@/utils/journeyUtils';
+import { parseProductTag } from '@/utils/benchmarkUtils';
 
 interface LoadingProgress {
   stage: string;
@@ -412,6 +414,7 @@ export class ProgressiveDataLoader {
           type: img.file_type || 'image/jpeg',
           dimensions: img.dimensions as { width: number; height: number } || { width: 0, height: 0 },
           status: 'completed' as const,
+          productTag: parseProductTag(img.product_tag),
           createdAt: new Date(img.uploaded_at),
           userId: '',
           projectId: img.project_id,
@@ -455,7 +458,8 @@ export class ProgressiveDataLoader {
         group_images!inner(image_id)
       `)
       .eq('project_id', projectId)
-      .order('created_at', { ascending: false });
+      .order('created_at', { ascending: false })
+      .order('position', { referencedTable: 'group_images' });
 
     if (groupsError) throw groupsError;
 
@@ -467,7 +471,8 @@ export class ProgressiveDataLoader {
       imageIds: group.group_images?.map((gi: any) => gi.image_id) || [],
       position: group.position as { x: number; y: number } || { x: 0, y: 0 },
       createdAt: new Date(group.created_at),
-      projectId: group.project_id
+      projectId: group.project_id,
+      journey: parseGroupJourney(group.journey)
     })) || [];
 
     if (enableCaching && groupsData.length > 0) {
@@ -558,6 +563,7 @@ export class ProgressiveDataLoader {
         designInconsistencies: (analysis.patterns as any)?.designInconsistencies || [],
         userJourneyGaps: (analysis.patterns as any)?.userJourneyGaps || []
       },
+      journey: parseGroupJourneyAnalysis(analysis.metadata),
       createdAt: new Date(analysis.created_at)
     })) || [];
   }
@@ -109,12 +109,11 @@ export class ProjectDeletionService {
       throw new Error(`Failed to delete images: ${imagesError.message}`);
     }
 
-    // 8. Finally delete the project
+    // 8. Finally delete the project (RLS allows the creator or a workspace owner)
     const { error: projectError } = await supabase
       .from('projects')
       .delete()
-      .eq('id', projectId)
-      .eq('user_id', session.user.id);
+      .eq('id', projectId);
     
     if (projectError) {
       console.error('Error deleting project:', projectError);
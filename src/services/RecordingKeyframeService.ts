@@ -0,0 +1,233 @@
+import type { RecordingFrame } from '@/types/ux-analysis';
+import { canvasToImageFile } from '@/utils/imageUtils';
+
+/**
+ * Recording Keyframe Service
+ * Extracts the distinct screens of a short screen recording (MP4, WebM) or animated GIF in the
+ * browser: frames are sampled over time and one keyframe is kept per scene change, once the screen
+ * has settled after the transition. Each keyframe carries the timestamp it was taken at.
+ */
+
+export interface ExtractedRecording {
+  name: string;
+  frames: File[];
+  timestamps: RecordingFrame[];
+  // More scene changes than MAX_RECORDING_KEYFRAMES; later screens were dropped
+  truncated: boolean;
+}
+
+// Group analysis takes at most 20 images
+export const MAX_RECORDING_KEYFRAMES = 20;
+
+const VIDEO_TYPES = ['video/mp4', 'video/webm'];
+const RECORDING_EXTENSIONS = /\.(mp4|webm|gif)$/i;
+
+// Scene detection runs on small grayscale thumbnails
+const THUMB_WIDTH = 48;
+const THUMB_HEIGHT = 27;
+// Mean pixel difference (0-1) from the last keyframe that counts as a new screen
+const SCENE_CHANGE_THRESHOLD = 0.06;
+// ...and the largest difference from the previous sample for the screen to count as settled
+const STABLE_THRESHOLD = 0.01;
+// GIF encoders drop repeated frames, so a GIF frame shown this long also counts as settled
+const SETTLED_HOLD_MS = 300;
+const SAMPLE_INTERVAL_MS = 250;
+const MAX_SAMPLES = 1200;
+const SEEK_TIMEOUT_MS = 5000;
+
+// WebCodecs ImageDecoder, used for GIF frames; not in the TypeScript DOM lib yet
+interface GifFrame {
+  image: VideoFrame;
+}
+interface GifDecoder {
+  tracks: { ready: Promise<void>; selectedTrack: { frameCount: number } | null };
+  decode(options: { frameIndex: number }): Promise<GifFrame>;
+  close(): void;
+}
+type GifDecoderConstructor = {
+  new (init: { data: ArrayBuffer; type: string }): GifDecoder;
+  isTypeSupported(type: string): Promise<boolean>;
+};
+
+interface Sample {
+  timestampMs: number;
+  source: CanvasImageSource;
+  // How long the frame stays on screen, when the format says so (GIF)
+  holdMs?: number;
+}
+
+const baseName = (fileName: string) => fileName.replace(RECORDING_EXTENSIONS, '');
+
+const formatTimestamp = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}m${String(seconds % 60).padStart(2, '0')}s`;
+};
+
+function waitForEvent(target: HTMLMediaElement, event: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => done(new Error(`Timed out waiting for the video (${event})`)), SEEK_TIMEOUT_MS);
+    const onEvent = () => done();
+    const onError = () => done(new Error('The video could not be decoded'));
+    const done = (error?: Error) => {
+      clearTimeout(timer);
+      target.removeEventListener(event, onEvent);
+      target.removeEventListener('error', onError);
+      if (error) reject(error);
+      else resolve();
+    };
+    target.addEventListener(event, onEvent);
+    target.addEventListener('error', onError);
+  });
+}
+
+export class RecordingKeyframeService {
+  static isRecording(file: File): boolean {
+    return VIDEO_TYPES.includes(file.type) || (file.type === 'image/gif' && this.canDecodeGif()) ||
+      (!file.type && RECORDING_EXTENSIONS.test(file.name));
+  }
+
+  /**
+   * Animated GIFs need ImageDecoder (Chromium, recent Firefox); elsewhere they stay single stills
+   */
+  static canDecodeGif(): boolean {
+    return typeof (globalThis as { ImageDecoder?: GifDecoderConstructor }).ImageDecoder === 'function';
+  }
+
+  static async extractKeyframes(file: File): Promise<ExtractedRecording> {
+    const isGif = file.type === 'image/gif' || /\.gif$/i.test(file.name);
+    const name = baseName(file.name);
+    const frames: File[] = [];
+    const timestamps: RecordingFrame[] = [];
+
+    const thumbCanvas = document.createElement('canvas');
+    thumbCanvas.width = THUMB_WIDTH;
+    thumbCanvas.height = THUMB_HEIGHT;
+    const thumbContext = thumbCanvas.getContext('2d', { willReadFrequently: true });
+    if (!thumbContext) throw new Error('Canvas 2D context is not available');
+
+    const thumbnail = (source: CanvasImageSource) => {
+      thumbContext.drawImage(source, 0, 0, THUMB_WIDTH, THUMB_HEIGHT);
+      const { data } = thumbContext.getImageData(0, 0, THUMB_WIDTH, THUMB_HEIGHT);
+      const gray = new Float32Array(THUMB_WIDTH * THUMB_HEIGHT);
+      for (let i = 0; i < gray.length; i++) {
+        gray[i] = (0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]) / 255;
+      }
+      return gray;
+    };
+    const difference = (a: Float32Array, b: Float32Array) => {
+      let total = 0;
+      for (let i = 0; i < a.length; i++) total += Math.abs(a[i] - b[i]);
+      return total / a.length;
+    };
+
+    let lastKeyframe: Float32Array | null = null;
+    let previous: Float32Array | null = null;
+    let truncated = false;
+
+    const consider = async ({ timestampMs, source, holdMs = 0 }: Sample, width: number, height: number) => {
+      const current = thumbnail(source);
+      const settled = holdMs >= SETTLED_HOLD_MS || (previous !== null && difference(current, previous) < STABLE_THRESHOLD);
+      const isNewScreen = !lastKeyframe || (difference(current, lastKeyframe) > SCENE_CHANGE_THRESHOLD && settled);
+      previous = current;
+      if (!isNewScreen) return true;
+
+      if (frames.length >= MAX_RECORDING_KEYFRAMES) {
+        truncated = true;
+        return false;
+      }
+
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const context = canvas.getContext('2d');
+      if (!context) throw new Error('Canvas 2D context is not available');
+      context.drawImage(source, 0, 0, width, height);
+
+      const label = String(frames.length + 1).padStart(2, '0');
+      frames.push(await canvasToImageFile(canvas, `${name}-frame-${label}-${formatTimestamp(timestampMs)}`));
+      timestamps.push({ recording: file.name, timestampMs: Math.round(timestampMs) });
+      lastKeyframe = current;
+      return true;
+    };
+
+    if (isGif) {
+      await this.sampleGif(file, consider);
+    } else {
+      await this.sampleVideo(file, consider);
+    }
+
+    return { name, frames, timestamps, truncated };
+  }
+
+  private static async sampleVideo(
+    file: File,
+    consider: (sample: Sample, width: number, height: number) => Promise<boolean>
+  ): Promise<void> {
+    const url = URL.createObjectURL(file);
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+
+    try {
+      const loaded = waitForEvent(video, 'loadeddata');
+      video.src = url;
+      await loaded;
+
+      // MediaRecorder WebM files report an infinite duration until the end has been seeked to
+      if (!Number.isFinite(video.duration)) {
+        const seeked = waitForEvent(video, 'seeked');
+        video.currentTime = Number.MAX_SAFE_INTEGER;
+        await seeked;
+      }
+      const durationMs = video.duration * 1000;
+      if (!Number.isFinite(durationMs) || video.videoWidth === 0) {
+        throw new Error('The video has no readable frames');
+      }
+
+      const interval = Math.max(SAMPLE_INTERVAL_MS, durationMs / MAX_SAMPLES);
+      for (let timestampMs = 0; timestampMs <= durationMs; timestampMs += interval) {
+        const seeked = waitForEvent(video, 'seeked');
+        video.currentTime = timestampMs / 1000;
+        await seeked;
+        if (!(await consider({ timestampMs, source: video }, video.videoWidth, video.videoHeight))) break;
+      }
+    } finally {
+      video.removeAttribute('src');
+      video.load();
+      URL.revokeObjectURL(url);
+    }
+  }
+
+  private static async sampleGif(
+    file: File,
+    consider: (sample: Sample, width: number, height: number) => Promise<boolean>
+  ): Promise<void> {
+    const Decoder = (globalThis as { ImageDecoder?: GifDecoderConstructor }).ImageDecoder;
+    if (!Decoder || !(await Decoder.isTypeSupported('image/gif'))) {
+      throw new Error('This browser cannot decode animated GIFs');
+    }
+
+    const decoder = new Decoder({ data: await file.arrayBuffer(), type: 'image/gif' });
+    try {
+      await decoder.tracks.ready;
+      const frameCount = decoder.tracks.selectedTrack?.frameCount ?? 0;
+      for (let frameIndex = 0; frameIndex < frameCount; frameIndex++) {
+        const { image } = await decoder.decode({ frameIndex });
+        try {
+          // Timestamps and durations are in microseconds
+          const keepGoing = await consider(
+            { timestampMs: image.timestamp / 1000, source: image, holdMs: (image.duration ?? 0) / 1000 },
+            image.displayWidth,
+            image.displayHeight
+          );
+          if (!keepGoing) break;
+        } finally {
+          image.close();
+        }
+      }
+    } finally {
+      decoder.close();
+    }
+  }
+}
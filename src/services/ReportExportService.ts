@@ -0,0 +1,526 @@
+/**
+ * Report Export Service
+ * Builds a branded, self-contained HTML report (and a printable PDF via the browser's
+ * print dialog) from a project or a selection of single-image and group analyses.
+ * Reports are meant for stakeholders without accounts, so every asset is inlined.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { AnalysisDataMapper } from './AnalysisDataMapper';
+import { enhancedGroupAnalysisPipeline, type BenchmarkEntry } from './EnhancedGroupAnalysisPipeline';
+import { parseProductTag } from '@/utils/benchmarkUtils';
+import type {
+  AnnotationPoint,
+  CompetitorBenchmark,
+  GroupAnalysisWithPrompt,
+  StrategicBusinessInsights,
+  Suggestion,
+  UXAnalysis
+} from '@/types/ux-analysis';
+
+export type ReportFormat = 'html' | 'pdf';
+
+export interface ReportInput {
+  title: string;
+  projectName?: string;
+  analyses: UXAnalysis[];
+  groupAnalyses?: GroupAnalysisWithPrompt[];
+  // Display names for group analyses, keyed by group id
+  groupNames?: Record<string, string>;
+  // Present when the project has analyzed screens tagged as ours and as a competitor
+  benchmark?: CompetitorBenchmark;
+}
+
+const BRAND_NAME = 'Figmant AI';
+const MAX_SCREENSHOT_WIDTH = 1400;
+
+// Mirrors the canvas ImageNode marker colors
+const MARKER_COLORS: Record<AnnotationPoint['type'], string> = {
+  issue: '#ef4444',
+  suggestion: '#eab308',
+  success: '#22c55e'
+};
+
+const IMPACT_RANK: Record<Suggestion['impact'], number> = { high: 0, medium: 1, low: 2 };
+const EFFORT_RANK: Record<Suggestion['effort'], number> = { low: 0, medium: 1, high: 2 };
+
+function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Older analyses store percentages (0-100) rather than fractions
+function normalizeCoordinate(value: number): number {
+  if (typeof value !== 'number' || !isFinite(value)) return 0;
+  return value > 1 ? value / 100 : value;
+}
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'report';
+}
+
+export class ReportExportService {
+  /**
+   * Load every analysis in a project (single-image and group) as report input
+   */
+  static async loadProjectReportInput(projectId: string, projectName?: string): Promise<ReportInput> {
+    const [{ data: images, error: imagesError }, { data: groups, error: groupsError }] = await Promise.all([
+      supabase.from('images').select('id, original_name, storage_path, product_tag').eq('project_id', projectId),
+      supabase.from('image_groups').select('id, name').eq('project_id', projectId)
+    ]);
+
+    if (imagesError) throw new Error(imagesError.message || 'Failed to load project images');
+    if (groupsError) throw new Error(groupsError.message || 'Failed to load project groups');
+
+    const imageIds = (images || []).map(img => img.id);
+    const groupIds = (groups || []).map(g => g.id);
+
+    const [analysisRows, groupRows] = await Promise.all([
+      imageIds.length > 0
+        ? supabase
+            .from('ux_analyses')
+            .select('*')
+            .in('image_id', imageIds)
+            .eq('status', 'completed')
+            .order('created_at', { ascending: false })
+        : Promise.resolve({ data: [], error: null }),
+      groupIds.length > 0
+        ? supabase
+            .from('group_analyses')
+            .select('*')
+            .in('group_id', groupIds)
+            .order('created_at', { ascending: false })
+        : Promise.resolve({ data: [], error: null })
+    ]);
+
+    if (analysisRows.error) throw new Error(analysisRows.error.message || 'Failed to load analyses');
+    if (groupRows.error) throw new Error(groupRows.error.message || 'Failed to load group analyses');
+
+    // Keep only the latest analysis per screen and per group
+    const seenImages = new Set<string>();
+    const analyses = (analysisRows.data || [])
+      .filter(row => !seenImages.has(row.image_id) && !!seenImages.add(row.image_id))
+      .map(row => {
+        const image = images?.find(img => img.id === row.image_id);
+        const analysis = AnalysisDataMapper.mapBackendToFrontend(row) as UXAnalysis;
+        return {
+          ...analysis,
+          imageName: image?.original_name || analysis.imageName,
+          imageUrl: image?.storage_path
+            ? supabase.storage.from('images').getPublicUrl(image.storage_path).data.publicUrl
+            : analysis.imageUrl
+        };
+      });
+
+    const seenGroups = new Set<string>();
+    const groupAnalyses: GroupAnalysisWithPrompt[] = (groupRows.data || [])
+      .filter(row => row.group_id && !seenGroups.has(row.group_id) && !!seenGroups.add(row.group_id))
+      .map(row => ({
+        id: row.id,
+        sessionId: `session-${row.id}`,
+        groupId: row.group_id as string,
+        prompt: row.prompt || 'default',
+        summary: (row.summary as unknown as GroupAnalysisWithPrompt['summary']) || ({} as GroupAnalysisWithPrompt['summary']),
+        insights: Array.isArray(row.insights) ? (row.insights as string[]) : [],
+        recommendations: Array.isArray(row.recommendations) ? (row.recommendations as string[]) : [],
+        patterns: (row.patterns as unknown as GroupAnalysisWithPrompt['patterns']) || ({} as GroupAnalysisWithPrompt['patterns']),
+        createdAt: new Date(row.created_at)
+      }));
+
+    const benchmarkEntries: BenchmarkEntry[] = analyses.flatMap(analysis => {
+      const tag = parseProductTag(images?.find(img => img.id === analysis.imageId)?.product_tag);
+      return tag ? [{ imageId: analysis.imageId, tag, analysis }] : [];
+    });
+    const canBenchmark = benchmarkEntries.some(e => e.tag.kind === 'ours') && benchmarkEntries.some(e => e.tag.kind === 'competitor');
+
+    return {
+      title: projectName ? `${projectName} UX Report` : 'UX Report',
+      projectName,
+      analyses,
+      groupAnalyses,
+      groupNames: Object.fromEntries((groups || []).map(g => [g.id, g.name])),
+      ...(canBenchmark ? { benchmark: enhancedGroupAnalysisPipeline.buildCompetitorBenchmark(benchmarkEntries) } : {})
+    };
+  }
+
+  static async exportProject(projectId: string, projectName: string, format: ReportFormat): Promise<void> {
+    const input = await this.loadProjectReportInput(projectId, projectName);
+    if (input.analyses.length === 0 && (input.groupAnalyses || []).length === 0) {
+      throw new Error('This project has no completed analyses to export');
+    }
+    await this.exportReport(input, format);
+  }
+
+  static async exportReport(input: ReportInput, format: ReportFormat): Promise<void> {
+    const html = await this.generateHtml(input);
+    if (format === 'pdf') {
+      await this.printHtml(html);
+    } else {
+      this.downloadHtml(html, `${slugify(input.title)}.html`);
+    }
+  }
+
+  /**
+   * Render the report as a single HTML document with inlined styles and screenshots
+   */
+  static async generateHtml(input: ReportInput): Promise<string> {
+    const generatedAt = new Date();
+    const analyses = input.analyses.filter(a => a && a.status !== 'error');
+    const groupAnalyses = input.groupAnalyses || [];
+
+    const screenshots = await Promise.all(
+      analyses.map(a => this.renderAnnotatedScreenshot(a.imageUrl, a.visualAnnotations || []))
+    );
+
+    const scores = analyses
+      .map(a => a.summary?.overallScore)
+      .filter((s): s is number => typeof s === 'number' && isFinite(s));
+    const averageScore = scores.length > 0 ? Math.round(scores.reduce((sum, s) => sum + s, 0) / scores.length) : null;
+    const allSuggestions = analyses.flatMap(a => a.suggestions || []);
+    const highImpactCount = allSuggestions.filter(s => s.impact === 'high').length;
+
+    const overview = `
+      <section class="overview">
+        <div class="stat"><span class="stat-value">${analyses.length}</span><span class="stat-label">Screens analyzed</span></div>
+        <div class="stat"><span class="stat-value">${groupAnalyses.length}</span><span class="stat-label">Flows analyzed</span></div>
+        <div class="stat"><span class="stat-value">${averageScore ?? '–'}</span><span class="stat-label">Average UX score</span></div>
+        <div class="stat"><span class="stat-value">${highImpactCount}</span><span class="stat-label">High-impact suggestions</span></div>
+      </section>`;
+
+    const analysisSections = analyses
+      .map((analysis, index) => this.renderAnalysisSection(analysis, index, screenshots[index]))
+      .join('\n');
+    const groupSections = groupAnalyses
+      .map(group => this.renderGroupSection(group, input.groupNames?.[group.groupId]))
+      .join('\n');
+    const benchmarkSection = input.benchmark ? await this.renderBenchmarkSection(input.benchmark, analyses) : '';
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>${escapeHtml(input.title)}</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+<header class="report-header">
+  <div class="brand">${escapeHtml(BRAND_NAME)}</div>
+  <h1>${escapeHtml(input.title)}</h1>
+  <p class="meta">${input.projectName ? `${escapeHtml(input.projectName)} · ` : ''}Generated ${escapeHtml(generatedAt.toLocaleString())}</p>
+</header>
+<main>
+${overview}
+${benchmarkSection ? `<h2 class="section-title">Competitor benchmark</h2>\n${benchmarkSection}` : ''}
+${groupSections ? `<h2 class="section-title">Flow analyses</h2>\n${groupSections}` : ''}
+${analysisSections ? `<h2 class="section-title">Screen analyses</h2>\n${analysisSections}` : ''}
+</main>
+<footer class="report-footer">Generated with ${escapeHtml(BRAND_NAME)}</footer>
+</body>
+</html>`;
+  }
+
+  private static renderAnalysisSection(analysis: UXAnalysis, index: number, screenshot: string | null): string {
+    const summary = analysis.summary || ({} as UXAnalysis['summary']);
+    const annotations = analysis.visualAnnotations || [];
+    const categoryScores = summary.categoryScores || ({} as UXAnalysis['summary']['categoryScores']);
+    const insights: StrategicBusinessInsights | undefined =
+      analysis.strategicInsights || summary.strategicInsights || analysis.metadata?.strategicInsights;
+
+    const suggestions = [...(analysis.suggestions || [])].sort((a, b) =>
+      (IMPACT_RANK[a.impact] ?? 1) - (IMPACT_RANK[b.impact] ?? 1) ||
+      (EFFORT_RANK[a.effort] ?? 1) - (EFFORT_RANK[b.effort] ?? 1)
+    );
+
+    // Burned-in screenshots already carry the markers; otherwise position them over the original image
+    const fallbackMarkers = annotations.map((a, i) => `
+      <span class="marker" style="left:${(normalizeCoordinate(a.x) * 100).toFixed(2)}%;top:${(normalizeCoordinate(a.y) * 100).toFixed(2)}%;background:${MARKER_COLORS[a.type] || '#6366f1'}">${i + 1}</span>`
+    ).join('');
+    const image = screenshot
+      ? `<img src="${screenshot}" alt="${escapeHtml(analysis.imageName)}" />`
+      : analysis.imageUrl
+        ? `<img src="${escapeHtml(analysis.imageUrl)}" alt="${escapeHtml(analysis.imageName)}" />${fallbackMarkers}`
+        : '';
+
+    const scoreRow = (label: string, value?: number) =>
+      `<tr><td>${label}</td><td class="score">${typeof value === 'number' ? Math.round(value) : '–'}</td></tr>`;
+
+    return `
+<section class="analysis">
+  <h3>${index + 1}. ${escapeHtml(analysis.imageName || 'Untitled screen')}</h3>
+  ${analysis.userContext ? `<p class="context">${escapeHtml(analysis.userContext)}</p>` : ''}
+  <div class="analysis-grid">
+    <figure class="screenshot">${image}</figure>
+    <div>
+      <table class="scores">
+        ${scoreRow('Overall', summary.overallScore)}
+        ${scoreRow('Usability', categoryScores.usability)}
+        ${scoreRow('Accessibility', categoryScores.accessibility)}
+        ${scoreRow('Visual', categoryScores.visual)}
+        ${scoreRow('Content', categoryScores.content)}
+      </table>
+      ${(summary.strengths || []).length > 0 ? `<h4>Strengths</h4><ul>${summary.strengths.map(s => `<li>${escapeHtml(s)}</li>`).join('')}</ul>` : ''}
+      ${(summary.keyIssues || []).length > 0 ? `<h4>Key issues</h4><ul>${summary.keyIssues.map(s => `<li>${escapeHtml(s)}</li>`).join('')}</ul>` : ''}
+    </div>
+  </div>
+  ${insights ? `
+  <div class="insight">
+    <h4>Strategic insight</h4>
+    <p><strong>Primary concern:</strong> ${escapeHtml(insights.primaryConcern)}</p>
+    ${insights.strategicRecommendation ? `
+    <p><strong>${escapeHtml(insights.strategicRecommendation.title)}</strong></p>
+    <p>${escapeHtml(insights.strategicRecommendation.businessJustification)}</p>
+    <p><em>Expected outcome:</em> ${escapeHtml(insights.strategicRecommendation.expectedOutcome)}</p>` : ''}
+  </div>` : ''}
+  ${annotations.length > 0 ? `
+  <h4>Annotations</h4>
+  <ol class="annotations">
+    ${annotations.map(a => `<li><span class="dot" style="background:${MARKER_COLORS[a.type] || '#6366f1'}"></span><strong>${escapeHtml(a.title)}</strong> <span class="badge badge-${escapeHtml(a.severity)}">${escapeHtml(a.severity)}</span><br />${escapeHtml(a.description)}</li>`).join('')}
+  </ol>` : ''}
+  ${suggestions.length > 0 ? `
+  <h4>Prioritized suggestions</h4>
+  <table class="suggestions">
+    <thead><tr><th>Suggestion</th><th>Category</th><th>Impact</th><th>Effort</th></tr></thead>
+    <tbody>
+      ${suggestions.map(s => `
+      <tr>
+        <td><strong>${escapeHtml(s.title)}</strong><br />${escapeHtml(s.description)}${(s.actionItems || []).length > 0 ? `<ul>${s.actionItems.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>` : ''}</td>
+        <td>${escapeHtml(s.category)}</td>
+        <td><span class="badge badge-${escapeHtml(s.impact)}">${escapeHtml(s.impact)}</span></td>
+        <td>${escapeHtml(s.effort)}</td>
+      </tr>`).join('')}
+    </tbody>
+  </table>` : ''}
+</section>`;
+  }
+
+  private static renderGroupSection(group: GroupAnalysisWithPrompt, groupName?: string): string {
+    const summary = group.summary || ({} as GroupAnalysisWithPrompt['summary']);
+    const patterns = group.patterns || ({} as GroupAnalysisWithPrompt['patterns']);
+    const list = (title: string, items?: string[]) =>
+      items && items.length > 0 ? `<h4>${title}</h4><ul>${items.map(i => `<li>${escapeHtml(i)}</li>`).join('')}</ul>` : '';
+    const score = (value?: number) => (typeof value === 'number' ? Math.round(value) : '–');
+
+    return `
+<section class="analysis">
+  <h3>${escapeHtml(groupName || 'Screen group')}</h3>
+  ${group.prompt && group.prompt !== 'default' ? `<p class="context">${escapeHtml(group.prompt)}</p>` : ''}
+  <table class="scores">
+    <tr><td>Overall</td><td class="score">${score(summary.overallScore)}</td></tr>
+    <tr><td>Consistency</td><td class="score">${score(summary.consistency)}</td></tr>
+    <tr><td>Thematic coherence</td><td class="score">${score(summary.thematicCoherence)}</td></tr>
+    <tr><td>User flow continuity</td><td class="score">${score(summary.userFlowContinuity)}</td></tr>
+  </table>
+  ${list('Insights', group.insights)}
+  ${list('Recommendations', group.recommendations)}
+  ${list('Design inconsistencies', patterns.designInconsistencies)}
+  ${list('User journey gaps', patterns.userJourneyGaps)}
+</section>`;
+  }
+
+  private static async renderBenchmarkSection(benchmark: CompetitorBenchmark, analyses: UXAnalysis[]): Promise<string> {
+    const { criteria, products, features, wins } = benchmark;
+    const score = (value?: number) => (typeof value === 'number' ? Math.round(value) : '–');
+    const header = `<tr><th></th>${products.map(p => `<th>${escapeHtml(p.name)}</th>`).join('')}</tr>`;
+
+    // Evidence screenshots are inlined like the screen sections, without markers
+    const evidenceIds = Array.from(new Set(wins.flatMap(w => w.evidenceImageIds)));
+    const evidence = new Map(await Promise.all(evidenceIds.map(async id => {
+      const analysis = analyses.find(a => a.imageId === id);
+      const src = analysis ? await this.renderAnnotatedScreenshot(analysis.imageUrl, []) ?? analysis.imageUrl : null;
+      return [id, src ? `<figure class="evidence"><img src="${escapeHtml(src)}" alt="${escapeHtml(analysis?.imageName)}" /><figcaption>${escapeHtml(analysis?.imageName)}</figcaption></figure>` : ''] as const;
+    })));
+
+    return `
+<section class="analysis">
+  <p class="context">${products.length} products scored on ${escapeHtml(benchmark.rubricName ?? 'the built-in UX categories')}, averaged over each product's tagged screens.</p>
+  <h4>Scores</h4>
+  <table class="suggestions">
+    <thead>${header}</thead>
+    <tbody>
+      <tr><td><strong>Overall</strong></td>${products.map(p => `<td class="score">${score(p.overallScore)}</td>`).join('')}</tr>
+      ${criteria.map(c => `<tr><td>${escapeHtml(c.name)}</td>${products.map(p => `<td class="score">${score(p.scores[c.id])}</td>`).join('')}</tr>`).join('')}
+      <tr><td>Consistency across screens</td>${products.map(p => `<td class="score">${score(p.consistency)}</td>`).join('')}</tr>
+    </tbody>
+  </table>
+  ${features.length > 0 ? `
+  <h4>Feature presence</h4>
+  <table class="suggestions">
+    <thead>${header}</thead>
+    <tbody>
+      ${features.map(f => `<tr><td>${escapeHtml(f.name)}${f.source === 'element' ? ' <span class="context">(element)</span>' : ''}</td>${products.map(p => `<td>${(f.presence[p.key] || []).length > 0 ? '✓' : '–'}</td>`).join('')}</tr>`).join('')}
+    </tbody>
+  </table>` : ''}
+  <h4>Where they beat us</h4>
+  ${wins.length === 0 ? '<p class="context">No competitor scores higher than us or has a pattern we lack.</p>' : wins.map(w => `
+  <div class="win">
+    <p><strong>${escapeHtml(w.title)}</strong>${typeof w.delta === 'number' ? ` <span class="badge badge-high">+${w.delta}</span>` : ''}</p>
+    <p class="context">${escapeHtml(w.detail)}</p>
+    <div class="evidence-row">${w.evidenceImageIds.map(id => evidence.get(id) || '').join('')}</div>
+  </div>`).join('')}
+</section>`;
+  }
+
+  /**
+   * Draw the screenshot with numbered annotation markers onto a canvas and inline it as a data URL.
+   * Returns null when the image cannot be loaded or the canvas is tainted by CORS.
+   */
+  private static async renderAnnotatedScreenshot(imageUrl: string, annotations: AnnotationPoint[]): Promise<string | null> {
+    if (!imageUrl) return null;
+
+    try {
+      const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+        const img = new Image();
+        img.crossOrigin = 'anonymous';
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error(`Failed to load ${imageUrl}`));
+        img.src = imageUrl;
+      });
+
+      const scale = Math.min(1, MAX_SCREENSHOT_WIDTH / (image.naturalWidth || MAX_SCREENSHOT_WIDTH));
+      const width = Math.round((image.naturalWidth || MAX_SCREENSHOT_WIDTH) * scale);
+      const height = Math.round((image.naturalHeight || MAX_SCREENSHOT_WIDTH * 0.6) * scale);
+
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return null;
+
+      ctx.drawImage(image, 0, 0, width, height);
+
+      const radius = Math.max(10, Math.round(width / 90));
+      annotations.forEach((annotation, index) => {
+        const x = normalizeCoordinate(annotation.x) * width;
+        const y = normalizeCoordinate(annotation.y) * height;
+
+        ctx.beginPath();
+        ctx.arc(x, y, radius, 0, Math.PI * 2);
+        ctx.fillStyle = MARKER_COLORS[annotation.type] || '#6366f1';
+        ctx.fill();
+        ctx.lineWidth = Math.max(2, radius / 5);
+        ctx.strokeStyle = '#ffffff';
+        ctx.stroke();
+
+        ctx.fillStyle = '#ffffff';
+        ctx.font = `bold ${Math.round(radius * 1.1)}px sans-serif`;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(String(index + 1), x, y + 1);
+      });
+
+      return canvas.toDataURL('image/jpeg', 0.85);
+    } catch (error) {
+      console.warn('[ReportExportService] Could not burn in annotations, falling back to overlay markers:', error);
+      return null;
+    }
+  }
+
+  private static downloadHtml(html: string, filename: string): void {
+    const blob = new Blob([html], { type: 'text/html' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Print the report from a hidden iframe so the user can save it as a PDF.
+   * An iframe is used instead of window.open because popups opened after async work get blocked.
+   */
+  private static printHtml(html: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const iframe = document.createElement('iframe');
+      iframe.style.position = 'fixed';
+      iframe.style.width = '0';
+      iframe.style.height = '0';
+      iframe.style.border = '0';
+      iframe.setAttribute('aria-hidden', 'true');
+
+      iframe.onload = () => {
+        const frameWindow = iframe.contentWindow;
+        if (!frameWindow) {
+          iframe.remove();
+          reject(new Error('Unable to open print preview'));
+          return;
+        }
+        frameWindow.focus();
+        frameWindow.print();
+        // print() blocks until the dialog closes in most browsers; give the rest time to spool
+        setTimeout(() => iframe.remove(), 1000);
+        resolve();
+      };
+
+      iframe.srcdoc = html;
+      document.body.appendChild(iframe);
+    });
+  }
+}
+
+const REPORT_STYLES = `
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #0f172a; background: #f8fafc; line-height: 1.5; }
+  .report-header { padding: 40px 48px 24px; background: #0f172a; color: #f8fafc; }
+  .brand { font-size: 13px; letter-spacing: 0.08em; text-transform: uppercase; color: #a5b4fc; font-weight: 600; }
+  h1 { margin: 8px 0 4px; font-size: 30px; }
+  .meta { margin: 0; color: #cbd5e1; font-size: 14px; }
+  main { padding: 32px 48px; max-width: 1200px; margin: 0 auto; }
+  .overview { display: grid; grid-template-columns: repeat(4, 1fr); gap: 16px; margin-bottom: 32px; }
+  .stat { background: #fff; border: 1px solid #e2e8f0; border-radius: 12px; padding: 16px; display: flex; flex-direction: column; }
+  .stat-value { font-size: 28px; font-weight: 700; }
+  .stat-label { font-size: 13px; color: #64748b; }
+  .section-title { font-size: 20px; margin: 32px 0 16px; border-bottom: 2px solid #e2e8f0; padding-bottom: 8px; }
+  .analysis { background: #fff; border: 1px solid #e2e8f0; border-radius: 12px; padding: 24px; margin-bottom: 24px; }
+  .analysis h3 { margin: 0 0 8px; font-size: 18px; }
+  .analysis h4 { margin: 20px 0 8px; font-size: 14px; text-transform: uppercase; letter-spacing: 0.04em; color: #475569; }
+  .context { color: #475569; font-size: 14px; margin: 0 0 16px; }
+  .analysis-grid { display: grid; grid-template-columns: 3fr 2fr; gap: 24px; align-items: start; }
+  .screenshot { position: relative; margin: 0; border: 1px solid #e2e8f0; border-radius: 8px; overflow: hidden; }
+  .screenshot img { display: block; width: 100%; height: auto; }
+  .marker { position: absolute; transform: translate(-50%, -50%); width: 20px; height: 20px; border-radius: 50%; border: 2px solid #fff; color: #fff; font-size: 11px; font-weight: 700; display: flex; align-items: center; justify-content: center; }
+  .scores { width: 100%; border-collapse: collapse; font-size: 14px; }
+  .scores td { padding: 6px 0; border-bottom: 1px solid #f1f5f9; }
+  .scores td.score { text-align: right; font-weight: 700; }
+  .insight { margin-top: 20px; padding: 16px; background: #eef2ff; border-left: 4px solid #6366f1; border-radius: 6px; font-size: 14px; }
+  .insight h4 { margin-top: 0; }
+  .insight p { margin: 4px 0; }
+  ul, ol { padding-left: 20px; font-size: 14px; }
+  .annotations li { margin-bottom: 8px; }
+  .dot { display: inline-block; width: 10px; height: 10px; border-radius: 50%; margin-right: 6px; }
+  .suggestions { width: 100%; border-collapse: collapse; font-size: 13px; }
+  .suggestions th { text-align: left; padding: 8px; background: #f1f5f9; }
+  .suggestions td { padding: 8px; border-bottom: 1px solid #f1f5f9; vertical-align: top; }
+  .suggestions ul { margin: 6px 0 0; font-size: 13px; }
+  .badge { display: inline-block; padding: 1px 8px; border-radius: 999px; font-size: 11px; font-weight: 600; text-transform: capitalize; background: #e2e8f0; }
+  .badge-high { background: #fee2e2; color: #991b1b; }
+  .badge-medium { background: #fef3c7; color: #92400e; }
+  .badge-low { background: #dcfce7; color: #166534; }
+  .win { border-top: 1px solid #f1f5f9; padding: 12px 0; }
+  .win p { margin: 0 0 4px; }
+  .evidence-row { display: flex; gap: 12px; flex-wrap: wrap; }
+  .evidence { margin: 0; width: 240px; font-size: 12px; color: #64748b; }
+  .evidence img { display: block; width: 100%; max-height: 180px; object-fit: cover; object-position: top; border: 1px solid #e2e8f0; border-radius: 6px; }
+  .report-footer { text-align: center; color: #94a3b8; font-size: 12px; padding: 24px; }
+  @media (max-width: 800px) {
+    .overview { grid-template-columns: repeat(2, 1fr); }
+    .analysis-grid { grid-template-columns: 1fr; }
+    main, .report-header { padding-left: 20px; padding-right: 20px; }
+  }
+  @media print {
+    @page { margin: 16mm; }
+    body { background: #fff; }
+    .report-header { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+    .badge, .marker, .dot, .insight { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+    main { padding: 16px 0; }
+    .analysis { break-inside: avoid-page; border: none; padding: 0; }
+    .suggestions tr, .win { break-inside: avoid; }
+  }
+`;
@@ -218,6 +218,7 @@ export class RetryService {
    */
   isRetryableError(error: any): boolean {
     if (!(error instanceof Error)) return true;
+    if (error.name === 'BudgetExceededError') return false;
     
     const message = error.message.toLowerCase();
     const retryablePatterns = [
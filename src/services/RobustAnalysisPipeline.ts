@@ -17,6 +17,7 @@ import { AnalysisContext } from '@/types/contextTypes';
 import { BlobUrlReplacementService } from './BlobUrlReplacementService';
 import { ContextDetectionService } from './ContextDetectionService';
 import { DynamicPromptBuilder } from './DynamicPromptBuilder';
+import { RubricService } from './RubricService';
 
 interface RobustAnalysisResult {
   success: boolean;
@@ -112,6 +113,7 @@ export class RobustAnalysisPipeline {
       // 4. CONTEXT DETECTION (Simplified)
       this.updateProgress('context-detection', 25, 'Detecting interface context');
       const context = await this.detectContextRobustly(imageResult.processedUrl, userContext);
+      context.rubric = await RubricService.getActiveRubricForImage(imageId).catch(() => null) || undefined;
       
       // 5. ANALYSIS EXECUTION WITH CIRCUIT BREAKER
       this.updateProgress('analysis', 50, 'Executing AI analysis');
@@ -0,0 +1,339 @@
+/**
+ * Rubric Service
+ * Project-defined scoring rubrics. The active rubric of a project is injected into analysis prompts
+ * and results come back with one score per criterion; analyses without a rubric are read through
+ * the four built-in categories so every view can render criteria uniformly.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import type {
+  AnalysisRubric,
+  AnalysisSummary,
+  CriterionScore,
+  RubricCriterion,
+  RubricVerdict
+} from '@/types/ux-analysis';
+
+export interface CriterionAverage {
+  criterionId: string;
+  name: string;
+  weight: number;
+  score: number;
+  count: number;
+  failCount: number;
+}
+
+export interface RubricPreset {
+  name: string;
+  description: string;
+  criteria: Omit<RubricCriterion, 'id'>[];
+}
+
+// The built-in categories, expressed as criteria
+export const DEFAULT_CRITERIA: RubricCriterion[] = [
+  { id: 'usability', name: 'Usability', description: 'Ease of use, navigation and task flow', weight: 1, passGuidance: '', failGuidance: '' },
+  { id: 'accessibility', name: 'Accessibility', description: 'WCAG compliance and inclusive design', weight: 1, passGuidance: '', failGuidance: '' },
+  { id: 'visual', name: 'Visual', description: 'Hierarchy, consistency and aesthetics', weight: 1, passGuidance: '', failGuidance: '' },
+  { id: 'content', name: 'Content', description: 'Clarity and usefulness of copy', weight: 1, passGuidance: '', failGuidance: '' }
+];
+
+export const RUBRIC_PRESETS: RubricPreset[] = [
+  {
+    name: "Nielsen's 10 usability heuristics",
+    description: 'Jakob Nielsen\'s general principles for interaction design',
+    criteria: [
+      { name: 'Visibility of system status', description: 'The design keeps users informed about what is going on through timely feedback.', weight: 1, passGuidance: 'Loading, progress, success and error states are visible and immediate.', failGuidance: 'Actions give no feedback or state is hidden.' },
+      { name: 'Match between system and the real world', description: 'The design speaks the users\' language and follows real-world conventions.', weight: 1, passGuidance: 'Familiar words, icons and ordering.', failGuidance: 'Internal jargon or unfamiliar metaphors.' },
+      { name: 'User control and freedom', description: 'Users have a clearly marked exit, undo and redo.', weight: 1, passGuidance: 'Cancel, back and undo are available where mistakes are likely.', failGuidance: 'Users get trapped in flows or cannot reverse actions.' },
+      { name: 'Consistency and standards', description: 'Users should not have to wonder whether different words or actions mean the same thing.', weight: 1, passGuidance: 'Components, labels and patterns behave the same everywhere.', failGuidance: 'The same action looks or is named differently across the screen.' },
+      { name: 'Error prevention', description: 'The design prevents problems from occurring in the first place.', weight: 1, passGuidance: 'Constraints, defaults and confirmations for destructive actions.', failGuidance: 'Easy to trigger errors or destructive actions by accident.' },
+      { name: 'Recognition rather than recall', description: 'Elements, actions and options are visible so users do not have to remember them.', weight: 1, passGuidance: 'Options are visible and context is carried forward.', failGuidance: 'Users must memorize information between steps.' },
+      { name: 'Flexibility and efficiency of use', description: 'Shortcuts and customization speed up expert users.', weight: 1, passGuidance: 'Accelerators exist without hindering novices.', failGuidance: 'Frequent tasks require many repetitive steps.' },
+      { name: 'Aesthetic and minimalist design', description: 'Interfaces do not contain irrelevant or rarely needed information.', weight: 1, passGuidance: 'Clear hierarchy; every element earns its place.', failGuidance: 'Clutter competes with the primary content.' },
+      { name: 'Help users recognize, diagnose and recover from errors', description: 'Error messages are in plain language, indicate the problem and suggest a solution.', weight: 1, passGuidance: 'Errors explain what happened and how to fix it.', failGuidance: 'Codes, vague messages or no recovery path.' },
+      { name: 'Help and documentation', description: 'Help is easy to search, focused on the task and concise.', weight: 1, passGuidance: 'Contextual help is available where users need it.', failGuidance: 'No guidance for complex tasks.' }
+    ]
+  },
+  {
+    name: 'Design system checklist',
+    description: 'Starter checklist for conformance with an in-house design system',
+    criteria: [
+      { name: 'Color tokens', description: 'Only palette colors from the design system are used.', weight: 1, passGuidance: 'All colors map to tokens.', failGuidance: 'Off-palette or one-off colors.' },
+      { name: 'Typography scale', description: 'Text uses the defined type scale and weights.', weight: 1, passGuidance: 'Every text style matches the scale.', failGuidance: 'Ad-hoc font sizes or weights.' },
+      { name: 'Spacing grid', description: 'Spacing follows the spacing scale and layout grid.', weight: 1, passGuidance: 'Consistent spacing multiples and alignment.', failGuidance: 'Irregular gaps and misalignment.' },
+      { name: 'Component usage', description: 'Standard components are used instead of custom variants.', weight: 2, passGuidance: 'Buttons, inputs and cards match library components.', failGuidance: 'Detached or reinvented components.' }
+    ]
+  }
+];
+
+const VERDICTS: RubricVerdict[] = ['pass', 'partial', 'fail'];
+
+function asObject(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : null;
+}
+
+function toCriteria(value: Json): RubricCriterion[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map(asObject)
+    .filter((item): item is Record<string, unknown> => !!item && typeof item.id === 'string' && typeof item.name === 'string')
+    .map(item => ({
+      id: item.id as string,
+      name: item.name as string,
+      description: typeof item.description === 'string' ? item.description : '',
+      weight: typeof item.weight === 'number' && item.weight > 0 ? item.weight : 1,
+      passGuidance: typeof item.passGuidance === 'string' ? item.passGuidance : '',
+      failGuidance: typeof item.failGuidance === 'string' ? item.failGuidance : ''
+    }));
+}
+
+function toRubric(row: Tables<'analysis_rubrics'>): AnalysisRubric {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    name: row.name,
+    description: row.description || '',
+    criteria: toCriteria(row.criteria),
+    isActive: row.is_active,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+export class RubricService {
+  static async getRubrics(projectId: string): Promise<AnalysisRubric[]> {
+    const { data, error } = await supabase
+      .from('analysis_rubrics')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(toRubric);
+  }
+
+  static async getActiveRubric(projectId: string): Promise<AnalysisRubric | null> {
+    const { data, error } = await supabase
+      .from('analysis_rubrics')
+      .select('*')
+      .eq('project_id', projectId)
+      .eq('is_active', true)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? toRubric(data) : null;
+  }
+
+  static async getActiveRubricForImage(imageId: string): Promise<AnalysisRubric | null> {
+    const { data: image } = await supabase
+      .from('images')
+      .select('project_id')
+      .eq('id', imageId)
+      .maybeSingle();
+
+    return image?.project_id ? this.getActiveRubric(image.project_id) : null;
+  }
+
+  static async saveRubric(params: {
+    id?: string;
+    projectId: string;
+    name: string;
+    description?: string;
+    criteria: RubricCriterion[];
+  }): Promise<AnalysisRubric> {
+    const name = params.name.trim();
+    if (!name) throw new Error('Rubric name is required');
+
+    const criteria = params.criteria
+      .filter(criterion => criterion.name.trim())
+      .map(criterion => ({
+        ...criterion,
+        id: criterion.id || crypto.randomUUID(),
+        name: criterion.name.trim(),
+        weight: Number.isFinite(criterion.weight) && criterion.weight > 0 ? criterion.weight : 1
+      }));
+    if (criteria.length === 0) throw new Error('Add at least one criterion');
+
+    const fields = {
+      name,
+      description: params.description?.trim() || null,
+      criteria: criteria as unknown as Json
+    };
+
+    if (params.id) {
+      const { data, error } = await supabase
+        .from('analysis_rubrics')
+        .update(fields)
+        .eq('id', params.id)
+        .select('*')
+        .single();
+
+      if (error) throw error;
+      return toRubric(data);
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { data, error } = await supabase
+      .from('analysis_rubrics')
+      .insert({ ...fields, project_id: params.projectId, created_by: user.id })
+      .select('*')
+      .single();
+
+    if (error) throw error;
+    return toRubric(data);
+  }
+
+  static async deleteRubric(rubricId: string): Promise<void> {
+    const { error } = await supabase
+      .from('analysis_rubrics')
+      .delete()
+      .eq('id', rubricId);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Make a rubric the one future analyses are scored against; null reverts to the built-in categories
+   */
+  static async setActiveRubric(projectId: string, rubricId: string | null): Promise<void> {
+    const { error: clearError } = await supabase
+      .from('analysis_rubrics')
+      .update({ is_active: false })
+      .eq('project_id', projectId)
+      .eq('is_active', true);
+
+    if (clearError) throw clearError;
+    if (!rubricId) return;
+
+    const { error } = await supabase
+      .from('analysis_rubrics')
+      .update({ is_active: true })
+      .eq('id', rubricId);
+
+    if (error) throw error;
+  }
+
+  static weightedScore(scores: Array<Pick<CriterionScore, 'weight' | 'score'>>): number {
+    const totalWeight = scores.reduce((sum, s) => sum + s.weight, 0);
+    if (totalWeight === 0) return 0;
+    return Math.round(scores.reduce((sum, s) => sum + s.score * s.weight, 0) / totalWeight);
+  }
+
+  static verdictForScore(score: number): RubricVerdict {
+    if (score >= 70) return 'pass';
+    if (score >= 40) return 'partial';
+    return 'fail';
+  }
+
+  /**
+   * Align AI-returned criterion scores with the rubric: one entry per criterion, matched by id or name,
+   * scores clamped to 0-100. The overall score becomes the weighted average of scored criteria.
+   */
+  static applyRubricScores<T extends Partial<AnalysisSummary>>(summary: T, rubric: AnalysisRubric | null | undefined): T {
+    if (!rubric || rubric.criteria.length === 0) return summary;
+
+    const returned = Array.isArray(summary.criterionScores) ? summary.criterionScores : [];
+    const criterionScores: CriterionScore[] = [];
+
+    rubric.criteria.forEach(criterion => {
+      const match = returned.find(s => s.criterionId === criterion.id)
+        || returned.find(s => s.name?.toLowerCase() === criterion.name.toLowerCase());
+      const score = Number(match?.score);
+      if (!match || !Number.isFinite(score)) return;
+
+      const clamped = Math.max(0, Math.min(100, Math.round(score)));
+      criterionScores.push({
+        criterionId: criterion.id,
+        name: criterion.name,
+        weight: criterion.weight,
+        score: clamped,
+        verdict: match.verdict && VERDICTS.includes(match.verdict) ? match.verdict : this.verdictForScore(clamped),
+        rationale: match.rationale
+      });
+    });
+
+    return {
+      ...summary,
+      rubric: { id: rubric.id, name: rubric.name },
+      criterionScores,
+      ...(criterionScores.length > 0 ? { overallScore: this.weightedScore(criterionScores) } : {})
+    };
+  }
+
+  /**
+   * Per-criterion scores of an analysis; analyses without a rubric map their category scores
+   */
+  static getCriterionScores(summary: unknown): CriterionScore[] {
+    const source = asObject(summary);
+    if (!source) return [];
+
+    if (Array.isArray(source.criterionScores) && source.criterionScores.length > 0) {
+      return source.criterionScores
+        .map(asObject)
+        .filter((s): s is Record<string, unknown> => !!s && typeof s.criterionId === 'string' && typeof s.score === 'number')
+        .map(s => ({
+          criterionId: s.criterionId as string,
+          name: typeof s.name === 'string' ? s.name : s.criterionId as string,
+          weight: typeof s.weight === 'number' ? s.weight : 1,
+          score: s.score as number,
+          verdict: VERDICTS.includes(s.verdict as RubricVerdict) ? s.verdict as RubricVerdict : undefined,
+          rationale: typeof s.rationale === 'string' ? s.rationale : undefined
+        }));
+    }
+
+    const categoryScores = asObject(source.categoryScores);
+    if (!categoryScores) return [];
+    return DEFAULT_CRITERIA
+      .filter(criterion => typeof categoryScores[criterion.id] === 'number')
+      .map(criterion => ({
+        criterionId: criterion.id,
+        name: criterion.name,
+        weight: criterion.weight,
+        score: categoryScores[criterion.id] as number
+      }));
+  }
+
+  /**
+   * Average each criterion across analyses, in order of first appearance
+   */
+  static averageCriterionScores(summaries: unknown[]): CriterionAverage[] {
+    const averages = new Map<string, CriterionAverage & { total: number }>();
+
+    summaries.forEach(summary => {
+      this.getCriterionScores(summary).forEach(score => {
+        const entry = averages.get(score.criterionId) || {
+          criterionId: score.criterionId,
+          name: score.name,
+          weight: score.weight,
+          score: 0,
+          count: 0,
+          failCount: 0,
+          total: 0
+        };
+        entry.total += score.score;
+        entry.count += 1;
+        if (score.verdict === 'fail') entry.failCount += 1;
+        averages.set(score.criterionId, entry);
+      });
+    });
+
+    return Array.from(averages.values()).map(({ total, ...entry }) => ({
+      ...entry,
+      score: entry.count > 0 ? Math.round(total / entry.count) : 0
+    }));
+  }
+
+  /**
+   * Name of the rubric the analyses were scored against, if any (later entries win)
+   */
+  static getRubricName(summaries: unknown[]): string | null {
+    for (let i = summaries.length - 1; i >= 0; i--) {
+      const rubric = asObject(asObject(summaries[i])?.rubric);
+      if (rubric && typeof rubric.name === 'string') return rubric.name;
+    }
+    return null;
+  }
+}
@@ -0,0 +1,139 @@
+import { supabase } from '@/integrations/supabase/client';
+import { startGroupUxAnalysis } from '@/services/StartGroupUxAnalysis';
+import type {
+  ScreenComparisonChange,
+  ScreenComparisonResult,
+  UploadedImage
+} from '@/types/ux-analysis';
+
+export interface ScreenComparisonProgress {
+  stage: string;
+  progress: number;
+}
+
+interface RunComparisonOptions {
+  projectId?: string | null;
+  userContext?: string | null;
+  onProgress?: (progress: ScreenComparisonProgress) => void;
+}
+
+const POLL_INTERVAL_MS = 2500;
+const JOB_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Runs a before/after regression review of two builds of the same screen.
+ * Reuses the group pipeline (start-group-ux-analysis → group-ux-orchestrator) in comparison mode.
+ */
+export class ScreenComparisonService {
+  static async runComparison(
+    before: UploadedImage,
+    after: UploadedImage,
+    { projectId = null, userContext = null, onProgress }: RunComparisonOptions = {}
+  ): Promise<ScreenComparisonResult> {
+    const imageUrls = [before.url, after.url];
+    if (imageUrls.some(url => !url || url.startsWith('blob:'))) {
+      throw new Error('Both images must finish uploading before they can be compared');
+    }
+
+    const { jobId } = await startGroupUxAnalysis({
+      groupId: null,
+      imageUrls,
+      groupName: `${before.name} → ${after.name}`,
+      projectId,
+      userContext,
+      analysisMode: 'comparison',
+      dispatchMode: (localStorage.getItem('DISPATCH_MODE') as 'inngest' | 'direct' | 'both') || 'both'
+    });
+
+    await this.waitForJob(jobId, onProgress);
+    return this.fetchResult(jobId, before.id, after.id);
+  }
+
+  static async fetchResult(jobId: string, beforeImageId: string, afterImageId: string): Promise<ScreenComparisonResult> {
+    const { data, error } = await supabase
+      .from('group_analyses')
+      .select('*')
+      .eq('metadata->>groupJobId', jobId)
+      .order('created_at', { ascending: false })
+      .limit(1);
+
+    if (error) throw new Error(error.message || 'Failed to load comparison result');
+    const row = data?.[0];
+    if (!row) throw new Error('No comparison result found');
+
+    const summary = (row.summary && typeof row.summary === 'object' ? row.summary : {}) as Record<string, unknown>;
+    const metadata = (row.metadata && typeof row.metadata === 'object' ? row.metadata : {}) as Record<string, unknown>;
+    const comparison = (metadata.comparison || {}) as { changes?: unknown };
+    const changes = Array.isArray(comparison.changes)
+      ? comparison.changes.map((c, i) => this.normalizeChange((c || {}) as Record<string, unknown>, i))
+      : [];
+
+    return {
+      id: row.id,
+      jobId,
+      beforeImageId,
+      afterImageId,
+      verdict: this.normalizeVerdict(summary.verdict, changes),
+      overallScore: typeof summary.overallScore === 'number' ? summary.overallScore : undefined,
+      changes,
+      insights: Array.isArray(row.insights) ? (row.insights as string[]) : [],
+      recommendations: Array.isArray(row.recommendations) ? (row.recommendations as string[]) : [],
+      createdAt: new Date(row.created_at || Date.now())
+    };
+  }
+
+  private static async waitForJob(jobId: string, onProgress?: (p: ScreenComparisonProgress) => void): Promise<void> {
+    const startedAt = Date.now();
+
+    while (Date.now() - startedAt < JOB_TIMEOUT_MS) {
+      const { data, error } = await supabase
+        .from('group_analysis_jobs')
+        .select('status, progress, current_stage, error')
+        .eq('id', jobId)
+        .maybeSingle();
+
+      if (error) throw new Error(error.message);
+      if (data) {
+        onProgress?.({ stage: data.current_stage || 'queued', progress: data.progress || 0 });
+        if (data.status === 'completed') return;
+        if (data.status === 'failed') throw new Error(data.error || 'Comparison analysis failed');
+      }
+
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+
+    throw new Error('Comparison analysis timed out. Please check background workers.');
+  }
+
+  private static normalizeChange(raw: Record<string, unknown>, index: number): ScreenComparisonChange {
+    // The prompt asks for 0-1 fractions; values above 1 are percentages the model slipped into anyway
+    const point = (value: unknown) => {
+      const p = value as { x?: unknown; y?: unknown } | null;
+      return p && typeof p.x === 'number' && typeof p.y === 'number'
+        ? { x: p.x > 1 ? p.x / 100 : p.x, y: p.y > 1 ? p.y / 100 : p.y }
+        : null;
+    };
+    const verdict = raw.verdict === 'improved' || raw.verdict === 'regressed' ? raw.verdict : 'neutral';
+    const severity = raw.severity === 'low' || raw.severity === 'high' ? raw.severity : 'medium';
+
+    return {
+      id: typeof raw.id === 'string' && raw.id ? raw.id : `change-${index + 1}`,
+      area: String(raw.area ?? 'Screen'),
+      description: String(raw.description ?? ''),
+      verdict,
+      rationale: String(raw.rationale ?? ''),
+      severity,
+      before: point(raw.before),
+      after: point(raw.after)
+    };
+  }
+
+  private static normalizeVerdict(raw: unknown, changes: ScreenComparisonChange[]): ScreenComparisonResult['verdict'] {
+    if (raw === 'improved' || raw === 'regressed' || raw === 'mixed' || raw === 'unchanged') return raw;
+    const improved = changes.filter(c => c.verdict === 'improved').length;
+    const regressed = changes.filter(c => c.verdict === 'regressed').length;
+    if (improved === 0 && regressed === 0) return 'unchanged';
+    if (improved > 0 && regressed > 0) return 'mixed';
+    return improved > 0 ? 'improved' : 'regressed';
+  }
+}
@@ -1,4 +1,7 @@
 import { supabase } from '@/integrations/supabase/client';
+import { HtmlSnapshotService } from './HtmlSnapshotService';
+import { PdfDocumentService } from './PdfDocumentService';
+import { RecordingKeyframeService } from './RecordingKeyframeService';
 
 export interface SecurityEvent {
   id: string;
@@ -130,7 +133,12 @@ export class SecurityService {
             .select('user_id')
             .eq('id', resourceId)
             .single();
-          hasAccess = project?.user_id === user.user.id;
+          if (project?.user_id === user.user.id) {
+            hasAccess = true;
+          } else {
+            const { data: hasRole } = await supabase.rpc('has_project_role', { _project_id: resourceId });
+            hasAccess = !!hasRole;
+          }
           break;
           
         case 'image':
@@ -227,10 +235,10 @@ export class SecurityService {
    * Validate file upload security
    */
   static validateFileUpload(file: File): boolean {
-    const allowedTypes = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+    const allowedTypes = ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'application/pdf', 'video/mp4', 'video/webm', 'text/html', 'multipart/related'];
     const maxSize = 50 * 1024 * 1024; // 50MB
     
-    if (!allowedTypes.includes(file.type)) {
+    if (!allowedTypes.includes(file.type) && !this.isRecognizedUpload(file)) {
       this.logSecurityEvent('access_violation', {
         file_type: file.type,
         file_name: file.name,
@@ -251,6 +259,15 @@ export class SecurityService {
     return true;
   }
 
+  /**
+   * Uploads the canvas recognises by file name as well as by type; validation must accept whatever
+   * the upload handlers route to an importer, or those files can never be imported
+   */
+  private static isRecognizedUpload(file: File): boolean {
+    // Browsers report MHTML as message/rfc822 or with no type at all
+    return PdfDocumentService.isPdf(file) || RecordingKeyframeService.isRecording(file) || HtmlSnapshotService.isHtmlSnapshot(file);
+  }
+
   /**
    * Generate secure API key
    */
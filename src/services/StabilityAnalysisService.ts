@@ -102,14 +102,16 @@ export class StabilityAnalysisService {
   static async generateMockups(
     imageUrl: string,
     suggestions: VisualSuggestion[],
-    context?: AnalysisContext
+    context?: AnalysisContext,
+    imageId?: string
   ): Promise<Array<{ suggestionId: string; imageUrl: string; prompt: string }>> {
     try {
       const { data, error } = await supabase.functions.invoke('stability-mockup-generator', {
         body: {
           imageUrl,
           suggestions,
-          context
+          context,
+          imageId
         }
       });
 
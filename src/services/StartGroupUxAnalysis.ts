@@ -1,5 +1,6 @@
 import { supabase } from '@/integrations/supabase/client';
 import { retryService } from '@/services/RetryService';
+import { CostTrackingService } from '@/services/CostTrackingService';
 
 export async function startGroupUxAnalysis(params: {
   groupId?: string | null;
@@ -8,7 +9,9 @@ export async function startGroupUxAnalysis(params: {
   projectId?: string | null;
   userContext?: string | null;
   dispatchMode?: 'inngest' | 'direct' | 'both';
-}): Promise<{ jobId: string }> {
+  analysisMode?: 'group' | 'comparison' | 'persona';
+  personaId?: string | null;
+}): Promise<{ jobId: string; budgetWarning?: string }> {
   const { retryAnalysis } = retryService.createAnalysisRetryWrapper();
 
   const result = await retryAnalysis(async () => {
@@ -20,10 +23,14 @@ export async function startGroupUxAnalysis(params: {
         projectId: params.projectId ?? null,
         userContext: params.userContext ?? null,
         dispatchMode: params.dispatchMode ?? (localStorage.getItem('DISPATCH_MODE') as any) ?? 'both',
+        analysisMode: params.analysisMode ?? 'group',
+        personaId: params.personaId ?? null,
       },
     });
 
     if (error) {
+      const budgetError = await CostTrackingService.toBudgetError(error);
+      if (budgetError) throw budgetError;
       console.error('[startGroupUxAnalysis] Invoke error:', error);
       throw new Error(typeof error === 'string' ? error : (error as any)?.message || 'Failed to start group UX analysis');
     }
@@ -32,7 +39,7 @@ export async function startGroupUxAnalysis(params: {
       throw new Error('No jobId returned from start-group-ux-analysis');
     }
 
-    return { jobId: data.jobId };
+    return { jobId: data.jobId, budgetWarning: data.budgetWarning as string | undefined };
   });
 
   return result;
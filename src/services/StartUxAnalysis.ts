@@ -1,4 +1,5 @@
 import { supabase } from '@/integrations/supabase/client';
+import { CostTrackingService } from '@/services/CostTrackingService';
 
 export async function startUxAnalysis(params: {
   imageId: string;
@@ -6,7 +7,7 @@ export async function startUxAnalysis(params: {
   projectId?: string | null;
   userContext?: string | null;
   dispatchMode?: 'inngest' | 'direct' | 'both';
-}): Promise<{ jobId: string }> {
+}): Promise<{ jobId: string; budgetWarning?: string }> {
   const dispatchMode = params.dispatchMode ?? (localStorage.getItem('DISPATCH_MODE') as any) ?? 'inngest';
   console.log('[StartUxAnalysis] invoking start-ux-analysis', {
     imageId: params.imageId,
@@ -26,6 +27,8 @@ export async function startUxAnalysis(params: {
   console.log('[StartUxAnalysis] invoke response', { ok: !error, jobId: (data as any)?.jobId });
 
   if (error) {
+    const budgetError = await CostTrackingService.toBudgetError(error);
+    if (budgetError) throw budgetError;
     console.error('[startUxAnalysis] Error:', error);
     throw new Error(typeof error === 'string' ? error : 'Failed to start UX analysis');
   }
@@ -34,5 +37,5 @@ export async function startUxAnalysis(params: {
     throw new Error('No jobId returned from start-ux-analysis');
   }
 
-  return { jobId: data.jobId };
+  return { jobId: data.jobId, budgetWarning: data.budgetWarning };
 }
@@ -38,6 +38,9 @@ export interface ConceptGenerationRequest {
   imageUrl: string;
   prompt: string;
   analysisData?: Record<string, unknown>;
+  // Ties the concept to a project so it can trigger concept.generated webhooks
+  imageId?: string;
+  analysisId?: string;
 }
 
 class TypeSafeAnalysisService {
@@ -251,6 +254,8 @@ class TypeSafeAnalysisService {
             imageUrl: request.imageUrl,
             prompt: request.prompt,
             analysisData: request.analysisData || {},
+            imageId: request.imageId,
+            analysisId: request.analysisId,
           },
         },
       });
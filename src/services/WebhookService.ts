@@ -0,0 +1,185 @@
+/**
+ * Webhook Service
+ * Project webhook endpoints and their delivery log. Deliveries are queued server-side from
+ * analysis_events and sent by the webhook-dispatcher edge function, signed with the endpoint secret
+ * and retried with exponential backoff.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+
+export type WebhookEventType =
+  | 'analysis.completed'
+  | 'analysis.failed'
+  | 'group_analysis.completed'
+  | 'group_analysis.failed'
+  | 'concept.generated';
+
+export const WEBHOOK_EVENTS: Array<{ type: WebhookEventType; label: string }> = [
+  { type: 'analysis.completed', label: 'Analysis completed' },
+  { type: 'analysis.failed', label: 'Analysis failed' },
+  { type: 'group_analysis.completed', label: 'Group analysis completed' },
+  { type: 'group_analysis.failed', label: 'Group analysis failed' },
+  { type: 'concept.generated', label: 'Concept generated' }
+];
+
+export interface WebhookEndpoint {
+  id: string;
+  projectId: string;
+  url: string;
+  description: string | null;
+  events: WebhookEventType[];
+  secret: string;
+  isActive: boolean;
+  createdAt: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  endpointId: string;
+  eventType: string;
+  payload: Json;
+  status: 'pending' | 'succeeded' | 'failed';
+  attempts: number;
+  nextAttemptAt: string;
+  lastAttemptAt: string | null;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  redeliveryOf: string | null;
+  createdAt: string;
+  deliveredAt: string | null;
+}
+
+const toEndpoint = (row: Tables<'webhook_endpoints'>): WebhookEndpoint => ({
+  id: row.id,
+  projectId: row.project_id,
+  url: row.url,
+  description: row.description,
+  events: row.events as WebhookEventType[],
+  secret: row.secret,
+  isActive: row.is_active,
+  createdAt: row.created_at
+});
+
+const toDelivery = (row: Tables<'webhook_deliveries'>): WebhookDelivery => ({
+  id: row.id,
+  endpointId: row.endpoint_id,
+  eventType: row.event_type,
+  payload: row.payload,
+  status: row.status as WebhookDelivery['status'],
+  attempts: row.attempts,
+  nextAttemptAt: row.next_attempt_at,
+  lastAttemptAt: row.last_attempt_at,
+  responseStatus: row.response_status,
+  responseBody: row.response_body,
+  error: row.error,
+  redeliveryOf: row.redelivery_of,
+  createdAt: row.created_at,
+  deliveredAt: row.delivered_at
+});
+
+function validateUrl(url: string) {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error('Enter a valid URL');
+  }
+  if (parsed.protocol !== 'https:') throw new Error('Webhook URLs must use https');
+}
+
+function validateEvents(events: WebhookEventType[]) {
+  if (events.length === 0) throw new Error('Subscribe to at least one event');
+}
+
+export class WebhookService {
+  static async getEndpoints(projectId: string): Promise<WebhookEndpoint[]> {
+    const { data, error } = await supabase
+      .from('webhook_endpoints')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: true });
+    if (error) throw error;
+    return (data || []).map(toEndpoint);
+  }
+
+  static async createEndpoint(params: {
+    projectId: string;
+    url: string;
+    description?: string;
+    events: WebhookEventType[];
+  }): Promise<WebhookEndpoint> {
+    const url = params.url.trim();
+    validateUrl(url);
+    validateEvents(params.events);
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { data, error } = await supabase
+      .from('webhook_endpoints')
+      .insert({
+        project_id: params.projectId,
+        url,
+        description: params.description?.trim() || null,
+        events: params.events,
+        created_by: user.id
+      })
+      .select('*')
+      .single();
+    if (error) throw error;
+    return toEndpoint(data);
+  }
+
+  static async updateEndpoint(
+    endpointId: string,
+    changes: Partial<Pick<WebhookEndpoint, 'url' | 'description' | 'events' | 'isActive'>>
+  ): Promise<void> {
+    if (changes.url !== undefined) validateUrl(changes.url.trim());
+    if (changes.events !== undefined) validateEvents(changes.events);
+
+    const { error } = await supabase
+      .from('webhook_endpoints')
+      .update({
+        ...(changes.url !== undefined && { url: changes.url.trim() }),
+        ...(changes.description !== undefined && { description: changes.description?.trim() || null }),
+        ...(changes.events !== undefined && { events: changes.events }),
+        ...(changes.isActive !== undefined && { is_active: changes.isActive })
+      })
+      .eq('id', endpointId);
+    if (error) throw error;
+  }
+
+  static async deleteEndpoint(endpointId: string): Promise<void> {
+    const { error } = await supabase
+      .from('webhook_endpoints')
+      .delete()
+      .eq('id', endpointId);
+    if (error) throw error;
+  }
+
+  /**
+   * Most recent deliveries to an endpoint, newest first
+   */
+  static async getDeliveries(endpointId: string, limit = 50): Promise<WebhookDelivery[]> {
+    const { data, error } = await supabase
+      .from('webhook_deliveries')
+      .select('*')
+      .eq('endpoint_id', endpointId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+    if (error) throw error;
+    return (data || []).map(toDelivery);
+  }
+
+  /**
+   * Send a delivery's payload again as a new delivery. redeliver_webhook sends it right away; if that
+   * fails it is retried on the usual schedule.
+   */
+  static async redeliver(deliveryId: string): Promise<string> {
+    const { data: newId, error } = await supabase.rpc('redeliver_webhook', { _delivery_id: deliveryId });
+    if (error) throw error;
+    return newId;
+  }
+}
@@ -0,0 +1,299 @@
+/**
+ * Workspace Service
+ * Team workspaces own projects; members hold one of four roles (owner > editor > commenter > viewer).
+ * Row level security enforces the roles server-side, this service only mirrors them for the UI.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+
+export type WorkspaceRole = 'owner' | 'editor' | 'commenter' | 'viewer';
+export type InvitableRole = Exclude<WorkspaceRole, 'owner'>;
+
+export interface Workspace {
+  id: string;
+  name: string;
+  ownerId: string;
+  isPersonal: boolean;
+  role: WorkspaceRole;
+  createdAt: string;
+}
+
+export interface WorkspaceMember {
+  id: string;
+  userId: string;
+  email: string | null;
+  role: WorkspaceRole;
+  createdAt: string;
+}
+
+export interface WorkspaceInvitation {
+  id: string;
+  email: string;
+  role: InvitableRole;
+  token: string;
+  status: 'pending' | 'accepted' | 'revoked';
+  expiresAt: string;
+  createdAt: string;
+}
+
+export const WORKSPACE_ROLES: WorkspaceRole[] = ['owner', 'editor', 'commenter', 'viewer'];
+
+const ROLE_RANK: Record<WorkspaceRole, number> = {
+  viewer: 1,
+  commenter: 2,
+  editor: 3,
+  owner: 4
+};
+
+const CURRENT_WORKSPACE_KEY = 'current-workspace-id';
+
+export class WorkspaceService {
+  private static currentWorkspaceId: string | null = null;
+
+  static hasRole(role: WorkspaceRole | null | undefined, minRole: WorkspaceRole): boolean {
+    return !!role && ROLE_RANK[role] >= ROLE_RANK[minRole];
+  }
+
+  static getInvitationUrl(token: string): string {
+    return `${window.location.origin}/invite/${token}`;
+  }
+
+  /**
+   * All workspaces the signed-in user belongs to, personal workspace first
+   */
+  static async getWorkspaces(): Promise<Workspace[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { data, error } = await supabase
+      .from('workspace_members')
+      .select('role, workspaces (id, name, owner_id, is_personal, created_at)')
+      .eq('user_id', user.id);
+
+    if (error) throw error;
+
+    return (data || [])
+      .filter(row => row.workspaces)
+      .map(row => ({
+        id: row.workspaces!.id,
+        name: row.workspaces!.name,
+        ownerId: row.workspaces!.owner_id,
+        isPersonal: row.workspaces!.is_personal,
+        role: row.role as WorkspaceRole,
+        createdAt: row.workspaces!.created_at
+      }))
+      .sort((a, b) => Number(b.isPersonal) - Number(a.isPersonal) || a.name.localeCompare(b.name));
+  }
+
+  /**
+   * The workspace new projects are created in and project lists are scoped to.
+   * Falls back to (and lazily creates) the user's personal workspace.
+   */
+  static async getCurrentWorkspaceId(): Promise<string> {
+    if (this.currentWorkspaceId) return this.currentWorkspaceId;
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const stored = localStorage.getItem(CURRENT_WORKSPACE_KEY);
+    if (stored) {
+      const { data: membership } = await supabase
+        .from('workspace_members')
+        .select('workspace_id')
+        .eq('workspace_id', stored)
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (membership) {
+        this.currentWorkspaceId = stored;
+        return stored;
+      }
+      localStorage.removeItem(CURRENT_WORKSPACE_KEY);
+    }
+
+    const { data: personalId, error } = await supabase.rpc('ensure_my_personal_workspace');
+    if (error) throw error;
+
+    this.currentWorkspaceId = personalId;
+    return personalId;
+  }
+
+  static async switchWorkspace(workspaceId: string): Promise<void> {
+    const oldWorkspaceId = this.currentWorkspaceId;
+    if (oldWorkspaceId === workspaceId) return;
+
+    this.currentWorkspaceId = workspaceId;
+    localStorage.setItem(CURRENT_WORKSPACE_KEY, workspaceId);
+
+    // The current project belongs to the old workspace, so project services must pick again
+    const [{ OptimizedProjectService }, { ProjectService }] = await Promise.all([
+      import('./OptimizedProjectService'),
+      import('./DataMigrationService')
+    ]);
+    OptimizedProjectService.resetProject();
+    ProjectService.resetProject();
+
+    window.dispatchEvent(new CustomEvent('workspaceChanged', {
+      detail: { workspaceId, oldWorkspaceId, timestamp: Date.now() }
+    }));
+  }
+
+  static resetWorkspace(): void {
+    this.currentWorkspaceId = null;
+  }
+
+  static async createWorkspace(name: string): Promise<Workspace> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { data, error } = await supabase
+      .from('workspaces')
+      .insert({ name: name.trim(), owner_id: user.id })
+      .select('*')
+      .single();
+
+    if (error) throw error;
+
+    return {
+      id: data.id,
+      name: data.name,
+      ownerId: data.owner_id,
+      isPersonal: data.is_personal,
+      role: 'owner',
+      createdAt: data.created_at
+    };
+  }
+
+  static async renameWorkspace(workspaceId: string, name: string): Promise<void> {
+    const { error } = await supabase
+      .from('workspaces')
+      .update({ name: name.trim() })
+      .eq('id', workspaceId);
+
+    if (error) throw error;
+  }
+
+  static async getMembers(workspaceId: string): Promise<WorkspaceMember[]> {
+    const { data, error } = await supabase
+      .from('workspace_members')
+      .select('id, user_id, email, role, created_at')
+      .eq('workspace_id', workspaceId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+
+    return (data || []).map(row => ({
+      id: row.id,
+      userId: row.user_id,
+      email: row.email,
+      role: row.role as WorkspaceRole,
+      createdAt: row.created_at
+    }));
+  }
+
+  static async updateMemberRole(memberId: string, role: WorkspaceRole): Promise<void> {
+    const { error } = await supabase
+      .from('workspace_members')
+      .update({ role })
+      .eq('id', memberId);
+
+    if (error) throw error;
+  }
+
+  static async removeMember(memberId: string): Promise<void> {
+    const { error } = await supabase
+      .from('workspace_members')
+      .delete()
+      .eq('id', memberId);
+
+    if (error) throw error;
+  }
+
+  static async getInvitations(workspaceId: string): Promise<WorkspaceInvitation[]> {
+    const { data, error } = await supabase
+      .from('workspace_invitations')
+      .select('id, email, role, token, status, expires_at, created_at')
+      .eq('workspace_id', workspaceId)
+      .eq('status', 'pending')
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    return (data || []).map(row => ({
+      id: row.id,
+      email: row.email,
+      role: row.role as InvitableRole,
+      token: row.token,
+      status: row.status as WorkspaceInvitation['status'],
+      expiresAt: row.expires_at,
+      createdAt: row.created_at
+    }));
+  }
+
+  /**
+   * Create an invitation and email the accept link. The link is returned as well so it
+   * can be shared manually when email delivery is not configured.
+   */
+  static async inviteMember(
+    workspaceId: string,
+    email: string,
+    role: InvitableRole
+  ): Promise<{ invitation: WorkspaceInvitation; inviteUrl: string; emailSent: boolean }> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { data, error } = await supabase
+      .from('workspace_invitations')
+      .insert({
+        workspace_id: workspaceId,
+        email: email.trim().toLowerCase(),
+        role,
+        invited_by: user.id
+      })
+      .select('id, email, role, token, status, expires_at, created_at')
+      .single();
+
+    if (error) throw error;
+
+    const invitation: WorkspaceInvitation = {
+      id: data.id,
+      email: data.email,
+      role: data.role as InvitableRole,
+      token: data.token,
+      status: data.status as WorkspaceInvitation['status'],
+      expiresAt: data.expires_at,
+      createdAt: data.created_at
+    };
+    const inviteUrl = this.getInvitationUrl(invitation.token);
+
+    const { data: delivery, error: deliveryError } = await supabase.functions.invoke('workspace-invitation', {
+      body: { invitationId: invitation.id, inviteUrl }
+    });
+
+    if (deliveryError) {
+      console.warn('[WorkspaceService] Invitation email could not be sent:', deliveryError);
+    }
+
+    return { invitation, inviteUrl, emailSent: !deliveryError && !!delivery?.emailSent };
+  }
+
+  static async revokeInvitation(invitationId: string): Promise<void> {
+    const { error } = await supabase
+      .from('workspace_invitations')
+      .update({ status: 'revoked' })
+      .eq('id', invitationId);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Accept an invitation link for the signed-in user and make its workspace current
+   */
+  static async acceptInvitation(token: string): Promise<string> {
+    const { data: workspaceId, error } = await supabase.rpc('accept_workspace_invitation', { _token: token });
+    if (error) throw new Error(error.message);
+
+    await this.switchWorkspace(workspaceId);
+    return workspaceId;
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * GitHubIssuesConnector - Creates issues through the GitHub REST API
+ */
+
+import {
+  IssueTrackerConnector,
+  type ConnectorConfigField,
+  type IssueConnectorConfig,
+  type IssueRequest,
+  type IssueTicket
+} from './IssueTrackerConnector';
+
+export class GitHubIssuesConnector extends IssueTrackerConnector {
+  readonly id = 'github';
+  readonly name = 'GitHub Issues';
+  readonly defaultBaseUrl = 'https://api.github.com';
+  readonly configFields: ConnectorConfigField[] = [
+    { key: 'repository', label: 'Repository', placeholder: 'owner/repo', required: true },
+    { key: 'token', label: 'Personal access token', secret: true, required: true },
+    { key: 'baseUrl', label: 'API base URL', placeholder: this.defaultBaseUrl }
+  ];
+
+  buildRequest(ticket: IssueTicket, config: IssueConnectorConfig): IssueRequest {
+    return {
+      url: `${this.baseUrl(config)}/repos/${config.repository}/issues`,
+      method: 'POST',
+      headers: {
+        'Accept': 'application/vnd.github+json',
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${config.token}`
+      },
+      body: {
+        title: ticket.title,
+        body: this.renderMarkdownBody(ticket),
+        // GitHub has no native priority field, so it travels as a label
+        labels: [...ticket.labels, `priority:${ticket.priority}`]
+      }
+    };
+  }
+
+  protected parseResponse(body: unknown) {
+    const issue = (body || {}) as { number?: number; html_url?: string };
+    return {
+      externalId: issue.number != null ? `#${issue.number}` : undefined,
+      externalUrl: issue.html_url
+    };
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * IssueTrackerConnector - Base class for exporting UX suggestions as tracker tickets
+ * Each connector turns an IssueTicket into a tracker-specific HTTP request. The base URL
+ * is always configurable so connectors can be pointed at a proxy or a local mock server.
+ */
+
+import type { Suggestion } from '@/types/ux-analysis';
+
+export type IssuePriority = 'urgent' | 'high' | 'medium' | 'low';
+
+export interface IssueAttachment {
+  annotationId: string;
+  filename: string;
+  dataUrl: string;
+  // Public URL, set once the crop has been uploaded to storage
+  url?: string;
+}
+
+export interface IssueTicket {
+  suggestionId: string;
+  title: string;
+  description: string;
+  actionItems: string[];
+  category: Suggestion['category'];
+  impact: Suggestion['impact'];
+  effort: Suggestion['effort'];
+  priority: IssuePriority;
+  labels: string[];
+  source: {
+    analysisId: string;
+    imageId: string;
+    imageName: string;
+    imageUrl: string;
+  };
+  attachments: IssueAttachment[];
+}
+
+export interface IssueConnectorConfig {
+  baseUrl?: string;
+  token?: string;
+  [key: string]: string | undefined;
+}
+
+export interface ConnectorConfigField {
+  key: string;
+  label: string;
+  placeholder?: string;
+  secret?: boolean;
+  required?: boolean;
+}
+
+export interface IssueRequest {
+  url: string;
+  method: 'POST';
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+export interface IssueSubmitResult {
+  suggestionId: string;
+  success: boolean;
+  externalId?: string;
+  externalUrl?: string;
+  error?: string;
+}
+
+export abstract class IssueTrackerConnector {
+  abstract readonly id: string;
+  abstract readonly name: string;
+  abstract readonly defaultBaseUrl: string;
+  abstract readonly configFields: ConnectorConfigField[];
+
+  abstract buildRequest(ticket: IssueTicket, config: IssueConnectorConfig): IssueRequest;
+
+  // Extract the created issue's id and link from the tracker response
+  protected abstract parseResponse(body: unknown, config: IssueConnectorConfig): { externalId?: string; externalUrl?: string };
+
+  /**
+   * Return the labels of required config fields that are missing
+   */
+  validateConfig(config: IssueConnectorConfig): string[] {
+    return this.configFields
+      .filter(field => field.required && !config[field.key]?.trim())
+      .map(field => field.label);
+  }
+
+  async submit(ticket: IssueTicket, config: IssueConnectorConfig): Promise<IssueSubmitResult> {
+    const request = this.buildRequest(ticket, config);
+
+    try {
+      const response = await fetch(request.url, {
+        method: request.method,
+        headers: request.headers,
+        body: JSON.stringify(request.body)
+      });
+
+      const text = await response.text();
+      let body: unknown = null;
+      try {
+        body = text ? JSON.parse(text) : null;
+      } catch {
+        body = text;
+      }
+
+      if (!response.ok) {
+        return {
+          suggestionId: ticket.suggestionId,
+          success: false,
+          error: `${this.name} responded with ${response.status}: ${typeof body === 'string' ? body : JSON.stringify(body)}`.slice(0, 500)
+        };
+      }
+
+      return { suggestionId: ticket.suggestionId, success: true, ...this.parseResponse(body, config) };
+    } catch (error) {
+      return {
+        suggestionId: ticket.suggestionId,
+        success: false,
+        error: error instanceof Error ? error.message : `Failed to reach ${this.name}`
+      };
+    }
+  }
+
+  protected baseUrl(config: IssueConnectorConfig): string {
+    return (config.baseUrl?.trim() || this.defaultBaseUrl).replace(/\/+$/, '');
+  }
+
+  /**
+   * Markdown ticket body shared by trackers that render Markdown
+   */
+  protected renderMarkdownBody(ticket: IssueTicket): string {
+    const lines: string[] = [ticket.description, ''];
+
+    if (ticket.actionItems.length > 0) {
+      lines.push('### Action items');
+      ticket.actionItems.forEach(item => lines.push(`- [ ] ${item}`));
+      lines.push('');
+    }
+
+    lines.push('### Details');
+    lines.push(`- **Category:** ${ticket.category}`);
+    lines.push(`- **Impact:** ${ticket.impact}`);
+    lines.push(`- **Effort:** ${ticket.effort}`);
+    lines.push(`- **Screen:** ${ticket.source.imageName}`);
+
+    const screenshots = ticket.attachments.filter(a => a.url);
+    if (screenshots.length > 0) {
+      lines.push('');
+      lines.push('### Screenshots');
+      screenshots.forEach(a => lines.push(`![${a.filename}](${a.url})`));
+    }
+
+    lines.push('');
+    lines.push(`_Exported from UX analysis ${ticket.source.analysisId}_`);
+    return lines.join('\n');
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * JiraConnector - Creates issues through the Jira REST API (v2, plain-text descriptions)
+ * Jira Cloud does not allow browser CORS requests, so production use needs a proxy as the base URL.
+ */
+
+import {
+  IssueTrackerConnector,
+  type ConnectorConfigField,
+  type IssueConnectorConfig,
+  type IssuePriority,
+  type IssueRequest,
+  type IssueTicket
+} from './IssueTrackerConnector';
+
+const JIRA_PRIORITIES: Record<IssuePriority, string> = {
+  urgent: 'Highest',
+  high: 'High',
+  medium: 'Medium',
+  low: 'Low'
+};
+
+export class JiraConnector extends IssueTrackerConnector {
+  readonly id = 'jira';
+  readonly name = 'Jira';
+  readonly defaultBaseUrl = '';
+  readonly configFields: ConnectorConfigField[] = [
+    { key: 'baseUrl', label: 'Site URL', placeholder: 'https://your-team.atlassian.net', required: true },
+    { key: 'projectKey', label: 'Project key', placeholder: 'UX', required: true },
+    { key: 'issueType', label: 'Issue type', placeholder: 'Task' },
+    { key: 'email', label: 'Account email', required: true },
+    { key: 'token', label: 'API token', secret: true, required: true }
+  ];
+
+  buildRequest(ticket: IssueTicket, config: IssueConnectorConfig): IssueRequest {
+    return {
+      url: `${this.baseUrl(config)}/rest/api/2/issue`,
+      method: 'POST',
+      headers: {
+        'Accept': 'application/json',
+        'Content-Type': 'application/json',
+        'Authorization': `Basic ${btoa(`${config.email}:${config.token}`)}`
+      },
+      body: {
+        fields: {
+          project: { key: config.projectKey },
+          issuetype: { name: config.issueType || 'Task' },
+          summary: ticket.title,
+          description: this.renderWikiBody(ticket),
+          // Jira labels cannot contain spaces
+          labels: ticket.labels.map(label => label.replace(/\s+/g, '-')),
+          priority: { name: JIRA_PRIORITIES[ticket.priority] }
+        }
+      }
+    };
+  }
+
+  protected parseResponse(body: unknown, config: IssueConnectorConfig) {
+    const issue = (body || {}) as { key?: string };
+    return {
+      externalId: issue.key,
+      externalUrl: issue.key ? `${this.baseUrl(config)}/browse/${issue.key}` : undefined
+    };
+  }
+
+  private renderWikiBody(ticket: IssueTicket): string {
+    const lines: string[] = [ticket.description, ''];
+
+    if (ticket.actionItems.length > 0) {
+      lines.push('h3. Action items');
+      ticket.actionItems.forEach(item => lines.push(`* ${item}`));
+      lines.push('');
+    }
+
+    lines.push('h3. Details');
+    lines.push(`* *Category:* ${ticket.category}`);
+    lines.push(`* *Impact:* ${ticket.impact}`);
+    lines.push(`* *Effort:* ${ticket.effort}`);
+    lines.push(`* *Screen:* ${ticket.source.imageName}`);
+
+    const screenshots = ticket.attachments.filter(a => a.url);
+    if (screenshots.length > 0) {
+      lines.push('');
+      lines.push('h3. Screenshots');
+      screenshots.forEach(a => lines.push(`!${a.url}!`));
+    }
+
+    return lines.join('\n');
+  }
+}
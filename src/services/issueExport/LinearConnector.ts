@@ -0,0 +1,80 @@
+/**
+ * LinearConnector - Creates issues through the Linear GraphQL API
+ */
+
+import {
+  IssueTrackerConnector,
+  type ConnectorConfigField,
+  type IssueConnectorConfig,
+  type IssuePriority,
+  type IssueRequest,
+  type IssueTicket
+} from './IssueTrackerConnector';
+
+// Linear priorities: 1 = urgent, 2 = high, 3 = medium, 4 = low
+const LINEAR_PRIORITIES: Record<IssuePriority, number> = {
+  urgent: 1,
+  high: 2,
+  medium: 3,
+  low: 4
+};
+
+const CREATE_ISSUE_MUTATION = `
+  mutation IssueCreate($input: IssueCreateInput!) {
+    issueCreate(input: $input) {
+      success
+      issue { id identifier url }
+    }
+  }
+`;
+
+export class LinearConnector extends IssueTrackerConnector {
+  readonly id = 'linear';
+  readonly name = 'Linear';
+  readonly defaultBaseUrl = 'https://api.linear.app';
+  readonly configFields: ConnectorConfigField[] = [
+    { key: 'teamId', label: 'Team ID', required: true },
+    { key: 'labelIds', label: 'Label IDs (comma separated)' },
+    { key: 'token', label: 'API key', secret: true, required: true },
+    { key: 'baseUrl', label: 'API base URL', placeholder: this.defaultBaseUrl }
+  ];
+
+  buildRequest(ticket: IssueTicket, config: IssueConnectorConfig): IssueRequest {
+    // Linear labels are referenced by id, so category labels are listed in the body instead
+    const labelIds = (config.labelIds || '').split(',').map(id => id.trim()).filter(Boolean);
+    const description = `${this.renderMarkdownBody(ticket)}\n\nLabels: ${ticket.labels.join(', ')}`;
+
+    return {
+      url: `${this.baseUrl(config)}/graphql`,
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': config.token || ''
+      },
+      body: {
+        query: CREATE_ISSUE_MUTATION,
+        variables: {
+          input: {
+            teamId: config.teamId,
+            title: ticket.title,
+            description,
+            priority: LINEAR_PRIORITIES[ticket.priority],
+            ...(labelIds.length > 0 ? { labelIds } : {})
+          }
+        }
+      }
+    };
+  }
+
+  protected parseResponse(body: unknown) {
+    const result = (body || {}) as {
+      data?: { issueCreate?: { issue?: { identifier?: string; url?: string } } };
+      errors?: Array<{ message?: string }>;
+    };
+    if (result.errors?.length) {
+      throw new Error(result.errors.map(e => e.message).join('; '));
+    }
+    const issue = result.data?.issueCreate?.issue;
+    return { externalId: issue?.identifier, externalUrl: issue?.url };
+  }
+}
@@ -1,3 +1,5 @@
+import type { AnalysisRubric, EndUserPersona } from '@/types/ux-analysis';
+
 // Image context detection types
 export interface ImageContext {
   primaryType: 'dashboard' | 'landing' | 'app' | 'form' | 'ecommerce' | 'content' | 'portfolio' | 'saas' | 'mobile' | 'unknown';
@@ -45,6 +47,8 @@ export interface AnalysisContext {
   detectedAt: string;
   clarificationNeeded?: boolean;
   clarificationQuestions?: string[];
+  rubric?: AnalysisRubric; // project rubric the analysis is scored against
+  persona?: EndUserPersona; // end user whose eyes the analysis looks through
 }
 
 // Dynamic prompt components
@@ -57,6 +61,8 @@ export interface PromptComponents {
   qualityMarkers: string[];
   researchContext?: string; // Added for Perplexity integration
   citations?: Citation[]; // Added for source tracking
+  rubric?: string; // Project rubric scoring instructions
+  persona?: string; // End-user persona lens and per-persona output
 }
 
 // Citation tracking
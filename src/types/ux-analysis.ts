@@ -1,13 +1,44 @@
 import type { AnalysisContext } from '@/types/contextTypes';
 
+// Area of the screen an annotation refers to, normalized 0-1 like the annotation anchor
+export type AnnotationRegion =
+  | { shape: 'rect'; x: number; y: number; width: number; height: number }
+  | { shape: 'polygon'; points: Array<{ x: number; y: number }> };
+
+// Which models of a multi-model analysis reported a finding and whether they agree on it
+export interface FindingConsensus {
+  sourceModels: string[];
+  // Models that ran in the analysis
+  modelCount: number;
+  // Share of those models that reported the finding, 0-1
+  agreement: number;
+  // Severity (annotations) or impact (suggestions) each model gave, when more than one reported it
+  severityByModel?: Record<string, string>;
+  // The models disagree on severity; a person should decide
+  needsReview: boolean;
+}
+
+export interface ModelAgreement {
+  models: string[];
+  findings: number;
+  agreed: number;
+  singleModel: number;
+  needsReview: number;
+  // Percentage of findings every model reported
+  agreementRate: number;
+}
+
 export interface AnnotationPoint {
   id: string;
+  // Anchor of the marker; the center of the region when there is one
   x: number;
   y: number;
   type: 'issue' | 'suggestion' | 'success';
   title: string;
   description: string;
   severity: 'low' | 'medium' | 'high';
+  region?: AnnotationRegion;
+  consensus?: FindingConsensus;
 }
 
 export interface Suggestion {
@@ -19,6 +50,33 @@ export interface Suggestion {
   effort: 'low' | 'medium' | 'high';
   actionItems: string[];
   relatedAnnotations: string[];
+  consensus?: FindingConsensus;
+}
+
+// Human review of AI findings (annotations and suggestions)
+export type AnnotationTargetType = 'annotation' | 'suggestion';
+export type AnnotationStatus = 'open' | 'accepted' | 'wont_fix' | 'fixed';
+
+export interface AnnotationThreadComment {
+  id: string;
+  analysisId: string;
+  targetType: AnnotationTargetType;
+  targetId: string;
+  parentId: string | null;
+  userId: string;
+  authorEmail: string | null;
+  body: string;
+  mentions: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AnnotationStatusSummary {
+  open: number;
+  accepted: number;
+  wontFix: number;
+  fixed: number;
+  openHighSeverity: number;
 }
 
 // Strategic Business Insights - New Structure
@@ -54,6 +112,147 @@ export interface VisionMetadata {
   // Strategic insights data
   strategic_summary?: any;
   strategicInsights?: StrategicBusinessInsights;
+  // Present when the project has design tokens
+  tokenConformance?: TokenConformance;
+  contrast?: ContrastReport;
+  // Present when the screenshot was rendered from an uploaded HTML snapshot
+  domAudit?: DomAuditReport;
+  // Present for multi-model analyses
+  modelAgreement?: ModelAgreement;
+}
+
+// Project-defined scoring rubrics (e.g. Nielsen's heuristics, a design-system checklist)
+export type RubricVerdict = 'pass' | 'partial' | 'fail';
+
+export interface RubricCriterion {
+  id: string;
+  name: string;
+  description: string;
+  weight: number;
+  passGuidance: string;
+  failGuidance: string;
+}
+
+export interface AnalysisRubric {
+  id: string;
+  projectId: string;
+  name: string;
+  description: string;
+  criteria: RubricCriterion[];
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CriterionScore {
+  criterionId: string;
+  name: string;
+  weight: number;
+  score: number;
+  verdict?: RubricVerdict;
+  rationale?: string;
+}
+
+// Project design tokens and the conformance of an analyzed screen against them
+export type DesignTokenKind = 'color' | 'fontSize' | 'spacing' | 'radius';
+export type DesignTokenFormat = 'figmant' | 'w3c' | 'style_dictionary';
+
+// Colors are #RRGGBB, dimensions are CSS pixels
+export interface DesignToken {
+  name: string;
+  value: string | number;
+}
+
+export interface DesignTokens {
+  colors: DesignToken[];
+  fontSizes: DesignToken[];
+  spacing: DesignToken[];
+  radii: DesignToken[];
+}
+
+export interface DesignTokenSet {
+  id: string;
+  projectId: string;
+  name: string;
+  sourceFormat: DesignTokenFormat;
+  tokens: DesignTokens;
+  updatedAt: string;
+}
+
+export interface TokenViolation {
+  id: string;
+  kind: DesignTokenKind;
+  found: string | number;
+  // Nearest token, the suggested replacement
+  token: DesignToken | null;
+  // Delta E for colors, pixels for dimensions
+  distance: number;
+  // Share of the screen for colors found by vision
+  coverage?: number;
+  annotationId?: string;
+}
+
+export interface TokenConformance {
+  tokenSetId: string;
+  tokenSetName: string;
+  checked: Record<DesignTokenKind, number>;
+  violations: TokenViolation[];
+  // Share of checked values that match a token, 0-100
+  score: number;
+}
+
+// Measured WCAG 2.x text contrast from screenshot pixels
+export interface ContrastFinding {
+  id: string;
+  text: string;
+  // Image pixels
+  boundingBox: { x: number; y: number; width: number; height: number };
+  foreground: string;
+  background: string;
+  ratio: number;
+  largeText: boolean;
+  required: { aa: number; aaa: number };
+  level: 'fail' | 'aa' | 'aaa';
+  // Nearest foreground color meeting AA on the same background
+  suggestion: { color: string; ratio: number } | null;
+  annotationId?: string;
+}
+
+export interface ContrastReport {
+  checkedAt: string;
+  textCount: number;
+  failCount: number;
+  // Share of text meeting AA, 0-100
+  score: number;
+  // Accessibility category score before the measurement was merged in
+  aiAccessibilityScore: number | null;
+  findings: ContrastFinding[];
+}
+
+// Accessibility audit of the DOM of an uploaded HTML snapshot
+export type DomAuditRule = 'label' | 'landmark' | 'heading' | 'aria' | 'alt-text' | 'tab-order';
+
+export interface DomAuditFinding {
+  id: string;
+  rule: DomAuditRule;
+  severity: 'low' | 'medium' | 'high';
+  title: string;
+  description: string;
+  // CSS selector of the element; null for page-level findings (e.g. no main landmark)
+  selector: string | null;
+  // Element box as 0-1 fractions of the rendered page; null for page-level findings
+  region: { x: number; y: number; width: number; height: number } | null;
+  annotationId?: string;
+}
+
+export interface DomAuditReport {
+  source: string; // File name of the snapshot
+  checkedAt: string;
+  // CSS pixel size of the rendered page (and of the screenshot)
+  page: { width: number; height: number };
+  // Elements examined per rule
+  checked: Record<DomAuditRule, number>;
+  findings: DomAuditFinding[];
 }
 
 export interface AnalysisSummary {
@@ -67,6 +266,9 @@ export interface AnalysisSummary {
   keyIssues: string[];
   strengths: string[];
   strategicInsights?: StrategicBusinessInsights;
+  // Present when the analysis was scored against a project rubric
+  rubric?: { id: string; name: string };
+  criterionScores?: CriterionScore[];
 }
 
 export interface GeneratedConcept {
@@ -91,6 +293,42 @@ export interface ImageGroup {
   position: { x: number; y: number };
   color: string;
   createdAt: Date;
+  // Set when the group is a user journey; imageIds are then its steps in order
+  journey?: GroupJourney;
+}
+
+export interface GroupJourney {
+  // Labelled moves between consecutive steps; transitions without a label are not stored
+  transitions: JourneyTransition[];
+}
+
+export interface JourneyTransition {
+  fromImageId: string;
+  toImageId: string;
+  label?: string; // What the user does to get to the next step, e.g. "taps Checkout"
+}
+
+// Review of one step-to-step transition of a journey group
+export interface JourneyTransitionAnalysis {
+  fromStep: number; // 1-based, in group order
+  toStep: number;
+  label?: string;
+  continuity: number; // 0-100
+  lostContext: string[];
+  dropOffRisk: 'low' | 'medium' | 'high';
+  dropOffReason?: string;
+}
+
+// A journey gap tied to the transition it happens in; null steps for gaps that span the whole flow
+export interface JourneyGap {
+  text: string;
+  fromStep: number | null;
+  toStep: number | null;
+}
+
+export interface GroupJourneyAnalysis {
+  transitions: JourneyTransitionAnalysis[];
+  gaps: JourneyGap[];
 }
 
 export interface GroupPromptSession {
@@ -121,6 +359,8 @@ export interface GroupAnalysisWithPrompt {
     designInconsistencies: string[];
     userJourneyGaps: string[];
   };
+  // Present for journey groups
+  journey?: GroupJourneyAnalysis;
   // New enhanced analysis structure - optional for backward compatibility
   analysis?: {
     overallScore: number;
@@ -150,6 +390,147 @@ export interface GroupAnalysis {
     designInconsistencies: string[];
     userJourneyGaps: string[];
   };
+  journey?: GroupJourneyAnalysis;
+  createdAt: Date;
+}
+
+// Before/after regression review of two builds of the same screen
+export interface ScreenComparisonChange {
+  id: string;
+  area: string;
+  description: string;
+  verdict: 'improved' | 'regressed' | 'neutral';
+  rationale: string;
+  severity: 'low' | 'medium' | 'high';
+  before?: { x: number; y: number } | null;
+  after?: { x: number; y: number } | null;
+}
+
+export interface ScreenComparisonResult {
+  id: string;
+  jobId: string;
+  beforeImageId: string;
+  afterImageId: string;
+  verdict: 'improved' | 'regressed' | 'mixed' | 'unchanged';
+  overallScore?: number;
+  changes: ScreenComparisonChange[];
+  insights: string[];
+  recommendations: string[];
+  createdAt: Date;
+}
+
+// Competitor benchmarking of screens tagged as ours or as a named competitor
+export interface BenchmarkCriterion {
+  id: string;
+  name: string;
+  weight: number;
+}
+
+export interface BenchmarkProduct {
+  key: string; // 'ours', or 'competitor:' + the lowercased competitor name
+  name: string;
+  isOurs: boolean;
+  imageIds: string[];
+  overallScore: number;
+  // Average per criterion across the product's screens, keyed by criterion id
+  scores: Record<string, number>;
+  // How evenly the product's screens score (100 = identical overall scores)
+  consistency: number;
+}
+
+export interface BenchmarkFeature {
+  name: string;
+  // 'pattern': a UX pattern matched in detected text and elements; 'element': a detected object
+  source: 'pattern' | 'element';
+  // Ids of the screens the feature was detected on, keyed by product key
+  presence: Record<string, string[]>;
+}
+
+export interface BenchmarkWin {
+  id: string;
+  competitorKey: string;
+  competitor: string;
+  kind: 'criterion' | 'feature';
+  title: string;
+  detail: string;
+  delta?: number; // Score points ahead of us, for criterion wins
+  evidenceImageIds: string[];
+}
+
+export interface CompetitorBenchmark {
+  id: string;
+  rubricName: string | null;
+  criteria: BenchmarkCriterion[];
+  products: BenchmarkProduct[];
+  features: BenchmarkFeature[];
+  // Where competitors beat us, largest gaps first
+  wins: BenchmarkWin[];
+  createdAt: Date;
+}
+
+// End-user personas of a project; unlike UserContext they describe who uses the interface, not who reads the report
+export type PersonaExpertise = 'novice' | 'intermediate' | 'expert';
+
+export interface EndUserPersona {
+  id: string;
+  projectId: string;
+  name: string;
+  description: string;
+  age: number | null;
+  techExpertise: PersonaExpertise;
+  goals: string[];
+  accessibilityNeeds: string[];
+  constraints: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type PersonaSeverity = 'low' | 'medium' | 'high';
+
+export interface PersonaFinding {
+  id: string;
+  title: string;
+  description: string;
+  severity: PersonaSeverity;
+  friction: number; // 0-100, how much the issue slows or blocks this persona
+  screen: number | null; // 1-based position of the screen in the run, null for the whole flow
+}
+
+// One analysis run through the lens of a persona
+export interface PersonaRunResult {
+  personaId: string;
+  personaName: string;
+  jobId: string;
+  analysisId: string;
+  frictionScore: number; // 0-100 overall friction for the persona
+  taskSuccess?: number; // 0-100 likelihood the persona completes their goals
+  findings: PersonaFinding[];
+  insights: string[];
+  createdAt: Date;
+}
+
+// The same issue as seen by every persona in a comparison
+export interface PersonaFindingComparison {
+  id: string;
+  title: string;
+  description: string;
+  screen: number | null;
+  // Keyed by persona id; null when the persona did not run into the issue
+  severities: Record<string, PersonaSeverity | null>;
+  friction: Record<string, number | null>;
+  // Distance between the most and least severe rating (0 = every persona agrees, 3 = high vs. not flagged)
+  severitySpread: number;
+  frictionSpread: number;
+}
+
+export interface PersonaComparison {
+  id: string;
+  imageIds: string[];
+  runs: PersonaRunResult[];
+  // Most divergent first
+  findings: PersonaFindingComparison[];
+  // Personas whose run failed; the comparison covers the rest
+  failedPersonas: string[];
   createdAt: Date;
 }
 
@@ -180,4 +561,20 @@ export interface UploadedImage {
     height: number;
   };
   status?: 'uploading' | 'uploaded' | 'syncing' | 'processing' | 'analyzing' | 'completed' | 'error';
+  // Set on keyframes extracted from a screen recording or animated GIF
+  recordingFrame?: RecordingFrame;
+  // Set on screenshots rendered from an uploaded HTML snapshot
+  domAudit?: DomAuditReport;
+  // Whose product the screen shows, for competitor benchmarking
+  productTag?: ProductTag;
+}
+
+export interface ProductTag {
+  kind: 'ours' | 'competitor';
+  name?: string; // Competitor name; unused for our own product
+}
+
+export interface RecordingFrame {
+  recording: string; // File name of the source recording
+  timestampMs: number;
 }
\ No newline at end of file
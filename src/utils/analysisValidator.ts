@@ -4,6 +4,7 @@
  */
 
 import type { UXAnalysis, Suggestion, AnnotationPoint, AnalysisSummary, VisionMetadata } from '../types/ux-analysis';
+import { normalizeRegion, regionCenter } from './annotationRegions';
 
 interface ValidationResult {
   isValid: boolean;
@@ -105,7 +106,8 @@ export class AnalysisValidator {
         effort: suggestion.effort || 'medium',
         actionItems: Array.isArray(suggestion.actionItems) ? suggestion.actionItems : 
                     Array.isArray(suggestion.action_items) ? suggestion.action_items : [],
-        relatedAnnotations: Array.isArray(suggestion.relatedAnnotations) ? suggestion.relatedAnnotations : []
+        relatedAnnotations: Array.isArray(suggestion.relatedAnnotations) ? suggestion.relatedAnnotations : [],
+        ...(suggestion.consensus ? { consensus: suggestion.consensus } : {})
       };
     });
   }
@@ -127,14 +129,18 @@ export class AnalysisValidator {
         return this.createDefaultAnnotation(index);
       }
 
+      const region = normalizeRegion(annotation.region);
+      const anchor = region ? regionCenter(region) : { x: 0, y: 0 };
       return {
         id: annotation.id || `annotation_${index}`,
-        x: typeof annotation.x === 'number' ? annotation.x : 0,
-        y: typeof annotation.y === 'number' ? annotation.y : 0,
+        x: typeof annotation.x === 'number' ? annotation.x : anchor.x,
+        y: typeof annotation.y === 'number' ? annotation.y : anchor.y,
         type: annotation.type || 'issue',
         title: annotation.title || 'Untitled Issue',
         description: annotation.description || 'No description provided',
-        severity: annotation.severity || 'medium'
+        severity: annotation.severity || 'medium',
+        ...(region ? { region } : {}),
+        ...(annotation.consensus ? { consensus: annotation.consensus } : {})
       };
     });
   }
@@ -0,0 +1,122 @@
+/**
+ * Annotation region utilities
+ * Normalizes the regions models return and derives bounds, anchors and crops from them
+ */
+
+import type { AnnotationPoint, AnnotationRegion } from '@/types/ux-analysis';
+
+export interface RegionBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Regions smaller than this (fraction of the image side) are treated as points
+const MIN_REGION_SIZE = 0.005;
+
+const clamp01 = (n: number) => Math.max(0, Math.min(1, n));
+
+const toNumber = (value: unknown): number | null => {
+  const n = typeof value === 'string' ? Number(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : null;
+};
+
+const readPoint = (value: unknown): { x: number; y: number } | null => {
+  if (Array.isArray(value)) {
+    const [x, y] = value.map(toNumber);
+    return x != null && y != null ? { x, y } : null;
+  }
+  if (!value || typeof value !== 'object') return null;
+  const point = value as Record<string, unknown>;
+  const x = toNumber(point.x);
+  const y = toNumber(point.y);
+  return x != null && y != null ? { x, y } : null;
+};
+
+/**
+ * Coerce a model-provided region into a normalized AnnotationRegion.
+ * Accepts rects ({x, y, width, height}, optionally with shape 'rect' or as a `box` [x, y, w, h])
+ * and polygons ({shape: 'polygon', points}) in 0-1 or 0-100 (percent) coordinates.
+ */
+export function normalizeRegion(raw: unknown): AnnotationRegion | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const region = raw as Record<string, unknown>;
+
+  const pointList = Array.isArray(region.points) ? region.points : Array.isArray(raw) ? raw : null;
+  if (pointList && region.shape !== 'rect') {
+    const points = pointList.map(readPoint).filter((p): p is { x: number; y: number } => p !== null);
+    if (points.length < 3) return undefined;
+    const scale = points.some(p => p.x > 1 || p.y > 1) ? 100 : 1;
+    const normalized = points.map(p => ({ x: clamp01(p.x / scale), y: clamp01(p.y / scale) }));
+    const bounds = boundsOfPoints(normalized);
+    return bounds.width >= MIN_REGION_SIZE && bounds.height >= MIN_REGION_SIZE
+      ? { shape: 'polygon', points: normalized }
+      : undefined;
+  }
+
+  const box = Array.isArray(region.box) ? region.box.map(toNumber) : null;
+  const [x, y, width, height] = box ?? [region.x, region.y, region.width, region.height].map(toNumber);
+  if (x == null || y == null || width == null || height == null || width <= 0 || height <= 0) return undefined;
+
+  const scale = [x, y, width, height].some(n => n > 1) ? 100 : 1;
+  const left = clamp01(x / scale);
+  const top = clamp01(y / scale);
+  const rect = {
+    x: left,
+    y: top,
+    width: Math.min(1 - left, width / scale),
+    height: Math.min(1 - top, height / scale)
+  };
+  return rect.width >= MIN_REGION_SIZE && rect.height >= MIN_REGION_SIZE ? { shape: 'rect', ...rect } : undefined;
+}
+
+function boundsOfPoints(points: Array<{ x: number; y: number }>): RegionBounds {
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+export function regionBounds(region: AnnotationRegion): RegionBounds {
+  return region.shape === 'rect'
+    ? { x: region.x, y: region.y, width: region.width, height: region.height }
+    : boundsOfPoints(region.points);
+}
+
+export function regionCenter(region: AnnotationRegion): { x: number; y: number } {
+  const bounds = regionBounds(region);
+  return { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 };
+}
+
+/**
+ * Bounds of the region grown by `padding` (fraction of the image) on every side, kept inside the image
+ */
+export function paddedBounds(region: AnnotationRegion, padding = 0.04): RegionBounds {
+  const bounds = regionBounds(region);
+  const x = Math.max(0, bounds.x - padding);
+  const y = Math.max(0, bounds.y - padding);
+  return {
+    x,
+    y,
+    width: Math.min(1, bounds.x + bounds.width + padding) - x,
+    height: Math.min(1, bounds.y + bounds.height + padding) - y
+  };
+}
+
+/**
+ * Attach a normalized region to an annotation and anchor point-less annotations at its center.
+ * Point-only annotations are returned unchanged.
+ */
+export function withNormalizedRegion<T extends Partial<AnnotationPoint>>(annotation: T): T {
+  const region = normalizeRegion((annotation as Record<string, unknown>).region ?? (annotation as Record<string, unknown>).boundingBox);
+  if (!region) {
+    if (!('region' in annotation)) return annotation;
+    const { region: _dropped, ...rest } = annotation;
+    return rest as T;
+  }
+  const hasAnchor = typeof annotation.x === 'number' && Number.isFinite(annotation.x)
+    && typeof annotation.y === 'number' && Number.isFinite(annotation.y);
+  return { ...annotation, region, ...(hasAnchor ? {} : regionCenter(region)) };
+}
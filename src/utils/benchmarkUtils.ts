@@ -0,0 +1,29 @@
+/**
+ * Helpers for product tags: screens tagged as our product or as a named competitor
+ */
+
+import type { Json } from '@/integrations/supabase/types';
+import type { ProductTag } from '@/types/ux-analysis';
+
+export const OUR_PRODUCT_KEY = 'ours';
+export const OUR_PRODUCT_NAME = 'Ours';
+
+/**
+ * Stable key of the product a tag points to; competitor names match case-insensitively
+ */
+export function productKey(tag: ProductTag): string {
+  return tag.kind === 'ours' ? OUR_PRODUCT_KEY : `competitor:${(tag.name ?? '').trim().toLowerCase()}`;
+}
+
+export function productName(tag: ProductTag): string {
+  return tag.kind === 'ours' ? OUR_PRODUCT_NAME : (tag.name ?? '').trim();
+}
+
+// images.product_tag
+export function parseProductTag(value: Json | null | undefined): ProductTag | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+  if (value.kind === 'ours') return { kind: 'ours' };
+  return value.kind === 'competitor' && typeof value.name === 'string' && value.name.trim()
+    ? { kind: 'competitor', name: value.name.trim() }
+    : undefined;
+}
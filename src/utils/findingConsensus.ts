@@ -0,0 +1,53 @@
+/**
+ * Finding consensus utilities
+ * Filtering and labels for findings of multi-model analyses (see FindingConsensus)
+ */
+
+import type { FindingConsensus, UXAnalysis } from '@/types/ux-analysis';
+
+export type ConsensusFilter = 'all' | 'agreed' | 'single' | 'review';
+
+export const CONSENSUS_FILTER_LABELS: Record<ConsensusFilter, string> = {
+  all: 'All findings',
+  agreed: 'All models agree',
+  single: 'Single-model findings',
+  review: 'Needs review'
+};
+
+export function isAgreed(consensus: FindingConsensus): boolean {
+  return consensus.modelCount > 1 && consensus.sourceModels.length >= consensus.modelCount;
+}
+
+export function matchesConsensusFilter(finding: { consensus?: FindingConsensus }, filter: ConsensusFilter): boolean {
+  if (filter === 'all') return true;
+  // Findings from single-model analyses have no consensus and only show unfiltered
+  const { consensus } = finding;
+  if (!consensus) return false;
+  switch (filter) {
+    case 'agreed':
+      return isAgreed(consensus);
+    case 'single':
+      return consensus.sourceModels.length === 1;
+    case 'review':
+      return consensus.needsReview;
+  }
+}
+
+export function hasConsensus(analysis: Pick<UXAnalysis, 'suggestions' | 'visualAnnotations'>): boolean {
+  return [...(analysis.suggestions || []), ...(analysis.visualAnnotations || [])].some(finding => !!finding?.consensus);
+}
+
+export function modelLabel(model: string): string {
+  if (model.startsWith('claude')) return 'Claude';
+  if (model.startsWith('gpt')) return model.replace(/^gpt/, 'GPT');
+  return model;
+}
+
+/**
+ * e.g. "GPT-4o: high, Claude: medium"
+ */
+export function describeSeverityByModel(consensus: FindingConsensus): string {
+  return Object.entries(consensus.severityByModel ?? {})
+    .map(([model, severity]) => `${modelLabel(model)}: ${severity}`)
+    .join(', ');
+}
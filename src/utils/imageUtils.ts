@@ -87,4 +87,35 @@ export function getSafeDimensions(
     return fallback;
   }
   return image.dimensions;
-}
\ No newline at end of file
+}
+/**
+ * Images of a group in the group's order (e.g. the pages of an uploaded PDF)
+ * Ids without a loaded image are skipped
+ */
+export function getImagesInGroupOrder<T extends { id: string }>(imageIds: string[], images: T[]): T[] {
+  const byId = new Map(images.map(image => [image.id, image]));
+  return imageIds.flatMap(id => byId.get(id) ?? []);
+}
+
+// Storage and the analysis providers take images up to 10 MB
+const MAX_ENCODED_IMAGE_BYTES = 10 * 1024 * 1024;
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to encode image'))), type, quality);
+  });
+}
+
+/**
+ * Encode a rendered canvas as "<baseName>.png", or as JPEG when the PNG would exceed 10MB
+ * Used for images generated in the browser (PDF pages, recording keyframes)
+ */
+export async function canvasToImageFile(canvas: HTMLCanvasElement, baseName: string): Promise<File> {
+  let blob = await canvasToBlob(canvas, 'image/png');
+  let extension = 'png';
+  if (blob.size > MAX_ENCODED_IMAGE_BYTES) {
+    blob = await canvasToBlob(canvas, 'image/jpeg', 0.9);
+    extension = 'jpg';
+  }
+  return new File([blob], `${baseName}.${extension}`, { type: blob.type });
+}
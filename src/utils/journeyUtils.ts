@@ -0,0 +1,82 @@
+/**
+ * Helpers for journey groups: groups whose images, in group order, are the steps of one user flow
+ */
+
+import type { Json } from '@/integrations/supabase/types';
+import type {
+  GroupJourney,
+  GroupJourneyAnalysis,
+  ImageGroup,
+  JourneyGap,
+  JourneyTransition,
+  JourneyTransitionAnalysis
+} from '@/types/ux-analysis';
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * One transition per pair of consecutive steps, with the stored label of that pair if any
+ */
+export function getJourneyTransitions(group: Pick<ImageGroup, 'imageIds' | 'journey'>): JourneyTransition[] {
+  const labels = new Map(
+    (group.journey?.transitions ?? []).map(t => [`${t.fromImageId}:${t.toImageId}`, t.label])
+  );
+  return group.imageIds.slice(1).map((toImageId, index) => {
+    const fromImageId = group.imageIds[index];
+    const label = labels.get(`${fromImageId}:${toImageId}`)?.trim();
+    return { fromImageId, toImageId, ...(label ? { label } : {}) };
+  });
+}
+
+/**
+ * The stored form of a journey: only the labelled transitions of the current step order
+ */
+export function toGroupJourney(transitions: JourneyTransition[]): GroupJourney {
+  return {
+    transitions: transitions
+      .map(t => ({ ...t, label: t.label?.trim() }))
+      .filter((t): t is JourneyTransition & { label: string } => !!t.label)
+  };
+}
+
+/**
+ * "Step 2 → 3" for a transition
+ */
+export function formatStepPair(fromStep: number | null, toStep: number | null): string {
+  return fromStep === null || toStep === null ? 'Whole journey' : `Step ${fromStep} → ${toStep}`;
+}
+
+// image_groups.journey
+export function parseGroupJourney(value: Json | null | undefined): GroupJourney | undefined {
+  if (!isObject(value) || !Array.isArray(value.transitions)) return undefined;
+  return {
+    transitions: value.transitions.flatMap(t => isObject(t) && typeof t.fromImageId === 'string' && typeof t.toImageId === 'string'
+      ? [{ fromImageId: t.fromImageId, toImageId: t.toImageId, ...(typeof t.label === 'string' ? { label: t.label } : {}) }]
+      : [])
+  };
+}
+
+// group_analyses.metadata.journey, written by group-synthesis for journey groups
+export function parseGroupJourneyAnalysis(metadata: Json | null | undefined): GroupJourneyAnalysis | undefined {
+  const journey = isObject(metadata) ? metadata.journey : undefined;
+  if (!isObject(journey) || !Array.isArray(journey.transitions)) return undefined;
+
+  const step = (value: unknown) => typeof value === 'number' && Number.isFinite(value) ? value : null;
+  const transitions = journey.transitions.flatMap((t): JourneyTransitionAnalysis[] => {
+    if (!isObject(t) || step(t.fromStep) === null || step(t.toStep) === null) return [];
+    return [{
+      fromStep: t.fromStep as number,
+      toStep: t.toStep as number,
+      ...(typeof t.label === 'string' ? { label: t.label } : {}),
+      continuity: typeof t.continuity === 'number' ? t.continuity : 0,
+      lostContext: Array.isArray(t.lostContext) ? t.lostContext.filter((c): c is string => typeof c === 'string') : [],
+      dropOffRisk: t.dropOffRisk === 'high' || t.dropOffRisk === 'medium' ? t.dropOffRisk : 'low',
+      ...(typeof t.dropOffReason === 'string' ? { dropOffReason: t.dropOffReason } : {})
+    }];
+  });
+  const gaps = (Array.isArray(journey.gaps) ? journey.gaps : []).flatMap((g): JourneyGap[] =>
+    isObject(g) && typeof g.text === 'string' ? [{ text: g.text, fromStep: step(g.fromStep), toStep: step(g.toStep) }] : []
+  );
+  return { transitions, gaps };
+}
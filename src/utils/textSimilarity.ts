@@ -0,0 +1,92 @@
+/**
+ * Lightweight semantic similarity for matching findings across analyses.
+ * Uses stopword-filtered, lightly stemmed term vectors compared with cosine similarity,
+ * which is good enough to recognise the same UX issue phrased differently by a model.
+ */
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'could', 'for', 'from', 'has', 'have',
+  'in', 'into', 'is', 'it', 'its', 'may', 'more', 'of', 'on', 'or', 'should', 'so', 'that', 'the',
+  'their', 'this', 'to', 'was', 'were', 'which', 'will', 'with', 'would', 'you', 'your'
+]);
+
+function stem(token: string): string {
+  if (token.length > 5 && token.endsWith('ing')) return token.slice(0, -3);
+  if (token.length > 4 && token.endsWith('ed')) return token.slice(0, -2);
+  if (token.length > 4 && token.endsWith('es')) return token.slice(0, -2);
+  if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) return token.slice(0, -1);
+  return token;
+}
+
+export function tokenize(text: string): string[] {
+  return (text || '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(token => token.length > 1 && !STOPWORDS.has(token))
+    .map(stem);
+}
+
+function termVector(text: string): Map<string, number> {
+  const vector = new Map<string, number>();
+  for (const token of tokenize(text)) {
+    vector.set(token, (vector.get(token) || 0) + 1);
+  }
+  return vector;
+}
+
+/**
+ * Cosine similarity between two texts in the range 0-1
+ */
+export function textSimilarity(a: string, b: string): number {
+  const va = termVector(a);
+  const vb = termVector(b);
+  if (va.size === 0 || vb.size === 0) return 0;
+
+  let dot = 0;
+  va.forEach((count, term) => {
+    dot += count * (vb.get(term) || 0);
+  });
+  const norm = (v: Map<string, number>) => Math.sqrt(Array.from(v.values()).reduce((sum, c) => sum + c * c, 0));
+  return dot / (norm(va) * norm(vb));
+}
+
+export interface SimilarityMatch {
+  previousIndex: number;
+  currentIndex: number;
+  similarity: number;
+}
+
+/**
+ * Greedy one-to-one matching of two lists by similarity, best pairs first.
+ * Pairs below the threshold are left unmatched.
+ */
+export function matchBySimilarity<A, B>(
+  previous: A[],
+  current: B[],
+  score: (a: A, b: B) => number,
+  threshold: number
+): SimilarityMatch[] {
+  const candidates: SimilarityMatch[] = [];
+  previous.forEach((a, previousIndex) => {
+    current.forEach((b, currentIndex) => {
+      const similarity = score(a, b);
+      if (similarity >= threshold) {
+        candidates.push({ previousIndex, currentIndex, similarity });
+      }
+    });
+  });
+
+  candidates.sort((x, y) => y.similarity - x.similarity);
+
+  const usedPrevious = new Set<number>();
+  const usedCurrent = new Set<number>();
+  const matches: SimilarityMatch[] = [];
+  for (const candidate of candidates) {
+    if (usedPrevious.has(candidate.previousIndex) || usedCurrent.has(candidate.currentIndex)) continue;
+    usedPrevious.add(candidate.previousIndex);
+    usedCurrent.add(candidate.currentIndex);
+    matches.push(candidate);
+  }
+  return matches;
+}
@@ -0,0 +1,57 @@
+// Monthly project budgets, checked before a new analysis job is created. The insert triggers on
+// analysis_jobs and group_analysis_jobs enforce the hard cap as well; checking first gives callers a
+// readable 402 and lets them surface the soft-cap warning.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type BudgetCheck = {
+  // Set when the hard cap is reached and the job must not start
+  blocked?: string;
+  // Set when only the soft cap is reached
+  warning?: string;
+};
+
+type BudgetStatusRow = {
+  month_spend_usd: number;
+  soft_cap_usd: number | null;
+  hard_cap_usd: number | null;
+  soft_cap_reached: boolean;
+  hard_cap_reached: boolean;
+};
+
+const usd = (value: number | null) => `$${Number(value ?? 0).toFixed(2)}`;
+
+/**
+ * Check the project's spend this month against its caps. Uses the caller's client so project
+ * membership is enforced; a failed lookup never blocks the job (the insert trigger still does).
+ */
+export async function checkProjectBudget(supabase: SupabaseClient, projectId: string | null | undefined): Promise<BudgetCheck> {
+  if (!projectId) return {};
+  const { data, error } = await supabase
+    .rpc('get_project_budget_status', { _project_id: projectId })
+    .maybeSingle();
+  if (error || !data) {
+    if (error) console.warn('[budget] Budget status lookup failed:', error.message);
+    return {};
+  }
+
+  const status = data as BudgetStatusRow;
+  if (status.hard_cap_reached) {
+    return {
+      blocked: `Monthly budget of ${usd(status.hard_cap_usd)} reached for this project (${usd(status.month_spend_usd)} spent). Raise the budget or wait until next month.`
+    };
+  }
+  if (status.soft_cap_reached) {
+    return {
+      warning: `This project has spent ${usd(status.month_spend_usd)} of its ${usd(status.soft_cap_usd)} monthly soft budget.`
+    };
+  }
+  return {};
+}
+
+/**
+ * The enforce_project_budget trigger rejected the insert
+ */
+export function isBudgetExceededError(error: { code?: string; hint?: string | null } | null | undefined): boolean {
+  return error?.code === '23514' && error?.hint === 'budget_exceeded';
+}
@@ -0,0 +1,125 @@
+// Stage bookkeeping for the event-driven analysis pipelines. Each worker saves its output to
+// worker_ant_results when it completes, so the orchestrators can resume a failed or cancelled job
+// from the first stage without output instead of re-running vision and model calls. Workers also
+// check for cancellation before starting and before committing their output.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type JobKind = 'analysis' | 'group';
+
+type Json = Record<string, unknown>;
+
+const JOB_TABLES: Record<JobKind, string> = {
+  analysis: 'analysis_jobs',
+  group: 'group_analysis_jobs',
+};
+
+const RESULT_COLUMNS: Record<JobKind, string> = {
+  analysis: 'job_id',
+  group: 'group_job_id',
+};
+
+// Workers ux-orchestrator runs, in order: 1) Google Vision (optional), 2) context detection,
+// 3) AI analysis, 4) synthesis. "vision:google" style names keep one row per vision provider.
+export const ANALYSIS_PIPELINE: Array<{ stage: string; worker: string; optional?: boolean }> = [
+  { stage: 'vision:google', worker: 'ux-vision-google', optional: true },
+  { stage: 'context', worker: 'ux-context-detection' },
+  { stage: 'ai', worker: 'ux-ai-analysis' },
+  { stage: 'synthesis', worker: 'ux-synthesis' },
+];
+
+// Pipeline order; the group stages are the ones group-ux-orchestrator runs
+export const PIPELINE_STAGES: Record<JobKind, string[]> = {
+  analysis: ANALYSIS_PIPELINE.map(({ stage }) => stage),
+  group: ['vision:google', 'context', 'ai', 'synthesis'],
+};
+
+/**
+ * The job's stage as shown in current_stage ("vision:google" -> "vision")
+ */
+export function stageLabel(stage: string): string {
+  return stage.split(':')[0];
+}
+
+export async function isJobCancelled(supabase: SupabaseClient, kind: JobKind, jobId: string): Promise<boolean> {
+  const { data } = await supabase.from(JOB_TABLES[kind]).select('status').eq('id', jobId).maybeSingle();
+  return data?.status === 'cancelled';
+}
+
+/**
+ * Completed output of a stage, or null when the stage has not completed for this job
+ */
+export async function loadStageResult<T = Json>(supabase: SupabaseClient, kind: JobKind, jobId: string, stage: string): Promise<T | null> {
+  const { data, error } = await supabase
+    .from('worker_ant_results')
+    .select('result')
+    .eq(RESULT_COLUMNS[kind], jobId)
+    .eq('ant_type', stage)
+    .eq('status', 'completed')
+    .maybeSingle();
+  if (error) {
+    console.warn(`[job-stages] Failed to load ${stage} result:`, error.message);
+    return null;
+  }
+  return (data?.result as T) ?? null;
+}
+
+export async function saveStageResult(
+  supabase: SupabaseClient,
+  kind: JobKind,
+  jobId: string,
+  stage: string,
+  result: unknown,
+  startedAt?: string
+): Promise<void> {
+  const column = RESULT_COLUMNS[kind];
+  const { error } = await supabase.from('worker_ant_results').upsert(
+    {
+      [column]: jobId,
+      ant_type: stage,
+      status: 'completed',
+      result: result ?? null,
+      error: null,
+      started_at: startedAt ?? null,
+      completed_at: new Date().toISOString(),
+    },
+    { onConflict: `${column},ant_type` }
+  );
+  // A missing row only costs a re-run on retry, so the stage itself still succeeds
+  if (error) console.warn(`[job-stages] Failed to save ${stage} result:`, error.message);
+}
+
+export async function completedStages(supabase: SupabaseClient, kind: JobKind, jobId: string): Promise<Set<string>> {
+  const { data } = await supabase
+    .from('worker_ant_results')
+    .select('ant_type')
+    .eq(RESULT_COLUMNS[kind], jobId)
+    .eq('status', 'completed');
+  return new Set((data ?? []).map((row: { ant_type: string }) => row.ant_type));
+}
+
+/**
+ * Forget the outputs of a stage and every stage after it, so a retry re-runs them
+ */
+export async function clearStageResults(supabase: SupabaseClient, kind: JobKind, jobId: string, fromStage: string): Promise<void> {
+  const stages = PIPELINE_STAGES[kind];
+  const index = stages.findIndex(stage => stage === fromStage || stageLabel(stage) === fromStage);
+  if (index === -1) throw new Error(`Unknown stage: ${fromStage}`);
+  const { error } = await supabase
+    .from('worker_ant_results')
+    .delete()
+    .eq(RESULT_COLUMNS[kind], jobId)
+    .in('ant_type', stages.slice(index));
+  if (error) throw new Error(`Failed to clear stage results: ${error.message}`);
+}
+
+/**
+ * Mark the job failed at a stage unless it already failed or was cancelled
+ */
+export async function markJobFailed(supabase: SupabaseClient, kind: JobKind, jobId: string, stage: string, message: string): Promise<void> {
+  await supabase
+    .from(JOB_TABLES[kind])
+    .update({ status: 'failed', current_stage: stageLabel(stage), error: message })
+    .eq('id', jobId)
+    .not('status', 'in', '("failed","cancelled","completed")');
+}
@@ -0,0 +1,221 @@
+// Journey analysis of screen recordings and journey groups. Keyframes extracted from a recording in
+// the browser carry images.metadata.recordingFrame = { recording, timestampMs }; a group made only of
+// the keyframes of one recording runs through the group pipeline in 'journey' mode, where every
+// insight names the frame, and so the timestamp, it came from. Groups the user marked as a journey
+// (image_groups.journey) run in the same mode with their images as ordered steps. Every journey job
+// reviews each step-to-step transition and ties journey gaps to the pair of steps they sit between.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type JourneyFrame = {
+  frame: number; // 1-based, in image_urls order
+  timestampMs: number;
+  imageId: string;
+};
+
+export type JourneyInsight = {
+  text: string;
+  frame: number | null;
+  timestampMs: number | null;
+};
+
+export type JourneyStep = {
+  step: number; // 1-based, in image_urls order
+  imageId: string;
+  label: string | null; // what the user does to reach the next step, e.g. "taps Checkout"
+};
+
+// Mirrors JourneyTransitionAnalysis / JourneyGap in src/types/ux-analysis.ts
+export type JourneyTransitionReview = {
+  fromStep: number;
+  toStep: number;
+  label?: string;
+  continuity: number;
+  lostContext: string[];
+  dropOffRisk: 'low' | 'medium' | 'high';
+  dropOffReason?: string;
+};
+
+export type JourneyGap = {
+  text: string;
+  fromStep: number | null;
+  toStep: number | null;
+};
+
+/**
+ * "1:05" for 65000 ms
+ */
+export function formatTimestamp(ms: number): string {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Image ids of a group in group order
+ */
+export async function loadGroupImageIds(supabase: SupabaseClient, groupId: string): Promise<string[]> {
+  const { data } = await supabase
+    .from('group_images')
+    .select('image_id')
+    .eq('group_id', groupId)
+    .order('position')
+    .order('image_id');
+  return (data ?? []).map((row: { image_id: string }) => row.image_id);
+}
+
+/**
+ * The frames of a journey when every image is a keyframe of the same recording, otherwise null
+ */
+export async function loadJourneyFrames(supabase: SupabaseClient, imageIds: string[]): Promise<JourneyFrame[] | null> {
+  if (imageIds.length < 2) return null;
+
+  type RecordingFrame = { recording?: unknown; timestampMs?: unknown };
+  const { data } = await supabase.from('images').select('id, metadata').in('id', imageIds);
+  const byId = new Map(
+    (data ?? []).map((row: { id: string; metadata: { recordingFrame?: RecordingFrame } | null }) => [row.id, row.metadata?.recordingFrame])
+  );
+
+  const frames: JourneyFrame[] = [];
+  let recording: string | null = null;
+  for (const [index, imageId] of imageIds.entries()) {
+    const frame = byId.get(imageId);
+    if (!frame || typeof frame.timestampMs !== 'number' || typeof frame.recording !== 'string') return null;
+    if (recording !== null && frame.recording !== recording) return null;
+    recording = frame.recording;
+    frames.push({ frame: index + 1, timestampMs: frame.timestampMs, imageId });
+  }
+  return frames;
+}
+
+/**
+ * The steps of a group the user marked as a journey, with the stored transition labels; null for
+ * ordinary groups. imageIds are the analyzed images in step order.
+ */
+export async function loadGroupJourney(
+  supabase: SupabaseClient,
+  groupId: string,
+  imageIds: string[],
+  projectId?: string
+): Promise<JourneyStep[] | null> {
+  if (imageIds.length < 2) return null;
+
+  let query = supabase.from('image_groups').select('journey').eq('id', groupId);
+  if (projectId) query = query.eq('project_id', projectId);
+  const { data } = await query.maybeSingle();
+  const journey = data?.journey as { transitions?: unknown } | null | undefined;
+  if (!journey || typeof journey !== 'object') return null;
+
+  type StoredTransition = { fromImageId?: unknown; toImageId?: unknown; label?: unknown };
+  const labels = new Map(
+    (Array.isArray(journey.transitions) ? journey.transitions as StoredTransition[] : [])
+      .filter(t => t && typeof t.label === 'string' && t.label.trim().length > 0)
+      .map(t => [`${t.fromImageId}:${t.toImageId}`, (t.label as string).trim()])
+  );
+  return imageIds.map((imageId, index) => ({
+    step: index + 1,
+    imageId,
+    label: index < imageIds.length - 1 ? labels.get(`${imageId}:${imageIds[index + 1]}`) ?? null : null,
+  }));
+}
+
+/**
+ * Recording keyframes as journey steps; frames have no transition labels
+ */
+export function framesToSteps(frames: JourneyFrame[]): JourneyStep[] {
+  return frames.map(f => ({ step: f.frame, imageId: f.imageId, label: null }));
+}
+
+/**
+ * "Step 2 → 3" for a transition
+ */
+export function formatStepPair(fromStep: number | null, toStep: number | null): string {
+  return fromStep === null || toStep === null ? 'Whole journey' : `Step ${fromStep} → ${toStep}`;
+}
+
+/**
+ * Prompt lines that list the transitions between steps and what the user does in each
+ */
+export function describeSteps(steps: JourneyStep[]): string {
+  return steps.slice(0, -1)
+    .map(s => `${formatStepPair(s.step, s.step + 1)}${s.label ? `: user ${s.label}` : ''}`)
+    .join('\n');
+}
+
+/**
+ * Prompt lines that tie each frame number to its timestamp
+ */
+export function describeFrames(frames: JourneyFrame[]): string {
+  return frames.map(f => `Frame ${f.frame} at ${formatTimestamp(f.timestampMs)}`).join('\n');
+}
+
+/**
+ * Journey insights as returned by the model ({text, frame} objects or plain strings), with the
+ * timestamp of the frame each one points to
+ */
+export function resolveJourneyInsights(raw: unknown[], frames: JourneyFrame[]): JourneyInsight[] {
+  const byFrame = new Map(frames.map(f => [f.frame, f.timestampMs]));
+  return raw
+    .map(item => {
+      const entry = (item && typeof item === 'object' ? item : {}) as { text?: unknown; insight?: unknown; frame?: unknown };
+      const text = (typeof item === 'string' ? item : String(entry.text ?? entry.insight ?? '')).trim();
+      const frame = Number(entry.frame);
+      const timestampMs = byFrame.get(frame) ?? null;
+      return { text, frame: timestampMs === null ? null : frame, timestampMs };
+    })
+    .filter(insight => insight.text.length > 0);
+}
+
+const clampScore = (value: unknown) => {
+  const n = Number(value);
+  return Number.isFinite(n) ? Math.max(0, Math.min(100, Math.round(n))) : 0;
+};
+
+/**
+ * Transition reviews as returned by the model ({from, to, continuity, lostContext, dropOffRisk,
+ * dropOffReason}), kept only for pairs of consecutive steps, in step order, with the step labels
+ */
+export function resolveTransitions(raw: unknown, steps: JourneyStep[]): JourneyTransitionReview[] {
+  const byPair = new Map<number, Record<string, unknown>>();
+  for (const item of Array.isArray(raw) ? raw : []) {
+    if (!item || typeof item !== 'object') continue;
+    const entry = item as Record<string, unknown>;
+    const from = Number(entry.from ?? entry.fromStep);
+    const to = Number(entry.to ?? entry.toStep);
+    if (Number.isInteger(from) && to === from + 1 && !byPair.has(from)) byPair.set(from, entry);
+  }
+
+  return steps.slice(0, -1).flatMap((step): JourneyTransitionReview[] => {
+    const entry = byPair.get(step.step);
+    if (!entry) return [];
+    const risk = entry.dropOffRisk;
+    const reason = typeof entry.dropOffReason === 'string' ? entry.dropOffReason.trim() : '';
+    return [{
+      fromStep: step.step,
+      toStep: step.step + 1,
+      ...(step.label ? { label: step.label } : {}),
+      continuity: clampScore(entry.continuity),
+      lostContext: (Array.isArray(entry.lostContext) ? entry.lostContext : [])
+        .filter((c): c is string => typeof c === 'string' && c.trim().length > 0),
+      dropOffRisk: risk === 'high' || risk === 'medium' ? risk : 'low',
+      ...(reason ? { dropOffReason: reason } : {}),
+    }];
+  });
+}
+
+/**
+ * Journey gaps as returned by the model ({text, from, to} objects or plain strings); a gap whose
+ * steps are not a valid pair belongs to the whole journey
+ */
+export function resolveJourneyGaps(raw: unknown, steps: JourneyStep[]): JourneyGap[] {
+  const last = steps.length;
+  return (Array.isArray(raw) ? raw : [])
+    .map(item => {
+      const entry = (item && typeof item === 'object' ? item : {}) as { text?: unknown; gap?: unknown; from?: unknown; to?: unknown };
+      const text = (typeof item === 'string' ? item : String(entry.text ?? entry.gap ?? '')).trim();
+      const from = Number(entry.from);
+      const to = Number(entry.to);
+      const valid = Number.isInteger(from) && Number.isInteger(to) && from >= 1 && from < to && to <= last;
+      return { text, fromStep: valid ? from : null, toStep: valid ? to : null };
+    })
+    .filter(gap => gap.text.length > 0);
+}
@@ -0,0 +1,31 @@
+// Persona lens of an AI prompt. Imported by the edge functions and by DynamicPromptBuilder in the app,
+// so it has no imports of its own and the persona runs and the client pipelines use the same text.
+
+export type PersonaTraits = {
+  name: string;
+  description: string | null;
+  age: number | null;
+  techExpertise: string;
+  goals: string[];
+  accessibilityNeeds: string[];
+  constraints: string[];
+};
+
+/**
+ * Who the persona is and how to rate issues for them; callers add their own output format
+ */
+export function buildPersonaPrompt(persona: PersonaTraits): string {
+  const traits = [
+    persona.description && `- Who: ${persona.description}`,
+    persona.age != null && `- Age: ${persona.age}`,
+    `- Technical expertise: ${persona.techExpertise}`,
+    persona.goals.length > 0 && `- Goals: ${persona.goals.join('; ')}`,
+    persona.accessibilityNeeds.length > 0 && `- Accessibility needs: ${persona.accessibilityNeeds.join('; ')}`,
+    persona.constraints.length > 0 && `- Constraints: ${persona.constraints.join('; ')}`,
+  ].filter(Boolean);
+
+  return `End-User Persona: ${persona.name}
+Review the interface strictly through the eyes of this person, not a generic user or the reader of the report:
+${traits.join('\n')}
+Rate every issue by how much it affects THIS persona; an issue that is minor for most users can be severe for them, and the reverse.`;
+}
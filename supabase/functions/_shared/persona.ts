@@ -0,0 +1,91 @@
+// Persona runs: a group job in 'persona' mode reviews its screens through the eyes of one end-user
+// persona of the project (project_personas). start-group-ux-analysis stores a snapshot of the persona
+// on the job, group-ai-analysis builds the persona lens from that snapshot (persona-prompt.ts) and
+// group-synthesis keeps the per-persona findings in group_analyses.metadata.persona, where the
+// persona comparison reads them.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Mirrors EndUserPersona in src/types/ux-analysis.ts
+export type Persona = {
+  id: string;
+  name: string;
+  description: string | null;
+  age: number | null;
+  techExpertise: string;
+  goals: string[];
+  accessibilityNeeds: string[];
+  constraints: string[];
+};
+
+// Mirrors PersonaFinding in src/types/ux-analysis.ts
+export type PersonaFinding = {
+  id: string;
+  title: string;
+  description: string;
+  severity: 'low' | 'medium' | 'high';
+  friction: number;
+  screen: number | null;
+};
+
+/**
+ * Persona of a project by id; null when it does not exist or belongs to another project
+ */
+export async function loadPersona(supabase: SupabaseClient, personaId: string, projectId: string | null): Promise<Persona | null> {
+  const { data } = await supabase
+    .from('project_personas')
+    .select('id,project_id,name,description,age,tech_expertise,goals,accessibility_needs,constraints')
+    .eq('id', personaId)
+    .maybeSingle();
+  if (!data || (projectId && data.project_id !== projectId)) return null;
+
+  return {
+    id: data.id,
+    name: data.name,
+    description: data.description,
+    age: data.age,
+    techExpertise: data.tech_expertise,
+    goals: data.goals ?? [],
+    accessibilityNeeds: data.accessibility_needs ?? [],
+    constraints: data.constraints ?? [],
+  };
+}
+
+const clampScore = (value: unknown) => {
+  const n = Number(value);
+  return Number.isFinite(n) ? Math.max(0, Math.min(100, Math.round(n))) : 0;
+};
+
+/**
+ * Persona findings as returned by the model; screens outside the run belong to the whole flow
+ */
+export function resolvePersonaFindings(raw: unknown, screenCount: number): PersonaFinding[] {
+  return (Array.isArray(raw) ? raw : []).flatMap((item, index): PersonaFinding[] => {
+    if (!item || typeof item !== 'object') return [];
+    const entry = item as Record<string, unknown>;
+    const title = String(entry.title ?? '').trim();
+    const description = String(entry.description ?? '').trim();
+    if (!title && !description) return [];
+
+    const severity = entry.severity === 'high' || entry.severity === 'low' ? entry.severity : 'medium';
+    const screen = Number(entry.screen);
+    return [{
+      id: typeof entry.id === 'string' && entry.id ? entry.id : `finding-${index + 1}`,
+      title: title || description.slice(0, 80),
+      description,
+      severity,
+      friction: clampScore(entry.friction),
+      screen: Number.isInteger(screen) && screen >= 1 && screen <= screenCount ? screen : null,
+    }];
+  });
+}
+
+/**
+ * Overall friction when the model left it out: the friction of the findings, weighted by severity
+ */
+export function deriveFrictionScore(findings: PersonaFinding[]): number {
+  if (findings.length === 0) return 0;
+  const weights = { high: 3, medium: 2, low: 1 };
+  const total = findings.reduce((sum, f) => sum + weights[f.severity], 0);
+  return Math.round(findings.reduce((sum, f) => sum + f.friction * weights[f.severity], 0) / total);
+}
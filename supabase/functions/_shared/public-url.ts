@@ -0,0 +1,64 @@
+// Guard for URLs the edge runtime requests on a user's behalf (API imageUrl downloads, webhook
+// deliveries). Only public https hosts pass: loopback, private, link-local and cloud metadata
+// addresses are refused, also when the DNS answer points at them.
+
+const BLOCKED_HOSTNAMES = new Set(['localhost', 'metadata', 'metadata.google.internal']);
+const BLOCKED_SUFFIXES = ['.localhost', '.local', '.internal'];
+
+function parseIPv4(host: string): number[] | null {
+  const parts = host.split('.');
+  if (parts.length !== 4 || parts.some(part => !/^\d{1,3}$/.test(part))) return null;
+  const octets = parts.map(Number);
+  return octets.every(octet => octet <= 255) ? octets : null;
+}
+
+// 0/8, 10/8, 100.64/10 (carrier NAT), 127/8, 169.254/16 (link-local and metadata), 172.16/12,
+// 192.0.0/24, 192.168/16, 198.18/15 (benchmarking) and everything from multicast up
+function isBlockedIPv4([a, b, c]: number[]): boolean {
+  return a === 0 || a === 10 || a === 127 || a >= 224
+    || (a === 100 && b >= 64 && b <= 127)
+    || (a === 169 && b === 254)
+    || (a === 172 && b >= 16 && b <= 31)
+    || (a === 192 && b === 0 && c === 0)
+    || (a === 192 && b === 168)
+    || (a === 198 && (b === 18 || b === 19));
+}
+
+// Unspecified, loopback, IPv4-mapped, unique local (fc00::/7, includes the fd00:ec2::254 metadata
+// address), link-local (fe80::/10) and multicast
+function isBlockedIPv6(address: string): boolean {
+  const a = address.toLowerCase();
+  if (a === '::' || a === '::1') return true;
+  const mapped = a.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) {
+    const octets = parseIPv4(mapped[1]);
+    return !octets || isBlockedIPv4(octets);
+  }
+  return a.startsWith('::ffff:') || /^f[cd]/.test(a) || /^fe[89ab]/.test(a) || a.startsWith('ff');
+}
+
+const isBlockedAddress = (address: string) => {
+  const octets = parseIPv4(address);
+  return octets ? isBlockedIPv4(octets) : isBlockedIPv6(address);
+};
+
+/**
+ * Whether the URL is https without credentials and its host resolves to public addresses only.
+ * Check every hop: callers must fetch with redirect: 'manual'.
+ */
+export async function isPublicUrl(url: URL): Promise<boolean> {
+  if (url.protocol !== 'https:' || url.username || url.password) return false;
+
+  const host = url.hostname.toLowerCase().replace(/\.$/, '');
+  if (BLOCKED_HOSTNAMES.has(host) || BLOCKED_SUFFIXES.some(suffix => host.endsWith(suffix))) return false;
+
+  // IP literals; URL parsing already normalised decimal and hex IPv4 forms
+  if (host.startsWith('[')) return !isBlockedIPv6(host.slice(1, -1));
+  if (parseIPv4(host)) return !isBlockedAddress(host);
+
+  const answers = await Promise.all(
+    (['A', 'AAAA'] as const).map(type => Deno.resolveDns(host, type).catch(() => [] as string[]))
+  );
+  const addresses = answers.flat();
+  return addresses.length > 0 && !addresses.some(isBlockedAddress);
+}
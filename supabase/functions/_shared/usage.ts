@@ -0,0 +1,157 @@
+// Model usage accounting shared by the edge functions: every provider call records its tokens, latency
+// and computed cost in model_usage against the job, image, project and user. The table's insert trigger
+// fills image, project and user from the job, so callers only pass what they already know.
+
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type UsageContext = {
+  functionName: string;
+  jobId?: string | null;
+  groupJobId?: string | null;
+  imageId?: string | null;
+  projectId?: string | null;
+  userId?: string | null;
+};
+
+export type TokenUsage = {
+  inputTokens: number;
+  outputTokens: number;
+};
+
+export type UsageRecord = Partial<TokenUsage> & {
+  provider: string;
+  model: string;
+  stage?: string;
+  // Share of inputTokens spent on images
+  imageTokens?: number;
+  // Billable units for per-call priced APIs (generated images, Vision features)
+  units?: number;
+  latencyMs?: number;
+};
+
+// USD per million tokens, or per unit for per-call priced APIs
+type ModelPrice = { input?: number; output?: number; perUnit?: number };
+
+const MODEL_PRICING: Record<string, ModelPrice> = {
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'claude-opus-4': { input: 15, output: 75 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-opus': { input: 15, output: 75 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'llama-3.1-sonar-small': { input: 0.2, output: 0.2 },
+  'google-vision': { perUnit: 0.0015 },
+  'stable-diffusion-v1-6': { perUnit: 0.01 },
+  'sd3': { perUnit: 0.065 },
+  'stable-image-inpaint': { perUnit: 0.03 },
+  'mock': {}
+};
+
+// Vision APIs bill images as input tokens without reporting them separately; typical
+// high-detail screenshot costs, used to estimate image_tokens
+const IMAGE_TOKENS_PER_IMAGE: Record<string, number> = {
+  openai: 765,
+  anthropic: 1600,
+  gemini: 258
+};
+
+/**
+ * Longest-prefix match so dated and suffixed model ids ("gpt-4o-2024-08-06") find their price
+ */
+function priceFor(model: string): ModelPrice | null {
+  let best: string | null = null;
+  for (const key of Object.keys(MODEL_PRICING)) {
+    if (model.startsWith(key) && (!best || key.length > best.length)) best = key;
+  }
+  return best ? MODEL_PRICING[best] : null;
+}
+
+export function computeCost(model: string, usage: Pick<UsageRecord, 'inputTokens' | 'outputTokens' | 'units'>): number {
+  const price = priceFor(model);
+  if (!price) return 0;
+  const cost =
+    ((usage.inputTokens ?? 0) * (price.input ?? 0) + (usage.outputTokens ?? 0) * (price.output ?? 0)) / 1_000_000 +
+    (usage.units ?? 0) * (price.perUnit ?? 0);
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
+
+export function estimateImageTokens(provider: string, imageCount: number): number {
+  return (IMAGE_TOKENS_PER_IMAGE[provider] ?? 0) * imageCount;
+}
+
+type ResponseBody = { usage?: Record<string, unknown> } | null | undefined;
+
+function count(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+}
+
+// OpenAI and OpenAI-compatible Chat Completions
+export function openAIUsage(data: ResponseBody): TokenUsage {
+  return { inputTokens: count(data?.usage?.prompt_tokens), outputTokens: count(data?.usage?.completion_tokens) };
+}
+
+// Anthropic Messages
+export function anthropicUsage(data: ResponseBody): TokenUsage {
+  return { inputTokens: count(data?.usage?.input_tokens), outputTokens: count(data?.usage?.output_tokens) };
+}
+
+let adminClient: SupabaseClient | null = null;
+
+function getUsageClient(): SupabaseClient | null {
+  if (adminClient) return adminClient;
+  const url = Deno.env.get("SUPABASE_URL");
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!url || !serviceKey) return null;
+  adminClient = createClient(url, serviceKey, { auth: { persistSession: false } });
+  return adminClient;
+}
+
+/**
+ * The signed-in caller for functions invoked directly from the app, so usage without a job is still
+ * attributed to a user. Null for service-role and anonymous calls.
+ */
+export async function requestUserId(req: Request): Promise<string | null> {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  const supabase = getUsageClient();
+  if (!token || !supabase) return null;
+  try {
+    const { data } = await supabase.auth.getUser(token);
+    return data?.user?.id ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Record one provider call. Accounting never fails the analysis: errors are only logged.
+ */
+export async function recordUsage(context: UsageContext, record: UsageRecord): Promise<void> {
+  try {
+    const supabase = getUsageClient();
+    if (!supabase) return;
+    const { error } = await supabase.from('model_usage').insert({
+      function_name: context.functionName,
+      job_id: context.jobId ?? null,
+      group_job_id: context.groupJobId ?? null,
+      image_id: context.imageId ?? null,
+      project_id: context.projectId ?? null,
+      user_id: context.userId ?? null,
+      stage: record.stage ?? null,
+      provider: record.provider,
+      model: record.model,
+      input_tokens: record.inputTokens ?? 0,
+      output_tokens: record.outputTokens ?? 0,
+      image_tokens: Math.min(record.imageTokens ?? 0, record.inputTokens ?? 0),
+      units: record.units ?? 0,
+      latency_ms: record.latencyMs != null ? Math.round(record.latencyMs) : null,
+      cost_usd: computeCost(record.model, record),
+    });
+    if (error) console.warn(`[usage] Failed to record ${record.model} usage:`, error.message);
+  } catch (err) {
+    console.warn('[usage] Failed to record usage:', err);
+  }
+}
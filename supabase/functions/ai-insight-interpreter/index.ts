@@ -1,6 +1,7 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.52.1';
+import { anthropicUsage, openAIUsage, recordUsage, requestUserId, type UsageContext } from '../_shared/usage.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -28,6 +29,7 @@ interface InterpreterRequest {
   analysisContext?: any;
   userContext?: string;
   imageUrl?: string;
+  imageId?: string;
 }
 
 interface InterpretedInsight {
@@ -147,13 +149,14 @@ Focus on quality over quantity. Better to have fewer, highly relevant insights t
 /**
  * Execute interpretation with OpenAI
  */
-async function interpretWithOpenAI(prompt: string): Promise<any> {
+async function interpretWithOpenAI(prompt: string, usage: UsageContext): Promise<any> {
   try {
     const openaiKey = Deno.env.get('OPENAI_API_KEY');
     if (!openaiKey) {
       throw new Error('OpenAI API key not configured');
     }
 
+    const startedAt = Date.now();
     const response = await fetch('https://api.openai.com/v1/chat/completions', {
       method: 'POST',
       headers: {
@@ -183,6 +186,7 @@ async function interpretWithOpenAI(prompt: string): Promise<any> {
     }
 
     const data = await response.json();
+    await recordUsage(usage, { provider: 'openai', model: 'gpt-4.1-2025-04-14', stage: 'interpretation', ...openAIUsage(data), latencyMs: Date.now() - startedAt });
     return JSON.parse(data.choices[0].message.content);
   } catch (error) {
     console.error('OpenAI interpretation error:', error);
@@ -193,13 +197,14 @@ async function interpretWithOpenAI(prompt: string): Promise<any> {
 /**
  * Execute interpretation with Claude
  */
-async function interpretWithClaude(prompt: string): Promise<any> {
+async function interpretWithClaude(prompt: string, usage: UsageContext): Promise<any> {
   try {
     const anthropicKey = Deno.env.get('ANTHROPIC_API_KEY');
     if (!anthropicKey) {
       throw new Error('Anthropic API key not configured');
     }
 
+    const startedAt = Date.now();
     const response = await fetch('https://api.anthropic.com/v1/messages', {
       method: 'POST',
       headers: {
@@ -225,6 +230,7 @@ async function interpretWithClaude(prompt: string): Promise<any> {
     }
 
     const data = await response.json();
+    await recordUsage(usage, { provider: 'anthropic', model: 'claude-sonnet-4-20250514', stage: 'interpretation', ...anthropicUsage(data), latencyMs: Date.now() - startedAt });
     const responseText = data.content[0].text;
     
     // Extract JSON from response
@@ -290,7 +296,8 @@ serve(async (req) => {
 
   try {
     const requestData: InterpreterRequest = await req.json();
-    const { rawResponses, analysisContext, userContext } = requestData;
+    const { rawResponses, analysisContext, userContext, imageId } = requestData;
+    const usage: UsageContext = { functionName: 'ai-insight-interpreter', imageId: imageId ?? null, userId: await requestUserId(req) };
 
     if (!rawResponses || !Array.isArray(rawResponses)) {
       return new Response(
@@ -328,14 +335,14 @@ serve(async (req) => {
     // Try OpenAI first, then Claude as fallback
     try {
       console.log('🧠 Using OpenAI for interpretation...');
-      interpretedResult = await interpretWithOpenAI(interpreterPrompt);
+      interpretedResult = await interpretWithOpenAI(interpreterPrompt, usage);
       interpreterUsed = 'openai';
     } catch (openaiError) {
       console.warn('⚠️ OpenAI interpretation failed, trying Claude:', openaiError.message);
       
       try {
         console.log('🧠 Using Claude for interpretation...');
-        interpretedResult = await interpretWithClaude(interpreterPrompt);
+        interpretedResult = await interpretWithClaude(interpreterPrompt, usage);
         interpreterUsed = 'claude';
       } catch (claudeError) {
         console.error('❌ Both interpretation models failed:', {
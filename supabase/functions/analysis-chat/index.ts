@@ -0,0 +1,275 @@
+import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { estimateImageTokens, openAIUsage, recordUsage } from "../_shared/usage.ts";
+
+const corsHeaders: HeadersInit = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+type ChatRole = 'user' | 'assistant';
+
+type ChatMessage = {
+  role: ChatRole;
+  content: string;
+};
+
+type AnalysisGrounding = {
+  analysisId: string;
+  imageId?: string;
+  imageName?: string;
+  imageUrl?: string;
+  userContext?: string;
+  visualAnnotations?: Array<Record<string, unknown>>;
+  suggestions?: Array<Record<string, unknown>>;
+  summary?: Record<string, unknown>;
+  analysisContext?: Record<string, unknown> | null;
+};
+
+// Keep the conversation bounded so long threads don't blow past the context window
+const MAX_HISTORY_MESSAGES = 20;
+
+const asRecords = (value: unknown) =>
+  (Array.isArray(value) ? value : []).filter((v): v is Record<string, unknown> => !!v && typeof v === 'object');
+
+/**
+ * The stored analysis, read with the caller's JWT so RLS and has_analysis_role decide access;
+ * null when it does not exist or the caller cannot see it
+ */
+async function loadGrounding(userClient: SupabaseClient, analysisId: string): Promise<AnalysisGrounding | null> {
+  const { data: allowed } = await userClient.rpc('has_analysis_role', { _analysis_id: analysisId, _min_role: 'viewer' });
+  if (!allowed) return null;
+
+  const { data: row } = await userClient
+    .from('ux_analyses')
+    .select('id, image_id, user_context, visual_annotations, suggestions, summary, metadata')
+    .eq('id', analysisId)
+    .maybeSingle();
+  if (!row) return null;
+
+  const { data: image } = row.image_id
+    ? await userClient.from('images').select('original_name, storage_path').eq('id', row.image_id).maybeSingle()
+    : { data: null };
+  const metadata = (row.metadata && typeof row.metadata === 'object' ? row.metadata : {}) as Record<string, unknown>;
+
+  return {
+    analysisId: row.id,
+    imageId: row.image_id ?? undefined,
+    imageName: image?.original_name,
+    imageUrl: image?.storage_path
+      ? userClient.storage.from('images').getPublicUrl(image.storage_path).data.publicUrl
+      : undefined,
+    userContext: row.user_context ?? undefined,
+    visualAnnotations: asRecords(row.visual_annotations),
+    suggestions: asRecords(row.suggestions),
+    summary: (row.summary && typeof row.summary === 'object' ? row.summary : {}) as Record<string, unknown>,
+    analysisContext: (metadata.context ?? null) as Record<string, unknown> | null,
+  };
+}
+
+function buildSystemPrompt(analysis: AnalysisGrounding): string {
+  const annotations = (analysis.visualAnnotations ?? []).map((a, i) => ({
+    index: i + 1,
+    id: a.id,
+    type: a.type,
+    severity: a.severity,
+    title: a.title,
+    description: a.description,
+    position: { x: a.x, y: a.y },
+  }));
+  const suggestions = (analysis.suggestions ?? []).map((s, i) => ({
+    number: i + 1,
+    id: s.id,
+    category: s.category,
+    title: s.title,
+    description: s.description,
+    impact: s.impact,
+    effort: s.effort,
+    actionItems: s.actionItems,
+    relatedAnnotations: s.relatedAnnotations,
+  }));
+
+  return [
+    'You are a senior UX analyst answering follow-up questions about a UX analysis you already produced for the attached screenshot.',
+    'Ground every answer in the stored findings below and in the screenshot. Refer to annotations and suggestions by their number and title.',
+    'If the user asks you to rewrite or reframe a finding, keep its substance and adapt it to the requested audience. If a question cannot be answered from the screenshot or findings, say so instead of guessing.',
+    'Answer in concise Markdown.',
+    '',
+    `Image: ${analysis.imageName ?? 'unknown'}`,
+    analysis.userContext ? `Original user context: ${analysis.userContext}` : '',
+    `Summary: ${JSON.stringify(analysis.summary ?? {})}`,
+    `Analysis context: ${JSON.stringify(analysis.analysisContext ?? {})}`,
+    `Visual annotations: ${JSON.stringify(annotations)}`,
+    `Suggestions: ${JSON.stringify(suggestions)}`,
+  ].filter(Boolean).join('\n');
+}
+
+function toOpenAIMessages(analysis: AnalysisGrounding, history: ChatMessage[]) {
+  const trimmed = history.slice(-MAX_HISTORY_MESSAGES);
+  const firstUserIndex = trimmed.findIndex(m => m.role === 'user');
+
+  return [
+    { role: 'system', content: buildSystemPrompt(analysis) },
+    ...trimmed.map((m, i) => {
+      // Attach the screenshot to the first user turn so the model can see what is being discussed
+      if (i === firstUserIndex && analysis.imageUrl) {
+        return {
+          role: 'user',
+          content: [
+            { type: 'text', text: m.content },
+            { type: 'image_url', image_url: { url: analysis.imageUrl, detail: 'high' } },
+          ],
+        };
+      }
+      return { role: m.role, content: m.content };
+    }),
+  ];
+}
+
+// Re-emit OpenAI's SSE stream as `data: {"delta": "..."}` events followed by `data: [DONE]`;
+// the final usage chunk is handed to onUsage instead of the client
+function relayStream(
+  upstream: ReadableStream<Uint8Array>,
+  onUsage: (data: { usage?: Record<string, unknown> }) => Promise<void>
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let usageChunk: { usage?: Record<string, unknown> } | null = null;
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const reader = upstream.getReader();
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          buffer += decoder.decode(value, { stream: true });
+
+          const lines = buffer.split('\n');
+          buffer = lines.pop() ?? '';
+          for (const line of lines) {
+            const trimmed = line.trim();
+            if (!trimmed.startsWith('data:')) continue;
+            const payload = trimmed.slice(5).trim();
+            if (payload === '[DONE]') continue;
+            try {
+              const chunk = JSON.parse(payload);
+              if (chunk.usage) usageChunk = chunk;
+              const delta = chunk.choices?.[0]?.delta?.content;
+              if (delta) {
+                controller.enqueue(encoder.encode(`data: ${JSON.stringify({ delta })}\n\n`));
+              }
+            } catch {
+              // Partial or keep-alive line; ignore
+            }
+          }
+        }
+        controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+        if (usageChunk) await onUsage(usageChunk);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Stream interrupted';
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify({ error: message })}\n\n`));
+      } finally {
+        controller.close();
+      }
+    },
+  });
+}
+
+serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const supabaseAnon = Deno.env.get("SUPABASE_ANON_KEY");
+  if (!supabaseUrl || !supabaseAnon) {
+    return Response.json({ error: "Supabase URL/Anon key not configured" }, { status: 500, headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== "POST") {
+      return Response.json({ error: "Method not allowed" }, { status: 405, headers: corsHeaders });
+    }
+
+    const authHeader = req.headers.get("Authorization") ?? "";
+    const jwt = authHeader.startsWith("Bearer ") ? authHeader.slice(7) : undefined;
+    const userClient = createClient(supabaseUrl, supabaseAnon, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const { data: userData, error: userErr } = await userClient.auth.getUser(jwt);
+    if (userErr || !userData?.user?.id) {
+      return Response.json({ error: "Unauthorized: invalid or missing JWT" }, { status: 401, headers: corsHeaders });
+    }
+    const userId = userData.user.id;
+
+    const body = await req.json().catch(() => ({} as Record<string, unknown>));
+    const analysisId = typeof body.analysisId === 'string' ? body.analysisId : '';
+    const messages: ChatMessage[] = Array.isArray(body.messages) ? body.messages : [];
+
+    if (!analysisId) {
+      return Response.json({ error: "analysisId is required" }, { status: 400, headers: corsHeaders });
+    }
+
+    const history = messages.filter(
+      m => (m?.role === 'user' || m?.role === 'assistant') && typeof m.content === 'string' && m.content.trim()
+    );
+    if (history.length === 0 || history[history.length - 1].role !== 'user') {
+      return Response.json({ error: "messages must end with a user message" }, { status: 400, headers: corsHeaders });
+    }
+
+    // Ground the chat in the stored analysis, never in findings sent by the client
+    const analysis = await loadGrounding(userClient, analysisId);
+    if (!analysis) {
+      return Response.json({ error: "Analysis not found" }, { status: 404, headers: corsHeaders });
+    }
+
+    const openAiKey = Deno.env.get("OPENAI_API_KEY");
+    if (!openAiKey) {
+      return Response.json({ error: "OPENAI_API_KEY not configured" }, { status: 500, headers: corsHeaders });
+    }
+
+    const startedAt = Date.now();
+    const upstream = await fetch('https://api.openai.com/v1/chat/completions', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${openAiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: 'gpt-4o',
+        messages: toOpenAIMessages(analysis, history),
+        max_tokens: 1200,
+        temperature: 0.3,
+        stream: true,
+        stream_options: { include_usage: true },
+      }),
+    });
+
+    if (!upstream.ok || !upstream.body) {
+      const errorText = await upstream.text().catch(() => '');
+      console.error('[analysis-chat] OpenAI error', upstream.status, errorText);
+      return Response.json({ error: `OpenAI API error: ${upstream.status}` }, { status: 502, headers: corsHeaders });
+    }
+
+    const hasImage = !!analysis.imageUrl;
+    const stream = relayStream(upstream.body, (data) => recordUsage(
+      { functionName: 'analysis-chat', imageId: analysis.imageId ?? null, userId },
+      { provider: 'openai', model: 'gpt-4o', stage: 'chat', ...openAIUsage(data), imageTokens: estimateImageTokens('openai', hasImage ? 1 : 0), latencyMs: Date.now() - startedAt }
+    ));
+
+    return new Response(stream, {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+      },
+    });
+  } catch (err) {
+    console.error('analysis-chat fatal', err);
+    return Response.json({ error: err instanceof Error ? err.message : 'Unknown error' }, { status: 500, headers: corsHeaders });
+  }
+});
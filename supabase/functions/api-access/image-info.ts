@@ -0,0 +1,68 @@
+// Content type and pixel size of uploaded images, read from the file header so API uploads get the
+// same images.dimensions as uploads from the app without decoding the image.
+
+export type ImageInfo = {
+  contentType: 'image/png' | 'image/jpeg' | 'image/gif' | 'image/webp';
+  extension: string;
+  width: number | null;
+  height: number | null;
+};
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+function jpegSize(bytes: Uint8Array, view: DataView): { width: number; height: number } | null {
+  let offset = 2;
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+    const marker = bytes[offset + 1];
+    // SOF0-SOF15 carry the frame size, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { height: view.getUint16(offset + 5), width: view.getUint16(offset + 7) };
+    }
+    offset += 2 + view.getUint16(offset + 2);
+  }
+  return null;
+}
+
+function webpSize(bytes: Uint8Array, view: DataView): { width: number; height: number } | null {
+  const chunk = ascii(bytes, 12, 4);
+  if (chunk === 'VP8 ' && bytes.length >= 30) {
+    return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+  }
+  if (chunk === 'VP8L' && bytes.length >= 25) {
+    const bits = view.getUint32(21, true);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+  }
+  if (chunk === 'VP8X' && bytes.length >= 30) {
+    const width = 1 + (bytes[24] | (bytes[25] << 8) | (bytes[26] << 16));
+    const height = 1 + (bytes[27] | (bytes[28] << 8) | (bytes[29] << 16));
+    return { width, height };
+  }
+  return null;
+}
+
+/**
+ * Null when the bytes are not a PNG, JPEG, GIF or WebP image
+ */
+export function readImageInfo(bytes: Uint8Array): ImageInfo | null {
+  if (bytes.length < 16) return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  if (bytes[0] === 0x89 && ascii(bytes, 1, 3) === 'PNG') {
+    const size = bytes.length >= 24 ? { width: view.getUint32(16), height: view.getUint32(20) } : null;
+    return { contentType: 'image/png', extension: 'png', width: size?.width ?? null, height: size?.height ?? null };
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    const size = jpegSize(bytes, view);
+    return { contentType: 'image/jpeg', extension: 'jpg', width: size?.width ?? null, height: size?.height ?? null };
+  }
+  if (ascii(bytes, 0, 4) === 'GIF8') {
+    return { contentType: 'image/gif', extension: 'gif', width: view.getUint16(6, true), height: view.getUint16(8, true) };
+  }
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') {
+    const size = webpSize(bytes, view);
+    return { contentType: 'image/webp', extension: 'webp', width: size?.width ?? null, height: size?.height ?? null };
+  }
+  return null;
+}
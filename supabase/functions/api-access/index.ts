@@ -0,0 +1,554 @@
+import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { isBudgetExceededError } from "../_shared/budget.ts";
+import { loadStageResult } from "../_shared/job-stages.ts";
+import { framesToSteps, loadGroupJourney, loadJourneyFrames } from "../_shared/journey.ts";
+import { readImageInfo } from "./image-info.ts";
+import { buildOpenApiDocument } from "./openapi.ts";
+import { fetchRemoteImage, RemoteImageError } from "./remote-image.ts";
+
+// Public, versioned REST API authenticated with the keys users create in the API Access panel
+// (api_keys). Every call with a valid key is rate limited through check_rate_limit against the key's
+// hourly rate_limit and logged to api_logs. Queries run with the service role, so every route scopes
+// its reads and writes to what the key's owner can access in the app.
+
+const corsHeaders: HeadersInit = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-api-key, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+};
+
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+const MAX_GROUP_IMAGES = 20;
+
+type ApiKey = {
+  id: string;
+  user_id: string;
+  key_name: string;
+  rate_limit: number;
+  requests_made: number;
+  expires_at: string | null;
+  is_active: boolean;
+};
+
+type Role = 'owner' | 'editor' | 'commenter' | 'viewer';
+
+const ROLE_RANK: Record<Role, number> = { owner: 4, editor: 3, commenter: 2, viewer: 1 };
+
+type Ctx = {
+  supabase: SupabaseClient;
+  key: ApiKey;
+  req: Request;
+  url: URL;
+  baseUrl: string;
+  params: Record<string, string>;
+};
+
+class ApiError extends Error {
+  constructor(public status: number, message: string, public code = 'error') {
+    super(message);
+  }
+}
+
+const json = (body: unknown, status = 200) => Response.json(body, { status, headers: corsHeaders });
+
+function getAdminClient() {
+  const url = Deno.env.get("SUPABASE_URL");
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!url || !serviceKey) {
+    throw new Error("Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY in Edge Function secrets");
+  }
+  return createClient(url, serviceKey, { auth: { persistSession: false } });
+}
+
+function readApiKey(req: Request): string | null {
+  const header = req.headers.get("x-api-key");
+  if (header) return header.trim();
+  // Also accept "Authorization: Bearer uxap_..." for clients that only set bearer tokens
+  const bearer = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "");
+  return bearer?.startsWith("uxap_") ? bearer : null;
+}
+
+async function authenticate(supabase: SupabaseClient, rawKey: string | null): Promise<ApiKey> {
+  if (!rawKey) throw new ApiError(401, "Missing API key: send it in the x-api-key header", "unauthorized");
+  const { data: key } = await supabase
+    .from("api_keys")
+    .select("id,user_id,key_name,rate_limit,requests_made,expires_at,is_active")
+    .eq("api_key", rawKey)
+    .maybeSingle<ApiKey>();
+  if (!key) throw new ApiError(401, "Invalid API key", "unauthorized");
+  if (!key.is_active) throw new ApiError(401, "API key is inactive", "unauthorized");
+  if (key.expires_at && new Date(key.expires_at) < new Date()) throw new ApiError(401, "API key has expired", "unauthorized");
+  return key;
+}
+
+// Role of the key's owner in the project's workspace; the creator of a legacy project without a
+// workspace is its owner, a creator who left the project's workspace has no access
+async function projectRole(ctx: Ctx, projectId: string): Promise<{ project: { id: string; workspace_id: string | null }; role: Role } | null> {
+  const { data: project } = await ctx.supabase
+    .from("projects")
+    .select("id,user_id,workspace_id")
+    .eq("id", projectId)
+    .maybeSingle();
+  if (!project) return null;
+
+  if (project.workspace_id) {
+    const { data: member } = await ctx.supabase
+      .from("workspace_members")
+      .select("role")
+      .eq("workspace_id", project.workspace_id)
+      .eq("user_id", ctx.key.user_id)
+      .maybeSingle();
+    return member?.role && member.role in ROLE_RANK ? { project, role: member.role as Role } : null;
+  }
+  return project.user_id === ctx.key.user_id ? { project, role: "owner" } : null;
+}
+
+async function requireProject(ctx: Ctx, projectId: unknown, minRole: Role) {
+  if (typeof projectId !== "string" || !projectId) throw new ApiError(400, "projectId is required", "invalid_request");
+  const access = await projectRole(ctx, projectId);
+  if (!access) throw new ApiError(404, "Project not found", "not_found");
+  if (ROLE_RANK[access.role] < ROLE_RANK[minRole]) {
+    throw new ApiError(403, `This action needs the ${minRole} role on the project`, "forbidden");
+  }
+  return access;
+}
+
+// Jobs are visible to viewers of the job's project; a job without a project only to its creator
+async function canReadJob(ctx: Ctx, job: { user_id: string | null; project_id: string | null }) {
+  if (job.project_id) return !!(await projectRole(ctx, job.project_id));
+  return job.user_id === ctx.key.user_id;
+}
+
+const publicImageUrl = (supabase: SupabaseClient, path: string) =>
+  supabase.storage.from("images").getPublicUrl(path).data.publicUrl;
+
+const toJob = (job: Record<string, unknown>) => ({
+  id: job.id,
+  status: job.status,
+  stage: job.current_stage ?? null,
+  progress: job.progress ?? 0,
+  error: job.error ?? null,
+  createdAt: job.created_at ?? null,
+  completedAt: job.completed_at ?? null,
+});
+
+// ---------------------------------------------------------------------------
+// Routes
+// ---------------------------------------------------------------------------
+
+async function getStatus(ctx: Ctx) {
+  return json({
+    keyName: ctx.key.key_name,
+    rateLimitPerHour: ctx.key.rate_limit,
+    requestsMade: ctx.key.requests_made + 1,
+    expiresAt: ctx.key.expires_at,
+  });
+}
+
+async function listProjects(ctx: Ctx) {
+  const { data: memberships } = await ctx.supabase
+    .from("workspace_members")
+    .select("workspace_id, role")
+    .eq("user_id", ctx.key.user_id);
+  const roles = new Map<string, Role>((memberships ?? []).map(m => [m.workspace_id, m.role as Role]));
+
+  // Same rules as projectRole: workspace projects by membership, legacy projects by creator
+  const filters = [`and(user_id.eq.${ctx.key.user_id},workspace_id.is.null)`];
+  if (roles.size > 0) filters.push(`workspace_id.in.(${[...roles.keys()].join(",")})`);
+  const { data, error } = await ctx.supabase
+    .from("projects")
+    .select("id,name,description,user_id,workspace_id,created_at")
+    .or(filters.join(","))
+    .order("created_at", { ascending: false });
+  if (error) throw new ApiError(500, error.message);
+
+  return json({
+    projects: (data ?? []).map(p => ({
+      id: p.id,
+      name: p.name,
+      description: p.description,
+      role: p.workspace_id ? roles.get(p.workspace_id) : "owner",
+      createdAt: p.created_at,
+    })),
+  });
+}
+
+async function listProjectImages(ctx: Ctx) {
+  await requireProject(ctx, ctx.params.projectId, "viewer");
+  const limit = Math.min(100, Math.max(1, Number(ctx.url.searchParams.get("limit")) || 50));
+  const offset = Math.max(0, Number(ctx.url.searchParams.get("offset")) || 0);
+
+  const { data, error } = await ctx.supabase
+    .from("images")
+    .select("id,original_name,storage_path,dimensions,uploaded_at")
+    .eq("project_id", ctx.params.projectId)
+    .order("uploaded_at", { ascending: false })
+    .range(offset, offset + limit - 1);
+  if (error) throw new ApiError(500, error.message);
+
+  return json({
+    images: (data ?? []).map(img => {
+      const dims = (img.dimensions ?? {}) as { width?: number; height?: number };
+      return {
+        id: img.id,
+        name: img.original_name,
+        url: publicImageUrl(ctx.supabase, img.storage_path),
+        width: dims.width ?? null,
+        height: dims.height ?? null,
+        uploadedAt: img.uploaded_at,
+      };
+    }),
+  });
+}
+
+// The request fields come first so the caller can authorize them before a remote image is downloaded
+async function readImageInput(ctx: Ctx): Promise<{
+  fields: Record<string, string>;
+  loadImage: () => Promise<{ bytes: Uint8Array; name: string }>;
+}> {
+  const contentType = ctx.req.headers.get("content-type") ?? "";
+
+  if (contentType.startsWith("multipart/form-data")) {
+    const form = await ctx.req.formData();
+    const file = form.get("image");
+    if (!(file instanceof File)) throw new ApiError(400, 'Multipart requests need an "image" file field', "invalid_request");
+    if (file.size > MAX_IMAGE_BYTES) throw new ApiError(413, "Image is larger than 10 MB", "payload_too_large");
+    const fields: Record<string, string> = {};
+    for (const [name, value] of form.entries()) if (typeof value === "string") fields[name] = value;
+    return { fields, loadImage: async () => ({ bytes: new Uint8Array(await file.arrayBuffer()), name: file.name || "upload" }) };
+  }
+
+  const body = await ctx.req.json().catch(() => null) as Record<string, unknown> | null;
+  if (!body) throw new ApiError(400, "Send a JSON body with imageUrl, or a multipart upload", "invalid_request");
+  const imageUrl = typeof body.imageUrl === "string" ? body.imageUrl : "";
+  const fields: Record<string, string> = {};
+  for (const [name, value] of Object.entries(body)) if (typeof value === "string") fields[name] = value;
+
+  const loadImage = async () => {
+    // One message for every download failure so the API cannot be used to probe other hosts
+    const bytes = await fetchRemoteImage(imageUrl, MAX_IMAGE_BYTES).catch((err) => {
+      if (err instanceof RemoteImageError && err.reason === "invalid_url") {
+        throw new ApiError(400, "imageUrl must be a public https URL", "invalid_request");
+      }
+      if (err instanceof RemoteImageError && err.reason === "too_large") {
+        throw new ApiError(413, "Image is larger than 10 MB", "payload_too_large");
+      }
+      throw new ApiError(400, "Could not download imageUrl", "invalid_request");
+    });
+    const name = fields.imageName || decodeURIComponent(new URL(imageUrl).pathname.split("/").pop() || "") || "image";
+    return { bytes, name };
+  };
+  return { fields, loadImage };
+}
+
+async function createAnalysis(ctx: Ctx) {
+  const { fields, loadImage } = await readImageInput(ctx);
+  const { project } = await requireProject(ctx, fields.projectId, "editor");
+  const { bytes, name } = await loadImage();
+  const info = readImageInfo(bytes);
+  if (!info) throw new ApiError(400, "Unsupported image: send a PNG, JPEG, GIF or WebP", "invalid_request");
+
+  // Same storage layout as uploads from the app
+  const userId = ctx.key.user_id;
+  const imageId = crypto.randomUUID();
+  const storagePath = `${userId}/${imageId}/${imageId}_${Date.now()}.${info.extension}`;
+  const { error: uploadErr } = await ctx.supabase.storage
+    .from("images")
+    .upload(storagePath, bytes, { contentType: info.contentType, cacheControl: "3600", upsert: false });
+  if (uploadErr) throw new ApiError(500, `Image upload failed: ${uploadErr.message}`);
+
+  const { error: imageErr } = await ctx.supabase.from("images").insert({
+    id: imageId,
+    project_id: project.id,
+    filename: storagePath.split("/").pop(),
+    original_name: name,
+    storage_path: storagePath,
+    file_size: bytes.length,
+    file_type: info.contentType,
+    dimensions: info.width && info.height ? { width: info.width, height: info.height } : {},
+    metadata: { source: "api", apiKeyId: ctx.key.id },
+  });
+  if (imageErr) throw new ApiError(500, `Failed to save image: ${imageErr.message}`);
+
+  const imageUrl = publicImageUrl(ctx.supabase, storagePath);
+  const { data: job, error: jobErr } = await ctx.supabase
+    .from("analysis_jobs")
+    .insert({
+      user_id: userId,
+      image_id: imageId,
+      image_url: imageUrl,
+      project_id: project.id,
+      user_context: fields.userContext || null,
+      status: "processing",
+      progress: 0,
+      current_stage: "queued",
+      metadata: { dispatchMode: "direct", source: "api", apiKeyId: ctx.key.id },
+    })
+    .select("id")
+    .single();
+  if (isBudgetExceededError(jobErr)) throw new ApiError(402, jobErr!.message, "budget_exceeded");
+  if (jobErr || !job) throw new ApiError(500, `Failed to create job: ${jobErr?.message ?? "unknown"}`);
+
+  const { error: orkErr } = await ctx.supabase.functions.invoke("ux-orchestrator", { body: { jobId: job.id } });
+  if (orkErr) {
+    await ctx.supabase.from("analysis_jobs").update({ status: "failed", error: `Orchestrator error: ${orkErr.message ?? "unknown"}` }).eq("id", job.id);
+    throw new ApiError(502, "Failed to start the analysis");
+  }
+
+  return json({ jobId: job.id, imageId, status: "processing", statusUrl: `${ctx.baseUrl}/v1/jobs/${job.id}` }, 202);
+}
+
+async function loadJob(ctx: Ctx, table: "analysis_jobs" | "group_analysis_jobs", jobId: string) {
+  const { data: job } = await ctx.supabase
+    .from(table)
+    .select("id,user_id,project_id,status,current_stage,progress,error,created_at,completed_at" + (table === "analysis_jobs" ? ",image_id" : ",group_id"))
+    .eq("id", jobId)
+    .maybeSingle<Record<string, string | null>>();
+  if (!job || !(await canReadJob(ctx, job))) throw new ApiError(404, "Job not found", "not_found");
+  return job;
+}
+
+async function getJob(ctx: Ctx) {
+  return json(toJob(await loadJob(ctx, "analysis_jobs", ctx.params.jobId)));
+}
+
+async function getJobResult(ctx: Ctx) {
+  const job = await loadJob(ctx, "analysis_jobs", ctx.params.jobId);
+  if (job.status !== "completed") throw new ApiError(409, `Job is ${job.status}`, "not_completed");
+
+  const columns = "id,image_id,summary,suggestions,visual_annotations,metadata,created_at";
+  const saved = await loadStageResult<{ analysisId?: string }>(ctx.supabase, "analysis", job.id!, "synthesis");
+  let query = ctx.supabase.from("ux_analyses").select(columns);
+  // Jobs completed before stage outputs were saved: latest analysis of the image since the job started
+  query = saved?.analysisId
+    ? query.eq("id", saved.analysisId)
+    : query.eq("image_id", job.image_id).gte("created_at", job.created_at).order("created_at", { ascending: true }).limit(1);
+  const { data: rows } = await query;
+  const analysis = rows?.[0];
+  if (!analysis) throw new ApiError(404, "Analysis result not found", "not_found");
+
+  return json({
+    jobId: job.id,
+    analysisId: analysis.id,
+    imageId: analysis.image_id,
+    summary: analysis.summary,
+    suggestions: analysis.suggestions,
+    visualAnnotations: analysis.visual_annotations,
+    metadata: analysis.metadata,
+    createdAt: analysis.created_at,
+  });
+}
+
+async function createGroupAnalysis(ctx: Ctx) {
+  const body = await ctx.req.json().catch(() => null) as Record<string, unknown> | null;
+  if (!body) throw new ApiError(400, "Send a JSON body", "invalid_request");
+  const { project } = await requireProject(ctx, body.projectId, "editor");
+
+  let mode: "group" | "comparison" | "journey" = body.mode === "comparison" ? "comparison" : "group";
+  const imageIds = Array.isArray(body.imageIds) ? body.imageIds.filter((id): id is string => typeof id === "string") : [];
+  if (imageIds.length < 2 || imageIds.length > MAX_GROUP_IMAGES) {
+    throw new ApiError(400, `imageIds needs between 2 and ${MAX_GROUP_IMAGES} images`, "invalid_request");
+  }
+  if (mode === "comparison" && imageIds.length !== 2) {
+    throw new ApiError(400, "comparison mode needs exactly two imageIds (before, after)", "invalid_request");
+  }
+
+  const { data: images } = await ctx.supabase
+    .from("images")
+    .select("id,storage_path")
+    .eq("project_id", project.id)
+    .in("id", imageIds);
+  const paths = new Map((images ?? []).map(img => [img.id, img.storage_path as string]));
+  const missing = imageIds.filter(id => !paths.has(id));
+  if (missing.length > 0) throw new ApiError(400, `Images not found in project: ${missing.join(", ")}`, "invalid_request");
+
+  const groupId = typeof body.groupId === "string" && body.groupId ? body.groupId : null;
+  // group-synthesis writes the result into this group with the service role, so it must be the project's
+  if (groupId) {
+    const { data: group } = await ctx.supabase
+      .from("image_groups")
+      .select("id")
+      .eq("id", groupId)
+      .eq("project_id", project.id)
+      .maybeSingle();
+    if (!group) throw new ApiError(404, "Group not found", "not_found");
+  }
+
+  // Keyframes of one screen recording are reviewed as a journey with timestamps, the images of a
+  // journey group as ordered steps; both get a review of every transition
+  const journeyFrames = mode === "group" ? await loadJourneyFrames(ctx.supabase, imageIds) : null;
+  const journeySteps = journeyFrames
+    ? framesToSteps(journeyFrames)
+    : mode === "group" && groupId ? await loadGroupJourney(ctx.supabase, groupId, imageIds, project.id) : null;
+  if (journeySteps) mode = "journey";
+
+  const groupName = typeof body.groupName === "string" ? body.groupName : null;
+  const userContext = typeof body.userContext === "string" ? body.userContext : null;
+  const { data: job, error: jobErr } = await ctx.supabase
+    .from("group_analysis_jobs")
+    .insert({
+      user_id: ctx.key.user_id,
+      group_id: groupId,
+      project_id: project.id,
+      image_urls: imageIds.map(id => publicImageUrl(ctx.supabase, paths.get(id)!)),
+      status: "processing",
+      progress: 0,
+      current_stage: "queued",
+      error: null,
+      metadata: {
+        groupName,
+        userContext,
+        dispatchMode: "direct",
+        analysisMode: mode,
+        ...(journeyFrames ? { journeyFrames } : {}),
+        ...(journeySteps ? { journeySteps } : {}),
+        source: "api",
+        apiKeyId: ctx.key.id,
+      },
+    })
+    .select("id")
+    .single();
+  if (isBudgetExceededError(jobErr)) throw new ApiError(402, jobErr!.message, "budget_exceeded");
+  if (jobErr || !job) throw new ApiError(500, `Failed to create job: ${jobErr?.message ?? "unknown"}`);
+
+  const { error: orkErr } = await ctx.supabase.functions.invoke("group-ux-orchestrator", { body: { groupJobId: job.id } });
+  if (orkErr) {
+    await ctx.supabase.from("group_analysis_jobs").update({ status: "failed", error: `Orchestrator error: ${orkErr.message ?? "unknown"}` }).eq("id", job.id);
+    throw new ApiError(502, "Failed to start the group analysis");
+  }
+
+  return json({ jobId: job.id, status: "processing", statusUrl: `${ctx.baseUrl}/v1/group-jobs/${job.id}` }, 202);
+}
+
+async function getGroupJob(ctx: Ctx) {
+  return json(toJob(await loadJob(ctx, "group_analysis_jobs", ctx.params.groupJobId)));
+}
+
+async function getGroupJobResult(ctx: Ctx) {
+  const job = await loadJob(ctx, "group_analysis_jobs", ctx.params.groupJobId);
+  if (job.status !== "completed") throw new ApiError(409, `Job is ${job.status}`, "not_completed");
+
+  const columns = "id,summary,insights,recommendations,patterns,metadata,created_at";
+  const saved = await loadStageResult<{ analysisId?: string }>(ctx.supabase, "group", job.id!, "synthesis");
+  let query = ctx.supabase.from("group_analyses").select(columns);
+  query = saved?.analysisId
+    ? query.eq("id", saved.analysisId)
+    : query.contains("metadata", { groupJobId: job.id }).order("created_at", { ascending: false }).limit(1);
+  const { data: rows } = await query;
+  const analysis = rows?.[0];
+  if (!analysis) throw new ApiError(404, "Group analysis result not found", "not_found");
+
+  return json({
+    jobId: job.id,
+    analysisId: analysis.id,
+    summary: analysis.summary,
+    insights: analysis.insights,
+    recommendations: analysis.recommendations,
+    patterns: analysis.patterns,
+    journey: (analysis.metadata as { journey?: unknown } | null)?.journey ?? null,
+    createdAt: analysis.created_at,
+  });
+}
+
+type Route = { method: string; pattern: string; handler: (ctx: Ctx) => Promise<Response> };
+
+const ROUTES: Route[] = [
+  { method: "GET", pattern: "/v1/status", handler: getStatus },
+  { method: "GET", pattern: "/v1/projects", handler: listProjects },
+  { method: "GET", pattern: "/v1/projects/:projectId/images", handler: listProjectImages },
+  { method: "POST", pattern: "/v1/analyses", handler: createAnalysis },
+  { method: "GET", pattern: "/v1/jobs/:jobId", handler: getJob },
+  { method: "GET", pattern: "/v1/jobs/:jobId/result", handler: getJobResult },
+  { method: "POST", pattern: "/v1/group-analyses", handler: createGroupAnalysis },
+  { method: "GET", pattern: "/v1/group-jobs/:groupJobId", handler: getGroupJob },
+  { method: "GET", pattern: "/v1/group-jobs/:groupJobId/result", handler: getGroupJobResult },
+];
+
+function matchRoute(method: string, path: string): { route: Route; params: Record<string, string> } | null {
+  const parts = path.split("/").filter(Boolean);
+  for (const route of ROUTES) {
+    const segments = route.pattern.split("/").filter(Boolean);
+    if (route.method !== method || segments.length !== parts.length) continue;
+    const params: Record<string, string> = {};
+    const matched = segments.every((segment, i) => {
+      if (segment.startsWith(":")) {
+        params[segment.slice(1)] = decodeURIComponent(parts[i]);
+        return true;
+      }
+      return segment === parts[i];
+    });
+    if (matched) return { route, params };
+  }
+  return null;
+}
+
+serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const startedAt = performance.now();
+  const url = new URL(req.url);
+  // Path after the function name: /functions/v1/api-access/v1/jobs/... -> /v1/jobs/...
+  const path = url.pathname.replace(/^.*?\/api-access(?=\/|$)/, "") || "/";
+  const baseUrl = `${Deno.env.get("SUPABASE_URL") ?? url.origin}/functions/v1/api-access`;
+
+  if (req.method === "GET" && path === "/v1/openapi.json") {
+    return json(buildOpenApiDocument(baseUrl));
+  }
+
+  let supabase: SupabaseClient;
+  try {
+    supabase = getAdminClient();
+  } catch (err) {
+    return json({ error: "server_error", message: err instanceof Error ? err.message : "Unknown error" }, 500);
+  }
+
+  let key: ApiKey | null = null;
+  let endpoint = `${req.method} ${path}`;
+  let response: Response;
+  try {
+    key = await authenticate(supabase, readApiKey(req));
+
+    const { data: allowed, error: limitErr } = await supabase.rpc("check_rate_limit", {
+      endpoint_name: `api_key:${key.id}`,
+      max_requests: key.rate_limit,
+      window_minutes: 60,
+      _user_id: key.user_id,
+    });
+    if (limitErr) throw new ApiError(500, `Rate limit check failed: ${limitErr.message}`);
+    if (allowed !== true) throw new ApiError(429, `Rate limit of ${key.rate_limit} requests per hour reached`, "rate_limited");
+
+    const match = matchRoute(req.method, path);
+    if (!match) throw new ApiError(404, `No route for ${req.method} ${path}`, "not_found");
+    endpoint = `${match.route.method} ${match.route.pattern}`;
+
+    response = await match.route.handler({ supabase, key, req, url, baseUrl, params: match.params });
+  } catch (err) {
+    if (err instanceof ApiError) {
+      response = json({ error: err.code, message: err.message }, err.status);
+    } else {
+      console.error("[api-access] Unhandled error", err);
+      response = json({ error: "server_error", message: err instanceof Error ? err.message : "Unknown error" }, 500);
+    }
+  }
+
+  // Calls without a valid key have no api_keys row to log against
+  if (key) {
+    const [{ error: logErr }, { error: keyErr }] = await Promise.all([
+      supabase.from("api_logs").insert({
+        api_key_id: key.id,
+        user_id: key.user_id,
+        endpoint,
+        success: response.status < 400,
+        response_time_ms: Math.round(performance.now() - startedAt),
+      }),
+      supabase.rpc("record_api_key_use", { _api_key_id: key.id }),
+    ]);
+    if (logErr) console.warn("[api-access] Failed to log call:", logErr.message);
+    if (keyErr) console.warn("[api-access] Failed to update key usage:", keyErr.message);
+  }
+
+  return response;
+});
@@ -0,0 +1,313 @@
+// OpenAPI 3.1 description of the public REST API, served at GET /v1/openapi.json. Keep it in step
+// with the routes in index.ts.
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+});
+
+const jobIdParam = (name: string) => ({
+  name,
+  in: 'path',
+  required: true,
+  schema: { type: 'string', format: 'uuid' },
+});
+
+const standardErrors = {
+  '401': errorResponse('Missing, invalid, inactive or expired API key'),
+  '429': errorResponse('Hourly rate limit of the API key reached'),
+};
+
+export function buildOpenApiDocument(serverUrl: string) {
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Figmant UX Analysis API',
+      version: '1.0.0',
+      description:
+        'Run UX analyses on screenshots and fetch their results. Analyses run asynchronously: create one, poll its job until the status is completed, then fetch the result.',
+    },
+    servers: [{ url: serverUrl }],
+    security: [{ apiKey: [] }],
+    paths: {
+      '/v1/status': {
+        get: {
+          summary: 'API key status and usage',
+          operationId: 'getStatus',
+          responses: {
+            '200': { description: 'Key status', content: { 'application/json': { schema: { $ref: '#/components/schemas/KeyStatus' } } } },
+            ...standardErrors,
+          },
+        },
+      },
+      '/v1/projects': {
+        get: {
+          summary: 'List projects the key owner can access',
+          operationId: 'listProjects',
+          responses: {
+            '200': {
+              description: 'Projects',
+              content: { 'application/json': { schema: { type: 'object', properties: { projects: { type: 'array', items: { $ref: '#/components/schemas/Project' } } } } } },
+            },
+            ...standardErrors,
+          },
+        },
+      },
+      '/v1/projects/{projectId}/images': {
+        get: {
+          summary: 'List images of a project',
+          operationId: 'listProjectImages',
+          parameters: [
+            jobIdParam('projectId'),
+            { name: 'limit', in: 'query', schema: { type: 'integer', minimum: 1, maximum: 100, default: 50 } },
+            { name: 'offset', in: 'query', schema: { type: 'integer', minimum: 0, default: 0 } },
+          ],
+          responses: {
+            '200': {
+              description: 'Images, newest first',
+              content: { 'application/json': { schema: { type: 'object', properties: { images: { type: 'array', items: { $ref: '#/components/schemas/Image' } } } } } },
+            },
+            '404': errorResponse('Project not found or not accessible'),
+            ...standardErrors,
+          },
+        },
+      },
+      '/v1/analyses': {
+        post: {
+          summary: 'Analyze an image',
+          description:
+            'Send an image upload (multipart field "image") or a JSON body with a public https imageUrl to fetch. The image is stored in the project and analyzed in the background.',
+          operationId: 'createAnalysis',
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': { schema: { $ref: '#/components/schemas/CreateAnalysisFromUrl' } },
+              'multipart/form-data': { schema: { $ref: '#/components/schemas/CreateAnalysisFromUpload' } },
+            },
+          },
+          responses: {
+            '202': { description: 'Analysis job created', content: { 'application/json': { schema: { $ref: '#/components/schemas/JobCreated' } } } },
+            '400': errorResponse('Invalid request or unsupported image'),
+            '402': errorResponse('Monthly budget of the project reached'),
+            '403': errorResponse('The key owner cannot edit the project'),
+            '404': errorResponse('Project not found or not accessible'),
+            '413': errorResponse('Image larger than 10 MB'),
+            ...standardErrors,
+          },
+        },
+      },
+      '/v1/jobs/{jobId}': {
+        get: {
+          summary: 'Analysis job status',
+          operationId: 'getJob',
+          parameters: [jobIdParam('jobId')],
+          responses: {
+            '200': { description: 'Job status', content: { 'application/json': { schema: { $ref: '#/components/schemas/Job' } } } },
+            '404': errorResponse('Job not found'),
+            ...standardErrors,
+          },
+        },
+      },
+      '/v1/jobs/{jobId}/result': {
+        get: {
+          summary: 'Result of a completed analysis job',
+          operationId: 'getJobResult',
+          parameters: [jobIdParam('jobId')],
+          responses: {
+            '200': { description: 'Analysis', content: { 'application/json': { schema: { $ref: '#/components/schemas/AnalysisResult' } } } },
+            '404': errorResponse('Job not found'),
+            '409': errorResponse('Job has not completed'),
+            ...standardErrors,
+          },
+        },
+      },
+      '/v1/group-analyses': {
+        post: {
+          summary: 'Analyze a group of images together',
+          operationId: 'createGroupAnalysis',
+          requestBody: {
+            required: true,
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/CreateGroupAnalysis' } } },
+          },
+          responses: {
+            '202': { description: 'Group analysis job created', content: { 'application/json': { schema: { $ref: '#/components/schemas/JobCreated' } } } },
+            '400': errorResponse('Invalid request'),
+            '402': errorResponse('Monthly budget of the project reached'),
+            '403': errorResponse('The key owner cannot edit the project'),
+            '404': errorResponse('Project or group not found or not accessible'),
+            ...standardErrors,
+          },
+        },
+      },
+      '/v1/group-jobs/{groupJobId}': {
+        get: {
+          summary: 'Group analysis job status',
+          operationId: 'getGroupJob',
+          parameters: [jobIdParam('groupJobId')],
+          responses: {
+            '200': { description: 'Job status', content: { 'application/json': { schema: { $ref: '#/components/schemas/Job' } } } },
+            '404': errorResponse('Job not found'),
+            ...standardErrors,
+          },
+        },
+      },
+      '/v1/group-jobs/{groupJobId}/result': {
+        get: {
+          summary: 'Result of a completed group analysis job',
+          operationId: 'getGroupJobResult',
+          parameters: [jobIdParam('groupJobId')],
+          responses: {
+            '200': { description: 'Group analysis', content: { 'application/json': { schema: { $ref: '#/components/schemas/GroupAnalysisResult' } } } },
+            '404': errorResponse('Job not found'),
+            '409': errorResponse('Job has not completed'),
+            ...standardErrors,
+          },
+        },
+      },
+    },
+    components: {
+      securitySchemes: {
+        apiKey: { type: 'apiKey', in: 'header', name: 'x-api-key' },
+      },
+      schemas: {
+        Error: {
+          type: 'object',
+          required: ['error'],
+          properties: { error: { type: 'string' }, message: { type: 'string' } },
+        },
+        KeyStatus: {
+          type: 'object',
+          properties: {
+            keyName: { type: 'string' },
+            rateLimitPerHour: { type: 'integer' },
+            requestsMade: { type: 'integer' },
+            expiresAt: { type: ['string', 'null'], format: 'date-time' },
+          },
+        },
+        Project: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            name: { type: 'string' },
+            description: { type: ['string', 'null'] },
+            role: { type: 'string', enum: ['owner', 'editor', 'commenter', 'viewer'] },
+            createdAt: { type: ['string', 'null'], format: 'date-time' },
+          },
+        },
+        Image: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            name: { type: 'string' },
+            url: { type: 'string', format: 'uri' },
+            width: { type: ['integer', 'null'] },
+            height: { type: ['integer', 'null'] },
+            uploadedAt: { type: ['string', 'null'], format: 'date-time' },
+          },
+        },
+        CreateAnalysisFromUrl: {
+          type: 'object',
+          required: ['projectId', 'imageUrl'],
+          properties: {
+            projectId: { type: 'string', format: 'uuid' },
+            imageUrl: { type: 'string', format: 'uri' },
+            imageName: { type: 'string' },
+            userContext: { type: 'string', description: 'What the analysis should focus on' },
+          },
+        },
+        CreateAnalysisFromUpload: {
+          type: 'object',
+          required: ['projectId', 'image'],
+          properties: {
+            projectId: { type: 'string', format: 'uuid' },
+            image: { type: 'string', format: 'binary', description: 'PNG, JPEG, GIF or WebP, up to 10 MB' },
+            userContext: { type: 'string' },
+          },
+        },
+        CreateGroupAnalysis: {
+          type: 'object',
+          required: ['projectId', 'imageIds'],
+          properties: {
+            projectId: { type: 'string', format: 'uuid' },
+            imageIds: { type: 'array', items: { type: 'string', format: 'uuid' }, minItems: 2, maxItems: 20, description: 'Images of the project, in flow order' },
+            groupId: { type: 'string', format: 'uuid', description: 'When the group is a journey, imageIds are reviewed as its steps with every transition between them' },
+            groupName: { type: 'string' },
+            userContext: { type: 'string' },
+            mode: { type: 'string', enum: ['group', 'comparison'], default: 'group', description: 'comparison takes exactly two images (before, after)' },
+          },
+        },
+        JobCreated: {
+          type: 'object',
+          properties: {
+            jobId: { type: 'string', format: 'uuid' },
+            imageId: { type: 'string', format: 'uuid' },
+            status: { type: 'string' },
+            statusUrl: { type: 'string', format: 'uri' },
+          },
+        },
+        Job: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            status: { type: 'string', enum: ['pending', 'processing', 'completed', 'failed', 'cancelled'] },
+            stage: { type: ['string', 'null'] },
+            progress: { type: 'integer', minimum: 0, maximum: 100 },
+            error: { type: ['string', 'null'] },
+            createdAt: { type: ['string', 'null'], format: 'date-time' },
+            completedAt: { type: ['string', 'null'], format: 'date-time' },
+          },
+        },
+        AnalysisResult: {
+          type: 'object',
+          properties: {
+            jobId: { type: 'string', format: 'uuid' },
+            analysisId: { type: 'string', format: 'uuid' },
+            imageId: { type: ['string', 'null'], format: 'uuid' },
+            summary: { type: 'object' },
+            suggestions: { type: 'array', items: { type: 'object' } },
+            visualAnnotations: { type: 'array', items: { type: 'object' } },
+            metadata: { type: 'object' },
+            createdAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        GroupAnalysisResult: {
+          type: 'object',
+          properties: {
+            jobId: { type: 'string', format: 'uuid' },
+            analysisId: { type: 'string', format: 'uuid' },
+            summary: { type: 'object' },
+            insights: { type: 'array', items: {} },
+            recommendations: { type: 'array', items: {} },
+            patterns: { type: 'object' },
+            journey: {
+              type: ['object', 'null'],
+              description: 'Set for journeys: keyframes of one screen recording, or a journey group. Steps and frames are 1-based, in imageIds order; frames and insights are only present for recordings',
+              properties: {
+                frames: { type: 'array', items: { type: 'object', properties: { frame: { type: 'integer' }, timestampMs: { type: 'integer' }, imageId: { type: 'string', format: 'uuid' } } } },
+                insights: { type: 'array', items: { type: 'object', properties: { text: { type: 'string' }, frame: { type: ['integer', 'null'] }, timestampMs: { type: ['integer', 'null'] } } } },
+                steps: { type: 'array', items: { type: 'object', properties: { step: { type: 'integer' }, imageId: { type: 'string', format: 'uuid' }, label: { type: ['string', 'null'], description: 'What the user does to reach the next step' } } } },
+                transitions: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      fromStep: { type: 'integer' },
+                      toStep: { type: 'integer' },
+                      label: { type: 'string' },
+                      continuity: { type: 'integer', minimum: 0, maximum: 100 },
+                      lostContext: { type: 'array', items: { type: 'string' } },
+                      dropOffRisk: { type: 'string', enum: ['low', 'medium', 'high'] },
+                      dropOffReason: { type: 'string' },
+                    },
+                  },
+                },
+                gaps: { type: 'array', items: { type: 'object', properties: { text: { type: 'string' }, fromStep: { type: ['integer', 'null'] }, toStep: { type: ['integer', 'null'] } } } },
+              },
+            },
+            createdAt: { type: 'string', format: 'date-time' },
+          },
+        },
+      },
+    },
+  };
+}
@@ -0,0 +1,53 @@
+// Download of the imageUrl an API caller sends instead of a multipart upload. The URL is fetched from
+// inside the edge runtime, so every hop, redirects included, must pass the public URL guard.
+
+import { isPublicUrl } from "../_shared/public-url.ts";
+
+const MAX_REDIRECTS = 3;
+
+export class RemoteImageError extends Error {
+  constructor(public reason: 'invalid_url' | 'unavailable' | 'too_large') {
+    super(reason);
+  }
+}
+
+/**
+ * Bytes of a public https image; redirects are followed by hand so every hop is checked
+ */
+export async function fetchRemoteImage(rawUrl: string, maxBytes: number): Promise<Uint8Array> {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw new RemoteImageError('invalid_url');
+  }
+  if (url.protocol !== 'https:' || url.username || url.password) throw new RemoteImageError('invalid_url');
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    if (!(await isPublicUrl(url))) throw new RemoteImageError('unavailable');
+    const res = await fetch(url, { redirect: 'manual' }).catch(() => null);
+    if (!res) throw new RemoteImageError('unavailable');
+
+    if (res.status >= 300 && res.status < 400) {
+      const location = res.headers.get('location');
+      await res.body?.cancel();
+      if (!location) throw new RemoteImageError('unavailable');
+      url = new URL(location, url);
+      continue;
+    }
+
+    if (!res.ok) {
+      await res.body?.cancel();
+      throw new RemoteImageError('unavailable');
+    }
+    if (Number(res.headers.get('content-length') ?? 0) > maxBytes) {
+      await res.body?.cancel();
+      throw new RemoteImageError('too_large');
+    }
+    const bytes = new Uint8Array(await res.arrayBuffer());
+    if (bytes.length > maxBytes) throw new RemoteImageError('too_large');
+    return bytes;
+  }
+
+  throw new RemoteImageError('unavailable');
+}
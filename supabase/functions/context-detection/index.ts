@@ -1,5 +1,6 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { estimateImageTokens, openAIUsage, recordUsage, requestUserId } from '../_shared/usage.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -19,7 +20,9 @@ serve(async (req) => {
       model = 'gpt-4o-mini', 
       maxTokens = 1000, 
       useMetadataMode = false,
-      enhancedContextMode = false 
+      enhancedContextMode = false,
+      jobId,
+      imageId
     } = await req.json();
 
     const safePrompt = (typeof prompt === 'string' && prompt.trim().length > 0)
@@ -96,6 +99,7 @@ OUTPUT FORMAT: Return strictly a JSON object with only these keys: primaryType (
     }
 
     // Context detection using OpenAI
+    const startedAt = Date.now();
     const response = await fetch('https://api.openai.com/v1/chat/completions', {
       method: 'POST',
       headers: {
@@ -118,6 +122,10 @@ OUTPUT FORMAT: Return strictly a JSON object with only these keys: primaryType (
     }
 
     const data = await response.json();
+    await recordUsage(
+      { functionName: 'context-detection', jobId: jobId ?? null, imageId: imageId ?? null, userId: jobId ? null : await requestUserId(req) },
+      { provider: 'openai', model: optimizedModel, stage: 'context', ...openAIUsage(data), imageTokens: estimateImageTokens('openai', 1), latencyMs: Date.now() - startedAt }
+    );
     let contextData;
 
     const rawContent = data.choices?.[0]?.message?.content ?? '';
@@ -1,6 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
 import { encode as b64encode } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import { recordUsage } from "../_shared/usage.ts";
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
@@ -16,7 +17,8 @@ interface GoogleVisionMetadataRequest {
 interface VisionMetadata {
   labels?: Array<{ description: string; score: number }>;
   faces?: Array<{ joy: string; sorrow: string; anger: string; surprise: string }>;
-  text?: Array<{ description: string; locale?: string }>;
+  // boundingBox is in image pixels; the first entry is the whole detected text block
+  text?: Array<{ description: string; locale?: string; boundingBox?: { x: number; y: number; width: number; height: number } }>;
   objects?: Array<{ name: string; score: number; boundingBox: { x: number; y: number; width: number; height: number } }>;
   safeSearch?: {
     adult: string;
@@ -157,10 +159,23 @@ async function extractGoogleVisionMetadata(
     }
 
     if (annotations.textAnnotations) {
-      metadata.text = annotations.textAnnotations.map((text: any) => ({
-        description: text.description,
-        locale: text.locale
-      }));
+      metadata.text = annotations.textAnnotations.map((text: any) => {
+        const verts = text.boundingPoly?.vertices;
+        const xs: number[] = Array.isArray(verts) ? verts.map((v: { x?: number }) => v.x ?? 0) : [];
+        const ys: number[] = Array.isArray(verts) ? verts.map((v: { y?: number }) => v.y ?? 0) : [];
+        return {
+          description: text.description,
+          locale: text.locale,
+          ...(xs.length > 0 ? {
+            boundingBox: {
+              x: Math.min(...xs),
+              y: Math.min(...ys),
+              width: Math.max(...xs) - Math.min(...xs),
+              height: Math.max(...ys) - Math.min(...ys)
+            }
+          } : {})
+        };
+      });
     }
 
 if (annotations.localizedObjectAnnotations) {
@@ -244,7 +259,7 @@ serve(async (req) => {
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
     // Parse request body
-    const { imageId, imageUrl, features = ['labels', 'faces', 'text'], imageBase64 } = await req.json();
+    const { imageId, imageUrl, features = ['labels', 'faces', 'text'], imageBase64, jobId } = await req.json();
 
     // Validate required parameters
     if (!imageId || !imageUrl) {
@@ -315,7 +330,13 @@ serve(async (req) => {
     }
 
     // Extract metadata using Google Vision API with safeguards and circuit breaker
+    const startedAt = Date.now();
     const visionMetadata = await extractGoogleVisionMetadata(imageUrl, requestedFeatures, imageBase64);
+    // Vision bills per feature per image
+    await recordUsage(
+      { functionName: 'google-vision-metadata', jobId: jobId ?? null, imageId },
+      { provider: 'google', model: 'google-vision', stage: 'vision', units: requestedFeatures.length, latencyMs: Date.now() - startedAt }
+    );
 
     // Prepare metadata update
     const metadataUpdate = {
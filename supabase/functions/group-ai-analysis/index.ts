@@ -1,5 +1,10 @@
 import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { anthropicUsage, estimateImageTokens, openAIUsage, recordUsage } from "../_shared/usage.ts";
+import { isJobCancelled, loadStageResult, saveStageResult } from "../_shared/job-stages.ts";
+import { describeFrames, describeSteps, framesToSteps, type JourneyFrame, type JourneyStep } from "../_shared/journey.ts";
+import type { Persona } from "../_shared/persona.ts";
+import { buildPersonaPrompt } from "../_shared/persona-prompt.ts";
 
 const corsHeaders: HeadersInit = {
   "Access-Control-Allow-Origin": "*",
@@ -8,6 +13,9 @@ const corsHeaders: HeadersInit = {
 
 type Json = Record<string, unknown>;
 
+// Screens sent as pixels in persona mode; the rest are reviewed from Vision findings only
+const PERSONA_MAX_IMAGES = 6;
+
 type GroupJob = {
   id: string;
   user_id: string | null;
@@ -15,6 +23,8 @@ type GroupJob = {
   status: string | null;
   progress: number | null;
   current_stage: string | null;
+  image_urls: string[] | null;
+  metadata: Json | null;
 };
 
 function getAdminClient() {
@@ -26,6 +36,19 @@ function getAdminClient() {
   return createClient(url, serviceKey, { auth: { persistSession: false } });
 }
 
+// Anthropic image block source; the screens are storage URLs the function can read directly
+async function fetchImageSource(url: string) {
+  const resp = await fetch(url);
+  if (!resp.ok) throw new Error(`Failed to fetch image for Anthropic: ${resp.status}`);
+  const bytes = new Uint8Array(await resp.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  const mediaType = resp.headers.get('content-type')?.split(';')[0].trim() || 'image/png';
+  return { type: 'base64', media_type: mediaType, data: btoa(binary) };
+}
+
 serve(async (req: Request) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -47,12 +70,13 @@ serve(async (req: Request) => {
     // Load job
     const { data: job, error: jobErr } = await supabase
       .from("group_analysis_jobs")
-      .select("id,user_id,project_id,status,progress,current_stage")
+      .select("id,user_id,project_id,status,progress,current_stage,image_urls,metadata")
       .eq("id", groupJobId)
       .maybeSingle<GroupJob>();
 
     if (jobErr) return Response.json({ error: jobErr.message }, { status: 500, headers: corsHeaders });
     if (!job) return Response.json({ error: "Group job not found" }, { status: 404, headers: corsHeaders });
+    if (job.status === 'cancelled') return Response.json({ cancelled: true, groupJobId }, { status: 409, headers: corsHeaders });
 
     const insertEvent = async (fields: Partial<{ event_name: string; status: string; progress: number; message: string; metadata: Json }>) => {
       const nowISO = new Date().toISOString();
@@ -107,10 +131,14 @@ serve(async (req: Request) => {
     const startedProgress = Math.max(60, job.progress ?? 0);
     await supabase.from('group_analysis_jobs').update({ current_stage: 'ai', status: job.status === 'pending' ? 'processing' : job.status, progress: startedProgress }).eq('id', job.id);
 
+    const stageStartedAt = new Date().toISOString();
     await insertEvent({ event_name: 'group-analysis/ai.started', status: 'processing', progress: startedProgress });
 
-    // Fetch latest context and Google Vision results ONLY (no OpenAI vision)
+    // Fetch latest context and Google Vision results ONLY (no OpenAI vision); saved stage outputs win over events
     const fetchLatest = async (eventName: string, provider?: string) => {
+      const stage = eventName === 'group-analysis/context.completed' ? 'context' : `vision:${provider}`;
+      const saved = await loadStageResult(supabase, 'group', job.id, stage);
+      if (saved) return saved;
       let query: any = supabase
         .from('analysis_events')
         .select('metadata, created_at')
@@ -131,8 +159,72 @@ serve(async (req: Request) => {
       visionGoogle: JSON.stringify(visionGoogle ?? {}).length,
     };
 
-    // Prepare prompts (text-only; images already distilled by Google Vision)
-    const userPrompt = `You are a senior UX analyst. Using ONLY the provided group context and Google Vision findings (no new vision), produce a structured GROUP UX review as strict JSON with keys: summary(object), insights(string[]), recommendations(string[]), patterns(object).`;
+    // Prepare prompts (group reviews are text-only; images already distilled by Google Vision)
+    const analysisMode = (job.metadata as Record<string, Json> | null)?.analysisMode;
+    const isComparison = analysisMode === 'comparison';
+    const journeyFrames = analysisMode === 'journey'
+      ? ((job.metadata as Record<string, Json>).journeyFrames as JourneyFrame[] | undefined) ?? []
+      : [];
+    // Jobs queued before journey groups only stored frames
+    const journeySteps = analysisMode === 'journey'
+      ? ((job.metadata as Record<string, Json>).journeySteps as JourneyStep[] | undefined) ?? framesToSteps(journeyFrames)
+      : [];
+    const groupPrompt = `You are a senior UX analyst. Using ONLY the provided group context and Google Vision findings (no new vision), produce a structured GROUP UX review as strict JSON with keys: summary(object), insights(string[]), recommendations(string[]), patterns(object).`;
+    // Two-image regression review: image 1 is the old build, image 2 the new build
+    const comparisonPrompt = `You are a senior UX analyst reviewing a regression between two builds of the same screen. Image 1 is the BEFORE (old build) and image 2 is the AFTER (new build).
+Identify every meaningful UX change between them and judge whether each change helped or hurt the experience.
+Return strict JSON with keys:
+- summary(object: overallScore 0-100 for the AFTER build, verdict: "improved"|"regressed"|"mixed"|"unchanged", improvedCount, regressedCount)
+- changes(array of {id, area, description, verdict: "improved"|"regressed"|"neutral", rationale, severity: "low"|"medium"|"high", before: {x, y}, after: {x, y}} where x and y are 0-1 positions of the changed element in each image, or null if absent)
+- insights(string[]), recommendations(string[]), patterns(object: commonElements(string[]), designInconsistencies(string[]), userJourneyGaps(string[])).
+Only return valid JSON.`;
+    // Every journey reviews each transition between consecutive steps and ties gaps to a step pair
+    const transitionKeys = `- transitions(array with one {from, to, continuity, lostContext, dropOffRisk, dropOffReason} per pair of consecutive steps: continuity 0-100 is how well step "to" carries on from step "from", lostContext(string[]) the information or state the user loses on the way, dropOffRisk "low"|"medium"|"high" how likely they are to abandon the flow there, dropOffReason why)
+- recommendations(string[]), patterns(object: commonElements(string[]), designInconsistencies(string[]), userJourneyGaps(array of {text, from, to} where from and to are the steps the gap sits between, or null when it concerns the whole journey)).`;
+    // Keyframes of a screen recording: a journey in playback order, every insight tied to its frame
+    const recordingPrompt = `You are a senior UX analyst. The images are keyframes of ONE screen recording of a user flow, in playback order; the Google Vision findings are listed in the same order. Frame N is step N of the journey:
+${describeFrames(journeyFrames)}
+Using ONLY the provided context and Google Vision findings (no new vision), review the recording as a user journey: flow continuity, friction between steps, feedback and state changes, dead ends.
+Return strict JSON with keys:
+- summary(object: overallScore 0-100, userFlowContinuity 0-100, consistency 0-100)
+- insights(array of {text, frame} where frame is the 1-based number of the frame the insight comes from)
+${transitionKeys}
+Only return valid JSON.`;
+    // Screens the user ordered into a journey, with what the user does between them where known
+    const stepsPrompt = `You are a senior UX analyst. The images are the ${journeySteps.length} steps of ONE user journey, in order; the Google Vision findings are listed in the same order. The transitions are:
+${describeSteps(journeySteps)}
+Using ONLY the provided context and Google Vision findings (no new vision), review every transition: does the next screen carry on what the user just did, what context (selections, entered data, prices, progress) is lost, and where users are likely to drop off.
+Return strict JSON with keys:
+- summary(object: overallScore 0-100, userFlowContinuity 0-100, consistency 0-100)
+- insights(string[])
+${transitionKeys}
+Only return valid JSON.`;
+    const journeyPrompt = journeyFrames.length > 0 ? recordingPrompt : stepsPrompt;
+    const imageUrls = Array.isArray(job.image_urls) ? job.image_urls : [];
+    // One persona's view of the screens: severity and friction are judged for that person only
+    const persona = analysisMode === 'persona'
+      ? ((job.metadata as Record<string, Json>).persona as Persona | undefined) ?? null
+      : null;
+    const personaPrompt = persona ? `${buildPersonaPrompt(persona)}
+The images are ${imageUrls.length} screen${imageUrls.length !== 1 ? 's' : ''} of the product, in order; screen N is image N.
+Return strict JSON with keys:
+- summary(object: frictionScore 0-100 overall friction for this persona, taskSuccess 0-100 likelihood they achieve their goals, overallScore 0-100)
+- personaFindings(array of {id, title, description, severity: "high"|"medium"|"low", friction 0-100, screen} where description says why it affects this persona and screen is the 1-based screen number, or null when it concerns the whole flow)
+- insights(string[]), recommendations(string[]), patterns(object).
+Only return valid JSON.` : '';
+    const userPrompt = isComparison ? comparisonPrompt : persona ? personaPrompt : journeySteps.length > 0 ? journeyPrompt : groupPrompt;
+    // Comparison needs pixels, not just Vision labels, to describe what moved; personas to judge legibility and effort
+    const promptImages = isComparison
+      ? imageUrls.slice(0, 2).map((url, i) => ({ label: i === 0 ? 'Image 1 (BEFORE):' : 'Image 2 (AFTER):', url }))
+      : persona
+        ? imageUrls.slice(0, PERSONA_MAX_IMAGES).map((url, i) => ({ label: `Screen ${i + 1}:`, url }))
+        : [];
+    const openAiImages = promptImages.flatMap(({ label, url }) => [
+      { type: 'text', text: label },
+      { type: 'image_url', image_url: { url, detail: 'high' } },
+    ]);
+    // Changes and per-persona findings run longer than a plain group review
+    const maxTokens = promptImages.length > 0 ? 2400 : 1400;
 
     const openAiKey = Deno.env.get('OPENAI_API_KEY');
     const anthropicKey = Deno.env.get('ANTHROPIC_API_KEY');
@@ -150,6 +242,7 @@ serve(async (req: Request) => {
     if (openAiKey) {
       tasks.push((async () => {
         try {
+          const startedAt = Date.now();
           const resp = await fetch('https://api.openai.com/v1/chat/completions', {
             method: 'POST',
             headers: { 'Authorization': `Bearer ${openAiKey}`, 'Content-Type': 'application/json' },
@@ -161,14 +254,21 @@ serve(async (req: Request) => {
                   { type: 'text', text: userPrompt },
                   { type: 'text', text: `Context:\n${JSON.stringify(contextMeta ?? {})}` },
                   { type: 'text', text: `Vision (Google):\n${JSON.stringify(visionGoogle ?? {})}` },
+                  ...openAiImages,
                 ] }
               ],
               temperature: 0.2,
-              max_tokens: 1400,
+              max_tokens: maxTokens,
               response_format: { type: 'json_object' }
             })
           });
           const data = await resp.json().catch(() => ({}));
+          if (resp.ok) {
+            await recordUsage(
+              { functionName: 'group-ai-analysis', groupJobId: job.id },
+              { provider: 'openai', model: 'gpt-4o', stage: 'ai', ...openAIUsage(data), imageTokens: estimateImageTokens('openai', promptImages.length), latencyMs: Date.now() - startedAt }
+            );
+          }
           const raw = data?.choices?.[0]?.message?.content ?? null;
           let jsonParsed: any = null;
           if (typeof raw === 'string') {
@@ -184,6 +284,12 @@ serve(async (req: Request) => {
     if (anthropicKey) {
       tasks.push((async () => {
         try {
+          // Anthropic takes images inline, so fetch them before timing the call
+          const anthropicImages = (await Promise.all(promptImages.map(async ({ label, url }) => [
+            { type: 'text', text: label },
+            { type: 'image', source: await fetchImageSource(url) },
+          ]))).flat();
+          const startedAt = Date.now();
           const resp = await fetch('https://api.anthropic.com/v1/messages', {
             method: 'POST',
             headers: {
@@ -193,16 +299,23 @@ serve(async (req: Request) => {
             },
             body: JSON.stringify({
               model: 'claude-3-5-sonnet-20241022',
-              max_tokens: 1400,
+              max_tokens: maxTokens,
               temperature: 0.2,
               messages: [
                 { role: 'user', content: [
-                  { type: 'text', text: `${userPrompt}\n\nContext:\n${JSON.stringify(contextMeta ?? {})}\n\nVision (Google):\n${JSON.stringify(visionGoogle ?? {})}` }
+                  { type: 'text', text: `${userPrompt}\n\nContext:\n${JSON.stringify(contextMeta ?? {})}\n\nVision (Google):\n${JSON.stringify(visionGoogle ?? {})}` },
+                  ...anthropicImages,
                 ] }
               ]
             })
           });
           const data = await resp.json().catch(() => ({}));
+          if (resp.ok) {
+            await recordUsage(
+              { functionName: 'group-ai-analysis', groupJobId: job.id },
+              { provider: 'anthropic', model: 'claude-3-5-sonnet-20241022', stage: 'ai', ...anthropicUsage(data), imageTokens: estimateImageTokens('anthropic', promptImages.length), latencyMs: Date.now() - startedAt }
+            );
+          }
           const raw = data?.content?.[0]?.text ?? null;
           let jsonParsed: any = null;
           if (typeof raw === 'string') {
@@ -228,6 +341,10 @@ serve(async (req: Request) => {
       }
     }
 
+    if (await isJobCancelled(supabase, 'group', job.id)) {
+      return Response.json({ cancelled: true, groupJobId }, { status: 409, headers: corsHeaders });
+    }
+
     const completedProgress = Math.max(85, startedProgress);
     await insertEvent({
       event_name: 'group-analysis/ai.completed',
@@ -235,6 +352,7 @@ serve(async (req: Request) => {
       progress: completedProgress,
       metadata: { providers, sizes: metaSizes }
     });
+    await saveStageResult(supabase, 'group', job.id, 'ai', { providers, sizes: metaSizes }, stageStartedAt);
 
     await supabase.from('group_analysis_jobs').update({ current_stage: 'synthesis', progress: completedProgress }).eq('id', job.id);
 
@@ -1,5 +1,17 @@
 import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { isJobCancelled, loadStageResult, saveStageResult } from "../_shared/job-stages.ts";
+import {
+  formatStepPair,
+  formatTimestamp,
+  framesToSteps,
+  resolveJourneyGaps,
+  resolveJourneyInsights,
+  resolveTransitions,
+  type JourneyFrame,
+  type JourneyStep,
+} from "../_shared/journey.ts";
+import { deriveFrictionScore, resolvePersonaFindings, type Persona } from "../_shared/persona.ts";
 
 const corsHeaders: HeadersInit = {
   "Access-Control-Allow-Origin": "*",
@@ -16,6 +28,7 @@ type GroupJob = {
   status: string | null;
   progress: number | null;
   current_stage: string | null;
+  image_urls: string[] | null;
   metadata: Json | null;
 };
 
@@ -46,6 +59,9 @@ function normalizeAIGroupOutput(raw: unknown): {
   insights: unknown[];
   recommendations: unknown[];
   patterns: Record<string, unknown>;
+  changes: unknown[];
+  transitions: unknown[];
+  personaFindings: unknown[];
   warnings: string[];
   ai_raw: unknown;
 } {
@@ -71,7 +87,7 @@ function normalizeAIGroupOutput(raw: unknown): {
   }
 
   if (!obj || typeof obj !== 'object') {
-    return { ok: false, summary: {}, insights: [], recommendations: [], patterns: {}, warnings, ai_raw: raw };
+    return { ok: false, summary: {}, insights: [], recommendations: [], patterns: {}, changes: [], transitions: [], personaFindings: [], warnings, ai_raw: raw };
   }
 
   const candidate = (obj.analysis ?? obj.data ?? obj.result ?? obj) as any;
@@ -80,6 +96,12 @@ function normalizeAIGroupOutput(raw: unknown): {
   const insights = Array.isArray(candidate.insights) ? candidate.insights : [];
   const recommendations = Array.isArray(candidate.recommendations) ? candidate.recommendations : [];
   const patterns = (candidate.patterns && typeof candidate.patterns === 'object') ? candidate.patterns : {};
+  // Before/after comparison jobs also return per-change verdicts
+  const changes = Array.isArray(candidate.changes) ? candidate.changes : [];
+  // Journey jobs also review every step-to-step transition
+  const transitions = Array.isArray(candidate.transitions) ? candidate.transitions : [];
+  // Persona jobs return findings rated for one persona
+  const personaFindings = Array.isArray(candidate.personaFindings) ? candidate.personaFindings : [];
 
   if ((summary as any).overallScore != null) {
     const n = Number((summary as any).overallScore);
@@ -87,8 +109,8 @@ function normalizeAIGroupOutput(raw: unknown): {
     else delete (summary as any).overallScore;
   }
 
-  const ok = Object.keys(summary).length > 0 || insights.length > 0 || recommendations.length > 0 || Object.keys(patterns).length > 0;
-  return { ok, summary, insights, recommendations, patterns, warnings, ai_raw: raw };
+  const ok = Object.keys(summary).length > 0 || insights.length > 0 || recommendations.length > 0 || Object.keys(patterns).length > 0 || changes.length > 0 || personaFindings.length > 0;
+  return { ok, summary, insights, recommendations, patterns, changes, transitions, personaFindings, warnings, ai_raw: raw };
 }
 
 serve(async (req: Request) => {
@@ -112,12 +134,13 @@ serve(async (req: Request) => {
     // Load job
     const { data: job, error: jobErr } = await supabase
       .from("group_analysis_jobs")
-      .select("id,user_id,project_id,group_id,status,progress,current_stage,metadata")
+      .select("id,user_id,project_id,group_id,status,progress,current_stage,image_urls,metadata")
       .eq("id", groupJobId)
       .maybeSingle<GroupJob>();
 
     if (jobErr) return Response.json({ error: jobErr.message }, { status: 500, headers: corsHeaders });
     if (!job) return Response.json({ error: "Group job not found" }, { status: 404, headers: corsHeaders });
+    if (job.status === 'cancelled') return Response.json({ cancelled: true, groupJobId }, { status: 409, headers: corsHeaders });
 
     const insertEvent = async (fields: Partial<{ event_name: string; status: string; progress: number; message: string; metadata: Json }>) => {
       const nowISO = new Date().toISOString();
@@ -171,10 +194,12 @@ serve(async (req: Request) => {
 
     const startedProgress = Math.max(85, job.progress ?? 0);
     await supabase.from('group_analysis_jobs').update({ current_stage: 'synthesis', status: job.status === 'pending' ? 'processing' : job.status, progress: startedProgress }).eq('id', job.id);
+    const stageStartedAt = new Date().toISOString();
     await insertEvent({ event_name: 'group-analysis/synthesis.started', status: 'processing', progress: startedProgress });
 
-    // Fetch AI results (support parallel providers metadata)
-    const { data: aiRows } = await supabase
+    // Fetch AI results (support parallel providers metadata); the saved stage output wins over events
+    const savedAi = await loadStageResult(supabase, 'group', job.id, 'ai');
+    const { data: aiRows } = savedAi ? { data: null } : await supabase
       .from('analysis_events')
       .select('metadata, created_at')
       .eq('group_job_id', job.id)
@@ -182,7 +207,7 @@ serve(async (req: Request) => {
       .order('created_at', { ascending: false })
       .limit(1);
 
-    const aiMeta: any = aiRows?.[0]?.metadata ?? null;
+    const aiMeta: any = savedAi ?? aiRows?.[0]?.metadata ?? null;
 
     // Build candidate list in priority: parsed JSON from OpenAI, parsed JSON from Anthropic, raw OpenAI, raw Anthropic, legacy analysis field
     const candidates: Array<{ provider: string; payload: any }> = [];
@@ -207,19 +232,54 @@ serve(async (req: Request) => {
         message: 'AI output could not be normalized',
         metadata: { reason: 'normalization_failed', had_ai_event: !!aiMeta, providers_present: Object.keys(aiMeta?.providers ?? {}) }
       });
-      await supabase.from('group_analysis_jobs').update({ status: 'failed', current_stage: 'failed', error: 'AI output could not be normalized' }).eq('id', job.id);
+      await supabase.from('group_analysis_jobs').update({ status: 'failed', current_stage: 'synthesis', error: 'AI output could not be normalized' }).eq('id', job.id);
       return Response.json({ error: 'AI output could not be normalized' }, { status: 400, headers: corsHeaders });
     }
 
     // Compose final structures from normalized output
     const summary = { ...(normalized.summary || {}), groupJobId: job.id, provider: usedProvider } as Record<string, unknown>;
-    const insights = Array.isArray(normalized.insights) ? normalized.insights : [];
+    let insights = Array.isArray(normalized.insights) ? normalized.insights : [];
+    // Journey insights keep their frame and timestamp in metadata; the insight text leads with the timestamp
+    const jobMeta = (job.metadata ?? {}) as Record<string, unknown>;
+    const journeyFrames = jobMeta.analysisMode === 'journey' && Array.isArray(jobMeta.journeyFrames)
+      ? jobMeta.journeyFrames as JourneyFrame[]
+      : null;
+    const journeyInsights = journeyFrames ? resolveJourneyInsights(insights, journeyFrames) : null;
+    if (journeyInsights) {
+      insights = journeyInsights.map(i => i.timestampMs === null ? i.text : `[${formatTimestamp(i.timestampMs)}] ${i.text}`);
+    }
     const recommendations = Array.isArray(normalized.recommendations) ? normalized.recommendations : [];
     const patterns = (normalized.patterns && typeof normalized.patterns === 'object') ? normalized.patterns : {};
+    // Journey transitions and gaps are tied to step pairs in metadata; each gap text leads with its steps
+    const journeySteps = jobMeta.analysisMode === 'journey'
+      ? (Array.isArray(jobMeta.journeySteps) ? jobMeta.journeySteps as JourneyStep[] : journeyFrames ? framesToSteps(journeyFrames) : null)
+      : null;
+    const transitions = journeySteps ? resolveTransitions(normalized.transitions, journeySteps) : [];
+    const journeyGaps = journeySteps ? resolveJourneyGaps(patterns.userJourneyGaps, journeySteps) : [];
+    if (journeySteps) {
+      patterns.userJourneyGaps = journeyGaps.map(g => g.fromStep === null ? g.text : `${formatStepPair(g.fromStep, g.toStep)}: ${g.text}`);
+      if (summary.userFlowContinuity == null && transitions.length > 0) {
+        summary.userFlowContinuity = Math.round(transitions.reduce((sum, t) => sum + t.continuity, 0) / transitions.length);
+      }
+    }
+    // Persona findings keep the persona snapshot the job ran with; missing friction is derived from them
+    const persona = jobMeta.analysisMode === 'persona' ? (jobMeta.persona as Persona | undefined) ?? null : null;
+    const personaFindings = persona ? resolvePersonaFindings(normalized.personaFindings, job.image_urls?.length ?? 0) : [];
+    if (persona) {
+      const frictionScore = Number(summary.frictionScore);
+      summary.frictionScore = Number.isFinite(frictionScore)
+        ? Math.max(0, Math.min(100, Math.round(frictionScore)))
+        : deriveFrictionScore(personaFindings);
+    }
     const prompt = ((job.metadata as any)?.userContext as string | undefined) ?? '';
 
+    // A job cancelled while synthesising must not produce an analysis
+    if (await isJobCancelled(supabase, 'group', job.id)) {
+      return Response.json({ cancelled: true, groupJobId }, { status: 409, headers: corsHeaders });
+    }
+
     // Persist group analysis with raw + warnings for auditability
-    const { error: insErr } = await supabase
+    const { data: inserted, error: insErr } = await supabase
       .from('group_analyses')
       .insert({
         group_id: job.group_id ?? null,
@@ -230,16 +290,34 @@ serve(async (req: Request) => {
         recommendations,
         patterns,
         parent_analysis_id: null,
-        metadata: { groupJobId: job.id, normalization: { warnings: normalized.warnings }, ai_raw_output: aiMeta?.providers ?? aiMeta ?? null },
-      });
+        metadata: {
+          groupJobId: job.id,
+          analysisMode: (job.metadata as Record<string, Json> | null)?.analysisMode ?? 'group',
+          ...(normalized.changes.length > 0 ? { comparison: { changes: normalized.changes } } : {}),
+          ...(journeySteps ? {
+            journey: {
+              ...(journeyInsights ? { frames: journeyFrames, insights: journeyInsights } : {}),
+              steps: journeySteps,
+              transitions,
+              gaps: journeyGaps,
+            },
+          } : {}),
+          ...(persona ? { persona: { persona, findings: personaFindings } } : {}),
+          normalization: { warnings: normalized.warnings },
+          ai_raw_output: aiMeta?.providers ?? aiMeta ?? null,
+        },
+      })
+      .select('id')
+      .single();
 
     if (insErr) {
       await insertEvent({ event_name: 'group-analysis/synthesis.failed', status: 'failed', progress: startedProgress, message: insErr.message });
-      await supabase.from('group_analysis_jobs').update({ status: 'failed', current_stage: 'failed', error: insErr.message }).eq('id', job.id);
+      await supabase.from('group_analysis_jobs').update({ status: 'failed', current_stage: 'synthesis', error: insErr.message }).eq('id', job.id);
       return Response.json({ error: insErr.message }, { status: 500, headers: corsHeaders });
     }
 
     const finalProgress = 100;
+    await saveStageResult(supabase, 'group', job.id, 'synthesis', { analysisId: inserted?.id ?? null }, stageStartedAt);
     await supabase.from('group_analysis_jobs').update({ status: 'completed', current_stage: 'completed', progress: finalProgress, completed_at: new Date().toISOString() }).eq('id', job.id);
 
     await insertEvent({ event_name: 'group-analysis/completed', status: 'completed', progress: finalProgress });
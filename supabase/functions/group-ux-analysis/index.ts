@@ -1,6 +1,7 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.52.1';
+import { estimateImageTokens, openAIUsage, recordUsage, requestUserId, type UsageContext } from '../_shared/usage.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -65,6 +66,12 @@ serve(async (req) => {
 
     console.log(`Processing ${validImageUrls.length} valid image URLs`);
 
+    // Usage is billed to the group's project
+    const { data: group } = body.groupId
+      ? await supabase.from('image_groups').select('project_id').eq('id', body.groupId).maybeSingle()
+      : { data: null };
+    const usage: UsageContext = { functionName: 'group-ux-analysis', projectId: group?.project_id ?? null, userId: await requestUserId(req) };
+
     // Step 1: Analyze each image individually
     const individualAnalyses: ImageAnalysisResult[] = [];
     
@@ -73,7 +80,7 @@ serve(async (req) => {
       console.log(`Analyzing image ${i + 1}/${validImageUrls.length}`);
       
       try {
-        const analysis = await analyzeIndividualImage(imageUrl, body.prompt, body.userContext);
+        const analysis = await analyzeIndividualImage(imageUrl, body.prompt, usage, body.userContext);
         individualAnalyses.push({
           url: imageUrl,
           analysis
@@ -94,6 +101,7 @@ serve(async (req) => {
     const groupAnalysis = await synthesizeGroupInsights(
       individualAnalyses,
       body.prompt,
+      usage,
       body.userContext,
       body.groupName
     );
@@ -179,7 +187,7 @@ serve(async (req) => {
 /**
  * Analyze a single image using OpenAI GPT-4 Vision
  */
-async function analyzeIndividualImage(imageUrl: string, prompt: string, userContext?: string): Promise<any> {
+async function analyzeIndividualImage(imageUrl: string, prompt: string, usage: UsageContext, userContext?: string): Promise<any> {
   if (!openAIApiKey) {
     throw new Error('OpenAI API key not configured');
   }
@@ -199,6 +207,7 @@ Analysis prompt: ${prompt}
 
 Provide your analysis in a structured format with specific observations and actionable recommendations.`;
 
+  const startedAt = Date.now();
   const response = await fetch('https://api.openai.com/v1/chat/completions', {
     method: 'POST',
     headers: {
@@ -240,6 +249,10 @@ Provide your analysis in a structured format with specific observations and acti
   }
 
   const data = await response.json();
+  await recordUsage(usage, {
+    provider: 'openai', model: 'gpt-4o', stage: 'image_analysis', ...openAIUsage(data),
+    imageTokens: estimateImageTokens('openai', 1), latencyMs: Date.now() - startedAt
+  });
   return {
     content: data.choices[0]?.message?.content || 'No analysis generated',
     model: 'gpt-4o',
@@ -254,6 +267,7 @@ Provide your analysis in a structured format with specific observations and acti
 async function synthesizeGroupInsights(
   individualAnalyses: ImageAnalysisResult[],
   originalPrompt: string,
+  usage: UsageContext,
   userContext?: string,
   groupName?: string
 ): Promise<any> {
@@ -332,6 +346,7 @@ Rules:
       temperature: temp
     } as const;
 
+    const startedAt = Date.now();
     const res = await fetch('https://api.openai.com/v1/chat/completions', {
       method: 'POST',
       headers: {
@@ -347,6 +362,7 @@ Rules:
     }
 
     const data = await res.json();
+    await recordUsage(usage, { provider: 'openai', model: payload.model, stage: 'synthesis', ...openAIUsage(data), latencyMs: Date.now() - startedAt });
     const content: string = data.choices?.[0]?.message?.content ?? '';
     const cleaned = content.trim().replace(/^```json\s*/i, '').replace(/^```/i, '').replace(/```\s*$/i, '').trim();
 
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { completedStages, isJobCancelled, markJobFailed, saveStageResult } from "../_shared/job-stages.ts";
 
 const corsHeaders: HeadersInit = {
   "Access-Control-Allow-Origin": "*",
@@ -91,38 +92,67 @@ async function runPipeline(groupJobId: string) {
 
   if (jobErr) throw new Error(jobErr.message);
   if (!job) throw new Error('Group job not found');
+  if (job.status === 'cancelled') return;
+
+  // Stages with saved output are skipped, so a retried job resumes where it failed
+  const done = await completedStages(supabase, 'group', job.id);
+  const cancelled = async (stage: string) => {
+    if (!(await isJobCancelled(supabase, 'group', job.id))) return false;
+    console.log(`[group-ux-orchestrator] Job ${job.id} cancelled before ${stage}`);
+    return true;
+  };
 
   // 1) Vision stage (Google first)
   const vStart = Math.max(25, job.progress ?? 0);
-  await supabase.from('group_analysis_jobs').update({ current_stage: 'vision', status: job.status === 'pending' ? 'processing' : job.status, progress: vStart }).eq('id', job.id);
+  if (!done.has('vision:google')) {
+    await supabase.from('group_analysis_jobs').update({ current_stage: 'vision', status: job.status === 'pending' ? 'processing' : job.status, progress: vStart }).eq('id', job.id);
 
-  // Dispatch to vision function; it will emit its own started/completed events
-  await supabase.functions.invoke('group-vision-google', { body: { groupJobId: job.id } }).catch((e: any) => {
-    console.error('[group-ux-orchestrator] group-vision-google failed', e);
-  });
+    // Dispatch to vision function; it will emit its own started/completed events
+    await supabase.functions.invoke('group-vision-google', { body: { groupJobId: job.id } }).catch((e: any) => {
+      console.error('[group-ux-orchestrator] group-vision-google failed', e);
+    });
+  }
 
   const vDone = Math.max(55, vStart);
 
   // 2) Context stage (after metadata available)
-  await supabase.from('group_analysis_jobs').update({ current_stage: 'context', progress: vDone }).eq('id', job.id);
-  await insertEvent(supabase, job, { event_name: 'group-analysis/context.started', status: 'processing', progress: vDone });
-
-  const contextMeta = {
-    groupName: (job.metadata as any)?.groupName ?? null,
-    userContext: (job.metadata as any)?.userContext ?? null,
-    imageCount: Array.isArray(job.image_urls) ? job.image_urls.length : 0,
-    sample: Array.isArray(job.image_urls) ? job.image_urls.slice(0, 3) : [],
-  };
-  const ctxCompleted = Math.max(60, vDone);
-  await insertEvent(supabase, job, { event_name: 'group-analysis/context.completed', status: 'completed', progress: ctxCompleted, metadata: { context: contextMeta } });
-  await supabase.from('group_analysis_jobs').update({ current_stage: 'ai', progress: ctxCompleted }).eq('id', job.id);
+  if (await cancelled('context')) return;
+  if (!done.has('context')) {
+    const contextStartedAt = new Date().toISOString();
+    await supabase.from('group_analysis_jobs').update({ current_stage: 'context', progress: vDone }).eq('id', job.id);
+    await insertEvent(supabase, job, { event_name: 'group-analysis/context.started', status: 'processing', progress: vDone });
+
+    const contextMeta = {
+      groupName: (job.metadata as any)?.groupName ?? null,
+      userContext: (job.metadata as any)?.userContext ?? null,
+      imageCount: Array.isArray(job.image_urls) ? job.image_urls.length : 0,
+      sample: Array.isArray(job.image_urls) ? job.image_urls.slice(0, 3) : [],
+    };
+    const ctxCompleted = Math.max(60, vDone);
+    await insertEvent(supabase, job, { event_name: 'group-analysis/context.completed', status: 'completed', progress: ctxCompleted, metadata: { context: contextMeta } });
+    await saveStageResult(supabase, 'group', job.id, 'context', { context: contextMeta }, contextStartedAt);
+    await supabase.from('group_analysis_jobs').update({ current_stage: 'ai', progress: ctxCompleted }).eq('id', job.id);
+  }
 
   // 3) AI stage
-  const aiRes = await supabase.functions.invoke('group-ai-analysis', { body: { groupJobId: job.id } });
-  if ((aiRes as any).error) return; // group-ai-analysis logs its own failure
+  if (await cancelled('ai')) return;
+  if (!done.has('ai')) {
+    const { error: aiErr } = await supabase.functions.invoke('group-ai-analysis', { body: { groupJobId: job.id } });
+    if (aiErr) {
+      // group-ai-analysis logs its own failure event
+      await markJobFailed(supabase, 'group', job.id, 'ai', aiErr.message ?? 'group-ai-analysis failed');
+      return;
+    }
+  }
 
   // 4) Synthesis
-  await supabase.functions.invoke('group-synthesis', { body: { groupJobId: job.id } });
+  if (await cancelled('synthesis')) return;
+  if (!done.has('synthesis')) {
+    const { error: synthErr } = await supabase.functions.invoke('group-synthesis', { body: { groupJobId: job.id } });
+    if (synthErr) {
+      await markJobFailed(supabase, 'group', job.id, 'synthesis', synthErr.message ?? 'group-synthesis failed');
+    }
+  }
 }
 
 serve(async (req: Request) => {
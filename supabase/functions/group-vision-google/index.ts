@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { isJobCancelled, saveStageResult } from "../_shared/job-stages.ts";
 
 const corsHeaders: HeadersInit = {
   "Access-Control-Allow-Origin": "*",
@@ -54,6 +55,7 @@ serve(async (req: Request) => {
 
     if (jobErr) return Response.json({ error: jobErr.message }, { status: 500, headers: corsHeaders });
     if (!job) return Response.json({ error: "Group job not found" }, { status: 404, headers: corsHeaders });
+    if (job.status === 'cancelled') return Response.json({ cancelled: true, groupJobId }, { status: 409, headers: corsHeaders });
 
     const insertEvent = async (fields: Partial<{ event_name: string; status: string; progress: number; message: string; metadata: Json }>) => {
       const nowISO = new Date().toISOString();
@@ -114,10 +116,15 @@ serve(async (req: Request) => {
     const startedProgress = Math.max(30, job.progress ?? 0);
     await supabase.from('group_analysis_jobs').update({ current_stage: 'vision', status: job.status === 'pending' ? 'processing' : job.status, progress: startedProgress }).eq('id', job.id);
 
+    const stageStartedAt = new Date().toISOString();
     await insertEvent({ event_name: 'group-analysis/vision.started', status: 'processing', progress: startedProgress, metadata: { provider: 'google' } });
 
     const results: Array<{ url: string; result: Json | null; error?: string }> = [];
     for (const url of job.image_urls) {
+      // Large groups take a while; stop paying for Vision calls once the job is cancelled
+      if (await isJobCancelled(supabase, 'group', job.id)) {
+        return Response.json({ cancelled: true, groupJobId }, { status: 409, headers: corsHeaders });
+      }
       let data: any = null; let error: any = null;
       for (let attempt = 0; attempt < 3; attempt++) {
         const res = await supabase.functions.invoke('google-vision-metadata', { body: { imageUrl: url } });
@@ -134,6 +141,7 @@ serve(async (req: Request) => {
 
     const completedProgress = Math.max(55, startedProgress);
     await insertEvent({ event_name: 'group-analysis/vision.completed', status: 'completed', progress: completedProgress, metadata: { provider: 'google', result: { images: results } } });
+    await saveStageResult(supabase, 'group', job.id, 'vision:google', { provider: 'google', result: { images: results } }, stageStartedAt);
 
     return Response.json({ ok: true, groupJobId }, { status: 200, headers: corsHeaders });
   } catch (err) {
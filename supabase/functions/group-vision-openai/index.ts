@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { estimateImageTokens, openAIUsage, recordUsage } from "../_shared/usage.ts";
 
 const corsHeaders: HeadersInit = {
   "Access-Control-Allow-Origin": "*",
@@ -130,8 +131,10 @@ serve(async (req: Request) => {
     }
 
     let resp: Response | null = null;
+    let startedAt = Date.now();
     for (let attempt = 0; attempt < 3; attempt++) {
       try {
+        startedAt = Date.now();
         resp = await fetch('https://api.openai.com/v1/chat/completions', {
           method: 'POST',
           headers: { 'Authorization': `Bearer ${openAiKey}`, 'Content-Type': 'application/json' },
@@ -155,6 +158,10 @@ serve(async (req: Request) => {
     }
 
     const data = await resp.json();
+    await recordUsage(
+      { functionName: 'group-vision-openai', groupJobId: job.id, projectId: job.project_id, userId: job.user_id },
+      { provider: 'openai', model: 'gpt-4o-mini', stage: 'vision', ...openAIUsage(data), imageTokens: estimateImageTokens('openai', job.image_urls.length), latencyMs: Date.now() - startedAt }
+    );
     let parsed: Json | null = null;
     try {
       parsed = JSON.parse(data.choices?.[0]?.message?.content ?? '{}');
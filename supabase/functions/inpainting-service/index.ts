@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { recordUsage, type UsageContext } from '../_shared/usage.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -22,7 +23,7 @@ interface InpaintingResult {
 }
 
 // Stability AI inpainting function
-async function performStabilityAIInpainting(imageUrl: string, maskData: string, prompt: string): Promise<string> {
+async function performStabilityAIInpainting(imageUrl: string, maskData: string, prompt: string, usage: UsageContext): Promise<string> {
   const apiKey = Deno.env.get('STABILITY_API_KEY');
   if (!apiKey) {
     throw new Error('Stability AI API key not configured');
@@ -45,6 +46,7 @@ async function performStabilityAIInpainting(imageUrl: string, maskData: string,
     formData.append('output_format', 'png');
 
     // Call Stability AI inpainting API
+    const startedAt = Date.now();
     const response = await fetch('https://api.stability.ai/v2beta/stable-image/edit/inpaint', {
       method: 'POST',
       headers: {
@@ -58,6 +60,7 @@ async function performStabilityAIInpainting(imageUrl: string, maskData: string,
       const errorText = await response.text();
       throw new Error(`Stability AI API error: ${response.status} - ${errorText}`);
     }
+    await recordUsage(usage, { provider: 'stability', model: 'stable-image-inpaint', stage: 'inpainting', units: 1, latencyMs: Date.now() - startedAt });
 
     // Get the inpainted image as blob
     const imageBlob = await response.blob();
@@ -142,7 +145,11 @@ serve(async (req) => {
     }
 
     // Perform inpainting using Stability AI
-    const inpaintedImageUrl = await performStabilityAIInpainting(imageUrl, maskData, prompt);
+    const inpaintedImageUrl = await performStabilityAIInpainting(imageUrl, maskData, prompt, {
+      functionName: 'inpainting-service',
+      imageId,
+      userId
+    });
 
     // Prepare result
     const result: InpaintingResult = {
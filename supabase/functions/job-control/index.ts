@@ -0,0 +1,175 @@
+import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { checkProjectBudget } from "../_shared/budget.ts";
+import { clearStageResults, completedStages, PIPELINE_STAGES, type JobKind } from "../_shared/job-stages.ts";
+
+// Cancel or retry an analysis job (single image or group). Cancelling flips the job to 'cancelled';
+// the orchestrator and workers check for it between and inside stages. Retrying re-runs the
+// orchestrator, which skips every stage with saved output, optionally from an earlier stage.
+
+const corsHeaders: HeadersInit = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const JOB_TABLES: Record<JobKind, string> = {
+  analysis: "analysis_jobs",
+  group: "group_analysis_jobs",
+};
+
+const ORCHESTRATORS: Record<JobKind, string> = {
+  analysis: "ux-orchestrator",
+  group: "group-ux-orchestrator",
+};
+
+const EVENT_PREFIXES: Record<JobKind, string> = {
+  analysis: "analysis",
+  group: "group-analysis",
+};
+
+const ACTIVE_STATUSES = ["pending", "processing"];
+const RETRYABLE_STATUSES = ["failed", "cancelled"];
+
+function getAdminClient() {
+  const url = Deno.env.get("SUPABASE_URL");
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!url || !serviceKey) {
+    throw new Error("Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY in Edge Function secrets");
+  }
+  return createClient(url, serviceKey, { auth: { persistSession: false } });
+}
+
+serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const supabaseAnon = Deno.env.get("SUPABASE_ANON_KEY");
+  if (!supabaseUrl || !supabaseAnon) {
+    return Response.json({ success: false, error: "Supabase URL/Anon key not configured" }, { status: 500, headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== "POST") {
+      return Response.json({ success: false, error: "Method not allowed" }, { status: 405, headers: corsHeaders });
+    }
+
+    const authHeader = req.headers.get("Authorization") ?? "";
+    const jwt = authHeader.startsWith("Bearer ") ? authHeader.slice(7) : undefined;
+
+    // Caller's client: the job lookup below only succeeds for jobs the caller can see (RLS)
+    const userClient = createClient(supabaseUrl, supabaseAnon, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const { data: userData, error: userErr } = await userClient.auth.getUser(jwt);
+    if (userErr || !userData?.user?.id) {
+      return Response.json({ success: false, error: "Unauthorized: invalid or missing JWT" }, { status: 401, headers: corsHeaders });
+    }
+    const userId = userData.user.id;
+
+    const body = await req.json().catch(() => ({} as Record<string, unknown>));
+    const action = body.action;
+    const kind: JobKind = body.groupJobId ? "group" : "analysis";
+    const jobId = (body.groupJobId ?? body.jobId) as string | undefined;
+    const fromStage = typeof body.fromStage === "string" && body.fromStage ? body.fromStage : null;
+
+    if (action !== "cancel" && action !== "retry") {
+      return Response.json({ success: false, error: "action must be 'cancel' or 'retry'" }, { status: 400, headers: corsHeaders });
+    }
+    if (!jobId) {
+      return Response.json({ success: false, error: "jobId or groupJobId is required" }, { status: 400, headers: corsHeaders });
+    }
+    if (fromStage && !PIPELINE_STAGES[kind].some(stage => stage === fromStage || stage.split(":")[0] === fromStage)) {
+      return Response.json({ success: false, error: `Unknown stage: ${fromStage}` }, { status: 400, headers: corsHeaders });
+    }
+
+    const { data: job, error: jobErr } = await userClient
+      .from(JOB_TABLES[kind])
+      .select("id,user_id,project_id,status,current_stage,progress")
+      .eq("id", jobId)
+      .maybeSingle();
+    if (jobErr) {
+      return Response.json({ success: false, error: jobErr.message }, { status: 500, headers: corsHeaders });
+    }
+    if (!job || job.user_id !== userId) {
+      return Response.json({ success: false, error: "Job not found" }, { status: 404, headers: corsHeaders });
+    }
+
+    const supabase = getAdminClient();
+    const prefix = EVENT_PREFIXES[kind];
+    const insertEvent = async (eventName: string, status: string, message: string, metadata: Record<string, unknown> = {}) => {
+      const { error } = await supabase.from("analysis_events").insert({
+        id: crypto.randomUUID(),
+        [kind === "group" ? "group_job_id" : "job_id"]: job.id,
+        user_id: userId,
+        event_name: eventName,
+        stage: job.current_stage,
+        status,
+        progress: job.progress ?? 0,
+        message,
+        metadata,
+      });
+      if (error) console.error("[job-control] Failed to insert event", error);
+    };
+
+    if (action === "cancel") {
+      if (!ACTIVE_STATUSES.includes(job.status)) {
+        return Response.json({ success: false, error: `Job is already ${job.status}` }, { status: 409, headers: corsHeaders });
+      }
+      const { error: updErr } = await supabase
+        .from(JOB_TABLES[kind])
+        .update({ status: "cancelled", error: "Cancelled by user" })
+        .eq("id", job.id)
+        .in("status", ACTIVE_STATUSES);
+      if (updErr) {
+        return Response.json({ success: false, error: updErr.message }, { status: 500, headers: corsHeaders });
+      }
+      await insertEvent(`${prefix}/cancelled`, "cancelled", "Cancelled by user");
+      return Response.json({ success: true, jobId: job.id, status: "cancelled" }, { status: 200, headers: corsHeaders });
+    }
+
+    // Retry
+    if (!RETRYABLE_STATUSES.includes(job.status)) {
+      return Response.json({ success: false, error: `Only failed or cancelled jobs can be retried (job is ${job.status})` }, { status: 409, headers: corsHeaders });
+    }
+
+    // A retry spends money like a new job does, so the hard cap applies here too
+    const budget = await checkProjectBudget(userClient, job.project_id);
+    if (budget.blocked) {
+      return Response.json({ success: false, error: "budget_exceeded", message: budget.blocked }, { status: 402, headers: corsHeaders });
+    }
+
+    // Claim the job before touching its stages: of two concurrent retries only one moves it out of
+    // its failed or cancelled status, and only that one dispatches the pipeline
+    const { data: claimed, error: resetErr } = await supabase
+      .from(JOB_TABLES[kind])
+      .update({ status: "processing", error: null, completed_at: null })
+      .eq("id", job.id)
+      .eq("status", job.status)
+      .select("id");
+    if (resetErr) {
+      return Response.json({ success: false, error: resetErr.message }, { status: 500, headers: corsHeaders });
+    }
+    if (!claimed || claimed.length === 0) {
+      return Response.json({ success: false, error: "Job is already being retried" }, { status: 409, headers: corsHeaders });
+    }
+
+    if (fromStage) await clearStageResults(supabase, kind, job.id, fromStage);
+    const reused = [...await completedStages(supabase, kind, job.id)];
+
+    await insertEvent(`${prefix}/retry.started`, "processing", fromStage ? `Retrying from ${fromStage}` : "Retrying from failed stage", { fromStage, reused });
+
+    const orchestratorBody = kind === "group" ? { groupJobId: job.id } : { jobId: job.id };
+    const { error: orkErr } = await supabase.functions.invoke(ORCHESTRATORS[kind], { body: orchestratorBody });
+    if (orkErr) {
+      await supabase.from(JOB_TABLES[kind]).update({ status: "failed", error: `Orchestrator error on retry: ${orkErr.message ?? "unknown"}` }).eq("id", job.id);
+      return Response.json({ success: false, error: "Orchestrator failed" }, { status: 502, headers: corsHeaders });
+    }
+
+    return Response.json({ success: true, jobId: job.id, status: "processing", reused, budgetWarning: budget.warning }, { status: 202, headers: corsHeaders });
+  } catch (err) {
+    console.error("job-control error", err);
+    return Response.json({ success: false, error: err instanceof Error ? err.message : "Unknown error" }, { status: 500, headers: corsHeaders });
+  }
+});
@@ -1,6 +1,7 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.52.1';
+import { anthropicUsage, estimateImageTokens, openAIUsage, recordUsage, requestUserId, type UsageContext } from '../_shared/usage.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -22,6 +23,7 @@ interface NaturalAnalysisRequest {
   userContext?: string;
   analysisContext?: any;
   models?: string[];
+  imageId?: string;
 }
 
 interface ModelResponse {
@@ -88,7 +90,7 @@ Consider these aspects in your natural analysis:
 /**
  * Execute natural analysis with OpenAI
  */
-async function analyzeWithOpenAI(imageUrl: string, prompt: string): Promise<ModelResponse> {
+async function analyzeWithOpenAI(imageUrl: string, prompt: string, usage: UsageContext): Promise<ModelResponse> {
   const startTime = Date.now();
   
   try {
@@ -128,6 +130,7 @@ async function analyzeWithOpenAI(imageUrl: string, prompt: string): Promise<Mode
 
     const data = await response.json();
     const processingTime = Date.now() - startTime;
+    await recordUsage(usage, { provider: 'openai', model: 'gpt-4.1-2025-04-14', stage: 'natural', ...openAIUsage(data), imageTokens: estimateImageTokens('openai', 1), latencyMs: processingTime });
 
     return {
       model: 'gpt-4.1-2025-04-14',
@@ -149,7 +152,7 @@ async function analyzeWithOpenAI(imageUrl: string, prompt: string): Promise<Mode
 /**
  * Execute natural analysis with Anthropic Claude
  */
-async function analyzeWithClaude(imageUrl: string, prompt: string): Promise<ModelResponse> {
+async function analyzeWithClaude(imageUrl: string, prompt: string, usage: UsageContext): Promise<ModelResponse> {
   const startTime = Date.now();
   
   try {
@@ -206,6 +209,7 @@ async function analyzeWithClaude(imageUrl: string, prompt: string): Promise<Mode
 
     const data = await response.json();
     const processingTime = Date.now() - startTime;
+    await recordUsage(usage, { provider: 'anthropic', model: 'claude-sonnet-4-20250514', stage: 'natural', ...anthropicUsage(data), imageTokens: estimateImageTokens('anthropic', 1), latencyMs: processingTime });
 
     return {
       model: 'claude-sonnet-4-20250514',
@@ -227,7 +231,7 @@ async function analyzeWithClaude(imageUrl: string, prompt: string): Promise<Mode
 /**
  * Execute natural analysis with Google Vision (for metadata)
  */
-async function analyzeWithGoogleVision(imageUrl: string): Promise<ModelResponse> {
+async function analyzeWithGoogleVision(imageUrl: string, usage: UsageContext): Promise<ModelResponse> {
   const startTime = Date.now();
   
   try {
@@ -267,6 +271,8 @@ async function analyzeWithGoogleVision(imageUrl: string): Promise<ModelResponse>
 
     const data = await response.json();
     const processingTime = Date.now() - startTime;
+    // Five features requested above, billed per feature
+    await recordUsage(usage, { provider: 'google', model: 'google-vision', stage: 'natural', units: 5, latencyMs: processingTime });
 
     // Convert Google Vision data to natural language
     const visionResults = data.responses[0];
@@ -315,7 +321,8 @@ serve(async (req) => {
 
   try {
     const requestData: NaturalAnalysisRequest = await req.json();
-    const { imageUrl, userContext, analysisContext, models = ['openai', 'claude', 'google'] } = requestData;
+    const { imageUrl, userContext, analysisContext, models = ['openai', 'claude', 'google'], imageId } = requestData;
+    const usage: UsageContext = { functionName: 'natural-ai-analysis', imageId: imageId ?? null, userId: await requestUserId(req) };
 
     if (!imageUrl) {
       return new Response(
@@ -339,15 +346,15 @@ serve(async (req) => {
     const promises: Promise<ModelResponse>[] = [];
 
     if (models.includes('openai')) {
-      promises.push(analyzeWithOpenAI(imageUrl, naturalPrompt));
+      promises.push(analyzeWithOpenAI(imageUrl, naturalPrompt, usage));
     }
 
     if (models.includes('claude')) {
-      promises.push(analyzeWithClaude(imageUrl, naturalPrompt));
+      promises.push(analyzeWithClaude(imageUrl, naturalPrompt, usage));
     }
 
     if (models.includes('google')) {
-      promises.push(analyzeWithGoogleVision(imageUrl));
+      promises.push(analyzeWithGoogleVision(imageUrl, usage));
     }
 
     // Wait for all models to complete
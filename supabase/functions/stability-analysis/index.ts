@@ -1,6 +1,7 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+import { openAIUsage, recordUsage, requestUserId, type UsageContext } from '../_shared/usage.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -55,21 +56,23 @@ serve(async (req) => {
 
     const request: StabilityAnalysisRequest = await req.json();
     console.log('Processing Stability analysis request:', request.generationType);
+    const usage: UsageContext = { functionName: 'stability-analysis', imageId: request.analysis?.imageId ?? null, userId: await requestUserId(req) };
 
     // Analyze the UX analysis results to generate visual suggestions
-    const visualSuggestions = await generateVisualSuggestions(request, openaiApiKey);
+    const visualSuggestions = await generateVisualSuggestions(request, openaiApiKey, usage);
     
     // Generate images for high-priority suggestions if requested
     let generatedImages: any[] = [];
     if (request.generationType === 'mockups' || request.generationType === 'variations') {
       generatedImages = await generateMockupImages(
         visualSuggestions.filter(s => s.priority === 'high').slice(0, 3),
-        stabilityApiKey
+        stabilityApiKey,
+        usage
       );
     }
 
     // Generate analysis insights
-    const analysisInsights = await generateAnalysisInsights(request, openaiApiKey);
+    const analysisInsights = await generateAnalysisInsights(request, openaiApiKey, usage);
 
     const result = {
       success: true,
@@ -103,7 +106,8 @@ serve(async (req) => {
 
 async function generateVisualSuggestions(
   request: StabilityAnalysisRequest,
-  openaiApiKey: string
+  openaiApiKey: string,
+  usage: UsageContext
 ): Promise<VisualSuggestion[]> {
   try {
     const interfaceType = request.context?.image?.detectedType || 'interface';
@@ -148,6 +152,7 @@ Return as JSON array with this structure:
   ]
 }`;
 
+    const startedAt = Date.now();
     const response = await fetch('https://api.openai.com/v1/chat/completions', {
       method: 'POST',
       headers: {
@@ -166,6 +171,7 @@ Return as JSON array with this structure:
     });
 
     const data = await response.json();
+    await recordUsage(usage, { provider: 'openai', model: 'gpt-4o', stage: 'suggestions', ...openAIUsage(data), latencyMs: Date.now() - startedAt });
     const content = data.choices[0].message.content;
     
     try {
@@ -183,12 +189,14 @@ Return as JSON array with this structure:
 
 async function generateMockupImages(
   suggestions: VisualSuggestion[],
-  stabilityApiKey: string
+  stabilityApiKey: string,
+  usage: UsageContext
 ): Promise<Array<{ suggestionId: string; imageUrl: string; prompt: string; model: string }>> {
   const results = [];
 
   for (const suggestion of suggestions) {
     try {
+      const startedAt = Date.now();
       const response = await fetch('https://api.stability.ai/v2beta/stable-image/generate/sd3', {
         method: 'POST',
         headers: {
@@ -204,6 +212,7 @@ async function generateMockupImages(
       });
 
       if (response.ok) {
+        await recordUsage(usage, { provider: 'stability', model: 'sd3-large-turbo', stage: 'mockup', units: 1, latencyMs: Date.now() - startedAt });
         const imageBlob = await response.blob();
         const base64 = await blobToBase64(imageBlob);
         
@@ -224,7 +233,8 @@ async function generateMockupImages(
 
 async function generateAnalysisInsights(
   request: StabilityAnalysisRequest,
-  openaiApiKey: string
+  openaiApiKey: string,
+  usage: UsageContext
 ): Promise<{
   visualOpportunities: string[];
   designPatterns: string[];
@@ -245,6 +255,7 @@ Provide insights in these categories:
 
 Return as JSON with arrays for each category.`;
 
+    const startedAt = Date.now();
     const response = await fetch('https://api.openai.com/v1/chat/completions', {
       method: 'POST',
       headers: {
@@ -263,6 +274,7 @@ Return as JSON with arrays for each category.`;
     });
 
     const data = await response.json();
+    await recordUsage(usage, { provider: 'openai', model: 'gpt-4o', stage: 'insights', ...openAIUsage(data), latencyMs: Date.now() - startedAt });
     const content = data.choices[0].message.content;
     
     try {
@@ -1,5 +1,6 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { recordUsage, requestUserId, type UsageContext } from '../_shared/usage.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -19,6 +20,7 @@ interface VisualSuggestion {
 interface MockupRequest {
   imageUrl: string;
   suggestions: VisualSuggestion[];
+  imageId?: string;
   context?: any;
 }
 
@@ -38,6 +40,7 @@ serve(async (req) => {
 
     const request: MockupRequest = await req.json();
     console.log('Generating mockups for', request.suggestions.length, 'suggestions');
+    const usage: UsageContext = { functionName: 'stability-mockup-generator', imageId: request.imageId ?? null, userId: await requestUserId(req) };
 
     const generatedMockups = [];
 
@@ -58,6 +61,7 @@ serve(async (req) => {
         formData.append('output_format', 'png');
         formData.append('style_preset', 'digital-art');
 
+        const startedAt = Date.now();
         const response = await fetch('https://api.stability.ai/v2beta/stable-image/generate/sd3', {
           method: 'POST',
           headers: {
@@ -68,6 +72,7 @@ serve(async (req) => {
         });
 
         if (response.ok) {
+          await recordUsage(usage, { provider: 'stability', model: 'sd3-large-turbo', stage: 'mockup', units: 1, latencyMs: Date.now() - startedAt });
           const imageBlob = await response.blob();
           const base64 = await blobToBase64(imageBlob);
           
@@ -1,5 +1,8 @@
 // deno-lint-ignore-file no-explicit-any
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.4';
+import { checkProjectBudget, isBudgetExceededError } from '../_shared/budget.ts';
+import { framesToSteps, loadGroupImageIds, loadGroupJourney, loadJourneyFrames, type JourneyFrame, type JourneyStep } from '../_shared/journey.ts';
+import { loadPersona, type Persona } from '../_shared/persona.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -47,10 +50,14 @@ Deno.serve(async (req: Request) => {
     }
 
     const body = await req.json();
-    const { groupId, imageUrls, groupName, projectId = null, userContext = null, dispatchMode: rawDispatchMode } = body || {};
+    const { groupId, imageUrls, groupName, projectId = null, userContext = null, dispatchMode: rawDispatchMode, analysisMode: rawAnalysisMode, personaId = null } = body || {};
     const dispatchMode = (typeof rawDispatchMode === 'string' && ['inngest','direct','both'].includes(rawDispatchMode))
       ? (rawDispatchMode as 'inngest' | 'direct' | 'both')
       : 'inngest';
+    // 'comparison' runs a two-image before/after regression review through the same pipeline,
+    // 'persona' reviews the screens through the eyes of one end-user persona of the project
+    let analysisMode: 'group' | 'comparison' | 'journey' | 'persona' =
+      rawAnalysisMode === 'comparison' || rawAnalysisMode === 'persona' ? rawAnalysisMode : 'group';
 
     // Note: If INNGEST_EVENT_KEY is missing, we will fallback to direct orchestrator AFTER job insertion.
 
@@ -61,6 +68,20 @@ Deno.serve(async (req: Request) => {
       });
     }
 
+    if (analysisMode === 'comparison' && imageUrls.length !== 2) {
+      return new Response(JSON.stringify({ error: 'comparison analysis requires exactly two imageUrls (before, after)' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json', ...corsHeaders },
+      });
+    }
+
+    if (analysisMode === 'persona' && (!personaId || !projectId)) {
+      return new Response(JSON.stringify({ error: 'persona analysis requires personaId and projectId' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json', ...corsHeaders },
+      });
+    }
+
     // Get user
     const {
       data: { user },
@@ -85,6 +106,41 @@ Deno.serve(async (req: Request) => {
       });
     }
 
+    // Monthly project budget: the hard cap blocks the job, the soft cap only warns
+    const budget = await checkProjectBudget(supabase, projectId);
+    if (budget.blocked) {
+      return new Response(JSON.stringify({ error: 'budget_exceeded', message: budget.blocked }), {
+        status: 402,
+        headers: { 'Content-Type': 'application/json', ...corsHeaders },
+      });
+    }
+    const budgetWarning = budget.warning;
+
+    // A group of keyframes from one screen recording is reviewed as a journey with timestamps, a group
+    // marked as a journey as ordered steps; both get a review of every transition
+    let journeyFrames: JourneyFrame[] | null = null;
+    let journeySteps: JourneyStep[] | null = null;
+    if (analysisMode === 'group' && groupId) {
+      const groupImageIds = await loadGroupImageIds(supabase, groupId);
+      if (groupImageIds.length === imageUrls.length) {
+        journeyFrames = await loadJourneyFrames(supabase, groupImageIds);
+        journeySteps = journeyFrames ? framesToSteps(journeyFrames) : await loadGroupJourney(supabase, groupId, groupImageIds);
+        if (journeySteps) analysisMode = 'journey';
+      }
+    }
+
+    // The job keeps a snapshot of the persona so editing it later does not change what this run reviewed
+    let persona: Persona | null = null;
+    if (analysisMode === 'persona') {
+      persona = await loadPersona(supabase, personaId, projectId);
+      if (!persona) {
+        return new Response(JSON.stringify({ error: 'Persona not found in this project' }), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json', ...corsHeaders },
+        });
+      }
+    }
+
     // Insert job
     const { data: jobInsert, error: insertError } = await supabase
       .from('group_analysis_jobs')
@@ -97,11 +153,25 @@ Deno.serve(async (req: Request) => {
         progress: 0,
         current_stage: 'queued',
         error: null,
-        metadata: { groupName, userContext, dispatchMode },
+        metadata: {
+          groupName,
+          userContext,
+          dispatchMode,
+          analysisMode,
+          ...(journeyFrames ? { journeyFrames } : {}),
+          ...(journeySteps ? { journeySteps } : {}),
+          ...(persona ? { persona } : {}),
+        },
       })
       .select('id')
       .single();
 
+    if (isBudgetExceededError(insertError)) {
+      return new Response(JSON.stringify({ error: 'budget_exceeded', message: insertError!.message }), {
+        status: 402,
+        headers: { 'Content-Type': 'application/json', ...corsHeaders },
+      });
+    }
     if (insertError || !jobInsert) {
       console.error('[start-group-ux-analysis] Insert error:', insertError);
       return new Response(JSON.stringify({ error: 'Failed to create job' }), {
@@ -119,7 +189,7 @@ Deno.serve(async (req: Request) => {
         await supabase.from('group_analysis_jobs').update({ status: 'failed', error: `Direct orchestrator error: ${orkErr.message ?? 'unknown'}` }).eq('id', jobId);
         return new Response(JSON.stringify({ error: 'Direct orchestrator failed' }), { status: 502, headers: { 'Content-Type': 'application/json', ...corsHeaders } });
       }
-      return new Response(JSON.stringify({ jobId, dispatch: 'direct' }), { status: 202, headers: { 'Content-Type': 'application/json', ...corsHeaders } });
+      return new Response(JSON.stringify({ jobId, dispatch: 'direct', budgetWarning }), { status: 202, headers: { 'Content-Type': 'application/json', ...corsHeaders } });
     }
 
     // Fallback: If Inngest key is missing, run orchestrator directly
@@ -129,13 +199,13 @@ Deno.serve(async (req: Request) => {
         await supabase.from('group_analysis_jobs').update({ status: 'failed', error: `Direct orchestrator error (fallback): ${orkErr.message ?? 'unknown'}` }).eq('id', jobId);
         return new Response(JSON.stringify({ error: 'Missing INNGEST_EVENT_KEY and direct orchestrator failed' }), { status: 502, headers: { 'Content-Type': 'application/json', ...corsHeaders } });
       }
-      return new Response(JSON.stringify({ jobId, dispatch: 'direct' }), { status: 202, headers: { 'Content-Type': 'application/json', ...corsHeaders } });
+      return new Response(JSON.stringify({ jobId, dispatch: 'direct', budgetWarning }), { status: 202, headers: { 'Content-Type': 'application/json', ...corsHeaders } });
     }
 
     const eventEndpoint = buildInngestEndpoint(INNGEST_EVENT_KEY!);
     const inngestPayload = {
       name: 'group-ux-analysis/pipeline.started',
-      data: { jobId, userId: user.id, groupId: groupId || null, projectId, imageUrls, userContext, groupName: groupName || null, dispatchMode },
+      data: { jobId, userId: user.id, groupId: groupId || null, projectId, imageUrls, userContext, groupName: groupName || null, dispatchMode, analysisMode },
       id: jobId,
       ts: Date.now(),
     };
@@ -157,10 +227,10 @@ Deno.serve(async (req: Request) => {
         .invoke('group-ux-orchestrator', { body: { groupJobId: jobId } })
         .then(() => console.log('[start-group-ux-analysis] Orchestrator invoked (both mode)'))
         .catch((err) => console.error('[start-group-ux-analysis] Orchestrator invoke error (both mode):', err));
-      return new Response(JSON.stringify({ jobId, dispatch: 'inngest+direct' }), { status: 202, headers: { 'Content-Type': 'application/json', ...corsHeaders } });
+      return new Response(JSON.stringify({ jobId, dispatch: 'inngest+direct', budgetWarning }), { status: 202, headers: { 'Content-Type': 'application/json', ...corsHeaders } });
     }
 
-    return new Response(JSON.stringify({ jobId, dispatch: 'inngest' }), { status: 202, headers: { 'Content-Type': 'application/json', ...corsHeaders } });
+    return new Response(JSON.stringify({ jobId, dispatch: 'inngest', budgetWarning }), { status: 202, headers: { 'Content-Type': 'application/json', ...corsHeaders } });
   } catch (e: any) {
     console.error('[start-group-ux-analysis] Unexpected error:', e);
     return new Response(JSON.stringify({ error: e?.message || 'Unexpected error' }), {
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { checkProjectBudget, isBudgetExceededError } from "../_shared/budget.ts";
 
 // CORS for browser access
 const corsHeaders: HeadersInit = {
@@ -66,6 +67,13 @@ serve(async (req: Request) => {
       );
     }
 
+    // Callers often omit the project; cost accounting and budgets need it
+    let jobProjectId: string | null = projectId ?? null;
+    if (!jobProjectId) {
+      const { data: image } = await supabase.from("images").select("project_id").eq("id", imageId).maybeSingle();
+      jobProjectId = image?.project_id ?? null;
+    }
+
     // Server-side permission and rate limit check (blocks overuse)
     const { data: permitted, error: permErr } = await supabase.rpc('validate_user_permission', {
       operation: 'ai_analysis',
@@ -78,6 +86,16 @@ serve(async (req: Request) => {
       );
     }
 
+    // Monthly project budget: the hard cap blocks the job, the soft cap only warns
+    const budget = await checkProjectBudget(supabase, jobProjectId);
+    if (budget.blocked) {
+      return Response.json(
+        { success: false, error: "budget_exceeded", message: budget.blocked },
+        { status: 402, headers: corsHeaders },
+      );
+    }
+    const budgetWarning = budget.warning;
+
     // Insert job (RLS requires auth.uid() = user_id)
     const { data: jobInsert, error: insertErr } = await supabase
       .from("analysis_jobs")
@@ -85,7 +103,7 @@ serve(async (req: Request) => {
         user_id: userId,
         image_id: imageId,
         image_url: imageUrl,
-        project_id: projectId ?? null,
+        project_id: jobProjectId,
         user_context: userContext ?? null,
         status: "processing",
         progress: 0,
@@ -95,6 +113,12 @@ serve(async (req: Request) => {
       .select("id")
       .single();
 
+    if (isBudgetExceededError(insertErr)) {
+      return Response.json(
+        { success: false, error: "budget_exceeded", message: insertErr!.message },
+        { status: 402, headers: corsHeaders },
+      );
+    }
     if (insertErr || !jobInsert?.id) {
       return Response.json(
         { success: false, error: "Failed to create job", details: insertErr?.message },
@@ -111,7 +135,7 @@ serve(async (req: Request) => {
         await supabase.from('analysis_jobs').update({ status: 'failed', error: `Direct orchestrator error: ${orkErr.message ?? 'unknown'}` }).eq('id', jobId);
         return Response.json({ success: false, error: 'Direct orchestrator failed' }, { status: 502, headers: corsHeaders });
       }
-      return Response.json({ success: true, jobId, dispatch: 'direct' }, { status: 202, headers: corsHeaders });
+      return Response.json({ success: true, jobId, dispatch: 'direct', budgetWarning }, { status: 202, headers: corsHeaders });
     }
 
     if (dispatchMode !== 'direct' && !eventKey) {
@@ -121,13 +145,13 @@ serve(async (req: Request) => {
         await supabase.from('analysis_jobs').update({ status: 'failed', error: `Direct orchestrator error (fallback): ${orkErr.message ?? 'unknown'}` }).eq('id', jobId);
         return Response.json({ success: false, error: 'Missing INNGEST_EVENT_KEY and direct orchestrator failed' }, { status: 502, headers: corsHeaders });
       }
-      return Response.json({ success: true, jobId, dispatch: 'direct' }, { status: 202, headers: corsHeaders });
+      return Response.json({ success: true, jobId, dispatch: 'direct', budgetWarning }, { status: 202, headers: corsHeaders });
     }
 
     const endpoint = buildInngestEndpoint(eventKey!);
     const eventPayload = {
       name: 'ux-analysis/pipeline.started',
-      data: { jobId, imageId, imageUrl, projectId: projectId ?? null, userId, dispatchMode },
+      data: { jobId, imageId, imageUrl, projectId: jobProjectId, userId, dispatchMode },
       id: jobId,
       ts: Date.now(),
     };
@@ -149,10 +173,10 @@ serve(async (req: Request) => {
         .invoke('ux-orchestrator', { body: { jobId } })
         .then(() => console.log('[start-ux-analysis] Orchestrator invoked (both mode)'))
         .catch((err) => console.error('[start-ux-analysis] Orchestrator invoke error (both mode):', err));
-      return Response.json({ success: true, jobId, dispatch: 'inngest+direct' }, { status: 202, headers: corsHeaders });
+      return Response.json({ success: true, jobId, dispatch: 'inngest+direct', budgetWarning }, { status: 202, headers: corsHeaders });
     }
 
-    return Response.json({ success: true, jobId, dispatch: 'inngest' }, { status: 202, headers: corsHeaders });
+    return Response.json({ success: true, jobId, dispatch: 'inngest', budgetWarning }, { status: 202, headers: corsHeaders });
   } catch (err) {
     console.error("start-ux-analysis error", err);
     return Response.json(
@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { openAIUsage, recordUsage } from "../_shared/usage.ts";
+import { isJobCancelled, loadStageResult, saveStageResult } from "../_shared/job-stages.ts";
 
 const corsHeaders: HeadersInit = {
   "Access-Control-Allow-Origin": "*",
@@ -8,10 +10,29 @@ const corsHeaders: HeadersInit = {
 
 type Json = Record<string, unknown>;
 
+type RubricCriterion = {
+  id: string;
+  name: string;
+  description?: string;
+  weight?: number;
+  passGuidance?: string;
+  failGuidance?: string;
+};
+
+type Rubric = { id: string; name: string; description: string | null; criteria: RubricCriterion[] };
+
+type DesignToken = { name: string; value: string | number };
+type DesignTokenSet = {
+  id: string;
+  name: string;
+  tokens: { colors?: DesignToken[]; fontSizes?: DesignToken[]; spacing?: DesignToken[]; radii?: DesignToken[] };
+};
+
 type Job = {
   id: string;
   user_id: string | null;
   project_id: string | null;
+  image_id: string | null;
   image_url: string;
   status: string | null;
   progress: number | null;
@@ -27,6 +48,44 @@ function getAdminClient() {
   return createClient(url, serviceKey, { auth: { persistSession: false } });
 }
 
+// Scoring instructions for the project's active rubric; mirrors DynamicPromptBuilder on the client
+function buildRubricPrompt(rubric: Rubric): string {
+  const criteria = rubric.criteria.map((c, index) => {
+    const lines = [`${index + 1}. [${c.id}] ${c.name} (weight ${c.weight ?? 1})`];
+    if (c.description) lines.push(`   ${c.description}`);
+    if (c.passGuidance) lines.push(`   Pass: ${c.passGuidance}`);
+    if (c.failGuidance) lines.push(`   Fail: ${c.failGuidance}`);
+    return lines.join('\n');
+  });
+  return `Evaluation Rubric: ${rubric.name}
+${rubric.description ? `${rubric.description}\n` : ''}Score the interface against EVERY criterion below instead of generic categories:
+${criteria.join('\n')}
+
+Include in the summary object:
+"criterionScores": [{ "criterionId": "<id in brackets>", "score": 0-100, "verdict": "pass|partial|fail", "rationale": "one sentence citing what you saw" }]
+with exactly one entry per criterion, in the order listed.`;
+}
+
+// Asks for measurements that ux-synthesis checks against the project's design tokens
+function buildDesignTokenPrompt(tokenSet: DesignTokenSet): string {
+  const list = (tokens: DesignToken[] | undefined, unit = '') =>
+    (tokens ?? []).map(t => `${t.name}=${t.value}${unit}`).join(', ') || 'none';
+  return `Design tokens (${tokenSet.name}):
+Colors: ${list(tokenSet.tokens.colors)}
+Font sizes: ${list(tokenSet.tokens.fontSizes, 'px')}
+Spacing: ${list(tokenSet.tokens.spacing, 'px')}
+Radii: ${list(tokenSet.tokens.radii, 'px')}
+
+Add a top-level "measurements" object describing what the screen actually uses, in CSS pixels (halve values for a 2x screenshot):
+"measurements": {
+  "colors": [{ "hex": "#RRGGBB", "x": 0-1, "y": 0-1, "element": "what uses it" }],
+  "textSizes": [{ "px": number, "x": 0-1, "y": 0-1, "element": "heading, body copy, label..." }],
+  "spacing": [{ "px": number, "x": 0-1, "y": 0-1, "element": "gap or padding measured" }],
+  "radii": [{ "px": number, "x": 0-1, "y": 0-1, "element": "component" }]
+}
+x and y are the element's center relative to the image. Report the values you observe, not the nearest token; one entry per distinct usage, at most 15 per list.`;
+}
+
 serve(async (req: Request) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -48,12 +107,13 @@ serve(async (req: Request) => {
     // Load job
     const { data: job, error: jobErr } = await supabase
       .from("analysis_jobs")
-      .select("id,user_id,project_id,image_url,status,progress,current_stage")
+      .select("id,user_id,project_id,image_id,image_url,status,progress,current_stage")
       .eq("id", jobId)
       .maybeSingle<Job>();
 
     if (jobErr) return Response.json({ error: jobErr.message }, { status: 500, headers: corsHeaders });
     if (!job) return Response.json({ error: "Job not found" }, { status: 404, headers: corsHeaders });
+    if (job.status === "cancelled") return Response.json({ cancelled: true, jobId: job.id }, { status: 409, headers: corsHeaders });
 
     const insertEvent = async (fields: Partial<{ event_name: string; status: string; progress: number; message: string; metadata: Json }>) => {
       const nowISO = new Date().toISOString();
@@ -112,20 +172,28 @@ serve(async (req: Request) => {
       .update({ current_stage: "ai", status: job.status === "pending" ? "processing" : job.status, progress: startedProgress })
       .eq("id", job.id);
 
+    const stageStartedAt = new Date().toISOString();
     await insertEvent({ event_name: "analysis/ai.started", status: "processing", progress: startedProgress });
 
-    // Fetch latest context
-    const { data: ctxRows } = await supabase
-      .from("analysis_events")
-      .select("metadata, created_at")
-      .eq("job_id", job.id)
-      .eq("event_name", "analysis/context.completed")
-      .order("created_at", { ascending: false })
-      .limit(1);
-    const context = ctxRows?.[0]?.metadata?.context ?? null;
+    // Fetch latest context (saved stage output first, events for jobs started before stages were saved)
+    const fetchContext = async () => {
+      const saved = await loadStageResult<{ context?: unknown }>(supabase, 'analysis', job.id, 'context');
+      if (saved) return saved.context ?? null;
+      const { data: ctxRows } = await supabase
+        .from("analysis_events")
+        .select("metadata, created_at")
+        .eq("job_id", job.id)
+        .eq("event_name", "analysis/context.completed")
+        .order("created_at", { ascending: false })
+        .limit(1);
+      return ctxRows?.[0]?.metadata?.context ?? null;
+    };
+    const context = await fetchContext();
 
     // Fetch vision results per provider
     const fetchVision = async (provider: string) => {
+      const saved = await loadStageResult<{ result?: unknown }>(supabase, 'analysis', job.id, `vision:${provider}`);
+      if (saved) return saved.result ?? null;
       const { data } = await supabase
         .from("analysis_events")
         .select("metadata, created_at")
@@ -142,6 +210,35 @@ serve(async (req: Request) => {
       fetchVision("google"),
     ]);
 
+    // Active rubric of the job's project (jobs started from the canvas only carry the image)
+    let projectId = job.project_id;
+    if (!projectId && job.image_id) {
+      const { data: image } = await supabase.from("images").select("project_id").eq("id", job.image_id).maybeSingle();
+      projectId = image?.project_id ?? null;
+    }
+    let rubric: Rubric | null = null;
+    if (projectId) {
+      const { data: rubricRow } = await supabase
+        .from("analysis_rubrics")
+        .select("id,name,description,criteria")
+        .eq("project_id", projectId)
+        .eq("is_active", true)
+        .maybeSingle();
+      if (rubricRow && Array.isArray(rubricRow.criteria) && rubricRow.criteria.length > 0) {
+        rubric = rubricRow as Rubric;
+      }
+    }
+
+    let designTokens: DesignTokenSet | null = null;
+    if (projectId) {
+      const { data: tokenRow } = await supabase
+        .from("design_token_sets")
+        .select("id,name,tokens")
+        .eq("project_id", projectId)
+        .maybeSingle();
+      if (tokenRow) designTokens = tokenRow as DesignTokenSet;
+    }
+
     const openAiKey = Deno.env.get("OPENAI_API_KEY");
     if (!openAiKey) {
       await insertEvent({ event_name: "analysis/ai.failed", status: "failed", progress: startedProgress, message: "OPENAI_API_KEY not configured" });
@@ -151,6 +248,8 @@ serve(async (req: Request) => {
     // Build analysis prompt
     const promptUser = `You are a senior UX analyst. Merge the provided context and vision findings into a structured UX review.
 Return JSON with keys: summary(object), suggestions(array of {id, title, description, impact: high|medium|low}), visualAnnotations(array), metadata(object).
+Each visualAnnotation is {id, type: issue|suggestion|success, title, description, severity: high|medium|low, x, y, region} with coordinates normalized 0-1 from the top-left of the screenshot.
+region outlines the element the annotation refers to: {"shape": "rect", "x", "y", "width", "height"} for boxes, or {"shape": "polygon", "points": [{"x", "y"}, ...]} for irregular areas; x/y is the point to pin inside it.
 Only return valid JSON.`;
 
     const messages = [
@@ -160,12 +259,16 @@ Only return valid JSON.`;
         { type: 'text', text: `Context:\n${JSON.stringify(context ?? {})}` },
         { type: 'text', text: `Vision (OpenAI):\n${JSON.stringify(visionOpenAI ?? {})}` },
         { type: 'text', text: `Vision (Google):\n${JSON.stringify(visionGoogle ?? {})}` },
+        ...(rubric ? [{ type: 'text', text: buildRubricPrompt(rubric) }] : []),
+        ...(designTokens ? [{ type: 'text', text: buildDesignTokenPrompt(designTokens) }] : []),
       ]},
     ];
 
     let resp: Response | null = null;
+    let startedAt = Date.now();
     for (let attempt = 0; attempt < 3; attempt++) {
       try {
+        startedAt = Date.now();
         resp = await fetch('https://api.openai.com/v1/chat/completions', {
           method: 'POST',
           headers: {
@@ -192,6 +295,10 @@ Only return valid JSON.`;
     }
 
     const data = await resp.json();
+    await recordUsage(
+      { functionName: 'ux-ai-analysis', jobId: job.id, imageId: job.image_id, projectId, userId: job.user_id },
+      { provider: 'openai', model: 'gpt-4o', stage: 'ai', ...openAIUsage(data), latencyMs: Date.now() - startedAt }
+    );
     let parsed: Json | null = null;
     try {
       parsed = JSON.parse(data.choices?.[0]?.message?.content ?? '{}');
@@ -200,8 +307,14 @@ Only return valid JSON.`;
       return Response.json({ error: 'Failed to parse AI response' }, { status: 500, headers: corsHeaders });
     }
 
+    if (await isJobCancelled(supabase, 'analysis', job.id)) {
+      return Response.json({ cancelled: true, jobId: job.id }, { status: 409, headers: corsHeaders });
+    }
+
     const completedProgress = Math.max(85, startedProgress);
-    await insertEvent({ event_name: "analysis/ai.completed", status: "completed", progress: completedProgress, metadata: { analysis: parsed } });
+    const aiResult = { analysis: parsed, ...(rubric ? { rubric } : {}), ...(designTokens ? { designTokens } : {}) };
+    await insertEvent({ event_name: "analysis/ai.completed", status: "completed", progress: completedProgress, metadata: aiResult });
+    await saveStageResult(supabase, 'analysis', job.id, 'ai', aiResult, stageStartedAt);
 
     await supabase
       .from("analysis_jobs")
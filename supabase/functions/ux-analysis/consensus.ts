@@ -0,0 +1,244 @@
+// Cross-model consensus for multi-model analyses: near-duplicate findings from different models are
+// clustered into one finding that records which models reported it, how many of the models agree and
+// whether they disagree on severity. Mirrors FindingConsensus / ModelAgreement in src/types/ux-analysis.ts.
+
+type Finding = Record<string, unknown>;
+
+export type ModelFindings = {
+  model: string;
+  annotations: Finding[];
+  suggestions: Finding[];
+};
+
+export type FindingConsensus = {
+  sourceModels: string[];
+  modelCount: number;
+  agreement: number;
+  severityByModel?: Record<string, string>;
+  needsReview: boolean;
+};
+
+export type ModelAgreement = {
+  models: string[];
+  findings: number;
+  agreed: number;
+  singleModel: number;
+  needsReview: number;
+  agreementRate: number;
+};
+
+// Minimum similarity for two findings from different models to count as the same finding
+const ANNOTATION_MATCH_THRESHOLD = 0.45;
+const SUGGESTION_MATCH_THRESHOLD = 0.4;
+// Anchor distance (fraction of the screen) beyond which two annotations are not spatially related
+const ANCHOR_RADIUS = 0.25;
+
+const SEVERITY_RANK: Record<string, number> = { low: 1, medium: 2, high: 3, critical: 4 };
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'are', 'can', 'could', 'should', 'from', 'into', 'not', 'but',
+  'have', 'has', 'may', 'more', 'less', 'its', 'their', 'there', 'than', 'which', 'will', 'make', 'users', 'user',
+  'page', 'screen', 'interface', 'design', 'element', 'elements', 'area', 'improve', 'consider', 'use', 'using'
+]);
+
+function tokens(value: unknown): Set<string> {
+  if (typeof value !== 'string') return new Set();
+  return new Set(
+    value.toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(word => word.length > 2 && !STOPWORDS.has(word))
+      .map(word => word.length > 4 ? word.replace(/(ing|ed|es|s)$/, '') : word)
+  );
+}
+
+function dice(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const word of a) if (b.has(word)) shared++;
+  return (2 * shared) / (a.size + b.size);
+}
+
+function textSimilarity(a: Finding, b: Finding): number {
+  const titleA = tokens(a.title);
+  const titleB = tokens(b.title);
+  const allA = new Set([...titleA, ...tokens(a.description)]);
+  const allB = new Set([...titleB, ...tokens(b.description)]);
+  return Math.max(dice(titleA, titleB), dice(allA, allB));
+}
+
+function num(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+function boundsOf(finding: Finding): { x: number; y: number; width: number; height: number } | null {
+  const region = finding.region as Record<string, unknown> | undefined;
+  if (!region || typeof region !== 'object') return null;
+  if (Array.isArray(region.points)) {
+    const points = (region.points as Array<Record<string, unknown>>).filter(p => num(p?.x) != null && num(p?.y) != null);
+    if (points.length < 3) return null;
+    const xs = points.map(p => p.x as number);
+    const ys = points.map(p => p.y as number);
+    return { x: Math.min(...xs), y: Math.min(...ys), width: Math.max(...xs) - Math.min(...xs), height: Math.max(...ys) - Math.min(...ys) };
+  }
+  const [x, y, width, height] = [region.x, region.y, region.width, region.height].map(num);
+  return x != null && y != null && width != null && height != null ? { x, y, width, height } : null;
+}
+
+function spatialSimilarity(a: Finding, b: Finding): number {
+  const boxA = boundsOf(a);
+  const boxB = boundsOf(b);
+  if (boxA && boxB) {
+    const overlapX = Math.max(0, Math.min(boxA.x + boxA.width, boxB.x + boxB.width) - Math.max(boxA.x, boxB.x));
+    const overlapY = Math.max(0, Math.min(boxA.y + boxA.height, boxB.y + boxB.height) - Math.max(boxA.y, boxB.y));
+    const overlap = overlapX * overlapY;
+    const union = boxA.width * boxA.height + boxB.width * boxB.height - overlap;
+    if (union > 0 && overlap > 0) return overlap / union;
+  }
+  const [ax, ay, bx, by] = [a.x, a.y, b.x, b.y].map(num);
+  if (ax == null || ay == null || bx == null || by == null) return 0;
+  return Math.max(0, 1 - Math.hypot(ax - bx, ay - by) / ANCHOR_RADIUS);
+}
+
+function annotationSimilarity(a: Finding, b: Finding): number {
+  return 0.6 * textSimilarity(a, b) + 0.4 * spatialSimilarity(a, b);
+}
+
+function suggestionSimilarity(a: Finding, b: Finding): number {
+  const sameCategory = a.category != null && a.category === b.category;
+  return textSimilarity(a, b) + (sameCategory ? 0.1 : 0);
+}
+
+type Cluster = { members: Array<{ model: string; finding: Finding }> };
+
+/**
+ * Greedy clustering: each finding joins the most similar cluster that has nothing from its model yet
+ */
+function cluster(
+  sources: Array<{ model: string; findings: Finding[] }>,
+  similarity: (a: Finding, b: Finding) => number,
+  threshold: number
+): Cluster[] {
+  const clusters: Cluster[] = [];
+  for (const { model, findings } of sources) {
+    for (const finding of findings) {
+      if (!finding || typeof finding !== 'object') continue;
+      let best: Cluster | null = null;
+      let bestScore = threshold;
+      for (const candidate of clusters) {
+        if (candidate.members.some(member => member.model === model)) continue;
+        const score = Math.max(...candidate.members.map(member => similarity(member.finding, finding)));
+        if (score >= bestScore) {
+          best = candidate;
+          bestScore = score;
+        }
+      }
+      if (best) best.members.push({ model, finding });
+      else clusters.push({ members: [{ model, finding }] });
+    }
+  }
+  return clusters;
+}
+
+// A finding's id is only unique within the model that reported it
+const sourceKey = (model: string, id: unknown) => `${model}/${String(id)}`;
+
+/**
+ * Merge each cluster into one finding. survivingIds records the id every member finding ends up under;
+ * relatedIds, when given, maps relatedAnnotations of the members onto the merged annotation ids.
+ */
+function merge(
+  clusters: Cluster[],
+  severityKey: 'severity' | 'impact',
+  modelCount: number,
+  usedIds: Set<string>,
+  survivingIds: Map<string, string>,
+  relatedIds?: Map<string, string>
+): Finding[] {
+  const merged = clusters.map(({ members }) => {
+    const severities = members.map(m => String(m.finding[severityKey] ?? 'medium'));
+    const severityDisagreement = new Set(severities).size > 1;
+    // Keep the most severe rating so a disputed finding is not buried until someone reviews it
+    const severity = severities.reduce((worst, s) => (SEVERITY_RANK[s] ?? 0) > (SEVERITY_RANK[worst] ?? 0) ? s : worst);
+    const primary = members[0].finding;
+    const sourceModels = members.map(m => m.model);
+
+    const consensus: FindingConsensus = {
+      sourceModels,
+      modelCount,
+      agreement: Math.round((sourceModels.length / modelCount) * 100) / 100,
+      ...(members.length > 1 ? { severityByModel: Object.fromEntries(members.map((m, i) => [m.model, severities[i]])) } : {}),
+      needsReview: severityDisagreement,
+    };
+
+    const finding: Finding = { ...primary, [severityKey]: severity, consensus };
+    if (Array.isArray(primary.actionItems)) {
+      const items = members.flatMap(m => Array.isArray(m.finding.actionItems) ? m.finding.actionItems : []);
+      finding.actionItems = items.filter((item, i) => items.indexOf(item) === i);
+    }
+    // References to annotations that were renamed or merged away would otherwise dangle
+    if (relatedIds && members.some(m => Array.isArray(m.finding.relatedAnnotations))) {
+      const related = members.flatMap(m => (Array.isArray(m.finding.relatedAnnotations) ? m.finding.relatedAnnotations : [])
+        .map(ref => relatedIds.get(sourceKey(m.model, ref)))
+        .filter((ref): ref is string => !!ref));
+      finding.relatedAnnotations = related.filter((ref, i) => related.indexOf(ref) === i);
+    }
+
+    // Models number their findings independently, so ids can collide across models
+    let id = String(primary.id ?? `finding_${usedIds.size + 1}`);
+    if (usedIds.has(id)) id = `${id}-${members[0].model}`;
+    usedIds.add(id);
+    finding.id = id;
+    members.forEach(m => {
+      if (m.finding.id != null) survivingIds.set(sourceKey(m.model, m.finding.id), id);
+    });
+    return finding;
+  });
+
+  // Findings more models agree on first, then by severity
+  return merged.sort((a, b) => {
+    const agreement = (b.consensus as FindingConsensus).agreement - (a.consensus as FindingConsensus).agreement;
+    return agreement !== 0 ? agreement : (SEVERITY_RANK[String(b[severityKey])] ?? 0) - (SEVERITY_RANK[String(a[severityKey])] ?? 0);
+  });
+}
+
+export function buildConsensus(sources: ModelFindings[]): {
+  visualAnnotations: Finding[];
+  suggestions: Finding[];
+  modelAgreement: ModelAgreement;
+} {
+  const models = sources.map(source => source.model);
+  const modelCount = Math.max(1, models.length);
+  const usedIds = new Set<string>();
+  const annotationIds = new Map<string, string>();
+
+  const visualAnnotations = merge(
+    cluster(sources.map(s => ({ model: s.model, findings: s.annotations })), annotationSimilarity, ANNOTATION_MATCH_THRESHOLD),
+    'severity',
+    modelCount,
+    usedIds,
+    annotationIds
+  );
+  const suggestions = merge(
+    cluster(sources.map(s => ({ model: s.model, findings: s.suggestions })), suggestionSimilarity, SUGGESTION_MATCH_THRESHOLD),
+    'impact',
+    modelCount,
+    usedIds,
+    new Map(),
+    annotationIds
+  );
+
+  const all = [...visualAnnotations, ...suggestions].map(f => f.consensus as FindingConsensus);
+  const agreed = modelCount > 1 ? all.filter(c => c.sourceModels.length === modelCount).length : 0;
+  return {
+    visualAnnotations,
+    suggestions,
+    modelAgreement: {
+      models,
+      findings: all.length,
+      agreed,
+      singleModel: all.filter(c => c.sourceModels.length === 1).length,
+      needsReview: all.filter(c => c.needsReview).length,
+      agreementRate: all.length > 0 ? Math.round((agreed / all.length) * 100) : 0,
+    },
+  };
+}
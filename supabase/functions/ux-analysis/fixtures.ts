@@ -0,0 +1,172 @@
+// Recorded model responses replayed by the mock provider (LLM_PROVIDER_OVERRIDE=mock or model "mock").
+// Lookup order: "<model>:<stage>", "<stage>", "default"; LLM_FIXTURES (a JSON object with the same keys)
+// takes precedence over the built-in fixtures so tests can replay their own recordings.
+
+type Fixture = Record<string, unknown>;
+
+// 1x1 transparent PNG
+export const MOCK_IMAGE_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+const ANALYSIS: Fixture = {
+  visualAnnotations: [
+    {
+      id: 'mock-nav-contrast',
+      x: 0.5,
+      y: 0.06,
+      region: { shape: 'rect', x: 0.05, y: 0.02, width: 0.9, height: 0.08 },
+      type: 'issue',
+      title: 'Low contrast navigation links',
+      description: 'Navigation links use light gray text on a white header and are hard to read.',
+      severity: 'high'
+    },
+    {
+      id: 'mock-cta',
+      x: 0.3,
+      y: 0.45,
+      region: { shape: 'rect', x: 0.2, y: 0.41, width: 0.2, height: 0.08 },
+      type: 'suggestion',
+      title: 'Primary call to action competes with secondary actions',
+      description: 'The primary button has the same weight as the secondary link next to it.',
+      severity: 'medium'
+    },
+    {
+      id: 'mock-hero',
+      x: 0.5,
+      y: 0.3,
+      type: 'success',
+      title: 'Clear hero headline',
+      description: 'The headline states the value proposition in one line.',
+      severity: 'low'
+    }
+  ],
+  suggestions: [
+    {
+      id: 'mock-suggestion-contrast',
+      category: 'accessibility',
+      title: 'Increase navigation text contrast',
+      description: 'Darken navigation link text to meet WCAG AA contrast of 4.5:1.',
+      impact: 'high',
+      effort: 'low',
+      actionItems: ['Darken the navigation link color', 'Check contrast with a WCAG checker'],
+      relatedAnnotations: ['mock-nav-contrast']
+    },
+    {
+      id: 'mock-suggestion-cta',
+      category: 'visual',
+      title: 'Emphasize the primary call to action',
+      description: 'Give the primary button a filled style and demote the secondary action to a text link.',
+      impact: 'medium',
+      effort: 'low',
+      actionItems: ['Use the brand color for the primary button', 'Style the secondary action as a link'],
+      relatedAnnotations: ['mock-cta']
+    }
+  ],
+  summary: {
+    overallScore: 72,
+    categoryScores: { usability: 74, accessibility: 61, visual: 78, content: 75 },
+    keyIssues: ['Low contrast navigation links', 'Primary call to action lacks emphasis'],
+    strengths: ['Clear hero headline', 'Consistent spacing']
+  }
+};
+
+// A second model that agrees on contrast, rates it differently and adds its own finding,
+// so offline runs exercise cross-model consensus
+const ANALYSIS_SECOND_OPINION: Fixture = {
+  visualAnnotations: [
+    {
+      id: 'mock-nav-contrast',
+      x: 0.52,
+      y: 0.07,
+      region: { shape: 'rect', x: 0.06, y: 0.02, width: 0.88, height: 0.09 },
+      type: 'issue',
+      title: 'Navigation contrast too low',
+      description: 'Gray navigation links on white are hard to read.',
+      severity: 'medium'
+    },
+    {
+      id: 'mock-form-labels',
+      x: 0.5,
+      y: 0.7,
+      region: { shape: 'rect', x: 0.3, y: 0.62, width: 0.4, height: 0.16 },
+      type: 'issue',
+      title: 'Form fields rely on placeholder text',
+      description: 'Inputs have no visible labels once the user starts typing.',
+      severity: 'medium'
+    }
+  ],
+  suggestions: [
+    {
+      id: 'mock-suggestion-contrast',
+      category: 'accessibility',
+      title: 'Improve navigation text contrast',
+      description: 'Use a darker color for navigation links.',
+      impact: 'high',
+      effort: 'low',
+      actionItems: ['Darken the navigation link color'],
+      relatedAnnotations: ['mock-nav-contrast']
+    },
+    {
+      id: 'mock-suggestion-labels',
+      category: 'usability',
+      title: 'Add persistent labels to form fields',
+      description: 'Place a visible label above each input instead of relying on placeholders.',
+      impact: 'medium',
+      effort: 'low',
+      actionItems: ['Add labels above inputs'],
+      relatedAnnotations: ['mock-form-labels']
+    }
+  ],
+  summary: {
+    overallScore: 68,
+    categoryScores: { usability: 66, accessibility: 58, visual: 76, content: 72 },
+    keyIssues: ['Navigation contrast too low', 'Form fields rely on placeholder text'],
+    strengths: ['Clear visual hierarchy']
+  }
+};
+
+const FIXTURES: Record<string, Fixture> = {
+  'context-detection': {
+    primaryType: 'landing',
+    subTypes: ['marketing'],
+    domain: 'saas',
+    complexity: 'moderate',
+    userIntent: ['sign up', 'learn about the product'],
+    platform: 'web',
+    confidence: 0.9
+  },
+  'analysis': ANALYSIS,
+  'claude-opus-4-20250514:analysis': ANALYSIS_SECOND_OPINION,
+  'strategic-insights': {
+    primaryConcern: 'Visitors cannot easily find and read the navigation, which hides key pages.',
+    strategicRecommendation: {
+      title: 'Make navigation and the primary action unmistakable',
+      businessJustification: 'Readable navigation and a single clear call to action are the cheapest levers on sign-up rate.',
+      expectedOutcome: 'More visitors reach pricing and sign-up without hunting for them.'
+    }
+  },
+  'default': ANALYSIS
+};
+
+function recordedFixtures(): Record<string, Fixture> {
+  const raw = Deno.env.get('LLM_FIXTURES');
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    console.warn('⚠️ LLM_FIXTURES is not valid JSON; using built-in fixtures');
+    return {};
+  }
+}
+
+export function replayFixture(model: string, stage: string, prompt = ''): Fixture {
+  const recorded = recordedFixtures();
+  for (const key of [`${model}:${stage}`, stage, 'default']) {
+    const fixture = recorded[key] ?? FIXTURES[key];
+    if (fixture) {
+      console.log(`🧪 Mock provider replaying fixture "${key}" (prompt ${prompt.length} chars)`);
+      return fixture;
+    }
+  }
+  return ANALYSIS;
+}
@@ -1,6 +1,9 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.52.1';
+import { buildConsensus } from './consensus.ts';
+import { getProvider, isOfflineMode, providerOverride, type ChatRequest, type LLMProvider } from './providers.ts';
+import { estimateImageTokens, recordUsage, requestUserId, type UsageContext } from '../_shared/usage.ts';
 
 /**
  * Smart Text Formatter for Converting JSON Analysis to Human-Readable Text
@@ -810,28 +813,45 @@ class AnalysisValidator {
   }
 }
 
-// Available model configurations
-const MODEL_CONFIGS = {
+// Available model configurations. `provider` names an adapter registered in providers.ts;
+// `endpoint` and `model` override the provider defaults and the requested model name.
+type ModelConfig = {
+  provider: string;
+  // Image models call generateImage instead of chat
+  kind?: 'chat' | 'image';
+  endpoint?: string;
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+};
+
+const MODEL_CONFIGS: Record<string, ModelConfig> = {
   'gpt-4o': {
-    api: 'openai',
-    endpoint: 'https://api.openai.com/v1/chat/completions',
-    requiresKey: 'OPENAI_API_KEY'
+    provider: 'openai'
   },
   'claude-opus-4-20250514': {
-    api: 'anthropic',
-    endpoint: 'https://api.anthropic.com/v1/messages',
-    requiresKey: 'ANTHROPIC_API_KEY'
+    provider: 'anthropic'
+  },
+  'gemini-2.5-pro': {
+    provider: 'gemini'
   },
   'perplexity-research': {
-    api: 'perplexity',
-    endpoint: 'https://api.perplexity.ai/chat/completions',
+    provider: 'perplexity',
     model: 'llama-3.1-sonar-small-128k-online',
-    requiresKey: 'PERPLEXITY_API_KEY'
+    maxTokens: 2000,
+    temperature: 0.2
+  },
+  // Served by the self-hosted endpoint at OPENAI_COMPATIBLE_BASE_URL
+  'llama-2-70b-chat': {
+    provider: 'openai-compatible'
   },
   'stability-inpainting': {
-    api: 'stability',
-    endpoint: 'https://api.stability.ai/v1/generation/stable-diffusion-v1-6/image-to-image',
-    requiresKey: 'STABILITY_API_KEY'
+    provider: 'stability',
+    kind: 'image'
+  },
+  // Replays recorded fixtures; no network or API key needed
+  'mock': {
+    provider: 'mock'
   }
 }
 
@@ -859,7 +879,10 @@ serve(async (req) => {
       anthropic: !!Deno.env.get('ANTHROPIC_API_KEY'),
       google: !!Deno.env.get('GOOGLE_VISION_API_KEY'),
       perplexity: !!Deno.env.get('PERPLEXITY_API_KEY'),
-      stability: !!Deno.env.get('STABILITY_API_KEY')
+      stability: !!Deno.env.get('STABILITY_API_KEY'),
+      gemini: !!Deno.env.get('GEMINI_API_KEY'),
+      openaiCompatible: !!Deno.env.get('OPENAI_COMPATIBLE_BASE_URL'),
+      mock: isOfflineMode()
     }
     
     console.log('📝 Available APIs:', availableAPIs)
@@ -939,7 +962,7 @@ serve(async (req) => {
         case 'GENERATE_CONCEPT':
           // Handle concept generation
           console.log('💡 Processing GENERATE_CONCEPT request')
-          return await handleConceptGeneration(body)
+          return await handleConceptGeneration(body, req)
         
         default:
           throw new Error(`Unknown action: ${actionType}`)
@@ -1097,29 +1120,164 @@ async function executeModel(payload: any) {
     throw new Error(`Unknown model: ${model} (mapped to: ${mappedModel}). Available models: ${availableModels.join(', ')}. Did you mean: ${suggestion}?`)
   }
 
-  const apiKey = Deno.env.get(modelConfig.requiresKey)
-  if (!apiKey) {
+  return await executeModelConfig(modelConfig, payload)
+}
+
+/**
+ * Resolve the provider serving a model config; LLM_PROVIDER_OVERRIDE (e.g. "mock") takes precedence
+ */
+function resolveProvider(modelConfig: ModelConfig): { provider: LLMProvider; endpoint: string; apiKey?: string } {
+  const override = providerOverride()
+  const providerId = override || modelConfig.provider
+  const provider = getProvider(providerId)
+  if (!provider) {
+    throw new Error(`Unsupported provider: ${providerId}`)
+  }
+
+  // An override replaces the whole provider, so the model's endpoint no longer applies
+  const endpoint = (override ? undefined : modelConfig.endpoint) || provider.endpoint
+  if (!endpoint && providerId !== 'mock') {
+    throw new Error(`No endpoint configured for provider ${providerId}.`)
+  }
+
+  const apiKey = provider.keyEnv ? Deno.env.get(provider.keyEnv) : undefined
+  if (provider.keyEnv && !apiKey && !provider.keyOptional) {
     throw new Error(
-      `${modelConfig.requiresKey} not configured. This model requires ${modelConfig.api} API access.`
+      `${provider.keyEnv} not configured. This model requires ${provider.id} API access.`
     )
   }
 
-  // Execute based on API type
-  switch (modelConfig.api) {
-    case 'openai':
-      return await executeOpenAI(modelConfig, apiKey, payload)
-    
-    case 'anthropic':
-      return await executeAnthropic(modelConfig, apiKey, payload)
-    
-    case 'perplexity':
-      return await executePerplexity(modelConfig, apiKey, payload)
-    
-    case 'stability':
-      return await executeStability(modelConfig, apiKey, payload)
-    
-    default:
-      throw new Error(`Unsupported API: ${modelConfig.api}`)
+  return { provider, endpoint: endpoint || '', apiKey }
+}
+
+// Prefer base64 sent by the frontend over fetching the URL
+async function loadPayloadImage(payload: any): Promise<{ base64: string; mediaType: string } | null> {
+  const { imageUrl, imageBase64 } = payload
+  if (imageBase64) {
+    console.log('Using provided base64 image data, length:', imageBase64.length)
+    return { base64: imageBase64, mediaType: detectImageFormat(imageUrl || '', imageBase64) }
+  }
+  if (!imageUrl) return null
+  if (imageUrl.startsWith('data:')) {
+    console.log('Using existing data URL')
+    return { base64: imageUrl.split(',')[1], mediaType: detectImageFormat(imageUrl) }
+  }
+  console.log('Converting image URL to base64...')
+  const base64 = await fetchImageAsBase64(imageUrl)
+  return { base64, mediaType: detectImageFormat(imageUrl, base64) }
+}
+
+function jsonResponse(data: unknown) {
+  return new Response(
+    JSON.stringify(data),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+}
+
+async function executeModelConfig(modelConfig: ModelConfig, payload: any) {
+  const { provider, endpoint, apiKey } = resolveProvider(modelConfig)
+  const model = modelConfig.model || payload.model
+  const usage: UsageContext = { functionName: 'ux-analysis', jobId: payload.jobId, imageId: payload.imageId }
+  // Offline replays are free whatever model they stand in for
+  const billedModel = provider.id === 'mock' ? 'mock' : model
+  const startedAt = Date.now()
+  console.log(`Executing ${model} via ${provider.id} provider:`, {
+    stage: payload.stage,
+    hasImage: !!(payload.imageUrl || payload.imageBase64),
+    promptLength: payload.prompt?.length || 0
+  })
+
+  try {
+    if (modelConfig.kind === 'image') {
+      if (!provider.generateImage) {
+        throw new Error(`Provider ${provider.id} does not support image generation`)
+      }
+      const result = await provider.generateImage(
+        { prompt: payload.prompt, imageUrl: payload.imageUrl, mask: payload.mask },
+        { endpoint, apiKey }
+      )
+      await recordUsage(usage, { provider: provider.id, model: billedModel, stage: payload.stage, units: 1, latencyMs: Date.now() - startedAt })
+      return jsonResponse({ imageBase64: result.imageBase64, finishReason: result.finishReason })
+    }
+    if (!provider.chat) {
+      throw new Error(`Provider ${provider.id} does not support chat`)
+    }
+
+    // PHASE 2.1: JSON mode requires "json" in the prompt; auto-fix before sending
+    let prompt = payload.prompt
+    if (provider.capabilities.json) {
+      const validation = validateJsonPromptRequirement(payload)
+      prompt = validation.fixedPrompt || ensureJsonInPrompt(payload.prompt)
+      if (validation.error) {
+        console.log('⚠️ JSON validation warning:', validation.error)
+      }
+    }
+
+    const request: ChatRequest = {
+      model,
+      stage: payload.stage,
+      systemPrompt: payload.systemPrompt,
+      prompt,
+      loadImage: () => loadPayloadImage(payload),
+      json: provider.capabilities.json,
+      maxTokens: payload.maxTokens ?? modelConfig.maxTokens,
+      temperature: modelConfig.temperature
+    }
+
+    let chat
+    try {
+      chat = await provider.chat(request, { endpoint, apiKey })
+    } catch (error) {
+      // PHASE 2.2: Enhanced error handling for JSON format issues
+      if (request.json && /400/.test(error.message) && error.message.includes('json')) {
+        throw new Error(`${error.message}
+
+🔧 JSON mode requires the word "json" in the prompt.
+Original prompt contained JSON keyword: ${payload.prompt.toLowerCase().includes('json')}
+Final prompt contained JSON keyword: ${prompt.toLowerCase().includes('json')}
+Prompt was auto-fixed: ${prompt !== payload.prompt}`)
+      }
+      throw error
+    }
+    console.log(`${provider.id} response received successfully`)
+    const { content, citations } = chat
+    await recordUsage(usage, {
+      provider: provider.id,
+      model: billedModel,
+      stage: payload.stage,
+      ...chat.usage,
+      imageTokens: estimateImageTokens(provider.id, chat.imageCount ?? 0),
+      latencyMs: Date.now() - startedAt
+    })
+
+    // Research models answer in prose with sources
+    if (!provider.capabilities.vision && !provider.capabilities.json) {
+      return jsonResponse({ content, citations: citations || [] })
+    }
+
+    // PHASE 3.2: Hybrid Strategy - Try strict JSON first, fallback to smart parsing
+    try {
+      const parsedJson = JSON.parse(content)
+      console.log('✅ PHASE 3.2: Direct JSON parsing successful')
+      return jsonResponse(parsedJson)
+    } catch (directParseError) {
+      console.log('⚠️ PHASE 3.2: Direct JSON parse failed, attempting smart parsing')
+      const smartParseResult = parseJsonFromResponse(content, payload.model, payload.stage)
+      if (smartParseResult.success) {
+        console.log('✅ PHASE 3.2: Smart parsing successful')
+        return jsonResponse(smartParseResult.data)
+      }
+      console.error('❌ PHASE 3.2: Both parsing methods failed:', smartParseResult.error)
+      // Return raw content with error info
+      return jsonResponse({
+        content,
+        parseError: smartParseResult.error,
+        note: 'Raw response returned due to JSON parsing failure'
+      })
+    }
+  } catch (error) {
+    console.error(`Error executing ${model} via ${provider.id}:`, error)
+    throw error
   }
 }
 
@@ -1485,339 +1643,6 @@ function validateJsonPromptRequirement(payload: any): { isValid: boolean; error?
   return { isValid: true };
 }
 
-async function executeOpenAI(config: any, apiKey: string, payload: any) {
-  console.log('Executing OpenAI with payload:', { 
-    model: config.model || payload.model,
-    stage: payload.stage,
-    hasImage: !!(payload.imageUrl || payload.imageBase64),
-    promptLength: payload.prompt?.length || 0
-  });
-  
-  
-  try {
-    const { imageUrl, imageBase64, systemPrompt } = payload;
-    
-    // PHASE 2.1: Pre-flight validation with auto-fixing
-    const validation = validateJsonPromptRequirement(payload);
-    const promptToUse = validation.fixedPrompt || payload.prompt;
-    
-    if (validation.error) {
-      console.log('⚠️ JSON validation warning:', validation.error);
-    }
-    
-    // Additional logging for debugging
-    console.log('🔍 JSON prompt check:', {
-      originalContainsJson: payload.prompt.toLowerCase().includes('json'),
-      finalPromptContainsJson: promptToUse.toLowerCase().includes('json'),
-      promptWasModified: promptToUse !== payload.prompt,
-      validationPassed: validation.isValid
-    });
-    
-    let processedImageUrl = null;
-    
-    // Handle image data - prioritize base64 from frontend over URL fetching
-    if (imageBase64) {
-      console.log('Using provided base64 image data, length:', imageBase64.length);
-      processedImageUrl = `data:image/jpeg;base64,${imageBase64}`;
-    } else if (imageUrl && !imageUrl.startsWith('data:')) {
-      console.log('Converting image URL to base64 for OpenAI...');
-      const base64Data = await fetchImageAsBase64(imageUrl);
-      processedImageUrl = `data:image/jpeg;base64,${base64Data}`;
-      console.log('Image converted successfully');
-    } else if (imageUrl && imageUrl.startsWith('data:')) {
-      console.log('Using existing data URL');
-      processedImageUrl = imageUrl;
-    }
-    
-    const messages = [
-      {
-        role: 'system',
-        content: systemPrompt || 'You are an expert UX/UI analyst.'
-      },
-      {
-        role: 'user',
-        content: processedImageUrl ? [
-          { type: 'text', text: promptToUse },
-          { type: 'image_url', image_url: { url: processedImageUrl } }
-        ] : promptToUse
-      }
-    ];
-
-    console.log('Sending request to OpenAI API...');
-    const response = await fetch(config.endpoint, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: config.model || payload.model,
-        messages,
-        max_tokens: 4000,
-        temperature: 0.3,
-        response_format: { type: 'json_object' }
-      })
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('OpenAI API error:', response.status, response.statusText, errorText);
-      
-      // PHASE 2.2: Enhanced error handling for JSON format issues
-      if (response.status === 400 && errorText.includes('json')) {
-        const enhancedError = `OpenAI JSON Format Error: ${errorText}
-        
-🔧 Troubleshooting Steps:
-1. Ensure your prompt contains the word "json" when using JSON mode
-2. Original prompt contained JSON keyword: ${payload.prompt.toLowerCase().includes('json')}
-3. Final prompt contained JSON keyword: ${promptToUse.toLowerCase().includes('json')}
-4. Prompt was auto-fixed: ${promptToUse !== payload.prompt}
-
-💡 This error typically occurs when response_format: { type: 'json_object' } is used without mentioning "json" in the prompt.
-The system attempted to auto-fix this issue. If you continue seeing this error, please check the prompt content.`;
-
-        throw new Error(enhancedError);
-      }
-      
-      throw new Error(`OpenAI API error: ${response.status} ${response.statusText}: ${errorText}`);
-    }
-
-    const data = await response.json();
-    console.log('OpenAI response received successfully');
-    const content = data.choices[0].message.content;
-    
-    // PHASE 3.2: Hybrid Strategy - Try strict JSON first, fallback to smart parsing
-    try {
-      // Method 1: Direct JSON parsing (for proper JSON responses)
-      const parsedJson = JSON.parse(content);
-      console.log('✅ PHASE 3.2: Direct JSON parsing successful');
-      return new Response(
-        JSON.stringify(parsedJson),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    } catch (directParseError) {
-      console.log('⚠️ PHASE 3.2: Direct JSON parse failed, attempting smart parsing');
-      
-      // Method 2: Smart parsing fallback
-      const smartParseResult = parseJsonFromResponse(content, payload.model, payload.stage);
-      
-      if (smartParseResult.success) {
-        console.log('✅ PHASE 3.2: Smart parsing successful');
-        return new Response(
-          JSON.stringify(smartParseResult.data),
-          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      } else {
-        console.error('❌ PHASE 3.2: Both parsing methods failed:', smartParseResult.error);
-        // Return raw content with error info
-        return new Response(
-          JSON.stringify({ 
-            content, 
-            parseError: smartParseResult.error,
-            note: 'Raw response returned due to JSON parsing failure'
-          }),
-          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-    }
-  } catch (error) {
-    console.error('Error in executeOpenAI:', error);
-    throw error;
-  }
-}
-
-async function executeAnthropic(config: any, apiKey: string, payload: any) {
-  console.log('Executing Anthropic with payload:', { 
-    model: config.model || payload.model,
-    stage: payload.stage,
-    hasImage: !!(payload.imageUrl || payload.imageBase64),
-    promptLength: payload.prompt?.length || 0
-  });
-  
-  try {
-    const { imageUrl, imageBase64, prompt, systemPrompt } = payload;
-    
-    let base64Data = '';
-    let mediaType = 'image/jpeg';
-    
-    // Handle image data - prioritize base64 from frontend over URL fetching
-    if (imageBase64) {
-      console.log('Using provided base64 image data, length:', imageBase64.length);
-      base64Data = imageBase64;
-      mediaType = 'image/jpeg'; // Default, could be enhanced to detect format
-    } else if (imageUrl && !imageUrl.startsWith('data:')) {
-      console.log('Converting image URL to base64 for Anthropic...');
-      base64Data = await fetchImageAsBase64(imageUrl);
-      mediaType = detectImageFormat(imageUrl, base64Data);
-      console.log('Image converted successfully for Anthropic');
-    } else if (imageUrl && imageUrl.startsWith('data:')) {
-      console.log('Using existing data URL for Anthropic');
-      base64Data = imageUrl.split(',')[1];
-      mediaType = detectImageFormat(imageUrl);
-    }
-    
-    const messages = [{
-      role: 'user',
-      content: imageUrl ? [
-        { type: 'text', text: prompt },
-          { 
-            type: 'image', 
-            source: {
-              type: 'base64',
-              media_type: detectImageFormat(imageUrl, base64Data),
-              data: imageUrl.startsWith('data:') ? imageUrl.split(',')[1] : base64Data
-            }
-          }
-      ] : prompt
-    }];
-
-    console.log('Sending request to Anthropic API...');
-    const response = await fetch(config.endpoint, {
-      method: 'POST',
-      headers: {
-        'x-api-key': apiKey,
-        'anthropic-version': '2023-06-01',
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: config.model || payload.model,
-        system: systemPrompt || 'You are an expert UX/UI analyst.',
-        messages,
-        max_tokens: 4000,
-        temperature: 0.3
-      })
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Anthropic API error:', response.status, response.statusText, errorText);
-      throw new Error(`Anthropic API error: ${response.status} ${response.statusText}: ${errorText}`);
-    }
-
-    const data = await response.json();
-    console.log('Anthropic response received successfully');
-    const content = data.content[0].text;
-    
-    // PHASE 3.2: Apply hybrid strategy to Anthropic as well
-    try {
-      // Method 1: Direct JSON parsing
-      const parsedJson = JSON.parse(content);
-      console.log('✅ Anthropic: Direct JSON parsing successful');
-      return new Response(
-        JSON.stringify(parsedJson),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    } catch (directParseError) {
-      console.log('⚠️ Anthropic: Direct JSON parse failed, attempting smart parsing');
-      
-      // Method 2: Smart parsing fallback
-      const smartParseResult = parseJsonFromResponse(content, payload.model, payload.stage);
-      
-      if (smartParseResult.success) {
-        console.log('✅ Anthropic: Smart parsing successful');
-        return new Response(
-          JSON.stringify(smartParseResult.data),
-          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      } else {
-        console.log('⚠️ Anthropic: Smart parsing failed, returning raw content');
-        return new Response(
-          JSON.stringify({ content }),
-          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-    }
-  } catch (error) {
-    console.error('Error in executeAnthropic:', error);
-    throw error;
-  }
-}
-
-async function executePerplexity(config: any, apiKey: string, payload: any) {
-  const { prompt, systemPrompt } = payload
-  
-  const response = await fetch(config.endpoint, {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: config.model,
-      messages: [
-        {
-          role: 'system',
-          content: systemPrompt || 'You are a research assistant providing current UX/UI insights and best practices.'
-        },
-        {
-          role: 'user',
-          content: prompt
-        }
-      ],
-      max_tokens: 2000,
-      temperature: 0.2
-    })
-  })
-
-  if (!response.ok) {
-    const error = await response.text()
-    throw new Error(`Perplexity API error: ${error}`)
-  }
-
-  const data = await response.json()
-  const content = data.choices[0].message.content
-  
-  return new Response(
-    JSON.stringify({ content, citations: data.citations || [] }),
-    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-  )
-}
-
-async function executeStability(config: any, apiKey: string, payload: any) {
-  const { imageUrl, prompt, mask } = payload
-  
-  // For inpainting, we need to handle form data differently
-  const formData = new FormData()
-  
-  // Fetch the original image
-  const imageResponse = await fetch(imageUrl)
-  const imageBlob = await imageResponse.blob()
-  formData.append('init_image', imageBlob)
-  
-  if (mask) {
-    const maskBlob = new Blob([mask], { type: 'image/png' })
-    formData.append('mask_image', maskBlob)
-  }
-  
-  formData.append('text_prompts[0][text]', prompt)
-  formData.append('text_prompts[0][weight]', '1')
-  formData.append('cfg_scale', '7')
-  formData.append('steps', '30')
-  
-  const response = await fetch(config.endpoint, {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-    },
-    body: formData
-  })
-
-  if (!response.ok) {
-    const error = await response.text()
-    throw new Error(`Stability AI API error: ${error}`)
-  }
-
-  const data = await response.json()
-  
-  return new Response(
-    JSON.stringify({ 
-      imageBase64: data.artifacts[0].base64,
-      finishReason: data.artifacts[0].finishReason
-    }),
-    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-  )
-}
-
 // Model name mapping function
 function mapModelName(requestedModel: string): string {
   const modelMapping: Record<string, string> = {
@@ -1835,8 +1660,17 @@ function mapModelName(requestedModel: string): string {
     // Note: Google Vision is handled separately for metadata extraction only
     // It should NOT appear in vision/analysis pipelines
     
+    // Gemini mappings
+    'gemini-2.5-pro': 'gemini-2.5-pro',
+    'gemini-pro': 'gemini-2.5-pro',
+    // PaLM 2 is retired; Google serves its successor through the Gemini API
+    'palm-2': 'gemini-2.5-pro',
+
+    // Self-hosted models behind OPENAI_COMPATIBLE_BASE_URL
+    'llama-2-70b-chat': 'llama-2-70b-chat',
+
     // Perplexity mappings
-    'perplexity-sonar': 'llama-3.1-sonar-small-128k-online'
+    'perplexity-sonar': 'perplexity-research'
   }
   
   const mapped = modelMapping[requestedModel] || requestedModel
@@ -2344,7 +2178,7 @@ async function executeMultiModelPipeline(params: {
       visionMetadata = enhancedContext.metadata || {};
     } else {
       console.log('🔍 Step 0: Detecting context and checking for clarification needs...');
-      contextResult = await detectImageContextAndClarification(imageUrl, imageBase64, userContext);
+      contextResult = await detectImageContextAndClarification(imageUrl, imageBase64, userContext, imageId);
       
       // If clarification is needed, return early
       if (contextResult.requiresClarification) {
@@ -2363,7 +2197,7 @@ async function executeMultiModelPipeline(params: {
       
       // Step 1: Extract metadata with Google Vision service
       console.log('📊 Step 1: Extracting metadata with Google Vision service...');
-      visionMetadata = await extractGoogleVisionMetadata(imageUrl, imageBase64);
+      visionMetadata = await extractGoogleVisionMetadata(imageUrl, imageBase64, imageId);
     }
     
     // Step 2: Run parallel analysis with OpenAI and Claude, passing vision metadata
@@ -2375,8 +2209,8 @@ async function executeMultiModelPipeline(params: {
     
     // Use Promise.allSettled to handle partial failures gracefully
     const results = await Promise.allSettled([
-      runOpenAIAnalysis(imageUrl, imageBase64, userContext, visionMetadata, enhancedContext, naturalModeActive),
-      runClaudeAnalysis(imageUrl, imageBase64, userContext, visionMetadata, enhancedContext, naturalModeActive)
+      runOpenAIAnalysis(imageUrl, imageBase64, userContext, visionMetadata, enhancedContext, naturalModeActive, imageId),
+      runClaudeAnalysis(imageUrl, imageBase64, userContext, visionMetadata, enhancedContext, naturalModeActive, imageId)
     ]);
     
     const openaiAnalysis = results[0].status === 'fulfilled' ? results[0].value : null;
@@ -2451,7 +2285,7 @@ async function executeMultiModelPipeline(params: {
 }
 
 // CRITICAL: Context Detection Function that was missing
-async function detectImageContextAndClarification(imageUrl: string, imageBase64?: string, userContext?: string): Promise<any> {
+async function detectImageContextAndClarification(imageUrl: string, imageBase64?: string, userContext?: string, imageId?: string): Promise<any> {
   console.log('[ContextDetection] Starting image context detection...');
   
   try {
@@ -2471,6 +2305,8 @@ async function detectImageContextAndClarification(imageUrl: string, imageBase64?
 
     const payload = {
       model: 'gpt-4o',
+      stage: 'context-detection',
+      imageId,
       imageUrl,
       imageBase64,
       prompt: contextPrompt,
@@ -2478,7 +2314,7 @@ async function detectImageContextAndClarification(imageUrl: string, imageBase64?
     };
 
     console.log('[ContextDetection] Calling OpenAI for context detection...');
-    const response = await executeOpenAI(MODEL_CONFIGS['gpt-4o'], Deno.env.get('OPENAI_API_KEY')!, payload);
+    const response = await executeModelConfig(MODEL_CONFIGS['gpt-4o'], payload);
     const responseText = await response.text();
     const contextData = JSON.parse(responseText);
 
@@ -2664,9 +2500,14 @@ async function convertToBase64Chunked(arrayBuffer: ArrayBuffer): Promise<string>
   }
 }
 
-async function extractGoogleVisionMetadata(imageUrl: string, imageBase64?: string): Promise<any> {
+async function extractGoogleVisionMetadata(imageUrl: string, imageBase64?: string, imageId?: string): Promise<any> {
   const googleApiKey = Deno.env.get('GOOGLE_VISION_API_KEY');
   
+  if (isOfflineMode()) {
+    console.log('🧪 Offline mode, using mock vision metadata');
+    return createMockVisionMetadata();
+  }
+
   if (!googleApiKey) {
     console.warn('⚠️ No Google Vision API key available, using mock metadata');
     return createMockVisionMetadata();
@@ -2711,6 +2552,7 @@ async function extractGoogleVisionMetadata(imageUrl: string, imageBase64?: strin
     };
     
     // Call Google Vision API directly
+    const startedAt = Date.now();
     const response = await fetch(
       `https://vision.googleapis.com/v1/images:annotate?key=${googleApiKey}`,
       {
@@ -2726,6 +2568,10 @@ async function extractGoogleVisionMetadata(imageUrl: string, imageBase64?: strin
       const errorText = await response.text();
       throw new Error(`Google Vision API error: ${response.status} - ${errorText}`);
     }
+    await recordUsage(
+      { functionName: 'ux-analysis', imageId },
+      { provider: 'google', model: 'google-vision', stage: 'vision', units: visionRequest.requests[0].features.length, latencyMs: Date.now() - startedAt }
+    );
     
     const visionResponse = await response.json();
     const result = visionResponse.responses?.[0];
@@ -2791,7 +2637,7 @@ function createMockVisionMetadata(): any {
   };
 }
 
-async function runOpenAIAnalysis(imageUrl: string, imageBase64?: string, userContext?: string, visionMetadata?: any, enhancedContext?: any, naturalMode?: boolean): Promise<any> {
+async function runOpenAIAnalysis(imageUrl: string, imageBase64?: string, userContext?: string, visionMetadata?: any, enhancedContext?: any, naturalMode?: boolean, imageId?: string): Promise<any> {
   if (naturalMode) {
     console.log('🌟 Running OpenAI NATURAL MODE analysis...');
   } else {
@@ -2807,6 +2653,7 @@ async function runOpenAIAnalysis(imageUrl: string, imageBase64?: string, userCon
   const payload = {
     model: 'gpt-4o',
     stage: 'analysis',
+    imageId,
     imageUrl,
     imageBase64,
     prompt: enhancedPrompt,
@@ -2828,7 +2675,7 @@ async function runOpenAIAnalysis(imageUrl: string, imageBase64?: string, userCon
     hasImage: !!(imageUrl || imageBase64)
   });
   
-  const response = await executeOpenAI(MODEL_CONFIGS['gpt-4o'], Deno.env.get('OPENAI_API_KEY')!, payload);
+  const response = await executeModelConfig(MODEL_CONFIGS['gpt-4o'], payload);
   const responseText = await response.text();
   
   console.log('🔍 OPENAI DEBUG - Raw response received:', {
@@ -2859,7 +2706,7 @@ async function runOpenAIAnalysis(imageUrl: string, imageBase64?: string, userCon
   return { model: 'gpt-4o', result, confidence: 0.9, imageUrl };
 }
 
-async function runClaudeAnalysis(imageUrl: string, imageBase64?: string, userContext?: string, visionMetadata?: any, enhancedContext?: any, naturalMode?: boolean): Promise<any> {
+async function runClaudeAnalysis(imageUrl: string, imageBase64?: string, userContext?: string, visionMetadata?: any, enhancedContext?: any, naturalMode?: boolean, imageId?: string): Promise<any> {
   if (naturalMode) {
     console.log('🌟 Running Claude NATURAL MODE analysis...');
   } else {
@@ -2875,6 +2722,7 @@ async function runClaudeAnalysis(imageUrl: string, imageBase64?: string, userCon
   const payload = {
     model: 'claude-opus-4-20250514',
     stage: 'analysis',
+    imageId,
     imageUrl,
     imageBase64,
     prompt: enhancedPrompt,
@@ -2896,7 +2744,7 @@ async function runClaudeAnalysis(imageUrl: string, imageBase64?: string, userCon
     hasImage: !!(imageUrl || imageBase64)
   });
   
-  const response = await executeAnthropic(MODEL_CONFIGS['claude-opus-4-20250514'], Deno.env.get('ANTHROPIC_API_KEY')!, payload);
+  const response = await executeModelConfig(MODEL_CONFIGS['claude-opus-4-20250514'], payload);
   const responseText = await response.text();
   
   console.log('🔍 CLAUDE DEBUG - Raw response received:', {
@@ -3474,11 +3322,14 @@ async function synthesizeMultiModelResults(
     const openaiData = extractDataFromResult(openaiAnalysis);
     const claudeData = extractDataFromResult(claudeAnalysis);
     
-    // Combine and deduplicate visual annotations
-    const allAnnotations = [...openaiData.visualAnnotations, ...claudeData.visualAnnotations];
-    
-    // Combine and rank suggestions by consensus
-    const allSuggestions = [...openaiData.suggestions, ...claudeData.suggestions];
+    // Cluster near-duplicate findings across models; each one records which models reported it
+    // and is ranked by how many of them agree
+    const consensus = buildConsensus([
+      ...(openaiAnalysis ? [{ model: openaiAnalysis.model || 'gpt-4o', annotations: openaiData.visualAnnotations, suggestions: openaiData.suggestions }] : []),
+      ...(claudeAnalysis ? [{ model: claudeAnalysis.model || 'claude-opus-4-20250514', annotations: claudeData.visualAnnotations, suggestions: claudeData.suggestions }] : [])
+    ]);
+    const allAnnotations = consensus.visualAnnotations;
+    const allSuggestions = consensus.suggestions;
     
     console.log('🔍 SYNTHESIS DEBUG - Combined data:', {
       totalAnnotations: allAnnotations.length,
@@ -3570,6 +3421,7 @@ async function synthesizeMultiModelResults(
         openaiContributed: openaiData.suggestions.length + openaiData.visualAnnotations.length,
         claudeContributed: claudeData.suggestions.length + claudeData.visualAnnotations.length
       },
+      modelAgreement: consensus.modelAgreement,
       aiGenerated: true // CRITICAL: Mark as real AI analysis
     };
     
@@ -5107,7 +4959,7 @@ Return structured JSON with suggestions, visual annotations, and summary.`;
 }
 
 // Concept Generation Handler
-async function handleConceptGeneration(body: any) {
+async function handleConceptGeneration(body: any, req: Request) {
   console.log('💡 Concept Generation - Processing request:', {
     hasImageUrl: !!body.payload?.imageUrl,
     hasPrompt: !!body.payload?.prompt,
@@ -5208,6 +5060,23 @@ Return structured JSON with detailed suggestions, visual annotations for propose
 
     console.log('✅ Concept generation completed successfully');
 
+    // Source of the concept.generated webhook; the image ties the event to its project
+    if (payload.imageId) {
+      const { error: eventError } = await supabase.from('analysis_events').insert({
+        event_name: 'concept/generated',
+        status: 'completed',
+        progress: 100,
+        user_id: await requestUserId(req),
+        metadata: {
+          imageId: payload.imageId,
+          analysisId: payload.analysisId ?? null,
+          prompt,
+          title: conceptData.suggestions?.[0]?.title ?? null
+        }
+      });
+      if (eventError) console.error('Failed to record concept/generated event:', eventError);
+    }
+
     return new Response(
       JSON.stringify({
         success: true,
@@ -0,0 +1,259 @@
+// LLM provider registry for the ux-analysis pipeline. A provider adapts one API (or family of
+// OpenAI-compatible APIs) to a common interface: vision-capable chat with optional JSON mode, and
+// image generation. Models in MODEL_CONFIGS name the provider that serves them.
+
+import { anthropicUsage, openAIUsage, type TokenUsage } from '../_shared/usage.ts';
+import { MOCK_IMAGE_BASE64, replayFixture } from './fixtures.ts';
+
+export type ImagePayload = { base64: string; mediaType: string };
+
+export type ChatRequest = {
+  model: string;
+  stage?: string;
+  systemPrompt?: string;
+  prompt: string;
+  // Loaded lazily so providers that ignore images (and the offline mock) never fetch them
+  loadImage?: () => Promise<ImagePayload | null>;
+  json?: boolean;
+  maxTokens?: number;
+  temperature?: number;
+};
+
+export type ChatResponse = { content: string; citations?: unknown[]; usage?: TokenUsage; imageCount?: number };
+
+export type ImageGenerationRequest = {
+  prompt: string;
+  imageUrl?: string;
+  mask?: string;
+};
+
+export type ImageGenerationResponse = { imageBase64: string; finishReason?: string };
+
+export type ProviderConfig = {
+  endpoint: string;
+  apiKey?: string;
+};
+
+export interface LLMProvider {
+  id: string;
+  capabilities: { vision: boolean; json: boolean; imageGeneration: boolean };
+  // Environment variable holding the API key; providers without one need no key
+  keyEnv?: string;
+  // The key may be left unset (e.g. self-hosted endpoints without auth)
+  keyOptional?: boolean;
+  // Default endpoint, overridable per model
+  endpoint?: string;
+  chat?(request: ChatRequest, config: ProviderConfig): Promise<ChatResponse>;
+  generateImage?(request: ImageGenerationRequest, config: ProviderConfig): Promise<ImageGenerationResponse>;
+}
+
+const providers = new Map<string, LLMProvider>();
+
+export function registerProvider(provider: LLMProvider): void {
+  providers.set(provider.id, provider);
+}
+
+export function getProvider(id: string): LLMProvider | undefined {
+  return providers.get(id);
+}
+
+export function listProviders(): LLMProvider[] {
+  return [...providers.values()];
+}
+
+/**
+ * LLM_PROVIDER_OVERRIDE routes every model to one provider, e.g. "mock" to run the pipeline offline
+ */
+export function providerOverride(): string | null {
+  return Deno.env.get('LLM_PROVIDER_OVERRIDE') || null;
+}
+
+export function isOfflineMode(): boolean {
+  return providerOverride() === 'mock';
+}
+
+async function readError(response: Response, label: string): Promise<Error> {
+  const text = await response.text();
+  return new Error(`${label} API error: ${response.status} ${response.statusText}: ${text}`);
+}
+
+/**
+ * Chat Completions adapter shared by OpenAI and every API that speaks its protocol
+ */
+export function createOpenAICompatibleProvider(options: {
+  id: string;
+  endpoint?: string;
+  keyEnv?: string;
+  keyOptional?: boolean;
+  vision?: boolean;
+  json?: boolean;
+  label?: string;
+}): LLMProvider {
+  const label = options.label ?? options.id;
+  const capabilities = { vision: options.vision ?? true, json: options.json ?? true, imageGeneration: false };
+  return {
+    id: options.id,
+    capabilities,
+    keyEnv: options.keyEnv,
+    keyOptional: options.keyOptional,
+    endpoint: options.endpoint,
+    async chat(request, config) {
+      const image = capabilities.vision && request.loadImage ? await request.loadImage() : null;
+      const messages = [
+        { role: 'system', content: request.systemPrompt || 'You are an expert UX/UI analyst.' },
+        {
+          role: 'user',
+          content: image
+            ? [
+                { type: 'text', text: request.prompt },
+                { type: 'image_url', image_url: { url: `data:${image.mediaType};base64,${image.base64}` } }
+              ]
+            : request.prompt
+        }
+      ];
+
+      const response = await fetch(config.endpoint, {
+        method: 'POST',
+        headers: {
+          ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {}),
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: request.model,
+          messages,
+          max_tokens: request.maxTokens ?? 4000,
+          temperature: request.temperature ?? 0.3,
+          ...(request.json && capabilities.json ? { response_format: { type: 'json_object' } } : {})
+        })
+      });
+      if (!response.ok) throw await readError(response, label);
+
+      const data = await response.json();
+      return {
+        content: data.choices?.[0]?.message?.content ?? '',
+        citations: data.citations,
+        usage: openAIUsage(data),
+        imageCount: image ? 1 : 0
+      };
+    }
+  };
+}
+
+const anthropicProvider: LLMProvider = {
+  id: 'anthropic',
+  capabilities: { vision: true, json: false, imageGeneration: false },
+  keyEnv: 'ANTHROPIC_API_KEY',
+  endpoint: 'https://api.anthropic.com/v1/messages',
+  async chat(request, config) {
+    const image = request.loadImage ? await request.loadImage() : null;
+    const content = image
+      ? [
+          { type: 'text', text: request.prompt },
+          { type: 'image', source: { type: 'base64', media_type: image.mediaType, data: image.base64 } }
+        ]
+      : request.prompt;
+
+    const response = await fetch(config.endpoint, {
+      method: 'POST',
+      headers: {
+        'x-api-key': config.apiKey ?? '',
+        'anthropic-version': '2023-06-01',
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: request.model,
+        system: request.systemPrompt || 'You are an expert UX/UI analyst.',
+        messages: [{ role: 'user', content }],
+        max_tokens: request.maxTokens ?? 4000,
+        temperature: request.temperature ?? 0.3
+      })
+    });
+    if (!response.ok) throw await readError(response, 'Anthropic');
+
+    const data = await response.json();
+    return { content: data.content?.[0]?.text ?? '', usage: anthropicUsage(data), imageCount: image ? 1 : 0 };
+  }
+};
+
+const stabilityProvider: LLMProvider = {
+  id: 'stability',
+  capabilities: { vision: false, json: false, imageGeneration: true },
+  keyEnv: 'STABILITY_API_KEY',
+  endpoint: 'https://api.stability.ai/v1/generation/stable-diffusion-v1-6/image-to-image',
+  async generateImage(request, config) {
+    // Inpainting takes the source image and mask as form data
+    const formData = new FormData();
+    if (request.imageUrl) {
+      const imageResponse = await fetch(request.imageUrl);
+      formData.append('init_image', await imageResponse.blob());
+    }
+    if (request.mask) {
+      formData.append('mask_image', new Blob([request.mask], { type: 'image/png' }));
+    }
+    formData.append('text_prompts[0][text]', request.prompt);
+    formData.append('text_prompts[0][weight]', '1');
+    formData.append('cfg_scale', '7');
+    formData.append('steps', '30');
+
+    const response = await fetch(config.endpoint, {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${config.apiKey}` },
+      body: formData
+    });
+    if (!response.ok) throw await readError(response, 'Stability AI');
+
+    const data = await response.json();
+    return { imageBase64: data.artifacts[0].base64, finishReason: data.artifacts[0].finishReason };
+  }
+};
+
+/**
+ * Deterministic offline provider: replays recorded responses from fixtures.ts (or LLM_FIXTURES)
+ * keyed by model and stage, so the pipeline runs and can be tested without network or API keys
+ */
+const mockProvider: LLMProvider = {
+  id: 'mock',
+  capabilities: { vision: true, json: true, imageGeneration: true },
+  async chat(request) {
+    return { content: JSON.stringify(replayFixture(request.model, request.stage ?? 'default', request.prompt)) };
+  },
+  async generateImage() {
+    return { imageBase64: MOCK_IMAGE_BASE64, finishReason: 'SUCCESS' };
+  }
+};
+
+registerProvider(createOpenAICompatibleProvider({
+  id: 'openai',
+  label: 'OpenAI',
+  endpoint: 'https://api.openai.com/v1/chat/completions',
+  keyEnv: 'OPENAI_API_KEY'
+}));
+registerProvider(anthropicProvider);
+registerProvider(createOpenAICompatibleProvider({
+  id: 'perplexity',
+  label: 'Perplexity',
+  endpoint: 'https://api.perplexity.ai/chat/completions',
+  keyEnv: 'PERPLEXITY_API_KEY',
+  vision: false,
+  json: false
+}));
+registerProvider(createOpenAICompatibleProvider({
+  id: 'gemini',
+  label: 'Gemini',
+  endpoint: 'https://generativelanguage.googleapis.com/v1beta/openai/chat/completions',
+  keyEnv: 'GEMINI_API_KEY'
+}));
+// Self-hosted or gateway endpoints (vLLM, Ollama, LiteLLM, ...) at OPENAI_COMPATIBLE_BASE_URL
+registerProvider(createOpenAICompatibleProvider({
+  id: 'openai-compatible',
+  label: 'OpenAI-compatible',
+  endpoint: Deno.env.get('OPENAI_COMPATIBLE_BASE_URL')
+    ? `${Deno.env.get('OPENAI_COMPATIBLE_BASE_URL')!.replace(/\/+$/, '')}/chat/completions`
+    : undefined,
+  keyEnv: 'OPENAI_COMPATIBLE_API_KEY',
+  keyOptional: true,
+  vision: Deno.env.get('OPENAI_COMPATIBLE_VISION') !== 'false',
+  json: Deno.env.get('OPENAI_COMPATIBLE_JSON_MODE') !== 'false'
+}));
+registerProvider(stabilityProvider);
+registerProvider(mockProvider);
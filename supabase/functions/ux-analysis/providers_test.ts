@@ -0,0 +1,62 @@
+// Run with: deno test --allow-env supabase/functions/ux-analysis/providers_test.ts
+
+import assert from 'node:assert/strict';
+import { getProvider, listProviders } from './providers.ts';
+import { MOCK_IMAGE_BASE64 } from './fixtures.ts';
+
+const mock = () => {
+  const provider = getProvider('mock');
+  assert.ok(provider?.chat && provider.generateImage, 'mock provider is registered with chat and image generation');
+  return provider;
+};
+
+Deno.test('registry serves every provider the model configs name', () => {
+  const ids = listProviders().map(provider => provider.id);
+  for (const id of ['openai', 'anthropic', 'gemini', 'perplexity', 'openai-compatible', 'stability', 'mock']) {
+    assert.ok(ids.includes(id), `${id} is registered`);
+  }
+});
+
+Deno.test('mock provider replays the fixture of the model and stage', async () => {
+  const provider = mock();
+  const config = { endpoint: '' };
+
+  const analysis = JSON.parse((await provider.chat!({ model: 'gpt-4o', stage: 'analysis', prompt: 'Review' }, config)).content);
+  assert.ok(analysis.visualAnnotations.length > 0);
+  assert.ok(analysis.suggestions.length > 0);
+
+  const secondOpinion = JSON.parse((await provider.chat!({ model: 'claude-opus-4-20250514', stage: 'analysis', prompt: 'Review' }, config)).content);
+  assert.notDeepEqual(secondOpinion, analysis);
+
+  const context = JSON.parse((await provider.chat!({ model: 'gpt-4o', stage: 'context-detection', prompt: '' }, config)).content);
+  assert.equal(context.primaryType, 'landing');
+});
+
+Deno.test('mock provider never loads the image', async () => {
+  let loaded = false;
+  await mock().chat!({
+    model: 'gpt-4o',
+    stage: 'analysis',
+    prompt: 'Review',
+    loadImage: async () => {
+      loaded = true;
+      return null;
+    }
+  }, { endpoint: '' });
+  assert.equal(loaded, false);
+});
+
+Deno.test('LLM_FIXTURES takes precedence over the built-in fixtures', async () => {
+  Deno.env.set('LLM_FIXTURES', JSON.stringify({ 'gpt-4o:analysis': { recorded: true } }));
+  try {
+    const response = await mock().chat!({ model: 'gpt-4o', stage: 'analysis', prompt: '' }, { endpoint: '' });
+    assert.deepEqual(JSON.parse(response.content), { recorded: true });
+  } finally {
+    Deno.env.delete('LLM_FIXTURES');
+  }
+});
+
+Deno.test('mock provider generates the placeholder image', async () => {
+  const result = await mock().generateImage!({ prompt: 'Mockup' }, { endpoint: '' });
+  assert.equal(result.imageBase64, MOCK_IMAGE_BASE64);
+});
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { isJobCancelled, saveStageResult } from "../_shared/job-stages.ts";
 
 const corsHeaders: HeadersInit = {
   "Access-Control-Allow-Origin": "*",
@@ -60,6 +61,9 @@ serve(async (req: Request) => {
     if (!job) {
       return Response.json({ error: "Job not found" }, { status: 404, headers: corsHeaders });
     }
+    if (job.status === "cancelled") {
+      return Response.json({ cancelled: true, jobId: job.id }, { status: 409, headers: corsHeaders });
+    }
 
     // Mark stage started and log event
     const startedProgress = Math.max(5, job.progress ?? 0);
@@ -128,11 +132,13 @@ serve(async (req: Request) => {
       if (error) console.error("Failed to insert analysis_event", error, payload);
     };
 
+    const stageStartedAt = new Date().toISOString();
     await insertEvent({ event_name: "analysis/context.started", status: "processing", progress: startedProgress });
 
     // Invoke existing context-detection worker (vision model)
     const { data: ctxData, error: ctxErr } = await supabase.functions.invoke("context-detection", {
       body: {
+        jobId: job.id,
         imageUrl: job.image_url,
         prompt: job.user_context ?? "Detect interface context",
         model: 'gpt-4o-mini',
@@ -165,6 +171,10 @@ serve(async (req: Request) => {
       return Response.json({ error: "Context detection failed", details: ctxErr.message, body: errorBody }, { status: 502, headers: corsHeaders });
     }
 
+    if (await isJobCancelled(supabase, 'analysis', job.id)) {
+      return Response.json({ cancelled: true, jobId: job.id }, { status: 409, headers: corsHeaders });
+    }
+
     // Log completion with returned context (lightweight)
     const completedProgress = Math.max(20, startedProgress);
     await insertEvent({
@@ -173,6 +183,7 @@ serve(async (req: Request) => {
       progress: completedProgress,
       metadata: { context: ctxData ?? null },
     });
+    await saveStageResult(supabase, 'analysis', job.id, 'context', { context: ctxData ?? null }, stageStartedAt);
 
     // Advance job state to next stage (vision)
     await supabase
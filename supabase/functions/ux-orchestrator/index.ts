@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { ANALYSIS_PIPELINE, completedStages, isJobCancelled, markJobFailed } from "../_shared/job-stages.ts";
 
 const corsHeaders: HeadersInit = {
   "Access-Control-Allow-Origin": "*",
@@ -17,38 +18,35 @@ function getAdminClient() {
   return createClient(url, serviceKey, { auth: { persistSession: false } });
 }
 
+/**
+ * Run every stage that has no saved output yet, so a retried job resumes at the stage that failed
+ * and reuses the vision, context and AI outputs it already paid for
+ */
 async function runPipeline(jobId: string) {
   const supabase = getAdminClient();
+  const done = await completedStages(supabase, 'analysis', jobId);
 
-  // 1) Google Vision first (extract real metadata)
-  try {
-    await supabase.functions.invoke('ux-vision-google', { body: { jobId } });
-  } catch (e) {
-    console.warn('[ux-orchestrator] ux-vision-google failed; continuing to context detection', e);
-  }
+  for (const { stage, worker, optional } of ANALYSIS_PIPELINE) {
+    if (await isJobCancelled(supabase, 'analysis', jobId)) {
+      console.log(`[ux-orchestrator] Job ${jobId} cancelled before ${stage}`);
+      return;
+    }
+    if (done.has(stage)) {
+      console.log(`[ux-orchestrator] Reusing saved ${stage} output for job ${jobId}`);
+      continue;
+    }
 
-  // 2) Context detection (uses metadata if available; worker handles its own errors)
-  const ctxRes = await supabase.functions.invoke('ux-context-detection', {
-    body: { jobId },
-  });
-  if (ctxRes.error) {
-    // context worker already marks job failed and logs the failure event
-    return;
-  }
+    const res = await supabase.functions.invoke(worker, { body: { jobId } });
+    if (!res.error) continue;
 
-  // 3) AI analysis (multi-model parallelism handled inside the worker)
-  const aiRes = await supabase.functions.invoke('ux-ai-analysis', {
-    body: { jobId },
-  });
-  if (aiRes.error) {
-    // AI worker logs its own failure; stop here
+    if (optional) {
+      console.warn(`[ux-orchestrator] ${worker} failed; continuing`, res.error);
+      continue;
+    }
+    // Workers log their own failure events; make sure the job reflects the failed stage
+    await markJobFailed(supabase, 'analysis', jobId, stage, res.error.message ?? `${worker} failed`);
     return;
   }
-
-  // 4) Final synthesis (OpenAI consolidates all prior outputs)
-  await supabase.functions.invoke('ux-synthesis', {
-    body: { jobId },
-  });
 }
 
 serve(async (req: Request) => {
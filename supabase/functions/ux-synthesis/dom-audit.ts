@@ -0,0 +1,114 @@
+// DOM accessibility audit of screenshots rendered from an uploaded HTML snapshot. The browser runs the
+// rules on the laid-out page and stores the report in images.metadata.domAudit; synthesis turns the
+// findings into annotations and one suggestion on the analysis of that screenshot.
+// Mirrors the DomAuditReport / DomAuditFinding types in src/types/ux-analysis.ts.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+type Severity = 'low' | 'medium' | 'high';
+
+type Finding = {
+  id: string;
+  rule: string;
+  severity: Severity;
+  title: string;
+  description: string;
+  selector: string | null;
+  region: { x: number; y: number; width: number; height: number } | null;
+  annotationId?: string;
+};
+
+type DomAuditReport = {
+  source: string;
+  checkedAt: string;
+  page: { width: number; height: number };
+  checked: Record<string, number>;
+  findings: Finding[];
+};
+
+type Annotation = {
+  id: string;
+  x: number;
+  y: number;
+  type: 'issue';
+  title: string;
+  description: string;
+  severity: Severity;
+  region?: { shape: 'rect'; x: number; y: number; width: number; height: number };
+};
+
+const MAX_DOM_ANNOTATIONS = 25;
+// Page-level findings (no main landmark, no h1) have no element; they are pinned to the top center
+const PAGE_LEVEL_POINT = { x: 0.5, y: 0.03 };
+
+const RULE_LABELS: Record<string, string> = {
+  label: 'labels',
+  landmark: 'landmarks',
+  heading: 'headings',
+  aria: 'ARIA',
+  'alt-text': 'alt text',
+  'tab-order': 'tab order',
+};
+
+const SEVERITY_ORDER: Record<Severity, number> = { high: 0, medium: 1, low: 2 };
+
+const clamp01 = (n: number) => Math.max(0, Math.min(1, n));
+
+function readReport(value: unknown): DomAuditReport | null {
+  if (!value || typeof value !== 'object') return null;
+  const report = value as Partial<DomAuditReport>;
+  if (!Array.isArray(report.findings) || !report.page) return null;
+  const findings = report.findings.filter((f): f is Finding =>
+    !!f && typeof f.title === 'string' && typeof f.description === 'string' && f.severity in SEVERITY_ORDER);
+  return { ...report, findings } as DomAuditReport;
+}
+
+/**
+ * The audit stored with the analyzed image, if it was rendered from an HTML snapshot
+ */
+export async function loadDomAudit(supabase: SupabaseClient, imageId: string | null): Promise<DomAuditReport | null> {
+  if (!imageId) return null;
+  const { data } = await supabase.from('images').select('metadata').eq('id', imageId).maybeSingle();
+  return readReport((data?.metadata as { domAudit?: unknown } | null)?.domAudit);
+}
+
+/**
+ * Annotations for the most severe findings, one accessibility suggestion, and the report with each
+ * finding linked to its annotation
+ */
+export function applyDomAudit(report: DomAuditReport) {
+  const findings = [...report.findings].sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+
+  const annotations: Annotation[] = findings.slice(0, MAX_DOM_ANNOTATIONS).map((finding, index) => {
+    const id = `dom-${index + 1}`;
+    finding.annotationId = id;
+    const box = finding.region;
+    const where = finding.selector ? ` (${finding.selector})` : '';
+    return {
+      id,
+      x: box ? clamp01(box.x + box.width / 2) : PAGE_LEVEL_POINT.x,
+      y: box ? clamp01(box.y + box.height / 2) : PAGE_LEVEL_POINT.y,
+      ...(box && box.width > 0 && box.height > 0
+        ? { region: { shape: 'rect' as const, x: box.x, y: box.y, width: box.width, height: box.height } }
+        : {}),
+      type: 'issue',
+      title: finding.title,
+      description: `${finding.description}${where}`,
+      severity: finding.severity,
+    };
+  });
+
+  const rules = [...new Set(findings.map(f => RULE_LABELS[f.rule] ?? f.rule))];
+  const suggestion = findings.length > 0 ? {
+    id: 'dom-audit-fixes',
+    category: 'accessibility',
+    title: `Fix ${findings.length} accessibility issue${findings.length !== 1 ? 's' : ''} in the page markup`,
+    description: `The HTML of ${report.source} has problems with ${rules.join(', ')} that are invisible in the screenshot but block keyboard and screen reader users.`,
+    impact: findings.some(f => f.severity === 'high') ? 'high' : 'medium',
+    effort: 'low',
+    actionItems: findings.slice(0, MAX_DOM_ANNOTATIONS).map(f => f.selector ? `${f.title}: ${f.selector}` : f.title),
+    relatedAnnotations: annotations.map(annotation => annotation.id),
+  } : null;
+
+  return { domAudit: { ...report, findings }, annotations, suggestion };
+}
@@ -1,5 +1,9 @@
 import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { checkTokenConformance, toVisionColors, type TokenSet } from "./token-conformance.ts";
+import { normalizeAnnotationRegions } from "./regions.ts";
+import { applyDomAudit, loadDomAudit } from "./dom-audit.ts";
+import { isJobCancelled, loadStageResult, saveStageResult } from "../_shared/job-stages.ts";
 
 const corsHeaders: HeadersInit = {
   "Access-Control-Allow-Origin": "*",
@@ -46,6 +50,7 @@ function normalizeAIUXOutput(raw: unknown): {
   summary: Record<string, unknown>;
   suggestions: unknown[];
   visual_annotations: unknown[];
+  measurements: unknown;
   warnings: string[];
   ai_raw: unknown;
 } {
@@ -65,14 +70,14 @@ function normalizeAIUXOutput(raw: unknown): {
   }
 
   if (!obj || typeof obj !== 'object') {
-    return { ok: false, summary: {}, suggestions: [], visual_annotations: [], warnings, ai_raw: raw };
+    return { ok: false, summary: {}, suggestions: [], visual_annotations: [], measurements: null, warnings, ai_raw: raw };
   }
 
   const candidate = (obj.analysis ?? obj.data ?? obj.result ?? obj) as any;
 
   const summary = (candidate.summary && typeof candidate.summary === 'object') ? { ...candidate.summary } : {};
   const suggestions = Array.isArray(candidate.suggestions) ? candidate.suggestions : [];
-  const visual_annotations = Array.isArray(candidate.visualAnnotations) ? candidate.visualAnnotations : [];
+  const visual_annotations = Array.isArray(candidate.visualAnnotations) ? normalizeAnnotationRegions(candidate.visualAnnotations) : [];
 
   // Numeric coercions
   if (summary.overallScore != null) {
@@ -89,7 +94,60 @@ function normalizeAIUXOutput(raw: unknown): {
   }
 
   const ok = Object.keys(summary).length > 0 || suggestions.length > 0 || visual_annotations.length > 0;
-  return { ok, summary, suggestions, visual_annotations, warnings, ai_raw: raw };
+  const measurements = candidate.measurements ?? obj.measurements ?? null;
+  return { ok, summary, suggestions, visual_annotations, measurements, warnings, ai_raw: raw };
+}
+
+// Lines of text Google Vision read on the screen, stored as metadata.text like the legacy pipeline
+// does; the first text annotation is the whole detected block, the rest are its single words
+function toVisionText(googleResult: unknown): string[] {
+  const field = (value: unknown, key: string): unknown =>
+    value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined;
+  const text = field(field(googleResult, 'metadata'), 'text') ?? field(googleResult, 'text');
+  const block = Array.isArray(text) ? field(text[0], 'description') : undefined;
+  if (typeof block !== 'string') return [];
+  return block.split('\n').map(line => line.trim()).filter(Boolean);
+}
+
+type RubricCriterion = { id: string; name: string; weight?: number };
+type Rubric = { id: string; name: string; criteria: RubricCriterion[] };
+
+// Align criterion scores with the rubric (match by id or name, clamp 0-100) and derive the
+// overall score as their weighted average; mirrors RubricService.applyRubricScores on the client
+function applyRubricScores(summary: Record<string, unknown>, rubric: Rubric | null, warnings: string[]) {
+  if (!rubric || !Array.isArray(rubric.criteria) || rubric.criteria.length === 0) return summary;
+
+  const returned = (Array.isArray(summary.criterionScores) ? summary.criterionScores : [])
+    .filter((s): s is Record<string, unknown> => !!s && typeof s === 'object');
+  const criterionScores: Record<string, unknown>[] = [];
+  for (const criterion of rubric.criteria) {
+    const match = returned.find(s => s?.criterionId === criterion.id)
+      ?? returned.find(s => typeof s?.name === 'string' && s.name.toLowerCase() === criterion.name.toLowerCase());
+    const n = Number(match?.score);
+    if (!match || !Number.isFinite(n)) {
+      warnings.push(`criterion "${criterion.name}" was not scored`);
+      continue;
+    }
+    const score = Math.max(0, Math.min(100, Math.round(n)));
+    const verdict = typeof match.verdict === 'string' && ['pass', 'partial', 'fail'].includes(match.verdict)
+      ? match.verdict
+      : (score >= 70 ? 'pass' : score >= 40 ? 'partial' : 'fail');
+    criterionScores.push({
+      criterionId: criterion.id,
+      name: criterion.name,
+      weight: criterion.weight ?? 1,
+      score,
+      verdict,
+      ...(typeof match.rationale === 'string' ? { rationale: match.rationale } : {}),
+    });
+  }
+
+  const result: Record<string, unknown> = { ...summary, rubric: { id: rubric.id, name: rubric.name }, criterionScores };
+  const totalWeight = criterionScores.reduce((sum, s) => sum + (s.weight as number), 0);
+  if (totalWeight > 0) {
+    result.overallScore = Math.round(criterionScores.reduce((sum, s) => sum + (s.score as number) * (s.weight as number), 0) / totalWeight);
+  }
+  return result;
 }
 
 serve(async (req: Request) => {
@@ -119,6 +177,7 @@ serve(async (req: Request) => {
 
     if (jobErr) return Response.json({ error: jobErr.message }, { status: 500, headers: corsHeaders });
     if (!job) return Response.json({ error: "Job not found" }, { status: 404, headers: corsHeaders });
+    if (job.status === "cancelled") return Response.json({ cancelled: true, jobId: job.id }, { status: 409, headers: corsHeaders });
 
     const insertEvent = async (fields: Partial<{ event_name: string; status: string; progress: number; message: string; metadata: Json }>) => {
       const nowISO = new Date().toISOString();
@@ -176,10 +235,12 @@ serve(async (req: Request) => {
       .update({ current_stage: "synthesis", status: job.status === "pending" ? "processing" : job.status, progress: startedProgress })
       .eq("id", job.id);
 
+    const stageStartedAt = new Date().toISOString();
     await insertEvent({ event_name: "analysis/synthesis.started", status: "processing", progress: startedProgress });
 
-    // Fetch AI results + context + vision to consolidate (lenient)
-    const { data: aiRows } = await supabase
+    // Fetch AI results + context + vision to consolidate (lenient); saved stage outputs win over events
+    const savedAi = await loadStageResult(supabase, 'analysis', job.id, 'ai');
+    const { data: aiRows } = savedAi ? { data: null } : await supabase
       .from("analysis_events")
       .select("metadata, created_at")
       .eq("job_id", job.id)
@@ -187,17 +248,18 @@ serve(async (req: Request) => {
       .order("created_at", { ascending: false })
       .limit(1);
 
-    const aiMeta: any = aiRows?.[0]?.metadata ?? null;
+    const aiMeta: any = savedAi ?? aiRows?.[0]?.metadata ?? null;
     const rawCandidate = aiMeta?.analysis ?? aiMeta?.raw ?? aiMeta?.content ?? aiMeta?.response ?? aiMeta ?? null;
 
-    const { data: ctxRows } = await supabase
+    const savedContext = await loadStageResult<{ context?: unknown }>(supabase, 'analysis', job.id, 'context');
+    const { data: ctxRows } = savedContext ? { data: null } : await supabase
       .from("analysis_events")
       .select("metadata, created_at")
       .eq("job_id", job.id)
       .eq("event_name", "analysis/context.completed")
       .order("created_at", { ascending: false })
       .limit(1);
-    const context = ctxRows?.[0]?.metadata?.context ?? null;
+    const context = savedContext ? savedContext.context ?? null : ctxRows?.[0]?.metadata?.context ?? null;
 
     // Fetch latest vision results (Google) and extract objects for metadata
     const { data: visRows } = await supabase
@@ -212,6 +274,20 @@ serve(async (req: Request) => {
       ? visionResult.metadata.objects
       : (Array.isArray(visionResult?.objects) ? visionResult.objects : undefined);
 
+    // Dominant colors and OCR text come from Google Vision specifically ('properties' and 'text' features)
+    const savedGoogle = await loadStageResult<{ result?: unknown }>(supabase, 'analysis', job.id, 'vision:google');
+    const { data: googleRows } = savedGoogle ? { data: null } : await supabase
+      .from("analysis_events")
+      .select("metadata, created_at")
+      .eq("job_id", job.id)
+      .eq("event_name", "analysis/vision.completed")
+      .contains("metadata", { provider: "google" })
+      .order("created_at", { ascending: false })
+      .limit(1);
+    const googleResult = (savedGoogle ? savedGoogle.result : googleRows?.[0]?.metadata?.result) ?? null;
+    const visionColors = toVisionColors(googleResult);
+    const visionText = toVisionText(googleResult);
+
     const norm = normalizeAIUXOutput(rawCandidate);
     if (!norm.ok) {
       await insertEvent({
@@ -225,10 +301,26 @@ serve(async (req: Request) => {
     }
 
     // Compose final structures from normalized output (no placeholders)
-    const summary = norm.summary || {};
+    const summary = applyRubricScores(norm.summary || {}, (aiMeta?.rubric as Rubric | undefined) ?? null, norm.warnings);
     const suggestions = Array.isArray(norm.suggestions) ? norm.suggestions : [];
-    const visual_annotations = Array.isArray(norm.visual_annotations) ? norm.visual_annotations : [];
-    const metadata: Json = { context, synthesisAt: new Date().toISOString(), jobId: job.id, normalization: { warnings: norm.warnings }, ai_raw_output: norm.ai_raw, ...(visionObjects ? { objects: visionObjects } : {}) };
+    const tokenCheck = aiMeta?.designTokens
+      ? checkTokenConformance(aiMeta.designTokens as TokenSet, visionColors, norm.measurements)
+      : null;
+    const visual_annotations = [
+      ...(Array.isArray(norm.visual_annotations) ? norm.visual_annotations : []),
+      ...(tokenCheck?.annotations ?? []),
+    ];
+    const metadata: Json = {
+      context,
+      synthesisAt: new Date().toISOString(),
+      jobId: job.id,
+      normalization: { warnings: norm.warnings },
+      ai_raw_output: norm.ai_raw,
+      ...(visionObjects ? { objects: visionObjects } : {}),
+      ...(visionColors.length > 0 ? { colors: visionColors } : {}),
+      ...(visionText.length > 0 ? { text: visionText } : {}),
+      ...(tokenCheck ? { tokenConformance: tokenCheck.conformance } : {}),
+    };
 
     // Resolve image_id: prefer job.image_id; fallback to parsing storage_path from public URL
     let imageId: string | null = (job as any)?.image_id ?? null;
@@ -252,26 +344,42 @@ serve(async (req: Request) => {
       }
     }
 
+    // Screenshots rendered from an HTML snapshot carry a DOM accessibility audit from the browser
+    const domAudit = await loadDomAudit(supabase, imageId);
+    const domCheck = domAudit ? applyDomAudit(domAudit) : null;
+    if (domCheck) {
+      metadata.domAudit = domCheck.domAudit;
+    }
+
+    // A job cancelled while synthesising must not produce an analysis
+    if (await isJobCancelled(supabase, 'analysis', job.id)) {
+      return Response.json({ cancelled: true, jobId: job.id }, { status: 409, headers: corsHeaders });
+    }
+
     // Persist final UX analysis
-    const { error: insErr } = await supabase
+    const { data: inserted, error: insErr } = await supabase
       .from('ux_analyses')
       .insert({
         user_id: job.user_id,
         project_id: job.project_id,
         image_id: imageId,
         summary,
-        suggestions,
-        visual_annotations,
+        suggestions: [...suggestions, ...(domCheck?.suggestion ? [domCheck.suggestion] : [])],
+        visual_annotations: [...visual_annotations, ...(domCheck?.annotations ?? [])],
         metadata,
         status: 'completed',
         analysis_type: 'full_analysis',
-      });
+      })
+      .select('id')
+      .single();
 
     if (insErr) {
       await insertEvent({ event_name: "analysis/synthesis.failed", status: "failed", progress: startedProgress, message: insErr.message });
       return Response.json({ error: insErr.message }, { status: 500, headers: corsHeaders });
     }
 
+    await saveStageResult(supabase, 'analysis', job.id, 'synthesis', { analysisId: inserted?.id ?? null }, stageStartedAt);
+
     const finalProgress = 100;
     await supabase
       .from('analysis_jobs')
@@ -0,0 +1,81 @@
+// Normalizes the regions models attach to visual annotations (rects or polygons, 0-1 or percent).
+// Mirrors normalizeRegion / withNormalizedRegion in src/utils/annotationRegions.ts.
+
+type Point = { x: number; y: number };
+
+export type AnnotationRegion =
+  | { shape: 'rect'; x: number; y: number; width: number; height: number }
+  | { shape: 'polygon'; points: Point[] };
+
+// Regions smaller than this (fraction of the image side) are treated as points
+const MIN_REGION_SIZE = 0.005;
+
+const clamp01 = (n: number) => Math.max(0, Math.min(1, n));
+
+function toNumber(value: unknown): number | null {
+  const n = typeof value === 'string' ? Number(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : null;
+}
+
+function readPoint(value: unknown): Point | null {
+  if (Array.isArray(value)) {
+    const [x, y] = value.map(toNumber);
+    return x != null && y != null ? { x, y } : null;
+  }
+  if (!value || typeof value !== 'object') return null;
+  const point = value as Record<string, unknown>;
+  const x = toNumber(point.x);
+  const y = toNumber(point.y);
+  return x != null && y != null ? { x, y } : null;
+}
+
+function boundsOf(points: Point[]) {
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+export function normalizeRegion(raw: unknown): AnnotationRegion | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const region = raw as Record<string, unknown>;
+
+  const pointList = Array.isArray(region.points) ? region.points : Array.isArray(raw) ? raw : null;
+  if (pointList && region.shape !== 'rect') {
+    const points = pointList.map(readPoint).filter((p): p is Point => p !== null);
+    if (points.length < 3) return undefined;
+    const scale = points.some(p => p.x > 1 || p.y > 1) ? 100 : 1;
+    const normalized = points.map(p => ({ x: clamp01(p.x / scale), y: clamp01(p.y / scale) }));
+    const bounds = boundsOf(normalized);
+    return bounds.width >= MIN_REGION_SIZE && bounds.height >= MIN_REGION_SIZE
+      ? { shape: 'polygon', points: normalized }
+      : undefined;
+  }
+
+  const box = Array.isArray(region.box) ? region.box.map(toNumber) : null;
+  const [x, y, width, height] = box ?? [region.x, region.y, region.width, region.height].map(toNumber);
+  if (x == null || y == null || width == null || height == null || width <= 0 || height <= 0) return undefined;
+
+  const scale = [x, y, width, height].some(n => n > 1) ? 100 : 1;
+  const left = clamp01(x / scale);
+  const top = clamp01(y / scale);
+  const rect = { x: left, y: top, width: Math.min(1 - left, width / scale), height: Math.min(1 - top, height / scale) };
+  return rect.width >= MIN_REGION_SIZE && rect.height >= MIN_REGION_SIZE ? { shape: 'rect', ...rect } : undefined;
+}
+
+/**
+ * Keep valid regions and anchor annotations without x/y at their region's center; others pass through
+ */
+export function normalizeAnnotationRegions(annotations: unknown[]): unknown[] {
+  return annotations.map(item => {
+    if (!item || typeof item !== 'object') return item;
+    const { region: rawRegion, boundingBox, ...annotation } = item as Record<string, unknown>;
+    const region = normalizeRegion(rawRegion ?? boundingBox);
+    if (!region) return annotation;
+    const hasAnchor = toNumber(annotation.x) != null && toNumber(annotation.y) != null;
+    if (hasAnchor) return { ...annotation, region };
+    const bounds = region.shape === 'rect' ? region : boundsOf(region.points);
+    return { ...annotation, region, x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 };
+  });
+}
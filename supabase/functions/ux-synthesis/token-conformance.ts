@@ -0,0 +1,221 @@
+// Design-token conformance of an analyzed screen. Colors come from Google Vision's dominant colors
+// and the AI's located samples; text sizes, spacing and radii from the AI's measurements (CSS px).
+// Mirrors the TokenConformance / TokenViolation types in src/types/ux-analysis.ts.
+
+type TokenKind = 'color' | 'fontSize' | 'spacing' | 'radius';
+
+type Token = { name: string; value: string | number };
+
+export type TokenSet = {
+  id: string;
+  name: string;
+  tokens: { colors?: Token[]; fontSizes?: Token[]; spacing?: Token[]; radii?: Token[] };
+};
+
+export type VisionColor = { color: string; percentage: number };
+
+type Measurement = { value: string | number; x?: number; y?: number; element?: string; coverage?: number };
+
+type Violation = {
+  id: string;
+  kind: TokenKind;
+  found: string | number;
+  token: Token | null;
+  distance: number;
+  coverage?: number;
+  annotationId?: string;
+};
+
+type Annotation = {
+  id: string;
+  x: number;
+  y: number;
+  type: 'issue';
+  title: string;
+  description: string;
+  severity: 'low' | 'medium' | 'high';
+};
+
+// Delta E below which two colors read as the same (screenshots add compression noise)
+const COLOR_TOLERANCE = 5;
+// Pixel tolerance of AI measurements per kind; type scales often step by 2px
+const DIMENSION_TOLERANCE: Record<Exclude<TokenKind, 'color'>, number> = { fontSize: 0.5, spacing: 1, radius: 1 };
+// Beyond this delta E the nearest token is a different color, not a near miss
+const COLOR_REPLACEABLE = 20;
+// Dominant colors covering less of the screen are usually anti-aliasing or photos
+const MIN_COLOR_COVERAGE = 1;
+const MAX_TOKEN_ANNOTATIONS = 12;
+
+const KIND_LABELS: Record<TokenKind, string> = { color: 'color', fontSize: 'text size', spacing: 'spacing', radius: 'corner radius' };
+
+function toHex(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const match = value.trim().match(/^#?([0-9a-f]{6}|[0-9a-f]{3})$/i);
+  if (!match) return null;
+  const digits = match[1].length === 3 ? match[1].split('').map(d => d + d).join('') : match[1];
+  return `#${digits.toUpperCase()}`;
+}
+
+function toLab(hex: string): [number, number, number] {
+  const channel = (offset: number) => {
+    const c = parseInt(hex.slice(offset, offset + 2), 16) / 255;
+    return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  };
+  const [r, g, b] = [channel(1), channel(3), channel(5)];
+  const f = (t: number) => t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116;
+  const x = f((r * 0.4124 + g * 0.3576 + b * 0.1805) / 0.95047);
+  const y = f(r * 0.2126 + g * 0.7152 + b * 0.0722);
+  const z = f((r * 0.0193 + g * 0.1192 + b * 0.9505) / 1.08883);
+  return [116 * y - 16, 500 * (x - y), 200 * (y - z)];
+}
+
+function deltaE(a: string, b: string): number {
+  const [l1, a1, b1] = toLab(a);
+  const [l2, a2, b2] = toLab(b);
+  return Math.sqrt((l1 - l2) ** 2 + (a1 - a2) ** 2 + (b1 - b2) ** 2);
+}
+
+function nearest(kind: TokenKind, found: string | number, tokens: Token[]): { token: Token | null; distance: number } {
+  let best: Token | null = null;
+  let distance = Infinity;
+  for (const token of tokens) {
+    const d = kind === 'color'
+      ? deltaE(found as string, token.value as string)
+      : Math.abs((found as number) - (token.value as number));
+    if (d < distance) {
+      best = token;
+      distance = d;
+    }
+  }
+  return { token: best, distance: Math.round(distance * 10) / 10 };
+}
+
+function clamp01(n: unknown): number | undefined {
+  const v = Number(n);
+  return Number.isFinite(v) ? Math.max(0, Math.min(1, v)) : undefined;
+}
+
+function readMeasurements(raw: unknown, key: string, kind: TokenKind): Measurement[] {
+  const list = raw && typeof raw === 'object' ? (raw as Record<string, unknown>)[key] : null;
+  if (!Array.isArray(list)) return [];
+  return list.flatMap((item): Measurement[] => {
+    if (!item || typeof item !== 'object') return [];
+    const m = item as Record<string, unknown>;
+    const value = kind === 'color' ? toHex(m.hex ?? m.color) : Number(m.px ?? m.value);
+    if (value == null || (typeof value === 'number' && (!Number.isFinite(value) || value <= 0))) return [];
+    return [{ value, x: clamp01(m.x), y: clamp01(m.y), element: typeof m.element === 'string' ? m.element : undefined }];
+  });
+}
+
+/**
+ * Dominant colors from the google-vision-metadata response, as VisionMetadata.colors
+ */
+export function toVisionColors(googleResult: unknown): VisionColor[] {
+  const field = (value: unknown, key: string): unknown =>
+    value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined;
+  const properties = field(field(googleResult, 'metadata'), 'imageProperties') ?? field(googleResult, 'imageProperties');
+  const dominant = field(properties, 'dominantColors');
+  if (!Array.isArray(dominant)) return [];
+  const hex = (n: unknown) => Math.max(0, Math.min(255, Math.round(Number(n) || 0))).toString(16).padStart(2, '0');
+  return dominant.map(c => {
+    const color = field(c, 'color');
+    return {
+      color: `#${hex(field(color, 'red'))}${hex(field(color, 'green'))}${hex(field(color, 'blue'))}`.toUpperCase(),
+      percentage: Math.round((Number(field(c, 'score')) || 0) * 1000) / 10,
+    };
+  });
+}
+
+export function checkTokenConformance(tokenSet: TokenSet, visionColors: VisionColor[], measurements: unknown) {
+  const tokens = tokenSet.tokens ?? {};
+  const checked: Record<TokenKind, number> = { color: 0, fontSize: 0, spacing: 0, radius: 0 };
+  const candidates: Array<{ kind: TokenKind; measurement: Measurement }> = [];
+
+  // Colors: AI samples carry a location; vision colors add coverage and catch what the AI missed
+  if (tokens.colors?.length) {
+    const colors = readMeasurements(measurements, 'colors', 'color');
+    for (const vision of visionColors) {
+      if (vision.percentage < MIN_COLOR_COVERAGE) continue;
+      const located = colors.find(c => deltaE(c.value as string, vision.color) <= COLOR_TOLERANCE);
+      if (located) located.coverage = Math.max(located.coverage ?? 0, vision.percentage);
+      else colors.push({ value: vision.color, coverage: vision.percentage, element: 'screen-wide color' });
+    }
+    const unique = colors.filter((c, i) => colors.findIndex(o => deltaE(o.value as string, c.value as string) <= 1) === i);
+    unique.forEach(measurement => candidates.push({ kind: 'color', measurement }));
+  }
+  if (tokens.fontSizes?.length) readMeasurements(measurements, 'textSizes', 'fontSize').forEach(measurement => candidates.push({ kind: 'fontSize', measurement }));
+  if (tokens.spacing?.length) readMeasurements(measurements, 'spacing', 'spacing').forEach(measurement => candidates.push({ kind: 'spacing', measurement }));
+  if (tokens.radii?.length) readMeasurements(measurements, 'radii', 'radius').forEach(measurement => candidates.push({ kind: 'radius', measurement }));
+
+  const tokenLists: Record<TokenKind, Token[]> = {
+    color: tokens.colors ?? [],
+    fontSize: tokens.fontSizes ?? [],
+    spacing: tokens.spacing ?? [],
+    radius: tokens.radii ?? [],
+  };
+
+  const found: Array<{ violation: Violation; measurement: Measurement }> = [];
+  for (const { kind, measurement } of candidates) {
+    checked[kind] += 1;
+    const { token, distance } = nearest(kind, measurement.value, tokenLists[kind]);
+    const tolerance = kind === 'color' ? COLOR_TOLERANCE : DIMENSION_TOLERANCE[kind];
+    if (distance <= tolerance) continue;
+    found.push({
+      violation: {
+        id: crypto.randomUUID(),
+        kind,
+        found: measurement.value,
+        token,
+        distance,
+        ...(measurement.coverage != null ? { coverage: measurement.coverage } : {}),
+      },
+      measurement,
+    });
+  }
+
+  // Annotate the most visible problems; the rest stay in the report
+  const severityOf = (v: Violation): Annotation['severity'] =>
+    v.kind === 'fontSize' || (v.kind === 'color' && (v.coverage ?? 0) >= 10) ? 'medium' : 'low';
+  const ranked = [...found].sort((a, b) =>
+    (severityOf(b.violation) === 'medium' ? 1 : 0) - (severityOf(a.violation) === 'medium' ? 1 : 0)
+  );
+
+  let unlocated = 0;
+  const annotations: Annotation[] = ranked.slice(0, MAX_TOKEN_ANNOTATIONS).map(({ violation, measurement }, index) => {
+    const id = `token-${violation.kind}-${index + 1}`;
+    violation.annotationId = id;
+    const value = violation.kind === 'color' ? violation.found : `${violation.found}px`;
+    const tokenLabel = violation.token
+      ? `${violation.token.name} (${violation.kind === 'color' ? violation.token.value : `${violation.token.value}px`})`
+      : null;
+    const suggestion = !tokenLabel
+      ? 'No matching token.'
+      : violation.kind === 'color' && violation.distance > COLOR_REPLACEABLE
+        ? `The nearest token is ${tokenLabel}; add this color to the token set if it is intentional.`
+        : `Use ${tokenLabel}.`;
+    const where = measurement.element ? ` (${measurement.element})` : '';
+    const coverage = violation.coverage != null ? ` It covers about ${violation.coverage}% of the screen.` : '';
+    // Colors only seen by vision have no position; stack them along the right edge
+    const hasPosition = measurement.x != null && measurement.y != null;
+    const position = hasPosition ? { x: measurement.x!, y: measurement.y! } : { x: 0.97, y: Math.min(0.95, 0.05 + 0.07 * unlocated++) };
+    return {
+      id,
+      ...position,
+      type: 'issue',
+      title: `Off-token ${KIND_LABELS[violation.kind]}: ${value}`,
+      description: `${value}${where} is not in ${tokenSet.name}.${coverage} ${suggestion}`,
+      severity: severityOf(violation),
+    };
+  });
+
+  const totalChecked = Object.values(checked).reduce((sum, n) => sum + n, 0);
+  const conformance = {
+    tokenSetId: tokenSet.id,
+    tokenSetName: tokenSet.name,
+    checked,
+    violations: found.map(f => f.violation),
+    score: totalChecked > 0 ? Math.round(((totalChecked - found.length) / totalChecked) * 100) : 100,
+  };
+
+  return { conformance, annotations };
+}
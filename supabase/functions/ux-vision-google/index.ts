@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { isJobCancelled, saveStageResult } from "../_shared/job-stages.ts";
 
 const corsHeaders: HeadersInit = {
   "Access-Control-Allow-Origin": "*",
@@ -59,6 +60,9 @@ serve(async (req: Request) => {
     if (!job) {
       return Response.json({ error: "Job not found" }, { status: 404, headers: corsHeaders });
     }
+    if (job.status === "cancelled") {
+      return Response.json({ cancelled: true, jobId: job.id }, { status: 409, headers: corsHeaders });
+    }
 
     const insertEvent = async (fields: Partial<{ event_name: string; status: string; progress: number; message: string; metadata: Json }>) => {
       const nowISO = new Date().toISOString();
@@ -136,13 +140,14 @@ serve(async (req: Request) => {
       .update({ current_stage: "vision", status: job.status === "pending" ? "processing" : job.status, progress: startedProgress })
       .eq("id", job.id);
 
+    const stageStartedAt = new Date().toISOString();
     await insertEvent({ event_name: "analysis/vision.started", status: "processing", progress: startedProgress, metadata: { provider: "google" } });
 
     // Call existing google-vision-metadata function
     let gData: any = null;
     let gErr: any = null;
     for (let attempt = 0; attempt < 3; attempt++) {
-      const { data, error } = await supabase.functions.invoke('google-vision-metadata', { body: { imageId: job.image_id, imageUrl: job.image_url, features: ['objects', 'text', 'labels'] } });
+      const { data, error } = await supabase.functions.invoke('google-vision-metadata', { body: { imageId: job.image_id, imageUrl: job.image_url, jobId: job.id, features: ['objects', 'text', 'labels', 'properties'] } });
       gData = data; gErr = error;
       if (!gErr) break;
       await new Promise(r => setTimeout(r, 300 * (attempt + 1)));
@@ -153,8 +158,13 @@ serve(async (req: Request) => {
       return Response.json({ error: gErr.message ?? 'Google Vision failed' }, { status: 502, headers: corsHeaders });
     }
 
+    if (await isJobCancelled(supabase, 'analysis', job.id)) {
+      return Response.json({ cancelled: true, jobId: job.id }, { status: 409, headers: corsHeaders });
+    }
+
     const completedProgress = Math.max(55, startedProgress);
     await insertEvent({ event_name: "analysis/vision.completed", status: "completed", progress: completedProgress, metadata: { provider: "google", result: gData ?? null } });
+    await saveStageResult(supabase, 'analysis', job.id, 'vision:google', { provider: 'google', result: gData ?? null }, stageStartedAt);
 
     // If both providers done (completed or failed), move to AI stage and dispatch
     const openaiDone = await markProviderDone('openai');
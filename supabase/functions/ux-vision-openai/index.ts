@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { estimateImageTokens, openAIUsage, recordUsage } from "../_shared/usage.ts";
+import { isJobCancelled, saveStageResult } from "../_shared/job-stages.ts";
 
 const corsHeaders: HeadersInit = {
   "Access-Control-Allow-Origin": "*",
@@ -58,6 +60,9 @@ serve(async (req: Request) => {
     if (!job) {
       return Response.json({ error: "Job not found" }, { status: 404, headers: corsHeaders });
     }
+    if (job.status === "cancelled") {
+      return Response.json({ cancelled: true, jobId: job.id }, { status: 409, headers: corsHeaders });
+    }
 
     const insertEvent = async (fields: Partial<{ event_name: string; status: string; progress: number; message: string; metadata: Json }>) => {
       const nowISO = new Date().toISOString();
@@ -135,6 +140,7 @@ serve(async (req: Request) => {
       .update({ current_stage: "vision", status: job.status === "pending" ? "processing" : job.status, progress: startedProgress })
       .eq("id", job.id);
 
+    const stageStartedAt = new Date().toISOString();
     await insertEvent({ event_name: "analysis/vision.started", status: "processing", progress: startedProgress, metadata: { provider: "openai" } });
 
     // Call OpenAI vision via Chat Completions with image
@@ -147,8 +153,10 @@ serve(async (req: Request) => {
     const visionPrompt = "Extract concise visual cues: main components, dominant layout regions, obvious affordances. Return JSON with keys: components[], textBlocks[], layoutSummary.";
 
     let resp: Response | null = null;
+    let startedAt = Date.now();
     for (let attempt = 0; attempt < 3; attempt++) {
       try {
+        startedAt = Date.now();
         resp = await fetch('https://api.openai.com/v1/chat/completions', {
           method: 'POST',
           headers: {
@@ -180,6 +188,10 @@ serve(async (req: Request) => {
     }
 
     const data = await resp.json();
+    await recordUsage(
+      { functionName: 'ux-vision-openai', jobId: job.id, userId: job.user_id },
+      { provider: 'openai', model: 'gpt-4o-mini', stage: 'vision', ...openAIUsage(data), imageTokens: estimateImageTokens('openai', 1), latencyMs: Date.now() - startedAt }
+    );
     let parsed: Json | null = null;
     try {
       parsed = JSON.parse(data.choices?.[0]?.message?.content ?? '{}');
@@ -188,8 +200,13 @@ serve(async (req: Request) => {
       return Response.json({ error: 'Failed to parse OpenAI response' }, { status: 500, headers: corsHeaders });
     }
 
+    if (await isJobCancelled(supabase, 'analysis', job.id)) {
+      return Response.json({ cancelled: true, jobId: job.id }, { status: 409, headers: corsHeaders });
+    }
+
     const completedProgress = Math.max(45, startedProgress);
     await insertEvent({ event_name: "analysis/vision.completed", status: "completed", progress: completedProgress, metadata: { provider: "openai", result: parsed } });
+    await saveStageResult(supabase, 'analysis', job.id, 'vision:openai', { provider: 'openai', result: parsed }, stageStartedAt);
 
     // If both providers done (completed or failed), move to AI stage and dispatch
     const openaiDone = await markProviderDone('openai');
@@ -0,0 +1,216 @@
+import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { isPublicUrl } from "../_shared/public-url.ts";
+
+// Sends pending webhook deliveries (queued by the analysis_events trigger or redeliver_webhook).
+// Runs every minute from pg_cron; redeliver_webhook also calls it with { deliveryId } to send a
+// redelivery right away. Callers authenticate with the X-Dispatch-Secret header (WEBHOOK_DISPATCH_SECRET,
+// also stored as the webhook_dispatch_secret Vault secret) or the service-role key.
+// Each request is signed with the endpoint secret:
+//   X-Figmant-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>">
+// Failed attempts are retried with exponential backoff until MAX_ATTEMPTS. Endpoints must resolve to
+// public addresses on every attempt and redirects are not followed, since editors can read the
+// stored response bodies.
+
+const corsHeaders: HeadersInit = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-dispatch-secret",
+};
+
+const MAX_ATTEMPTS = 6;
+const BASE_DELAY_SECONDS = 30; // 30s, 1m, 2m, 4m, 8m between the six attempts
+const BATCH_SIZE = 25;
+const REQUEST_TIMEOUT_MS = 10_000;
+const MAX_RESPONSE_BODY = 2000;
+
+type Delivery = {
+  id: string;
+  endpoint_id: string;
+  event_type: string;
+  payload: Record<string, unknown>;
+  attempts: number;
+};
+
+type Endpoint = {
+  id: string;
+  url: string;
+  secret: string;
+  is_active: boolean;
+};
+
+function getAdminClient() {
+  const url = Deno.env.get("SUPABASE_URL");
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!url || !serviceKey) {
+    throw new Error("Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY in Edge Function secrets");
+  }
+  return createClient(url, serviceKey, { auth: { persistSession: false } });
+}
+
+function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+function isAuthorized(req: Request): boolean {
+  const secret = Deno.env.get("WEBHOOK_DISPATCH_SECRET");
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  const provided = req.headers.get("x-dispatch-secret");
+  const bearer = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "");
+  return Boolean(
+    (secret && provided && safeEqual(provided, secret)) ||
+    (serviceKey && bearer && safeEqual(bearer, serviceKey)),
+  );
+}
+
+async function sign(secret: string, timestamp: number, body: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const mac = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(`${timestamp}.${body}`));
+  return Array.from(new Uint8Array(mac), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+async function send(delivery: Delivery, endpoint: Endpoint) {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const signature = await sign(endpoint.secret, timestamp, body);
+
+  let url: URL;
+  try {
+    url = new URL(endpoint.url);
+  } catch {
+    return { ok: false, status: null, body: null, error: "Invalid endpoint URL" };
+  }
+  if (!(await isPublicUrl(url))) {
+    return { ok: false, status: null, body: null, error: "Endpoint does not resolve to a public address" };
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    const resp = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "Figmant-Webhooks/1.0",
+        "X-Figmant-Event": delivery.event_type,
+        "X-Figmant-Delivery": delivery.id,
+        "X-Figmant-Signature": `t=${timestamp},v1=${signature}`,
+      },
+      body,
+      redirect: "manual",
+      signal: controller.signal,
+    });
+    if (resp.status >= 300 && resp.status < 400) {
+      await resp.body?.cancel();
+      return { ok: false, status: resp.status, body: null, error: `Redirects are not followed (HTTP ${resp.status})` };
+    }
+    const text = (await resp.text().catch(() => "")).slice(0, MAX_RESPONSE_BODY);
+    return { ok: resp.ok, status: resp.status, body: text, error: resp.ok ? null : `HTTP ${resp.status}` };
+  } catch (err) {
+    const message = err instanceof DOMException && err.name === "AbortError"
+      ? `No response within ${REQUEST_TIMEOUT_MS / 1000}s`
+      : err instanceof Error ? err.message : "Request failed";
+    return { ok: false, status: null, body: null, error: message };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== "POST") {
+      return Response.json({ error: "Method not allowed" }, { status: 405, headers: corsHeaders });
+    }
+    if (!isAuthorized(req)) {
+      return Response.json({ error: "Unauthorized" }, { status: 401, headers: corsHeaders });
+    }
+
+    const supabase = getAdminClient();
+    const body = await req.json().catch(() => ({} as Record<string, unknown>));
+    const deliveryId = typeof body.deliveryId === "string" ? body.deliveryId : null;
+
+    const { data: claimed, error: claimErr } = await supabase.rpc("claim_webhook_deliveries", {
+      _limit: BATCH_SIZE,
+      _delivery_id: deliveryId,
+    });
+    if (claimErr) {
+      console.error("[webhook-dispatcher] claim failed", claimErr);
+      return Response.json({ error: claimErr.message }, { status: 500, headers: corsHeaders });
+    }
+
+    const deliveries = (claimed ?? []) as Delivery[];
+    if (deliveries.length === 0) {
+      return Response.json({ ok: true, sent: 0, failed: 0 }, { status: 200, headers: corsHeaders });
+    }
+
+    const endpointIds = [...new Set(deliveries.map((d) => d.endpoint_id))];
+    const { data: endpointRows, error: endpointErr } = await supabase
+      .from("webhook_endpoints")
+      .select("id, url, secret, is_active")
+      .in("id", endpointIds);
+    if (endpointErr) {
+      console.error("[webhook-dispatcher] endpoint lookup failed", endpointErr);
+      return Response.json({ error: endpointErr.message }, { status: 500, headers: corsHeaders });
+    }
+    const endpoints = new Map((endpointRows as Endpoint[]).map((e) => [e.id, e]));
+
+    let sent = 0;
+    let failed = 0;
+    for (const delivery of deliveries) {
+      const endpoint = endpoints.get(delivery.endpoint_id);
+      const now = new Date().toISOString();
+
+      if (!endpoint?.is_active) {
+        await supabase
+          .from("webhook_deliveries")
+          .update({ status: "failed", error: "Endpoint is disabled" })
+          .eq("id", delivery.id);
+        failed++;
+        continue;
+      }
+
+      const result = await send(delivery, endpoint);
+      if (result.ok) {
+        sent++;
+        await supabase
+          .from("webhook_deliveries")
+          .update({ status: "succeeded", response_status: result.status, response_body: result.body, error: null, delivered_at: now })
+          .eq("id", delivery.id);
+        continue;
+      }
+
+      failed++;
+      const exhausted = delivery.attempts >= MAX_ATTEMPTS;
+      const delaySeconds = BASE_DELAY_SECONDS * 2 ** (delivery.attempts - 1);
+      await supabase
+        .from("webhook_deliveries")
+        .update({
+          status: exhausted ? "failed" : "pending",
+          response_status: result.status,
+          response_body: result.body,
+          error: result.error,
+          next_attempt_at: new Date(Date.now() + delaySeconds * 1000).toISOString(),
+        })
+        .eq("id", delivery.id);
+      console.warn(`[webhook-dispatcher] delivery ${delivery.id} attempt ${delivery.attempts} failed: ${result.error}`);
+    }
+
+    console.log(`[webhook-dispatcher] sent=${sent} failed=${failed}`);
+    return Response.json({ ok: true, sent, failed }, { status: 200, headers: corsHeaders });
+  } catch (err) {
+    console.error("[webhook-dispatcher] fatal", err);
+    return Response.json({ error: err instanceof Error ? err.message : "Unknown error" }, { status: 500, headers: corsHeaders });
+  }
+});
@@ -0,0 +1,107 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.4';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+function jsonResponse(body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...corsHeaders },
+  });
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
+    const SUPABASE_ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY');
+    const RESEND_API_KEY = Deno.env.get('RESEND_API_KEY');
+    const INVITE_FROM_EMAIL = Deno.env.get('INVITE_FROM_EMAIL') ?? 'Figmant <invites@figmant.ai>';
+
+    if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+      return jsonResponse({ error: 'Missing Supabase configuration' }, 500);
+    }
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    // Query as the caller so RLS only exposes invitations for workspaces they own
+    const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const { invitationId, inviteUrl } = await req.json();
+    if (!invitationId || typeof inviteUrl !== 'string' || !/^https?:\/\//.test(inviteUrl)) {
+      return jsonResponse({ error: 'invitationId and inviteUrl are required' }, 400);
+    }
+
+    const { data: invitation, error } = await supabase
+      .from('workspace_invitations')
+      .select('email, role, token, status, workspaces (name)')
+      .eq('id', invitationId)
+      .single();
+
+    if (error || !invitation) {
+      return jsonResponse({ error: 'Invitation not found' }, 404);
+    }
+    if (invitation.status !== 'pending' || !inviteUrl.endsWith(`/invite/${invitation.token}`)) {
+      return jsonResponse({ error: 'Invitation is no longer pending' }, 409);
+    }
+
+    if (!RESEND_API_KEY) {
+      console.warn('[workspace-invitation] RESEND_API_KEY not set, returning link without sending email');
+      return jsonResponse({ emailSent: false, inviteUrl });
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    const workspaceName = (invitation.workspaces as { name?: string } | null)?.name ?? 'a workspace';
+    const inviter = user?.email ?? 'A teammate';
+
+    const emailResponse = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${RESEND_API_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        from: INVITE_FROM_EMAIL,
+        to: [invitation.email],
+        subject: `${inviter} invited you to ${workspaceName} on Figmant`,
+        html: [
+          `<p>${escapeHtml(inviter)} invited you to join <strong>${escapeHtml(workspaceName)}</strong> as ${escapeHtml(invitation.role)}.</p>`,
+          `<p><a href="${escapeHtml(inviteUrl)}">Accept the invitation</a></p>`,
+          '<p>The link expires in 7 days. Sign in or create an account with this email address to accept it.</p>',
+        ].join(''),
+      }),
+    });
+
+    if (!emailResponse.ok) {
+      console.error('[workspace-invitation] Email provider error:', emailResponse.status, await emailResponse.text());
+      return jsonResponse({ emailSent: false, inviteUrl });
+    }
+
+    return jsonResponse({ emailSent: true, inviteUrl });
+  } catch (error) {
+    console.error('[workspace-invitation] Error:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
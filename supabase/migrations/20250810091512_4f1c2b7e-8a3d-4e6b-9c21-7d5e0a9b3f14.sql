@@ -0,0 +1,30 @@
+-- Analysis chat: persisted multi-turn conversations grounded in a single UX analysis
+CREATE TABLE IF NOT EXISTS public.analysis_chat_messages (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  image_id UUID REFERENCES public.images(id) ON DELETE CASCADE,
+  analysis_id UUID REFERENCES public.ux_analyses(id) ON DELETE CASCADE NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+  content TEXT NOT NULL,
+  metadata JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+ALTER TABLE public.analysis_chat_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own analysis chat messages"
+ON public.analysis_chat_messages FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own analysis chat messages"
+ON public.analysis_chat_messages FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own analysis chat messages"
+ON public.analysis_chat_messages FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_analysis_chat_messages_thread
+  ON public.analysis_chat_messages (user_id, analysis_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_analysis_chat_messages_image_id
+  ON public.analysis_chat_messages (image_id);
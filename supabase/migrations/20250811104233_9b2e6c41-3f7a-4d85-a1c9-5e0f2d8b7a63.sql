@@ -0,0 +1,520 @@
+-- Team workspaces: projects are owned by a workspace whose members have roles
+-- (owner > editor > commenter > viewer). Every user gets a personal workspace so
+-- existing single-owner projects keep working unchanged.
+
+CREATE TABLE IF NOT EXISTS public.workspaces (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  owner_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  is_personal BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.workspace_members (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'commenter', 'viewer')),
+  email TEXT,
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  UNIQUE (workspace_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.workspace_invitations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE NOT NULL,
+  email TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('editor', 'commenter', 'viewer')),
+  token TEXT NOT NULL UNIQUE DEFAULT encode(gen_random_bytes(24), 'hex'),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'revoked')),
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  accepted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  accepted_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT (NOW() + INTERVAL '7 days'),
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+ALTER TABLE public.projects
+  ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_workspace_members_user_id ON public.workspace_members (user_id);
+CREATE INDEX IF NOT EXISTS idx_workspace_invitations_workspace_id ON public.workspace_invitations (workspace_id, status);
+CREATE INDEX IF NOT EXISTS idx_projects_workspace_id ON public.projects (workspace_id);
+
+CREATE TRIGGER update_workspaces_updated_at
+  BEFORE UPDATE ON public.workspaces
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ============================================================================
+-- ROLE HELPERS (SECURITY DEFINER so policies on member tables don't recurse)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.workspace_role_rank(_role TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE _role
+    WHEN 'owner' THEN 4
+    WHEN 'editor' THEN 3
+    WHEN 'commenter' THEN 2
+    WHEN 'viewer' THEN 1
+    ELSE 0
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_workspace_role(_workspace_id UUID, _min_role TEXT DEFAULT 'viewer')
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.workspace_members wm
+    WHERE wm.workspace_id = _workspace_id
+      AND wm.user_id = auth.uid()
+      AND public.workspace_role_rank(wm.role) >= public.workspace_role_rank(_min_role)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_project_role(_project_id UUID, _min_role TEXT DEFAULT 'viewer')
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.projects p
+    WHERE p.id = _project_id
+      AND p.workspace_id IS NOT NULL
+      AND public.has_workspace_role(p.workspace_id, _min_role)
+  );
+$$;
+
+-- ============================================================================
+-- PERSONAL WORKSPACES & BACKFILL
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.add_workspace_owner_membership()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.workspace_members (workspace_id, user_id, role, email)
+  VALUES (NEW.id, NEW.owner_id, 'owner', (SELECT email FROM auth.users WHERE id = NEW.owner_id))
+  ON CONFLICT (workspace_id, user_id) DO UPDATE SET role = 'owner';
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER add_workspace_owner_membership
+  AFTER INSERT ON public.workspaces
+  FOR EACH ROW
+  EXECUTE FUNCTION public.add_workspace_owner_membership();
+
+CREATE OR REPLACE FUNCTION public.ensure_personal_workspace(_user_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _workspace_id UUID;
+BEGIN
+  SELECT id INTO _workspace_id
+  FROM public.workspaces
+  WHERE owner_id = _user_id AND is_personal
+  ORDER BY created_at
+  LIMIT 1;
+
+  IF _workspace_id IS NULL THEN
+    INSERT INTO public.workspaces (name, owner_id, is_personal)
+    VALUES ('Personal', _user_id, true)
+    RETURNING id INTO _workspace_id;
+  END IF;
+
+  RETURN _workspace_id;
+END;
+$$;
+
+-- Only triggers and the wrapper below may create workspaces on behalf of a user id
+REVOKE EXECUTE ON FUNCTION public.ensure_personal_workspace(UUID) FROM PUBLIC, anon, authenticated;
+
+-- The signed-in user's personal workspace, created on first use
+CREATE OR REPLACE FUNCTION public.ensure_my_personal_workspace()
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  RETURN public.ensure_personal_workspace(auth.uid());
+END;
+$$;
+
+-- Projects created without a workspace land in the creator's personal workspace
+CREATE OR REPLACE FUNCTION public.assign_project_workspace()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.workspace_id IS NULL THEN
+    NEW.workspace_id := public.ensure_personal_workspace(NEW.user_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_project_workspace
+  BEFORE INSERT ON public.projects
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_project_workspace();
+
+UPDATE public.projects
+SET workspace_id = public.ensure_personal_workspace(user_id)
+WHERE workspace_id IS NULL AND user_id IS NOT NULL;
+
+-- ============================================================================
+-- INVITATIONS
+-- ============================================================================
+
+-- Accept an emailed invitation link; the signed-in user's email must match the invite
+CREATE OR REPLACE FUNCTION public.accept_workspace_invitation(_token TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _invitation public.workspace_invitations%ROWTYPE;
+  _email TEXT := lower(coalesce(auth.jwt() ->> 'email', ''));
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO _invitation FROM public.workspace_invitations WHERE token = _token;
+
+  IF NOT FOUND OR _invitation.status = 'revoked' THEN
+    RAISE EXCEPTION 'Invitation not found';
+  END IF;
+  IF _invitation.status = 'accepted' THEN
+    IF _invitation.accepted_by = auth.uid() THEN
+      RETURN _invitation.workspace_id;
+    END IF;
+    RAISE EXCEPTION 'Invitation has already been used';
+  END IF;
+  IF _invitation.expires_at < NOW() THEN
+    RAISE EXCEPTION 'Invitation has expired';
+  END IF;
+  IF lower(_invitation.email) <> _email THEN
+    RAISE EXCEPTION 'Invitation was sent to a different email address';
+  END IF;
+
+  INSERT INTO public.workspace_members (workspace_id, user_id, role, email, invited_by)
+  VALUES (_invitation.workspace_id, auth.uid(), _invitation.role, _email, _invitation.invited_by)
+  ON CONFLICT (workspace_id, user_id) DO UPDATE
+    SET role = CASE
+      WHEN public.workspace_role_rank(workspace_members.role) >= public.workspace_role_rank(EXCLUDED.role)
+        THEN workspace_members.role
+      ELSE EXCLUDED.role
+    END;
+
+  UPDATE public.workspace_invitations
+  SET status = 'accepted', accepted_by = auth.uid(), accepted_at = NOW()
+  WHERE id = _invitation.id;
+
+  RETURN _invitation.workspace_id;
+END;
+$$;
+
+-- ============================================================================
+-- RLS: WORKSPACE TABLES
+-- ============================================================================
+
+ALTER TABLE public.workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workspace_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workspace_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their workspaces"
+ON public.workspaces FOR SELECT
+USING (owner_id = auth.uid() OR public.has_workspace_role(id, 'viewer'));
+
+CREATE POLICY "Users can create workspaces they own"
+ON public.workspaces FOR INSERT
+WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "Owners can update their workspaces"
+ON public.workspaces FOR UPDATE
+USING (public.has_workspace_role(id, 'owner'));
+
+CREATE POLICY "Owners can delete non-personal workspaces"
+ON public.workspaces FOR DELETE
+USING (public.has_workspace_role(id, 'owner') AND NOT is_personal);
+
+CREATE POLICY "Members can view workspace members"
+ON public.workspace_members FOR SELECT
+USING (public.has_workspace_role(workspace_id, 'viewer'));
+
+CREATE POLICY "Owners can add workspace members"
+ON public.workspace_members FOR INSERT
+WITH CHECK (public.has_workspace_role(workspace_id, 'owner'));
+
+CREATE POLICY "Owners can change member roles"
+ON public.workspace_members FOR UPDATE
+USING (public.has_workspace_role(workspace_id, 'owner'));
+
+CREATE POLICY "Owners can remove members and members can leave"
+ON public.workspace_members FOR DELETE
+USING (public.has_workspace_role(workspace_id, 'owner') OR user_id = auth.uid());
+
+CREATE POLICY "Owners can view invitations"
+ON public.workspace_invitations FOR SELECT
+USING (public.has_workspace_role(workspace_id, 'owner'));
+
+CREATE POLICY "Owners can create invitations"
+ON public.workspace_invitations FOR INSERT
+WITH CHECK (
+  public.has_workspace_role(workspace_id, 'owner')
+  AND invited_by = auth.uid()
+  AND NOT EXISTS (SELECT 1 FROM public.workspaces w WHERE w.id = workspace_id AND w.is_personal)
+);
+
+CREATE POLICY "Owners can revoke invitations"
+ON public.workspace_invitations FOR UPDATE
+USING (public.has_workspace_role(workspace_id, 'owner'));
+
+CREATE POLICY "Owners can delete invitations"
+ON public.workspace_invitations FOR DELETE
+USING (public.has_workspace_role(workspace_id, 'owner'));
+
+-- A workspace must always keep at least one owner
+CREATE OR REPLACE FUNCTION public.prevent_last_owner_removal()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.role = 'owner'
+     AND (TG_OP = 'DELETE' OR NEW.role <> 'owner')
+     AND EXISTS (SELECT 1 FROM public.workspaces w WHERE w.id = OLD.workspace_id)
+     AND NOT EXISTS (
+       SELECT 1 FROM public.workspace_members wm
+       WHERE wm.workspace_id = OLD.workspace_id AND wm.role = 'owner' AND wm.id <> OLD.id
+     ) THEN
+    RAISE EXCEPTION 'A workspace must have at least one owner';
+  END IF;
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER prevent_last_owner_removal
+  BEFORE UPDATE OR DELETE ON public.workspace_members
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_last_owner_removal();
+
+-- ============================================================================
+-- RLS: PROJECT DATA
+-- Access to projects and everything in them follows workspace roles only. The
+-- creator-based policies are dropped: permissive policies are OR-ed, so they
+-- would keep letting a creator who was downgraded or removed read, edit and delete.
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Users can view their own projects" ON public.projects;
+DROP POLICY IF EXISTS "Users can update their own projects" ON public.projects;
+DROP POLICY IF EXISTS "Users can delete their own projects" ON public.projects;
+
+DROP POLICY IF EXISTS "Users can view their own images" ON public.images;
+DROP POLICY IF EXISTS "Users can create their own images" ON public.images;
+DROP POLICY IF EXISTS "Users can upload their own images" ON public.images;
+DROP POLICY IF EXISTS "Users can update their own images" ON public.images;
+DROP POLICY IF EXISTS "Users can delete their own images" ON public.images;
+DROP POLICY IF EXISTS "Users can view images in their projects" ON public.images;
+DROP POLICY IF EXISTS "Users can create images in their projects" ON public.images;
+DROP POLICY IF EXISTS "Users can update images in their projects" ON public.images;
+DROP POLICY IF EXISTS "Users can delete images in their projects" ON public.images;
+
+DROP POLICY IF EXISTS "Users can view analyses for their images" ON public.ux_analyses;
+DROP POLICY IF EXISTS "Users can create analyses for their images" ON public.ux_analyses;
+DROP POLICY IF EXISTS "Users can update analyses for their images" ON public.ux_analyses;
+DROP POLICY IF EXISTS "Users can delete analyses for their images" ON public.ux_analyses;
+DROP POLICY IF EXISTS "Users can view their own analyses" ON public.ux_analyses;
+DROP POLICY IF EXISTS "Users can create their own analyses" ON public.ux_analyses;
+DROP POLICY IF EXISTS "Users can update their own analyses" ON public.ux_analyses;
+DROP POLICY IF EXISTS "Users can delete their own analyses" ON public.ux_analyses;
+
+DROP POLICY IF EXISTS "Users can view their own groups" ON public.image_groups;
+DROP POLICY IF EXISTS "Users can create their own groups" ON public.image_groups;
+DROP POLICY IF EXISTS "Users can update their own groups" ON public.image_groups;
+DROP POLICY IF EXISTS "Users can delete their own groups" ON public.image_groups;
+DROP POLICY IF EXISTS "Users can view groups in their projects" ON public.image_groups;
+DROP POLICY IF EXISTS "Users can create groups in their projects" ON public.image_groups;
+DROP POLICY IF EXISTS "Users can update groups in their projects" ON public.image_groups;
+DROP POLICY IF EXISTS "Users can delete groups in their projects" ON public.image_groups;
+
+DROP POLICY IF EXISTS "Users can view group images through their groups" ON public.group_images;
+DROP POLICY IF EXISTS "Users can add images to their groups" ON public.group_images;
+DROP POLICY IF EXISTS "Users can remove images from their groups" ON public.group_images;
+DROP POLICY IF EXISTS "Users can view group-image associations for their projects" ON public.group_images;
+DROP POLICY IF EXISTS "Users can create group-image associations for their projects" ON public.group_images;
+DROP POLICY IF EXISTS "Users can delete group-image associations for their projects" ON public.group_images;
+
+DROP POLICY IF EXISTS "Users can view their own group analyses" ON public.group_analyses;
+DROP POLICY IF EXISTS "Users can create their own group analyses" ON public.group_analyses;
+DROP POLICY IF EXISTS "Users can update their own group analyses" ON public.group_analyses;
+DROP POLICY IF EXISTS "Users can delete their own group analyses" ON public.group_analyses;
+DROP POLICY IF EXISTS "Users can view group analyses for their projects" ON public.group_analyses;
+DROP POLICY IF EXISTS "Users can create group analyses for their projects" ON public.group_analyses;
+DROP POLICY IF EXISTS "Users can update group analyses for their projects" ON public.group_analyses;
+DROP POLICY IF EXISTS "Users can delete group analyses for their projects" ON public.group_analyses;
+
+DROP POLICY IF EXISTS "Users can view their own canvas states" ON public.canvas_states;
+DROP POLICY IF EXISTS "Users can create their own canvas states" ON public.canvas_states;
+DROP POLICY IF EXISTS "Users can update their own canvas states" ON public.canvas_states;
+DROP POLICY IF EXISTS "Users can delete their own canvas states" ON public.canvas_states;
+DROP POLICY IF EXISTS "Users can view canvas state for their projects" ON public.canvas_states;
+DROP POLICY IF EXISTS "Users can create canvas state for their projects" ON public.canvas_states;
+DROP POLICY IF EXISTS "Users can update canvas state for their projects" ON public.canvas_states;
+DROP POLICY IF EXISTS "Users can delete canvas state for their projects" ON public.canvas_states;
+
+-- Creating a project inside a workspace requires editor access to it
+DROP POLICY IF EXISTS "Users can create their own projects" ON public.projects;
+CREATE POLICY "Users can create their own projects"
+ON public.projects FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND (workspace_id IS NULL OR public.has_workspace_role(workspace_id, 'editor'))
+);
+
+CREATE POLICY "Workspace members can view projects"
+ON public.projects FOR SELECT
+USING (public.has_workspace_role(workspace_id, 'viewer'));
+
+CREATE POLICY "Workspace editors can update projects"
+ON public.projects FOR UPDATE
+USING (public.has_workspace_role(workspace_id, 'editor'));
+
+CREATE POLICY "Workspace owners can delete projects"
+ON public.projects FOR DELETE
+USING (public.has_workspace_role(workspace_id, 'owner'));
+
+CREATE POLICY "Workspace members can view images"
+ON public.images FOR SELECT
+USING (public.has_project_role(project_id, 'viewer'));
+
+CREATE POLICY "Workspace editors can manage images"
+ON public.images FOR ALL
+USING (public.has_project_role(project_id, 'editor'))
+WITH CHECK (public.has_project_role(project_id, 'editor'));
+
+CREATE POLICY "Workspace members can view analyses"
+ON public.ux_analyses FOR SELECT
+USING (
+  public.has_project_role(project_id, 'viewer')
+  OR EXISTS (
+    SELECT 1 FROM public.images i
+    WHERE i.id = ux_analyses.image_id AND public.has_project_role(i.project_id, 'viewer')
+  )
+);
+
+CREATE POLICY "Workspace editors can manage analyses"
+ON public.ux_analyses FOR ALL
+USING (
+  public.has_project_role(project_id, 'editor')
+  OR EXISTS (
+    SELECT 1 FROM public.images i
+    WHERE i.id = ux_analyses.image_id AND public.has_project_role(i.project_id, 'editor')
+  )
+)
+WITH CHECK (
+  public.has_project_role(project_id, 'editor')
+  OR EXISTS (
+    SELECT 1 FROM public.images i
+    WHERE i.id = ux_analyses.image_id AND public.has_project_role(i.project_id, 'editor')
+  )
+);
+
+CREATE POLICY "Workspace members can view groups"
+ON public.image_groups FOR SELECT
+USING (public.has_project_role(project_id, 'viewer'));
+
+CREATE POLICY "Workspace editors can manage groups"
+ON public.image_groups FOR ALL
+USING (public.has_project_role(project_id, 'editor'))
+WITH CHECK (public.has_project_role(project_id, 'editor'));
+
+CREATE POLICY "Workspace members can view group images"
+ON public.group_images FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.image_groups g
+  WHERE g.id = group_images.group_id AND public.has_project_role(g.project_id, 'viewer')
+));
+
+CREATE POLICY "Workspace editors can manage group images"
+ON public.group_images FOR ALL
+USING (EXISTS (
+  SELECT 1 FROM public.image_groups g
+  WHERE g.id = group_images.group_id AND public.has_project_role(g.project_id, 'editor')
+))
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.image_groups g
+  WHERE g.id = group_images.group_id AND public.has_project_role(g.project_id, 'editor')
+));
+
+CREATE POLICY "Workspace members can view group analyses"
+ON public.group_analyses FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.image_groups g
+  WHERE g.id = group_analyses.group_id AND public.has_project_role(g.project_id, 'viewer')
+));
+
+CREATE POLICY "Workspace editors can manage group analyses"
+ON public.group_analyses FOR ALL
+USING (EXISTS (
+  SELECT 1 FROM public.image_groups g
+  WHERE g.id = group_analyses.group_id AND public.has_project_role(g.project_id, 'editor')
+))
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.image_groups g
+  WHERE g.id = group_analyses.group_id AND public.has_project_role(g.project_id, 'editor')
+));
+
+-- Comparison and persona runs have no image group; their analyses are found through the job
+CREATE POLICY "Workspace members can view group analyses of project jobs"
+ON public.group_analyses FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.group_analysis_jobs j
+  WHERE j.id::text = group_analyses.metadata->>'groupJobId' AND public.has_project_role(j.project_id, 'viewer')
+));
+
+CREATE POLICY "Workspace members can view canvas state"
+ON public.canvas_states FOR SELECT
+USING (public.has_project_role(project_id, 'viewer'));
+
+CREATE POLICY "Workspace editors can manage canvas state"
+ON public.canvas_states FOR ALL
+USING (public.has_project_role(project_id, 'editor'))
+WITH CHECK (public.has_project_role(project_id, 'editor'));
+
+-- Analysis job progress is readable by anyone who can read the project; chat threads stay private to their author
+CREATE POLICY "Workspace members can view analysis jobs"
+ON public.analysis_jobs FOR SELECT
+USING (public.has_project_role(project_id, 'viewer'));
+
+CREATE POLICY "Workspace members can view group analysis jobs"
+ON public.group_analysis_jobs FOR SELECT
+USING (public.has_project_role(project_id, 'viewer'));
@@ -0,0 +1,138 @@
+-- Human review of AI findings: threaded comments with @mentions and a resolution
+-- status (open / accepted / won't fix / fixed) on each annotation and suggestion.
+-- Findings live inside ux_analyses JSON, so they are addressed by (analysis_id, target_type, target_id).
+
+CREATE TABLE IF NOT EXISTS public.annotation_comments (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  analysis_id UUID REFERENCES public.ux_analyses(id) ON DELETE CASCADE NOT NULL,
+  target_type TEXT NOT NULL CHECK (target_type IN ('annotation', 'suggestion')),
+  target_id TEXT NOT NULL,
+  parent_id UUID REFERENCES public.annotation_comments(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  author_email TEXT,
+  body TEXT NOT NULL CHECK (length(trim(body)) > 0),
+  mentions UUID[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.annotation_statuses (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  analysis_id UUID REFERENCES public.ux_analyses(id) ON DELETE CASCADE NOT NULL,
+  target_type TEXT NOT NULL CHECK (target_type IN ('annotation', 'suggestion')),
+  target_id TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'accepted', 'wont_fix', 'fixed')),
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  UNIQUE (analysis_id, target_type, target_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_annotation_comments_target
+  ON public.annotation_comments (analysis_id, target_type, target_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_annotation_comments_mentions
+  ON public.annotation_comments USING GIN (mentions);
+CREATE INDEX IF NOT EXISTS idx_annotation_statuses_analysis_id
+  ON public.annotation_statuses (analysis_id);
+
+CREATE TRIGGER update_annotation_comments_updated_at
+  BEFORE UPDATE ON public.annotation_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_annotation_statuses_updated_at
+  BEFORE UPDATE ON public.annotation_statuses
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Analysis access follows its project's workspace role only, so a creator who was removed or
+-- downgraded loses it like any other member
+CREATE OR REPLACE FUNCTION public.has_analysis_role(_analysis_id UUID, _min_role TEXT DEFAULT 'viewer')
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.ux_analyses a
+    LEFT JOIN public.images i ON i.id = a.image_id
+    WHERE a.id = _analysis_id
+      AND public.has_project_role(COALESCE(a.project_id, i.project_id), _min_role)
+  );
+$$;
+
+ALTER TABLE public.annotation_comments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.annotation_statuses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view annotation comments"
+ON public.annotation_comments FOR SELECT
+USING (public.has_analysis_role(analysis_id, 'viewer'));
+
+CREATE POLICY "Commenters can add annotation comments"
+ON public.annotation_comments FOR INSERT
+WITH CHECK (user_id = auth.uid() AND public.has_analysis_role(analysis_id, 'commenter'));
+
+CREATE POLICY "Authors can edit their annotation comments"
+ON public.annotation_comments FOR UPDATE
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid() AND public.has_analysis_role(analysis_id, 'commenter'));
+
+CREATE POLICY "Authors and owners can delete annotation comments"
+ON public.annotation_comments FOR DELETE
+USING (user_id = auth.uid() OR public.has_analysis_role(analysis_id, 'owner'));
+
+CREATE POLICY "Members can view annotation statuses"
+ON public.annotation_statuses FOR SELECT
+USING (public.has_analysis_role(analysis_id, 'viewer'));
+
+CREATE POLICY "Editors can set annotation statuses"
+ON public.annotation_statuses FOR INSERT
+WITH CHECK (updated_by = auth.uid() AND public.has_analysis_role(analysis_id, 'editor'));
+
+CREATE POLICY "Editors can change annotation statuses"
+ON public.annotation_statuses FOR UPDATE
+USING (public.has_analysis_role(analysis_id, 'editor'))
+WITH CHECK (updated_by = auth.uid() AND public.has_analysis_role(analysis_id, 'editor'));
+
+-- Editing a comment changes its body only; it cannot be moved to another finding or thread
+CREATE OR REPLACE FUNCTION public.prevent_annotation_comment_move()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.analysis_id <> OLD.analysis_id
+     OR NEW.target_type <> OLD.target_type
+     OR NEW.target_id <> OLD.target_id
+     OR NEW.parent_id IS DISTINCT FROM OLD.parent_id THEN
+    RAISE EXCEPTION 'Comments cannot be moved to another finding';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_annotation_comment_move
+  BEFORE UPDATE ON public.annotation_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_annotation_comment_move();
+
+-- Comment threads update live for everyone looking at the same analysis
+ALTER TABLE public.annotation_comments REPLICA IDENTITY FULL;
+ALTER TABLE public.annotation_statuses REPLICA IDENTITY FULL;
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname='public' AND tablename='annotation_comments'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.annotation_comments;
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname='public' AND tablename='annotation_statuses'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.annotation_statuses;
+  END IF;
+END $$;
@@ -0,0 +1,58 @@
+-- Shared canvas layout for multi-user editing.
+-- canvas_states stays per user (viewport, tool, selection); node positions moved by any member
+-- of the project live here so late joiners see the merged layout.
+-- Each row is a last-writer-wins register ordered by (clock, updated_by): clients stamp moves with a
+-- Lamport clock, and the trigger below drops writes that lost the race instead of overwriting newer ones.
+
+CREATE TABLE IF NOT EXISTS public.canvas_node_positions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE NOT NULL,
+  node_id TEXT NOT NULL,
+  x DOUBLE PRECISION NOT NULL,
+  y DOUBLE PRECISION NOT NULL,
+  clock BIGINT NOT NULL DEFAULT 0,
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  UNIQUE (project_id, node_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_canvas_node_positions_project_id
+  ON public.canvas_node_positions (project_id);
+
+CREATE OR REPLACE FUNCTION public.keep_latest_canvas_node_position()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF (NEW.clock, COALESCE(NEW.updated_by::text, '')) < (OLD.clock, COALESCE(OLD.updated_by::text, '')) THEN
+    RETURN NULL;
+  END IF;
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER keep_latest_canvas_node_position
+  BEFORE UPDATE ON public.canvas_node_positions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.keep_latest_canvas_node_position();
+
+ALTER TABLE public.canvas_node_positions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view canvas node positions"
+ON public.canvas_node_positions FOR SELECT
+USING (public.has_project_role(project_id, 'viewer'));
+
+CREATE POLICY "Editors can place canvas nodes"
+ON public.canvas_node_positions FOR INSERT
+WITH CHECK (updated_by = auth.uid() AND public.has_project_role(project_id, 'editor'));
+
+CREATE POLICY "Editors can move canvas nodes"
+ON public.canvas_node_positions FOR UPDATE
+USING (public.has_project_role(project_id, 'editor'))
+WITH CHECK (updated_by = auth.uid());
+
+CREATE POLICY "Editors can clear canvas node positions"
+ON public.canvas_node_positions FOR DELETE
+USING (public.has_project_role(project_id, 'editor'));
@@ -0,0 +1,44 @@
+-- Custom analysis rubrics: named criteria (weight, description, pass/fail guidance) that replace the
+-- four built-in score categories for a project. A project can keep several rubrics; at most one is active
+-- and that one is injected into analysis prompts and drives per-criterion scores.
+
+CREATE TABLE IF NOT EXISTS public.analysis_rubrics (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  description TEXT,
+  -- [{ id, name, description, weight, passGuidance, failGuidance }]
+  criteria JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(criteria) = 'array'),
+  is_active BOOLEAN NOT NULL DEFAULT false,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_analysis_rubrics_project_id
+  ON public.analysis_rubrics (project_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_analysis_rubrics_one_active
+  ON public.analysis_rubrics (project_id) WHERE is_active;
+
+CREATE TRIGGER update_analysis_rubrics_updated_at
+  BEFORE UPDATE ON public.analysis_rubrics
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.analysis_rubrics ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view analysis rubrics"
+ON public.analysis_rubrics FOR SELECT
+USING (public.has_project_role(project_id, 'viewer'));
+
+CREATE POLICY "Editors can create analysis rubrics"
+ON public.analysis_rubrics FOR INSERT
+WITH CHECK (created_by = auth.uid() AND public.has_project_role(project_id, 'editor'));
+
+CREATE POLICY "Editors can update analysis rubrics"
+ON public.analysis_rubrics FOR UPDATE
+USING (public.has_project_role(project_id, 'editor'));
+
+CREATE POLICY "Editors can delete analysis rubrics"
+ON public.analysis_rubrics FOR DELETE
+USING (public.has_project_role(project_id, 'editor'));
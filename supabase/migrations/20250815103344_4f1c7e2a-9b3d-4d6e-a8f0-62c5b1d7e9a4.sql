@@ -0,0 +1,38 @@
+-- Design tokens per project (colors, type scale, spacing, radii), normalized from uploaded JSON,
+-- W3C Design Tokens or Style Dictionary files. Analyses of the project's images are checked against
+-- them and off-token colors, text sizes and spacing are reported with the nearest token.
+
+CREATE TABLE IF NOT EXISTS public.design_token_sets (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  source_format TEXT NOT NULL CHECK (source_format IN ('figmant', 'w3c', 'style_dictionary')),
+  -- { colors: [{ name, value }], fontSizes: [...], spacing: [...], radii: [...] }
+  tokens JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE TRIGGER update_design_token_sets_updated_at
+  BEFORE UPDATE ON public.design_token_sets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.design_token_sets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view design tokens"
+ON public.design_token_sets FOR SELECT
+USING (public.has_project_role(project_id, 'viewer'));
+
+CREATE POLICY "Editors can upload design tokens"
+ON public.design_token_sets FOR INSERT
+WITH CHECK (created_by = auth.uid() AND public.has_project_role(project_id, 'editor'));
+
+CREATE POLICY "Editors can update design tokens"
+ON public.design_token_sets FOR UPDATE
+USING (public.has_project_role(project_id, 'editor'));
+
+CREATE POLICY "Editors can delete design tokens"
+ON public.design_token_sets FOR DELETE
+USING (public.has_project_role(project_id, 'editor'));
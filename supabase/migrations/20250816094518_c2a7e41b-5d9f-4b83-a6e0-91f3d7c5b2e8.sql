@@ -0,0 +1,202 @@
+-- Token and cost accounting for every model call made by the edge functions, and monthly project
+-- budgets. A soft cap warns when a new analysis starts; a hard cap blocks new analysis jobs until the
+-- next month or until the cap is raised.
+
+CREATE TABLE IF NOT EXISTS public.model_usage (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_id UUID REFERENCES public.analysis_jobs(id) ON DELETE SET NULL,
+  group_job_id UUID REFERENCES public.group_analysis_jobs(id) ON DELETE SET NULL,
+  image_id UUID REFERENCES public.images(id) ON DELETE SET NULL,
+  project_id UUID REFERENCES public.projects(id) ON DELETE SET NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  function_name TEXT NOT NULL,
+  stage TEXT,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  input_tokens INTEGER NOT NULL DEFAULT 0 CHECK (input_tokens >= 0),
+  output_tokens INTEGER NOT NULL DEFAULT 0 CHECK (output_tokens >= 0),
+  -- Share of input_tokens spent on images (estimated where the API does not report it)
+  image_tokens INTEGER NOT NULL DEFAULT 0 CHECK (image_tokens >= 0),
+  -- Billable units for per-call priced APIs (generated images, Vision features)
+  units INTEGER NOT NULL DEFAULT 0 CHECK (units >= 0),
+  latency_ms INTEGER,
+  cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0 CHECK (cost_usd >= 0),
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_model_usage_project_created ON public.model_usage(project_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_model_usage_user_created ON public.model_usage(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_model_usage_job_id ON public.model_usage(job_id);
+CREATE INDEX IF NOT EXISTS idx_model_usage_image_id ON public.model_usage(image_id);
+
+-- Edge functions usually only know the job; fill image, project and user from it
+CREATE OR REPLACE FUNCTION public.fill_model_usage_context()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _job RECORD;
+BEGIN
+  IF NEW.job_id IS NOT NULL THEN
+    SELECT image_id, project_id, user_id INTO _job FROM public.analysis_jobs WHERE id = NEW.job_id;
+    IF FOUND THEN
+      NEW.image_id := COALESCE(NEW.image_id, _job.image_id);
+      NEW.project_id := COALESCE(NEW.project_id, _job.project_id);
+      NEW.user_id := COALESCE(NEW.user_id, _job.user_id);
+    END IF;
+  END IF;
+
+  IF NEW.group_job_id IS NOT NULL THEN
+    SELECT project_id, user_id INTO _job FROM public.group_analysis_jobs WHERE id = NEW.group_job_id;
+    IF FOUND THEN
+      NEW.project_id := COALESCE(NEW.project_id, _job.project_id);
+      NEW.user_id := COALESCE(NEW.user_id, _job.user_id);
+    END IF;
+  END IF;
+
+  IF NEW.project_id IS NULL AND NEW.image_id IS NOT NULL THEN
+    SELECT project_id INTO NEW.project_id FROM public.images WHERE id = NEW.image_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER fill_model_usage_context
+  BEFORE INSERT ON public.model_usage
+  FOR EACH ROW
+  EXECUTE FUNCTION public.fill_model_usage_context();
+
+ALTER TABLE public.model_usage ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by edge functions with the service role only
+CREATE POLICY "Users can view own model usage"
+ON public.model_usage FOR SELECT
+USING (user_id = auth.uid());
+
+CREATE POLICY "Members can view project model usage"
+ON public.model_usage FOR SELECT
+USING (project_id IS NOT NULL AND public.has_project_role(project_id, 'viewer'));
+
+CREATE TABLE IF NOT EXISTS public.project_budgets (
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE PRIMARY KEY,
+  monthly_soft_cap_usd NUMERIC(10, 2) CHECK (monthly_soft_cap_usd IS NULL OR monthly_soft_cap_usd >= 0),
+  monthly_hard_cap_usd NUMERIC(10, 2) CHECK (monthly_hard_cap_usd IS NULL OR monthly_hard_cap_usd >= 0),
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CHECK (monthly_soft_cap_usd IS NULL OR monthly_hard_cap_usd IS NULL OR monthly_soft_cap_usd <= monthly_hard_cap_usd)
+);
+
+CREATE TRIGGER update_project_budgets_updated_at
+  BEFORE UPDATE ON public.project_budgets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.project_budgets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view project budgets"
+ON public.project_budgets FOR SELECT
+USING (public.has_project_role(project_id, 'viewer'));
+
+CREATE POLICY "Owners can set project budgets"
+ON public.project_budgets FOR INSERT
+WITH CHECK (updated_by = auth.uid() AND public.has_project_role(project_id, 'owner'));
+
+CREATE POLICY "Owners can update project budgets"
+ON public.project_budgets FOR UPDATE
+USING (public.has_project_role(project_id, 'owner'));
+
+CREATE POLICY "Owners can delete project budgets"
+ON public.project_budgets FOR DELETE
+USING (public.has_project_role(project_id, 'owner'));
+
+-- Spend since the start of the current (UTC) month against the project's caps
+CREATE OR REPLACE FUNCTION public.project_budget_status(_project_id UUID)
+RETURNS TABLE (
+  month_spend_usd NUMERIC,
+  soft_cap_usd NUMERIC,
+  hard_cap_usd NUMERIC,
+  soft_cap_reached BOOLEAN,
+  hard_cap_reached BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH spend AS (
+    SELECT COALESCE(SUM(cost_usd), 0) AS total
+    FROM public.model_usage
+    WHERE project_id = _project_id
+      AND created_at >= date_trunc('month', NOW() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'
+  )
+  SELECT
+    s.total,
+    b.monthly_soft_cap_usd,
+    b.monthly_hard_cap_usd,
+    COALESCE(s.total >= b.monthly_soft_cap_usd, false),
+    COALESCE(s.total >= b.monthly_hard_cap_usd, false)
+  FROM spend s
+  LEFT JOIN public.project_budgets b ON b.project_id = _project_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_project_budget_status(_project_id UUID)
+RETURNS TABLE (
+  month_spend_usd NUMERIC,
+  soft_cap_usd NUMERIC,
+  hard_cap_usd NUMERIC,
+  soft_cap_reached BOOLEAN,
+  hard_cap_reached BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT * FROM public.project_budget_status(_project_id)
+  WHERE public.has_project_role(_project_id, 'viewer');
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.project_budget_status(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Hard caps block new jobs; the edge functions check first so users normally get a friendly error
+CREATE OR REPLACE FUNCTION public.enforce_project_budget()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _project_id UUID := NEW.project_id;
+  _status RECORD;
+BEGIN
+  IF _project_id IS NULL AND TG_TABLE_NAME = 'analysis_jobs' THEN
+    SELECT project_id INTO _project_id FROM public.images WHERE id = NEW.image_id;
+  END IF;
+  IF _project_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _status FROM public.project_budget_status(_project_id);
+  IF _status.hard_cap_reached THEN
+    RAISE EXCEPTION 'Monthly budget of $% reached for this project ($% spent)',
+      _status.hard_cap_usd, round(_status.month_spend_usd, 2)
+      USING ERRCODE = 'check_violation', HINT = 'budget_exceeded';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_analysis_job_budget
+  BEFORE INSERT ON public.analysis_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_project_budget();
+
+CREATE TRIGGER enforce_group_analysis_job_budget
+  BEFORE INSERT ON public.group_analysis_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_project_budget();
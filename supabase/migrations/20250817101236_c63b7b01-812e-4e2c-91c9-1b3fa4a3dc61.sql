@@ -0,0 +1,44 @@
+-- Saved stage outputs for the event-driven analysis pipelines. Each worker (vision per provider,
+-- context, ai, synthesis) upserts one completed row per job and stage, so a failed or cancelled job
+-- can be retried from the stage that failed while reusing the outputs it already paid for.
+-- Jobs may now also end in status 'cancelled' (set by the job-control function).
+
+CREATE TABLE IF NOT EXISTS public.worker_ant_results (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_id UUID REFERENCES public.analysis_jobs(id) ON DELETE CASCADE,
+  ant_type TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+  result JSONB,
+  error TEXT,
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ
+);
+
+ALTER TABLE public.worker_ant_results
+  ALTER COLUMN job_id DROP NOT NULL,
+  ADD COLUMN IF NOT EXISTS group_job_id UUID REFERENCES public.group_analysis_jobs(id) ON DELETE CASCADE;
+
+-- Keep only the latest row per job and stage before enforcing uniqueness
+DELETE FROM public.worker_ant_results a
+USING public.worker_ant_results b
+WHERE a.job_id IS NOT NULL
+  AND a.job_id = b.job_id
+  AND a.ant_type = b.ant_type
+  AND (COALESCE(a.completed_at, '-infinity'), a.id) < (COALESCE(b.completed_at, '-infinity'), b.id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_worker_ant_results_job_stage
+ON public.worker_ant_results(job_id, ant_type);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_worker_ant_results_group_job_stage
+ON public.worker_ant_results(group_job_id, ant_type);
+
+ALTER TABLE public.worker_ant_results ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by edge functions with the service role only
+DROP POLICY IF EXISTS "Users can view own job stage results" ON public.worker_ant_results;
+CREATE POLICY "Users can view own job stage results"
+ON public.worker_ant_results FOR SELECT
+USING (
+  EXISTS (SELECT 1 FROM public.analysis_jobs j WHERE j.id = job_id AND j.user_id = auth.uid())
+  OR EXISTS (SELECT 1 FROM public.group_analysis_jobs g WHERE g.id = group_job_id AND g.user_id = auth.uid())
+);
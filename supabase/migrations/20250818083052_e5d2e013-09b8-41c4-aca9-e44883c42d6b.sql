@@ -0,0 +1,66 @@
+-- Public REST API (api-access edge function). API keys authenticate outside of Supabase Auth, so
+-- auth.uid() is empty there: this overload of check_rate_limit counts requests for an explicit user
+-- and may only be called with the service role. Each key uses its own endpoint name
+-- ('api_key:<id>') with its rate_limit as the hourly maximum.
+
+CREATE OR REPLACE FUNCTION public.check_rate_limit(
+  endpoint_name TEXT,
+  max_requests INTEGER,
+  window_minutes INTEGER,
+  _user_id UUID
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  window_start_time TIMESTAMP WITH TIME ZONE;
+  current_count INTEGER;
+BEGIN
+  IF _user_id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  -- Same windows as check_rate_limit(endpoint_name, max_requests, window_minutes)
+  window_start_time := date_trunc('hour', NOW()) +
+    (EXTRACT(MINUTE FROM NOW())::INTEGER / window_minutes) * (window_minutes || ' minutes')::INTERVAL;
+
+  INSERT INTO public.rate_limits (user_id, endpoint, request_count, window_start)
+  VALUES (_user_id, endpoint_name, 1, window_start_time)
+  ON CONFLICT (user_id, endpoint, window_start)
+  DO UPDATE SET
+    request_count = rate_limits.request_count + 1,
+    created_at = NOW()
+  RETURNING request_count INTO current_count;
+
+  IF current_count > max_requests THEN
+    INSERT INTO public.security_logs (event_type, user_id, metadata)
+    VALUES ('rate_limit_exceeded', _user_id,
+      json_build_object('endpoint', endpoint_name, 'count', current_count, 'limit', max_requests));
+
+    RETURN false;
+  END IF;
+
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_rate_limit(TEXT, INTEGER, INTEGER, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.check_rate_limit(TEXT, INTEGER, INTEGER, UUID) TO service_role;
+
+-- Usage counters shown in the API Access panel
+CREATE OR REPLACE FUNCTION public.record_api_key_use(_api_key_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.api_keys
+  SET requests_made = requests_made + 1,
+      last_used_at = NOW()
+  WHERE id = _api_key_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_api_key_use(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_api_key_use(UUID) TO service_role;
@@ -0,0 +1,363 @@
+-- Outbound webhooks. Projects register HTTPS endpoints subscribed to job lifecycle events; a trigger
+-- on analysis_events turns matching events into pending deliveries and the webhook-dispatcher edge
+-- function sends them (HMAC-signed, retried with exponential backoff). Deliveries outlive the
+-- events they were made from, so the log survives the analysis_events retention cleanup.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA extensions;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+CREATE EXTENSION IF NOT EXISTS supabase_vault WITH SCHEMA vault;
+
+CREATE TABLE IF NOT EXISTS public.webhook_endpoints (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  url TEXT NOT NULL CHECK (url ~ '^https://'),
+  description TEXT,
+  events TEXT[] NOT NULL CHECK (
+    cardinality(events) > 0
+    AND events <@ ARRAY['analysis.completed', 'analysis.failed', 'group_analysis.completed', 'group_analysis.failed', 'concept.generated']
+  ),
+  secret TEXT NOT NULL DEFAULT 'whsec_' || encode(extensions.gen_random_bytes(24), 'hex'),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_project_id ON public.webhook_endpoints(project_id);
+
+CREATE TRIGGER update_webhook_endpoints_updated_at
+  BEFORE UPDATE ON public.webhook_endpoints
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Endpoints are requested from inside Supabase and editors can read the responses, so an endpoint
+-- may not name a loopback, private, link-local or metadata host. This catches literal addresses and
+-- internal names; the dispatcher checks what the host resolves to before every attempt.
+CREATE OR REPLACE FUNCTION public.is_public_webhook_url(_url TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  _authority TEXT := substring(_url from '^https://([^/?#]*)');
+  _host TEXT;
+  _ip INET;
+BEGIN
+  IF _authority IS NULL OR _authority = '' OR position('@' in _authority) > 0 THEN
+    RETURN false;
+  END IF;
+
+  _host := rtrim(lower(regexp_replace(_authority, ':[0-9]*$', '')), '.');
+  IF _host IN ('localhost', 'metadata') OR _host ~ '\.(localhost|local|internal)$' THEN
+    RETURN false;
+  END IF;
+
+  -- Browsers and Deno read a host whose last label is a number as an IPv4 address (also in decimal
+  -- or hex forms), so those must be a plain public address
+  IF _host ~ '^\[.*\]$' THEN
+    _ip := substr(_host, 2, length(_host) - 2)::inet;
+  ELSIF _host ~ '(^|\.)(0x[0-9a-f]*|[0-9]+)$' THEN
+    IF _host !~ '^[0-9]{1,3}(\.[0-9]{1,3}){3}$' THEN
+      RETURN false;
+    END IF;
+    _ip := _host::inet;
+  ELSE
+    RETURN true;
+  END IF;
+
+  RETURN NOT _ip <<= ANY (ARRAY[
+    '0.0.0.0/8', '10.0.0.0/8', '100.64.0.0/10', '127.0.0.0/8', '169.254.0.0/16', '172.16.0.0/12',
+    '192.0.0.0/24', '192.168.0.0/16', '198.18.0.0/15', '224.0.0.0/3',
+    '::/128', '::1/128', '::ffff:0:0/96', 'fc00::/7', 'fe80::/10', 'ff00::/8'
+  ]::inet[]);
+EXCEPTION WHEN invalid_text_representation THEN
+  RETURN false;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.validate_webhook_endpoint_url()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NOT public.is_public_webhook_url(NEW.url) THEN
+    RAISE EXCEPTION 'Webhook URLs must point to a public https host'
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_webhook_endpoint_url
+  BEFORE INSERT OR UPDATE OF url ON public.webhook_endpoints
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_webhook_endpoint_url();
+
+-- status: pending (waiting for its next attempt), succeeded, failed (gave up after the last attempt)
+CREATE TABLE IF NOT EXISTS public.webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  endpoint_id UUID NOT NULL REFERENCES public.webhook_endpoints(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  event_id UUID NOT NULL,
+  event_type TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_attempt_at TIMESTAMPTZ,
+  response_status INTEGER,
+  response_body TEXT,
+  error TEXT,
+  redelivery_of UUID REFERENCES public.webhook_deliveries(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  delivered_at TIMESTAMPTZ
+);
+
+-- One automatic delivery per endpoint and event; redeliveries are extra rows
+CREATE UNIQUE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint_event
+ON public.webhook_deliveries(endpoint_id, event_id)
+WHERE redelivery_of IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due
+ON public.webhook_deliveries(next_attempt_at)
+WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint_created
+ON public.webhook_deliveries(endpoint_id, created_at DESC);
+
+ALTER TABLE public.webhook_endpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Endpoints hold the signing secret, so only editors see them
+CREATE POLICY "Project editors can view webhook endpoints"
+ON public.webhook_endpoints FOR SELECT
+USING (public.has_project_role(project_id, 'editor'));
+
+CREATE POLICY "Project editors can create webhook endpoints"
+ON public.webhook_endpoints FOR INSERT
+WITH CHECK (public.has_project_role(project_id, 'editor') AND created_by = auth.uid());
+
+CREATE POLICY "Project editors can update webhook endpoints"
+ON public.webhook_endpoints FOR UPDATE
+USING (public.has_project_role(project_id, 'editor'))
+WITH CHECK (public.has_project_role(project_id, 'editor'));
+
+CREATE POLICY "Project editors can delete webhook endpoints"
+ON public.webhook_endpoints FOR DELETE
+USING (public.has_project_role(project_id, 'editor'));
+
+-- Deliveries are written by the trigger, redeliver_webhook and the dispatcher only
+CREATE POLICY "Project editors can view webhook deliveries"
+ON public.webhook_deliveries FOR SELECT
+USING (public.has_project_role(project_id, 'editor'));
+
+-- analysis_events name -> webhook event type; NULL for events that are not delivered. Vision
+-- failures are not job failures (the pipeline continues without that provider).
+CREATE OR REPLACE FUNCTION public.webhook_event_type(_event_name TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN _event_name = 'analysis/completed' THEN 'analysis.completed'
+    WHEN _event_name ~ '^analysis/(context|ai|synthesis)\.failed$' THEN 'analysis.failed'
+    WHEN _event_name = 'group-analysis/completed' THEN 'group_analysis.completed'
+    WHEN _event_name ~ '^group-analysis/(context|ai|synthesis)\.failed$' THEN 'group_analysis.failed'
+    WHEN _event_name = 'concept/generated' THEN 'concept.generated'
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enqueue_webhook_deliveries()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event_type TEXT := public.webhook_event_type(NEW.event_name);
+  _project_id UUID;
+  _image_id UUID;
+  _analysis_id TEXT;
+  _data JSONB;
+BEGIN
+  IF _event_type IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.job_id IS NOT NULL THEN
+    SELECT COALESCE(j.project_id, i.project_id), j.image_id
+    INTO _project_id, _image_id
+    FROM public.analysis_jobs j
+    LEFT JOIN public.images i ON i.id = j.image_id
+    WHERE j.id = NEW.job_id;
+
+    SELECT r.result->>'analysisId' INTO _analysis_id
+    FROM public.worker_ant_results r
+    WHERE r.job_id = NEW.job_id AND r.ant_type = 'synthesis';
+  ELSIF NEW.group_job_id IS NOT NULL THEN
+    SELECT g.project_id INTO _project_id
+    FROM public.group_analysis_jobs g
+    WHERE g.id = NEW.group_job_id;
+
+    SELECT r.result->>'analysisId' INTO _analysis_id
+    FROM public.worker_ant_results r
+    WHERE r.group_job_id = NEW.group_job_id AND r.ant_type = 'synthesis';
+  ELSIF (NEW.metadata->>'imageId') ~* '^[0-9a-f]{8}-([0-9a-f]{4}-){3}[0-9a-f]{12}$' THEN
+    -- Events outside a job (concept generation) name their image
+    SELECT i.project_id, i.id INTO _project_id, _image_id
+    FROM public.images i
+    WHERE i.id = (NEW.metadata->>'imageId')::uuid;
+    _analysis_id := NEW.metadata->>'analysisId';
+  END IF;
+
+  IF _project_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  _data := jsonb_strip_nulls(jsonb_build_object(
+    'job_id', NEW.job_id,
+    'group_job_id', NEW.group_job_id,
+    'image_id', _image_id,
+    'analysis_id', _analysis_id,
+    'failed_stage', CASE WHEN NEW.status = 'failed' THEN split_part(split_part(NEW.event_name, '/', 2), '.', 1) END,
+    'error', CASE WHEN NEW.status = 'failed' THEN NEW.message END,
+    'title', NEW.metadata->>'title',
+    'prompt', NEW.metadata->>'prompt'
+  ));
+
+  INSERT INTO public.webhook_deliveries (endpoint_id, project_id, event_id, event_type, payload)
+  SELECT e.id, e.project_id, NEW.id, _event_type, jsonb_build_object(
+    'id', NEW.id,
+    'type', _event_type,
+    'created_at', NEW.created_at,
+    'project_id', _project_id,
+    'data', _data
+  )
+  FROM public.webhook_endpoints e
+  WHERE e.project_id = _project_id
+    AND e.is_active
+    AND _event_type = ANY(e.events)
+  ON CONFLICT DO NOTHING;
+
+  RETURN NEW;
+EXCEPTION WHEN OTHERS THEN
+  -- Never fail the pipeline because of a webhook
+  RAISE WARNING 'enqueue_webhook_deliveries failed for event %: %', NEW.id, SQLERRM;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enqueue_webhook_deliveries ON public.analysis_events;
+CREATE TRIGGER enqueue_webhook_deliveries
+  AFTER INSERT ON public.analysis_events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enqueue_webhook_deliveries();
+
+-- Due deliveries for the dispatcher. Claiming counts the attempt and pushes next_attempt_at out so
+-- a concurrent run skips them; the dispatcher sets the real next attempt (or final status) after
+-- sending. Pass _delivery_id to send one delivery right away.
+CREATE OR REPLACE FUNCTION public.claim_webhook_deliveries(_limit INTEGER DEFAULT 25, _delivery_id UUID DEFAULT NULL)
+RETURNS SETOF public.webhook_deliveries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.webhook_deliveries d
+  SET attempts = d.attempts + 1,
+      last_attempt_at = now(),
+      next_attempt_at = now() + interval '5 minutes'
+  WHERE d.id IN (
+    SELECT p.id FROM public.webhook_deliveries p
+    WHERE p.status = 'pending'
+      AND p.next_attempt_at <= now()
+      AND (_delivery_id IS NULL OR p.id = _delivery_id)
+    ORDER BY p.next_attempt_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING d.*;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_webhook_deliveries(INTEGER, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_webhook_deliveries(INTEGER, UUID) TO service_role;
+
+-- Call the dispatcher, authenticated with the webhook_dispatch_secret Vault secret (the same value as
+-- the function's WEBHOOK_DISPATCH_SECRET). Without a _delivery_id it sends every due delivery.
+CREATE OR REPLACE FUNCTION public.dispatch_webhook_deliveries(_delivery_id UUID DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _secret TEXT;
+BEGIN
+  SELECT decrypted_secret INTO _secret
+  FROM vault.decrypted_secrets
+  WHERE name = 'webhook_dispatch_secret';
+
+  IF _secret IS NULL THEN
+    RAISE WARNING 'Vault secret webhook_dispatch_secret is missing; webhook deliveries are not dispatched';
+    RETURN;
+  END IF;
+
+  PERFORM net.http_post(
+    url := 'https://sdcmbfdtafkzpimwjpij.supabase.co/functions/v1/webhook-dispatcher',
+    headers := jsonb_build_object('Content-Type', 'application/json', 'X-Dispatch-Secret', _secret),
+    body := CASE
+      WHEN _delivery_id IS NULL THEN '{"trigger":"cron"}'::jsonb
+      ELSE jsonb_build_object('deliveryId', _delivery_id)
+    END
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.dispatch_webhook_deliveries(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.dispatch_webhook_deliveries(UUID) TO service_role;
+
+-- Queue a new delivery of the same payload (same event id, so receivers can deduplicate) and send it
+-- right away; if that fails it is retried on the usual schedule
+CREATE OR REPLACE FUNCTION public.redeliver_webhook(_delivery_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _original public.webhook_deliveries%ROWTYPE;
+  _new_id UUID;
+BEGIN
+  SELECT * INTO _original FROM public.webhook_deliveries WHERE id = _delivery_id;
+  IF NOT FOUND OR NOT public.has_project_role(_original.project_id, 'editor') THEN
+    RAISE EXCEPTION 'Webhook delivery not found';
+  END IF;
+
+  INSERT INTO public.webhook_deliveries (endpoint_id, project_id, event_id, event_type, payload, redelivery_of)
+  VALUES (_original.endpoint_id, _original.project_id, _original.event_id, _original.event_type, _original.payload, _original.id)
+  RETURNING id INTO _new_id;
+
+  PERFORM public.dispatch_webhook_deliveries(_new_id);
+  RETURN _new_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.redeliver_webhook(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.redeliver_webhook(UUID) TO authenticated;
+
+-- Send due deliveries (first attempts and retries) every minute
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'dispatch_webhook_deliveries') THEN
+    PERFORM cron.unschedule('dispatch_webhook_deliveries');
+  END IF;
+END$$;
+
+SELECT cron.schedule(
+  'dispatch_webhook_deliveries',
+  '* * * * *',
+  $$SELECT public.dispatch_webhook_deliveries()$$
+);
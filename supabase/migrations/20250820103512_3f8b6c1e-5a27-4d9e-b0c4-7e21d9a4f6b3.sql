@@ -0,0 +1,9 @@
+-- Order of the images in a group. Groups created from a PDF keep their page order so group
+-- analysis sees the pages as a sequence; existing associations all start at 0 and fall back to
+-- their image_id order.
+
+ALTER TABLE public.group_images
+  ADD COLUMN IF NOT EXISTS position INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_group_images_group_id_position
+  ON public.group_images(group_id, position);
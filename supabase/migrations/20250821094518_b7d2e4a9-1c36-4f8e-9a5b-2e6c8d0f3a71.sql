@@ -0,0 +1,7 @@
+-- User journeys. A group marked as a journey treats its images, in group_images.position order,
+-- as the steps of one flow; journey holds the labelled transitions between consecutive steps:
+-- {"transitions": [{"fromImageId": ..., "toImageId": ..., "label": "taps Checkout"}]}.
+-- NULL for ordinary groups.
+
+ALTER TABLE public.image_groups
+  ADD COLUMN IF NOT EXISTS journey JSONB;
@@ -0,0 +1,15 @@
+-- Competitor benchmarking. product_tag records whose product a screenshot shows:
+-- {"kind": "ours"} or {"kind": "competitor", "name": "Acme"}. NULL for untagged screens.
+
+ALTER TABLE public.images
+  ADD COLUMN IF NOT EXISTS product_tag JSONB;
+
+ALTER TABLE public.images
+  DROP CONSTRAINT IF EXISTS images_product_tag_check;
+
+ALTER TABLE public.images
+  ADD CONSTRAINT images_product_tag_check CHECK (
+    product_tag IS NULL
+    OR product_tag->>'kind' = 'ours'
+    OR (product_tag->>'kind' = 'competitor' AND length(btrim(coalesce(product_tag->>'name', ''))) > 0)
+  );
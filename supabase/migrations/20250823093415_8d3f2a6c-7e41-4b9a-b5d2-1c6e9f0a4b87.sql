@@ -0,0 +1,46 @@
+-- End-user personas: reusable descriptions of the people who use the product under review (e.g. a
+-- 65-year-old first-time buyer with low vision, a power-user admin). Unlike the user context, which
+-- describes the reader of a report, personas are the lens an analysis is run through; a persona run
+-- stores a snapshot of the persona on its group job so later edits do not rewrite past results.
+
+CREATE TABLE IF NOT EXISTS public.project_personas (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  description TEXT,
+  age INTEGER CHECK (age IS NULL OR age BETWEEN 1 AND 120),
+  tech_expertise TEXT NOT NULL DEFAULT 'intermediate'
+    CHECK (tech_expertise IN ('novice', 'intermediate', 'expert')),
+  goals TEXT[] NOT NULL DEFAULT '{}',
+  accessibility_needs TEXT[] NOT NULL DEFAULT '{}',
+  constraints TEXT[] NOT NULL DEFAULT '{}',
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_personas_project_id
+  ON public.project_personas (project_id);
+
+CREATE TRIGGER update_project_personas_updated_at
+  BEFORE UPDATE ON public.project_personas
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.project_personas ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view project personas"
+ON public.project_personas FOR SELECT
+USING (public.has_project_role(project_id, 'viewer'));
+
+CREATE POLICY "Editors can create project personas"
+ON public.project_personas FOR INSERT
+WITH CHECK (created_by = auth.uid() AND public.has_project_role(project_id, 'editor'));
+
+CREATE POLICY "Editors can update project personas"
+ON public.project_personas FOR UPDATE
+USING (public.has_project_role(project_id, 'editor'));
+
+CREATE POLICY "Editors can delete project personas"
+ON public.project_personas FOR DELETE
+USING (public.has_project_role(project_id, 'editor'));